@@ -14,6 +14,7 @@ import { errorHandler, notFoundHandler } from './shared/middleware/errorHandler'
 import { requestLogger, responseLogger } from './shared/middleware/logger';
 import routes from './shared/routes';
 import { apiLimiter, authLimiter } from './shared/config/rateLimiter';
+import { getMailTransport } from './shared/libraries/mail';
 import {
   helmetConfig,
   corsConfig,
@@ -22,6 +23,12 @@ import {
   hppWhitelist,
 } from './shared/config/security';
 import { pushNotificationService } from './modules/safety/domain/services/PushNotificationService';
+import { startShadowWatcher } from './modules/tour-agent/domain/workers/shadowWatcher';
+import { startTourPlanJobWorker } from './modules/tour-agent/domain/workers/tourPlanJobWorker';
+import { startIncidentLifecycleWorker } from './modules/transport/domain/workers/incidentLifecycleWorker';
+import { IncidentRepository } from './modules/transport/domain/repositories/IncidentRepository';
+import { startSafetyHeatmapWorker } from './modules/safety/domain/workers/safetyHeatmapWorker';
+import { startSosSessionWorker } from './modules/safety/domain/workers/sosSessionWorker';
 
 class App {
   public app: Application;
@@ -92,6 +99,10 @@ class App {
           if (req.headers['x-no-compression']) {
             return false;
           }
+          // Compression buffers output, which would hold back Server-Sent Events
+          if (String(res.getHeader('Content-Type') || '').startsWith('text/event-stream')) {
+            return false;
+          }
           return compression.filter(req, res);
         },
         level: 6, // Compression level (0-9)
@@ -126,12 +137,61 @@ class App {
 
   public async start(): Promise<void> {
     try {
+      // Fail fast on a mail setup that can't deliver account emails
+      getMailTransport();
+
+      // Signed media URLs would be forgeable with a default key; outside
+      // production config falls back to a development key
+      if (config.env === 'production' && !config.media.signingSecret) {
+        throw new Error('MEDIA_SIGNING_SECRET or JWT_SECRET must be set in production');
+      }
+
       // Connect to database
       await connectDatabase();
 
+      // Older deployments have a TTL index that deletes expired road incidents;
+      // drop it whether or not the lifecycle worker below is enabled
+      await new IncidentRepository().dropExpiryTtlIndex();
+
       // Initialize Firebase Admin SDK for push notifications
       pushNotificationService.initialize();
 
+      // Start the trip monitoring worker (Active Guardian)
+      if (config.shadowWatcher.enabled) {
+        startShadowWatcher({
+          checkIntervalMs: config.shadowWatcher.checkIntervalMs,
+          batchSize: config.shadowWatcher.batchSize,
+        });
+      }
+
+      // Run queued tour plan generation jobs
+      if (config.tourPlanJobs.enabled) {
+        startTourPlanJobWorker({
+          pollIntervalMs: config.tourPlanJobs.pollIntervalMs,
+          concurrency: config.tourPlanJobs.concurrency,
+        });
+      }
+
+      // Archive expired road incidents
+      if (config.incidentLifecycle.enabled) {
+        startIncidentLifecycleWorker({
+          checkIntervalMs: config.incidentLifecycle.checkIntervalMs,
+        });
+      }
+
+      // Time out SOS live location sessions
+      if (config.sos.workerEnabled) {
+        startSosSessionWorker({
+          checkIntervalMs: config.sos.checkIntervalMs,
+        });
+      }
+
+      // Rebuild the safety risk heatmap grid
+      if (config.safetyHeatmap.enabled) {
+        startSafetyHeatmapWorker({
+          recomputeIntervalMs: config.safetyHeatmap.recomputeIntervalMs,
+        });
+      }
 
       // Start server
       this.app.listen(config.port, () => {
@@ -1,37 +1,29 @@
 import { Request, Response, NextFunction } from 'express';
 import { AuthService } from '../../domain/services/AuthService';
+import { SessionService, SessionMetadata } from '../../domain/services/SessionService';
+import { AccountService } from '../../domain/services/AccountService';
+import { AuthRequest } from '../../../../shared/middleware/auth';
+import { AppError } from '../../../../shared/middleware/errorHandler';
 import config from '../../../../shared/config/config';
 
 export class AuthController {
   private authService: AuthService;
+  private sessionService: SessionService;
+  private accountService: AccountService;
 
   constructor() {
     this.authService = new AuthService();
+    this.sessionService = new SessionService();
+    this.accountService = new AccountService();
   }
 
   register = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const result = await this.authService.register(req.body);
 
-      // Set HTTP-only cookies
-      res.cookie('accessToken', result.tokens.accessToken, {
-        httpOnly: config.cookies.httpOnly,
-        secure: config.cookies.secure,
-        sameSite: config.cookies.sameSite,
-        maxAge: config.cookies.maxAge,
-      });
-
-      res.cookie('refreshToken', result.tokens.refreshToken, {
-        httpOnly: config.cookies.httpOnly,
-        secure: config.cookies.secure,
-        sameSite: config.cookies.sameSite,
-        maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
-      });
-
       res.status(201).json({
         success: true,
-        message: 'User registered successfully',
-        tokens: result.tokens,
+        message: 'User registered successfully. Check your email to verify your account.',
         user: {
           userId: String(result.user._id),
           email: result.user.email,
@@ -39,6 +31,7 @@ export class AuthController {
           name: `${result.user.firstName} ${result.user.lastName}`.trim(),
           picture: result.user.profilePicture,
           profileStatus: result.user.profileStatus,
+          emailVerified: false,
         },
       });
     } catch (error) {
@@ -48,7 +41,7 @@ export class AuthController {
 
   login = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const result = await this.authService.login(req.body);
+      const result = await this.authService.login(req.body, this.getSessionMetadata(req));
 
       // Set HTTP-only cookies
       res.cookie('accessToken', result.tokens.accessToken, {
@@ -96,7 +89,10 @@ export class AuthController {
         return;
       }
 
-      const tokens = await this.authService.refreshToken(refreshToken);
+      const tokens = await this.authService.refreshToken(
+        refreshToken,
+        this.getSessionMetadata(req)
+      );
 
       // Set new cookies
       res.cookie('accessToken', tokens.accessToken, {
@@ -123,8 +119,11 @@ export class AuthController {
     }
   };
 
-  logout = async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+  logout = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
+      // Revoke the session server-side so the refresh token cannot be reused
+      await this.authService.logout(req.cookies?.refreshToken || req.body?.refreshToken);
+
       // Clear cookies
       res.clearCookie('accessToken');
       res.clearCookie('refreshToken');
@@ -137,4 +136,131 @@ export class AuthController {
       next(error);
     }
   };
+
+  /**
+   * List the authenticated user's active sessions
+   * GET /auth/sessions
+   */
+  getSessions = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user?.userId) {
+        throw new AppError('Unauthorized', 401);
+      }
+
+      const sessions = await this.sessionService.listSessions(req.user.userId, req.user.sessionId);
+
+      res.status(200).json({
+        success: true,
+        data: { sessions, count: sessions.length },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Revoke one of the authenticated user's sessions
+   * DELETE /auth/sessions/:sessionId
+   */
+  revokeSession = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user?.userId) {
+        throw new AppError('Unauthorized', 401);
+      }
+
+      await this.sessionService.revokeSession(req.user.userId, req.params.sessionId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Session revoked',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Verify an email address with the emailed token
+   * POST /auth/verify-email
+   */
+  verifyEmail = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = await this.accountService.verifyEmail(req.body.token);
+
+      res.status(200).json({
+        success: true,
+        message: 'Email verified successfully',
+        user: {
+          userId: String(user._id),
+          email: user.email,
+          profileStatus: user.profileStatus,
+          emailVerified: true,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Send a new verification email
+   * POST /auth/resend-verification
+   */
+  resendVerification = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      await this.accountService.resendVerificationEmail(req.body.email);
+
+      res.status(200).json({
+        success: true,
+        message: 'If the account needs verification, a new email has been sent',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Email a password reset link
+   * POST /auth/forgot-password
+   */
+  forgotPassword = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      await this.accountService.requestPasswordReset(req.body.email);
+
+      res.status(200).json({
+        success: true,
+        message: 'If an account exists for that email, a reset link has been sent',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Set a new password with the emailed token
+   * POST /auth/reset-password
+   */
+  resetPassword = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      await this.accountService.resetPassword(req.body.token, req.body.password);
+
+      // Every session was revoked, including this one
+      res.clearCookie('accessToken');
+      res.clearCookie('refreshToken');
+
+      res.status(200).json({
+        success: true,
+        message: 'Password reset successfully. Please sign in with your new password.',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private getSessionMetadata(req: Request): SessionMetadata {
+    return {
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip,
+    };
+  }
 }
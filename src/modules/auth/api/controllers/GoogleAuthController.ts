@@ -2,12 +2,13 @@ import { Request, Response } from 'express';
 import config from '../../../../shared/config/config';
 import { logger } from '../../../../shared/config/logger';
 import { OAuth2Client } from 'google-auth-library';
-import { TokenService } from '../../domain/services/TokenService';
+import { SessionService } from '../../domain/services/SessionService';
 import { UserRepository } from '../../domain/repositories/UserRepository';
 
 export class GoogleAuthController {
   private client = new OAuth2Client(config.google?.clientId);
   private userRepository = new UserRepository();
+  private sessionService = new SessionService();
 
   //Get current authenticated user info
   public getProfile = async (req: any, res: Response): Promise<void> => {
@@ -120,6 +121,13 @@ export class GoogleAuthController {
             profilePicture: userData.picture || user.profilePicture,
             firstName: userData.firstName || user.firstName,
             lastName: userData.lastName || user.lastName,
+            // Google has confirmed the address, which completes verification
+            ...(email_verified && user.emailVerified === false
+              ? { emailVerified: true, emailVerifiedAt: new Date() }
+              : {}),
+            ...(email_verified && user.profileStatus === 'PendingVerification'
+              ? { profileStatus: 'Incomplete' as const }
+              : {}),
           });
           logger.info(`Linked Google account for existing user: ${userData.email}`);
         } else if (user.googleId === googleId) {
@@ -147,6 +155,8 @@ export class GoogleAuthController {
           lastName: userData.lastName,
           profilePicture: userData.picture,
           provider: 'google',
+          emailVerified: email_verified === true,
+          emailVerifiedAt: email_verified ? new Date() : undefined,
         });
 
         logger.info(`Created new user from Google: ${userData.email}`);
@@ -161,9 +171,13 @@ export class GoogleAuthController {
         return;
       }
 
-      // Generate tokens
-      const { accessToken, refreshToken, expiresIn } = TokenService.generateTokens(
-        String(user._id)
+      // Start a new session and issue its tokens
+      const { accessToken, refreshToken, expiresIn } = await this.sessionService.startSession(
+        user,
+        {
+          userAgent: req.get('user-agent'),
+          ipAddress: req.ip,
+        }
       );
 
       res.status(200).json({
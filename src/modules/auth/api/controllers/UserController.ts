@@ -1,6 +1,7 @@
 import { Response, NextFunction } from 'express';
 import { UserService } from '../../domain/services/UserService';
 import { AuthRequest } from '../../../../shared/middleware/auth';
+import { AppError } from '../../../../shared/middleware/errorHandler';
 
 export class UserController {
   private userService: UserService;
@@ -30,8 +31,10 @@ export class UserController {
           dob: user.dob,
           country: user.country,
           preferredLanguage: user.preferredLanguage,
+          phoneNumber: user.phoneNumber,
           profilePicture: user.profilePicture,
           isActive: user.isActive,
+          role: user.role,
           profileStatus: user.profileStatus,
           provider: user.provider,
           createdAt: user.createdAt,
@@ -60,8 +63,10 @@ export class UserController {
           dob: user.dob,
           country: user.country,
           preferredLanguage: user.preferredLanguage,
+          phoneNumber: user.phoneNumber,
           profilePicture: user.profilePicture,
           isActive: user.isActive,
+          role: user.role,
           profileStatus: user.profileStatus,
           provider: user.provider,
           createdAt: user.createdAt,
@@ -92,8 +97,10 @@ export class UserController {
           dob: user.dob,
           country: user.country,
           preferredLanguage: user.preferredLanguage,
+          phoneNumber: user.phoneNumber,
           profilePicture: user.profilePicture,
           isActive: user.isActive,
+          role: user.role,
           profileStatus: user.profileStatus,
           provider: user.provider,
           createdAt: user.createdAt,
@@ -135,8 +142,10 @@ export class UserController {
           dob: user.dob,
           country: user.country,
           preferredLanguage: user.preferredLanguage,
+          phoneNumber: user.phoneNumber,
           profilePicture: user.profilePicture,
           isActive: user.isActive,
+          role: user.role,
           profileStatus: user.profileStatus,
           provider: user.provider,
           createdAt: user.createdAt,
@@ -166,8 +175,10 @@ export class UserController {
           dob: user.dob,
           country: user.country,
           preferredLanguage: user.preferredLanguage,
+          phoneNumber: user.phoneNumber,
           profilePicture: user.profilePicture,
           isActive: user.isActive,
+          role: user.role,
           profileStatus: user.profileStatus,
           provider: user.provider,
           createdAt: user.createdAt,
@@ -179,6 +190,32 @@ export class UserController {
     }
   };
 
+  updateUserRole = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const actingUserId = req.user?.userId;
+      if (!actingUserId) {
+        throw new AppError('User not authenticated', 401);
+      }
+
+      const { userId } = req.params;
+      const user = await this.userService.updateRole(actingUserId, userId, req.body.role);
+
+      res.status(200).json({
+        success: true,
+        message: 'User role updated successfully',
+        user: {
+          userId: String(user._id),
+          email: user.email,
+          userName: user.userName,
+          role: user.role,
+          updatedAt: user.updatedAt,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
   deleteUser = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
     try {
       const { userId } = req.params;
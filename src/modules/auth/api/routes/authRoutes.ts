@@ -1,9 +1,18 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/AuthController';
 import { GoogleAuthController } from '../controllers/GoogleAuthController';
-import { validate } from '../../../../shared/middleware/validator';
-import { registerSchema, loginSchema, refreshTokenSchema } from '../validators/authValidator';
+import { validate, validateParams } from '../../../../shared/middleware/validator';
+import {
+  registerSchema,
+  loginSchema,
+  refreshTokenSchema,
+  sessionIdParamSchema,
+  emailSchema,
+  verifyEmailSchema,
+  resetPasswordSchema,
+} from '../validators/authValidator';
 import { authenticate } from '../../../../shared/middleware/auth';
+import { passwordResetLimiter } from '../../../../shared/config/rateLimiter';
 
 const router = Router();
 const authController = new AuthController();
@@ -25,18 +34,61 @@ router.post('/login', validate(loginSchema), authController.login);
 
 /**
  * @route   POST /api/v1/auth/refresh
- * @desc    Refresh access token
+ * @desc    Rotate the refresh token and issue a new access token
  * @access  Public
  */
 router.post('/refresh', validate(refreshTokenSchema), authController.refreshToken);
 
 /**
  * @route   POST /api/v1/auth/logout
- * @desc    Logout user and clear cookies
+ * @desc    Logout user, revoke the current session and clear cookies
  * @access  Public
  */
 router.post('/logout', authController.logout);
 
+/**
+ * @route   POST /api/v1/auth/verify-email
+ * @desc    Verify email address with the emailed token
+ * @access  Public
+ */
+router.post('/verify-email', validate(verifyEmailSchema), authController.verifyEmail);
+
+/**
+ * @route   POST /api/v1/auth/resend-verification
+ * @desc    Send a new verification email
+ * @access  Public
+ */
+router.post(
+  '/resend-verification',
+  passwordResetLimiter,
+  validate(emailSchema),
+  authController.resendVerification
+);
+
+/**
+ * @route   POST /api/v1/auth/forgot-password
+ * @desc    Email a password reset link
+ * @access  Public
+ */
+router.post(
+  '/forgot-password',
+  passwordResetLimiter,
+  validate(emailSchema),
+  authController.forgotPassword
+);
+
+/**
+ * @route   POST /api/v1/auth/reset-password
+ * @desc    Set a new password with the emailed token and revoke all sessions
+ * @access  Public
+ */
+router.post(
+  '/reset-password',
+  passwordResetLimiter,
+  validate(resetPasswordSchema),
+  authController.resetPassword
+);
+
 /**
  * @route   POST /api/v1/auth/google
  * @desc    Authenticate with Google ID token from mobile app
@@ -51,4 +103,23 @@ router.post('/google', googleAuthController.googleMobileAuth as any);
  */
 router.get('/profile', authenticate as any, googleAuthController.getProfile as any);
 
+/**
+ * @route   GET /api/v1/auth/sessions
+ * @desc    List active sessions for the current user
+ * @access  Private
+ */
+router.get('/sessions', authenticate as any, authController.getSessions as any);
+
+/**
+ * @route   DELETE /api/v1/auth/sessions/:sessionId
+ * @desc    Revoke one of the current user's sessions
+ * @access  Private
+ */
+router.delete(
+  '/sessions/:sessionId',
+  authenticate as any,
+  validateParams(sessionIdParamSchema),
+  authController.revokeSession as any
+);
+
 export default router;
@@ -1,8 +1,13 @@
 import { Router } from 'express';
 import { UserController } from '../controllers/UserController';
-import { authenticate } from '../../../../shared/middleware/auth';
+import { authenticate, authorize } from '../../../../shared/middleware/auth';
 import { validate, validateParams, validateQuery } from '../../../../shared/middleware/validator';
-import { updateUserSchema, userIdSchema, paginationSchema } from '../validators/userValidator';
+import {
+  updateUserSchema,
+  updateRoleSchema,
+  userIdSchema,
+  paginationSchema,
+} from '../validators/userValidator';
 
 const router = Router();
 const userController = new UserController();
@@ -27,34 +32,63 @@ router.put('/profile', validate(updateUserSchema), userController.updateProfile
 /**
  * @route   GET /api/v1/users
  * @desc    Get all users (with pagination)
- * @access  Private
+ * @access  Private (admin, moderator)
  */
-router.get('/', validateQuery(paginationSchema), userController.getAllUsers as any);
+router.get(
+  '/',
+  authorize('admin', 'moderator') as any,
+  validateQuery(paginationSchema),
+  userController.getAllUsers as any
+);
 
 /**
  * @route   GET /api/v1/users/:userId
  * @desc    Get user by ID
- * @access  Private
+ * @access  Private (admin, moderator)
  */
-router.get('/:userId', validateParams(userIdSchema), userController.getUserById as any);
+router.get(
+  '/:userId',
+  authorize('admin', 'moderator') as any,
+  validateParams(userIdSchema),
+  userController.getUserById as any
+);
 
 /**
  * @route   PUT /api/v1/users/:userId
  * @desc    Update user by ID
- * @access  Private
+ * @access  Private (admin)
  */
 router.put(
   '/:userId',
+  authorize('admin') as any,
   validateParams(userIdSchema),
   validate(updateUserSchema),
   userController.updateUser as any
 );
 
+/**
+ * @route   PATCH /api/v1/users/:userId/role
+ * @desc    Change a user's role
+ * @access  Private (admin)
+ */
+router.patch(
+  '/:userId/role',
+  authorize('admin') as any,
+  validateParams(userIdSchema),
+  validate(updateRoleSchema),
+  userController.updateUserRole as any
+);
+
 /**
  * @route   DELETE /api/v1/users/:userId
  * @desc    Delete user by ID
- * @access  Private
+ * @access  Private (admin)
  */
-router.delete('/:userId', validateParams(userIdSchema), userController.deleteUser as any);
+router.delete(
+  '/:userId',
+  authorize('admin') as any,
+  validateParams(userIdSchema),
+  userController.deleteUser as any
+);
 
 export default router;
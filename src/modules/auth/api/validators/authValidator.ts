@@ -32,3 +32,37 @@ export const refreshTokenSchema = Joi.object({
     'any.required': 'Refresh token is required',
   }),
 });
+
+export const sessionIdParamSchema = Joi.object({
+  sessionId: Joi.string().uuid().required().messages({
+    'string.guid': 'Invalid session ID',
+    'any.required': 'Session ID is required',
+  }),
+});
+
+export const emailSchema = Joi.object({
+  email: Joi.string().email().required().messages({
+    'string.email': 'Please provide a valid email address',
+    'any.required': 'Email is required',
+  }),
+});
+
+export const verifyEmailSchema = Joi.object({
+  token: Joi.string().hex().length(64).required().messages({
+    'string.hex': 'Invalid verification token',
+    'string.length': 'Invalid verification token',
+    'any.required': 'Verification token is required',
+  }),
+});
+
+export const resetPasswordSchema = Joi.object({
+  token: Joi.string().hex().length(64).required().messages({
+    'string.hex': 'Invalid reset token',
+    'string.length': 'Invalid reset token',
+    'any.required': 'Reset token is required',
+  }),
+  password: Joi.string().min(6).required().messages({
+    'string.min': 'Password must be at least 6 characters long',
+    'any.required': 'Password is required',
+  }),
+});
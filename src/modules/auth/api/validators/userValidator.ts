@@ -1,4 +1,5 @@
 import Joi from 'joi';
+import { USER_ROLES } from '../../domain/models/User';
 
 export const updateUserSchema = Joi.object({
   email: Joi.string().email().messages({
@@ -14,6 +15,12 @@ export const updateUserSchema = Joi.object({
   }),
   country: Joi.string().trim(),
   preferredLanguage: Joi.string().trim(),
+  phoneNumber: Joi.string()
+    .trim()
+    .pattern(/^\+[1-9]\d{7,14}$/)
+    .messages({
+      'string.pattern.base': 'Phone number must be in E.164 format (e.g. +94771234567)',
+    }),
   profileStatus: Joi.string().valid('Incomplete', 'Complete').messages({
     'any.only': 'Profile status must be Incomplete or Complete',
   }),
@@ -21,6 +28,16 @@ export const updateUserSchema = Joi.object({
   userName: Joi.string().trim(),
 });
 
+export const updateRoleSchema = Joi.object({
+  role: Joi.string()
+    .valid(...USER_ROLES)
+    .required()
+    .messages({
+      'any.only': `Role must be one of: ${USER_ROLES.join(', ')}`,
+      'any.required': 'Role is required',
+    }),
+});
+
 export const userIdSchema = Joi.object({
   userId: Joi.string().hex().length(24).required().messages({
     'string.hex': 'Invalid user ID format',
@@ -0,0 +1,54 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const ACCOUNT_TOKEN_TYPES = ['password_reset', 'email_verification'] as const;
+export type AccountTokenType = (typeof ACCOUNT_TOKEN_TYPES)[number];
+
+/**
+ * A single-use token emailed to a user (password reset, email verification).
+ * Only the SHA-256 hash of the token is stored.
+ */
+export interface IAccountToken extends Document {
+  userId: mongoose.Types.ObjectId;
+  type: AccountTokenType;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const accountTokenSchema = new Schema<IAccountToken>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ACCOUNT_TOKEN_TYPES,
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    usedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Expired tokens are removed by MongoDB
+accountTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+accountTokenSchema.index({ userId: 1, type: 1 });
+
+export const AccountToken = mongoose.model<IAccountToken>('AccountToken', accountTokenSchema);
@@ -0,0 +1,89 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const REVOKE_REASONS = [
+  'logout',
+  'reuse_detected',
+  'session_revoked',
+  'password_change',
+] as const;
+export type RevokeReason = (typeof REVOKE_REASONS)[number];
+
+/**
+ * A stored refresh token. Every login starts a token family (one per device
+ * session); each refresh rotates the family to a new token. Only the SHA-256
+ * hash of the token is stored.
+ */
+export interface IRefreshToken extends Document {
+  userId: mongoose.Types.ObjectId;
+  familyId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  replacedByHash?: string;
+  revokedAt?: Date;
+  revokedReason?: RevokeReason;
+  familyCreatedAt: Date;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const refreshTokenSchema = new Schema<IRefreshToken>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    familyId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    usedAt: {
+      type: Date,
+    },
+    replacedByHash: {
+      type: String,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedReason: {
+      type: String,
+      enum: REVOKE_REASONS,
+    },
+    familyCreatedAt: {
+      type: Date,
+      required: true,
+    },
+    userAgent: {
+      type: String,
+      trim: true,
+    },
+    ipAddress: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Expired tokens are removed by MongoDB
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+refreshTokenSchema.index({ userId: 1, revokedAt: 1, usedAt: 1 });
+
+export const RefreshToken = mongoose.model<IRefreshToken>('RefreshToken', refreshTokenSchema);
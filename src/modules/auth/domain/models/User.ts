@@ -1,6 +1,12 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
 
+export const USER_ROLES = ['traveller', 'moderator', 'admin'] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const PROFILE_STATUSES = ['PendingVerification', 'Incomplete', 'Complete'] as const;
+export type ProfileStatus = (typeof PROFILE_STATUSES)[number];
+
 export interface IUser extends Document {
   email: string;
   password?: string;
@@ -10,9 +16,13 @@ export interface IUser extends Document {
   gender: 'Male' | 'Female' | 'Other';
   dob: Date;
   isActive: boolean;
-  profileStatus: 'Incomplete' | 'Complete';
+  role: UserRole;
+  profileStatus: ProfileStatus;
+  emailVerified?: boolean;
+  emailVerifiedAt?: Date;
   country?: string;
   preferredLanguage?: string;
+  phoneNumber?: string;
   googleId?: string;
   profilePicture?: string;
   provider: 'local' | 'google';
@@ -68,11 +78,25 @@ const userSchema = new Schema<IUser>(
       type: Boolean,
       default: true,
     },
+    role: {
+      type: String,
+      enum: USER_ROLES,
+      default: 'traveller',
+      index: true,
+    },
     profileStatus: {
       type: String,
-      enum: ['Incomplete', 'Complete'],
+      enum: PROFILE_STATUSES,
       default: 'Incomplete',
     },
+    // Local accounts start unverified. Accounts created before verification
+    // existed have no value and are treated as verified.
+    emailVerified: {
+      type: Boolean,
+    },
+    emailVerifiedAt: {
+      type: Date,
+    },
     country: {
       type: String,
       trim: true,
@@ -81,6 +105,11 @@ const userSchema = new Schema<IUser>(
       type: String,
       trim: true,
     },
+    phoneNumber: {
+      type: String,
+      trim: true,
+      match: [/^\+[1-9]\d{7,14}$/, 'Phone number must be in E.164 format (e.g. +94771234567)'],
+    },
     googleId: {
       type: String,
       sparse: true,
@@ -1,7 +1,7 @@
 /**
  * UserPreferences Model
- * Stores user travel preferences, saved locations, and search history
- * Used for personalized recommendations via the AI Engine
+ * Stores user travel preferences, saved locations, search history and notification settings
+ * Shared by the tour agent (recommendations via the AI Engine) and weather alerts
  */
 
 import mongoose, { Document, Schema } from 'mongoose';
@@ -58,6 +58,17 @@ export interface IPreferenceScores {
   relaxation: number; // 0-1: Interest in relaxation and leisure (beaches, spas)
 }
 
+/**
+ * Notification toggles
+ */
+export interface INotificationPreferences {
+  goldenHourAlerts: boolean;
+  crowdAlerts: boolean;
+  eventAlerts: boolean;
+  poyaDayReminders: boolean;
+  highUVAlerts: boolean;
+}
+
 /**
  * Main UserPreferences document interface
  */
@@ -76,13 +87,7 @@ export interface IUserPreferences extends Document {
     city?: string;
     country?: string;
   };
-  notificationPreferences: {
-    goldenHourAlerts: boolean;
-    crowdAlerts: boolean;
-    eventAlerts: boolean;
-    poyaDayReminders: boolean;
-    highUVAlerts: boolean;
-  };
+  notificationPreferences: INotificationPreferences;
   lastUpdated: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -252,7 +257,7 @@ const homeLocationSchema = new Schema(
   { _id: false }
 );
 
-const notificationPreferencesSchema = new Schema(
+const notificationPreferencesSchema = new Schema<INotificationPreferences>(
   {
     goldenHourAlerts: {
       type: Boolean,
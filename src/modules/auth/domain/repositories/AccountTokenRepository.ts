@@ -0,0 +1,37 @@
+import mongoose from 'mongoose';
+import { AccountToken, IAccountToken, AccountTokenType } from '../models/AccountToken';
+
+export class AccountTokenRepository {
+  async create(data: Partial<IAccountToken>): Promise<IAccountToken> {
+    const token = new AccountToken(data);
+    return await token.save();
+  }
+
+  /**
+   * Atomically mark an unexpired, unused token as used, so it can only be redeemed once
+   */
+  async consume(tokenHash: string, type: AccountTokenType): Promise<IAccountToken | null> {
+    return await AccountToken.findOneAndUpdate(
+      {
+        tokenHash,
+        type,
+        usedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+      },
+      { usedAt: new Date() },
+      { new: true }
+    );
+  }
+
+  /**
+   * Remove outstanding tokens of a type, e.g. before issuing a new one
+   */
+  async deleteUnusedForUser(userId: string, type: AccountTokenType): Promise<number> {
+    const result = await AccountToken.deleteMany({
+      userId: new mongoose.Types.ObjectId(userId),
+      type,
+      usedAt: { $exists: false },
+    });
+    return result.deletedCount;
+  }
+}
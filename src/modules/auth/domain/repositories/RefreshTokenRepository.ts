@@ -0,0 +1,61 @@
+import mongoose from 'mongoose';
+import { RefreshToken, IRefreshToken, RevokeReason } from '../models/RefreshToken';
+
+export class RefreshTokenRepository {
+  async create(data: Partial<IRefreshToken>): Promise<IRefreshToken> {
+    const token = new RefreshToken(data);
+    return await token.save();
+  }
+
+  async findByHash(tokenHash: string): Promise<IRefreshToken | null> {
+    return await RefreshToken.findOne({ tokenHash });
+  }
+
+  /**
+   * Atomically mark a token as used, so concurrent refreshes cannot both rotate it
+   */
+  async markUsed(tokenHash: string): Promise<IRefreshToken | null> {
+    return await RefreshToken.findOneAndUpdate(
+      { tokenHash, usedAt: { $exists: false }, revokedAt: { $exists: false } },
+      { usedAt: new Date() },
+      { new: true }
+    );
+  }
+
+  async setReplacedBy(tokenHash: string, replacedByHash: string): Promise<void> {
+    await RefreshToken.updateOne({ tokenHash }, { replacedByHash });
+  }
+
+  /**
+   * Active tokens are the current head of each live family, i.e. one per session
+   */
+  async findActiveByUser(userId: string): Promise<IRefreshToken[]> {
+    return await RefreshToken.find({
+      userId: new mongoose.Types.ObjectId(userId),
+      usedAt: { $exists: false },
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    }).sort({ createdAt: -1 });
+  }
+
+  async revokeFamily(familyId: string, reason: RevokeReason, userId?: string): Promise<number> {
+    const filter: Record<string, unknown> = { familyId, revokedAt: { $exists: false } };
+    if (userId) {
+      filter.userId = new mongoose.Types.ObjectId(userId);
+    }
+
+    const result = await RefreshToken.updateMany(filter, {
+      revokedAt: new Date(),
+      revokedReason: reason,
+    });
+    return result.modifiedCount;
+  }
+
+  async revokeAllForUser(userId: string, reason: RevokeReason): Promise<number> {
+    const result = await RefreshToken.updateMany(
+      { userId: new mongoose.Types.ObjectId(userId), revokedAt: { $exists: false } },
+      { revokedAt: new Date(), revokedReason: reason }
+    );
+    return result.modifiedCount;
+  }
+}
@@ -0,0 +1,184 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { AccountTokenRepository } from '../repositories/AccountTokenRepository';
+import { UserRepository } from '../repositories/UserRepository';
+import { IUser } from '../models/User';
+import { AccountTokenType } from '../models/AccountToken';
+import { SessionService } from './SessionService';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+import { logger } from '../../../../shared/config/logger';
+import config from '../../../../shared/config/config';
+import { MailTransport, getMailTransport } from '../../../../shared/libraries/mail';
+
+/**
+ * Email verification and password reset for local accounts.
+ *
+ * Both flows email a random single-use token; only its SHA-256 hash is stored.
+ * Requests that start a flow never reveal whether an account exists.
+ */
+export class AccountService {
+  private accountTokenRepository: AccountTokenRepository;
+  private userRepository: UserRepository;
+  private sessionService: SessionService;
+  private mailTransport?: MailTransport;
+
+  constructor(mailTransport?: MailTransport) {
+    this.accountTokenRepository = new AccountTokenRepository();
+    this.userRepository = new UserRepository();
+    this.sessionService = new SessionService();
+    this.mailTransport = mailTransport;
+  }
+
+  // ============================================================================
+  // EMAIL VERIFICATION
+  // ============================================================================
+
+  /**
+   * Email a verification link, replacing any outstanding one
+   */
+  async sendVerificationEmail(user: IUser): Promise<void> {
+    const token = await this.issueToken(
+      user,
+      'email_verification',
+      config.accountTokens.emailVerificationTtlHours * 60 * 60 * 1000
+    );
+    const link = `${config.mail.appUrl}/verify-email?token=${token}`;
+
+    await this.getMailTransport().send({
+      to: user.email,
+      subject: 'Verify your Travion email address',
+      text: [
+        `Hi ${user.firstName},`,
+        '',
+        'Confirm your email address to finish setting up your Travion account:',
+        link,
+        '',
+        `This link expires in ${config.accountTokens.emailVerificationTtlHours} hours.`,
+      ].join('\n'),
+    });
+  }
+
+  async resendVerificationEmail(email: string): Promise<void> {
+    const user = await this.userRepository.findByEmail(email);
+    if (!user || user.provider !== 'local' || user.emailVerified !== false) {
+      return;
+    }
+
+    await this.sendVerificationEmail(user);
+  }
+
+  async verifyEmail(token: string): Promise<IUser> {
+    const stored = await this.accountTokenRepository.consume(
+      this.hash(token),
+      'email_verification'
+    );
+    if (!stored) {
+      throw new AppError('Invalid or expired verification token', 400);
+    }
+
+    const user = await this.userRepository.findById(String(stored.userId));
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    this.markVerified(user);
+    return await user.save();
+  }
+
+  // ============================================================================
+  // PASSWORD RESET
+  // ============================================================================
+
+  /**
+   * Email a password reset link to an active local account
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.userRepository.findByEmail(email);
+    if (!user || user.provider !== 'local' || !user.isActive) {
+      return;
+    }
+
+    const token = await this.issueToken(
+      user,
+      'password_reset',
+      config.accountTokens.passwordResetTtlMinutes * 60 * 1000
+    );
+    const link = `${config.mail.appUrl}/reset-password?token=${token}`;
+
+    await this.getMailTransport().send({
+      to: user.email,
+      subject: 'Reset your Travion password',
+      text: [
+        `Hi ${user.firstName},`,
+        '',
+        'We received a request to reset your Travion password. Use this link to choose a new one:',
+        link,
+        '',
+        `This link expires in ${config.accountTokens.passwordResetTtlMinutes} minutes.`,
+        "If you didn't ask for this, you can ignore this email.",
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Set a new password and sign the user out everywhere
+   */
+  async resetPassword(token: string, password: string): Promise<void> {
+    const stored = await this.accountTokenRepository.consume(this.hash(token), 'password_reset');
+    if (!stored) {
+      throw new AppError('Invalid or expired reset token', 400);
+    }
+
+    const userId = String(stored.userId);
+    const user = await this.userRepository.findById(userId);
+    if (!user || user.provider !== 'local') {
+      throw new AppError('Invalid or expired reset token', 400);
+    }
+
+    // Receiving the reset email proves the address belongs to the user
+    user.password = password;
+    this.markVerified(user);
+    await user.save();
+
+    await this.accountTokenRepository.deleteUnusedForUser(userId, 'password_reset');
+    await this.sessionService.revokeAllSessions(userId, 'password_change');
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  private async issueToken(user: IUser, type: AccountTokenType, ttlMs: number): Promise<string> {
+    const userId = String(user._id);
+    const token = crypto.randomBytes(32).toString('hex');
+
+    await this.accountTokenRepository.deleteUnusedForUser(userId, type);
+    await this.accountTokenRepository.create({
+      userId: new mongoose.Types.ObjectId(userId),
+      type,
+      tokenHash: this.hash(token),
+      expiresAt: new Date(Date.now() + ttlMs),
+    });
+
+    logger.info(`Issued ${type} token`, { userId });
+    return token;
+  }
+
+  private markVerified(user: IUser): void {
+    if (user.emailVerified === false) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+    }
+    if (user.profileStatus === 'PendingVerification') {
+      user.profileStatus = 'Incomplete';
+    }
+  }
+
+  private hash(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private getMailTransport(): MailTransport {
+    return this.mailTransport ?? getMailTransport();
+  }
+}
@@ -1,7 +1,10 @@
 import { UserRepository } from '../repositories/UserRepository';
 import { IUser } from '../models/User';
 import { AppError } from '../../../../shared/middleware/errorHandler';
-import { TokenService, TokenResponse } from './TokenService';
+import { TokenResponse } from './TokenService';
+import { SessionService, SessionMetadata } from './SessionService';
+import { AccountService } from './AccountService';
+import { logger } from '../../../../shared/config/logger';
 
 export interface RegisterDTO {
   email: string;
@@ -15,6 +18,10 @@ export interface LoginDTO {
   password: string;
 }
 
+export interface RegisterResponse {
+  user: IUser;
+}
+
 export interface AuthResponse {
   user: IUser;
   tokens: {
@@ -26,25 +33,45 @@ export interface AuthResponse {
 
 export class AuthService {
   private userRepository: UserRepository;
+  private sessionService: SessionService;
+  private accountService: AccountService;
 
   constructor() {
     this.userRepository = new UserRepository();
+    this.sessionService = new SessionService();
+    this.accountService = new AccountService();
   }
 
-  async register(data: RegisterDTO): Promise<AuthResponse> {
+  /**
+   * Create a local account. No session is started until the email is verified.
+   */
+  async register(data: RegisterDTO): Promise<RegisterResponse> {
     const existingUser = await this.userRepository.findByEmail(data.email);
     if (existingUser) {
       throw new AppError('User with this email already exists', 409);
     }
 
-    const user = await this.userRepository.create(data);
-
-    const tokens = TokenService.generateTokens(String(user._id));
+    // Only take registration fields; roles are never self-assigned
+    const user = await this.userRepository.create({
+      email: data.email,
+      password: data.password,
+      firstName: data.firstName,
+      lastName: data.lastName,
+      emailVerified: false,
+      profileStatus: 'PendingVerification',
+    });
+
+    // The account exists either way; the user can ask for the email again
+    try {
+      await this.accountService.sendVerificationEmail(user);
+    } catch (error) {
+      logger.error(`Failed to send verification email to ${user.email}:`, error);
+    }
 
-    return { user, tokens };
+    return { user };
   }
 
-  async login(data: LoginDTO): Promise<AuthResponse> {
+  async login(data: LoginDTO, metadata?: SessionMetadata): Promise<AuthResponse> {
     const user = await this.userRepository.findByEmail(data.email);
     if (!user) {
       throw new AppError('Invalid credentials', 401);
@@ -59,26 +86,22 @@ export class AuthService {
       throw new AppError('Invalid credentials', 401);
     }
 
-    const tokens = TokenService.generateTokens(String(user._id));
+    if (user.provider === 'local' && user.emailVerified === false) {
+      throw new AppError('Please verify your email address before signing in', 403);
+    }
+
+    const tokens = await this.sessionService.startSession(user, metadata);
 
     return { user, tokens };
   }
 
-  async refreshToken(refreshToken: string): Promise<TokenResponse> {
-    try {
-      const decoded = TokenService.verifyToken(refreshToken, true) as {
-        userId: string;
-        email?: string;
-      };
-
-      const user = await this.userRepository.findById(decoded.userId);
-      if (!user) {
-        throw new AppError('User not found', 404);
-      }
+  async refreshToken(refreshToken: string, metadata?: SessionMetadata): Promise<TokenResponse> {
+    return this.sessionService.rotate(refreshToken, metadata);
+  }
 
-      return TokenService.generateTokens(String(user._id));
-    } catch (error) {
-      throw new AppError('Invalid refresh token', 401);
+  async logout(refreshToken?: string): Promise<void> {
+    if (refreshToken) {
+      await this.sessionService.endSession(refreshToken);
     }
   }
 }
@@ -0,0 +1,177 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import { RefreshTokenRepository } from '../repositories/RefreshTokenRepository';
+import { UserRepository } from '../repositories/UserRepository';
+import { IUser } from '../models/User';
+import { RevokeReason } from '../models/RefreshToken';
+import { TokenService, TokenResponse, TokenPayload } from './TokenService';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+import { logger } from '../../../../shared/config/logger';
+
+export interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface SessionInfo {
+  sessionId: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  userAgent?: string;
+  ipAddress?: string;
+  current: boolean;
+}
+
+/**
+ * Manages login sessions backed by stored, rotating refresh tokens.
+ *
+ * Each login starts a token family. `/auth/refresh` exchanges the current
+ * token for a new one in the same family; presenting a token that was already
+ * exchanged means it was copied, so the whole family is revoked.
+ */
+export class SessionService {
+  private refreshTokenRepository: RefreshTokenRepository;
+  private userRepository: UserRepository;
+
+  constructor() {
+    this.refreshTokenRepository = new RefreshTokenRepository();
+    this.userRepository = new UserRepository();
+  }
+
+  /**
+   * Start a new session (token family) for a user
+   */
+  async startSession(user: IUser, metadata: SessionMetadata = {}): Promise<TokenResponse> {
+    return this.issueTokens(user, uuidv4(), new Date(), metadata);
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair in the same session
+   */
+  async rotate(refreshToken: string, metadata: SessionMetadata = {}): Promise<TokenResponse> {
+    this.verify(refreshToken);
+
+    const tokenHash = this.hash(refreshToken);
+    const stored = await this.refreshTokenRepository.findByHash(tokenHash);
+
+    if (!stored) {
+      throw new AppError('Invalid refresh token', 401);
+    }
+    if (stored.revokedAt) {
+      throw new AppError('Session has been revoked', 401);
+    }
+    if (stored.usedAt) {
+      await this.handleReuse(stored.familyId, String(stored.userId));
+    }
+
+    // Lost a race with another refresh using the same token
+    const claimed = await this.refreshTokenRepository.markUsed(tokenHash);
+    if (!claimed) {
+      await this.handleReuse(stored.familyId, String(stored.userId));
+    }
+
+    const user = await this.userRepository.findById(String(stored.userId));
+    if (!user || !user.isActive) {
+      await this.refreshTokenRepository.revokeFamily(stored.familyId, 'session_revoked');
+      throw new AppError('Invalid refresh token', 401);
+    }
+
+    const tokens = await this.issueTokens(user, stored.familyId, stored.familyCreatedAt, {
+      userAgent: metadata.userAgent ?? stored.userAgent,
+      ipAddress: metadata.ipAddress ?? stored.ipAddress,
+    });
+    await this.refreshTokenRepository.setReplacedBy(tokenHash, this.hash(tokens.refreshToken));
+
+    return tokens;
+  }
+
+  /**
+   * End the session a refresh token belongs to (logout).
+   * Invalid or unknown tokens are ignored so logout always succeeds.
+   */
+  async endSession(refreshToken: string): Promise<void> {
+    const stored = await this.refreshTokenRepository.findByHash(this.hash(refreshToken));
+    if (stored) {
+      await this.refreshTokenRepository.revokeFamily(stored.familyId, 'logout');
+    }
+  }
+
+  /**
+   * List a user's active sessions, newest activity first
+   */
+  async listSessions(userId: string, currentSessionId?: string): Promise<SessionInfo[]> {
+    const heads = await this.refreshTokenRepository.findActiveByUser(userId);
+
+    return heads.map((token) => ({
+      sessionId: token.familyId,
+      createdAt: token.familyCreatedAt,
+      lastUsedAt: token.createdAt,
+      expiresAt: token.expiresAt,
+      userAgent: token.userAgent,
+      ipAddress: token.ipAddress,
+      current: token.familyId === currentSessionId,
+    }));
+  }
+
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const revoked = await this.refreshTokenRepository.revokeFamily(
+      sessionId,
+      'session_revoked',
+      userId
+    );
+    if (revoked === 0) {
+      throw new AppError('Session not found', 404);
+    }
+  }
+
+  async revokeAllSessions(userId: string, reason: RevokeReason): Promise<number> {
+    return this.refreshTokenRepository.revokeAllForUser(userId, reason);
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  private async issueTokens(
+    user: IUser,
+    familyId: string,
+    familyCreatedAt: Date,
+    metadata: SessionMetadata
+  ): Promise<TokenResponse> {
+    const tokens = TokenService.generateTokens(String(user._id), user.role, familyId);
+    const { exp } = jwt.decode(tokens.refreshToken) as TokenPayload & { exp: number };
+
+    await this.refreshTokenRepository.create({
+      userId: new mongoose.Types.ObjectId(String(user._id)),
+      familyId,
+      tokenHash: this.hash(tokens.refreshToken),
+      expiresAt: new Date(exp * 1000),
+      familyCreatedAt,
+      userAgent: metadata.userAgent?.slice(0, 500),
+      ipAddress: metadata.ipAddress,
+    });
+
+    return tokens;
+  }
+
+  private async handleReuse(familyId: string, userId: string): Promise<never> {
+    await this.refreshTokenRepository.revokeFamily(familyId, 'reuse_detected');
+    logger.warn('Refresh token reuse detected; session revoked', { userId, familyId });
+    throw new AppError('Refresh token reuse detected; please sign in again', 401);
+  }
+
+  private verify(refreshToken: string): void {
+    try {
+      TokenService.verifyToken(refreshToken, true);
+    } catch {
+      throw new AppError('Invalid refresh token', 401);
+    }
+  }
+
+  private hash(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
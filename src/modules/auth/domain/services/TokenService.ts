@@ -1,6 +1,7 @@
 import jwt, { SignOptions } from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
 import config from '../../../../shared/config/config';
-import { IUser } from '../models/User';
+import { IUser, UserRole } from '../models/User';
 
 export interface TokenResponse {
   accessToken: string;
@@ -8,20 +9,23 @@ export interface TokenResponse {
   expiresIn: number;
 }
 
+export interface TokenPayload {
+  userId: string;
+  email?: string;
+  role?: UserRole;
+  sid?: string; // Session (refresh token family) the token belongs to
+  jti?: string;
+}
+
 export class TokenService {
   //Generate both access and refresh tokens for a user
-  static generateTokens(userId: string): TokenResponse {
-    const payload = {
-      userId: userId,
-    };
-
-    const accessToken = jwt.sign(payload, config.jwt.secret, {
-      expiresIn: config.jwt.expiresIn,
-    } as SignOptions);
-
-    const refreshToken = jwt.sign(payload, config.jwt.refreshSecret, {
-      expiresIn: config.jwt.refreshExpiresIn,
-    } as SignOptions);
+  static generateTokens(
+    userId: string,
+    role: UserRole = 'traveller',
+    sessionId?: string
+  ): TokenResponse {
+    const accessToken = this.generateAccessToken(userId, role, sessionId);
+    const refreshToken = this.generateRefreshToken(userId, role, sessionId);
 
     const expiresIn = this.getExpirationInSeconds(config.jwt.expiresIn);
 
@@ -33,9 +37,15 @@ export class TokenService {
   }
 
   //Generate access token only
-  static generateAccessToken(userId: string): string {
-    const payload = {
+  static generateAccessToken(
+    userId: string,
+    role: UserRole = 'traveller',
+    sessionId?: string
+  ): string {
+    const payload: TokenPayload = {
       userId: userId,
+      role,
+      sid: sessionId,
     };
 
     return jwt.sign(payload, config.jwt.secret, {
@@ -43,10 +53,17 @@ export class TokenService {
     } as SignOptions);
   }
 
-  //Generate refresh token only
-  static generateRefreshToken(userId: string): string {
-    const payload = {
+  //Generate refresh token only (unique per call so each rotation has its own hash)
+  static generateRefreshToken(
+    userId: string,
+    role: UserRole = 'traveller',
+    sessionId?: string
+  ): string {
+    const payload: TokenPayload = {
       userId: userId,
+      role,
+      sid: sessionId,
+      jti: uuidv4(),
     };
 
     return jwt.sign(payload, config.jwt.refreshSecret, {
@@ -60,7 +77,7 @@ export class TokenService {
     refreshToken: string;
   } {
     const userId = String(user._id);
-    const tokens = this.generateTokens(userId);
+    const tokens = this.generateTokens(userId, user.role);
 
     return {
       token: tokens.accessToken,
@@ -1,5 +1,5 @@
 import { UserRepository } from '../repositories/UserRepository';
-import { IUser } from '../models/User';
+import { IUser, UserRole } from '../models/User';
 import { AppError } from '../../../../shared/middleware/errorHandler';
 
 export interface UpdateUserDTO {
@@ -10,6 +10,7 @@ export interface UpdateUserDTO {
   dob?: Date;
   country?: string;
   preferredLanguage?: string;
+  phoneNumber?: string;
   profileStatus?: 'Incomplete' | 'Complete';
 }
 
@@ -47,6 +48,12 @@ export class UserService {
   }
 
   async updateUser(userId: string, data: UpdateUserDTO): Promise<IUser> {
+    // Roles are only changed through updateRole, verification through AccountService
+    data = { ...data };
+    delete (data as Partial<IUser>).role;
+    delete (data as Partial<IUser>).emailVerified;
+    delete (data as Partial<IUser>).emailVerifiedAt;
+
     if (data.email) {
       const existingUser = await this.userRepository.findByEmail(data.email);
       if (existingUser && String(existingUser._id) !== userId) {
@@ -62,6 +69,19 @@ export class UserService {
     return user;
   }
 
+  async updateRole(actingUserId: string, userId: string, role: UserRole): Promise<IUser> {
+    if (actingUserId === userId) {
+      throw new AppError('You cannot change your own role', 400);
+    }
+
+    const user = await this.userRepository.update(userId, { role });
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    return user;
+  }
+
   async deleteUser(userId: string): Promise<void> {
     const user = await this.userRepository.delete(userId);
     if (!user) {
@@ -15,6 +15,8 @@ export { UserController } from './api/controllers/UserController';
 // Export services
 export { AuthService } from './domain/services/AuthService';
 export { TokenService } from './domain/services/TokenService';
+export { SessionService } from './domain/services/SessionService';
+export { AccountService } from './domain/services/AccountService';
 export { UserService } from './domain/services/UserService';
 
 // Export models
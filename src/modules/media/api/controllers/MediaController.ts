@@ -0,0 +1,139 @@
+import { Response, NextFunction } from 'express';
+import { MediaService } from '../../domain/services/MediaService';
+import { MediaPurpose } from '../../domain/models/MediaAsset';
+import { AuthRequest } from '../../../../shared/middleware/auth';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+import { logger } from '../../../../shared/config/logger';
+
+export class MediaController {
+  private mediaService: MediaService;
+
+  constructor() {
+    this.mediaService = new MediaService();
+  }
+
+  /**
+   * Upload a photo or video (multipart field "file")
+   * @route POST /api/v1/media
+   */
+  uploadMedia = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      if (!req.file) {
+        throw new AppError('A file is required in the "file" field', 400);
+      }
+
+      const { asset, url, signedUrl, expiresAt } = await this.mediaService.upload(
+        req.file,
+        userId,
+        req.body.purpose as MediaPurpose
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Media uploaded successfully',
+        data: {
+          id: asset._id,
+          url,
+          signedUrl,
+          expiresAt,
+          purpose: asset.purpose,
+          kind: asset.kind,
+          contentType: asset.contentType,
+          size: asset.size,
+        },
+      });
+    } catch (error) {
+      logger.error('Error in uploadMedia:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Serve an upload, or redirect to the storage backend
+   * @route GET /api/v1/media/:id
+   */
+  getMedia = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const download = await this.mediaService.getDownload(req.params.id, {
+        userId: req.user?.userId,
+        expires: req.query.expires as string | undefined,
+        signature: req.query.signature as string | undefined,
+      });
+
+      if (download.type === 'redirect') {
+        res.redirect(302, download.url);
+        return;
+      }
+
+      res.set('Content-Type', download.contentType);
+      res.set('Cache-Control', 'private, max-age=300');
+      res.set('X-Content-Type-Options', 'nosniff');
+      res.status(200).send(download.body);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Issue a fresh signed URL for one of the user's uploads
+   * @route GET /api/v1/media/:id/signed-url
+   */
+  getSignedUrl = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      const signedUrl = await this.mediaService.createSignedUrl(req.params.id, userId);
+
+      res.status(200).json({
+        success: true,
+        data: signedUrl,
+      });
+    } catch (error) {
+      logger.error('Error in getSignedUrl:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Delete an upload that isn't attached to a report or profile
+   * @route DELETE /api/v1/media/:id
+   */
+  deleteMedia = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      await this.mediaService.deleteUpload(req.params.id, userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Media deleted successfully',
+      });
+    } catch (error) {
+      logger.error('Error in deleteMedia:', error);
+      next(error);
+    }
+  };
+}
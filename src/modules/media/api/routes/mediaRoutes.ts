@@ -0,0 +1,97 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { MediaController } from '../controllers/MediaController';
+import { authenticate, optionalAuth } from '../../../../shared/middleware/auth';
+import { validateRequest } from '../../../../shared/middleware/validator';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+import { apiLimiter, uploadLimiter } from '../../../../shared/config/rateLimiter';
+import config from '../../../../shared/config/config';
+import {
+  uploadMediaValidator,
+  mediaIdValidator,
+  getMediaValidator,
+} from '../validators/mediaValidator';
+
+const router = Router();
+const mediaController = new MediaController();
+
+const MAX_UPLOAD_SIZE_MB = Math.max(config.media.maxImageSizeMb, config.media.maxVideoSizeMb);
+
+const mediaUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_SIZE_MB * 1024 * 1024, files: 1 },
+}).single('file');
+
+/**
+ * Parse a single multipart upload. Multer enforces the largest allowed size;
+ * the per-kind limit is checked once the file type is known.
+ */
+const uploadFile = (req: Request, res: Response, next: NextFunction) => {
+  mediaUpload(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const status = error.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+      next(new AppError(`Upload failed: ${error.message}`, status));
+      return;
+    }
+    next(error);
+  });
+};
+
+/**
+ * @route   POST /api/v1/media
+ * @desc    Upload a photo or video (multipart "file" plus "purpose"); returns its URL
+ * @access  Private
+ */
+router.post(
+  '/',
+  authenticate as any,
+  uploadLimiter,
+  uploadFile,
+  uploadMediaValidator,
+  validateRequest,
+  mediaController.uploadMedia
+);
+
+/**
+ * @route   GET /api/v1/media/:id/signed-url
+ * @desc    Get a fresh time-limited URL for one of your uploads
+ * @access  Private (owner)
+ */
+router.get(
+  '/:id/signed-url',
+  authenticate as any,
+  apiLimiter,
+  mediaIdValidator,
+  validateRequest,
+  mediaController.getSignedUrl
+);
+
+/**
+ * @route   GET /api/v1/media/:id
+ * @desc    Fetch an upload. Health-profile images need the owner's token or a signed URL
+ * @access  Public (incident media) / Private (health-profile media)
+ */
+router.get(
+  '/:id',
+  optionalAuth as any,
+  apiLimiter,
+  getMediaValidator,
+  validateRequest,
+  mediaController.getMedia
+);
+
+/**
+ * @route   DELETE /api/v1/media/:id
+ * @desc    Delete an upload that isn't attached to a report or profile yet
+ * @access  Private (owner)
+ */
+router.delete(
+  '/:id',
+  authenticate as any,
+  apiLimiter,
+  mediaIdValidator,
+  validateRequest,
+  mediaController.deleteMedia
+);
+
+export { router as mediaRoutes };
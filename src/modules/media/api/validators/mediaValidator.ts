@@ -0,0 +1,24 @@
+import { body, param, query } from 'express-validator';
+
+/**
+ * Validator for the multipart fields sent alongside an upload
+ */
+export const uploadMediaValidator = [
+  body('purpose')
+    .isIn(['incident_report', 'road_incident', 'health_profile'])
+    .withMessage('Purpose must be incident_report, road_incident or health_profile'),
+];
+
+/**
+ * Validator for media ID parameter
+ */
+export const mediaIdValidator = [param('id').isMongoId().withMessage('Invalid media ID')];
+
+/**
+ * Validator for fetching media, optionally through a signed URL
+ */
+export const getMediaValidator = [
+  ...mediaIdValidator,
+  query('expires').optional().isInt({ min: 0 }).withMessage('Invalid expiry'),
+  query('signature').optional().isHexadecimal().withMessage('Invalid signature'),
+];
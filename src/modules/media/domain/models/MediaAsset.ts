@@ -0,0 +1,77 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * What an upload is for. Decides which media kinds are accepted and who may
+ * read the file back: incident photos are public, health-profile images are
+ * private to their owner.
+ */
+export type MediaPurpose = 'incident_report' | 'road_incident' | 'health_profile';
+
+export type MediaKind = 'image' | 'video';
+
+export interface IMediaAsset extends Document {
+  ownerId: mongoose.Types.ObjectId;
+  purpose: MediaPurpose;
+  kind: MediaKind;
+  storageKey: string;
+  backend: string; // storage backend the object was written to
+  contentType: string;
+  size: number; // bytes, after metadata stripping
+  originalName?: string;
+  attachedAt?: Date; // set once a report or profile references the file
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const mediaAssetSchema = new Schema<IMediaAsset>(
+  {
+    ownerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Owner is required'],
+    },
+    purpose: {
+      type: String,
+      required: [true, 'Purpose is required'],
+      enum: ['incident_report', 'road_incident', 'health_profile'],
+    },
+    kind: {
+      type: String,
+      required: true,
+      enum: ['image', 'video'],
+    },
+    storageKey: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    backend: {
+      type: String,
+      required: true,
+    },
+    contentType: {
+      type: String,
+      required: true,
+    },
+    size: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    originalName: {
+      type: String,
+      trim: true,
+    },
+    attachedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Index for listing a user's uploads
+mediaAssetSchema.index({ ownerId: 1, createdAt: -1 });
+
+export const MediaAsset = mongoose.model<IMediaAsset>('MediaAsset', mediaAssetSchema);
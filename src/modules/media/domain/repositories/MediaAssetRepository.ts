@@ -0,0 +1,39 @@
+import mongoose from 'mongoose';
+import { MediaAsset, IMediaAsset } from '../models/MediaAsset';
+
+export class MediaAssetRepository {
+  /**
+   * Record a stored upload
+   */
+  async create(assetData: Partial<IMediaAsset>): Promise<IMediaAsset> {
+    const asset = new MediaAsset(assetData);
+    return await asset.save();
+  }
+
+  /**
+   * Find an upload by ID, returning null for malformed IDs
+   */
+  async findById(assetId: string): Promise<IMediaAsset | null> {
+    if (!mongoose.Types.ObjectId.isValid(assetId)) {
+      return null;
+    }
+    return await MediaAsset.findById(assetId);
+  }
+
+  /**
+   * Mark uploads as referenced by a report or profile
+   */
+  async markAttached(assetIds: string[]): Promise<void> {
+    await MediaAsset.updateMany(
+      { _id: { $in: assetIds }, attachedAt: { $exists: false } },
+      { $set: { attachedAt: new Date() } }
+    );
+  }
+
+  /**
+   * Delete an upload record
+   */
+  async deleteById(assetId: string): Promise<void> {
+    await MediaAsset.findByIdAndDelete(assetId);
+  }
+}
@@ -0,0 +1,306 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { MediaAssetRepository } from '../repositories/MediaAssetRepository';
+import { IMediaAsset, MediaKind, MediaPurpose } from '../models/MediaAsset';
+import { detectMediaFormat, isDeclaredTypeCompatible } from '../utils/MediaTypes';
+import { stripImageMetadata } from '../utils/ImageMetadata';
+import { createStorageBackend, StorageBackend } from '../../../../shared/libraries/storage';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+import config from '../../../../shared/config/config';
+import { logger } from '../../../../shared/config/logger';
+
+export interface UploadedFile {
+  buffer: Buffer;
+  mimetype: string;
+  originalname?: string;
+}
+
+export interface UploadResult {
+  asset: IMediaAsset;
+  url: string;
+  signedUrl: string;
+  expiresAt: Date;
+}
+
+export interface SignedUrl {
+  url: string;
+  expiresAt: Date;
+}
+
+/**
+ * How a media request should be answered: stream the bytes through the API,
+ * or redirect to a short-lived URL on the storage backend
+ */
+export type MediaDownload =
+  | { type: 'redirect'; url: string }
+  | { type: 'content'; body: Buffer; contentType: string };
+
+export interface MediaAccess {
+  userId?: string;
+  expires?: string;
+  signature?: string;
+}
+
+// Media kinds each purpose accepts
+const PURPOSE_KINDS: Record<MediaPurpose, MediaKind[]> = {
+  incident_report: ['image'],
+  road_incident: ['image', 'video'],
+  health_profile: ['image'],
+};
+
+// Purposes whose files anyone may view once they have the URL
+const PUBLIC_PURPOSES: MediaPurpose[] = ['incident_report', 'road_incident'];
+
+/**
+ * Media Service
+ *
+ * Stores uploaded photos and videos on the configured storage backend and
+ * hands out URLs for them. Uploads are checked by their magic bytes, have
+ * location metadata removed, and belong to the user who uploaded them, so
+ * report endpoints only accept URLs the caller actually owns.
+ */
+export class MediaService {
+  private mediaAssetRepository: MediaAssetRepository;
+  private storage: StorageBackend;
+
+  constructor(storage: StorageBackend = createStorageBackend()) {
+    this.mediaAssetRepository = new MediaAssetRepository();
+    this.storage = storage;
+  }
+
+  /**
+   * Validate, clean and store an upload for the given owner and purpose
+   */
+  async upload(file: UploadedFile, ownerId: string, purpose: MediaPurpose): Promise<UploadResult> {
+    const format = detectMediaFormat(file.buffer);
+    if (!format) {
+      throw new AppError('Unsupported file type. Upload a JPEG, PNG, WebP, MP4 or MOV file', 415);
+    }
+    if (!isDeclaredTypeCompatible(file.mimetype, format)) {
+      throw new AppError(
+        `File content (${format.contentType}) does not match its declared type (${file.mimetype})`,
+        415
+      );
+    }
+    if (!PURPOSE_KINDS[purpose].includes(format.kind)) {
+      throw new AppError(`${purpose} uploads must be ${PURPOSE_KINDS[purpose].join(' or ')}`, 415);
+    }
+
+    const maxSizeMb =
+      format.kind === 'video' ? config.media.maxVideoSizeMb : config.media.maxImageSizeMb;
+    if (file.buffer.length > maxSizeMb * 1024 * 1024) {
+      throw new AppError(`File is too large. Maximum ${format.kind} size is ${maxSizeMb}MB`, 413);
+    }
+
+    const body =
+      format.kind === 'image' ? stripImageMetadata(file.buffer, format.contentType) : file.buffer;
+    if (!body) {
+      throw new AppError('Image file is corrupt or malformed', 422);
+    }
+    const storageKey = `${purpose}/${ownerId}/${uuidv4()}.${format.extension}`;
+
+    await this.storage.put(storageKey, body, format.contentType);
+
+    const asset = await this.mediaAssetRepository.create({
+      ownerId: ownerId as unknown as IMediaAsset['ownerId'],
+      purpose,
+      kind: format.kind,
+      storageKey,
+      backend: this.storage.name,
+      contentType: format.contentType,
+      size: body.length,
+      originalName: file.originalname,
+    });
+
+    logger.info(`Stored ${purpose} upload ${asset._id} (${format.contentType}, ${body.length}B)`);
+
+    const signed = this.signUrl(asset);
+    return {
+      asset,
+      url: this.getUrl(asset),
+      signedUrl: signed.url,
+      expiresAt: signed.expiresAt,
+    };
+  }
+
+  /**
+   * Resolve a media request, enforcing access for private purposes
+   */
+  async getDownload(assetId: string, access: MediaAccess): Promise<MediaDownload> {
+    const asset = await this.mediaAssetRepository.findById(assetId);
+    if (!asset) {
+      throw new AppError('Media not found', 404);
+    }
+
+    if (!this.canRead(asset, access)) {
+      throw new AppError('You do not have access to this media', 403);
+    }
+
+    if (this.storage.getSignedUrl) {
+      return {
+        type: 'redirect',
+        url: this.storage.getSignedUrl(asset.storageKey, config.media.signedUrlTtlSeconds),
+      };
+    }
+
+    const body = await this.storage.get(asset.storageKey);
+    if (!body) {
+      throw new AppError('Media not found', 404);
+    }
+    return { type: 'content', body, contentType: asset.contentType };
+  }
+
+  /**
+   * Issue a fresh time-limited URL for an upload owned by the user
+   */
+  async createSignedUrl(assetId: string, userId: string): Promise<SignedUrl> {
+    const asset = await this.findOwnedAsset(assetId, userId);
+    return this.signUrl(asset);
+  }
+
+  /**
+   * Delete an upload that hasn't been attached to anything yet
+   */
+  async deleteUpload(assetId: string, userId: string): Promise<void> {
+    const asset = await this.findOwnedAsset(assetId, userId);
+    if (asset.attachedAt) {
+      throw new AppError('Media is attached to a report or profile and cannot be deleted', 409);
+    }
+
+    await this.storage.delete(asset.storageKey);
+    await this.mediaAssetRepository.deleteById(assetId);
+  }
+
+  /**
+   * Check that every URL points at an upload the owner made for this purpose
+   * and return their canonical (unsigned) form. Pass the result to `attachUrls`
+   * once the record referencing them has been saved.
+   * @param kind restrict the URLs to images or videos
+   */
+  async checkUrls(
+    urls: string[],
+    ownerId: string,
+    purpose: MediaPurpose,
+    kind?: MediaKind
+  ): Promise<string[]> {
+    const assets: IMediaAsset[] = [];
+
+    for (const url of urls) {
+      const assetId = this.parseMediaUrl(url);
+      if (!assetId) {
+        throw new AppError(`Media URL must point to an upload on this server: ${url}`, 400);
+      }
+
+      const asset = await this.mediaAssetRepository.findById(assetId);
+      if (!asset) {
+        throw new AppError(`Media not found: ${url}`, 404);
+      }
+      if (asset.ownerId.toString() !== ownerId) {
+        throw new AppError(`Media does not belong to you: ${url}`, 403);
+      }
+      if (asset.purpose !== purpose) {
+        throw new AppError(`Media was uploaded for ${asset.purpose}, not ${purpose}: ${url}`, 400);
+      }
+      if (kind && asset.kind !== kind) {
+        throw new AppError(
+          `Media must be ${kind === 'image' ? 'an image' : 'a video'}: ${url}`,
+          400
+        );
+      }
+
+      assets.push(asset);
+    }
+
+    return assets.map((asset) => this.getUrl(asset));
+  }
+
+  /**
+   * Mark checked uploads as attached, so their owner can no longer delete them
+   */
+  async attachUrls(urls: string[]): Promise<void> {
+    const assetIds = urls
+      .map((url) => this.parseMediaUrl(url))
+      .filter((assetId): assetId is string => !!assetId);
+    if (assetIds.length > 0) {
+      await this.mediaAssetRepository.markAttached(assetIds);
+    }
+  }
+
+  /**
+   * Canonical URL of an upload, served by GET /media/:id
+   */
+  getUrl(asset: IMediaAsset): string {
+    return `${this.mediaBaseUrl()}/${asset._id}`;
+  }
+
+  // ============================================================================
+  // HELPER METHODS
+  // ============================================================================
+
+  private async findOwnedAsset(assetId: string, userId: string): Promise<IMediaAsset> {
+    const asset = await this.mediaAssetRepository.findById(assetId);
+    if (!asset) {
+      throw new AppError('Media not found', 404);
+    }
+    if (asset.ownerId.toString() !== userId) {
+      throw new AppError('You do not have access to this media', 403);
+    }
+    return asset;
+  }
+
+  private canRead(asset: IMediaAsset, access: MediaAccess): boolean {
+    if (PUBLIC_PURPOSES.includes(asset.purpose)) return true;
+    if (access.userId && asset.ownerId.toString() === access.userId) return true;
+    return this.verifySignature(String(asset._id), access.expires, access.signature);
+  }
+
+  private signUrl(asset: IMediaAsset): SignedUrl {
+    const expiresAt = new Date(Date.now() + config.media.signedUrlTtlSeconds * 1000);
+    const expires = Math.floor(expiresAt.getTime() / 1000).toString();
+    const signature = this.sign(String(asset._id), expires);
+
+    return {
+      url: `${this.getUrl(asset)}?expires=${expires}&signature=${signature}`,
+      expiresAt,
+    };
+  }
+
+  private verifySignature(assetId: string, expires?: string, signature?: string): boolean {
+    if (!expires || !signature || !/^\d+$/.test(expires)) return false;
+    if (parseInt(expires, 10) * 1000 < Date.now()) return false;
+
+    const expected = Buffer.from(this.sign(assetId, expires));
+    const provided = Buffer.from(signature);
+    return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+  }
+
+  private sign(assetId: string, expires: string): string {
+    return crypto
+      .createHmac('sha256', config.media.signingSecret)
+      .update(`${assetId}.${expires}`)
+      .digest('hex');
+  }
+
+  /**
+   * Extract the upload ID from one of our media URLs (signed or not)
+   */
+  private parseMediaUrl(url: string): string | undefined {
+    let parsed: URL;
+    let base: URL;
+    try {
+      parsed = new URL(url);
+      base = new URL(this.mediaBaseUrl());
+    } catch {
+      return undefined;
+    }
+
+    if (parsed.origin !== base.origin) return undefined;
+    const match = parsed.pathname.match(/^(.*)\/([a-f0-9]{24})$/i);
+    if (!match || match[1] !== base.pathname) return undefined;
+    return match[2];
+  }
+
+  private mediaBaseUrl(): string {
+    return `${config.publicApiUrl.replace(/\/+$/, '')}/api/${config.apiVersion}/media`;
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * Image metadata stripping
+ *
+ * Removes location data from uploaded photos before they are stored, so a
+ * published incident photo can't reveal where the reporter lives or was
+ * standing. JPEG keeps its Exif block (orientation, camera) with the GPS
+ * directory blanked; PNG and WebP drop their Exif and XMP chunks entirely.
+ * Malformed metadata is dropped rather than kept, and a file whose structure
+ * can't be walked to the end is rejected, since metadata past the point where
+ * parsing stopped could not be checked.
+ */
+
+const EXIF_HEADER = Buffer.from('Exif\0\0', 'binary');
+const XMP_HEADER = Buffer.from('http://ns.adobe.com/xap/1.0/\0', 'binary');
+const GPS_IFD_TAG = 0x8825;
+
+// Byte sizes of the TIFF field types, indexed by type id
+const TIFF_TYPE_SIZES: Record<number, number> = {
+  1: 1,
+  2: 1,
+  3: 2,
+  4: 4,
+  5: 8,
+  6: 1,
+  7: 1,
+  8: 2,
+  9: 4,
+  10: 8,
+  11: 4,
+  12: 8,
+};
+
+const JPEG_SOI = 0xd8;
+const JPEG_EOI = 0xd9;
+const JPEG_SOS = 0xda;
+const JPEG_APP1 = 0xe1;
+
+const PNG_SIGNATURE_LENGTH = 8;
+const PNG_METADATA_TEXT = /xmp|exif/i;
+
+const WEBP_FLAG_EXIF = 0x08;
+const WEBP_FLAG_XMP = 0x04;
+
+/**
+ * Strip location metadata from an image of the given content type.
+ * Returns undefined when the image is malformed. Other content types are
+ * returned unchanged.
+ */
+export const stripImageMetadata = (buffer: Buffer, contentType: string): Buffer | undefined => {
+  switch (contentType) {
+    case 'image/jpeg':
+      return stripJpegMetadata(buffer);
+    case 'image/png':
+      return stripPngMetadata(buffer);
+    case 'image/webp':
+      return stripWebpMetadata(buffer);
+    default:
+      return buffer;
+  }
+};
+
+// ============================================================================
+// JPEG
+// ============================================================================
+
+const stripJpegMetadata = (buffer: Buffer): Buffer | undefined => {
+  if (buffer.length < 4 || buffer[0] !== 0xff || buffer[1] !== JPEG_SOI) return undefined;
+
+  const parts: Buffer[] = [buffer.subarray(0, 2)];
+  let offset = 2;
+
+  // Anything after the end-of-image marker is dropped
+  while (offset + 2 <= buffer.length) {
+    if (buffer[offset] !== 0xff) return undefined;
+
+    const marker = buffer[offset + 1];
+    if (marker === 0xff) {
+      // Fill byte before a marker
+      offset++;
+      continue;
+    }
+    if (marker === JPEG_EOI) {
+      parts.push(buffer.subarray(offset, offset + 2));
+      return Buffer.concat(parts);
+    }
+    if (isStandaloneJpegMarker(marker)) {
+      parts.push(buffer.subarray(offset, offset + 2));
+      offset += 2;
+      continue;
+    }
+
+    if (offset + 4 > buffer.length) return undefined;
+    const length = buffer.readUInt16BE(offset + 2);
+    const end = offset + 2 + length;
+    if (length < 2 || end > buffer.length) return undefined;
+
+    const segment = buffer.subarray(offset, end);
+    const payload = segment.subarray(4);
+
+    if (marker === JPEG_APP1 && startsWith(payload, EXIF_HEADER)) {
+      const cleaned = Buffer.from(segment);
+      if (blankGpsDirectory(cleaned.subarray(4 + EXIF_HEADER.length))) {
+        parts.push(cleaned);
+      }
+    } else if (!(marker === JPEG_APP1 && startsWith(payload, XMP_HEADER))) {
+      parts.push(segment);
+    }
+    offset = end;
+
+    if (marker === JPEG_SOS) {
+      // Entropy-coded data runs up to the next marker
+      const scanEnd = findJpegScanEnd(buffer, offset);
+      if (scanEnd === undefined) return undefined;
+      parts.push(buffer.subarray(offset, scanEnd));
+      offset = scanEnd;
+    }
+  }
+
+  // No end-of-image marker
+  return undefined;
+};
+
+// TEM and restart markers carry no length
+const isStandaloneJpegMarker = (marker: number): boolean =>
+  marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7);
+
+/**
+ * Offset of the first marker after the scan data starting at `offset`.
+ * Stuffed 0xFF00 bytes and restart markers belong to the scan.
+ */
+const findJpegScanEnd = (buffer: Buffer, offset: number): number | undefined => {
+  let at = buffer.indexOf(0xff, offset);
+  while (at !== -1 && at + 1 < buffer.length) {
+    const next = buffer[at + 1];
+    if (next !== 0x00 && next !== 0xff && !(next >= 0xd0 && next <= 0xd7)) {
+      return at;
+    }
+    at = buffer.indexOf(0xff, at + 1);
+  }
+  return undefined;
+};
+
+/**
+ * Zero the GPS IFD of a TIFF block in place, including any values stored
+ * outside the directory entries. Returns false when the block is malformed.
+ */
+const blankGpsDirectory = (tiff: Buffer): boolean => {
+  if (tiff.length < 8) return false;
+
+  const byteOrder = tiff.toString('binary', 0, 2);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') return false;
+  const littleEndian = byteOrder === 'II';
+
+  const read16 = (at: number) => (littleEndian ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at));
+  const read32 = (at: number) => (littleEndian ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at));
+  const write16 = (value: number, at: number) =>
+    littleEndian ? tiff.writeUInt16LE(value, at) : tiff.writeUInt16BE(value, at);
+
+  const entriesOf = (ifdOffset: number): number[] | undefined => {
+    if (ifdOffset + 2 > tiff.length) return undefined;
+    const count = read16(ifdOffset);
+    if (ifdOffset + 2 + count * 12 > tiff.length) return undefined;
+    return Array.from({ length: count }, (_, i) => ifdOffset + 2 + i * 12);
+  };
+
+  const ifd0 = entriesOf(read32(4));
+  if (!ifd0) return false;
+
+  const gpsEntry = ifd0.find((entry) => read16(entry) === GPS_IFD_TAG);
+  if (gpsEntry === undefined) return true;
+
+  const gpsOffset = read32(gpsEntry + 8);
+  const gpsEntries = entriesOf(gpsOffset);
+  if (!gpsEntries) return false;
+
+  for (const entry of gpsEntries) {
+    const typeSize = TIFF_TYPE_SIZES[read16(entry + 2)] ?? 1;
+    const byteCount = typeSize * read32(entry + 4);
+    if (byteCount > 4) {
+      const valueOffset = read32(entry + 8);
+      if (valueOffset + byteCount > tiff.length) return false;
+      tiff.fill(0, valueOffset, valueOffset + byteCount);
+    }
+    tiff.fill(0, entry, entry + 12);
+  }
+  write16(0, gpsOffset);
+
+  return true;
+};
+
+// ============================================================================
+// PNG
+// ============================================================================
+
+const stripPngMetadata = (buffer: Buffer): Buffer | undefined => {
+  const parts: Buffer[] = [buffer.subarray(0, PNG_SIGNATURE_LENGTH)];
+  let offset = PNG_SIGNATURE_LENGTH;
+
+  // Anything after the IEND chunk is dropped
+  while (offset + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const end = offset + 12 + length;
+    if (end > buffer.length) return undefined;
+
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+
+    if (!isPngMetadataChunk(type, data)) {
+      parts.push(buffer.subarray(offset, end));
+    }
+
+    offset = end;
+    if (type === 'IEND') return Buffer.concat(parts);
+  }
+
+  // No IEND chunk
+  return undefined;
+};
+
+const isPngMetadataChunk = (type: string, data: Buffer): boolean => {
+  if (type === 'eXIf') return true;
+  if (type === 'iTXt' || type === 'tEXt' || type === 'zTXt') {
+    // Text chunks start with a null-terminated keyword, e.g. "XML:com.adobe.xmp"
+    const keywordEnd = data.indexOf(0);
+    const keyword = data.toString('latin1', 0, keywordEnd >= 0 ? keywordEnd : data.length);
+    return PNG_METADATA_TEXT.test(keyword);
+  }
+  return false;
+};
+
+// ============================================================================
+// WEBP
+// ============================================================================
+
+const stripWebpMetadata = (buffer: Buffer): Buffer | undefined => {
+  const chunks: Buffer[] = [];
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const fourCC = buffer.toString('ascii', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const end = offset + 8 + size + (size % 2);
+    if (offset + 8 + size > buffer.length) return undefined;
+
+    if (fourCC !== 'EXIF' && fourCC !== 'XMP ') {
+      const chunk = Buffer.from(buffer.subarray(offset, Math.min(end, buffer.length)));
+      if (fourCC === 'VP8X' && chunk.length > 8) {
+        chunk[8] &= ~(WEBP_FLAG_EXIF | WEBP_FLAG_XMP);
+      }
+      chunks.push(chunk);
+    }
+
+    offset = end;
+  }
+  if (chunks.length === 0) return undefined;
+
+  const body = Buffer.concat(chunks);
+  const header = Buffer.alloc(12);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write('WEBP', 8, 'ascii');
+  return Buffer.concat([header, body]);
+};
+
+const startsWith = (buffer: Buffer, prefix: Buffer): boolean =>
+  buffer.length >= prefix.length && buffer.subarray(0, prefix.length).equals(prefix);
@@ -0,0 +1,69 @@
+/**
+ * Supported upload formats
+ *
+ * The type of an upload is decided from its leading bytes, never from the
+ * client's Content-Type or file name alone.
+ */
+
+import { MediaKind } from '../models/MediaAsset';
+
+export interface MediaFormat {
+  contentType: string;
+  extension: string;
+  kind: MediaKind;
+}
+
+export const SUPPORTED_FORMATS: Record<string, MediaFormat> = {
+  'image/jpeg': { contentType: 'image/jpeg', extension: 'jpg', kind: 'image' },
+  'image/png': { contentType: 'image/png', extension: 'png', kind: 'image' },
+  'image/webp': { contentType: 'image/webp', extension: 'webp', kind: 'image' },
+  'video/mp4': { contentType: 'video/mp4', extension: 'mp4', kind: 'video' },
+  'video/quicktime': { contentType: 'video/quicktime', extension: 'mov', kind: 'video' },
+};
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Identify a supported format from the file's magic bytes.
+ * Returns undefined for anything that isn't a supported image or video.
+ */
+export const detectMediaFormat = (buffer: Buffer): MediaFormat | undefined => {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return SUPPORTED_FORMATS['image/jpeg'];
+  }
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return SUPPORTED_FORMATS['image/png'];
+  }
+  if (
+    buffer.length >= 12 &&
+    buffer.toString('ascii', 0, 4) === 'RIFF' &&
+    buffer.toString('ascii', 8, 12) === 'WEBP'
+  ) {
+    return SUPPORTED_FORMATS['image/webp'];
+  }
+  if (buffer.length >= 12 && buffer.toString('ascii', 4, 8) === 'ftyp') {
+    // ISO base media: the major brand tells QuickTime apart from MP4 variants
+    const brand = buffer.toString('ascii', 8, 12);
+    return brand === 'qt  ' ? SUPPORTED_FORMATS['video/quicktime'] : SUPPORTED_FORMATS['video/mp4'];
+  }
+  return undefined;
+};
+
+/**
+ * Whether the client's declared Content-Type agrees with the detected format.
+ * Generic types sent by some clients are accepted and the detected type wins.
+ */
+export const isDeclaredTypeCompatible = (declared: string, detected: MediaFormat): boolean => {
+  const normalized = declared.toLowerCase().split(';')[0].trim();
+  if (normalized === 'application/octet-stream' || normalized === '') {
+    return true;
+  }
+  if (normalized === 'image/jpg') {
+    return detected.contentType === 'image/jpeg';
+  }
+  if (detected.kind === 'video') {
+    // Phones label MP4 and MOV interchangeably
+    return normalized === 'video/mp4' || normalized === 'video/quicktime';
+  }
+  return normalized === detected.contentType;
+};
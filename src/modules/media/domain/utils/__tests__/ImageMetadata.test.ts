@@ -0,0 +1,227 @@
+import { stripImageMetadata } from '../ImageMetadata';
+
+// ============================================================================
+// JPEG
+// ============================================================================
+
+const jpegSegment = (marker: number, payload: Buffer): Buffer => {
+  const header = Buffer.alloc(4);
+  header[0] = 0xff;
+  header[1] = marker;
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([header, payload]);
+};
+
+// Latitude 6° 55' 37" as three RATIONALs
+const GPS_LATITUDE = Buffer.from([
+  6, 0, 0, 0, 1, 0, 0, 0, 55, 0, 0, 0, 1, 0, 0, 0, 37, 0, 0, 0, 1, 0, 0, 0,
+]);
+
+/**
+ * Little-endian TIFF block: IFD0 with Orientation and a GPS IFD pointer, and
+ * a GPS IFD holding GPSLatitudeRef and GPSLatitude (stored out of line)
+ */
+const exifTiff = (gpsOffset = 38): Buffer => {
+  const tiff = Buffer.alloc(38 + 2 + 2 * 12 + 4 + GPS_LATITUDE.length);
+  tiff.write('II', 0, 'binary');
+  tiff.writeUInt16LE(42, 2);
+  tiff.writeUInt32LE(8, 4);
+
+  // IFD0: Orientation = 6, GPS IFD pointer
+  tiff.writeUInt16LE(2, 8);
+  tiff.writeUInt16LE(0x0112, 10);
+  tiff.writeUInt16LE(3, 12);
+  tiff.writeUInt32LE(1, 14);
+  tiff.writeUInt16LE(6, 18);
+  tiff.writeUInt16LE(0x8825, 22);
+  tiff.writeUInt16LE(4, 24);
+  tiff.writeUInt32LE(1, 26);
+  tiff.writeUInt32LE(gpsOffset, 30);
+  tiff.writeUInt32LE(0, 34);
+
+  // GPS IFD: GPSLatitudeRef = "N", GPSLatitude at the end of the block
+  const valuesOffset = 38 + 2 + 2 * 12 + 4;
+  tiff.writeUInt16LE(2, 38);
+  tiff.writeUInt16LE(0x0001, 40);
+  tiff.writeUInt16LE(2, 42);
+  tiff.writeUInt32LE(2, 44);
+  tiff.write('N\0', 48, 'binary');
+  tiff.writeUInt16LE(0x0002, 52);
+  tiff.writeUInt16LE(5, 54);
+  tiff.writeUInt32LE(3, 56);
+  tiff.writeUInt32LE(valuesOffset, 60);
+  GPS_LATITUDE.copy(tiff, valuesOffset);
+  return tiff;
+};
+
+const EXIF = (tiff: Buffer): Buffer =>
+  jpegSegment(0xe1, Buffer.concat([Buffer.from('Exif\0\0', 'binary'), tiff]));
+const XMP = jpegSegment(
+  0xe1,
+  Buffer.from('http://ns.adobe.com/xap/1.0/\0<x:xmpmeta>Colombo</x:xmpmeta>', 'binary')
+);
+const QUANTIZATION = jpegSegment(0xdb, Buffer.alloc(65, 1));
+const START_OF_SCAN = jpegSegment(0xda, Buffer.from([1, 1, 0, 0, 63, 0]));
+// Entropy-coded data with a stuffed 0xFF00 and a restart marker
+const SCAN_DATA = Buffer.from([0x12, 0xff, 0x00, 0x34, 0xff, 0xd0, 0x56]);
+const SOI = Buffer.from([0xff, 0xd8]);
+const EOI = Buffer.from([0xff, 0xd9]);
+
+const jpeg = (...parts: Buffer[]): Buffer => Buffer.concat([SOI, ...parts]);
+
+describe('stripImageMetadata (JPEG)', () => {
+  const image = jpeg(EXIF(exifTiff()), XMP, QUANTIZATION, START_OF_SCAN, SCAN_DATA, EOI);
+
+  it('blanks the GPS directory and keeps the rest of the Exif block', () => {
+    const stripped = stripImageMetadata(image, 'image/jpeg')!;
+
+    expect(stripped.includes(Buffer.from('Exif\0\0', 'binary'))).toBe(true);
+    expect(stripped.includes(GPS_LATITUDE)).toBe(false);
+    expect(stripped.includes(Buffer.from('N\0', 'binary'))).toBe(false);
+    // Orientation entry still in IFD0
+    expect(stripped.includes(Buffer.from([0x12, 0x01, 3, 0, 1, 0, 0, 0, 6, 0]))).toBe(true);
+    expect(stripped.length).toBe(image.length - XMP.length);
+  });
+
+  it('drops XMP and keeps image data, scan data included', () => {
+    const stripped = stripImageMetadata(image, 'image/jpeg')!;
+
+    expect(stripped.includes(Buffer.from('ns.adobe.com/xap', 'binary'))).toBe(false);
+    expect(stripped.includes(QUANTIZATION)).toBe(true);
+    expect(stripped.includes(Buffer.concat([START_OF_SCAN, SCAN_DATA, EOI]))).toBe(true);
+  });
+
+  it('drops anything after the end-of-image marker', () => {
+    const trailer = Buffer.from('GPS 6.9271,79.8612');
+    const stripped = stripImageMetadata(Buffer.concat([image, trailer]), 'image/jpeg')!;
+
+    expect(stripped.subarray(-2)).toEqual(EOI);
+    expect(stripped.includes(trailer)).toBe(false);
+  });
+
+  it('drops an Exif block whose GPS directory points outside it', () => {
+    const stripped = stripImageMetadata(
+      jpeg(EXIF(exifTiff(5000)), QUANTIZATION, EOI),
+      'image/jpeg'
+    )!;
+
+    expect(stripped).toEqual(jpeg(QUANTIZATION, EOI));
+  });
+
+  it.each([
+    ['without a start-of-image marker', Buffer.concat([QUANTIZATION, EOI])],
+    ['without an end-of-image marker', jpeg(QUANTIZATION)],
+    ['with a segment longer than the file', jpeg(QUANTIZATION.subarray(0, 20))],
+    ['with a scan that never ends', jpeg(START_OF_SCAN, SCAN_DATA)],
+    ['with bytes between segments', jpeg(QUANTIZATION, Buffer.from([0x00]), EOI)],
+  ])('rejects a file %s', (_, file) => {
+    expect(stripImageMetadata(file, 'image/jpeg')).toBeUndefined();
+  });
+});
+
+// ============================================================================
+// PNG
+// ============================================================================
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const pngChunk = (type: string, data: Buffer | string): Buffer => {
+  const body = Buffer.isBuffer(data) ? data : Buffer.from(data, 'latin1');
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(body.length);
+  return Buffer.concat([length, Buffer.from(type, 'ascii'), body, Buffer.alloc(4)]);
+};
+
+describe('stripImageMetadata (PNG)', () => {
+  const header = pngChunk('IHDR', Buffer.alloc(13));
+  const comment = pngChunk('tEXt', 'Comment\0Sunset at Galle');
+  const data = pngChunk('IDAT', Buffer.alloc(20, 7));
+  const end = pngChunk('IEND', Buffer.alloc(0));
+  const image = Buffer.concat([
+    PNG_SIGNATURE,
+    header,
+    pngChunk('iTXt', 'XML:com.adobe.xmp\0\0\0\0\0<x:xmpmeta/>'),
+    pngChunk('eXIf', exifTiff()),
+    pngChunk('zTXt', 'Raw profile type exif\0\0data'),
+    comment,
+    data,
+    end,
+  ]);
+
+  it('drops eXIf and Exif or XMP text chunks and keeps the rest', () => {
+    expect(stripImageMetadata(image, 'image/png')).toEqual(
+      Buffer.concat([PNG_SIGNATURE, header, comment, data, end])
+    );
+  });
+
+  it('drops anything after IEND', () => {
+    const stripped = stripImageMetadata(Buffer.concat([image, Buffer.from('extra')]), 'image/png')!;
+
+    expect(stripped.subarray(-12)).toEqual(end);
+  });
+
+  it.each([
+    ['without an IEND chunk', Buffer.concat([PNG_SIGNATURE, header, data])],
+    [
+      'with a chunk longer than the file',
+      Buffer.concat([PNG_SIGNATURE, header, data.subarray(0, 16)]),
+    ],
+  ])('rejects a file %s', (_, file) => {
+    expect(stripImageMetadata(file, 'image/png')).toBeUndefined();
+  });
+});
+
+// ============================================================================
+// WEBP
+// ============================================================================
+
+const riffChunk = (fourCC: string, data: Buffer): Buffer => {
+  const header = Buffer.alloc(8);
+  header.write(fourCC, 0, 'ascii');
+  header.writeUInt32LE(data.length, 4);
+  return Buffer.concat([header, data, Buffer.alloc(data.length % 2)]);
+};
+
+const webp = (...chunks: Buffer[]): Buffer => {
+  const body = Buffer.concat(chunks);
+  const header = Buffer.alloc(12);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write('WEBP', 8, 'ascii');
+  return Buffer.concat([header, body]);
+};
+
+describe('stripImageMetadata (WebP)', () => {
+  it('drops EXIF and XMP chunks and clears their VP8X flags', () => {
+    const flags = Buffer.alloc(10);
+    flags[0] = 0x08 | 0x04 | 0x10; // EXIF, XMP and alpha
+    const frame = riffChunk('VP8 ', Buffer.alloc(11, 3));
+    const image = webp(
+      riffChunk('VP8X', flags),
+      frame,
+      riffChunk('EXIF', exifTiff()),
+      riffChunk('XMP ', Buffer.from('<x:xmpmeta/>'))
+    );
+
+    const stripped = stripImageMetadata(image, 'image/webp')!;
+    const cleared = Buffer.from(flags);
+    cleared[0] = 0x10;
+
+    expect(stripped).toEqual(webp(riffChunk('VP8X', cleared), frame));
+    expect(stripped.readUInt32LE(4)).toBe(stripped.length - 8);
+  });
+
+  it('rejects a chunk longer than the file', () => {
+    const truncated = webp(riffChunk('VP8 ', Buffer.alloc(11))).subarray(0, 24);
+
+    expect(stripImageMetadata(truncated, 'image/webp')).toBeUndefined();
+  });
+});
+
+describe('stripImageMetadata (other types)', () => {
+  it('returns other content unchanged', () => {
+    const video = Buffer.from('....ftypqt  ');
+
+    expect(stripImageMetadata(video, 'video/quicktime')).toBe(video);
+  });
+});
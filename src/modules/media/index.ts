@@ -0,0 +1,19 @@
+/**
+ * Media Module
+ * Handles photo and video uploads for incident reports, road incidents and health profiles
+ */
+
+// Export routes
+export { mediaRoutes } from './api/routes/mediaRoutes';
+
+// Export controllers
+export { MediaController } from './api/controllers/MediaController';
+
+// Export services
+export { MediaService } from './domain/services/MediaService';
+
+// Export models
+export { MediaAsset, IMediaAsset, MediaPurpose, MediaKind } from './domain/models/MediaAsset';
+
+// Export repositories
+export { MediaAssetRepository } from './domain/repositories/MediaAssetRepository';
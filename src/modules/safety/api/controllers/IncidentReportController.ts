@@ -1,13 +1,20 @@
 import { Response, NextFunction } from 'express';
 import { IncidentReportService } from '../../domain/services/IncidentReportService';
+import {
+  IncidentModerationService,
+  ModerationDecision,
+} from '../../domain/services/IncidentModerationService';
 import { AuthRequest } from '../../../../shared/middleware/auth';
+import { AppError } from '../../../../shared/middleware/errorHandler';
 import { validationResult } from 'express-validator';
 
 export class IncidentReportController {
   private incidentReportService: IncidentReportService;
+  private incidentModerationService: IncidentModerationService;
 
   constructor() {
     this.incidentReportService = new IncidentReportService();
+    this.incidentModerationService = new IncidentModerationService();
   }
 
   /**
@@ -153,7 +160,7 @@ export class IncidentReportController {
     _next: NextFunction
   ): Promise<void> => {
     try {
-      const { latitude, longitude, radius, limit } = req.query;
+      const { latitude, longitude, radius, limit, includeUnverified } = req.query;
 
       if (!latitude || !longitude) {
         res.status(400).json({
@@ -167,7 +174,8 @@ export class IncidentReportController {
         parseFloat(latitude as string),
         parseFloat(longitude as string),
         parseFloat((radius as string) || '5'),
-        parseInt((limit as string) || '10')
+        parseInt((limit as string) || '10'),
+        includeUnverified === 'true'
       );
 
       res.status(200).json({
@@ -273,4 +281,145 @@ export class IncidentReportController {
       });
     }
   };
+
+  /**
+   * Verify a report (moderator)
+   */
+  verifyReport = async (req: AuthRequest, res: Response, _next: NextFunction): Promise<void> => {
+    await this.moderateReport(req, res, 'verified');
+  };
+
+  /**
+   * Reject a report with a reason (moderator)
+   */
+  rejectReport = async (req: AuthRequest, res: Response, _next: NextFunction): Promise<void> => {
+    await this.moderateReport(req, res, 'rejected');
+  };
+
+  /**
+   * Get pending reports awaiting moderation (moderator)
+   */
+  getModerationQueue = async (
+    req: AuthRequest,
+    res: Response,
+    _next: NextFunction
+  ): Promise<void> => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 20;
+      const skip = parseInt(req.query.skip as string) || 0;
+
+      const result = await this.incidentModerationService.getModerationQueue(limit, skip);
+
+      res.status(200).json({
+        success: true,
+        data: result.items,
+        pagination: {
+          total: result.total,
+          limit,
+          skip,
+          hasMore: result.total > skip + limit,
+        },
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: { message: (error as Error).message || 'Failed to get moderation queue' },
+      });
+    }
+  };
+
+  /**
+   * Get a report's moderation audit trail and linked duplicates (moderator)
+   */
+  getModerationDetails = async (
+    req: AuthRequest,
+    res: Response,
+    _next: NextFunction
+  ): Promise<void> => {
+    try {
+      const details = await this.incidentModerationService.getModerationDetails(
+        req.params.reportId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: details,
+      });
+    } catch (error) {
+      res.status((error as AppError).statusCode || 500).json({
+        success: false,
+        error: { message: (error as Error).message || 'Failed to get moderation details' },
+      });
+    }
+  };
+
+  /**
+   * Get a reporter's trust score (moderator)
+   */
+  getReporterTrust = async (
+    req: AuthRequest,
+    res: Response,
+    _next: NextFunction
+  ): Promise<void> => {
+    try {
+      const trust = await this.incidentModerationService.getReporterTrust(req.params.userId);
+
+      res.status(200).json({
+        success: true,
+        data: trust,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: { message: (error as Error).message || 'Failed to get reporter trust' },
+      });
+    }
+  };
+
+  private moderateReport = async (
+    req: AuthRequest,
+    res: Response,
+    decision: ModerationDecision
+  ): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: 'Invalid request data',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      const moderatorId = req.user?.userId;
+      if (!moderatorId) {
+        res.status(401).json({
+          success: false,
+          error: { message: 'Authentication required' },
+        });
+        return;
+      }
+
+      const report = await this.incidentModerationService.moderateReport(
+        req.params.reportId,
+        moderatorId,
+        decision,
+        req.body.reason
+      );
+
+      res.status(200).json({
+        success: true,
+        message: `Report ${decision}`,
+        data: report,
+      });
+    } catch (error) {
+      res.status((error as AppError).statusCode || 500).json({
+        success: false,
+        error: { message: (error as Error).message || 'Failed to moderate report' },
+      });
+    }
+  };
 }
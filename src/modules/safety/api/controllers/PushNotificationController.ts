@@ -6,8 +6,15 @@ import { validationResult } from 'express-validator';
 import { DeviceToken } from '../../domain/models/DeviceToken';
 import mongoose from 'mongoose';
 import { RealtimeUVAlertService } from '../../../weather/api/controllers/RealtimeUVAlertController';
+import { SosService } from '../../domain/services/SosService';
 
 export class PushNotificationController {
+  private sosService: SosService;
+
+  constructor() {
+    this.sosService = new SosService();
+  }
+
   /**
    * Register device token with location
    * POST /api/v1/push-notifications/register
@@ -158,6 +165,13 @@ export class PushNotificationController {
         },
       });
 
+      // Feed the user's live SOS session, if one is active (non-blocking)
+      this.sosService
+        .recordLocation(userId, latitude, longitude)
+        .catch((err) =>
+          console.error('[PushNotificationController] SOS location update failed:', err.message)
+        );
+
       // Fire async UV risk check (non-blocking) after sending response
       // This checks weather + ML model and sends push notification if risk is high/very high
       if (result.modifiedCount > 0) {
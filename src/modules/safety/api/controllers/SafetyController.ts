@@ -1,13 +1,16 @@
 import { Response, NextFunction } from 'express';
 import { SafetyService } from '../../domain/services/SafetyService';
+import { SafetyHeatmapService } from '../../domain/services/SafetyHeatmapService';
 import { AuthRequest } from '../../../../shared/middleware/auth';
 import { validationResult } from 'express-validator';
 
 export class SafetyController {
   private safetyService: SafetyService;
+  private safetyHeatmapService: SafetyHeatmapService;
 
   constructor() {
     this.safetyService = new SafetyService();
+    this.safetyHeatmapService = new SafetyHeatmapService();
   }
 
   /**
@@ -228,6 +231,48 @@ export class SafetyController {
     }
   };
 
+  /**
+   * Get precomputed risk cells for a map viewport as GeoJSON
+   * Query: bbox=minLng,minLat,maxLng,maxLat, zoom, optional hour (0-23)
+   * Public endpoint - cells are aggregated and contain no reporter data
+   */
+  getHeatmap = async (req: AuthRequest, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: 'Invalid request data',
+            details: errors.array(),
+          },
+        });
+        return;
+      }
+
+      const [minLng, minLat, maxLng, maxLat] = (req.query.bbox as string).split(',').map(Number);
+      const { hour } = req.query;
+
+      const { meta, ...featureCollection } = await this.safetyHeatmapService.getHeatmap({
+        bbox: { minLat, minLng, maxLat, maxLng },
+        zoom: parseInt(req.query.zoom as string),
+        hour: hour !== undefined ? parseInt(hour as string) : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: featureCollection,
+        meta,
+      });
+    } catch (error) {
+      console.error('[SafetyController] Error getting safety heatmap:', error);
+      res.status(500).json({
+        success: false,
+        error: { message: (error as Error).message || 'Failed to get safety heatmap' },
+      });
+    }
+  };
+
   /**
    * Health check for safety ML service
    */
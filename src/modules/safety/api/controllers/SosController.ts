@@ -0,0 +1,336 @@
+// controllers/SosController.ts
+
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { AuthRequest } from '../../../../shared/middleware/auth';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+import { SosService, TrustedContactInput } from '../../domain/services/SosService';
+
+const CONTACT_FIELDS: (keyof TrustedContactInput)[] = [
+  'name',
+  'relationship',
+  'phoneNumber',
+  'email',
+];
+
+export class SosController {
+  private sosService: SosService;
+
+  constructor() {
+    this.sosService = new SosService();
+  }
+
+  /**
+   * Get the user's trusted contacts
+   * GET /api/v1/sos/contacts
+   */
+  getContacts = async (req: AuthRequest, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const userId = this.requireUser(req, res);
+      if (!userId) return;
+
+      const contacts = await this.sosService.getContacts(userId);
+
+      res.status(200).json({
+        success: true,
+        data: contacts,
+        count: contacts.length,
+      });
+    } catch (error) {
+      console.error('[SosController] Error getting trusted contacts:', error);
+      res.status(500).json({
+        success: false,
+        error: { message: (error as Error).message || 'Failed to get trusted contacts' },
+      });
+    }
+  };
+
+  /**
+   * Add a trusted contact
+   * POST /api/v1/sos/contacts
+   */
+  addContact = async (req: AuthRequest, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      if (!this.checkValidation(req, res)) return;
+      const userId = this.requireUser(req, res);
+      if (!userId) return;
+
+      const contact = await this.sosService.addContact(
+        userId,
+        this.pickContactFields(req.body) as TrustedContactInput
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Trusted contact added',
+        data: contact,
+      });
+    } catch (error) {
+      res.status(this.getStatusCode(error)).json({
+        success: false,
+        error: { message: (error as Error).message || 'Failed to add trusted contact' },
+      });
+    }
+  };
+
+  /**
+   * Update a trusted contact
+   * PUT /api/v1/sos/contacts/:contactId
+   */
+  updateContact = async (req: AuthRequest, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      if (!this.checkValidation(req, res)) return;
+      const userId = this.requireUser(req, res);
+      if (!userId) return;
+
+      const contact = await this.sosService.updateContact(
+        userId,
+        req.params.contactId,
+        this.pickContactFields(req.body)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Trusted contact updated',
+        data: contact,
+      });
+    } catch (error) {
+      res.status(this.getStatusCode(error)).json({
+        success: false,
+        error: { message: (error as Error).message || 'Failed to update trusted contact' },
+      });
+    }
+  };
+
+  /**
+   * Remove a trusted contact
+   * DELETE /api/v1/sos/contacts/:contactId
+   */
+  removeContact = async (req: AuthRequest, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      if (!this.checkValidation(req, res)) return;
+      const userId = this.requireUser(req, res);
+      if (!userId) return;
+
+      await this.sosService.removeContact(userId, req.params.contactId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Trusted contact removed',
+      });
+    } catch (error) {
+      res.status(this.getStatusCode(error)).json({
+        success: false,
+        error: { message: (error as Error).message || 'Failed to remove trusted contact' },
+      });
+    }
+  };
+
+  /**
+   * Accept an invitation to be someone's trusted contact
+   * POST /api/v1/sos/contacts/accept
+   */
+  acceptContactInvite = async (
+    req: AuthRequest,
+    res: Response,
+    _next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!this.checkValidation(req, res)) return;
+      const userId = this.requireUser(req, res);
+      if (!userId) return;
+
+      const accepted = await this.sosService.acceptContactInvite(userId, req.body.token);
+
+      res.status(200).json({
+        success: true,
+        message: `You will now get SOS alerts from ${accepted.ownerName} as push notifications`,
+        data: accepted,
+      });
+    } catch (error) {
+      res.status(this.getStatusCode(error)).json({
+        success: false,
+        error: { message: (error as Error).message || 'Failed to accept invitation' },
+      });
+    }
+  };
+
+  /**
+   * Trigger SOS
+   * POST /api/v1/sos/start
+   */
+  startSession = async (req: AuthRequest, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      if (!this.checkValidation(req, res)) return;
+      const userId = this.requireUser(req, res);
+      if (!userId) return;
+
+      const { latitude, longitude, message, durationMinutes } = req.body;
+      const result = await this.sosService.startSession(userId, {
+        latitude: Number(latitude),
+        longitude: Number(longitude),
+        message,
+        durationMinutes: durationMinutes !== undefined ? Number(durationMinutes) : undefined,
+      });
+
+      res.status(result.alreadyActive ? 200 : 201).json({
+        success: true,
+        message: result.alreadyActive ? 'SOS is already active' : 'SOS started',
+        data: result,
+      });
+    } catch (error) {
+      console.error('[SosController] Error starting SOS:', error);
+      res.status(this.getStatusCode(error)).json({
+        success: false,
+        error: { message: (error as Error).message || 'Failed to start SOS' },
+      });
+    }
+  };
+
+  /**
+   * Get the user's active SOS session
+   * GET /api/v1/sos/active
+   */
+  getActiveSession = async (
+    req: AuthRequest,
+    res: Response,
+    _next: NextFunction
+  ): Promise<void> => {
+    try {
+      const userId = this.requireUser(req, res);
+      if (!userId) return;
+
+      const session = await this.sosService.getActiveSession(userId);
+
+      res.status(200).json({
+        success: true,
+        data: session,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: { message: (error as Error).message || 'Failed to get SOS session' },
+      });
+    }
+  };
+
+  /**
+   * End an SOS session
+   * POST /api/v1/sos/sessions/:sessionId/end
+   */
+  endSession = async (req: AuthRequest, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      if (!this.checkValidation(req, res)) return;
+      const userId = this.requireUser(req, res);
+      if (!userId) return;
+
+      const session = await this.sosService.endSession(userId, req.params.sessionId);
+
+      res.status(200).json({
+        success: true,
+        message: 'SOS ended',
+        data: session,
+      });
+    } catch (error) {
+      res.status(this.getStatusCode(error)).json({
+        success: false,
+        error: { message: (error as Error).message || 'Failed to end SOS' },
+      });
+    }
+  };
+
+  /**
+   * Get the audit trail of an SOS session
+   * GET /api/v1/sos/sessions/:sessionId/events
+   */
+  getSessionEvents = async (
+    req: AuthRequest,
+    res: Response,
+    _next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!this.checkValidation(req, res)) return;
+      const userId = this.requireUser(req, res);
+      if (!userId) return;
+
+      const events = await this.sosService.getSessionEvents(userId, req.params.sessionId);
+
+      res.status(200).json({
+        success: true,
+        data: events,
+        count: events.length,
+      });
+    } catch (error) {
+      res.status(this.getStatusCode(error)).json({
+        success: false,
+        error: { message: (error as Error).message || 'Failed to get SOS events' },
+      });
+    }
+  };
+
+  /**
+   * Follow an SOS session through its tracking link
+   * GET /api/v1/sos/track/:token
+   * Public endpoint - the token in the link is the credential
+   */
+  getTracking = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      if (!this.checkValidation(req, res)) return;
+
+      const tracking = await this.sosService.getTrackingView(req.params.token);
+
+      res.status(200).json({
+        success: true,
+        data: tracking,
+      });
+    } catch (error) {
+      res.status(this.getStatusCode(error)).json({
+        success: false,
+        error: { message: (error as Error).message || 'Failed to get SOS tracking' },
+      });
+    }
+  };
+
+  private checkValidation(req: Request, res: Response): boolean {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: {
+          message: 'Invalid request data',
+          details: errors.array(),
+        },
+      });
+      return false;
+    }
+    return true;
+  }
+
+  private requireUser(req: AuthRequest, res: Response): string | null {
+    const userId = req.user?.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: { message: 'Authentication required' },
+      });
+      return null;
+    }
+    return userId;
+  }
+
+  private pickContactFields(body: Record<string, unknown>): Partial<TrustedContactInput> {
+    const input: Partial<TrustedContactInput> = {};
+    for (const field of CONTACT_FIELDS) {
+      if (typeof body[field] === 'string') {
+        input[field] = body[field] as string;
+      }
+    }
+    return input;
+  }
+
+  private getStatusCode(error: unknown): number {
+    const { statusCode, name } = error as AppError;
+    if (statusCode) return statusCode;
+    return name === 'ValidationError' ? 400 : 500;
+  }
+}
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { IncidentReportController } from '../controllers/IncidentReportController';
-import { authenticate } from '../../../../shared/middleware/auth';
+import { authenticate, authorize, optionalAuth } from '../../../../shared/middleware/auth';
 import { apiLimiter } from '../../../../shared/config/rateLimiter';
 import { body, query, param } from 'express-validator';
 
@@ -14,6 +14,7 @@ const incidentReportController = new IncidentReportController();
  */
 router.post(
   '/report',
+  optionalAuth as any,
   apiLimiter,
   [
     body('incidentType')
@@ -43,24 +44,13 @@ router.post(
       .isString()
       .isLength({ min: 10, max: 2000 })
       .withMessage('Description must be between 10 and 2000 characters'),
-    body('photoUrl').optional().isURL().withMessage('Invalid photo URL'),
+    body('photoUrl').optional().isURL({ require_tld: false }).withMessage('Invalid photo URL'),
     body('isAnonymous').optional().isBoolean().withMessage('isAnonymous must be a boolean'),
     body('reporterDeviceToken').optional().isString().withMessage('Invalid reporter device token'),
   ],
   incidentReportController.createReport
 );
 
-/**
- * GET /api/v1/incidents/:reportId
- * Get incident report by ID
- */
-router.get(
-  '/:reportId',
-  apiLimiter,
-  [param('reportId').isMongoId().withMessage('Invalid report ID')],
-  incidentReportController.getReportById
-);
-
 /**
  * GET /api/v1/incidents/user/reports
  * Get user's incident reports (requires authentication)
@@ -78,7 +68,7 @@ router.get(
 
 /**
  * GET /api/v1/incidents/nearby
- * Get nearby incident reports
+ * Get nearby verified or corroborated incident reports; includeUnverified=true adds pending ones
  */
 router.get(
   '/nearby',
@@ -91,6 +81,10 @@ router.get(
       .isFloat({ min: 0.1, max: 100 })
       .withMessage('Radius must be 0.1-100 km'),
     query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be 1-100'),
+    query('includeUnverified')
+      .optional()
+      .isBoolean()
+      .withMessage('includeUnverified must be a boolean'),
   ],
   incidentReportController.getNearbyReports
 );
@@ -129,11 +123,12 @@ router.get('/statistics', apiLimiter, incidentReportController.getStatistics);
 
 /**
  * GET /api/v1/incidents/all
- * Get all reports with pagination (for admin)
+ * Get all reports with pagination (admin, moderator)
  */
 router.get(
   '/all',
   authenticate as any,
+  authorize('admin', 'moderator') as any,
   apiLimiter,
   [
     query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be 1-100'),
@@ -159,4 +154,99 @@ router.get(
   incidentReportController.getAllReports
 );
 
+/**
+ * GET /api/v1/incidents/moderation/queue
+ * Get pending reports awaiting moderation, with reporter trust and duplicate counts
+ * (admin, moderator)
+ */
+router.get(
+  '/moderation/queue',
+  authenticate as any,
+  authorize('admin', 'moderator') as any,
+  apiLimiter,
+  [
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be 1-100'),
+    query('skip').optional().isInt({ min: 0 }).withMessage('Skip must be >= 0'),
+  ],
+  incidentReportController.getModerationQueue
+);
+
+/**
+ * GET /api/v1/incidents/reporters/:userId/trust
+ * Get a reporter's trust score (admin, moderator)
+ */
+router.get(
+  '/reporters/:userId/trust',
+  authenticate as any,
+  authorize('admin', 'moderator') as any,
+  apiLimiter,
+  [param('userId').isMongoId().withMessage('Invalid user ID')],
+  incidentReportController.getReporterTrust
+);
+
+/**
+ * POST /api/v1/incidents/:reportId/verify
+ * Verify a report; sends the nearby alert if it hasn't gone out yet (admin, moderator)
+ */
+router.post(
+  '/:reportId/verify',
+  authenticate as any,
+  authorize('admin', 'moderator') as any,
+  apiLimiter,
+  [
+    param('reportId').isMongoId().withMessage('Invalid report ID'),
+    body('reason')
+      .optional()
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage('Reason must be at most 500 characters'),
+  ],
+  incidentReportController.verifyReport
+);
+
+/**
+ * POST /api/v1/incidents/:reportId/reject
+ * Reject a report with a reason (admin, moderator)
+ */
+router.post(
+  '/:reportId/reject',
+  authenticate as any,
+  authorize('admin', 'moderator') as any,
+  apiLimiter,
+  [
+    param('reportId').isMongoId().withMessage('Invalid report ID'),
+    body('reason')
+      .isString()
+      .trim()
+      .isLength({ min: 3, max: 500 })
+      .withMessage('A rejection reason of 3-500 characters is required'),
+  ],
+  incidentReportController.rejectReport
+);
+
+/**
+ * GET /api/v1/incidents/:reportId/moderation
+ * Get a report's moderation audit trail and linked duplicates (admin, moderator)
+ */
+router.get(
+  '/:reportId/moderation',
+  authenticate as any,
+  authorize('admin', 'moderator') as any,
+  apiLimiter,
+  [param('reportId').isMongoId().withMessage('Invalid report ID')],
+  incidentReportController.getModerationDetails
+);
+
+/**
+ * GET /api/v1/incidents/:reportId
+ * Get incident report by ID
+ * Registered last so it doesn't shadow the routes above
+ */
+router.get(
+  '/:reportId',
+  apiLimiter,
+  [param('reportId').isMongoId().withMessage('Invalid report ID')],
+  incidentReportController.getReportById
+);
+
 export { router as incidentReportRoutes };
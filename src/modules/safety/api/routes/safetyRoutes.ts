@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { SafetyController } from '../controllers/SafetyController';
-import { authenticate } from '../../../../shared/middleware/auth';
+import { authenticate, authorize } from '../../../../shared/middleware/auth';
 import { apiLimiter } from '../../../../shared/config/rateLimiter';
 import { body, query } from 'express-validator';
 
@@ -97,6 +97,37 @@ router.get(
   safetyController.getNearbyIncidents
 );
 
+/**
+ * GET /api/v1/safety/heatmap
+ * Get precomputed safety risk cells covering a map viewport
+ * Public endpoint - cells aggregate alert history and incident reports
+ * Query: bbox=minLng,minLat,maxLng,maxLat, zoom (0-22), hour (0-23, optional)
+ * Response: GeoJSON FeatureCollection of cell polygons with risk scores
+ */
+router.get(
+  '/heatmap',
+  apiLimiter,
+  [
+    query('bbox').custom((value: string) => {
+      const parts = String(value).split(',').map(Number);
+      if (parts.length !== 4 || parts.some((part) => Number.isNaN(part))) {
+        throw new Error('bbox must be minLng,minLat,maxLng,maxLat');
+      }
+      const [minLng, minLat, maxLng, maxLat] = parts;
+      if (minLng < -180 || maxLng > 180 || minLat < -90 || maxLat > 90) {
+        throw new Error('bbox is outside valid coordinates');
+      }
+      if (minLng >= maxLng || minLat >= maxLat) {
+        throw new Error('bbox minimums must be less than maximums');
+      }
+      return true;
+    }),
+    query('zoom').isInt({ min: 0, max: 22 }).withMessage('Zoom must be 0-22'),
+    query('hour').optional().isInt({ min: 0, max: 23 }).withMessage('Hour must be 0-23'),
+  ],
+  safetyController.getHeatmap
+);
+
 /**
  * GET /api/v1/safety/health
  * Check health of Safety ML service
@@ -107,7 +138,8 @@ router.get('/health', safetyController.healthCheck);
  * GET /api/v1/safety/diagnostics
  * Run network diagnostics for troubleshooting
  * Tests: MongoDB, Google Maps API, ML Service connectivity
+ * Admin only - exposes infrastructure details
  */
-router.get('/diagnostics', safetyController.diagnostics);
+router.get('/diagnostics', authenticate, authorize('admin'), safetyController.diagnostics);
 
 export { router as safetyRoutes };
@@ -0,0 +1,167 @@
+import { Router } from 'express';
+import { SosController } from '../controllers/SosController';
+import { authenticate } from '../../../../shared/middleware/auth';
+import { apiLimiter } from '../../../../shared/config/rateLimiter';
+import { body, param } from 'express-validator';
+import config from '../../../../shared/config/config';
+
+const router = Router();
+const sosController = new SosController();
+
+const contactValidators = (optional: boolean) => [
+  (optional ? body('name').optional() : body('name'))
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Name must be 1-100 characters'),
+  body('relationship')
+    .optional()
+    .isString()
+    .isLength({ max: 50 })
+    .withMessage('Relationship must be at most 50 characters'),
+  body('phoneNumber')
+    .optional()
+    .matches(/^\+[1-9]\d{7,14}$/)
+    .withMessage('Phone number must be in E.164 format (e.g. +94771234567)'),
+  body('email').optional().isEmail().withMessage('Invalid email'),
+];
+
+/**
+ * GET /api/v1/sos/track/:token
+ * Follow a user's SOS live location through the link sent to their contacts
+ * Public endpoint - the token in the link is the credential
+ * Location is only included while the session is active
+ */
+router.get(
+  '/track/:token',
+  apiLimiter,
+  [param('token').isHexadecimal().isLength({ min: 64, max: 64 }).withMessage('Invalid token')],
+  sosController.getTracking
+);
+
+/**
+ * GET /api/v1/sos/contacts
+ * Get the user's trusted contacts (requires authentication)
+ */
+router.get('/contacts', authenticate as any, apiLimiter, sosController.getContacts);
+
+/**
+ * POST /api/v1/sos/contacts
+ * Add a trusted contact (requires authentication)
+ * The contact is sent an invitation to link their Travion account for push alerts
+ * Request body: { name, relationship?, phoneNumber?, email? } - phone or email required
+ */
+router.post(
+  '/contacts',
+  authenticate as any,
+  apiLimiter,
+  [
+    ...contactValidators(false),
+    body().custom((value) => {
+      if (!value.phoneNumber && !value.email) {
+        throw new Error('A phone number or email is required');
+      }
+      return true;
+    }),
+  ],
+  sosController.addContact
+);
+
+/**
+ * POST /api/v1/sos/contacts/accept
+ * Accept an invitation to be someone's trusted contact (requires authentication)
+ * Links the signed-in account so the inviting user's SOS alerts also arrive by push.
+ * The token comes from the invitation sent by SMS and email.
+ * Request body: { token }
+ */
+router.post(
+  '/contacts/accept',
+  authenticate as any,
+  apiLimiter,
+  [body('token').isHexadecimal().isLength({ min: 64, max: 64 }).withMessage('Invalid token')],
+  sosController.acceptContactInvite
+);
+
+/**
+ * PUT /api/v1/sos/contacts/:contactId
+ * Update a trusted contact (requires authentication)
+ */
+router.put(
+  '/contacts/:contactId',
+  authenticate as any,
+  apiLimiter,
+  [param('contactId').isMongoId().withMessage('Invalid contact ID'), ...contactValidators(true)],
+  sosController.updateContact
+);
+
+/**
+ * DELETE /api/v1/sos/contacts/:contactId
+ * Remove a trusted contact (requires authentication)
+ */
+router.delete(
+  '/contacts/:contactId',
+  authenticate as any,
+  apiLimiter,
+  [param('contactId').isMongoId().withMessage('Invalid contact ID')],
+  sosController.removeContact
+);
+
+/**
+ * POST /api/v1/sos/start
+ * Trigger SOS (requires authentication)
+ * Starts a time-boxed live location session fed by PUT /push-notifications/location,
+ * alerts trusted contacts with a tracking link and returns the nearest police
+ * station and hospital. Triggering again while active returns the active session.
+ * Request body: { latitude, longitude, message?, durationMinutes? }
+ * Not rate limited - an emergency must never be turned away
+ */
+router.post(
+  '/start',
+  authenticate as any,
+  [
+    body('latitude').isFloat({ min: -90, max: 90 }).withMessage('Invalid latitude'),
+    body('longitude').isFloat({ min: -180, max: 180 }).withMessage('Invalid longitude'),
+    body('message')
+      .optional()
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage('Message must be at most 500 characters'),
+    body('durationMinutes')
+      .optional()
+      .isInt({ min: 5, max: config.sos.maxDurationMinutes })
+      .withMessage(`Duration must be 5-${config.sos.maxDurationMinutes} minutes`),
+  ],
+  sosController.startSession
+);
+
+/**
+ * GET /api/v1/sos/active
+ * Get the user's active SOS session, or null (requires authentication)
+ */
+router.get('/active', authenticate as any, apiLimiter, sosController.getActiveSession);
+
+/**
+ * POST /api/v1/sos/sessions/:sessionId/end
+ * End SOS and tell trusted contacts the user is safe (requires authentication)
+ * Not rate limited - contacts must never be left thinking the user is in danger
+ */
+router.post(
+  '/sessions/:sessionId/end',
+  authenticate as any,
+  [param('sessionId').isMongoId().withMessage('Invalid session ID')],
+  sosController.endSession
+);
+
+/**
+ * GET /api/v1/sos/sessions/:sessionId/events
+ * Get the audit trail of an SOS session (requires authentication)
+ */
+router.get(
+  '/sessions/:sessionId/events',
+  authenticate as any,
+  apiLimiter,
+  [param('sessionId').isMongoId().withMessage('Invalid session ID')],
+  sosController.getSessionEvents
+);
+
+export { router as sosRoutes };
@@ -1,5 +1,19 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+export type IncidentReportStatus = 'pending' | 'verified' | 'rejected';
+
+/**
+ * One entry in a report's moderation audit trail
+ */
+export interface IModerationEntry {
+  action: 'verified' | 'rejected' | 'duplicate_detected' | 'corroborated';
+  fromStatus: IncidentReportStatus;
+  toStatus: IncidentReportStatus;
+  reason?: string;
+  moderatorId?: mongoose.Types.ObjectId; // unset for automatic entries
+  createdAt: Date;
+}
+
 export interface IIncidentReport extends Document {
   userId?: mongoose.Types.ObjectId; // Optional - reports can be anonymous
   incidentType:
@@ -19,12 +33,50 @@ export interface IIncidentReport extends Document {
   incidentTime: Date;
   description: string;
   photoUrl?: string; // URL to uploaded photo (if any)
-  status: 'pending' | 'verified' | 'rejected';
+  status: IncidentReportStatus;
   isAnonymous: boolean;
+  moderationHistory: IModerationEntry[];
+  duplicateOf?: mongoose.Types.ObjectId; // earlier report of the same incident
+  confirmedBy: mongoose.Types.ObjectId[]; // distinct signed-in users who reported this incident
+  corroboratedAt?: Date; // when enough trusted users confirmed it
+  alertSentAt?: Date; // when the nearby push alert went out
   createdAt: Date;
   updatedAt: Date;
 }
 
+const moderationEntrySchema = new Schema<IModerationEntry>(
+  {
+    action: {
+      type: String,
+      enum: ['verified', 'rejected', 'duplicate_detected', 'corroborated'],
+      required: true,
+    },
+    fromStatus: {
+      type: String,
+      enum: ['pending', 'verified', 'rejected'],
+      required: true,
+    },
+    toStatus: {
+      type: String,
+      enum: ['pending', 'verified', 'rejected'],
+      required: true,
+    },
+    reason: {
+      type: String,
+      maxlength: 500,
+    },
+    moderatorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
 const incidentReportSchema = new Schema<IIncidentReport>(
   {
     userId: {
@@ -91,6 +143,28 @@ const incidentReportSchema = new Schema<IIncidentReport>(
       type: Boolean,
       default: false,
     },
+    moderationHistory: {
+      type: [moderationEntrySchema],
+      default: [],
+    },
+    duplicateOf: {
+      type: Schema.Types.ObjectId,
+      ref: 'IncidentReport',
+      required: false,
+      index: true,
+    },
+    confirmedBy: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+      default: [],
+    },
+    corroboratedAt: {
+      type: Date,
+      required: false,
+    },
+    alertSentAt: {
+      type: Date,
+      required: false,
+    },
   },
   {
     timestamps: true,
@@ -102,6 +176,7 @@ incidentReportSchema.index({ 'location.latitude': 1, 'location.longitude': 1 });
 incidentReportSchema.index({ incidentTime: -1 });
 incidentReportSchema.index({ createdAt: -1 });
 incidentReportSchema.index({ status: 1, incidentTime: -1 });
+incidentReportSchema.index({ incidentType: 1, incidentTime: -1 }); // duplicate detection
 
 const IncidentReport = mongoose.model<IIncidentReport>('IncidentReport', incidentReportSchema);
 
@@ -0,0 +1,66 @@
+//models/ReporterTrust.ts
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Track record of a user's incident reports. The trust score is the share of
+ * their moderated reports that were verified, starting from a neutral 0.5
+ * (Laplace smoothing), so one early rejection doesn't silence a new user.
+ */
+export interface IReporterTrust extends Document {
+  userId: mongoose.Types.ObjectId;
+  reportsSubmitted: number;
+  verifiedReports: number;
+  rejectedReports: number;
+  trustScore: number; // 0-1
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const DEFAULT_TRUST_SCORE = 0.5;
+
+export const calculateTrustScore = (verified: number, rejected: number): number =>
+  (verified + 1) / (verified + rejected + 2);
+
+const reporterTrustSchema = new Schema<IReporterTrust>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User is required'],
+      unique: true,
+    },
+    reportsSubmitted: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    verifiedReports: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    rejectedReports: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    trustScore: {
+      type: Number,
+      default: DEFAULT_TRUST_SCORE,
+      min: 0,
+      max: 1,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Keep the score in step with the counters
+reporterTrustSchema.pre('save', function (next) {
+  this.trustScore = calculateTrustScore(this.verifiedReports, this.rejectedReports);
+  next();
+});
+
+export const ReporterTrust = mongoose.model<IReporterTrust>('ReporterTrust', reporterTrustSchema);
@@ -0,0 +1,108 @@
+//models/SafetyRiskCell.ts
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Hour bucket of the cells that cover every hour of the day
+ */
+export const ALL_HOURS_BUCKET = -1;
+
+/**
+ * Hours of the day covered by each hour bucket
+ */
+export const HOURS_PER_BUCKET = 3;
+
+/**
+ * Precomputed safety risk for one geohash cell and time of day. Rebuilt
+ * periodically by the safety heatmap worker from prediction history and
+ * traveller reports.
+ */
+export interface ISafetyRiskCell extends Document {
+  geohash: string;
+  precision: number; // geohash length
+  hourBucket: number; // 0-7 for 00:00-02:59 ... 21:00-23:59, or ALL_HOURS_BUCKET
+  center: {
+    latitude: number;
+    longitude: number;
+  };
+  alertCount: number; // predictions requested in the cell
+  averageAlertRisk: number; // 0-1, mean of each prediction's highest risk level
+  reportCount: number; // verified or corroborated traveller reports in the cell
+  incidentTypes: Record<string, number>; // report counts by incident type
+  riskScore: number; // 0-1
+  riskLevel: 'low' | 'medium' | 'high';
+  computedAt: Date;
+}
+
+const safetyRiskCellSchema = new Schema<ISafetyRiskCell>(
+  {
+    geohash: {
+      type: String,
+      required: true,
+    },
+    precision: {
+      type: Number,
+      required: true,
+    },
+    hourBucket: {
+      type: Number,
+      required: true,
+      min: ALL_HOURS_BUCKET,
+      max: 7,
+    },
+    center: {
+      latitude: { type: Number, required: true },
+      longitude: { type: Number, required: true },
+    },
+    alertCount: {
+      type: Number,
+      default: 0,
+    },
+    averageAlertRisk: {
+      type: Number,
+      default: 0,
+    },
+    reportCount: {
+      type: Number,
+      default: 0,
+    },
+    incidentTypes: {
+      type: Map,
+      of: Number,
+      default: {},
+    },
+    riskScore: {
+      type: Number,
+      required: true,
+      min: 0,
+      max: 1,
+    },
+    riskLevel: {
+      type: String,
+      enum: ['low', 'medium', 'high'],
+      required: true,
+    },
+    computedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: false,
+  }
+);
+
+safetyRiskCellSchema.index({ geohash: 1, hourBucket: 1 }, { unique: true });
+// Heatmap viewport queries
+safetyRiskCellSchema.index({
+  precision: 1,
+  hourBucket: 1,
+  'center.latitude': 1,
+  'center.longitude': 1,
+});
+safetyRiskCellSchema.index({ computedAt: 1 });
+
+export const SafetyRiskCell = mongoose.model<ISafetyRiskCell>(
+  'SafetyRiskCell',
+  safetyRiskCellSchema
+);
@@ -0,0 +1,58 @@
+//models/SosEvent.ts
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type SosEventType =
+  | 'session_started'
+  | 'contact_notified'
+  | 'location_updated'
+  | 'session_ended'
+  | 'session_expired';
+
+/**
+ * Append-only audit log of everything that happens in an SOS session
+ */
+export interface ISosEvent extends Document {
+  sessionId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  type: SosEventType;
+  details: Record<string, unknown>;
+  createdAt: Date;
+}
+
+const sosEventSchema = new Schema<ISosEvent>(
+  {
+    sessionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'SosSession',
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: [
+        'session_started',
+        'contact_notified',
+        'location_updated',
+        'session_ended',
+        'session_expired',
+      ],
+      required: true,
+    },
+    details: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+sosEventSchema.index({ sessionId: 1, createdAt: 1 });
+
+export const SosEvent = mongoose.model<ISosEvent>('SosEvent', sosEventSchema);
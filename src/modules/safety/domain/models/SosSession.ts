@@ -0,0 +1,137 @@
+//models/SosSession.ts
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type SosSessionStatus = 'active' | 'ended' | 'expired';
+
+export interface ISosLocation {
+  latitude: number;
+  longitude: number;
+  recordedAt: Date;
+}
+
+export interface INearbyHelp {
+  name: string;
+  address?: string;
+  placeId: string;
+  latitude: number;
+  longitude: number;
+  distanceKm: number;
+}
+
+/**
+ * A time-boxed live location sharing session started by SOS. Trusted contacts
+ * follow it through a tracking link; only the hash of the link's token is
+ * stored. Every change is recorded as an SosEvent; location updates at most
+ * once per audit interval.
+ */
+export interface ISosSession extends Document {
+  userId: mongoose.Types.ObjectId;
+  status: SosSessionStatus;
+  message?: string;
+  trackingTokenHash: string;
+  startLocation: ISosLocation;
+  lastLocation: ISosLocation;
+  locationTrail: ISosLocation[]; // most recent points, oldest first
+  nearestHelp: {
+    police?: INearbyHelp;
+    hospital?: INearbyHelp;
+  };
+  startedAt: Date;
+  expiresAt: Date;
+  endedAt?: Date;
+  lastLocationAuditAt?: Date; // when a location update was last written to the audit log
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const sosLocationSchema = new Schema<ISosLocation>(
+  {
+    latitude: { type: Number, required: true, min: -90, max: 90 },
+    longitude: { type: Number, required: true, min: -180, max: 180 },
+    recordedAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const nearbyHelpSchema = new Schema<INearbyHelp>(
+  {
+    name: { type: String, required: true },
+    address: { type: String },
+    placeId: { type: String, required: true },
+    latitude: { type: Number, required: true },
+    longitude: { type: Number, required: true },
+    distanceKm: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const sosSessionSchema = new Schema<ISosSession>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User is required'],
+    },
+    status: {
+      type: String,
+      enum: ['active', 'ended', 'expired'],
+      default: 'active',
+    },
+    message: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    trackingTokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false,
+    },
+    startLocation: {
+      type: sosLocationSchema,
+      required: true,
+    },
+    lastLocation: {
+      type: sosLocationSchema,
+      required: true,
+    },
+    locationTrail: {
+      type: [sosLocationSchema],
+      default: [],
+    },
+    nearestHelp: {
+      police: nearbyHelpSchema,
+      hospital: nearbyHelpSchema,
+    },
+    startedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    endedAt: {
+      type: Date,
+    },
+    lastLocationAuditAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// At most one active session per user
+sosSessionSchema.index(
+  { userId: 1 },
+  { unique: true, partialFilterExpression: { status: 'active' } }
+);
+sosSessionSchema.index({ userId: 1, startedAt: -1 });
+// Timeout worker
+sosSessionSchema.index({ status: 1, expiresAt: 1 });
+
+export const SosSession = mongoose.model<ISosSession>('SosSession', sosSessionSchema);
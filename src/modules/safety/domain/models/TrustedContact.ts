@@ -0,0 +1,89 @@
+//models/TrustedContact.ts
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Someone a user wants alerted when they trigger SOS. Contacts are reached by
+ * SMS and email. They are invited to link their Travion account, and once they
+ * accept they are alerted by push as well. Only the hash of the invitation
+ * token is stored.
+ */
+export interface ITrustedContact extends Document {
+  userId: mongoose.Types.ObjectId; // owner
+  name: string;
+  relationship?: string;
+  phoneNumber?: string;
+  email?: string;
+  linkedUserId?: mongoose.Types.ObjectId; // Travion account that accepted the invitation
+  linkedAt?: Date;
+  inviteTokenHash?: string;
+  inviteExpiresAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const trustedContactSchema = new Schema<ITrustedContact>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User is required'],
+    },
+    name: {
+      type: String,
+      required: [true, 'Contact name is required'],
+      trim: true,
+      maxlength: 100,
+    },
+    relationship: {
+      type: String,
+      trim: true,
+      maxlength: 50,
+    },
+    phoneNumber: {
+      type: String,
+      trim: true,
+      match: [/^\+[1-9]\d{7,14}$/, 'Phone number must be in E.164 format (e.g. +94771234567)'],
+    },
+    email: {
+      type: String,
+      lowercase: true,
+      trim: true,
+      match: [/^\S+@\S+\.\S+$/, 'Please provide a valid email address'],
+    },
+    linkedUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    linkedAt: {
+      type: Date,
+    },
+    inviteTokenHash: {
+      type: String,
+      select: false,
+    },
+    inviteExpiresAt: {
+      type: Date,
+      select: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A contact is useless without a way to reach them
+trustedContactSchema.pre('validate', function (next) {
+  if (!this.phoneNumber && !this.email) {
+    this.invalidate('phoneNumber', 'A phone number or email is required');
+  }
+  next();
+});
+
+trustedContactSchema.index({ userId: 1, createdAt: 1 });
+trustedContactSchema.index({ inviteTokenHash: 1 }, { unique: true, sparse: true });
+
+export const TrustedContact = mongoose.model<ITrustedContact>(
+  'TrustedContact',
+  trustedContactSchema
+);
@@ -1,4 +1,9 @@
-import IncidentReport, { IIncidentReport } from '../models/IncidentReport';
+import mongoose from 'mongoose';
+import IncidentReport, {
+  IIncidentReport,
+  IModerationEntry,
+  IncidentReportStatus,
+} from '../models/IncidentReport';
 
 export class IncidentReportRepository {
   /**
@@ -13,7 +18,19 @@ export class IncidentReportRepository {
    * Find incident report by ID
    */
   async findById(reportId: string): Promise<IIncidentReport | null> {
-    return await IncidentReport.findById(reportId).populate('userId', 'name email');
+    return await IncidentReport.findById(reportId)
+      .select('-moderationHistory')
+      .populate('userId', 'name email');
+  }
+
+  /**
+   * Find incident report by ID including its moderation audit trail
+   */
+  async findByIdWithHistory(reportId: string): Promise<IIncidentReport | null> {
+    return await IncidentReport.findById(reportId).populate(
+      'moderationHistory.moderatorId',
+      'firstName lastName email'
+    );
   }
 
   /**
@@ -24,19 +41,22 @@ export class IncidentReportRepository {
   }
 
   /**
-   * Find recent incidents near a location
+   * Find recent incidents near a location. Only verified or corroborated
+   * reports are returned unless `includeUnverified` is set.
    */
   async findRecentByLocation(
     latitude: number,
     longitude: number,
     radiusInKm = 5,
-    limit = 10
+    limit = 10,
+    includeUnverified = false,
+    maxAgeDays = 30
   ): Promise<IIncidentReport[]> {
     // Simple radius search
     const latDelta = radiusInKm / 111; // 1 degree ≈ 111 km
     const lonDelta = radiusInKm / (111 * Math.cos((latitude * Math.PI) / 180));
 
-    return await IncidentReport.find({
+    const filter: Record<string, unknown> = {
       'location.latitude': {
         $gte: latitude - latDelta,
         $lte: latitude + latDelta,
@@ -46,14 +66,154 @@ export class IncidentReportRepository {
         $lte: longitude + lonDelta,
       },
       status: { $ne: 'rejected' }, // Exclude rejected reports
+      duplicateOf: { $exists: false }, // Duplicates are counted on the original report
       incidentTime: {
-        $gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // Last 30 days
+        $gte: new Date(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000),
       },
-    })
+    };
+
+    if (!includeUnverified) {
+      filter.$or = [{ status: 'verified' }, { corroboratedAt: { $exists: true } }];
+    }
+
+    return await IncidentReport.find(filter)
+      .select('-moderationHistory')
       .sort({ incidentTime: -1 })
       .limit(limit);
   }
 
+  /**
+   * Find earlier, unrejected reports of the same type within a time window
+   * and bounding box, oldest first. Reports already marked as duplicates are
+   * skipped so every incident has a single original.
+   */
+  async findDuplicateCandidates(
+    excludeReportId: string,
+    incidentType: IIncidentReport['incidentType'],
+    latitude: number,
+    longitude: number,
+    radiusInKm: number,
+    from: Date,
+    to: Date
+  ): Promise<IIncidentReport[]> {
+    const latDelta = radiusInKm / 111;
+    const lonDelta = radiusInKm / (111 * Math.cos((latitude * Math.PI) / 180));
+
+    return await IncidentReport.find({
+      _id: { $ne: excludeReportId },
+      incidentType,
+      'location.latitude': { $gte: latitude - latDelta, $lte: latitude + latDelta },
+      'location.longitude': { $gte: longitude - lonDelta, $lte: longitude + lonDelta },
+      incidentTime: { $gte: from, $lte: to },
+      status: { $ne: 'rejected' },
+      duplicateOf: { $exists: false },
+    })
+      .sort({ incidentTime: 1 })
+      .limit(20);
+  }
+
+  /**
+   * Link a report to the original report of the same incident
+   */
+  async markDuplicate(
+    reportId: string,
+    originalId: string,
+    entry: IModerationEntry
+  ): Promise<IIncidentReport | null> {
+    return await IncidentReport.findByIdAndUpdate(
+      reportId,
+      { $set: { duplicateOf: originalId }, $push: { moderationHistory: entry } },
+      { new: true }
+    );
+  }
+
+  /**
+   * Record a signed-in user as having reported this incident
+   */
+  async addConfirmation(reportId: string, userId: string): Promise<IIncidentReport | null> {
+    return await IncidentReport.findByIdAndUpdate(
+      reportId,
+      { $addToSet: { confirmedBy: new mongoose.Types.ObjectId(userId) } },
+      { new: true }
+    );
+  }
+
+  /**
+   * Mark a report as corroborated, once
+   */
+  async markCorroborated(
+    reportId: string,
+    entry: IModerationEntry
+  ): Promise<IIncidentReport | null> {
+    return await IncidentReport.findOneAndUpdate(
+      { _id: reportId, corroboratedAt: { $exists: false } },
+      { $set: { corroboratedAt: entry.createdAt }, $push: { moderationHistory: entry } },
+      { new: true }
+    );
+  }
+
+  /**
+   * Change a report's moderation status and append the audit entry
+   */
+  async updateStatus(
+    reportId: string,
+    status: IncidentReportStatus,
+    entry: IModerationEntry
+  ): Promise<IIncidentReport | null> {
+    return await IncidentReport.findByIdAndUpdate(
+      reportId,
+      { $set: { status }, $push: { moderationHistory: entry } },
+      { new: true, runValidators: true }
+    );
+  }
+
+  /**
+   * Claim the right to send a report's nearby alert. Returns null when the
+   * alert has already been sent, so concurrent callers notify only once.
+   */
+  async claimAlert(reportId: string): Promise<IIncidentReport | null> {
+    return await IncidentReport.findOneAndUpdate(
+      { _id: reportId, alertSentAt: { $exists: false } },
+      { $set: { alertSentAt: new Date() } },
+      { new: true }
+    );
+  }
+
+  /**
+   * Pending original reports awaiting moderation, oldest first
+   */
+  async findModerationQueue(limit = 20, skip = 0): Promise<IIncidentReport[]> {
+    return await IncidentReport.find({ status: 'pending', duplicateOf: { $exists: false } })
+      .select('-moderationHistory')
+      .sort({ createdAt: 1 })
+      .limit(limit)
+      .skip(skip);
+  }
+
+  /**
+   * Find the reports marked as duplicates of a report
+   */
+  async findDuplicatesOf(reportId: string): Promise<IIncidentReport[]> {
+    return await IncidentReport.find({ duplicateOf: reportId })
+      .select('-moderationHistory')
+      .sort({ incidentTime: 1 });
+  }
+
+  /**
+   * Count duplicates for each of the given original reports
+   */
+  async countDuplicates(reportIds: string[]): Promise<Map<string, number>> {
+    const counts = await IncidentReport.aggregate([
+      {
+        $match: {
+          duplicateOf: { $in: reportIds.map((id) => new mongoose.Types.ObjectId(id)) },
+        },
+      },
+      { $group: { _id: '$duplicateOf', count: { $sum: 1 } } },
+    ]);
+    return new Map(counts.map((entry) => [entry._id.toString(), entry.count]));
+  }
+
   /**
    * Find all incident reports with filters
    */
@@ -106,6 +266,26 @@ export class IncidentReportRepository {
     ]);
   }
 
+  /**
+   * Stream located original reports since a date that are verified or
+   * corroborated and not rejected
+   */
+  streamConfirmedSince(
+    since: Date
+  ): AsyncIterable<Pick<IIncidentReport, 'incidentType' | 'location' | 'incidentTime'>> {
+    return IncidentReport.find({
+      incidentTime: { $gte: since },
+      status: { $ne: 'rejected' },
+      $or: [{ status: 'verified' }, { corroboratedAt: { $exists: true } }],
+      duplicateOf: { $exists: false },
+      'location.latitude': { $exists: true },
+      'location.longitude': { $exists: true },
+    })
+      .select('incidentType location incidentTime')
+      .lean()
+      .cursor();
+  }
+
   /**
    * Get total count
    */
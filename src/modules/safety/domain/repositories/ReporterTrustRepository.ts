@@ -0,0 +1,43 @@
+import { ReporterTrust, IReporterTrust } from '../models/ReporterTrust';
+
+export class ReporterTrustRepository {
+  /**
+   * Find a reporter's trust record
+   */
+  async findByUserId(userId: string): Promise<IReporterTrust | null> {
+    return await ReporterTrust.findOne({ userId });
+  }
+
+  /**
+   * Find trust records for several reporters (users without one are omitted)
+   */
+  async findByUserIds(userIds: string[]): Promise<IReporterTrust[]> {
+    return await ReporterTrust.find({ userId: { $in: userIds } });
+  }
+
+  /**
+   * Count a newly submitted report
+   */
+  async recordSubmission(userId: string): Promise<void> {
+    await ReporterTrust.updateOne(
+      { userId },
+      { $inc: { reportsSubmitted: 1 } },
+      { upsert: true, setDefaultsOnInsert: true }
+    );
+  }
+
+  /**
+   * Apply a moderation outcome to the reporter's counters and recompute the score.
+   * Deltas are negative when a moderator reverses an earlier decision.
+   */
+  async recordOutcome(
+    userId: string,
+    verifiedDelta: number,
+    rejectedDelta: number
+  ): Promise<IReporterTrust> {
+    const trust = (await ReporterTrust.findOne({ userId })) ?? new ReporterTrust({ userId });
+    trust.verifiedReports = Math.max(0, trust.verifiedReports + verifiedDelta);
+    trust.rejectedReports = Math.max(0, trust.rejectedReports + rejectedDelta);
+    return await trust.save();
+  }
+}
@@ -64,6 +64,18 @@ export class SafetyRepository {
     return await SafetyAlert.countDocuments(filter);
   }
 
+  /**
+   * Stream the location, time and predictions of every alert since a date
+   */
+  streamSince(
+    since: Date
+  ): AsyncIterable<Pick<ISafetyAlert, 'location' | 'features' | 'predictions' | 'timestamp'>> {
+    return SafetyAlert.find({ timestamp: { $gte: since } })
+      .select('location features.hour predictions timestamp')
+      .lean()
+      .cursor();
+  }
+
   async getHighRiskAlertsForUser(userId: string, limit = 5): Promise<ISafetyAlert[]> {
     return await SafetyAlert.find({
       userId,
@@ -0,0 +1,69 @@
+import { SafetyRiskCell, ISafetyRiskCell } from '../models/SafetyRiskCell';
+import { CellBounds } from '../utils/Geohash';
+
+export type SafetyRiskCellData = Pick<
+  ISafetyRiskCell,
+  | 'geohash'
+  | 'precision'
+  | 'hourBucket'
+  | 'center'
+  | 'alertCount'
+  | 'averageAlertRisk'
+  | 'reportCount'
+  | 'incidentTypes'
+  | 'riskScore'
+  | 'riskLevel'
+>;
+
+const WRITE_BATCH_SIZE = 1000;
+
+export class SafetyRiskCellRepository {
+  /**
+   * Replace the whole grid with freshly computed cells. Cells that are no
+   * longer backed by any data are removed.
+   */
+  async replaceAll(cells: SafetyRiskCellData[], computedAt: Date): Promise<void> {
+    for (let i = 0; i < cells.length; i += WRITE_BATCH_SIZE) {
+      await SafetyRiskCell.bulkWrite(
+        cells.slice(i, i + WRITE_BATCH_SIZE).map((cell) => ({
+          updateOne: {
+            filter: { geohash: cell.geohash, hourBucket: cell.hourBucket },
+            update: { $set: { ...cell, computedAt } },
+            upsert: true,
+          },
+        })),
+        { ordered: false }
+      );
+    }
+
+    await SafetyRiskCell.deleteMany({ computedAt: { $lt: computedAt } });
+  }
+
+  /**
+   * Cells of one precision and hour bucket whose centre lies in the bounds,
+   * riskiest first
+   */
+  async findInBounds(
+    precision: number,
+    hourBucket: number,
+    bounds: CellBounds,
+    limit: number
+  ): Promise<ISafetyRiskCell[]> {
+    return await SafetyRiskCell.find({
+      precision,
+      hourBucket,
+      'center.latitude': { $gte: bounds.minLat, $lte: bounds.maxLat },
+      'center.longitude': { $gte: bounds.minLng, $lte: bounds.maxLng },
+    })
+      .sort({ riskScore: -1 })
+      .limit(limit);
+  }
+
+  /**
+   * When the grid was last rebuilt
+   */
+  async getLastComputedAt(): Promise<Date | null> {
+    const latest = await SafetyRiskCell.findOne().sort({ computedAt: -1 }).select('computedAt');
+    return latest?.computedAt ?? null;
+  }
+}
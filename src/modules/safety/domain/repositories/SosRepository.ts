@@ -0,0 +1,120 @@
+import mongoose from 'mongoose';
+import { SosSession, ISosSession, ISosLocation, SosSessionStatus } from '../models/SosSession';
+import { SosEvent, ISosEvent, SosEventType } from '../models/SosEvent';
+
+export class SosRepository {
+  /**
+   * Create an SOS session
+   */
+  async createSession(sessionData: Partial<ISosSession>): Promise<ISosSession> {
+    const session = new SosSession(sessionData);
+    return await session.save();
+  }
+
+  /**
+   * Find a user's active session
+   */
+  async findActiveByUserId(userId: string): Promise<ISosSession | null> {
+    return await SosSession.findOne({ userId, status: 'active' });
+  }
+
+  /**
+   * Find one of a user's sessions
+   */
+  async findForUser(sessionId: string, userId: string): Promise<ISosSession | null> {
+    return await SosSession.findOne({ _id: sessionId, userId });
+  }
+
+  /**
+   * Find a session by the hash of its tracking token
+   */
+  async findByTrackingTokenHash(tokenHash: string): Promise<ISosSession | null> {
+    return await SosSession.findOne({ trackingTokenHash: tokenHash });
+  }
+
+  /**
+   * Record a new position on an active session, keeping the most recent
+   * `trailLimit` points
+   */
+  async appendLocation(
+    sessionId: string,
+    location: ISosLocation,
+    trailLimit: number
+  ): Promise<ISosSession | null> {
+    return await SosSession.findOneAndUpdate(
+      { _id: sessionId, status: 'active' },
+      {
+        $set: { lastLocation: location },
+        $push: { locationTrail: { $each: [location], $slice: -trailLimit } },
+      },
+      { new: true }
+    );
+  }
+
+  /**
+   * Claim the right to audit a location update, at most once per interval.
+   * Returns false when one was audited less than `intervalMs` ago.
+   */
+  async claimLocationAudit(sessionId: string, now: Date, intervalMs: number): Promise<boolean> {
+    const claimed = await SosSession.findOneAndUpdate(
+      {
+        _id: sessionId,
+        $or: [
+          { lastLocationAuditAt: { $exists: false } },
+          { lastLocationAuditAt: { $lte: new Date(now.getTime() - intervalMs) } },
+        ],
+      },
+      { $set: { lastLocationAuditAt: now } }
+    ).select('_id');
+    return !!claimed;
+  }
+
+  /**
+   * Close an active session. Returns null if it was already closed, so
+   * concurrent callers close it only once.
+   */
+  async close(
+    sessionId: string,
+    status: Exclude<SosSessionStatus, 'active'>
+  ): Promise<ISosSession | null> {
+    return await SosSession.findOneAndUpdate(
+      { _id: sessionId, status: 'active' },
+      { $set: { status, endedAt: new Date() } },
+      { new: true }
+    );
+  }
+
+  /**
+   * Active sessions whose time box has passed
+   */
+  async findExpired(now: Date, limit = 100): Promise<ISosSession[]> {
+    return await SosSession.find({ status: 'active', expiresAt: { $lte: now } })
+      .sort({ expiresAt: 1 })
+      .limit(limit);
+  }
+
+  /**
+   * Append an audit event
+   */
+  async recordEvent(
+    session: ISosSession,
+    type: SosEventType,
+    details: Record<string, unknown> = {}
+  ): Promise<ISosEvent> {
+    return await SosEvent.create({
+      sessionId: session._id,
+      userId: session.userId,
+      type,
+      details,
+    });
+  }
+
+  /**
+   * A session's audit trail, oldest first
+   */
+  async findEvents(sessionId: string): Promise<ISosEvent[]> {
+    return await SosEvent.find({ sessionId: new mongoose.Types.ObjectId(sessionId) }).sort({
+      createdAt: 1,
+    });
+  }
+}
@@ -0,0 +1,77 @@
+import { TrustedContact, ITrustedContact } from '../models/TrustedContact';
+
+export class TrustedContactRepository {
+  /**
+   * Create a trusted contact
+   */
+  async create(contactData: Partial<ITrustedContact>): Promise<ITrustedContact> {
+    const contact = new TrustedContact(contactData);
+    return await contact.save();
+  }
+
+  /**
+   * Find a user's contacts in the order they were added
+   */
+  async findByUserId(userId: string): Promise<ITrustedContact[]> {
+    return await TrustedContact.find({ userId }).sort({ createdAt: 1 });
+  }
+
+  /**
+   * Find one of a user's contacts
+   */
+  async findForUser(contactId: string, userId: string): Promise<ITrustedContact | null> {
+    return await TrustedContact.findOne({ _id: contactId, userId });
+  }
+
+  /**
+   * Replace a contact's invitation token and drop any account linked through
+   * an earlier one
+   */
+  async resetInvite(contactId: string, tokenHash: string, expiresAt: Date): Promise<void> {
+    await TrustedContact.updateOne(
+      { _id: contactId },
+      {
+        $set: { inviteTokenHash: tokenHash, inviteExpiresAt: expiresAt },
+        $unset: { linkedUserId: 1, linkedAt: 1 },
+      }
+    );
+  }
+
+  /**
+   * Link the account that accepted a contact's invitation, using the
+   * invitation up. Returns null when it was already used, has expired or
+   * belongs to the accepting user's own contact list.
+   */
+  async acceptInvite(
+    tokenHash: string,
+    linkedUserId: string,
+    now: Date
+  ): Promise<ITrustedContact | null> {
+    return await TrustedContact.findOneAndUpdate(
+      {
+        inviteTokenHash: tokenHash,
+        inviteExpiresAt: { $gt: now },
+        userId: { $ne: linkedUserId },
+      },
+      {
+        $set: { linkedUserId, linkedAt: now },
+        $unset: { inviteTokenHash: 1, inviteExpiresAt: 1 },
+      },
+      { new: true }
+    );
+  }
+
+  /**
+   * Count a user's contacts
+   */
+  async countByUserId(userId: string): Promise<number> {
+    return await TrustedContact.countDocuments({ userId });
+  }
+
+  /**
+   * Delete one of a user's contacts
+   */
+  async deleteForUser(contactId: string, userId: string): Promise<ITrustedContact | null> {
+    return await TrustedContact.findOneAndDelete({ _id: contactId, userId });
+  }
+}
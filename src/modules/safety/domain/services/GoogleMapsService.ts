@@ -19,6 +19,14 @@ export interface LocationInfo {
   features: LocationFeatures;
 }
 
+export interface NearbyPlace {
+  name: string;
+  address?: string;
+  placeId: string;
+  latitude: number;
+  longitude: number;
+}
+
 export class GoogleMapsService {
   private readonly apiKey: string;
   private readonly baseUrl = 'https://maps.googleapis.com/maps/api';
@@ -182,6 +190,43 @@ export class GoogleMapsService {
     }
   }
 
+  /**
+   * Find the closest place of a type, or null if there is none or the lookup fails
+   */
+  async findNearestPlace(
+    latitude: number,
+    longitude: number,
+    placeType: string
+  ): Promise<NearbyPlace | null> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/place/nearbysearch/json`, {
+        params: {
+          location: `${latitude},${longitude}`,
+          rankby: 'distance',
+          type: placeType,
+          key: this.apiKey,
+        },
+        timeout: 5000,
+      });
+
+      const place = response.data.results?.[0];
+      if (!place) {
+        return null;
+      }
+
+      return {
+        name: place.name,
+        address: place.vicinity,
+        placeId: place.place_id,
+        latitude: place.geometry.location.lat,
+        longitude: place.geometry.location.lng,
+      };
+    } catch (error) {
+      console.error(`Failed to find nearest place (${placeType}):`, error);
+      return null;
+    }
+  }
+
   /**
    * Get detailed place information by place ID
    */
@@ -0,0 +1,358 @@
+import mongoose from 'mongoose';
+import { IncidentReportRepository } from '../repositories/IncidentReportRepository';
+import { ReporterTrustRepository } from '../repositories/ReporterTrustRepository';
+import { IIncidentReport, IModerationEntry } from '../models/IncidentReport';
+import { IReporterTrust, DEFAULT_TRUST_SCORE } from '../models/ReporterTrust';
+import { pushNotificationService } from './PushNotificationService';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+import config from '../../../../shared/config/config';
+
+export type ModerationDecision = 'verified' | 'rejected';
+
+export interface ModerationQueueItem {
+  report: IIncidentReport;
+  reporterTrustScore?: number; // unset for anonymous reports
+  duplicateCount: number;
+}
+
+export interface ReporterTrustSummary {
+  userId: string;
+  reportsSubmitted: number;
+  verifiedReports: number;
+  rejectedReports: number;
+  trustScore: number;
+}
+
+const ALERT_RADIUS_KM = 5;
+
+/**
+ * Incident Moderation Service
+ *
+ * Decides when a safety incident report is trustworthy enough to alert
+ * nearby travellers. New reports start as pending and only trigger the push
+ * alert once a moderator verifies them, or once enough independent, trusted
+ * users have reported the same incident (same type, close in time and place).
+ * Moderator decisions feed each reporter's trust score.
+ */
+export class IncidentModerationService {
+  private readonly incidentReportRepository: IncidentReportRepository;
+  private readonly reporterTrustRepository: ReporterTrustRepository;
+
+  constructor() {
+    this.incidentReportRepository = new IncidentReportRepository();
+    this.reporterTrustRepository = new ReporterTrustRepository();
+  }
+
+  /**
+   * Process a newly created report: link it to an earlier report of the same
+   * incident if there is one, count the reporter's confirmation, and send the
+   * nearby alert if the incident is now verified or corroborated.
+   */
+  async processNewReport(
+    report: IIncidentReport,
+    reporterDeviceToken?: string
+  ): Promise<IIncidentReport> {
+    const reportId = String(report._id);
+    const reporterId = report.userId?.toString();
+
+    if (reporterId) {
+      await this.reporterTrustRepository.recordSubmission(reporterId);
+    }
+
+    let current = report;
+    let incident = report;
+
+    const original = await this.findOriginalReport(report);
+    if (original) {
+      current =
+        (await this.incidentReportRepository.markDuplicate(
+          reportId,
+          String(original.report._id),
+          this.createEntry('duplicate_detected', report.status, report.status, {
+            reason: `Matches report ${original.report._id} (${Math.round(original.distanceKm * 1000)}m apart)`,
+          })
+        )) ?? report;
+      incident = original.report;
+    }
+
+    if (reporterId) {
+      incident =
+        (await this.incidentReportRepository.addConfirmation(String(incident._id), reporterId)) ??
+        incident;
+    }
+
+    incident = await this.checkCorroboration(incident);
+    await this.sendAlertIfWarranted(incident, reporterId, reporterDeviceToken);
+
+    return current;
+  }
+
+  /**
+   * Verify or reject a report, recording the decision in its audit trail and
+   * in the reporter's trust score
+   */
+  async moderateReport(
+    reportId: string,
+    moderatorId: string,
+    decision: ModerationDecision,
+    reason?: string
+  ): Promise<IIncidentReport> {
+    const report = await this.incidentReportRepository.findByIdWithHistory(reportId);
+    if (!report) {
+      throw new AppError('Report not found', 404);
+    }
+    if (report.status === decision) {
+      throw new AppError(`Report is already ${decision}`, 409);
+    }
+
+    const updated = await this.incidentReportRepository.updateStatus(
+      reportId,
+      decision,
+      this.createEntry(decision, report.status, decision, { reason, moderatorId })
+    );
+    if (!updated) {
+      throw new AppError('Report not found', 404);
+    }
+
+    if (report.userId) {
+      const wasVerified = report.status === 'verified' ? 1 : 0;
+      const wasRejected = report.status === 'rejected' ? 1 : 0;
+      await this.reporterTrustRepository.recordOutcome(
+        report.userId.toString(),
+        (decision === 'verified' ? 1 : 0) - wasVerified,
+        (decision === 'rejected' ? 1 : 0) - wasRejected
+      );
+    }
+
+    await this.sendAlertIfWarranted(updated);
+    return updated;
+  }
+
+  /**
+   * Pending original reports, oldest first, with their reporter's trust score
+   * and how many duplicate reports back them up
+   */
+  async getModerationQueue(
+    limit = 20,
+    skip = 0
+  ): Promise<{ items: ModerationQueueItem[]; total: number }> {
+    const reports = await this.incidentReportRepository.findModerationQueue(limit, skip);
+    const total = await this.incidentReportRepository.count({
+      status: 'pending',
+      duplicateOf: { $exists: false },
+    });
+
+    const reportIds = reports.map((report) => String(report._id));
+    const reporterIds = reports
+      .map((report) => report.userId?.toString())
+      .filter((id): id is string => !!id);
+
+    const duplicateCounts = await this.incidentReportRepository.countDuplicates(reportIds);
+    const trustScores = await this.getTrustScores(reporterIds);
+
+    const items = reports.map((report) => {
+      const reporterId = report.userId?.toString();
+      return {
+        report,
+        reporterTrustScore: reporterId
+          ? (trustScores.get(reporterId) ?? DEFAULT_TRUST_SCORE)
+          : undefined,
+        duplicateCount: duplicateCounts.get(String(report._id)) ?? 0,
+      };
+    });
+
+    return { items, total };
+  }
+
+  /**
+   * A report with its audit trail and the duplicates linked to it
+   */
+  async getModerationDetails(
+    reportId: string
+  ): Promise<{ report: IIncidentReport; duplicates: IIncidentReport[] }> {
+    const report = await this.incidentReportRepository.findByIdWithHistory(reportId);
+    if (!report) {
+      throw new AppError('Report not found', 404);
+    }
+
+    const duplicates = await this.incidentReportRepository.findDuplicatesOf(reportId);
+    return { report, duplicates };
+  }
+
+  /**
+   * A reporter's track record (neutral for users who haven't reported yet)
+   */
+  async getReporterTrust(userId: string): Promise<ReporterTrustSummary> {
+    const trust = await this.reporterTrustRepository.findByUserId(userId);
+    return {
+      userId,
+      reportsSubmitted: trust?.reportsSubmitted ?? 0,
+      verifiedReports: trust?.verifiedReports ?? 0,
+      rejectedReports: trust?.rejectedReports ?? 0,
+      trustScore: trust?.trustScore ?? DEFAULT_TRUST_SCORE,
+    };
+  }
+
+  // ============================================================================
+  // HELPER METHODS
+  // ============================================================================
+
+  /**
+   * Find the earliest report of the same incident: same type, within the
+   * duplicate window of the incident time and the duplicate radius
+   */
+  private async findOriginalReport(
+    report: IIncidentReport
+  ): Promise<{ report: IIncidentReport; distanceKm: number } | null> {
+    const { latitude, longitude } = report.location;
+    if (latitude === undefined || longitude === undefined) {
+      return null;
+    }
+
+    const { duplicateRadiusKm, duplicateWindowMinutes } = config.incidentModeration;
+    const windowMs = duplicateWindowMinutes * 60 * 1000;
+    const incidentTime = report.incidentTime.getTime();
+
+    const candidates = await this.incidentReportRepository.findDuplicateCandidates(
+      String(report._id),
+      report.incidentType,
+      latitude,
+      longitude,
+      duplicateRadiusKm,
+      new Date(incidentTime - windowMs),
+      new Date(incidentTime + windowMs)
+    );
+
+    for (const candidate of candidates) {
+      const { latitude: lat, longitude: lon } = candidate.location;
+      if (lat === undefined || lon === undefined) continue;
+
+      const distanceKm = this.calculateDistance(latitude, longitude, lat, lon);
+      if (distanceKm <= duplicateRadiusKm) {
+        return { report: candidate, distanceKm };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Mark a report corroborated once enough trusted users have confirmed it.
+   * Users whose trust score fell below the minimum don't count.
+   */
+  private async checkCorroboration(report: IIncidentReport): Promise<IIncidentReport> {
+    if (report.corroboratedAt || report.status === 'rejected') {
+      return report;
+    }
+
+    const { alertMinConfirmations, minReporterTrust } = config.incidentModeration;
+    const confirmers = report.confirmedBy.map((id) => id.toString());
+    if (confirmers.length < alertMinConfirmations) {
+      return report;
+    }
+
+    const trustScores = await this.getTrustScores(confirmers);
+    const trusted = confirmers.filter(
+      (id) => (trustScores.get(id) ?? DEFAULT_TRUST_SCORE) >= minReporterTrust
+    );
+    if (trusted.length < alertMinConfirmations) {
+      return report;
+    }
+
+    const corroborated = await this.incidentReportRepository.markCorroborated(
+      String(report._id),
+      this.createEntry('corroborated', report.status, report.status, {
+        reason: `Reported by ${trusted.length} independent users`,
+      })
+    );
+    return corroborated ?? report;
+  }
+
+  /**
+   * Send the nearby push alert for a verified or corroborated report, at most
+   * once per report. Runs in the background so reporting isn't slowed down.
+   */
+  private async sendAlertIfWarranted(
+    report: IIncidentReport,
+    excludeUserId?: string,
+    excludeDeviceToken?: string
+  ): Promise<void> {
+    const { latitude, longitude } = report.location;
+    if (report.status === 'rejected' || latitude === undefined || longitude === undefined) {
+      return;
+    }
+    if (report.status !== 'verified' && !report.corroboratedAt) {
+      return;
+    }
+
+    const claimed = await this.incidentReportRepository.claimAlert(String(report._id));
+    if (!claimed) {
+      return;
+    }
+
+    pushNotificationService
+      .sendIncidentAlertToNearby(
+        latitude,
+        longitude,
+        ALERT_RADIUS_KM,
+        {
+          incidentType: report.incidentType,
+          location: report.location.address,
+          distance: 'nearby',
+          incidentId: String(report._id),
+        },
+        excludeUserId ? new mongoose.Types.ObjectId(excludeUserId) : undefined,
+        excludeDeviceToken
+      )
+      .then((result) => {
+        console.log(
+          `[IncidentModerationService] Push notifications sent to ${result.notifiedCount} devices`
+        );
+      })
+      .catch((error) => {
+        console.error('[IncidentModerationService] Failed to send push notifications:', error);
+      });
+  }
+
+  private async getTrustScores(userIds: string[]): Promise<Map<string, number>> {
+    if (userIds.length === 0) {
+      return new Map();
+    }
+    const records: IReporterTrust[] = await this.reporterTrustRepository.findByUserIds(userIds);
+    return new Map(records.map((record) => [record.userId.toString(), record.trustScore]));
+  }
+
+  private createEntry(
+    action: IModerationEntry['action'],
+    fromStatus: IModerationEntry['fromStatus'],
+    toStatus: IModerationEntry['toStatus'],
+    details: { reason?: string; moderatorId?: string } = {}
+  ): IModerationEntry {
+    return {
+      action,
+      fromStatus,
+      toStatus,
+      reason: details.reason,
+      moderatorId: details.moderatorId
+        ? new mongoose.Types.ObjectId(details.moderatorId)
+        : undefined,
+      createdAt: new Date(),
+    };
+  }
+
+  /**
+   * Calculate distance between two coordinates using the Haversine formula
+   */
+  private calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const R = 6371; // Earth's radius in km
+    const dLat = ((lat2 - lat1) * Math.PI) / 180;
+    const dLon = ((lon2 - lon1) * Math.PI) / 180;
+    const a =
+      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+      Math.cos((lat1 * Math.PI) / 180) *
+        Math.cos((lat2 * Math.PI) / 180) *
+        Math.sin(dLon / 2) *
+        Math.sin(dLon / 2);
+    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+    return R * c;
+  }
+}
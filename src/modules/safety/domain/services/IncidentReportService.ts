@@ -1,7 +1,8 @@
 import { IncidentReportRepository } from '../repositories/IncidentReportRepository';
 import { IIncidentReport } from '../models/IncidentReport';
 import mongoose from 'mongoose';
-import { pushNotificationService } from './PushNotificationService';
+import { IncidentModerationService } from './IncidentModerationService';
+import { MediaService } from '../../../media/domain/services/MediaService';
 
 export interface CreateIncidentReportInput {
   userId?: string; // Optional for anonymous reports
@@ -34,9 +35,13 @@ export interface IncidentReportResponse {
 
 export class IncidentReportService {
   private readonly incidentReportRepository: IncidentReportRepository;
+  private readonly mediaService: MediaService;
+  private readonly incidentModerationService: IncidentModerationService;
 
   constructor() {
     this.incidentReportRepository = new IncidentReportRepository();
+    this.mediaService = new MediaService();
+    this.incidentModerationService = new IncidentModerationService();
   }
 
   /**
@@ -61,13 +66,30 @@ export class IncidentReportService {
         };
       }
 
+      // Photos must be uploads made by the reporter through /media
+      let photoUrl: string | undefined;
+      if (reportData.photoUrl) {
+        if (!reportData.userId) {
+          return {
+            success: false,
+            error: 'Sign in to attach a photo to your report',
+          };
+        }
+        [photoUrl] = await this.mediaService.checkUrls(
+          [reportData.photoUrl],
+          reportData.userId,
+          'incident_report',
+          'image'
+        );
+      }
+
       // Prepare report data
       const reportPayload: Partial<IIncidentReport> = {
         incidentType: reportData.incidentType,
         location: reportData.location,
         incidentTime: reportData.incidentTime,
         description: reportData.description,
-        photoUrl: reportData.photoUrl,
+        photoUrl,
         isAnonymous: reportData.isAnonymous || !reportData.userId,
         status: 'pending',
       };
@@ -81,39 +103,19 @@ export class IncidentReportService {
       const report = await this.incidentReportRepository.create(reportPayload);
       console.log('[IncidentReportService] Report created successfully:', report._id);
 
-      // Send push notifications to nearby users
-      if (report.location.latitude && report.location.longitude) {
-        // Calculate distance text for notification
-        const distance = 'nearby'; // You can calculate actual distance if needed
-
-        // Trigger push notification asynchronously (don't wait for it)
-        pushNotificationService
-          .sendIncidentAlertToNearby(
-            report.location.latitude,
-            report.location.longitude,
-            5, // 5km radius
-            {
-              incidentType: report.incidentType,
-              location: report.location.address,
-              distance: distance,
-              incidentId: (report._id as mongoose.Types.ObjectId).toString(),
-            },
-            reportData.userId ? new mongoose.Types.ObjectId(reportData.userId) : undefined,
-            reportData.reporterDeviceToken
-          )
-          .then((result) => {
-            console.log(
-              `[IncidentReportService] Push notifications sent to ${result.notifiedCount} devices`
-            );
-          })
-          .catch((error) => {
-            console.error('[IncidentReportService] Failed to send push notifications:', error);
-          });
+      if (photoUrl) {
+        await this.mediaService.attachUrls([photoUrl]);
       }
 
+      // Link duplicates and alert nearby users once the incident is verified or corroborated
+      const processed = await this.incidentModerationService.processNewReport(
+        report,
+        reportData.reporterDeviceToken
+      );
+
       return {
         success: true,
-        data: report,
+        data: processed,
       };
     } catch (error) {
       console.error('[IncidentReportService] Error creating report:', error);
@@ -140,18 +142,21 @@ export class IncidentReportService {
 
   /**
    * Get nearby incident reports
+   * @param includeUnverified also return pending reports nobody has corroborated yet
    */
   async getNearbyReports(
     latitude: number,
     longitude: number,
     radiusInKm = 5,
-    limit = 10
+    limit = 10,
+    includeUnverified = false
   ): Promise<IIncidentReport[]> {
     return await this.incidentReportRepository.findRecentByLocation(
       latitude,
       longitude,
       radiusInKm,
-      limit
+      limit,
+      includeUnverified
     );
   }
 
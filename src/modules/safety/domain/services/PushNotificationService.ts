@@ -3,12 +3,18 @@
 import admin from 'firebase-admin';
 import { DeviceToken, IDeviceToken } from '../models/DeviceToken';
 import mongoose from 'mongoose';
+import {
+  NotificationMessage,
+  PermanentDeliveryError,
+  PushDeliveryResult,
+  PushSender,
+} from '../../../../shared/libraries/notifications';
 
 export interface NotificationPayload {
   title: string;
   body: string;
   data?: {
-    type: 'incident_alert' | 'system' | 'uv_health_alert';
+    type: 'incident_alert' | 'route_incident_alert' | 'sos_alert' | 'system' | 'uv_health_alert';
     screen?: string;
     incidentId?: string;
     latitude?: string;
@@ -19,7 +25,7 @@ export interface NotificationPayload {
   };
 }
 
-export class PushNotificationService {
+export class PushNotificationService implements PushSender {
   private initialized: boolean = false;
 
   /**
@@ -294,16 +300,12 @@ export class PushNotificationService {
     notification: NotificationPayload
   ): Promise<boolean> {
     try {
-      const devices = await DeviceToken.find({ userId, isActive: true });
+      const result = await this.sendToUserDevices(userId, notification);
 
-      if (devices.length === 0) {
+      if (result.deviceCount === 0) {
         console.log(`[PushNotificationService] No active devices for user ${userId}`);
-        return false;
       }
 
-      const deviceTokens = devices.map((device) => device.deviceToken);
-      const result = await this.sendToMultipleDevices(deviceTokens, notification);
-
       return result.successCount > 0;
     } catch (error) {
       console.error('[PushNotificationService] Send to user error:', error);
@@ -311,6 +313,40 @@ export class PushNotificationService {
     }
   }
 
+  /**
+   * Send a system notification through the shared notification dispatcher.
+   * Reports the device count so a user without devices isn't retried.
+   */
+  async sendPush(userId: string, message: NotificationMessage): Promise<PushDeliveryResult> {
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      throw new PermanentDeliveryError(`Invalid user id ${userId}`);
+    }
+
+    return this.sendToUserDevices(new mongoose.Types.ObjectId(userId), {
+      title: message.title,
+      body: message.body,
+      data: { type: 'system', ...message.data },
+    });
+  }
+
+  /**
+   * Send notification to all of a user's active devices
+   */
+  private async sendToUserDevices(
+    userId: mongoose.Types.ObjectId,
+    notification: NotificationPayload
+  ): Promise<PushDeliveryResult> {
+    const devices = await DeviceToken.find({ userId, isActive: true });
+    if (devices.length === 0) {
+      return { deviceCount: 0, successCount: 0 };
+    }
+
+    const deviceTokens = devices.map((device) => device.deviceToken);
+    const result = await this.sendToMultipleDevices(deviceTokens, notification);
+
+    return { deviceCount: devices.length, successCount: result.successCount };
+  }
+
   /**
    * Remove invalid device token from database
    */
@@ -0,0 +1,301 @@
+import { SafetyRepository } from '../repositories/SafetyRepository';
+import { IncidentReportRepository } from '../repositories/IncidentReportRepository';
+import {
+  SafetyRiskCellRepository,
+  SafetyRiskCellData,
+} from '../repositories/SafetyRiskCellRepository';
+import { ALL_HOURS_BUCKET, HOURS_PER_BUCKET, ISafetyRiskCell } from '../models/SafetyRiskCell';
+import { CellBounds, boundsToPolygon, decodeGeohashBounds, encodeGeohash } from '../utils/Geohash';
+import config from '../../../../shared/config/config';
+
+export interface HeatmapQuery {
+  bbox: CellBounds;
+  zoom: number;
+  hour?: number; // 0-23, Sri Lanka time; all hours when omitted
+}
+
+export interface HeatmapFeature {
+  type: 'Feature';
+  geometry: { type: 'Polygon'; coordinates: number[][][] };
+  properties: {
+    geohash: string;
+    riskScore: number;
+    riskLevel: 'low' | 'medium' | 'high';
+    alertCount: number;
+    reportCount: number;
+    incidentTypes: Record<string, number>;
+  };
+}
+
+export interface HeatmapResponse {
+  type: 'FeatureCollection';
+  features: HeatmapFeature[];
+  meta: {
+    precision: number;
+    hourBucket: number;
+    hours?: { from: number; to: number };
+    computedAt: Date | null;
+    truncated: boolean;
+  };
+}
+
+interface CellAccumulator {
+  geohash: string;
+  precision: number;
+  hourBucket: number;
+  alertCount: number;
+  alertRiskSum: number;
+  reportCount: number;
+  incidentTypes: Record<string, number>;
+}
+
+// Grid precisions that are precomputed (see precisionForZoom)
+const PRECISIONS = [4, 5, 6, 7];
+const FINEST_PRECISION = PRECISIONS[PRECISIONS.length - 1];
+
+const RISK_VALUES = { low: 0, medium: 0.5, high: 1 };
+
+// Predictions are estimates; reports are things that actually happened
+const ALERT_WEIGHT = 0.5;
+
+// Reports that give a finest-grid cell a report score of ~0.63.
+// Each coarser level needs twice as many, so hotspots stay visible zoomed out.
+const REPORT_SATURATION = 3;
+
+const MEDIUM_RISK_SCORE = 0.3;
+const HIGH_RISK_SCORE = 0.6;
+
+const MAX_FEATURES = 2000;
+
+// Sri Lanka Standard Time (UTC+5:30)
+const SRI_LANKA_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+
+/**
+ * Safety Heatmap Service
+ *
+ * Aggregates safety data into a geohash grid so the map can shade risky areas
+ * instead of querying one point at a time. Each cell combines the prediction
+ * history of the area (how risky the ML model found it) with the density of
+ * verified or corroborated traveller reports, per 3-hour slice of the day and
+ * for the whole day. The grid is rebuilt in the background by the safety
+ * heatmap worker.
+ */
+export class SafetyHeatmapService {
+  private readonly safetyRepository: SafetyRepository;
+  private readonly incidentReportRepository: IncidentReportRepository;
+  private readonly safetyRiskCellRepository: SafetyRiskCellRepository;
+
+  constructor() {
+    this.safetyRepository = new SafetyRepository();
+    this.incidentReportRepository = new IncidentReportRepository();
+    this.safetyRiskCellRepository = new SafetyRiskCellRepository();
+  }
+
+  /**
+   * Rebuild every cell from the last `windowDays` of data
+   * @returns number of cells written
+   */
+  async recompute(): Promise<number> {
+    const computedAt = new Date();
+    const since = new Date(
+      computedAt.getTime() - config.safetyHeatmap.windowDays * 24 * 60 * 60 * 1000
+    );
+    const cells = new Map<string, CellAccumulator>();
+
+    for await (const alert of this.safetyRepository.streamSince(since)) {
+      const { latitude, longitude } = alert.location;
+      // features.hour defaults to 0 when the client didn't send one, so the
+      // time the prediction was made is the only reliable hour
+      const hour = this.toSriLankaHour(alert.timestamp);
+      const risk = Math.max(
+        0,
+        ...alert.predictions.map((prediction) => RISK_VALUES[prediction.riskLevel] ?? 0)
+      );
+
+      this.addToCells(cells, latitude, longitude, hour, (cell) => {
+        cell.alertCount++;
+        cell.alertRiskSum += risk;
+      });
+    }
+
+    // Unconfirmed reports stay off the map, like they do on /incidents/nearby
+    for await (const report of this.incidentReportRepository.streamConfirmedSince(since)) {
+      const { latitude, longitude } = report.location;
+      if (latitude === undefined || longitude === undefined) continue;
+
+      this.addToCells(
+        cells,
+        latitude,
+        longitude,
+        this.toSriLankaHour(report.incidentTime),
+        (cell) => {
+          cell.reportCount++;
+          cell.incidentTypes[report.incidentType] =
+            (cell.incidentTypes[report.incidentType] ?? 0) + 1;
+        }
+      );
+    }
+
+    const scored = [...cells.values()].map((cell) => this.scoreCell(cell));
+    await this.safetyRiskCellRepository.replaceAll(scored, computedAt);
+
+    console.log(`[SafetyHeatmapService] Recomputed ${scored.length} risk cells`);
+    return scored.length;
+  }
+
+  /**
+   * Risk cells covering a map viewport as a GeoJSON FeatureCollection
+   */
+  async getHeatmap(query: HeatmapQuery): Promise<HeatmapResponse> {
+    const precision = SafetyHeatmapService.precisionForZoom(query.zoom);
+    const hourBucket =
+      query.hour === undefined ? ALL_HOURS_BUCKET : Math.floor(query.hour / HOURS_PER_BUCKET);
+
+    // Widen the viewport by one cell so cells straddling its edge are included
+    const cellSize = decodeGeohashBounds(
+      encodeGeohash(query.bbox.minLat, query.bbox.minLng, precision)
+    );
+    const padLat = cellSize.maxLat - cellSize.minLat;
+    const padLng = cellSize.maxLng - cellSize.minLng;
+
+    const cells = await this.safetyRiskCellRepository.findInBounds(
+      precision,
+      hourBucket,
+      {
+        minLat: query.bbox.minLat - padLat,
+        minLng: query.bbox.minLng - padLng,
+        maxLat: query.bbox.maxLat + padLat,
+        maxLng: query.bbox.maxLng + padLng,
+      },
+      MAX_FEATURES + 1
+    );
+
+    const truncated = cells.length > MAX_FEATURES;
+    return {
+      type: 'FeatureCollection',
+      features: cells.slice(0, MAX_FEATURES).map((cell) => this.toFeature(cell)),
+      meta: {
+        precision,
+        hourBucket,
+        hours:
+          hourBucket === ALL_HOURS_BUCKET
+            ? undefined
+            : {
+                from: hourBucket * HOURS_PER_BUCKET,
+                to: hourBucket * HOURS_PER_BUCKET + HOURS_PER_BUCKET - 1,
+              },
+        computedAt: await this.safetyRiskCellRepository.getLastComputedAt(),
+        truncated,
+      },
+    };
+  }
+
+  /**
+   * Grid precision for a web map zoom level: roughly one cell per few dozen
+   * pixels at every zoom
+   */
+  static precisionForZoom(zoom: number): number {
+    if (zoom <= 8) return 4; // ~39 x 20 km
+    if (zoom <= 11) return 5; // ~5 x 5 km
+    if (zoom <= 14) return 6; // ~1.2 x 0.6 km
+    return 7; // ~150 x 150 m
+  }
+
+  // ============================================================================
+  // HELPER METHODS
+  // ============================================================================
+
+  /**
+   * Apply a sample to its cell at every precision, in its hour bucket and in
+   * the all-hours bucket
+   */
+  private addToCells(
+    cells: Map<string, CellAccumulator>,
+    latitude: number,
+    longitude: number,
+    hour: number,
+    apply: (cell: CellAccumulator) => void
+  ): void {
+    const finest = encodeGeohash(latitude, longitude, FINEST_PRECISION);
+    const buckets = [Math.floor(hour / HOURS_PER_BUCKET), ALL_HOURS_BUCKET];
+
+    for (const precision of PRECISIONS) {
+      const geohash = finest.slice(0, precision);
+      for (const hourBucket of buckets) {
+        const key = `${geohash}:${hourBucket}`;
+        let cell = cells.get(key);
+        if (!cell) {
+          cell = {
+            geohash,
+            precision,
+            hourBucket,
+            alertCount: 0,
+            alertRiskSum: 0,
+            reportCount: 0,
+            incidentTypes: {},
+          };
+          cells.set(key, cell);
+        }
+        apply(cell);
+      }
+    }
+  }
+
+  /**
+   * Combine prediction history and report density into a 0-1 risk score
+   */
+  private scoreCell(cell: CellAccumulator): SafetyRiskCellData {
+    const averageAlertRisk = cell.alertCount > 0 ? cell.alertRiskSum / cell.alertCount : 0;
+    const saturation = REPORT_SATURATION * Math.pow(2, FINEST_PRECISION - cell.precision);
+    const reportScore = 1 - Math.exp(-cell.reportCount / saturation);
+    const riskScore = 1 - (1 - ALERT_WEIGHT * averageAlertRisk) * (1 - reportScore);
+
+    const bounds = decodeGeohashBounds(cell.geohash);
+    let riskLevel: SafetyRiskCellData['riskLevel'] = 'low';
+    if (riskScore >= HIGH_RISK_SCORE) riskLevel = 'high';
+    else if (riskScore >= MEDIUM_RISK_SCORE) riskLevel = 'medium';
+
+    return {
+      geohash: cell.geohash,
+      precision: cell.precision,
+      hourBucket: cell.hourBucket,
+      center: {
+        latitude: (bounds.minLat + bounds.maxLat) / 2,
+        longitude: (bounds.minLng + bounds.maxLng) / 2,
+      },
+      alertCount: cell.alertCount,
+      averageAlertRisk: Number(averageAlertRisk.toFixed(3)),
+      reportCount: cell.reportCount,
+      incidentTypes: cell.incidentTypes,
+      riskScore: Number(riskScore.toFixed(3)),
+      riskLevel,
+    };
+  }
+
+  private toFeature(cell: ISafetyRiskCell): HeatmapFeature {
+    const incidentTypes =
+      cell.incidentTypes instanceof Map
+        ? Object.fromEntries(cell.incidentTypes as Map<string, number>)
+        : cell.incidentTypes;
+
+    return {
+      type: 'Feature',
+      geometry: {
+        type: 'Polygon',
+        coordinates: boundsToPolygon(decodeGeohashBounds(cell.geohash)),
+      },
+      properties: {
+        geohash: cell.geohash,
+        riskScore: cell.riskScore,
+        riskLevel: cell.riskLevel,
+        alertCount: cell.alertCount,
+        reportCount: cell.reportCount,
+        incidentTypes,
+      },
+    };
+  }
+
+  private toSriLankaHour(date: Date): number {
+    return new Date(new Date(date).getTime() + SRI_LANKA_OFFSET_MS).getUTCHours();
+  }
+}
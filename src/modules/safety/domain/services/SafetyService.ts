@@ -5,6 +5,7 @@ import { IncidentReportRepository } from '../repositories/IncidentReportReposito
 import { GoogleMapsService, LocationFeatures } from './GoogleMapsService';
 import { ISafetyAlert } from '../models/SafetyAlert';
 import { IIncidentReport } from '../models/IncidentReport';
+import { CrowdRiskEvidence, maxRiskLevel, scoreReports } from '../utils/CrowdRisk';
 import mongoose from 'mongoose';
 
 // ML Model Input Interface (11 features - matches ML model schema)
@@ -27,6 +28,9 @@ export interface RiskPrediction {
   incidentType: string;
   riskLevel: 'low' | 'medium' | 'high';
   confidence: number;
+  modelRiskLevel?: 'low' | 'medium' | 'high'; // level before nearby reports were blended in
+  raisedByReports?: boolean;
+  reportEvidence?: CrowdRiskEvidence; // recent verified reports of this type nearby
 }
 
 // Safety Alert Interface for Frontend
@@ -38,6 +42,7 @@ export interface SafetyAlert {
   location: string;
   latitude?: number;
   longitude?: number;
+  reportSummary?: string; // e.g. "3 pickpocketing reports within 500 m this week"
   incidentType:
     | 'Scam'
     | 'Pickpocket'
@@ -80,7 +85,8 @@ export class SafetyService {
 
   /**
    * MAIN METHOD: Get safety predictions for a location
-   * Complete Flow: lat/lon → Google Maps API (extract features) → ML Model (predict risks) → Frontend
+   * Complete Flow: lat/lon → Google Maps API (extract features) → ML Model (predict risks)
+   *   → blend in recent verified traveller reports nearby → Frontend
    * userId is optional - if null, predictions won't be saved to database
    */
   async getSafetyPredictions(
@@ -127,6 +133,9 @@ export class SafetyService {
         predictions = await this.callMLModel(mlInput);
       }
 
+      // Recent verified reports from travellers can raise the model's risk levels
+      predictions = await this.blendWithReports(predictions, latitude, longitude);
+
       // Step 4: Convert predictions to frontend alerts
       const alerts = this.convertToAlerts(predictions, locationInfo.locationName);
 
@@ -193,6 +202,56 @@ export class SafetyService {
     }
   }
 
+  /**
+   * Raise each prediction to the risk level that recent verified reports of
+   * the same type nearby point to, keeping the evidence so the app can explain
+   * why. Reports never lower what the model predicted.
+   */
+  private async blendWithReports(
+    predictions: RiskPrediction[],
+    latitude: number,
+    longitude: number
+  ): Promise<RiskPrediction[]> {
+    const settings = config.crowdRisk;
+
+    let reports: IIncidentReport[];
+    try {
+      reports = await this.incidentReportRepository.findRecentByLocation(
+        latitude,
+        longitude,
+        settings.radiusKm,
+        200,
+        false,
+        settings.windowDays
+      );
+    } catch (error) {
+      console.error('[SafetyService] Failed to load nearby reports:', error);
+      return predictions;
+    }
+
+    const evidenceByType = scoreReports(reports, latitude, longitude, settings);
+
+    return predictions.map((prediction) => {
+      const evidence = evidenceByType.get(prediction.incidentType);
+      if (!evidence) {
+        return prediction;
+      }
+
+      const riskLevel = maxRiskLevel(prediction.riskLevel, evidence.riskLevel);
+      const raisedByReports = riskLevel !== prediction.riskLevel;
+      return {
+        ...prediction,
+        riskLevel,
+        confidence: raisedByReports
+          ? Math.max(prediction.confidence, riskLevel === 'high' ? 0.8 : 0.5)
+          : prediction.confidence,
+        modelRiskLevel: prediction.riskLevel,
+        raisedByReports,
+        reportEvidence: evidence,
+      };
+    });
+  }
+
   /**
    * Get fallback predictions when ML service is unavailable
    * Returns moderate-low risk for all incident types
@@ -251,6 +310,7 @@ export class SafetyService {
       description: this.generateDescription(pred.incidentType, pred.riskLevel),
       level: pred.riskLevel,
       location: locationName,
+      reportSummary: pred.reportEvidence?.summary,
       incidentType: pred.incidentType as SafetyAlert['incidentType'],
     }));
 
@@ -352,7 +412,7 @@ export class SafetyService {
     limit = 20
   ): Promise<SafetyAlert[]> {
     try {
-      // Fetch verified/pending incidents from database (exclude rejected)
+      // Fetch verified or corroborated incidents from database
       const incidents = await this.incidentReportRepository.findRecentByLocation(
         latitude,
         longitude,
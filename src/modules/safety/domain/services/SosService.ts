@@ -0,0 +1,575 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { SosRepository } from '../repositories/SosRepository';
+import { TrustedContactRepository } from '../repositories/TrustedContactRepository';
+import { ISosEvent } from '../models/SosEvent';
+import { INearbyHelp, ISosLocation, ISosSession } from '../models/SosSession';
+import { ITrustedContact } from '../models/TrustedContact';
+import { GoogleMapsService } from './GoogleMapsService';
+import { pushNotificationService } from './PushNotificationService';
+import { haversineKm } from '../utils/CrowdRisk';
+import { User } from '../../../auth/domain/models/User';
+import {
+  NotificationChannel,
+  NotificationDispatcher,
+  createNotificationDispatcher,
+} from '../../../../shared/libraries/notifications';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+import config from '../../../../shared/config/config';
+
+export interface TrustedContactInput {
+  name: string;
+  relationship?: string;
+  phoneNumber?: string;
+  email?: string;
+}
+
+export interface StartSosInput {
+  latitude: number;
+  longitude: number;
+  message?: string;
+  durationMinutes?: number;
+}
+
+export interface SosSessionView {
+  sessionId: string;
+  status: ISosSession['status'];
+  message?: string;
+  startedAt: Date;
+  expiresAt: Date;
+  endedAt?: Date;
+  lastLocation: ISosLocation;
+  nearestHelp: ISosSession['nearestHelp'];
+}
+
+export interface StartSosResult {
+  session: SosSessionView;
+  trackingUrl?: string; // only returned when the session is created
+  alreadyActive: boolean;
+  contactsNotified: number;
+}
+
+export interface AcceptedInvite {
+  contactId: string;
+  ownerName: string; // the user whose SOS alerts will now reach the contact by push
+}
+
+export interface SosTrackingView {
+  name: string;
+  status: ISosSession['status'];
+  message?: string;
+  startedAt: Date;
+  expiresAt: Date;
+  endedAt?: Date;
+  // Location is only shared while the session is active
+  lastLocation?: ISosLocation;
+  locationTrail?: ISosLocation[];
+  nearestHelp?: ISosSession['nearestHelp'];
+}
+
+type ContactNotificationReason = 'started' | 'ended' | 'expired';
+
+/**
+ * SOS Service
+ *
+ * Emergency mode: a user registers trusted contacts and can trigger SOS,
+ * which starts a time-boxed live location session. Contacts are invited to
+ * link their Travion account and get push alerts only once they accept. Contacts are alerted with
+ * a tracking link that follows the user's location updates until the user
+ * ends the session or it times out. The user gets the nearest police station
+ * and hospital back. Every step is written to the SOS audit log.
+ */
+export class SosService {
+  private readonly sosRepository: SosRepository;
+  private readonly trustedContactRepository: TrustedContactRepository;
+  private readonly dispatcher: NotificationDispatcher;
+  private readonly googleMapsService: GoogleMapsService | null;
+
+  constructor(dispatcher?: NotificationDispatcher) {
+    this.sosRepository = new SosRepository();
+    this.trustedContactRepository = new TrustedContactRepository();
+    this.dispatcher = dispatcher ?? createNotificationDispatcher(pushNotificationService);
+
+    // SOS must keep working without Maps; it just can't suggest nearby help
+    try {
+      this.googleMapsService = new GoogleMapsService();
+    } catch (error) {
+      console.warn('[SosService] Nearby help lookups disabled:', (error as Error).message);
+      this.googleMapsService = null;
+    }
+  }
+
+  // ============================================================================
+  // TRUSTED CONTACTS
+  // ============================================================================
+
+  async getContacts(userId: string): Promise<ITrustedContact[]> {
+    return await this.trustedContactRepository.findByUserId(userId);
+  }
+
+  async addContact(userId: string, input: TrustedContactInput): Promise<ITrustedContact> {
+    const count = await this.trustedContactRepository.countByUserId(userId);
+    if (count >= config.sos.maxContacts) {
+      throw new AppError(`You can have at most ${config.sos.maxContacts} trusted contacts`, 409);
+    }
+
+    const contact = await this.trustedContactRepository.create({
+      userId: new mongoose.Types.ObjectId(userId),
+      ...input,
+    });
+    await this.inviteContact(contact);
+    return contact;
+  }
+
+  async updateContact(
+    userId: string,
+    contactId: string,
+    input: Partial<TrustedContactInput>
+  ): Promise<ITrustedContact> {
+    const contact = await this.trustedContactRepository.findForUser(contactId, userId);
+    if (!contact) {
+      throw new AppError('Contact not found', 404);
+    }
+
+    // New contact details may belong to someone else, so they are invited afresh
+    const reachChanged =
+      (input.email !== undefined && input.email.toLowerCase() !== contact.email) ||
+      (input.phoneNumber !== undefined && input.phoneNumber !== contact.phoneNumber);
+
+    contact.set(input);
+    await contact.save();
+    if (reachChanged) {
+      await this.inviteContact(contact);
+    }
+    return contact;
+  }
+
+  /**
+   * Accept an invitation to be someone's trusted contact, linking the
+   * signed-in account so their SOS alerts also arrive by push
+   */
+  async acceptContactInvite(userId: string, token: string): Promise<AcceptedInvite> {
+    const contact = await this.trustedContactRepository.acceptInvite(
+      this.hash(token),
+      userId,
+      new Date()
+    );
+    if (!contact) {
+      throw new AppError('Invalid or expired invitation', 400);
+    }
+
+    console.log(`[SosService] User ${userId} linked as trusted contact ${String(contact._id)}`);
+    return {
+      contactId: String(contact._id),
+      ownerName: await this.getDisplayName(String(contact.userId)),
+    };
+  }
+
+  async removeContact(userId: string, contactId: string): Promise<void> {
+    const contact = await this.trustedContactRepository.deleteForUser(contactId, userId);
+    if (!contact) {
+      throw new AppError('Contact not found', 404);
+    }
+  }
+
+  // ============================================================================
+  // SOS SESSIONS
+  // ============================================================================
+
+  /**
+   * Trigger SOS. Triggering again while a session is active returns that
+   * session instead of alerting contacts twice.
+   */
+  async startSession(userId: string, input: StartSosInput): Promise<StartSosResult> {
+    const existing = await this.sosRepository.findActiveByUserId(userId);
+    if (existing) {
+      return {
+        session: this.toView(existing),
+        alreadyActive: true,
+        contactsNotified: 0,
+      };
+    }
+
+    const now = new Date();
+    const durationMinutes = Math.min(
+      input.durationMinutes ?? config.sos.defaultDurationMinutes,
+      config.sos.maxDurationMinutes
+    );
+    const location: ISosLocation = {
+      latitude: input.latitude,
+      longitude: input.longitude,
+      recordedAt: now,
+    };
+    const token = crypto.randomBytes(32).toString('hex');
+
+    let session: ISosSession;
+    try {
+      session = await this.sosRepository.createSession({
+        userId: new mongoose.Types.ObjectId(userId),
+        message: input.message,
+        trackingTokenHash: this.hash(token),
+        startLocation: location,
+        lastLocation: location,
+        locationTrail: [location],
+        startedAt: now,
+        expiresAt: new Date(now.getTime() + durationMinutes * 60 * 1000),
+      });
+    } catch (error) {
+      // Another request started a session first (unique active session per user)
+      if ((error as { code?: number }).code === 11000) {
+        const active = await this.sosRepository.findActiveByUserId(userId);
+        if (active) {
+          return { session: this.toView(active), alreadyActive: true, contactsNotified: 0 };
+        }
+      }
+      throw error;
+    }
+
+    const trackingUrl = this.getTrackingUrl(token);
+    await this.sosRepository.recordEvent(session, 'session_started', {
+      latitude: input.latitude,
+      longitude: input.longitude,
+      durationMinutes,
+      message: input.message,
+    });
+    console.log(`[SosService] SOS started by user ${userId} (session ${String(session._id)})`);
+
+    // Alert contacts straight away; nearby help is looked up meanwhile
+    const contacts = await this.trustedContactRepository.findByUserId(userId);
+    this.notifyContacts(session, contacts, 'started', trackingUrl).catch((error) =>
+      console.error('[SosService] Failed to notify trusted contacts:', error)
+    );
+
+    session.nearestHelp = await this.findNearestHelp(input.latitude, input.longitude);
+    await session.save();
+
+    return {
+      session: this.toView(session),
+      trackingUrl,
+      alreadyActive: false,
+      contactsNotified: contacts.length,
+    };
+  }
+
+  async getActiveSession(userId: string): Promise<SosSessionView | null> {
+    const session = await this.sosRepository.findActiveByUserId(userId);
+    return session ? this.toView(session) : null;
+  }
+
+  /**
+   * End SOS and let contacts know the user is safe
+   */
+  async endSession(userId: string, sessionId: string): Promise<SosSessionView> {
+    const session = await this.sosRepository.findForUser(sessionId, userId);
+    if (!session) {
+      throw new AppError('SOS session not found', 404);
+    }
+
+    const closed = await this.sosRepository.close(sessionId, 'ended');
+    if (!closed) {
+      throw new AppError(`SOS session has already ${session.status}`, 409);
+    }
+
+    await this.sosRepository.recordEvent(closed, 'session_ended', { endedBy: userId });
+    console.log(`[SosService] SOS session ${sessionId} ended by user`);
+
+    this.notifyContactsOfUser(closed, 'ended').catch((error) =>
+      console.error('[SosService] Failed to notify trusted contacts:', error)
+    );
+
+    return this.toView(closed);
+  }
+
+  /**
+   * Feed a location update into the user's active session, if any
+   */
+  async recordLocation(userId: string, latitude: number, longitude: number): Promise<boolean> {
+    const session = await this.sosRepository.findActiveByUserId(userId);
+    if (!session) {
+      return false;
+    }
+
+    if (session.expiresAt <= new Date()) {
+      await this.expireSession(session);
+      return false;
+    }
+
+    const location: ISosLocation = { latitude, longitude, recordedAt: new Date() };
+    const updated = await this.sosRepository.appendLocation(
+      String(session._id),
+      location,
+      config.sos.trailLimit
+    );
+    if (!updated) {
+      return false;
+    }
+
+    // The session holds the latest location and trail; the audit log only samples them
+    const audited = await this.sosRepository.claimLocationAudit(
+      String(session._id),
+      location.recordedAt,
+      config.sos.locationAuditIntervalMinutes * 60 * 1000
+    );
+    if (audited) {
+      await this.sosRepository.recordEvent(updated, 'location_updated', { latitude, longitude });
+    }
+    return true;
+  }
+
+  /**
+   * Close every session whose time box has passed
+   * @returns number of sessions expired
+   */
+  async expireSessions(): Promise<number> {
+    const sessions = await this.sosRepository.findExpired(new Date());
+
+    let expired = 0;
+    for (const session of sessions) {
+      if (await this.expireSession(session)) {
+        expired++;
+      }
+    }
+    return expired;
+  }
+
+  /**
+   * What a trusted contact sees when opening the tracking link
+   */
+  async getTrackingView(token: string): Promise<SosTrackingView> {
+    const session = await this.sosRepository.findByTrackingTokenHash(this.hash(token));
+    if (!session) {
+      throw new AppError('Tracking link is invalid', 404);
+    }
+
+    const view: SosTrackingView = {
+      name: await this.getDisplayName(String(session.userId)),
+      status: session.status,
+      message: session.message,
+      startedAt: session.startedAt,
+      expiresAt: session.expiresAt,
+      endedAt: session.endedAt,
+    };
+
+    if (session.status === 'active') {
+      view.lastLocation = session.lastLocation;
+      view.locationTrail = session.locationTrail;
+      view.nearestHelp = session.nearestHelp;
+    }
+
+    return view;
+  }
+
+  /**
+   * Audit trail of one of the user's sessions
+   */
+  async getSessionEvents(userId: string, sessionId: string): Promise<ISosEvent[]> {
+    const session = await this.sosRepository.findForUser(sessionId, userId);
+    if (!session) {
+      throw new AppError('SOS session not found', 404);
+    }
+    return await this.sosRepository.findEvents(sessionId);
+  }
+
+  // ============================================================================
+  // HELPER METHODS
+  // ============================================================================
+
+  private async expireSession(session: ISosSession): Promise<boolean> {
+    const closed = await this.sosRepository.close(String(session._id), 'expired');
+    if (!closed) {
+      return false;
+    }
+
+    await this.sosRepository.recordEvent(closed, 'session_expired', {
+      expiresAt: closed.expiresAt,
+    });
+    console.log(`[SosService] SOS session ${String(session._id)} timed out`);
+
+    await this.notifyContactsOfUser(closed, 'expired');
+    return true;
+  }
+
+  private async notifyContactsOfUser(
+    session: ISosSession,
+    reason: ContactNotificationReason
+  ): Promise<void> {
+    const contacts = await this.trustedContactRepository.findByUserId(String(session.userId));
+    await this.notifyContacts(session, contacts, reason);
+  }
+
+  /**
+   * Alert every contact over all the channels they can be reached on and
+   * audit the outcome per contact
+   */
+  private async notifyContacts(
+    session: ISosSession,
+    contacts: ITrustedContact[],
+    reason: ContactNotificationReason,
+    trackingUrl?: string
+  ): Promise<void> {
+    if (contacts.length === 0) {
+      return;
+    }
+
+    const name = await this.getDisplayName(String(session.userId));
+    const message = this.buildContactMessage(session, name, reason, trackingUrl);
+
+    await Promise.all(
+      contacts.map(async (contact) => {
+        const channels: NotificationChannel[] = [];
+        if (contact.linkedUserId) channels.push('push');
+        if (contact.phoneNumber) channels.push('sms');
+        if (contact.email) channels.push('email');
+
+        const deliveries = await this.dispatcher.dispatch(
+          {
+            userId: contact.linkedUserId ? String(contact.linkedUserId) : String(contact._id),
+            email: contact.email,
+            phoneNumber: contact.phoneNumber,
+          },
+          message,
+          channels
+        );
+
+        await this.sosRepository.recordEvent(session, 'contact_notified', {
+          contactId: String(contact._id),
+          reason,
+          deliveries: deliveries.map(({ channel, status, attempts, error }) => ({
+            channel,
+            status,
+            attempts,
+            error,
+          })),
+        });
+      })
+    );
+  }
+
+  private buildContactMessage(
+    session: ISosSession,
+    name: string,
+    reason: ContactNotificationReason,
+    trackingUrl?: string
+  ): { title: string; body: string; data: Record<string, string> } {
+    const { latitude, longitude } = session.lastLocation;
+    const mapLink = `https://maps.google.com/?q=${latitude},${longitude}`;
+    const data = { type: 'sos_alert', sessionId: String(session._id), reason };
+
+    if (reason === 'ended') {
+      return {
+        title: `${name} is safe`,
+        body: `${name} has ended their SOS alert and stopped sharing their location.`,
+        data,
+      };
+    }
+
+    if (reason === 'expired') {
+      return {
+        title: `SOS location sharing ended`,
+        body: `${name}'s SOS live location sharing has timed out. Last known location: ${mapLink}`,
+        data,
+      };
+    }
+
+    const note = session.message ? ` They said: "${session.message}".` : '';
+    return {
+      title: `SOS from ${name}`,
+      body:
+        `${name} has triggered an SOS alert on Travion.${note} ` +
+        `Follow their live location: ${trackingUrl}. Last known location: ${mapLink}`,
+      data: { ...data, ...(trackingUrl && { trackingUrl }) },
+    };
+  }
+
+  private async findNearestHelp(
+    latitude: number,
+    longitude: number
+  ): Promise<ISosSession['nearestHelp']> {
+    if (!this.googleMapsService) {
+      return {};
+    }
+
+    const [police, hospital] = await Promise.all([
+      this.googleMapsService.findNearestPlace(latitude, longitude, 'police'),
+      this.googleMapsService.findNearestPlace(latitude, longitude, 'hospital'),
+    ]);
+
+    const withDistance = (place: typeof police): INearbyHelp | undefined =>
+      place
+        ? {
+            ...place,
+            distanceKm: Number(
+              haversineKm(latitude, longitude, place.latitude, place.longitude).toFixed(2)
+            ),
+          }
+        : undefined;
+
+    return { police: withDistance(police), hospital: withDistance(hospital) };
+  }
+
+  /**
+   * Issue a contact a new invitation to link their Travion account and send
+   * it by SMS and email. Any account linked through an earlier invitation is
+   * unlinked.
+   */
+  private async inviteContact(contact: ITrustedContact): Promise<void> {
+    const token = crypto.randomBytes(32).toString('hex');
+    const { contactInviteTtlHours } = config.sos;
+    await this.trustedContactRepository.resetInvite(
+      String(contact._id),
+      this.hash(token),
+      new Date(Date.now() + contactInviteTtlHours * 60 * 60 * 1000)
+    );
+    contact.linkedUserId = undefined;
+    contact.linkedAt = undefined;
+
+    const channels: NotificationChannel[] = [];
+    if (contact.phoneNumber) channels.push('sms');
+    if (contact.email) channels.push('email');
+
+    const name = await this.getDisplayName(String(contact.userId));
+    const link = `${config.mail.appUrl}/sos/contacts/accept?token=${token}`;
+    this.dispatcher
+      .dispatch(
+        { userId: String(contact._id), email: contact.email, phoneNumber: contact.phoneNumber },
+        {
+          title: `${name} added you as a trusted contact`,
+          body:
+            `${name} added you as a trusted contact on Travion, so you will be told if ` +
+            `they trigger an SOS alert. If you have a Travion account, accept to get ` +
+            `their alerts as push notifications too: ${link} ` +
+            `(expires in ${contactInviteTtlHours} hours).`,
+          data: { type: 'sos_contact_invite', contactId: String(contact._id) },
+        },
+        channels
+      )
+      .catch((error) => console.error('[SosService] Failed to invite trusted contact:', error));
+  }
+
+  private async getDisplayName(userId: string): Promise<string> {
+    const user = await User.findById(userId).select('firstName lastName').lean();
+    return user ? `${user.firstName} ${user.lastName}`.trim() : 'A Travion user';
+  }
+
+  private toView(session: ISosSession): SosSessionView {
+    return {
+      sessionId: String(session._id),
+      status: session.status,
+      message: session.message,
+      startedAt: session.startedAt,
+      expiresAt: session.expiresAt,
+      endedAt: session.endedAt,
+      lastLocation: session.lastLocation,
+      nearestHelp: session.nearestHelp,
+    };
+  }
+
+  private getTrackingUrl(token: string): string {
+    const apiUrl = config.publicApiUrl.replace(/\/+$/, '');
+    return `${apiUrl}/api/${config.apiVersion}/sos/track/${token}`;
+  }
+
+  private hash(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Crowd-sourced risk
+ *
+ * Turns recent verified incident reports around a location into a risk level
+ * per incident type. Each report counts less the older and further away it
+ * is: its weight halves every `halfLifeHours`, and falls linearly to half at
+ * the edge of the search radius. Reports several users confirmed count once
+ * per confirming user.
+ */
+
+import { IIncidentReport } from '../models/IncidentReport';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export interface CrowdRiskSettings {
+  radiusKm: number;
+  windowDays: number;
+  halfLifeHours: number;
+  mediumScore: number; // total weight from which the risk is at least medium
+  highScore: number; // total weight from which the risk is high
+}
+
+export interface ReportContribution {
+  reportId: string;
+  distanceMeters: number;
+  incidentTime: Date;
+  reportCount: number; // the report plus its confirmations
+  weight: number;
+}
+
+export interface CrowdRiskEvidence {
+  riskLevel: RiskLevel;
+  score: number;
+  reportCount: number;
+  radiusMeters: number; // distance of the furthest contributing report
+  periodDays: number; // age of the oldest contributing report
+  summary: string; // e.g. "3 pickpocketing reports within 500 m this week"
+  reports: ReportContribution[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const RISK_ORDER: RiskLevel[] = ['low', 'medium', 'high'];
+
+// Incident report types as named in predictions
+const PREDICTION_TYPES: Partial<Record<IIncidentReport['incidentType'], string>> = {
+  Pickpocketing: 'Pickpocket',
+  'Bag Snatching': 'Bag Snatching',
+  Scam: 'Scam',
+  'Money Theft': 'Money Theft',
+  Harassment: 'Harassment',
+  Extortion: 'Extortion',
+  Theft: 'Theft',
+};
+
+/**
+ * Score nearby reports per prediction incident type. Types without any
+ * recent report nearby are left out.
+ */
+export const scoreReports = (
+  reports: IIncidentReport[],
+  latitude: number,
+  longitude: number,
+  settings: CrowdRiskSettings,
+  now: Date = new Date()
+): Map<string, CrowdRiskEvidence> => {
+  const windowStart = now.getTime() - settings.windowDays * 24 * HOUR_MS;
+  const byType = new Map<string, { reportType: string; contributions: ReportContribution[] }>();
+
+  for (const report of reports) {
+    const predictionType = PREDICTION_TYPES[report.incidentType];
+    const { latitude: lat, longitude: lon } = report.location;
+    const incidentTime = new Date(report.incidentTime);
+    if (!predictionType || lat === undefined || lon === undefined) continue;
+    if (incidentTime.getTime() < windowStart) continue;
+
+    const distanceKm = haversineKm(latitude, longitude, lat, lon);
+    if (distanceKm > settings.radiusKm) continue;
+
+    const ageHours = Math.max(0, (now.getTime() - incidentTime.getTime()) / HOUR_MS);
+    const reportCount = Math.max(1, report.confirmedBy?.length ?? 0);
+    const weight =
+      reportCount *
+      Math.pow(0.5, ageHours / settings.halfLifeHours) *
+      (1 - (0.5 * distanceKm) / settings.radiusKm);
+
+    const entry = byType.get(predictionType) ?? {
+      reportType: report.incidentType,
+      contributions: [],
+    };
+    entry.contributions.push({
+      reportId: String(report._id),
+      distanceMeters: Math.round(distanceKm * 1000),
+      incidentTime,
+      reportCount,
+      weight: Number(weight.toFixed(3)),
+    });
+    byType.set(predictionType, entry);
+  }
+
+  const evidence = new Map<string, CrowdRiskEvidence>();
+  for (const [predictionType, { reportType, contributions }] of byType) {
+    const score = contributions.reduce((sum, contribution) => sum + contribution.weight, 0);
+    const reportCount = contributions.reduce((sum, item) => sum + item.reportCount, 0);
+    const radiusMeters = roundUpDistance(
+      Math.max(...contributions.map((contribution) => contribution.distanceMeters))
+    );
+    const oldest = Math.min(...contributions.map((item) => item.incidentTime.getTime()));
+    const periodDays = Math.max(1, Math.ceil((now.getTime() - oldest) / (24 * HOUR_MS)));
+
+    evidence.set(predictionType, {
+      riskLevel:
+        score >= settings.highScore ? 'high' : score >= settings.mediumScore ? 'medium' : 'low',
+      score: Number(score.toFixed(2)),
+      reportCount,
+      radiusMeters,
+      periodDays,
+      summary: describeReports(reportType, reportCount, radiusMeters, periodDays),
+      reports: contributions.sort((a, b) => b.weight - a.weight),
+    });
+  }
+
+  return evidence;
+};
+
+/**
+ * The higher of two risk levels
+ */
+export const maxRiskLevel = (a: RiskLevel, b: RiskLevel): RiskLevel =>
+  RISK_ORDER.indexOf(a) >= RISK_ORDER.indexOf(b) ? a : b;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const describeReports = (
+  reportType: string,
+  reportCount: number,
+  radiusMeters: number,
+  periodDays: number
+): string => {
+  const distance =
+    radiusMeters >= 1000 ? `${(radiusMeters / 1000).toFixed(1)} km` : `${radiusMeters} m`;
+  let period = `in the last ${periodDays} days`;
+  if (periodDays <= 1) period = 'in the last 24 hours';
+  else if (periodDays <= 7) period = 'this week';
+
+  return `${reportCount} ${reportType.toLowerCase()} report${reportCount === 1 ? '' : 's'} within ${distance} ${period}`;
+};
+
+// Distances in explanations are rounded up to the next 100 m
+const roundUpDistance = (meters: number): number => Math.max(100, Math.ceil(meters / 100) * 100);
+
+/**
+ * Great-circle distance between two points in km
+ */
+export const haversineKm = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const R = 6371; // Earth's radius in km
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLon = ((lon2 - lon1) * Math.PI) / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos((lat1 * Math.PI) / 180) *
+      Math.cos((lat2 * Math.PI) / 180) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
@@ -0,0 +1,108 @@
+/**
+ * Geohash cells
+ *
+ * Standard base-32 geohashes, used to bucket safety data into a grid that
+ * gets finer with every extra character: precision 5 cells are about 5 km
+ * across, precision 7 cells about 150 m.
+ */
+
+export interface CellBounds {
+  minLat: number;
+  minLng: number;
+  maxLat: number;
+  maxLng: number;
+}
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+/**
+ * Geohash of a point at the given precision (number of characters)
+ */
+export const encodeGeohash = (latitude: number, longitude: number, precision: number): string => {
+  let minLat = -90;
+  let maxLat = 90;
+  let minLng = -180;
+  let maxLng = 180;
+  let hash = '';
+  let bits = 0;
+  let value = 0;
+  let evenBit = true; // geohashes interleave longitude and latitude bits, longitude first
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (minLng + maxLng) / 2;
+      if (longitude >= mid) {
+        value = value * 2 + 1;
+        minLng = mid;
+      } else {
+        value *= 2;
+        maxLng = mid;
+      }
+    } else {
+      const mid = (minLat + maxLat) / 2;
+      if (latitude >= mid) {
+        value = value * 2 + 1;
+        minLat = mid;
+      } else {
+        value *= 2;
+        maxLat = mid;
+      }
+    }
+    evenBit = !evenBit;
+
+    if (++bits === 5) {
+      hash += BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+};
+
+/**
+ * The area a geohash covers
+ */
+export const decodeGeohashBounds = (hash: string): CellBounds => {
+  let minLat = -90;
+  let maxLat = 90;
+  let minLng = -180;
+  let maxLng = 180;
+  let evenBit = true;
+
+  for (const char of hash.toLowerCase()) {
+    const value = BASE32.indexOf(char);
+    if (value === -1) {
+      throw new Error(`Invalid geohash: ${hash}`);
+    }
+
+    for (let bit = 4; bit >= 0; bit--) {
+      const isSet = (value >> bit) & 1;
+      if (evenBit) {
+        const mid = (minLng + maxLng) / 2;
+        if (isSet) minLng = mid;
+        else maxLng = mid;
+      } else {
+        const mid = (minLat + maxLat) / 2;
+        if (isSet) minLat = mid;
+        else maxLat = mid;
+      }
+      evenBit = !evenBit;
+    }
+  }
+
+  return { minLat, minLng, maxLat, maxLng };
+};
+
+/**
+ * Cell bounds as a closed GeoJSON polygon ring ([lng, lat] pairs)
+ */
+export const boundsToPolygon = (bounds: CellBounds): number[][][] => [
+  [
+    [bounds.minLng, bounds.minLat],
+    [bounds.maxLng, bounds.minLat],
+    [bounds.maxLng, bounds.maxLat],
+    [bounds.minLng, bounds.maxLat],
+    [bounds.minLng, bounds.minLat],
+  ],
+];
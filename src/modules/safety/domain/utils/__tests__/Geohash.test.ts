@@ -0,0 +1,58 @@
+import { boundsToPolygon, decodeGeohashBounds, encodeGeohash } from '../Geohash';
+
+const COLOMBO = { latitude: 6.9271, longitude: 79.8612 };
+
+describe('encodeGeohash', () => {
+  it.each([
+    [57.64911, 10.40744, 11, 'u4pruydqqvj'],
+    [42.6, -5.6, 5, 'ezs42'],
+    [0, 0, 1, 's'],
+    [-90, -180, 3, '000'],
+  ])('encodes %d, %d at precision %i as %s', (latitude, longitude, precision, hash) => {
+    expect(encodeGeohash(latitude, longitude, precision)).toBe(hash);
+  });
+
+  it('gives cells that nest inside their shorter prefixes', () => {
+    const fine = encodeGeohash(COLOMBO.latitude, COLOMBO.longitude, 7);
+
+    expect(encodeGeohash(COLOMBO.latitude, COLOMBO.longitude, 5)).toBe(fine.slice(0, 5));
+  });
+});
+
+describe('decodeGeohashBounds', () => {
+  it('returns a cell containing the encoded point', () => {
+    const bounds = decodeGeohashBounds(encodeGeohash(COLOMBO.latitude, COLOMBO.longitude, 7));
+
+    expect(bounds.minLat).toBeLessThanOrEqual(COLOMBO.latitude);
+    expect(bounds.maxLat).toBeGreaterThan(COLOMBO.latitude);
+    expect(bounds.minLng).toBeLessThanOrEqual(COLOMBO.longitude);
+    expect(bounds.maxLng).toBeGreaterThan(COLOMBO.longitude);
+  });
+
+  it('halves the cell with every bit, longitude first', () => {
+    const bounds = decodeGeohashBounds('ezs42');
+
+    // 25 bits: 13 for longitude, 12 for latitude
+    expect(bounds.maxLng - bounds.minLng).toBeCloseTo(360 / 2 ** 13, 10);
+    expect(bounds.maxLat - bounds.minLat).toBeCloseTo(180 / 2 ** 12, 10);
+  });
+
+  it('accepts upper case and rejects characters outside the alphabet', () => {
+    expect(decodeGeohashBounds('EZS42')).toEqual(decodeGeohashBounds('ezs42'));
+    expect(() => decodeGeohashBounds('ezs4a')).toThrow('Invalid geohash: ezs4a');
+  });
+});
+
+describe('boundsToPolygon', () => {
+  it('writes a closed counter-clockwise ring of [lng, lat] pairs', () => {
+    const [ring] = boundsToPolygon({ minLat: 6, minLng: 79, maxLat: 7, maxLng: 80 });
+
+    expect(ring).toEqual([
+      [79, 6],
+      [80, 6],
+      [80, 7],
+      [79, 7],
+      [79, 6],
+    ]);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Safety Heatmap Worker
+ *
+ * Periodically rebuilds the geohash risk grid served by the safety heatmap
+ * endpoint from recent prediction history and traveller incident reports.
+ */
+
+import { SafetyHeatmapService } from '../services/SafetyHeatmapService';
+import { logger } from '../../../../shared/config/logger';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+interface SafetyHeatmapWorkerConfig {
+  enabled: boolean;
+  recomputeIntervalMs: number; // How often the grid is rebuilt
+}
+
+const DEFAULT_CONFIG: SafetyHeatmapWorkerConfig = {
+  enabled: true,
+  recomputeIntervalMs: 60 * 60 * 1000, // Every hour
+};
+
+// ============================================================================
+// SAFETY HEATMAP WORKER CLASS
+// ============================================================================
+
+export class SafetyHeatmapWorker {
+  private config: SafetyHeatmapWorkerConfig;
+  private isRunning: boolean = false;
+  private isProcessing: boolean = false;
+  private intervalId: NodeJS.Timeout | null = null;
+  private safetyHeatmapService: SafetyHeatmapService;
+
+  constructor(config: Partial<SafetyHeatmapWorkerConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.safetyHeatmapService = new SafetyHeatmapService();
+  }
+
+  /**
+   * Start rebuilding the grid on a schedule
+   */
+  start(): void {
+    if (this.isRunning) {
+      logger.warn('SafetyHeatmapWorker is already running');
+      return;
+    }
+
+    if (!this.config.enabled) {
+      logger.info('SafetyHeatmapWorker is disabled by configuration');
+      return;
+    }
+
+    this.isRunning = true;
+    logger.info('SafetyHeatmapWorker started', {
+      recomputeInterval: this.config.recomputeIntervalMs,
+    });
+
+    // Run immediately on start, then periodically
+    this.runCycle();
+    this.intervalId = setInterval(() => {
+      this.runCycle();
+    }, this.config.recomputeIntervalMs);
+  }
+
+  /**
+   * Stop the worker
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.isRunning = false;
+    logger.info('SafetyHeatmapWorker stopped');
+  }
+
+  /**
+   * Rebuild the whole grid
+   */
+  async runCycle(): Promise<void> {
+    if (this.isProcessing) {
+      logger.debug('SafetyHeatmapWorker cycle skipped - previous cycle still running');
+      return;
+    }
+
+    this.isProcessing = true;
+    const startedAt = Date.now();
+    try {
+      const cells = await this.safetyHeatmapService.recompute();
+      logger.info(`SafetyHeatmapWorker: Rebuilt ${cells} risk cells`, {
+        durationMs: Date.now() - startedAt,
+      });
+    } catch (error) {
+      logger.error('SafetyHeatmapWorker: Cycle failed', {
+        error: (error as Error).message,
+      });
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
+
+let safetyHeatmapWorkerInstance: SafetyHeatmapWorker | null = null;
+
+/**
+ * Get or create the Safety Heatmap Worker instance
+ */
+export function getSafetyHeatmapWorker(
+  config?: Partial<SafetyHeatmapWorkerConfig>
+): SafetyHeatmapWorker {
+  if (!safetyHeatmapWorkerInstance) {
+    safetyHeatmapWorkerInstance = new SafetyHeatmapWorker(config);
+  }
+  return safetyHeatmapWorkerInstance;
+}
+
+/**
+ * Start the Safety Heatmap Worker
+ */
+export function startSafetyHeatmapWorker(
+  config?: Partial<SafetyHeatmapWorkerConfig>
+): SafetyHeatmapWorker {
+  const worker = getSafetyHeatmapWorker(config);
+  worker.start();
+  return worker;
+}
+
+/**
+ * Stop the Safety Heatmap Worker
+ */
+export function stopSafetyHeatmapWorker(): void {
+  if (safetyHeatmapWorkerInstance) {
+    safetyHeatmapWorkerInstance.stop();
+  }
+}
+
+export default SafetyHeatmapWorker;
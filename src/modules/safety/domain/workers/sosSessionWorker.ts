@@ -0,0 +1,140 @@
+/**
+ * SOS Session Worker
+ *
+ * Closes SOS sessions once their time box passes, so live location sharing
+ * stops even if the user never ends it, and tells their trusted contacts.
+ * Location updates also close an overdue session; this covers users whose
+ * device has gone quiet.
+ */
+
+import { SosService } from '../services/SosService';
+import { logger } from '../../../../shared/config/logger';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+interface SosSessionWorkerConfig {
+  enabled: boolean;
+  checkIntervalMs: number; // How often overdue sessions are closed
+}
+
+const DEFAULT_CONFIG: SosSessionWorkerConfig = {
+  enabled: true,
+  checkIntervalMs: 60 * 1000, // Every minute
+};
+
+// ============================================================================
+// SOS SESSION WORKER CLASS
+// ============================================================================
+
+export class SosSessionWorker {
+  private config: SosSessionWorkerConfig;
+  private isRunning: boolean = false;
+  private isProcessing: boolean = false;
+  private intervalId: NodeJS.Timeout | null = null;
+  private sosService: SosService;
+
+  constructor(config: Partial<SosSessionWorkerConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.sosService = new SosService();
+  }
+
+  /**
+   * Start closing overdue sessions on a schedule
+   */
+  start(): void {
+    if (this.isRunning) {
+      logger.warn('SosSessionWorker is already running');
+      return;
+    }
+
+    if (!this.config.enabled) {
+      logger.info('SosSessionWorker is disabled by configuration');
+      return;
+    }
+
+    this.isRunning = true;
+    logger.info('SosSessionWorker started', {
+      checkInterval: this.config.checkIntervalMs,
+    });
+
+    // Run immediately on start, then periodically
+    this.runCycle();
+    this.intervalId = setInterval(() => {
+      this.runCycle();
+    }, this.config.checkIntervalMs);
+  }
+
+  /**
+   * Stop the worker
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.isRunning = false;
+    logger.info('SosSessionWorker stopped');
+  }
+
+  /**
+   * Close every session that has timed out
+   */
+  async runCycle(): Promise<void> {
+    if (this.isProcessing) {
+      logger.debug('SosSessionWorker cycle skipped - previous cycle still running');
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      const expired = await this.sosService.expireSessions();
+      if (expired > 0) {
+        logger.info(`SosSessionWorker: Closed ${expired} timed out SOS sessions`);
+      }
+    } catch (error) {
+      logger.error('SosSessionWorker: Cycle failed', {
+        error: (error as Error).message,
+      });
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
+
+let sosSessionWorkerInstance: SosSessionWorker | null = null;
+
+/**
+ * Get or create the SOS Session Worker instance
+ */
+export function getSosSessionWorker(config?: Partial<SosSessionWorkerConfig>): SosSessionWorker {
+  if (!sosSessionWorkerInstance) {
+    sosSessionWorkerInstance = new SosSessionWorker(config);
+  }
+  return sosSessionWorkerInstance;
+}
+
+/**
+ * Start the SOS Session Worker
+ */
+export function startSosSessionWorker(config?: Partial<SosSessionWorkerConfig>): SosSessionWorker {
+  const worker = getSosSessionWorker(config);
+  worker.start();
+  return worker;
+}
+
+/**
+ * Stop the SOS Session Worker
+ */
+export function stopSosSessionWorker(): void {
+  if (sosSessionWorkerInstance) {
+    sosSessionWorkerInstance.stop();
+  }
+}
+
+export default SosSessionWorker;
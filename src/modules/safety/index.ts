@@ -1,21 +1,26 @@
 /**
  * Safety Module
- * Handles safety predictions, alert history, incident reports, push notifications, and safety information
+ * Handles safety predictions, alert history, incident reports, risk heatmaps, SOS, push notifications, and safety information
  */
 
 // Export routes
 export { safetyRoutes } from './api/routes/safetyRoutes';
 export { incidentReportRoutes } from './api/routes/incidentReportRoutes';
 export { pushNotificationRoutes } from './api/routes/pushNotificationRoutes';
+export { sosRoutes } from './api/routes/sosRoutes';
 
 // Export controllers
 export { SafetyController } from './api/controllers/SafetyController';
 export { IncidentReportController } from './api/controllers/IncidentReportController';
 export { PushNotificationController } from './api/controllers/PushNotificationController';
+export { SosController } from './api/controllers/SosController';
 
 // Export services
 export { SafetyService } from './domain/services/SafetyService';
 export { IncidentReportService } from './domain/services/IncidentReportService';
+export { IncidentModerationService } from './domain/services/IncidentModerationService';
+export { SafetyHeatmapService } from './domain/services/SafetyHeatmapService';
+export { SosService } from './domain/services/SosService';
 export { GoogleMapsService } from './domain/services/GoogleMapsService';
 export {
   PushNotificationService,
@@ -27,7 +32,23 @@ export { SafetyAlert, ISafetyAlert } from './domain/models/SafetyAlert';
 export { IIncidentReport } from './domain/models/IncidentReport';
 export { default as IncidentReport } from './domain/models/IncidentReport';
 export { DeviceToken, IDeviceToken } from './domain/models/DeviceToken';
+export { ReporterTrust, IReporterTrust } from './domain/models/ReporterTrust';
+export { SafetyRiskCell, ISafetyRiskCell } from './domain/models/SafetyRiskCell';
+export { TrustedContact, ITrustedContact } from './domain/models/TrustedContact';
+export { SosSession, ISosSession } from './domain/models/SosSession';
+export { SosEvent, ISosEvent } from './domain/models/SosEvent';
 
 // Export repositories
 export { SafetyRepository } from './domain/repositories/SafetyRepository';
 export { IncidentReportRepository } from './domain/repositories/IncidentReportRepository';
+export { ReporterTrustRepository } from './domain/repositories/ReporterTrustRepository';
+export { SafetyRiskCellRepository } from './domain/repositories/SafetyRiskCellRepository';
+export { TrustedContactRepository } from './domain/repositories/TrustedContactRepository';
+export { SosRepository } from './domain/repositories/SosRepository';
+
+// Export workers
+export {
+  startSafetyHeatmapWorker,
+  stopSafetyHeatmapWorker,
+} from './domain/workers/safetyHeatmapWorker';
+export { startSosSessionWorker, stopSosSessionWorker } from './domain/workers/sosSessionWorker';
@@ -5,13 +5,17 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { AIEngineService } from '../../domain/services/AIEngineService';
+import { UserPreferencesService } from '../../domain/services/UserPreferencesService';
 import { AuthRequest } from '../../../../shared/middleware/auth';
+import type { RecommendationRequest } from '../../domain/types/aiEngine';
 
 export class AIEngineController {
   private aiEngineService: AIEngineService;
+  private preferencesService: UserPreferencesService;
 
   constructor() {
     this.aiEngineService = new AIEngineService();
+    this.preferencesService = new UserPreferencesService();
   }
 
   // ============================================================================
@@ -52,7 +56,17 @@ export class AIEngineController {
     next: NextFunction
   ): Promise<void> => {
     try {
-      const result = await this.aiEngineService.getRecommendations(req.body);
+      const request: RecommendationRequest = { ...req.body };
+
+      // Fall back to the user's stored preference scores when none are sent
+      if (!request.preferences && req.user?.userId) {
+        const { history, adventure, nature, relaxation } =
+          await this.preferencesService.getPreferenceScores(req.user.userId);
+        request.preferences = { history, adventure, nature, relaxation };
+        request.user_id = request.user_id ?? req.user.userId;
+      }
+
+      const result = await this.aiEngineService.getRecommendations(request);
 
       res.status(200).json({
         success: true,
@@ -222,12 +236,13 @@ export class AIEngineController {
   ): Promise<void> => {
     try {
       const { location } = req.params;
-      const { date, include_current_position } = req.query;
+      const { date, include_current_position, timezone } = req.query;
 
       const result = await this.aiEngineService.getGoldenHourByLocation(
         location,
         date as string | undefined,
-        include_current_position === 'true'
+        include_current_position === 'true',
+        timezone as string | undefined
       );
 
       res.status(200).json({
@@ -246,12 +261,13 @@ export class AIEngineController {
    */
   getSunPosition = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const { latitude, longitude, elevation_m } = req.query;
+      const { latitude, longitude, elevation_m, timezone } = req.query;
 
       const result = await this.aiEngineService.getSunPosition({
         latitude: parseFloat(latitude as string),
         longitude: parseFloat(longitude as string),
         elevation_m: elevation_m ? parseFloat(elevation_m as string) : undefined,
+        timezone: timezone as string | undefined,
       });
 
       res.status(200).json({
@@ -274,11 +290,13 @@ export class AIEngineController {
     next: NextFunction
   ): Promise<void> => {
     try {
-      const { latitude, longitude } = req.query;
+      const { latitude, longitude, elevation_m, timezone } = req.query;
 
       const result = await this.aiEngineService.getCurrentLightQuality(
         parseFloat(latitude as string),
-        parseFloat(longitude as string)
+        parseFloat(longitude as string),
+        elevation_m ? parseFloat(elevation_m as string) : undefined,
+        timezone as string | undefined
       );
 
       res.status(200).json({
@@ -342,7 +360,7 @@ export class AIEngineController {
       res.status(200).json({
         success: true,
         message: isAvailable ? 'AI Engine is available' : 'AI Engine is unavailable',
-        data: { available: isAvailable },
+        data: { available: isAvailable, circuits: this.aiEngineService.getCircuitHealth() },
       });
     } catch (error) {
       next(error);
@@ -6,14 +6,25 @@
 import { Request, Response, NextFunction } from 'express';
 import { AIEngineService } from '../../domain/services/AIEngineService';
 import { SavedTripService } from '../../domain/services/SavedTripService';
-import { UserPreferencesService } from '../../domain/services/UserPreferencesService';
+import {
+  TourPlanJobService,
+  TERMINAL_JOB_STATUSES,
+  toEngineLocations,
+  toTourPlanData,
+  tourPlanJobEvents,
+} from '../../domain/services/TourPlanJobService';
+import config from '../../../../shared/config/config';
 import { logger } from '../../../../shared/config/logger';
 import { AppError } from '../../../../shared/middleware/errorHandler';
-import type { SelectedLocation, TourPlanUserPreferences } from '../../domain/types/aiEngine';
+import type {
+  ITourPlanJob,
+  ITourPlanJobRequest,
+  TourPlanJobType,
+} from '../../domain/models/TourPlanJob';
 
 const aiEngineService = new AIEngineService();
 const savedTripService = new SavedTripService();
-const preferencesService = new UserPreferencesService();
+const tourPlanJobService = new TourPlanJobService();
 
 interface AuthenticatedRequest extends Request {
   user?: {
@@ -53,43 +64,10 @@ export class TourPlanController {
       logger.info(`User ${userId} generating tour plan for ${selectedLocations.length} locations`);
 
       // Transform locations to AI Engine format
-      const locations: SelectedLocation[] = selectedLocations.map(
-        (loc: {
-          name: string;
-          latitude: number;
-          longitude: number;
-          imageUrl?: string;
-          distance_km?: number;
-        }) => ({
-          name: loc.name,
-          latitude: loc.latitude,
-          longitude: loc.longitude,
-          image_url: loc.imageUrl,
-          distance_km: loc.distance_km,
-        })
-      );
+      const locations = toEngineLocations(selectedLocations);
 
       // Auto-fetch user preferences from profile
-      let userPreferences: TourPlanUserPreferences | undefined;
-      try {
-        const prefs = await preferencesService.getPreferences(userId);
-        userPreferences = {
-          history: prefs.preferenceScores.history,
-          adventure: prefs.preferenceScores.adventure,
-          nature: prefs.preferenceScores.nature,
-          relaxation: prefs.preferenceScores.relaxation,
-          pace: prefs.travelStyle.pacePreference,
-          budget: prefs.travelStyle.budgetRange,
-          group_size: prefs.travelStyle.groupSize,
-          accessibility: prefs.travelStyle.accessibility,
-          dietary: prefs.travelStyle.dietaryRestrictions,
-        };
-        logger.info(
-          `Loaded user preferences: history=${userPreferences.history}, adventure=${userPreferences.adventure}, nature=${userPreferences.nature}, relaxation=${userPreferences.relaxation}`
-        );
-      } catch (err) {
-        logger.warn(`Could not load user preferences for ${userId}, proceeding without:`, err);
-      }
+      const userPreferences = await tourPlanJobService.loadUserPreferences(userId);
 
       // Call AI Engine to generate plan with userId for user-specific isolation
       const response = await aiEngineService.generateTourPlan(
@@ -111,33 +89,7 @@ export class TourPlanController {
 
       res.status(200).json({
         success: true,
-        data: {
-          threadId: response.thread_id,
-          response: response.response,
-          itinerary: response.itinerary,
-          metadata: response.metadata,
-          constraints: response.constraints,
-          warnings: response.warnings,
-          tips: response.tips,
-          stepResults: response.step_results,
-          clarificationQuestion: response.clarification_question,
-          culturalTips: response.cultural_tips,
-          events: response.events,
-          finalItinerary: response.final_itinerary,
-          weatherData: response.weather_data,
-          interruptReason: response.interrupt_reason,
-          restaurantRecommendations: response.restaurant_recommendations,
-          accommodationRecommendations: response.accommodation_recommendations,
-          // ── HITL Interrupt Fields ──
-          pendingUserSelection: response.pending_user_selection ?? false,
-          selectionCards: response.selection_cards,
-          promptText: response.prompt_text,
-          searchCandidates: response.search_candidates,
-          mcpSearchMetadata: response.mcp_search_metadata,
-          weatherInterrupt: response.weather_interrupt ?? false,
-          weatherPromptMessage: response.weather_prompt_message,
-          weatherPromptOptions: response.weather_prompt_options,
-        },
+        data: toTourPlanData(response),
       });
     } catch (error) {
       next(error);
@@ -175,40 +127,10 @@ export class TourPlanController {
       logger.info(`User ${userId} refining tour plan with thread ${threadId}`);
 
       // Transform locations to AI Engine format
-      const locations: SelectedLocation[] = selectedLocations.map(
-        (loc: {
-          name: string;
-          latitude: number;
-          longitude: number;
-          imageUrl?: string;
-          distance_km?: number;
-        }) => ({
-          name: loc.name,
-          latitude: loc.latitude,
-          longitude: loc.longitude,
-          image_url: loc.imageUrl,
-          distance_km: loc.distance_km,
-        })
-      );
+      const locations = toEngineLocations(selectedLocations);
 
       // Auto-fetch user preferences from profile
-      let userPreferences: TourPlanUserPreferences | undefined;
-      try {
-        const prefs = await preferencesService.getPreferences(userId);
-        userPreferences = {
-          history: prefs.preferenceScores.history,
-          adventure: prefs.preferenceScores.adventure,
-          nature: prefs.preferenceScores.nature,
-          relaxation: prefs.preferenceScores.relaxation,
-          pace: prefs.travelStyle.pacePreference,
-          budget: prefs.travelStyle.budgetRange,
-          group_size: prefs.travelStyle.groupSize,
-          accessibility: prefs.travelStyle.accessibility,
-          dietary: prefs.travelStyle.dietaryRestrictions,
-        };
-      } catch (err) {
-        logger.warn(`Could not load user preferences for ${userId}, proceeding without:`, err);
-      }
+      const userPreferences = await tourPlanJobService.loadUserPreferences(userId);
 
       // Call AI Engine to refine plan with userId for user-specific isolation
       const response = await aiEngineService.refineTourPlan(
@@ -230,33 +152,7 @@ export class TourPlanController {
 
       res.status(200).json({
         success: true,
-        data: {
-          threadId: response.thread_id,
-          response: response.response,
-          itinerary: response.itinerary,
-          metadata: response.metadata,
-          constraints: response.constraints,
-          warnings: response.warnings,
-          tips: response.tips,
-          stepResults: response.step_results,
-          clarificationQuestion: response.clarification_question,
-          culturalTips: response.cultural_tips,
-          events: response.events,
-          finalItinerary: response.final_itinerary,
-          weatherData: response.weather_data,
-          interruptReason: response.interrupt_reason,
-          restaurantRecommendations: response.restaurant_recommendations,
-          accommodationRecommendations: response.accommodation_recommendations,
-          // ── HITL Interrupt Fields ──
-          pendingUserSelection: response.pending_user_selection ?? false,
-          selectionCards: response.selection_cards,
-          promptText: response.prompt_text,
-          searchCandidates: response.search_candidates,
-          mcpSearchMetadata: response.mcp_search_metadata,
-          weatherInterrupt: response.weather_interrupt ?? false,
-          weatherPromptMessage: response.weather_prompt_message,
-          weatherPromptOptions: response.weather_prompt_options,
-        },
+        data: toTourPlanData(response),
       });
     } catch (error) {
       next(error);
@@ -278,64 +174,12 @@ export class TourPlanController {
         throw new AppError('User not authenticated', 401);
       }
 
-      const { threadId, title, description, itinerary, metadata } = req.body;
+      const { threadId } = req.body;
 
       logger.info(`User ${userId} accepting tour plan from thread ${threadId}`);
 
-      // Extract unique destinations from itinerary
-      const locationSet = new Set<string>();
-      itinerary.forEach((item: { location: string }) => locationSet.add(item.location));
-      const destinations: string[] = Array.from(locationSet);
-
-      // Extract date range from itinerary
-      const days = itinerary.map((item: { day?: number }) => item.day || 1);
-      const minDay = Math.min(...days);
-      const maxDay = Math.max(...days);
-
-      // Calculate start and end dates
-      const startDate = new Date();
-      const endDate = new Date();
-      endDate.setDate(endDate.getDate() + (maxDay - minDay));
-
-      // Create saved trip from the plan
-      const savedTrip = await savedTripService.createTrip(userId, {
-        title,
-        description,
-        destinations,
-        startDate,
-        endDate,
-        itinerary: itinerary.map(
-          (
-            item: {
-              time: string;
-              location: string;
-              activity: string;
-              duration_minutes: number;
-              crowd_prediction?: number;
-              lighting_quality?: string;
-              notes?: string;
-              day?: number;
-              order?: number;
-            },
-            index: number
-          ) => ({
-            order: item.order ?? index,
-            time: item.time,
-            locationName: item.location,
-            activity: item.activity,
-            durationMinutes: item.duration_minutes,
-            notes: item.notes,
-            crowdPrediction: item.crowd_prediction,
-            lightingQuality: item.lighting_quality,
-          })
-        ),
-        generatedBy: 'ai',
-        aiMetadata: {
-          sessionId: threadId,
-          generatedAt: new Date(),
-          ...metadata,
-        },
-      });
+      // Days, dates and accepted hotel/restaurant choices are mapped by the service
+      const savedTrip = await savedTripService.acceptTourPlan(userId, req.body);
 
       logger.info(`Tour plan saved as trip ${savedTrip._id}`);
 
@@ -343,6 +187,9 @@ export class TourPlanController {
         success: true,
         data: {
           tripId: savedTrip._id,
+          startDate: savedTrip.startDate,
+          endDate: savedTrip.endDate,
+          totalDays: savedTrip.totalDays,
           message: 'Tour plan saved successfully',
         },
       });
@@ -433,32 +280,7 @@ export class TourPlanController {
 
       res.status(200).json({
         success: true,
-        data: {
-          threadId: response.thread_id,
-          response: response.response,
-          itinerary: response.itinerary,
-          metadata: response.metadata,
-          constraints: response.constraints,
-          warnings: response.warnings,
-          tips: response.tips,
-          stepResults: response.step_results,
-          clarificationQuestion: response.clarification_question,
-          culturalTips: response.cultural_tips,
-          events: response.events,
-          finalItinerary: response.final_itinerary,
-          weatherData: response.weather_data,
-          interruptReason: response.interrupt_reason,
-          restaurantRecommendations: response.restaurant_recommendations,
-          accommodationRecommendations: response.accommodation_recommendations,
-          pendingUserSelection: response.pending_user_selection ?? false,
-          selectionCards: response.selection_cards,
-          promptText: response.prompt_text,
-          searchCandidates: response.search_candidates,
-          mcpSearchMetadata: response.mcp_search_metadata,
-          weatherInterrupt: response.weather_interrupt ?? false,
-          weatherPromptMessage: response.weather_prompt_message,
-          weatherPromptOptions: response.weather_prompt_options,
-        },
+        data: toTourPlanData(response),
       });
     } catch (error) {
       next(error);
@@ -490,35 +312,245 @@ export class TourPlanController {
 
       res.status(200).json({
         success: true,
-        data: {
-          threadId: response.thread_id,
-          response: response.response,
-          itinerary: response.itinerary,
-          metadata: response.metadata,
-          constraints: response.constraints,
-          warnings: response.warnings,
-          tips: response.tips,
-          stepResults: response.step_results,
-          clarificationQuestion: response.clarification_question,
-          culturalTips: response.cultural_tips,
-          events: response.events,
-          finalItinerary: response.final_itinerary,
-          weatherData: response.weather_data,
-          interruptReason: response.interrupt_reason,
-          restaurantRecommendations: response.restaurant_recommendations,
-          accommodationRecommendations: response.accommodation_recommendations,
-          pendingUserSelection: response.pending_user_selection ?? false,
-          selectionCards: response.selection_cards,
-          promptText: response.prompt_text,
-          searchCandidates: response.search_candidates,
-          mcpSearchMetadata: response.mcp_search_metadata,
-          weatherInterrupt: response.weather_interrupt ?? false,
-          weatherPromptMessage: response.weather_prompt_message,
-          weatherPromptOptions: response.weather_prompt_options,
-        },
+        data: toTourPlanData(response),
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ============================================================================
+  // BACKGROUND JOBS
+  // ============================================================================
+
+  /**
+   * Queue tour plan generation as a background job
+   * POST /tour-plan/jobs/generate
+   */
+  createGenerateJob = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const userId = this.requireUser(req);
+      const job = await tourPlanJobService.createJob(userId, 'generate', {
+        ...this.toJobPlanRequest(req.body),
+        userPreferences: await tourPlanJobService.loadUserPreferences(userId),
       });
+
+      this.sendJobAccepted(res, job);
     } catch (error) {
       next(error);
     }
   };
+
+  /**
+   * Queue plan refinement as a background job
+   * POST /tour-plan/jobs/refine
+   */
+  createRefineJob = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const userId = this.requireUser(req);
+      const job = await tourPlanJobService.createJob(userId, 'refine', {
+        ...this.toJobPlanRequest(req.body),
+        threadId: req.body.threadId,
+        userPreferences: await tourPlanJobService.loadUserPreferences(userId),
+      });
+
+      this.sendJobAccepted(res, job);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Queue resuming the graph after a candidate selection (HITL)
+   * POST /tour-plan/jobs/resume-selection
+   */
+  createResumeSelectionJob = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    await this.createResumeJob('resume_selection', req, res, next);
+  };
+
+  /**
+   * Queue resuming the graph after a weather decision (HITL)
+   * POST /tour-plan/jobs/resume-weather
+   */
+  createResumeWeatherJob = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    await this.createResumeJob('resume_weather', req, res, next);
+  };
+
+  /**
+   * Get a job's status, result and the progress events after `since`
+   * GET /tour-plan/jobs/:jobId
+   */
+  getJob = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = this.requireUser(req);
+      const job = await tourPlanJobService.getJob(req.params.jobId, userId);
+      const since = parseInt((req.query.since as string) || '0', 10) || 0;
+
+      res.status(200).json({
+        success: true,
+        data: tourPlanJobService.toJobView(job, since),
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Stream a job's progress as Server-Sent Events. Reconnecting clients send
+   * Last-Event-ID (or ?lastEventId=) and receive only what they missed; the
+   * stream closes once the job completes, fails or waits for the user.
+   * GET /tour-plan/jobs/:jobId/events
+   */
+  streamJobEvents = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    let job: ITourPlanJob;
+    let userId: string;
+    try {
+      userId = this.requireUser(req);
+      job = await tourPlanJobService.getJob(req.params.jobId, userId);
+    } catch (error) {
+      next(error);
+      return;
+    }
+
+    const jobId = String(job._id);
+    let lastEventId =
+      parseInt(
+        (req.headers['last-event-id'] as string) || (req.query.lastEventId as string) || '0',
+        10
+      ) || 0;
+    let closed = false;
+    let flushing: Promise<void> | null = null;
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(pollTimer);
+      clearInterval(heartbeatTimer);
+      tourPlanJobEvents.off(`update:${jobId}`, onUpdate);
+      res.end();
+    };
+
+    const send = (current: ITourPlanJob) => {
+      for (const event of tourPlanJobService.getEventsSince(current, lastEventId)) {
+        res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+        lastEventId = event.id;
+      }
+      if (TERMINAL_JOB_STATUSES.includes(current.status)) {
+        close();
+      }
+    };
+
+    const flush = () => {
+      // One read at a time; updates arriving meanwhile are covered by the next poll
+      if (closed || flushing) return;
+      flushing = tourPlanJobService
+        .getJob(jobId, userId)
+        .then(send)
+        .catch((error) => {
+          logger.warn(`Tour plan job stream ${jobId} read failed: ${(error as Error).message}`);
+        })
+        .finally(() => {
+          flushing = null;
+        });
+    };
+
+    const onUpdate = () => flush();
+    tourPlanJobEvents.on(`update:${jobId}`, onUpdate);
+    // Jobs running on another server only show up through polling
+    const pollTimer = setInterval(flush, config.tourPlanJobs.streamPollIntervalMs);
+    // Keep proxies from closing an idle connection
+    const heartbeatTimer = setInterval(() => {
+      if (!closed) res.write(': heartbeat\n\n');
+    }, config.tourPlanJobs.streamHeartbeatMs);
+    req.on('close', close);
+
+    send(job);
+  };
+
+  private async createResumeJob(
+    type: Extract<TourPlanJobType, 'resume_selection' | 'resume_weather'>,
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const userId = this.requireUser(req);
+      const { threadId, selectedCandidateId, userWeatherChoice } = req.body;
+
+      const job = await tourPlanJobService.createJob(userId, type, {
+        threadId,
+        selectedCandidateId,
+        userWeatherChoice,
+      });
+
+      this.sendJobAccepted(res, job);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Plan fields shared by generate and refine jobs
+   */
+  private toJobPlanRequest(body: Record<string, any>): ITourPlanJobRequest {
+    return {
+      selectedLocations: toEngineLocations(body.selectedLocations),
+      startDate: body.startDate,
+      endDate: body.endDate,
+      preferences: body.preferences,
+      message: body.message,
+      selectedRestaurantIds: body.selectedRestaurantIds,
+      selectedAccommodationIds: body.selectedAccommodationIds,
+      skipRestaurants: body.skipRestaurants,
+      skipAccommodations: body.skipAccommodations,
+    };
+  }
+
+  private requireUser(req: AuthenticatedRequest): string {
+    const userId = req.user?.userId;
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+    return userId;
+  }
+
+  private sendJobAccepted(res: Response, job: ITourPlanJob): void {
+    res.status(202).json({
+      success: true,
+      data: {
+        jobId: job._id,
+        status: job.status,
+        statusUrl: `/tour-plan/jobs/${job._id}`,
+        eventsUrl: `/tour-plan/jobs/${job._id}/events`,
+      },
+    });
+  }
 }
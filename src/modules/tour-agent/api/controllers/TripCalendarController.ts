@@ -0,0 +1,145 @@
+/**
+ * Trip Calendar Controller
+ * HTTP request handlers for iCalendar export and calendar subscription feeds
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { AuthRequest } from '../../../../shared/middleware/auth';
+import { TripCalendarService } from '../../domain/services/TripCalendarService';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+
+const CALENDAR_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+
+export class TripCalendarController {
+  private calendarService: TripCalendarService;
+
+  constructor() {
+    this.calendarService = new TripCalendarService();
+  }
+
+  // ============================================================================
+  // TRIP EXPORT
+  // ============================================================================
+
+  /**
+   * Download a trip as an iCalendar file
+   * GET /trips/:tripId/calendar.ics
+   */
+  exportTrip = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user?.userId) {
+        throw new AppError('Unauthorized', 401);
+      }
+
+      const { tripId } = req.params;
+      const calendar = await this.calendarService.getTripCalendar(req.user.userId, tripId);
+
+      res.set({
+        'Content-Type': CALENDAR_CONTENT_TYPE,
+        'Content-Disposition': `attachment; filename="trip-${tripId}.ics"`,
+        'Cache-Control': 'private, no-cache',
+      });
+      res.status(200).send(calendar);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ============================================================================
+  // SUBSCRIPTION FEED
+  // ============================================================================
+
+  /**
+   * Whether the user has a calendar subscription link
+   * GET /trips/calendar/subscription
+   */
+  getSubscription = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user?.userId) {
+        throw new AppError('Unauthorized', 401);
+      }
+
+      const status = await this.calendarService.getFeedStatus(req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: status,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Issue a calendar subscription link, replacing any previous one
+   * POST /trips/calendar/subscription
+   */
+  createSubscription = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user?.userId) {
+        throw new AppError('Unauthorized', 401);
+      }
+
+      const feed = await this.calendarService.createFeed(req.user.userId);
+
+      res.status(201).json({
+        success: true,
+        message: 'Calendar subscription link created',
+        data: feed,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Turn the calendar subscription link off
+   * DELETE /trips/calendar/subscription
+   */
+  revokeSubscription = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user?.userId) {
+        throw new AppError('Unauthorized', 401);
+      }
+
+      await this.calendarService.revokeFeed(req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Calendar subscription link revoked',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Calendar feed of all the user's trips, fetched by calendar apps
+   * GET /trips/calendar/feed/:token.ics
+   * Public endpoint - the token in the link is the credential
+   */
+  getFeed = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const calendar = await this.calendarService.getFeedCalendar(req.params.token);
+
+      res.set({
+        'Content-Type': CALENDAR_CONTENT_TYPE,
+        'Content-Disposition': 'inline; filename="travion-trips.ics"',
+        'Cache-Control': 'private, no-cache',
+      });
+      res.status(200).send(calendar);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+export default TripCalendarController;
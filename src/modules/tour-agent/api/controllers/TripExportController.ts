@@ -0,0 +1,47 @@
+/**
+ * Trip Export Controller
+ * HTTP request handlers for offline trip exports (PDF, GPX, KML)
+ */
+
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../../../../shared/middleware/auth';
+import { TripExportService, TripExportFormat } from '../../domain/services/TripExportService';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+
+export class TripExportController {
+  private exportService: TripExportService;
+
+  constructor() {
+    this.exportService = new TripExportService();
+  }
+
+  /**
+   * Download a trip as a PDF itinerary or a GPX/KML file of its stops
+   * GET /trips/:tripId/export.:format
+   */
+  exportTrip = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user?.userId) {
+        throw new AppError('Unauthorized', 401);
+      }
+
+      const { tripId, format } = req.params;
+      const file = await this.exportService.exportTrip(
+        req.user.userId,
+        tripId,
+        format as TripExportFormat
+      );
+
+      res.set({
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'private, no-cache',
+      });
+      res.status(200).send(file.content);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+export default TripExportController;
@@ -0,0 +1,249 @@
+/**
+ * Trip Monitoring Controller
+ * HTTP request handlers for ShadowWatcher trip monitoring endpoints
+ */
+
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../../../../shared/middleware/auth';
+import { TripMonitoringService } from '../../domain/services/TripMonitoringService';
+import { MonitoringStatus } from '../../domain/models/TripPlan';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+
+export class TripMonitoringController {
+  private monitoringService: TripMonitoringService;
+
+  constructor() {
+    this.monitoringService = new TripMonitoringService();
+  }
+
+  // ============================================================================
+  // MONITORING LIFECYCLE
+  // ============================================================================
+
+  /**
+   * Start monitoring an accepted trip
+   * POST /tour-plan/monitored
+   */
+  startMonitoring = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = this.requireUser(req);
+      const { tripId, monitoringIntervalHours, notificationPreferences } = req.body;
+
+      const plan = await this.monitoringService.startMonitoring(userId, tripId, {
+        monitoringIntervalHours,
+        notificationPreferences,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Trip monitoring started',
+        data: { plan },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Pause monitoring
+   * POST /tour-plan/monitored/:planId/pause
+   */
+  pauseMonitoring = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = this.requireUser(req);
+      const plan = await this.monitoringService.pauseMonitoring(userId, req.params.planId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Trip monitoring paused',
+        data: { plan },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Resume paused monitoring
+   * POST /tour-plan/monitored/:planId/resume
+   */
+  resumeMonitoring = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = this.requireUser(req);
+      const plan = await this.monitoringService.resumeMonitoring(userId, req.params.planId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Trip monitoring resumed',
+        data: { plan },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ============================================================================
+  // QUERIES
+  // ============================================================================
+
+  /**
+   * List monitored trips for the authenticated user
+   * GET /tour-plan/monitored
+   */
+  getMonitoredTrips = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const userId = this.requireUser(req);
+      const status = req.query.status as MonitoringStatus | undefined;
+
+      const plans = await this.monitoringService.getMonitoredTrips(userId, status);
+
+      res.status(200).json({
+        success: true,
+        data: { plans, count: plans.length },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get a monitored trip
+   * GET /tour-plan/monitored/:planId
+   */
+  getMonitoredTrip = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = this.requireUser(req);
+      const plan = await this.monitoringService.getMonitoredTrip(userId, req.params.planId);
+
+      res.status(200).json({
+        success: true,
+        data: { plan },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get active and acknowledged alerts
+   * GET /tour-plan/monitored/:planId/alerts
+   */
+  getAlerts = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = this.requireUser(req);
+      const alerts = await this.monitoringService.getAlerts(userId, req.params.planId);
+
+      res.status(200).json({
+        success: true,
+        data: alerts,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get monitoring check and delta plan history
+   * GET /tour-plan/monitored/:planId/history
+   */
+  getHistory = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = this.requireUser(req);
+      const history = await this.monitoringService.getHistory(userId, req.params.planId);
+
+      res.status(200).json({
+        success: true,
+        data: history,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ============================================================================
+  // USER RESPONSES
+  // ============================================================================
+
+  /**
+   * Acknowledge an alert
+   * POST /tour-plan/monitored/:planId/alerts/:alertId/acknowledge
+   */
+  acknowledgeAlert = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = this.requireUser(req);
+      const { planId, alertId } = req.params;
+
+      const plan = await this.monitoringService.acknowledgeAlert(
+        userId,
+        planId,
+        alertId,
+        req.body.userResponse
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Alert acknowledged',
+        data: { plan },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Accept a delta plan and apply it to the itinerary
+   * POST /tour-plan/monitored/:planId/delta-plans/:deltaId/accept
+   */
+  acceptDeltaPlan = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = this.requireUser(req);
+      const { planId, deltaId } = req.params;
+
+      const plan = await this.monitoringService.respondToDeltaPlan(userId, planId, deltaId, true);
+
+      res.status(200).json({
+        success: true,
+        message: 'Delta plan applied to itinerary',
+        data: { plan },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Reject a delta plan
+   * POST /tour-plan/monitored/:planId/delta-plans/:deltaId/reject
+   */
+  rejectDeltaPlan = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = this.requireUser(req);
+      const { planId, deltaId } = req.params;
+
+      const plan = await this.monitoringService.respondToDeltaPlan(userId, planId, deltaId, false);
+
+      res.status(200).json({
+        success: true,
+        message: 'Delta plan rejected',
+        data: { plan },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  private requireUser(req: AuthRequest): string {
+    if (!req.user?.userId) {
+      throw new AppError('Unauthorized', 401);
+    }
+    return req.user.userId;
+  }
+}
@@ -17,6 +17,7 @@ import {
   goldenHourSchema,
   goldenHourByLocationSchema,
   sunPositionSchema,
+  lightQualitySchema,
   simpleCrowdSchema,
   simpleGoldenHourSchema,
   simpleDescriptionSchema,
@@ -189,6 +190,7 @@ router.get(
 router.get(
   '/physics/light-quality',
   authenticate as any,
+  validateQuery(lightQualitySchema),
   aiEngineController.getCurrentLightQuality as any
 );
 
@@ -5,6 +5,8 @@
 
 import { Router } from 'express';
 import { SavedTripController } from '../controllers/SavedTripController';
+import { TripCalendarController } from '../controllers/TripCalendarController';
+import { TripExportController } from '../controllers/TripExportController';
 import { authenticate } from '../../../../shared/middleware/auth';
 import { validate, validateParams, validateQuery } from '../../../../shared/middleware/validator';
 import {
@@ -19,10 +21,14 @@ import {
   itemIndexParamSchema,
   getTripsQuerySchema,
   searchTripsQuerySchema,
+  calendarFeedTokenParamSchema,
+  tripExportParamSchema,
 } from '../validators/savedTripValidator';
 
 const router = Router();
 const tripController = new SavedTripController();
+const calendarController = new TripCalendarController();
+const exportController = new TripExportController();
 
 // ============================================================================
 // PUBLIC ROUTES (No authentication required)
@@ -35,6 +41,17 @@ const tripController = new SavedTripController();
  */
 router.get('/public', validateQuery(getTripsQuerySchema), tripController.getPublicTrips);
 
+/**
+ * @route   GET /trips/calendar/feed/:token.ics
+ * @desc    Calendar subscription feed of a user's trips
+ * @access  Public (the token in the link is the credential)
+ */
+router.get(
+  '/calendar/feed/:token.ics',
+  validateParams(calendarFeedTokenParamSchema),
+  calendarController.getFeed
+);
+
 // ============================================================================
 // PROTECTED ROUTES (Authentication required)
 // ============================================================================
@@ -70,6 +87,27 @@ router.get('/upcoming', tripController.getUpcomingTrips);
  */
 router.get('/search', validateQuery(searchTripsQuerySchema), tripController.searchTrips);
 
+/**
+ * @route   GET /trips/calendar/subscription
+ * @desc    Get calendar subscription link status
+ * @access  Private
+ */
+router.get('/calendar/subscription', calendarController.getSubscription);
+
+/**
+ * @route   POST /trips/calendar/subscription
+ * @desc    Create a calendar subscription link (replaces any previous link)
+ * @access  Private
+ */
+router.post('/calendar/subscription', calendarController.createSubscription);
+
+/**
+ * @route   DELETE /trips/calendar/subscription
+ * @desc    Revoke the calendar subscription link
+ * @access  Private
+ */
+router.delete('/calendar/subscription', calendarController.revokeSubscription);
+
 /**
  * @route   GET /trips/:tripId
  * @desc    Get trip by ID
@@ -138,6 +176,28 @@ router.post(
   tripController.addRating
 );
 
+/**
+ * @route   GET /trips/:tripId/calendar.ics
+ * @desc    Export trip itinerary as an iCalendar file
+ * @access  Private
+ */
+router.get(
+  '/:tripId/calendar.ics',
+  validateParams(tripIdParamSchema),
+  calendarController.exportTrip
+);
+
+/**
+ * @route   GET /trips/:tripId/export.:format
+ * @desc    Export trip for offline use: PDF itinerary, or GPX/KML of the stops
+ * @access  Private
+ */
+router.get(
+  '/:tripId/export.:format',
+  validateParams(tripExportParamSchema),
+  exportController.exportTrip
+);
+
 // ============================================================================
 // ITINERARY ROUTES
 // ============================================================================
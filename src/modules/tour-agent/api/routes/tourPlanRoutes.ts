@@ -5,12 +5,15 @@
 
 import { Router } from 'express';
 import { TourPlanController } from '../controllers/TourPlanController';
+import { TripMonitoringController } from '../controllers/TripMonitoringController';
 import { authenticate } from '../../../../shared/middleware/auth';
-import { validate } from '../../../../shared/middleware/validator';
+import { validate, validateQuery } from '../../../../shared/middleware/validator';
+import { AlertSeverity, MonitoringStatus } from '../../domain/models/TripPlan';
 import Joi from 'joi';
 
 const router = Router();
 const tourPlanController = new TourPlanController();
+const tripMonitoringController = new TripMonitoringController();
 
 // ============================================================================
 // VALIDATION SCHEMAS
@@ -77,11 +80,55 @@ const hotelSearchSchema = Joi.object({
   location: Joi.string().optional().max(200),
 });
 
+const acceptedAccommodationSchema = Joi.object({
+  id: Joi.string().optional(),
+  name: Joi.string().required().max(200),
+  type: Joi.string().valid('hotel', 'resort', 'guesthouse').optional(),
+  rating: Joi.number().optional().min(0).max(5),
+  price_range: Joi.string().optional(),
+  url: Joi.string().optional().allow(''),
+  description: Joi.string().optional().allow('').max(1000),
+  near_location: Joi.string().optional(),
+  check_in_day: Joi.number().integer().min(0).required(),
+}).unknown(true);
+
+const acceptedRestaurantSchema = Joi.object({
+  id: Joi.string().optional(),
+  name: Joi.string().required().max(200),
+  cuisine_type: Joi.string().optional(),
+  rating: Joi.number().optional().min(0).max(5),
+  price_range: Joi.string().optional(),
+  url: Joi.string().optional().allow(''),
+  description: Joi.string().optional().allow('').max(1000),
+  near_location: Joi.string().optional(),
+  meal_slot: Joi.string().valid('breakfast', 'lunch', 'dinner').required(),
+  day: Joi.number().integer().min(0).required(),
+}).unknown(true);
+
 const acceptPlanSchema = Joi.object({
   threadId: Joi.string().required(),
   title: Joi.string().required().min(3).max(200),
   description: Joi.string().optional().max(1000),
-  itinerary: Joi.array().items(Joi.object()).required().min(1),
+  startDate: Joi.string()
+    .optional()
+    .pattern(/^\d{4}-\d{2}-\d{2}$/)
+    .messages({
+      'string.pattern.base': 'Start date must be in YYYY-MM-DD format',
+    }),
+  itinerary: Joi.array()
+    .items(
+      Joi.object({
+        location: Joi.string().required(),
+        time: Joi.string().required(),
+        activity: Joi.string().required(),
+        duration_minutes: Joi.number().required(),
+        day: Joi.number().integer().min(0).optional(),
+      }).unknown(true)
+    )
+    .required()
+    .min(1),
+  accommodations: Joi.array().items(acceptedAccommodationSchema).optional().max(100),
+  restaurants: Joi.array().items(acceptedRestaurantSchema).optional().max(300),
   metadata: Joi.object().optional(),
 });
 
@@ -104,6 +151,42 @@ const resumeWeatherSchema = Joi.object({
   }),
 });
 
+const jobQuerySchema = Joi.object({
+  since: Joi.number().integer().min(0).optional(),
+});
+
+const jobEventsQuerySchema = Joi.object({
+  lastEventId: Joi.number().integer().min(0).optional(),
+});
+
+const startMonitoringSchema = Joi.object({
+  tripId: Joi.string().required().messages({
+    'any.required': 'Trip ID is required to start monitoring',
+  }),
+  monitoringIntervalHours: Joi.number().optional().min(1).max(24),
+  notificationPreferences: Joi.object({
+    enablePush: Joi.boolean().optional(),
+    enableEmail: Joi.boolean().optional(),
+    enableSms: Joi.boolean().optional(),
+    alertThreshold: Joi.string()
+      .valid(...Object.values(AlertSeverity))
+      .optional(),
+  }).optional(),
+});
+
+const monitoredTripsQuerySchema = Joi.object({
+  status: Joi.string()
+    .valid(...Object.values(MonitoringStatus))
+    .optional(),
+});
+
+const acknowledgeAlertSchema = Joi.object({
+  userResponse: Joi.string().required().valid('accept_risk', 'modify_plan', 'cancel').messages({
+    'any.required': 'User response is required',
+    'any.only': 'User response must be one of: accept_risk, modify_plan, cancel',
+  }),
+});
+
 // ============================================================================
 // PUBLIC ROUTES (No authentication required for testing)
 // ============================================================================
@@ -133,7 +216,8 @@ router.post('/refine', validate(refinePlanSchema), tourPlanController.refinePlan
 
 /**
  * @route   POST /tour-plan/accept
- * @desc    Accept and save a generated tour plan
+ * @desc    Accept and save a generated tour plan from a chosen start date,
+ *          with the accommodation and restaurant choices
  * @access  Private
  */
 router.post('/accept', validate(acceptPlanSchema), tourPlanController.acceptPlan);
@@ -170,4 +254,154 @@ router.post(
  */
 router.post('/resume-weather', validate(resumeWeatherSchema), tourPlanController.resumeWeather);
 
+// ============================================================================
+// BACKGROUND GENERATION JOBS
+// ============================================================================
+
+/**
+ * @route   POST /tour-plan/jobs/generate
+ * @desc    Queue tour plan generation; returns a job ID to poll or stream
+ * @access  Private
+ */
+router.post('/jobs/generate', validate(generatePlanSchema), tourPlanController.createGenerateJob);
+
+/**
+ * @route   POST /tour-plan/jobs/refine
+ * @desc    Queue refinement of an existing tour plan
+ * @access  Private
+ */
+router.post('/jobs/refine', validate(refinePlanSchema), tourPlanController.createRefineJob);
+
+/**
+ * @route   POST /tour-plan/jobs/resume-selection
+ * @desc    Queue resuming the paused graph after a candidate selection (HITL)
+ * @access  Private
+ */
+router.post(
+  '/jobs/resume-selection',
+  validate(resumeSelectionSchema),
+  tourPlanController.createResumeSelectionJob
+);
+
+/**
+ * @route   POST /tour-plan/jobs/resume-weather
+ * @desc    Queue resuming the paused graph after a weather decision (HITL)
+ * @access  Private
+ */
+router.post(
+  '/jobs/resume-weather',
+  validate(resumeWeatherSchema),
+  tourPlanController.createResumeWeatherJob
+);
+
+/**
+ * @route   GET /tour-plan/jobs/:jobId
+ * @desc    Poll a job's status and result, with progress events after ?since=<eventId>
+ * @access  Private
+ */
+router.get('/jobs/:jobId', validateQuery(jobQuerySchema), tourPlanController.getJob);
+
+/**
+ * @route   GET /tour-plan/jobs/:jobId/events
+ * @desc    Stream a job's progress as Server-Sent Events (resumable with Last-Event-ID)
+ * @access  Private
+ */
+router.get(
+  '/jobs/:jobId/events',
+  validateQuery(jobEventsQuerySchema),
+  tourPlanController.streamJobEvents
+);
+
+// ============================================================================
+// TRIP MONITORING (ShadowWatcher)
+// ============================================================================
+
+/**
+ * @route   POST /tour-plan/monitored
+ * @desc    Start ShadowWatcher monitoring for an accepted trip
+ * @access  Private
+ */
+router.post(
+  '/monitored',
+  validate(startMonitoringSchema),
+  tripMonitoringController.startMonitoring
+);
+
+/**
+ * @route   GET /tour-plan/monitored
+ * @desc    List monitored trips, optionally filtered by status
+ * @access  Private
+ */
+router.get(
+  '/monitored',
+  validateQuery(monitoredTripsQuerySchema),
+  tripMonitoringController.getMonitoredTrips
+);
+
+/**
+ * @route   GET /tour-plan/monitored/:planId
+ * @desc    Get a monitored trip
+ * @access  Private
+ */
+router.get('/monitored/:planId', tripMonitoringController.getMonitoredTrip);
+
+/**
+ * @route   GET /tour-plan/monitored/:planId/alerts
+ * @desc    Get active and acknowledged alerts for a monitored trip
+ * @access  Private
+ */
+router.get('/monitored/:planId/alerts', tripMonitoringController.getAlerts);
+
+/**
+ * @route   GET /tour-plan/monitored/:planId/history
+ * @desc    Get monitoring check and delta plan history
+ * @access  Private
+ */
+router.get('/monitored/:planId/history', tripMonitoringController.getHistory);
+
+/**
+ * @route   POST /tour-plan/monitored/:planId/alerts/:alertId/acknowledge
+ * @desc    Acknowledge an alert with the user's response
+ * @access  Private
+ */
+router.post(
+  '/monitored/:planId/alerts/:alertId/acknowledge',
+  validate(acknowledgeAlertSchema),
+  tripMonitoringController.acknowledgeAlert
+);
+
+/**
+ * @route   POST /tour-plan/monitored/:planId/delta-plans/:deltaId/accept
+ * @desc    Accept a delta plan and apply it to the trip itinerary
+ * @access  Private
+ */
+router.post(
+  '/monitored/:planId/delta-plans/:deltaId/accept',
+  tripMonitoringController.acceptDeltaPlan
+);
+
+/**
+ * @route   POST /tour-plan/monitored/:planId/delta-plans/:deltaId/reject
+ * @desc    Reject a delta plan
+ * @access  Private
+ */
+router.post(
+  '/monitored/:planId/delta-plans/:deltaId/reject',
+  tripMonitoringController.rejectDeltaPlan
+);
+
+/**
+ * @route   POST /tour-plan/monitored/:planId/pause
+ * @desc    Pause monitoring for a trip
+ * @access  Private
+ */
+router.post('/monitored/:planId/pause', tripMonitoringController.pauseMonitoring);
+
+/**
+ * @route   POST /tour-plan/monitored/:planId/resume
+ * @desc    Resume paused monitoring for a trip
+ * @access  Private
+ */
+router.post('/monitored/:planId/resume', tripMonitoringController.resumeMonitoring);
+
 export default router;
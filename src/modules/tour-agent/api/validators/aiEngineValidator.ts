@@ -204,6 +204,16 @@ export const eventImpactSchema = Joi.object({
 // GOLDEN HOUR / PHYSICS API SCHEMAS
 // ============================================================================
 
+/**
+ * IANA timezone for local times (e.g. Asia/Colombo)
+ */
+const timezoneSchema = Joi.string()
+  .max(64)
+  .pattern(/^[A-Za-z_]+(\/[A-Za-z0-9_+-]+)*$/)
+  .messages({
+    'string.pattern.base': 'Timezone must be an IANA name such as Asia/Colombo',
+  });
+
 /**
  * Golden hour request validation (by coordinates)
  * POST /api/v1/ai/physics/golden-hour
@@ -223,6 +233,7 @@ export const goldenHourSchema = Joi.object({
   }),
   location_name: Joi.string().max(200).optional(),
   include_current_position: Joi.boolean().default(false),
+  timezone: timezoneSchema.optional(),
 });
 
 /**
@@ -232,6 +243,7 @@ export const goldenHourSchema = Joi.object({
 export const goldenHourByLocationSchema = Joi.object({
   date: dateStringSchema.optional(),
   include_current_position: Joi.boolean().optional(),
+  timezone: timezoneSchema.optional(),
 });
 
 /**
@@ -246,8 +258,15 @@ export const sunPositionSchema = Joi.object({
     'any.required': 'Longitude is required',
   }),
   elevation_m: Joi.number().min(0).max(3000).optional(),
+  timezone: timezoneSchema.optional(),
 });
 
+/**
+ * Light quality query validation
+ * GET /api/v1/ai/physics/light-quality
+ */
+export const lightQualitySchema = sunPositionSchema;
+
 // ============================================================================
 // CONVENIENCE SCHEMAS
 // ============================================================================
@@ -13,6 +13,7 @@ const objectIdSchema = Joi.string().pattern(/^[0-9a-fA-F]{24}$/);
 
 const itineraryItemSchema = Joi.object({
   order: Joi.number().integer().min(0),
+  dayNumber: Joi.number().integer().min(1).max(365),
   time: Joi.string().pattern(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/).required()
     .messages({ 'string.pattern.base': 'Time must be in HH:MM format' }),
   locationName: Joi.string().min(1).max(200).required(),
@@ -156,6 +157,15 @@ export const itemIndexParamSchema = Joi.object({
   itemIndex: Joi.number().integer().min(0).required(),
 });
 
+export const tripExportParamSchema = Joi.object({
+  tripId: objectIdSchema.required(),
+  format: Joi.string().valid('pdf', 'gpx', 'kml').required(),
+});
+
+export const calendarFeedTokenParamSchema = Joi.object({
+  token: Joi.string().hex().length(64).required(),
+});
+
 // ============================================================================
 // QUERY SCHEMAS
 // ============================================================================
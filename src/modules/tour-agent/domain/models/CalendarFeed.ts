@@ -0,0 +1,48 @@
+/**
+ * CalendarFeed Model
+ * A user's calendar subscription link. Calendar apps fetch the user's trips
+ * from it without logging in, so the token in the link is the credential;
+ * only its hash is stored. Issuing a new link replaces the old one.
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+export interface ICalendarFeed extends Document {
+  userId: mongoose.Types.ObjectId;
+  tokenHash: string;
+  lastAccessedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+const calendarFeedSchema = new Schema<ICalendarFeed>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      unique: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    lastAccessedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const CalendarFeed = mongoose.model<ICalendarFeed>('CalendarFeed', calendarFeedSchema);
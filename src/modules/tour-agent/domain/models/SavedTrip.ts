@@ -15,6 +15,8 @@ import mongoose, { Document, Schema } from 'mongoose';
  */
 export interface IItineraryItem {
   order: number;
+  dayNumber: number; // 1-based day of the trip
+  date?: Date; // Calendar date of the day, derived from the trip start date
   time: string; // HH:MM format
   locationName: string;
   locationId?: string;
@@ -28,6 +30,39 @@ export interface IItineraryItem {
   constraints?: string[];
 }
 
+/**
+ * Accommodation chosen from the AI Engine recommendations
+ */
+export interface ITripAccommodation {
+  recommendationId?: string;
+  name: string;
+  type?: 'hotel' | 'resort' | 'guesthouse';
+  rating?: number;
+  priceRange?: string;
+  url?: string;
+  description?: string;
+  nearLocation?: string;
+  checkInDay: number;
+  checkInDate?: Date;
+}
+
+/**
+ * Restaurant chosen from the AI Engine recommendations
+ */
+export interface ITripRestaurant {
+  recommendationId?: string;
+  name: string;
+  cuisineType?: string;
+  rating?: number;
+  priceRange?: string;
+  url?: string;
+  description?: string;
+  nearLocation?: string;
+  mealSlot: 'breakfast' | 'lunch' | 'dinner';
+  dayNumber: number;
+  date?: Date;
+}
+
 /**
  * Constraint violation from AI Engine
  */
@@ -50,6 +85,16 @@ export interface IAIMetadata {
   generatedAt: Date;
 }
 
+/**
+ * Bounding box of a trip's located itinerary stops
+ */
+export interface ITripRouteBounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
 /**
  * Main SavedTrip document interface
  */
@@ -61,6 +106,8 @@ export interface ISavedTrip extends Document {
   endDate: Date;
   destinations: string[];
   itinerary: IItineraryItem[];
+  accommodations: ITripAccommodation[];
+  restaurants: ITripRestaurant[];
   totalDays: number;
   isPublic: boolean;
   status: 'draft' | 'planned' | 'ongoing' | 'completed' | 'cancelled';
@@ -74,6 +121,7 @@ export interface ISavedTrip extends Document {
   generatedBy: 'user' | 'ai';
   aiMetadata?: IAIMetadata;
   constraints?: ITripConstraint[];
+  routeBounds?: ITripRouteBounds; // Derived from the itinerary, used by route alerts
   rating?: number;
   review?: string;
   createdAt: Date;
@@ -91,6 +139,15 @@ const itineraryItemSchema = new Schema<IItineraryItem>(
       required: [true, 'Order is required'],
       min: 0,
     },
+    dayNumber: {
+      type: Number,
+      min: 1,
+      max: 365,
+      default: 1,
+    },
+    date: {
+      type: Date,
+    },
     time: {
       type: String,
       required: [true, 'Time is required'],
@@ -152,6 +209,113 @@ const itineraryItemSchema = new Schema<IItineraryItem>(
   { _id: false }
 );
 
+const accommodationSchema = new Schema<ITripAccommodation>(
+  {
+    recommendationId: {
+      type: String,
+      trim: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Accommodation name is required'],
+      trim: true,
+      maxlength: 200,
+    },
+    type: {
+      type: String,
+      enum: ['hotel', 'resort', 'guesthouse'],
+    },
+    rating: {
+      type: Number,
+      min: 0,
+      max: 5,
+    },
+    priceRange: {
+      type: String,
+      trim: true,
+    },
+    url: {
+      type: String,
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 1000,
+    },
+    nearLocation: {
+      type: String,
+      trim: true,
+    },
+    checkInDay: {
+      type: Number,
+      min: 1,
+      max: 365,
+      default: 1,
+    },
+    checkInDate: {
+      type: Date,
+    },
+  },
+  { _id: false }
+);
+
+const restaurantSchema = new Schema<ITripRestaurant>(
+  {
+    recommendationId: {
+      type: String,
+      trim: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Restaurant name is required'],
+      trim: true,
+      maxlength: 200,
+    },
+    cuisineType: {
+      type: String,
+      trim: true,
+    },
+    rating: {
+      type: Number,
+      min: 0,
+      max: 5,
+    },
+    priceRange: {
+      type: String,
+      trim: true,
+    },
+    url: {
+      type: String,
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 1000,
+    },
+    nearLocation: {
+      type: String,
+      trim: true,
+    },
+    mealSlot: {
+      type: String,
+      enum: ['breakfast', 'lunch', 'dinner'],
+      required: [true, 'Meal slot is required'],
+    },
+    dayNumber: {
+      type: Number,
+      min: 1,
+      max: 365,
+      default: 1,
+    },
+    date: {
+      type: Date,
+    },
+  },
+  { _id: false }
+);
+
 const tripConstraintSchema = new Schema<ITripConstraint>(
   {
     constraintType: {
@@ -270,6 +434,14 @@ const savedTripSchema = new Schema<ISavedTrip>(
         message: 'Itinerary cannot have more than 200 items',
       },
     },
+    accommodations: {
+      type: [accommodationSchema],
+      default: [],
+    },
+    restaurants: {
+      type: [restaurantSchema],
+      default: [],
+    },
     totalDays: {
       type: Number,
       required: [true, 'Total days is required'],
@@ -317,6 +489,12 @@ const savedTripSchema = new Schema<ISavedTrip>(
       type: [tripConstraintSchema],
       default: [],
     },
+    routeBounds: {
+      minLat: Number,
+      maxLat: Number,
+      minLng: Number,
+      maxLng: Number,
+    },
     rating: {
       type: Number,
       min: 1,
@@ -348,6 +526,8 @@ savedTripSchema.index({ userId: 1, startDate: -1 });
 savedTripSchema.index({ isPublic: 1, createdAt: -1 });
 savedTripSchema.index({ userId: 1, createdAt: -1 });
 savedTripSchema.index({ tags: 1 });
+savedTripSchema.index({ status: 1, endDate: 1, startDate: 1 }); // trips under way
+savedTripSchema.index({ 'routeBounds.minLat': 1, 'routeBounds.maxLat': 1 }); // route alerts
 
 // ============================================================================
 // VALIDATION
@@ -372,6 +552,63 @@ savedTripSchema.pre('save', function (next) {
   next();
 });
 
+// Keep item, check-in and meal dates in line with the start date and day numbers
+savedTripSchema.pre('save', function (next) {
+  if (this.startDate) {
+    this.itinerary.forEach((item) => {
+      item.date = dateForTripDay(this.startDate, item.dayNumber);
+    });
+    this.accommodations.forEach((stay) => {
+      stay.checkInDate = dateForTripDay(this.startDate, stay.checkInDay);
+    });
+    this.restaurants.forEach((meal) => {
+      meal.date = dateForTripDay(this.startDate, meal.dayNumber);
+    });
+  }
+  next();
+});
+
+// Keep the route bounds in line with the itinerary
+savedTripSchema.pre('save', function (next) {
+  if (this.isModified('itinerary')) {
+    this.routeBounds = getRouteBounds(this.itinerary);
+  }
+  next();
+});
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Calendar date of a 1-based trip day
+ */
+export function dateForTripDay(startDate: Date, dayNumber = 1): Date {
+  const date = new Date(startDate);
+  date.setUTCDate(date.getUTCDate() + Math.max(dayNumber, 1) - 1);
+  return date;
+}
+
+/**
+ * Bounding box of the located itinerary stops, or undefined when none has
+ * coordinates
+ */
+export function getRouteBounds(itinerary: IItineraryItem[]): ITripRouteBounds | undefined {
+  const located = itinerary.filter(
+    (item) => typeof item.latitude === 'number' && typeof item.longitude === 'number'
+  );
+  if (located.length === 0) return undefined;
+
+  const latitudes = located.map((item) => item.latitude as number);
+  const longitudes = located.map((item) => item.longitude as number);
+  return {
+    minLat: Math.min(...latitudes),
+    maxLat: Math.max(...latitudes),
+    minLng: Math.min(...longitudes),
+    maxLng: Math.max(...longitudes),
+  };
+}
+
 // ============================================================================
 // EXPORT
 // ============================================================================
@@ -0,0 +1,166 @@
+/**
+ * TourPlanJob Model
+ * A tour plan generation request run in the background, so the plan survives
+ * dropped client connections and server restarts. Progress is kept as an
+ * append-only event log that clients can replay from any point.
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import type { SelectedLocation, TourPlanUserPreferences } from '../types/aiEngine';
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+export type TourPlanJobType = 'generate' | 'refine' | 'resume_selection' | 'resume_weather';
+
+/**
+ * queued -> running -> completed | awaiting_input | failed.
+ * awaiting_input means the graph paused for the user (HITL); answering it
+ * starts a new resume job on the same thread.
+ */
+export type TourPlanJobStatus = 'queued' | 'running' | 'awaiting_input' | 'completed' | 'failed';
+
+export type TourPlanJobEventType = 'status' | 'step' | 'interrupt' | 'result' | 'error';
+
+/**
+ * Everything needed to call the AI Engine, captured when the job is created
+ */
+export interface ITourPlanJobRequest {
+  threadId?: string;
+  selectedLocations?: SelectedLocation[];
+  startDate?: string;
+  endDate?: string;
+  preferences?: string[];
+  message?: string;
+  userPreferences?: TourPlanUserPreferences;
+  selectedRestaurantIds?: string[];
+  selectedAccommodationIds?: string[];
+  skipRestaurants?: boolean;
+  skipAccommodations?: boolean;
+  selectedCandidateId?: string;
+  userWeatherChoice?: 'switch_indoor' | 'reschedule' | 'keep';
+}
+
+/**
+ * Progress event. Its position in the log (1-based) is its event ID.
+ */
+export interface ITourPlanJobEvent {
+  type: TourPlanJobEventType;
+  data: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export interface ITourPlanJob extends Document {
+  userId: mongoose.Types.ObjectId;
+  type: TourPlanJobType;
+  status: TourPlanJobStatus;
+  threadId?: string;
+  request: ITourPlanJobRequest;
+  result?: Record<string, unknown>;
+  error?: {
+    message: string;
+    statusCode: number;
+  };
+  events: ITourPlanJobEvent[];
+  attempts: number;
+  lockedUntil?: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+const tourPlanJobEventSchema = new Schema<ITourPlanJobEvent>(
+  {
+    type: {
+      type: String,
+      enum: ['status', 'step', 'interrupt', 'result', 'error'],
+      required: true,
+    },
+    data: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const tourPlanJobSchema = new Schema<ITourPlanJob>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ['generate', 'refine', 'resume_selection', 'resume_weather'],
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'running', 'awaiting_input', 'completed', 'failed'],
+      default: 'queued',
+    },
+    threadId: {
+      type: String,
+    },
+    request: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    result: {
+      type: Schema.Types.Mixed,
+    },
+    error: {
+      message: { type: String },
+      statusCode: { type: Number },
+    },
+    events: {
+      type: [tourPlanJobEventSchema],
+      default: [],
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    lockedUntil: {
+      type: Date,
+    },
+    startedAt: {
+      type: Date,
+    },
+    finishedAt: {
+      type: Date,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ============================================================================
+// INDEXES
+// ============================================================================
+
+// Worker picks the oldest runnable job first
+tourPlanJobSchema.index({ status: 1, createdAt: 1 });
+tourPlanJobSchema.index({ userId: 1, createdAt: -1 });
+// Finished and abandoned jobs are cleaned up by MongoDB
+tourPlanJobSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const TourPlanJob = mongoose.model<ITourPlanJob>('TourPlanJob', tourPlanJobSchema);
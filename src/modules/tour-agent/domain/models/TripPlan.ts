@@ -127,6 +127,17 @@ export interface IDeltaPlan {
   aiExplanation?: string;
 }
 
+/**
+ * Delivery outcome for one notification channel
+ */
+export interface INotificationDelivery {
+  channel: 'push' | 'email' | 'sms';
+  status: 'sent' | 'failed' | 'skipped';
+  attempts: number;
+  error?: string;
+  deliveredAt?: Date;
+}
+
 /**
  * User notification record
  */
@@ -137,6 +148,7 @@ export interface INotificationRecord {
   message: string;
   sentAt: Date;
   sentVia: ('push' | 'email' | 'sms')[];
+  deliveries: INotificationDelivery[];
   readAt?: Date;
   relatedAlertId?: string;
   relatedDeltaId?: string;
@@ -163,6 +175,7 @@ export interface IValidationResult {
 export interface ITripPlan extends Document {
   // Core trip information (from SavedTrip)
   userId: mongoose.Types.ObjectId;
+  savedTripId?: mongoose.Types.ObjectId; // The accepted SavedTrip this plan monitors
   title: string;
   description?: string;
   startDate: Date;
@@ -223,6 +236,13 @@ export interface ITripPlan extends Document {
 
   createdAt: Date;
   updatedAt: Date;
+
+  // Methods
+  startMonitoring(): void;
+  stopMonitoring(reason: 'completed' | 'cancelled' | 'paused'): void;
+  addAlert(alert: IActiveAlert): void;
+  addMonitoringCheck(check: IMonitoringCheck): void;
+  needsMonitoringCheck(): boolean;
 }
 
 // ============================================================================
@@ -449,6 +469,32 @@ const deltaPlanSchema = new Schema<IDeltaPlan>(
   { _id: false }
 );
 
+const notificationDeliverySchema = new Schema<INotificationDelivery>(
+  {
+    channel: {
+      type: String,
+      enum: ['push', 'email', 'sms'],
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['sent', 'failed', 'skipped'],
+      required: true,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    error: {
+      type: String,
+    },
+    deliveredAt: {
+      type: Date,
+    },
+  },
+  { _id: false }
+);
+
 const notificationRecordSchema = new Schema<INotificationRecord>(
   {
     notificationId: {
@@ -481,6 +527,7 @@ const notificationRecordSchema = new Schema<INotificationRecord>(
         enum: ['push', 'email', 'sms'],
       },
     ],
+    deliveries: [notificationDeliverySchema],
     readAt: {
       type: Date,
     },
@@ -548,6 +595,8 @@ const itineraryItemSchema = new Schema<IItineraryItem>(
       required: [true, 'Order is required'],
       min: 0,
     },
+    dayNumber: { type: Number, min: 1, max: 365, default: 1 },
+    date: Date,
     time: {
       type: String,
       required: [true, 'Time is required'],
@@ -624,6 +673,11 @@ const tripPlanSchema = new Schema<ITripPlan>(
       required: [true, 'User ID is required'],
       index: true,
     },
+    savedTripId: {
+      type: Schema.Types.ObjectId,
+      ref: 'SavedTrip',
+      index: true,
+    },
     title: {
       type: String,
       required: [true, 'Trip title is required'],
@@ -0,0 +1,49 @@
+/**
+ * CalendarFeed Repository
+ * Data access layer for calendar subscription links
+ */
+
+import mongoose from 'mongoose';
+import { CalendarFeed, ICalendarFeed } from '../models/CalendarFeed';
+
+export class CalendarFeedRepository {
+  /**
+   * Find a user's feed
+   */
+  async findByUserId(userId: string): Promise<ICalendarFeed | null> {
+    return await CalendarFeed.findOne({ userId: new mongoose.Types.ObjectId(userId) });
+  }
+
+  /**
+   * Find a feed by the hash of its token
+   */
+  async findByTokenHash(tokenHash: string): Promise<ICalendarFeed | null> {
+    return await CalendarFeed.findOne({ tokenHash });
+  }
+
+  /**
+   * Create the user's feed, or replace its token if it already has one
+   */
+  async upsertToken(userId: string, tokenHash: string): Promise<ICalendarFeed> {
+    const feed = await CalendarFeed.findOneAndUpdate(
+      { userId: new mongoose.Types.ObjectId(userId) },
+      { $set: { tokenHash }, $unset: { lastAccessedAt: 1 } },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    );
+    return feed as ICalendarFeed;
+  }
+
+  /**
+   * Record that a calendar app fetched the feed
+   */
+  async touch(feedId: string): Promise<void> {
+    await CalendarFeed.updateOne({ _id: feedId }, { $set: { lastAccessedAt: new Date() } });
+  }
+
+  /**
+   * Delete a user's feed
+   */
+  async deleteByUserId(userId: string): Promise<ICalendarFeed | null> {
+    return await CalendarFeed.findOneAndDelete({ userId: new mongoose.Types.ObjectId(userId) });
+  }
+}
@@ -8,8 +8,12 @@ import {
   SavedTrip,
   ISavedTrip,
   IItineraryItem,
+  ITripAccommodation,
+  ITripRestaurant,
   ITripConstraint,
   IAIMetadata,
+  ITripRouteBounds,
+  getRouteBounds,
 } from '../models/SavedTrip';
 
 export interface CreateTripData {
@@ -20,6 +24,8 @@ export interface CreateTripData {
   endDate: Date;
   destinations?: string[];
   itinerary?: IItineraryItem[];
+  accommodations?: ITripAccommodation[];
+  restaurants?: ITripRestaurant[];
   isPublic?: boolean;
   status?: 'draft' | 'planned' | 'ongoing' | 'completed' | 'cancelled';
   tags?: string[];
@@ -122,7 +128,7 @@ export class SavedTripRepository {
     userId: string,
     data: Partial<ISavedTrip>
   ): Promise<ISavedTrip | null> {
-    return await SavedTrip.findOneAndUpdate(
+    const trip = await SavedTrip.findOneAndUpdate(
       {
         _id: new mongoose.Types.ObjectId(tripId),
         userId: new mongoose.Types.ObjectId(userId),
@@ -130,6 +136,7 @@ export class SavedTripRepository {
       { $set: data },
       { new: true, runValidators: true }
     );
+    return data.itinerary ? await this.syncRouteBounds(trip) : trip;
   }
 
   /**
@@ -186,7 +193,7 @@ export class SavedTripRepository {
     userId: string,
     item: IItineraryItem
   ): Promise<ISavedTrip | null> {
-    return await SavedTrip.findOneAndUpdate(
+    const trip = await SavedTrip.findOneAndUpdate(
       {
         _id: new mongoose.Types.ObjectId(tripId),
         userId: new mongoose.Types.ObjectId(userId),
@@ -194,6 +201,7 @@ export class SavedTripRepository {
       { $push: { itinerary: item } },
       { new: true }
     );
+    return await this.syncRouteBounds(trip);
   }
 
   /**
@@ -210,7 +218,7 @@ export class SavedTripRepository {
       updateObj[`itinerary.${itemIndex}.${key}`] = value;
     });
 
-    return await SavedTrip.findOneAndUpdate(
+    const trip = await SavedTrip.findOneAndUpdate(
       {
         _id: new mongoose.Types.ObjectId(tripId),
         userId: new mongoose.Types.ObjectId(userId),
@@ -218,6 +226,7 @@ export class SavedTripRepository {
       { $set: updateObj },
       { new: true }
     );
+    return await this.syncRouteBounds(trip);
   }
 
   /**
@@ -348,6 +357,8 @@ export class SavedTripRepository {
       endDate: original.endDate,
       destinations: [...original.destinations],
       itinerary: original.itinerary.map((item) => ({ ...item })),
+      accommodations: original.accommodations.map((stay) => ({ ...stay })),
+      restaurants: original.restaurants.map((meal) => ({ ...meal })),
       isPublic: false,
       status: 'draft',
       tags: [...original.tags],
@@ -382,6 +393,65 @@ export class SavedTripRepository {
     }).sort({ startDate: 1 });
   }
 
+  /**
+   * A user's trips that belong on their calendar (everything but cancelled)
+   */
+  async findForCalendar(userId: string): Promise<ISavedTrip[]> {
+    return await SavedTrip.find({
+      userId: new mongoose.Types.ObjectId(userId),
+      status: { $ne: 'cancelled' },
+    })
+      .select('title startDate itinerary status createdAt updatedAt')
+      .sort({ startDate: 1 });
+  }
+
+  /**
+   * Planned or ongoing trips of any user that overlap the given period and
+   * whose located itinerary stops overlap the given area
+   */
+  async findTravellingBetween(
+    from: Date,
+    to: Date,
+    bounds: ITripRouteBounds
+  ): Promise<ISavedTrip[]> {
+    return await SavedTrip.find({
+      status: { $in: ['planned', 'ongoing'] },
+      endDate: { $gte: from },
+      startDate: { $lte: to },
+      'routeBounds.minLat': { $lte: bounds.maxLat },
+      'routeBounds.maxLat': { $gte: bounds.minLat },
+      'routeBounds.minLng': { $lte: bounds.maxLng },
+      'routeBounds.maxLng': { $gte: bounds.minLng },
+    }).select('userId title startDate endDate itinerary');
+  }
+
+  /**
+   * Set route bounds on trips saved before they were stored
+   * @returns number of trips updated
+   */
+  async backfillRouteBounds(): Promise<number> {
+    const result = await SavedTrip.updateMany(
+      {
+        routeBounds: { $exists: false },
+        'itinerary.latitude': { $type: 'number' },
+        'itinerary.longitude': { $type: 'number' },
+      },
+      [
+        {
+          $set: {
+            routeBounds: {
+              minLat: { $min: '$itinerary.latitude' },
+              maxLat: { $max: '$itinerary.latitude' },
+              minLng: { $min: '$itinerary.longitude' },
+              maxLng: { $max: '$itinerary.longitude' },
+            },
+          },
+        },
+      ]
+    );
+    return result.modifiedCount;
+  }
+
   /**
    * Search trips by title or destination
    */
@@ -394,4 +464,24 @@ export class SavedTripRepository {
       .limit(limit)
       .sort({ createdAt: -1 });
   }
+
+  // ============================================================================
+  // HELPER METHODS
+  // ============================================================================
+
+  /**
+   * Recompute the route bounds after an itinerary change made without the
+   * save hook
+   */
+  private async syncRouteBounds(trip: ISavedTrip | null): Promise<ISavedTrip | null> {
+    if (!trip) return trip;
+
+    const routeBounds = getRouteBounds(trip.itinerary);
+    await SavedTrip.updateOne(
+      { _id: trip._id },
+      routeBounds ? { $set: { routeBounds } } : { $unset: { routeBounds: 1 } }
+    );
+    trip.routeBounds = routeBounds;
+    return trip;
+  }
 }
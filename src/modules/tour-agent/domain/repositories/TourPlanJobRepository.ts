@@ -0,0 +1,134 @@
+/**
+ * TourPlanJob Repository
+ * Data access layer for background tour plan jobs
+ */
+
+import mongoose from 'mongoose';
+import {
+  TourPlanJob,
+  ITourPlanJob,
+  ITourPlanJobEvent,
+  ITourPlanJobRequest,
+  TourPlanJobType,
+} from '../models/TourPlanJob';
+
+export interface CreateTourPlanJobData {
+  userId: string;
+  type: TourPlanJobType;
+  request: ITourPlanJobRequest;
+  expiresAt: Date;
+}
+
+export type TourPlanJobUpdate = Partial<
+  Pick<ITourPlanJob, 'status' | 'threadId' | 'result' | 'error' | 'finishedAt' | 'expiresAt'>
+>;
+
+export class TourPlanJobRepository {
+  /**
+   * Create a queued job with its first status event
+   */
+  async create(data: CreateTourPlanJobData): Promise<ITourPlanJob> {
+    const job = new TourPlanJob({
+      userId: new mongoose.Types.ObjectId(data.userId),
+      type: data.type,
+      status: 'queued',
+      threadId: data.request.threadId,
+      request: data.request,
+      events: [{ type: 'status', data: { status: 'queued' }, createdAt: new Date() }],
+      expiresAt: data.expiresAt,
+    });
+    return await job.save();
+  }
+
+  /**
+   * Find a job owned by a user
+   */
+  async findByIdForUser(jobId: string, userId: string): Promise<ITourPlanJob | null> {
+    if (!mongoose.Types.ObjectId.isValid(jobId)) {
+      return null;
+    }
+    return await TourPlanJob.findOne({
+      _id: jobId,
+      userId: new mongoose.Types.ObjectId(userId),
+    });
+  }
+
+  /**
+   * Claim the oldest runnable job: queued, or running under a lease that ran
+   * out because the server that held it went away
+   */
+  async claimNext(leaseMs: number, maxAttempts: number): Promise<ITourPlanJob | null> {
+    const now = new Date();
+    return await TourPlanJob.findOneAndUpdate(
+      {
+        $or: [{ status: 'queued' }, { status: 'running', lockedUntil: { $lt: now } }],
+        attempts: { $lt: maxAttempts },
+      },
+      {
+        $set: {
+          status: 'running',
+          lockedUntil: new Date(now.getTime() + leaseMs),
+          startedAt: now,
+        },
+        $inc: { attempts: 1 },
+        $push: {
+          events: { type: 'status', data: { status: 'running' }, createdAt: now },
+        },
+      },
+      { sort: { createdAt: 1 }, new: true }
+    );
+  }
+
+  /**
+   * Fail jobs whose lease ran out on their last allowed attempt
+   */
+  async failAbandoned(maxAttempts: number, message: string): Promise<string[]> {
+    const now = new Date();
+    const abandoned = await TourPlanJob.find({
+      status: 'running',
+      lockedUntil: { $lt: now },
+      attempts: { $gte: maxAttempts },
+    }).select('_id');
+
+    const failed: string[] = [];
+    for (const job of abandoned) {
+      // Re-check the status so a late finish from another server wins
+      const result = await TourPlanJob.updateOne(
+        { _id: job._id, status: 'running', lockedUntil: { $lt: now } },
+        {
+          $set: {
+            status: 'failed',
+            error: { message, statusCode: 500 },
+            finishedAt: now,
+          },
+          $unset: { lockedUntil: 1 },
+          $push: {
+            events: { type: 'error', data: { message, statusCode: 500 }, createdAt: now },
+          },
+        }
+      );
+      if (result.modifiedCount > 0) {
+        failed.push(String(job._id));
+      }
+    }
+    return failed;
+  }
+
+  /**
+   * Append progress events and update the job in one write
+   */
+  async appendEvents(
+    jobId: string,
+    events: Omit<ITourPlanJobEvent, 'createdAt'>[],
+    update: TourPlanJobUpdate = {}
+  ): Promise<void> {
+    const now = new Date();
+    await TourPlanJob.updateOne(
+      { _id: jobId },
+      {
+        $set: update,
+        $push: { events: { $each: events.map((event) => ({ ...event, createdAt: now })) } },
+      }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * TripPlan Repository
+ * Data access layer for monitored trip plans (Active Guardian)
+ */
+
+import mongoose from 'mongoose';
+import { TripPlan, ITripPlan, MonitoringStatus } from '../models/TripPlan';
+
+export class TripPlanRepository {
+  /**
+   * Create a new trip plan
+   */
+  async create(data: Partial<ITripPlan>): Promise<ITripPlan> {
+    const plan = new TripPlan(data);
+    return await plan.save();
+  }
+
+  /**
+   * Find plan by ID and user ID (ownership check)
+   */
+  async findByIdAndUser(planId: string, userId: string): Promise<ITripPlan | null> {
+    return await TripPlan.findOne({
+      _id: new mongoose.Types.ObjectId(planId),
+      userId: new mongoose.Types.ObjectId(userId),
+    });
+  }
+
+  /**
+   * Find the plan monitoring a saved trip
+   */
+  async findBySavedTrip(savedTripId: string, userId: string): Promise<ITripPlan | null> {
+    return await TripPlan.findOne({
+      savedTripId: new mongoose.Types.ObjectId(savedTripId),
+      userId: new mongoose.Types.ObjectId(userId),
+    });
+  }
+
+  /**
+   * Find a user's monitored plans, without the bulky history arrays
+   */
+  async findByUser(userId: string, status?: MonitoringStatus): Promise<ITripPlan[]> {
+    const query: Record<string, unknown> = {
+      userId: new mongoose.Types.ObjectId(userId),
+      monitoringStatus: status || { $ne: MonitoringStatus.NOT_MONITORING },
+    };
+
+    return await TripPlan.find(query)
+      .select('-monitoringHistory -weatherForecasts -notifications -alertHistory')
+      .sort({ startDate: 1 });
+  }
+
+  /**
+   * Save changes made to a loaded plan document
+   */
+  async save(plan: ITripPlan): Promise<ITripPlan> {
+    return await plan.save();
+  }
+}
@@ -11,7 +11,22 @@ import {
   ISearchHistoryEntry,
   IPreferenceScores,
   ITravelStylePreferences,
-} from '../models/UserPreferences';
+  INotificationPreferences,
+} from '../../../auth/domain/models/UserPreferences';
+
+export interface PreferenceSectionsUpdate {
+  preferenceScores?: Partial<IPreferenceScores>;
+  travelStyle?: Partial<ITravelStylePreferences>;
+  favoriteCategories?: string[];
+  avoidCategories?: string[];
+  homeLocation?: {
+    latitude: number;
+    longitude: number;
+    city?: string;
+    country?: string;
+  };
+  notificationPreferences?: Partial<INotificationPreferences>;
+}
 
 export class UserPreferencesRepository {
   // ============================================================================
@@ -59,6 +74,42 @@ export class UserPreferencesRepository {
     );
   }
 
+  /**
+   * Update several preference sections in a single write. Scores, travel style
+   * and notification settings are merged field by field; categories and home
+   * location are replaced.
+   */
+  async updateSections(
+    userId: string,
+    sections: PreferenceSectionsUpdate
+  ): Promise<IUserPreferences | null> {
+    const updateObj: Record<string, unknown> = {};
+
+    const nested = ['preferenceScores', 'travelStyle', 'notificationPreferences'] as const;
+    for (const section of nested) {
+      Object.entries(sections[section] || {}).forEach(([key, value]) => {
+        if (value !== undefined) {
+          updateObj[`${section}.${key}`] = value;
+        }
+      });
+    }
+    if (sections.favoriteCategories !== undefined) {
+      updateObj.favoriteCategories = sections.favoriteCategories;
+    }
+    if (sections.avoidCategories !== undefined) {
+      updateObj.avoidCategories = sections.avoidCategories;
+    }
+    if (sections.homeLocation !== undefined) {
+      updateObj.homeLocation = sections.homeLocation;
+    }
+
+    return await UserPreferences.findOneAndUpdate(
+      { userId: new mongoose.Types.ObjectId(userId) },
+      { $set: updateObj },
+      { new: true, runValidators: true }
+    );
+  }
+
   /**
    * Delete preferences document
    */
@@ -387,12 +438,7 @@ export class UserPreferencesRepository {
    */
   async updateNotificationPreferences(
     userId: string,
-    preferences: {
-      goldenHourAlerts?: boolean;
-      crowdAlerts?: boolean;
-      eventAlerts?: boolean;
-      poyaDayReminders?: boolean;
-    }
+    preferences: Partial<INotificationPreferences>
   ): Promise<IUserPreferences | null> {
     const updateObj: Record<string, boolean> = {};
 
@@ -0,0 +1,414 @@
+/**
+ * AI Engine Fallback Service
+ * Degraded-mode answers for when the AI Engine is down: crowd predictions
+ * from the engine's own recent answers, the simple golden-hour summary from
+ * the local solar engine, and recommendations from preference-score matching
+ * over the locations in MongoDB. Every fallback response carries `degraded`.
+ */
+
+import Location, { ILocation } from '../models/Location';
+import { getCache } from '../../../../shared/libraries/cache';
+import { SolarEngineService } from './SolarEngineService';
+import type {
+  CrowdPredictionRequest,
+  CrowdPredictionResponse,
+  DegradedModeInfo,
+  RecommendationRequest,
+  RecommendationResponse,
+  SimpleCrowdPredictionResponse,
+  SimpleGoldenHourResponse,
+  SimpleRecommendationResponse,
+  UserPreferenceScores,
+} from '../types/aiEngine';
+
+// Engine answers are kept this long as crowd history
+const CROWD_HISTORY_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const crowdHistory = getCache('ai_crowd_history', CROWD_HISTORY_TTL_MS);
+
+const SRI_LANKA_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+
+const DEFAULT_PREFERENCES: UserPreferenceScores = {
+  history: 0.5,
+  adventure: 0.5,
+  nature: 0.5,
+  relaxation: 0.5,
+};
+
+interface CachedPrediction<T> {
+  response: T;
+  cachedAt: string;
+}
+
+interface ScoredLocation {
+  location: ILocation;
+  distanceKm: number;
+  similarity: number;
+  combinedScore: number;
+}
+
+const degradedInfo = (
+  source: DegradedModeInfo['source'],
+  reason: string,
+  cachedAt?: string
+): DegradedModeInfo => ({ source, reason, cachedAt });
+
+/**
+ * Sri Lanka calendar date (YYYY-MM-DD) of an instant
+ */
+const toSriLankaDate = (ms: number): string =>
+  new Date(ms + SRI_LANKA_OFFSET_MS).toISOString().slice(0, 10);
+
+/**
+ * Sri Lanka wall-clock time (HH:MM:SS) of an instant
+ */
+const toSriLankaTime = (date: Date): string =>
+  new Date(date.getTime() + SRI_LANKA_OFFSET_MS).toISOString().slice(11, 19);
+
+const roundTo = (value: number, decimals: number): number => Number(value.toFixed(decimals));
+
+export class AIEngineFallbackService {
+  private solarEngineService: SolarEngineService;
+
+  constructor() {
+    this.solarEngineService = new SolarEngineService();
+  }
+
+  // ============================================================================
+  // CROWD PREDICTIONS (cached history)
+  // ============================================================================
+
+  /**
+   * Remember an engine crowd prediction. Requests carry local time, so the
+   * date and hour are read straight from `target_datetime`.
+   */
+  async recordCrowdPrediction(
+    request: CrowdPredictionRequest,
+    response: CrowdPredictionResponse
+  ): Promise<void> {
+    const entry: CachedPrediction<CrowdPredictionResponse> = {
+      response,
+      cachedAt: new Date().toISOString(),
+    };
+    const slot = this.crowdSlot(request.target_datetime);
+
+    await Promise.all([
+      crowdHistory.set(this.crowdKey(request.location_type, slot), entry),
+      crowdHistory.set(this.crowdKey(request.location_type), entry),
+    ]);
+  }
+
+  /**
+   * Last engine prediction for the same kind of place at the same weekday and
+   * hour, or failing that the latest one for the kind of place
+   */
+  async getCrowdPrediction(
+    request: CrowdPredictionRequest
+  ): Promise<CrowdPredictionResponse | null> {
+    const slot = this.crowdSlot(request.target_datetime);
+    const cached =
+      (await crowdHistory.get<CachedPrediction<CrowdPredictionResponse>>(
+        this.crowdKey(request.location_type, slot)
+      )) ||
+      (await crowdHistory.get<CachedPrediction<CrowdPredictionResponse>>(
+        this.crowdKey(request.location_type)
+      ));
+
+    if (!cached) {
+      return null;
+    }
+
+    return {
+      ...cached.response,
+      degraded: degradedInfo(
+        'cached_history',
+        'AI Engine unavailable; showing an earlier prediction for this kind of place',
+        cached.cachedAt
+      ),
+    };
+  }
+
+  async recordSimpleCrowdPrediction(
+    locationName: string,
+    date: string | undefined,
+    response: SimpleCrowdPredictionResponse
+  ): Promise<void> {
+    const entry: CachedPrediction<SimpleCrowdPredictionResponse> = {
+      response,
+      cachedAt: new Date().toISOString(),
+    };
+    const weekday = this.weekdayOf(date || response.prediction_date);
+
+    await Promise.all([
+      crowdHistory.set(this.simpleCrowdKey(locationName, weekday), entry),
+      crowdHistory.set(this.simpleCrowdKey(locationName), entry),
+    ]);
+  }
+
+  /**
+   * Last engine prediction for the location on the same weekday, or failing
+   * that the latest one for the location
+   */
+  async getSimpleCrowdPrediction(
+    locationName: string,
+    date?: string
+  ): Promise<SimpleCrowdPredictionResponse | null> {
+    const predictionDate = date || toSriLankaDate(Date.now());
+    const cached =
+      (await crowdHistory.get<CachedPrediction<SimpleCrowdPredictionResponse>>(
+        this.simpleCrowdKey(locationName, this.weekdayOf(predictionDate))
+      )) ||
+      (await crowdHistory.get<CachedPrediction<SimpleCrowdPredictionResponse>>(
+        this.simpleCrowdKey(locationName)
+      ));
+
+    if (!cached) {
+      return null;
+    }
+
+    return {
+      ...cached.response,
+      prediction_date: predictionDate,
+      degraded: degradedInfo(
+        'cached_history',
+        'AI Engine unavailable; showing an earlier prediction for this location',
+        cached.cachedAt
+      ),
+    };
+  }
+
+  private crowdSlot(targetDatetime: string): string | undefined {
+    const match = /^(\d{4}-\d{2}-\d{2})T(\d{2})/.exec(targetDatetime);
+    return match ? `${this.weekdayOf(match[1])}:${match[2]}` : undefined;
+  }
+
+  private weekdayOf(date: string): number {
+    return new Date(`${date.slice(0, 10)}T00:00:00Z`).getUTCDay();
+  }
+
+  private crowdKey(locationType: string, slot?: string): string {
+    const type = `type:${locationType.toLowerCase()}`;
+    return slot ? `${type}:${slot}` : type;
+  }
+
+  private simpleCrowdKey(locationName: string, weekday?: number): string {
+    const location = `location:${locationName.trim().toLowerCase()}`;
+    return weekday !== undefined ? `${location}:${weekday}` : location;
+  }
+
+  // ============================================================================
+  // GOLDEN HOUR (local solar engine)
+  // ============================================================================
+
+  /**
+   * The simple golden-hour summary, built from the local solar engine
+   */
+  async getSimpleGoldenHour(
+    locationName: string,
+    date?: string
+  ): Promise<SimpleGoldenHourResponse> {
+    const goldenHour = await this.solarEngineService.getGoldenHourByLocation(
+      locationName,
+      date,
+      true
+    );
+    const morning = goldenHour.morning_golden_hour;
+    const evening = goldenHour.evening_golden_hour;
+
+    return {
+      location_name: goldenHour.location.name || locationName,
+      coordinates: {
+        latitude: goldenHour.location.latitude,
+        longitude: goldenHour.location.longitude,
+      },
+      date: goldenHour.date,
+      timezone: goldenHour.timezone,
+      sunrise: toSriLankaTime(new Date(goldenHour.sunrise)),
+      sunset: toSriLankaTime(new Date(goldenHour.sunset)),
+      morning_golden_hour: {
+        start: morning.start_local,
+        end: morning.end_local,
+        duration_minutes: morning.duration_minutes,
+      },
+      evening_golden_hour: {
+        start: evening.start_local,
+        end: evening.end_local,
+        duration_minutes: evening.duration_minutes,
+      },
+      current_light_quality: goldenHour.current_position?.light_quality,
+      photography_recommendation: `Best light from ${evening.start_local} to ${evening.end_local}, or ${morning.start_local} to ${morning.end_local} for fewer people.`,
+      degraded: degradedInfo(
+        'local_solar_calculator',
+        'AI Engine unavailable; calculated locally from the sun position'
+      ),
+    };
+  }
+
+  // ============================================================================
+  // RECOMMENDATIONS (local preference matching)
+  // ============================================================================
+
+  async getRecommendations(request: RecommendationRequest): Promise<RecommendationResponse> {
+    const startedAt = Date.now();
+    const maxDistanceKm = request.max_distance_km ?? 20;
+    const preferences = { ...DEFAULT_PREFERENCES, ...request.preferences };
+
+    const { candidates, ranked } = await this.rankLocations(
+      request.current_lat,
+      request.current_lng,
+      preferences,
+      maxDistanceKm,
+      request.top_k ?? 3,
+      {
+        outdoorOnly: request.outdoor_only,
+        exclude: request.exclude_locations,
+      }
+    );
+
+    return {
+      success: true,
+      user_id: request.user_id,
+      request_location: { latitude: request.current_lat, longitude: request.current_lng },
+      target_datetime: request.target_datetime,
+      recommendations: ranked.map((scored, index) => ({
+        rank: index + 1,
+        name: scored.location.name,
+        latitude: scored.location.coordinates.latitude,
+        longitude: scored.location.coordinates.longitude,
+        similarity_score: roundTo(scored.similarity, 3),
+        distance_km: roundTo(scored.distanceKm, 2),
+        combined_score: roundTo(scored.combinedScore, 3),
+        preference_scores: this.preferenceScoresOf(scored.location),
+        is_outdoor: scored.location.isOutdoor,
+      })),
+      metadata: {
+        candidates_evaluated: candidates,
+        processing_time_ms: Date.now() - startedAt,
+        max_distance_km: maxDistanceKm,
+        self_corrections: 0,
+        constraints_checked: [],
+      },
+      degraded: degradedInfo(
+        'local_location_matching',
+        'AI Engine unavailable; ranked by preference match and distance only, without crowd, weather or holiday checks'
+      ),
+    };
+  }
+
+  async getSimpleRecommendations(
+    latitude: number,
+    longitude: number,
+    preferences: UserPreferenceScores,
+    maxDistanceKm: number,
+    topK: number
+  ): Promise<SimpleRecommendationResponse> {
+    const { ranked } = await this.rankLocations(
+      latitude,
+      longitude,
+      { ...DEFAULT_PREFERENCES, ...preferences },
+      maxDistanceKm,
+      topK
+    );
+
+    return {
+      success: true,
+      user_location: { lat: latitude, lng: longitude },
+      max_distance_km: maxDistanceKm,
+      total_found: ranked.length,
+      recommendations: ranked.map((scored, index) => ({
+        rank: index + 1,
+        name: scored.location.name,
+        latitude: scored.location.coordinates.latitude,
+        longitude: scored.location.coordinates.longitude,
+        distance_km: roundTo(scored.distanceKm, 2),
+        similarity_score: roundTo(scored.similarity, 3),
+        preference_scores: this.preferenceScoresOf(scored.location),
+        is_outdoor: scored.location.isOutdoor,
+      })),
+      degraded: degradedInfo(
+        'local_location_matching',
+        'AI Engine unavailable; ranked by preference match and distance only'
+      ),
+    };
+  }
+
+  /**
+   * Rank locations within range by cosine similarity to the user's
+   * preferences, nudged towards closer ones
+   */
+  private async rankLocations(
+    latitude: number,
+    longitude: number,
+    preferences: UserPreferenceScores,
+    maxDistanceKm: number,
+    topK: number,
+    filters: { outdoorOnly?: boolean; exclude?: string[] } = {}
+  ): Promise<{ candidates: number; ranked: ScoredLocation[] }> {
+    // Bounding box first, exact distance after
+    const latDelta = maxDistanceKm / 111;
+    const lngDelta = maxDistanceKm / (111 * Math.max(Math.cos((latitude * Math.PI) / 180), 0.01));
+    const query: Record<string, unknown> = {
+      'coordinates.latitude': { $gte: latitude - latDelta, $lte: latitude + latDelta },
+      'coordinates.longitude': { $gte: longitude - lngDelta, $lte: longitude + lngDelta },
+    };
+    if (filters.outdoorOnly) {
+      query.isOutdoor = true;
+    }
+
+    const excluded = new Set((filters.exclude || []).map((name) => name.toLowerCase()));
+    const locations = (await Location.find(query)).filter(
+      (location) => !excluded.has(location.name.toLowerCase())
+    );
+
+    const scored = locations
+      .map((location) => {
+        const distanceKm = this.calculateDistance(
+          latitude,
+          longitude,
+          location.coordinates.latitude,
+          location.coordinates.longitude
+        );
+        const similarity = this.cosineSimilarity(preferences, location.preferenceScores);
+        return {
+          location,
+          distanceKm,
+          similarity,
+          combinedScore: 0.8 * similarity + 0.2 * (1 - distanceKm / maxDistanceKm),
+        };
+      })
+      .filter((candidate) => candidate.distanceKm <= maxDistanceKm)
+      .sort((a, b) => b.combinedScore - a.combinedScore);
+
+    return { candidates: scored.length, ranked: scored.slice(0, topK) };
+  }
+
+  private cosineSimilarity(a: UserPreferenceScores, b: UserPreferenceScores): number {
+    const keys: (keyof UserPreferenceScores)[] = ['history', 'adventure', 'nature', 'relaxation'];
+    const dot = keys.reduce((sum, key) => sum + a[key] * b[key], 0);
+    const normA = Math.sqrt(keys.reduce((sum, key) => sum + a[key] ** 2, 0));
+    const normB = Math.sqrt(keys.reduce((sum, key) => sum + b[key] ** 2, 0));
+    return normA && normB ? dot / (normA * normB) : 0;
+  }
+
+  private preferenceScoresOf(location: ILocation): UserPreferenceScores {
+    const { history, adventure, nature, relaxation } = location.preferenceScores;
+    return { history, adventure, nature, relaxation };
+  }
+
+  /**
+   * Calculate distance between two coordinates using the Haversine formula
+   */
+  private calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const R = 6371; // Earth's radius in km
+    const dLat = ((lat2 - lat1) * Math.PI) / 180;
+    const dLon = ((lon2 - lon1) * Math.PI) / 180;
+    const a =
+      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+      Math.cos((lat1 * Math.PI) / 180) *
+        Math.cos((lat2 * Math.PI) / 180) *
+        Math.sin(dLon / 2) *
+        Math.sin(dLon / 2);
+    return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  }
+}
+
+export default AIEngineFallbackService;
@@ -4,10 +4,19 @@
  * Provides methods for all AI Engine API endpoints
  */
 
-import { httpClient } from '../../../../shared/utils/httpClient';
+import axios from 'axios';
+import {
+  httpClient,
+  isEngineUnavailableError,
+  AIEngineCircuitHealth,
+} from '../../../../shared/utils/httpClient';
+import { CircuitOpenError } from '../../../../shared/utils/circuitBreaker';
 import { aiEngineConfig } from '../../../../shared/config/aiEngine';
 import { AppError } from '../../../../shared/middleware/errorHandler';
 import { logger } from '../../../../shared/config/logger';
+import { AIEngineFallbackService } from './AIEngineFallbackService';
+import { SolarEngineService, LightQualityResult } from './SolarEngineService';
+import { readServerSentEvents, readStreamText } from '../utils/eventStream';
 import type {
   // Chat
   ChatRequest,
@@ -15,6 +24,7 @@ import type {
   // Tour Plan
   TourPlanGenerateRequest,
   TourPlanResponse,
+  TourPlanStepResult,
   SelectedLocation,
   TourPlanUserPreferences,
   // Recommendations
@@ -48,7 +58,22 @@ import type {
   UserPreferenceScores,
 } from '../types/aiEngine';
 
+/**
+ * Receives each step result while a tour plan is being worked on
+ */
+export type TourPlanStepHandler = (step: TourPlanStepResult) => Promise<void> | void;
+
+const TOUR_PLAN_TIMEOUT_MS = 180000;
+
 export class AIEngineService {
+  private fallbackService: AIEngineFallbackService;
+  private solarEngineService: SolarEngineService;
+
+  constructor() {
+    this.fallbackService = new AIEngineFallbackService();
+    this.solarEngineService = new SolarEngineService();
+  }
+
   /**
    * Handle errors from AI Engine API calls
    */
@@ -57,6 +82,14 @@ export class AIEngineService {
     const errorInfo = this.extractSafeErrorInfo(error);
     logger.error(`AI Engine ${operation} error:`, errorInfo);
 
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    if (error instanceof CircuitOpenError) {
+      throw new AppError('AI Engine service is unavailable', 503);
+    }
+
     if (error && typeof error === 'object') {
       const axiosError = error as {
         response?: { data?: { detail?: string }; status?: number };
@@ -85,6 +118,40 @@ export class AIEngineService {
     throw new AppError(`AI Engine ${operation} failed`, 500);
   }
 
+  /**
+   * Call the AI Engine, serving a degraded-mode answer if it is down.
+   * Rejections from a healthy engine (4xx) are passed on as usual.
+   */
+  private async withFallback<T>(
+    operation: string,
+    call: () => Promise<T>,
+    fallback: () => Promise<T | null> | T | null
+  ): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      if (isEngineUnavailableError(error)) {
+        let degraded: T | null = null;
+        try {
+          degraded = await fallback();
+        } catch (fallbackError) {
+          logger.warn(`AI Engine ${operation} fallback failed:`, {
+            message: (fallbackError as Error).message,
+          });
+        }
+
+        if (degraded) {
+          logger.warn(`AI Engine unavailable, serving degraded ${operation}`, {
+            message: (error as Error).message,
+          });
+          return degraded;
+        }
+      }
+
+      this.handleError(error, operation);
+    }
+  }
+
   /**
    * Extract safe error info for logging (avoids circular references)
    */
@@ -157,7 +224,8 @@ export class AIEngineService {
     selectedRestaurantIds?: string[],
     selectedAccommodationIds?: string[],
     skipRestaurants?: boolean,
-    skipAccommodations?: boolean
+    skipAccommodations?: boolean,
+    onStep?: TourPlanStepHandler
   ): Promise<TourPlanResponse> {
     try {
       const request: TourPlanGenerateRequest = {
@@ -177,10 +245,10 @@ export class AIEngineService {
 
       logger.info(`Generating tour plan for ${selectedLocations.length} locations`);
 
-      return await httpClient.postWithLongTimeout<TourPlanResponse>(
+      return await this.postTourPlan(
         `${aiEngineConfig.baseUrl}/api/v1/tour-plan/generate`,
         request,
-        180000
+        onStep
       );
     } catch (error) {
       this.handleError(error, 'tour plan generation');
@@ -202,7 +270,8 @@ export class AIEngineService {
     selectedRestaurantIds?: string[],
     selectedAccommodationIds?: string[],
     skipRestaurants?: boolean,
-    skipAccommodations?: boolean
+    skipAccommodations?: boolean,
+    onStep?: TourPlanStepHandler
   ): Promise<TourPlanResponse> {
     try {
       const request: TourPlanGenerateRequest = {
@@ -222,10 +291,10 @@ export class AIEngineService {
 
       logger.info(`Refining tour plan with thread ${threadId}`);
 
-      return await httpClient.postWithLongTimeout<TourPlanResponse>(
+      return await this.postTourPlan(
         `${aiEngineConfig.baseUrl}/api/v1/tour-plan/refine`,
         request,
-        180000
+        onStep
       );
     } catch (error) {
       this.handleError(error, 'tour plan refinement');
@@ -264,19 +333,20 @@ export class AIEngineService {
   async resumeSelection(
     threadId: string,
     selectedCandidateId: string,
-    userId?: string
+    userId?: string,
+    onStep?: TourPlanStepHandler
   ): Promise<TourPlanResponse> {
     try {
       logger.info(`Resuming selection — thread=${threadId}, candidate=${selectedCandidateId}`);
 
-      return await httpClient.postWithLongTimeout<TourPlanResponse>(
+      return await this.postTourPlan(
         `${aiEngineConfig.baseUrl}/api/v1/select`,
         {
           thread_id: threadId,
           selected_candidate_id: selectedCandidateId,
           user_id: userId,
         },
-        180000
+        onStep
       );
     } catch (error) {
       this.handleError(error, 'resume selection');
@@ -290,25 +360,87 @@ export class AIEngineService {
   async resumeWeather(
     threadId: string,
     userWeatherChoice: 'switch_indoor' | 'reschedule' | 'keep',
-    userId?: string
+    userId?: string,
+    onStep?: TourPlanStepHandler
   ): Promise<TourPlanResponse> {
     try {
       logger.info(`Resuming weather — thread=${threadId}, choice=${userWeatherChoice}`);
 
-      return await httpClient.postWithLongTimeout<TourPlanResponse>(
+      return await this.postTourPlan(
         `${aiEngineConfig.baseUrl}/api/v1/resume-weather`,
         {
           thread_id: threadId,
           user_weather_choice: userWeatherChoice,
           user_id: userId,
         },
-        180000
+        onStep
       );
     } catch (error) {
       this.handleError(error, 'resume weather');
     }
   }
 
+  /**
+   * POST a tour plan request. With `onStep`, the engine is asked to stream
+   * its progress as Server-Sent Events ("step" events, then one "result" or
+   * "error") and each step is handed over as it arrives. An engine that
+   * answers with plain JSON reports its steps only in the final response.
+   */
+  private async postTourPlan(
+    url: string,
+    request: object,
+    onStep?: TourPlanStepHandler
+  ): Promise<TourPlanResponse> {
+    if (!onStep) {
+      return httpClient.postWithLongTimeout<TourPlanResponse>(url, request, TOUR_PLAN_TIMEOUT_MS);
+    }
+
+    // The request timeout only covers gaps between bytes, so cap the whole run
+    const controller = new AbortController();
+    const deadline = setTimeout(() => controller.abort(), TOUR_PLAN_TIMEOUT_MS);
+
+    try {
+      const response = await httpClient.postStream(
+        url,
+        { ...request, stream: true },
+        { timeout: TOUR_PLAN_TIMEOUT_MS, signal: controller.signal }
+      );
+      controller.signal.addEventListener('abort', () => response.data.destroy());
+
+      if (!String(response.headers['content-type'] || '').includes('text/event-stream')) {
+        return JSON.parse(await readStreamText(response.data)) as TourPlanResponse;
+      }
+
+      for await (const message of readServerSentEvents(response.data)) {
+        const data = JSON.parse(message.data);
+        if (message.event === 'step') {
+          await onStep(data as TourPlanStepResult);
+        } else if (message.event === 'result') {
+          return data as TourPlanResponse;
+        } else if (message.event === 'error') {
+          throw new AppError(data.detail || 'AI Engine tour plan failed', data.status_code || 500);
+        }
+      }
+      throw new AppError('AI Engine ended the tour plan stream without a result', 502);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new AppError('AI Engine request timed out. The AI service may be overloaded.', 504);
+      }
+      // Error bodies arrive as a stream too; read them so their detail is kept
+      if (axios.isAxiosError(error) && error.response?.data?.readable) {
+        const body = await readStreamText(error.response.data).catch(() => '');
+        try {
+          error.response.data = JSON.parse(body);
+        } catch {
+          error.response.data = { detail: body || undefined };
+        }
+      }
+      throw error;
+    } finally {
+      clearTimeout(deadline);
+    }
+  }
+
   // ============================================================================
   // RECOMMENDATION API
   // ============================================================================
@@ -317,14 +449,11 @@ export class AIEngineService {
    * Get personalized location recommendations
    */
   async getRecommendations(request: RecommendationRequest): Promise<RecommendationResponse> {
-    try {
-      return await httpClient.post<RecommendationResponse>(
-        aiEngineConfig.endpoints.recommend,
-        request
-      );
-    } catch (error) {
-      this.handleError(error, 'recommendations');
-    }
+    return this.withFallback(
+      'recommendations',
+      () => httpClient.post<RecommendationResponse>(aiEngineConfig.endpoints.recommend, request),
+      () => this.fallbackService.getRecommendations(request)
+    );
   }
 
   /**
@@ -373,30 +502,38 @@ export class AIEngineService {
    * Get crowd prediction for a location
    */
   async getCrowdPrediction(request: CrowdPredictionRequest): Promise<CrowdPredictionResponse> {
-    try {
-      return await httpClient.post<CrowdPredictionResponse>(
-        aiEngineConfig.endpoints.crowd,
-        request
-      );
-    } catch (error) {
-      this.handleError(error, 'crowd prediction');
-    }
+    return this.withFallback(
+      'crowd prediction',
+      async () => {
+        const response = await httpClient.post<CrowdPredictionResponse>(
+          aiEngineConfig.endpoints.crowd,
+          request
+        );
+        await this.fallbackService.recordCrowdPrediction(request, response);
+        return response;
+      },
+      () => this.fallbackService.getCrowdPrediction(request)
+    );
   }
 
   /**
    * Get simple crowd prediction by location name
    */
   async getSimpleCrowdPrediction(locationName: string, date?: string): Promise<SimpleCrowdPredictionResponse> {
-    try {
-      const body: Record<string, string> = { location_name: locationName };
-      if (date) body.date = date;
-      return await httpClient.post<SimpleCrowdPredictionResponse>(
-        aiEngineConfig.endpoints.simpleCrowd,
-        body
-      );
-    } catch (error) {
-      this.handleError(error, 'simple crowd prediction');
-    }
+    return this.withFallback(
+      'simple crowd prediction',
+      async () => {
+        const body: Record<string, string> = { location_name: locationName };
+        if (date) body.date = date;
+        const response = await httpClient.post<SimpleCrowdPredictionResponse>(
+          aiEngineConfig.endpoints.simpleCrowd,
+          body
+        );
+        await this.fallbackService.recordSimpleCrowdPrediction(locationName, date, response);
+        return response;
+      },
+      () => this.fallbackService.getSimpleCrowdPrediction(locationName, date)
+    );
   }
 
   // ============================================================================
@@ -449,21 +586,16 @@ export class AIEngineService {
   }
 
   // ============================================================================
-  // GOLDEN HOUR / PHYSICS API
+  // GOLDEN HOUR / PHYSICS
   // ============================================================================
+  // Deterministic astronomy, so these are worked out locally by the solar
+  // engine rather than sent to the AI Engine.
 
   /**
    * Get golden hour calculation by coordinates
    */
   async getGoldenHour(request: GoldenHourRequest): Promise<GoldenHourResponse> {
-    try {
-      return await httpClient.post<GoldenHourResponse>(
-        aiEngineConfig.endpoints.goldenHour,
-        request
-      );
-    } catch (error) {
-      this.handleError(error, 'golden hour');
-    }
+    return this.solarEngineService.getGoldenHour(request);
   }
 
   /**
@@ -472,37 +604,22 @@ export class AIEngineService {
   async getGoldenHourByLocation(
     locationName: string,
     date?: string,
-    includeCurrentPosition?: boolean
+    includeCurrentPosition?: boolean,
+    timezone?: string
   ): Promise<GoldenHourResponse> {
-    try {
-      const encodedLocation = encodeURIComponent(locationName);
-      const params: Record<string, string | boolean> = {};
-
-      if (date) params.date = date;
-      if (includeCurrentPosition !== undefined) {
-        params.include_current_position = includeCurrentPosition;
-      }
-
-      return await httpClient.get<GoldenHourResponse>(
-        `${aiEngineConfig.endpoints.goldenHour}/${encodedLocation}`,
-        { params }
-      );
-    } catch (error) {
-      this.handleError(error, 'golden hour by location');
-    }
+    return this.solarEngineService.getGoldenHourByLocation(
+      locationName,
+      date,
+      includeCurrentPosition,
+      timezone
+    );
   }
 
   /**
    * Get current sun position
    */
   async getSunPosition(request: SunPositionRequest): Promise<SunPositionResponse> {
-    try {
-      return await httpClient.get<SunPositionResponse>(aiEngineConfig.endpoints.sunPosition, {
-        params: request,
-      });
-    } catch (error) {
-      this.handleError(error, 'sun position');
-    }
+    return this.solarEngineService.getSunPosition(request);
   }
 
   /**
@@ -510,25 +627,16 @@ export class AIEngineService {
    */
   async getCurrentLightQuality(
     latitude: number,
-    longitude: number
-  ): Promise<{
-    quality: string;
-    isDaylight: boolean;
-    elevation: number;
-    azimuth: number;
-  }> {
-    try {
-      const position = await this.getSunPosition({ latitude, longitude });
-
-      return {
-        quality: position.light_quality,
-        isDaylight: position.is_daylight,
-        elevation: position.elevation_deg,
-        azimuth: position.azimuth_deg,
-      };
-    } catch (error) {
-      this.handleError(error, 'light quality');
-    }
+    longitude: number,
+    elevationM?: number,
+    timezone?: string
+  ): Promise<LightQualityResult> {
+    return this.solarEngineService.getCurrentLightQuality(
+      latitude,
+      longitude,
+      elevationM,
+      timezone
+    );
   }
 
   // ============================================================================
@@ -558,9 +666,13 @@ export class AIEngineService {
   }
 
   /**
-   * Check if AI Engine is available
+   * Check if AI Engine is available. Answers straight away while the circuit
+   * breaker has the engine marked as down.
    */
   async isAvailable(): Promise<boolean> {
+    if (!httpClient.isEngineReachable()) {
+      return false;
+    }
     try {
       const health = await this.checkHealth();
       return health.status === 'healthy';
@@ -569,6 +681,13 @@ export class AIEngineService {
     }
   }
 
+  /**
+   * Circuit breaker state for the engine and each endpoint
+   */
+  getCircuitHealth(): AIEngineCircuitHealth {
+    return httpClient.getCircuitHealth();
+  }
+
   // ============================================================================
   // CONVENIENCE METHODS
   // ============================================================================
@@ -677,16 +796,15 @@ export class AIEngineService {
    * Get simple golden hour by location name
    */
   async getSimpleGoldenHour(locationName: string, date?: string): Promise<SimpleGoldenHourResponse> {
-    try {
-      const body: Record<string, string> = { location_name: locationName };
-      if (date) body.date = date;
-      return await httpClient.post<SimpleGoldenHourResponse>(
-        aiEngineConfig.endpoints.simpleGoldenHour,
-        body
-      );
-    } catch (error) {
-      this.handleError(error, 'simple golden hour');
-    }
+    const body: Record<string, string> = { location_name: locationName };
+    if (date) body.date = date;
+
+    return this.withFallback(
+      'simple golden hour',
+      () =>
+        httpClient.post<SimpleGoldenHourResponse>(aiEngineConfig.endpoints.simpleGoldenHour, body),
+      () => this.fallbackService.getSimpleGoldenHour(locationName, date)
+    );
   }
 
   /**
@@ -717,19 +835,24 @@ export class AIEngineService {
     maxDistanceKm: number = 50,
     topK: number = 5
   ): Promise<SimpleRecommendationResponse> {
-    try {
-      return await httpClient.post<SimpleRecommendationResponse>(
-        aiEngineConfig.endpoints.simpleRecommend,
-        {
+    return this.withFallback(
+      'simple recommendations',
+      () =>
+        httpClient.post<SimpleRecommendationResponse>(aiEngineConfig.endpoints.simpleRecommend, {
           latitude,
           longitude,
           preferences,
           max_distance_km: maxDistanceKm,
           top_k: topK,
-        }
-      );
-    } catch (error) {
-      this.handleError(error, 'simple recommendations');
-    }
+        }),
+      () =>
+        this.fallbackService.getSimpleRecommendations(
+          latitude,
+          longitude,
+          preferences,
+          maxDistanceKm,
+          topK
+        )
+    );
   }
 }
@@ -3,197 +3,392 @@
  * Manages user saved trips and trip history
  */
 
+import mongoose from 'mongoose';
+import {
+  SavedTripRepository,
+  CreateTripData,
+  TripFilters,
+} from '../repositories/SavedTripRepository';
+import {
+  ISavedTrip,
+  IItineraryItem,
+  ITripAccommodation,
+  ITripRestaurant,
+  dateForTripDay,
+} from '../models/SavedTrip';
+import type {
+  ItinerarySlot,
+  AccommodationRecommendation,
+  RestaurantRecommendation,
+} from '../types/aiEngine';
+import { SolarEngineService } from './SolarEngineService';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+
+/**
+ * A tour plan the user accepted, as sent by the mobile app
+ */
+export interface AcceptTourPlanData {
+  threadId: string;
+  title: string;
+  description?: string;
+  startDate?: string | Date;
+  itinerary: ItinerarySlot[];
+  accommodations?: AccommodationRecommendation[];
+  restaurants?: RestaurantRecommendation[];
+  metadata?: Record<string, unknown>;
+}
+
 export class SavedTripService {
-  constructor() {}
+  private tripRepository: SavedTripRepository;
+  private solarEngineService: SolarEngineService;
+
+  constructor() {
+    this.tripRepository = new SavedTripRepository();
+    this.solarEngineService = new SolarEngineService();
+  }
 
   // ============================================================================
   // CORE TRIP OPERATIONS
   // ============================================================================
 
-  async createTrip(userId: string, tripData: any): Promise<any> {
-    // TODO: Implement trip creation with database
-    return {
-      tripId: `trip_${Date.now()}`,
+  async createTrip(userId: string, tripData: Omit<CreateTripData, 'userId'>): Promise<ISavedTrip> {
+    return this.tripRepository.create({ ...tripData, userId });
+  }
+
+  /**
+   * Save an accepted AI tour plan as a trip starting on the chosen date (default today).
+   * Plan days are renumbered from 1 and items are ordered by day.
+   */
+  async acceptTourPlan(userId: string, plan: AcceptTourPlanData): Promise<ISavedTrip> {
+    const startDate = plan.startDate
+      ? new Date(plan.startDate)
+      : new Date(new Date().toISOString().slice(0, 10));
+    if (isNaN(startDate.getTime())) {
+      throw new AppError('Invalid start date', 400);
+    }
+
+    const firstDay = Math.min(...plan.itinerary.map((slot) => slot.day ?? 1));
+    const toDayNumber = (day?: number): number => Math.max((day ?? firstDay) - firstDay + 1, 1);
+
+    const itinerary: IItineraryItem[] = plan.itinerary
+      .map((slot, index) => ({ slot, index, dayNumber: toDayNumber(slot.day) }))
+      .sort((a, b) => a.dayNumber - b.dayNumber || a.index - b.index)
+      .map(({ slot, dayNumber }, order) => ({
+        order,
+        dayNumber,
+        time: slot.time,
+        locationName: slot.location,
+        activity: slot.activity,
+        durationMinutes: slot.duration_minutes,
+        notes: slot.notes,
+        crowdPrediction: slot.crowd_prediction,
+        lightingQuality: slot.lighting_quality as IItineraryItem['lightingQuality'],
+      }));
+
+    const accommodations: ITripAccommodation[] = (plan.accommodations ?? []).map((hotel) => ({
+      recommendationId: hotel.id,
+      name: hotel.name,
+      type: hotel.type,
+      rating: hotel.rating,
+      priceRange: hotel.price_range,
+      url: hotel.url,
+      description: hotel.description,
+      nearLocation: hotel.near_location,
+      checkInDay: toDayNumber(hotel.check_in_day),
+    }));
+
+    const restaurants: ITripRestaurant[] = (plan.restaurants ?? []).map((restaurant) => ({
+      recommendationId: restaurant.id,
+      name: restaurant.name,
+      cuisineType: restaurant.cuisine_type,
+      rating: restaurant.rating,
+      priceRange: restaurant.price_range,
+      url: restaurant.url,
+      description: restaurant.description,
+      nearLocation: restaurant.near_location,
+      mealSlot: restaurant.meal_slot,
+      dayNumber: toDayNumber(restaurant.day),
+    }));
+
+    const lastDay = Math.max(
+      ...itinerary.map((item) => item.dayNumber),
+      ...restaurants.map((meal) => meal.dayNumber),
+      ...accommodations.map((stay) => stay.checkInDay)
+    );
+
+    // Item, check-in and meal dates are filled in from the start date on save
+    return this.tripRepository.create({
       userId,
-      ...tripData,
-      status: 'planning',
-      isPublic: false,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+      title: plan.title,
+      description: plan.description,
+      destinations: Array.from(new Set(plan.itinerary.map((slot) => slot.location))),
+      startDate,
+      endDate: dateForTripDay(startDate, lastDay),
+      itinerary,
+      accommodations,
+      restaurants,
+      status: 'planned',
+      generatedBy: 'ai',
+      aiMetadata: {
+        sessionId: plan.threadId,
+        generatedAt: new Date(),
+        ...plan.metadata,
+      },
+    });
   }
 
-  async getTrips(_userId: string, _query?: any): Promise<any[]> {
-    // TODO: Implement get trips with database
-    return [];
+  async getTrips(userId: string, filters?: TripFilters): Promise<ISavedTrip[]> {
+    const { trips } = await this.tripRepository.findByUserId(userId, 1, 100, filters);
+    return trips;
   }
 
-  async getUserTrips(_userId: string, page: number, limit: number, _filters?: any): Promise<any> {
-    // TODO: Implement get user trips with pagination and database
+  async getUserTrips(
+    userId: string,
+    page: number,
+    limit: number,
+    filters?: TripFilters
+  ): Promise<{
+    trips: ISavedTrip[];
+    pagination: { page: number; limit: number; total: number; pages: number };
+  }> {
+    const { trips, total, pages } = await this.tripRepository.findByUserId(
+      userId,
+      page,
+      limit,
+      filters
+    );
     return {
-      trips: [],
-      pagination: {
-        page,
-        limit,
-        total: 0,
-        pages: 0,
-      },
+      trips,
+      pagination: { page, limit, total, pages },
     };
   }
 
-  async getTripById(_userId: string, tripId: string): Promise<any> {
-    // TODO: Implement get trip by id with database
-    return {
-      tripId,
-      userId: _userId,
-      title: 'Sample Trip',
-      status: 'planning',
-      destinations: [],
-      itinerary: [],
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+  async getTripById(userId: string, tripId: string): Promise<ISavedTrip> {
+    this.assertValidId(tripId);
+    const trip = await this.tripRepository.findByIdAndUser(tripId, userId);
+    return this.ensureFound(trip);
   }
 
-  async updateTrip(_userId: string, tripId: string, tripData: any): Promise<any> {
-    // TODO: Implement update trip with database
-    return {
-      tripId,
-      userId: _userId,
-      ...tripData,
-      updatedAt: new Date(),
-    };
+  async updateTrip(
+    userId: string,
+    tripId: string,
+    tripData: Partial<ISavedTrip>
+  ): Promise<ISavedTrip> {
+    this.assertValidId(tripId);
+    const trip = this.ensureFound(await this.tripRepository.update(tripId, userId, tripData));
+
+    // Saving recomputes the per-day dates from the new start date or itinerary
+    if (tripData.startDate || tripData.itinerary) {
+      return await trip.save();
+    }
+    return trip;
   }
 
-  async deleteTrip(_userId: string, _tripId: string): Promise<void> {
-    // TODO: Implement delete trip with database
-    return;
+  async deleteTrip(userId: string, tripId: string): Promise<void> {
+    this.assertValidId(tripId);
+    const trip = await this.tripRepository.delete(tripId, userId);
+    this.ensureFound(trip);
   }
 
-  async searchTrips(_userId: string, _query: string, _limit?: number): Promise<any[]> {
-    // TODO: Implement search trips with database
-    return [];
+  async searchTrips(userId: string, query: string, limit?: number): Promise<ISavedTrip[]> {
+    // Search terms are used as a regex, so escape user input
+    const escaped = query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return this.tripRepository.search(userId, escaped, limit);
   }
 
   // ============================================================================
   // STATUS OPERATIONS
   // ============================================================================
 
-  async updateTripStatus(tripId: string, _userId: string, status: string): Promise<any> {
-    // TODO: Implement update trip status with database
-    return {
-      tripId,
-      userId: _userId,
-      status,
-      updatedAt: new Date(),
-    };
+  async updateTripStatus(
+    tripId: string,
+    userId: string,
+    status: ISavedTrip['status']
+  ): Promise<ISavedTrip> {
+    this.assertValidId(tripId);
+    const trip = await this.tripRepository.updateStatus(tripId, userId, status);
+    return this.ensureFound(trip);
   }
 
-  async getUpcomingTrips(_userId: string): Promise<any[]> {
-    // TODO: Implement get upcoming trips with database
-    return [];
+  async getUpcomingTrips(userId: string): Promise<ISavedTrip[]> {
+    return this.tripRepository.getUpcomingTrips(userId);
   }
 
   // ============================================================================
   // ITINERARY OPERATIONS
   // ============================================================================
 
-  async addItineraryItem(tripId: string, _userId: string, item: any): Promise<any> {
-    // TODO: Implement add itinerary item with database
-    return {
-      tripId,
-      userId: _userId,
-      itinerary: [item],
-      updatedAt: new Date(),
-    };
+  async addItineraryItem(
+    tripId: string,
+    userId: string,
+    item: IItineraryItem
+  ): Promise<ISavedTrip> {
+    const existing = await this.getTripById(userId, tripId);
+    const dayNumber = item.dayNumber ?? 1;
+    const date = dateForTripDay(existing.startDate, dayNumber);
+
+    const trip = await this.tripRepository.addItineraryItem(tripId, userId, {
+      ...item,
+      dayNumber,
+      date,
+      lightingQuality: item.lightingQuality ?? this.lightingQualityFor({ ...item, date }),
+    });
+    return this.ensureFound(trip);
   }
 
   async updateItineraryItem(
     tripId: string,
-    _userId: string,
+    userId: string,
     itemIndex: number,
-    updatedItem: any
-  ): Promise<any> {
-    // TODO: Implement update itinerary item with database
-    return {
+    updatedItem: Partial<IItineraryItem>
+  ): Promise<ISavedTrip> {
+    const existing = await this.getTripById(userId, tripId);
+    this.assertValidItemIndex(existing, itemIndex);
+
+    if (updatedItem.dayNumber !== undefined) {
+      updatedItem = {
+        ...updatedItem,
+        date: dateForTripDay(existing.startDate, updatedItem.dayNumber),
+      };
+    }
+
+    // Moving the item in time or space changes its light, unless the user set it
+    const moved = ['date', 'time', 'latitude', 'longitude'].some(
+      (field) => updatedItem[field as keyof IItineraryItem] !== undefined
+    );
+    if (moved && updatedItem.lightingQuality === undefined) {
+      const current = existing.itinerary[itemIndex];
+      const lightingQuality = this.lightingQualityFor({
+        date: updatedItem.date ?? current.date,
+        time: updatedItem.time ?? current.time,
+        latitude: updatedItem.latitude ?? current.latitude,
+        longitude: updatedItem.longitude ?? current.longitude,
+      });
+      if (lightingQuality) {
+        updatedItem = { ...updatedItem, lightingQuality };
+      }
+    }
+
+    const trip = await this.tripRepository.updateItineraryItem(
       tripId,
-      userId: _userId,
-      itinerary: [{ ...updatedItem, index: itemIndex }],
-      updatedAt: new Date(),
-    };
+      userId,
+      itemIndex,
+      updatedItem
+    );
+    return this.ensureFound(trip);
   }
 
-  async removeItineraryItem(tripId: string, _userId: string, _itemIndex: number): Promise<any> {
-    // TODO: Implement remove itinerary item with database
-    return {
-      tripId,
-      userId: _userId,
-      itinerary: [],
-      updatedAt: new Date(),
-    };
+  async removeItineraryItem(
+    tripId: string,
+    userId: string,
+    itemIndex: number
+  ): Promise<ISavedTrip> {
+    const existing = await this.getTripById(userId, tripId);
+    this.assertValidItemIndex(existing, itemIndex);
+
+    const trip = await this.tripRepository.removeItineraryItem(tripId, userId, itemIndex);
+    return this.ensureFound(trip);
   }
 
-  async reorderItinerary(tripId: string, _userId: string, newOrder: number[]): Promise<any> {
-    // TODO: Implement reorder itinerary with database
-    return {
-      tripId,
-      userId: _userId,
-      itinerary: newOrder,
-      updatedAt: new Date(),
-    };
+  async reorderItinerary(tripId: string, userId: string, newOrder: number[]): Promise<ISavedTrip> {
+    const existing = await this.getTripById(userId, tripId);
+
+    // newOrder must be a permutation of the current item indexes
+    const sorted = [...newOrder].sort((a, b) => a - b);
+    if (
+      sorted.length !== existing.itinerary.length ||
+      sorted.some((value, index) => value !== index)
+    ) {
+      throw new AppError('New order must list every itinerary item index exactly once', 400);
+    }
+
+    const trip = await this.tripRepository.reorderItinerary(tripId, userId, newOrder);
+    return this.ensureFound(trip);
   }
 
   // ============================================================================
   // PUBLIC TRIPS OPERATIONS
   // ============================================================================
 
-  async getPublicTrips(page: number, limit: number, _tags?: string[]): Promise<any> {
-    // TODO: Implement get public trips with database
+  async getPublicTrips(
+    page: number,
+    limit: number,
+    tags?: string[]
+  ): Promise<{
+    trips: ISavedTrip[];
+    pagination: { page: number; limit: number; total: number; pages: number };
+  }> {
+    const { trips, total, pages } = await this.tripRepository.findPublicTrips(page, limit, tags);
     return {
-      trips: [],
-      pagination: {
-        page,
-        limit,
-        total: 0,
-        pages: 0,
-      },
+      trips,
+      pagination: { page, limit, total, pages },
     };
   }
 
-  async togglePublic(tripId: string, _userId: string): Promise<any> {
-    // TODO: Implement toggle trip visibility with database
-    return {
-      tripId,
-      userId: _userId,
-      isPublic: true,
-      updatedAt: new Date(),
-    };
+  async togglePublic(tripId: string, userId: string): Promise<ISavedTrip> {
+    this.assertValidId(tripId);
+    const trip = await this.tripRepository.togglePublic(tripId, userId);
+    return this.ensureFound(trip);
   }
 
   // ============================================================================
   // RATING & UTILITY OPERATIONS
   // ============================================================================
 
-  async addRating(tripId: string, _userId: string, rating: number, review?: string): Promise<any> {
-    // TODO: Implement add rating with database
-    return {
-      tripId,
-      userId: _userId,
-      rating,
-      review,
-      updatedAt: new Date(),
-    };
+  async addRating(
+    tripId: string,
+    userId: string,
+    rating: number,
+    review?: string
+  ): Promise<ISavedTrip> {
+    this.assertValidId(tripId);
+    const trip = await this.tripRepository.addRating(tripId, userId, rating, review);
+    return this.ensureFound(trip);
   }
 
-  async duplicateTrip(tripId: string, userId: string): Promise<any> {
-    // TODO: Implement duplicate trip with database
-    return {
-      tripId: `trip_${Date.now()}`,
-      userId,
-      title: 'Copy of Trip',
-      originalTripId: tripId,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+  async duplicateTrip(tripId: string, userId: string): Promise<ISavedTrip> {
+    this.assertValidId(tripId);
+    const trip = await this.tripRepository.duplicate(tripId, userId);
+    return this.ensureFound(trip);
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  /**
+   * Light quality at an item's start time, for items placed on the map
+   */
+  private lightingQualityFor(
+    item: Pick<IItineraryItem, 'date' | 'time' | 'latitude' | 'longitude'>
+  ): IItineraryItem['lightingQuality'] {
+    if (!item.date || !item.time || item.latitude === undefined || item.longitude === undefined) {
+      return undefined;
+    }
+    return this.solarEngineService.getLightingQuality(
+      item.date,
+      item.time,
+      item.latitude,
+      item.longitude
+    );
+  }
+
+  private assertValidId(tripId: string): void {
+    if (!mongoose.Types.ObjectId.isValid(tripId)) {
+      throw new AppError('Trip not found', 404);
+    }
+  }
+
+  private assertValidItemIndex(trip: ISavedTrip, itemIndex: number): void {
+    if (isNaN(itemIndex) || itemIndex < 0 || itemIndex >= trip.itinerary.length) {
+      throw new AppError('Itinerary item not found', 404);
+    }
+  }
+
+  private ensureFound(trip: ISavedTrip | null): ISavedTrip {
+    if (!trip) {
+      throw new AppError('Trip not found', 404);
+    }
+    return trip;
   }
 }
@@ -0,0 +1,319 @@
+/**
+ * Solar Engine Service
+ * Golden hour, sun position and light quality worked out in-process from the
+ * solar calculator, in the same shapes the AI Engine's physics API returns.
+ * Observer elevation widens the day by the horizon dip; local times are given
+ * in the requested IANA timezone (Sri Lanka time by default).
+ */
+
+import Location, { ILocation } from '../models/Location';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+import {
+  classifyLight,
+  getSunPosition,
+  getSunTimes,
+  horizonDip,
+  LightQuality,
+  SunWindow,
+  BLUE_HOUR_LOW,
+  GOLDEN_HOUR_HIGH,
+  GOLDEN_HOUR_LOW,
+  SUNRISE_ELEVATION,
+} from '../utils/solarCalculator';
+import type {
+  GoldenHourRequest,
+  GoldenHourResponse,
+  SunPositionRequest,
+  SunPositionResponse,
+  TimeWindow,
+} from '../types/aiEngine';
+
+export const DEFAULT_TIMEZONE = 'Asia/Colombo';
+
+const MINUTE_MS = 60 * 1000;
+
+export interface LightQualityResult {
+  quality: LightQuality;
+  isDaylight: boolean;
+  elevation: number;
+  azimuth: number;
+}
+
+const roundTo = (value: number, decimals: number): number => Number(value.toFixed(decimals));
+
+// ============================================================================
+// TIMEZONES
+// ============================================================================
+
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+      });
+    } catch {
+      throw new AppError(`Unknown timezone: ${timeZone}`, 400);
+    }
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Wall-clock fields of an instant in a timezone
+ */
+const localParts = (ms: number, timeZone: string): Record<string, number> => {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(ms))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return parts;
+};
+
+/**
+ * UTC offset of a timezone at an instant (ms, east positive)
+ */
+const zoneOffsetMs = (ms: number, timeZone: string): number => {
+  const p = localParts(ms, timeZone);
+  const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wallClock - Math.floor(ms / 1000) * 1000;
+};
+
+/**
+ * Instant of a local wall-clock time (YYYY-MM-DD, minutes after midnight)
+ */
+const localTimeToUtc = (date: string, minutes: number, timeZone: string): number => {
+  const wallClock = Date.parse(`${date}T00:00:00Z`) + minutes * MINUTE_MS;
+  // Second pass settles times near a DST change
+  const guess = wallClock - zoneOffsetMs(wallClock, timeZone);
+  return wallClock - zoneOffsetMs(guess, timeZone);
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Local date (YYYY-MM-DD) of an instant
+ */
+const toLocalDate = (ms: number, timeZone: string): string => {
+  const p = localParts(ms, timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+};
+
+/**
+ * Local wall-clock time (HH:MM:SS) of an instant
+ */
+const toLocalTime = (ms: number, timeZone: string): string => {
+  const p = localParts(ms, timeZone);
+  return `${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}`;
+};
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class SolarEngineService {
+  /**
+   * Golden and blue hours, sunrise, sunset and solar noon for a day
+   */
+  getGoldenHour(request: GoldenHourRequest): GoldenHourResponse {
+    const { latitude, longitude, date } = request;
+    const elevationM = request.elevation_m ?? 0;
+    const timeZone = request.timezone || DEFAULT_TIMEZONE;
+
+    const dayStart = localTimeToUtc(date, 0, timeZone);
+    const times = getSunTimes(dayStart, latitude, longitude, elevationM);
+    if (!times.sunrise || !times.sunset || !times.morningGoldenHour || !times.eveningGoldenHour) {
+      throw new AppError('The sun does not rise and set at this location on this date', 400);
+    }
+
+    // Extra daylight the raised horizon gives at each end of the day
+    const seaLevel = elevationM > 0 ? getSunTimes(dayStart, latitude, longitude) : times;
+    const correctionMinutes = seaLevel.sunset
+      ? roundTo((times.sunset.getTime() - seaLevel.sunset.getTime()) / MINUTE_MS, 1)
+      : 0;
+
+    const toWindow = (sunWindow: SunWindow, startDeg: number, endDeg: number): TimeWindow =>
+      this.toTimeWindow(sunWindow, startDeg, endDeg, timeZone);
+
+    const warnings: string[] = [];
+    if (elevationM > 0) {
+      warnings.push(
+        `Sunrise and sunset adjusted for a ${elevationM} m vantage point; nearby hills can still hide the sun`
+      );
+    } else {
+      warnings.push('Calculated for an open horizon; hills or buildings may hide the sun earlier');
+    }
+
+    return {
+      location: {
+        name: request.location_name,
+        latitude,
+        longitude,
+        elevation_m: elevationM,
+      },
+      date,
+      timezone: timeZone,
+      morning_golden_hour: toWindow(times.morningGoldenHour, GOLDEN_HOUR_LOW, GOLDEN_HOUR_HIGH),
+      evening_golden_hour: toWindow(times.eveningGoldenHour, GOLDEN_HOUR_HIGH, GOLDEN_HOUR_LOW),
+      morning_blue_hour: times.morningBlueHour
+        ? toWindow(times.morningBlueHour, BLUE_HOUR_LOW, GOLDEN_HOUR_LOW)
+        : undefined,
+      evening_blue_hour: times.eveningBlueHour
+        ? toWindow(times.eveningBlueHour, GOLDEN_HOUR_LOW, BLUE_HOUR_LOW)
+        : undefined,
+      solar_noon: times.solarNoon.toISOString(),
+      solar_noon_elevation_deg: roundTo(times.solarNoonElevationDeg, 2),
+      sunrise: times.sunrise.toISOString(),
+      sunset: times.sunset.toISOString(),
+      day_length_hours: roundTo(
+        (times.sunset.getTime() - times.sunrise.getTime()) / (60 * MINUTE_MS),
+        2
+      ),
+      current_position: request.include_current_position
+        ? this.getSunPosition({ latitude, longitude, elevation_m: elevationM, timezone: timeZone })
+        : undefined,
+      metadata: {
+        topographic_correction_minutes: correctionMinutes,
+        calculation_method: 'noaa',
+        precision_estimate_deg: 0.1,
+      },
+      warnings,
+    };
+  }
+
+  /**
+   * Golden hour for a known location; defaults to today in the timezone
+   */
+  async getGoldenHourByLocation(
+    locationName: string,
+    date?: string,
+    includeCurrentPosition?: boolean,
+    timezone?: string
+  ): Promise<GoldenHourResponse> {
+    const location = await this.findLocation(locationName);
+    if (!location) {
+      throw new AppError(`Location not found: ${locationName}`, 404);
+    }
+
+    const timeZone = timezone || DEFAULT_TIMEZONE;
+    return this.getGoldenHour({
+      latitude: location.coordinates.latitude,
+      longitude: location.coordinates.longitude,
+      date: date || toLocalDate(Date.now(), timeZone),
+      location_name: location.name,
+      include_current_position: includeCurrentPosition,
+      timezone: timeZone,
+    });
+  }
+
+  /**
+   * Where the sun is at an instant (default now)
+   */
+  getSunPosition(request: SunPositionRequest, at: Date = new Date()): SunPositionResponse {
+    const timeZone = request.timezone || DEFAULT_TIMEZONE;
+    const position = getSunPosition(at, request.latitude, request.longitude);
+    const horizon = SUNRISE_ELEVATION - horizonDip(request.elevation_m);
+
+    return {
+      timestamp: at.toISOString(),
+      local_time: toLocalTime(at.getTime(), timeZone),
+      elevation_deg: roundTo(position.elevationDeg, 2),
+      azimuth_deg: roundTo(position.azimuthDeg, 2),
+      atmospheric_refraction_deg: roundTo(position.refractionDeg, 4),
+      is_daylight: position.elevationDeg > horizon,
+      light_quality: classifyLight(position.elevationDeg),
+      calculation_method: 'noaa',
+    };
+  }
+
+  /**
+   * Current light quality for photography
+   */
+  getCurrentLightQuality(
+    latitude: number,
+    longitude: number,
+    elevationM?: number,
+    timezone?: string
+  ): LightQualityResult {
+    const position = this.getSunPosition({
+      latitude,
+      longitude,
+      elevation_m: elevationM,
+      timezone,
+    });
+
+    return {
+      quality: position.light_quality,
+      isDaylight: position.is_daylight,
+      elevation: position.elevation_deg,
+      azimuth: position.azimuth_deg,
+    };
+  }
+
+  /**
+   * Light quality at a local date and time (HH:MM), as stored on itinerary items
+   */
+  getLightingQuality(
+    date: Date | string,
+    time: string,
+    latitude: number,
+    longitude: number,
+    timezone: string = DEFAULT_TIMEZONE
+  ): LightQuality | undefined {
+    const match = /^(\d{1,2}):(\d{2})/.exec(time);
+    if (!match) {
+      return undefined;
+    }
+
+    const day = typeof date === 'string' ? date.slice(0, 10) : date.toISOString().slice(0, 10);
+    const minutes = Number(match[1]) * 60 + Number(match[2]);
+    const at = localTimeToUtc(day, minutes, timezone);
+
+    return classifyLight(getSunPosition(new Date(at), latitude, longitude).elevationDeg);
+  }
+
+  private toTimeWindow(
+    sunWindow: SunWindow,
+    startElevation: number,
+    endElevation: number,
+    timeZone: string
+  ): TimeWindow {
+    return {
+      start: sunWindow.start.toISOString(),
+      end: sunWindow.end.toISOString(),
+      start_local: toLocalTime(sunWindow.start.getTime(), timeZone),
+      end_local: toLocalTime(sunWindow.end.getTime(), timeZone),
+      duration_minutes: Math.round(
+        (sunWindow.end.getTime() - sunWindow.start.getTime()) / MINUTE_MS
+      ),
+      elevation_at_start_deg: startElevation,
+      elevation_at_end_deg: endElevation,
+    };
+  }
+
+  /**
+   * Find a location by name: exact, then case-insensitive, then partial
+   */
+  private async findLocation(locationName: string): Promise<ILocation | null> {
+    const escaped = locationName.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return (
+      (await Location.findOne({ name: locationName })) ||
+      (await Location.findOne({ name: { $regex: new RegExp(`^${escaped}$`, 'i') } })) ||
+      (await Location.findOne({ name: { $regex: new RegExp(escaped, 'i') } }))
+    );
+  }
+}
+
+export default SolarEngineService;
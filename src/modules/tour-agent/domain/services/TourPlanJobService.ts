@@ -0,0 +1,372 @@
+/**
+ * Tour Plan Job Service
+ * Runs tour plan generation in the background and records its progress, so
+ * clients can poll or stream the result instead of holding a request open
+ * for the whole LangGraph run.
+ */
+
+import { EventEmitter } from 'events';
+import config from '../../../../shared/config/config';
+import { logger } from '../../../../shared/config/logger';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+import { AIEngineService, TourPlanStepHandler } from './AIEngineService';
+import { UserPreferencesService } from './UserPreferencesService';
+import { TourPlanJobRepository } from '../repositories/TourPlanJobRepository';
+import type {
+  ITourPlanJob,
+  ITourPlanJobEvent,
+  ITourPlanJobRequest,
+  TourPlanJobStatus,
+  TourPlanJobType,
+} from '../models/TourPlanJob';
+import type {
+  SelectedLocation,
+  TourPlanResponse,
+  TourPlanStepResult,
+  TourPlanUserPreferences,
+} from '../types/aiEngine';
+
+/**
+ * Location as sent by the mobile app
+ */
+export interface ClientSelectedLocation {
+  name: string;
+  latitude: number;
+  longitude: number;
+  imageUrl?: string;
+  distance_km?: number;
+}
+
+export interface TourPlanJobEventView {
+  id: number;
+  type: ITourPlanJobEvent['type'];
+  data: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export const TERMINAL_JOB_STATUSES: TourPlanJobStatus[] = ['completed', 'awaiting_input', 'failed'];
+
+/**
+ * In-process notifications: 'queued' when a job is created, and
+ * `update:<jobId>` when a job records progress. Streams on other servers
+ * fall back to polling the job.
+ */
+export const tourPlanJobEvents = new EventEmitter();
+tourPlanJobEvents.setMaxListeners(0);
+
+/**
+ * Transform app locations to AI Engine format
+ */
+export const toEngineLocations = (locations: ClientSelectedLocation[]): SelectedLocation[] =>
+  locations.map((loc) => ({
+    name: loc.name,
+    latitude: loc.latitude,
+    longitude: loc.longitude,
+    image_url: loc.imageUrl,
+    distance_km: loc.distance_km,
+  }));
+
+/**
+ * Shape an AI Engine tour plan response for the mobile app
+ */
+export const toTourPlanData = (response: TourPlanResponse): Record<string, unknown> => ({
+  threadId: response.thread_id,
+  response: response.response,
+  itinerary: response.itinerary,
+  metadata: response.metadata,
+  constraints: response.constraints,
+  warnings: response.warnings,
+  tips: response.tips,
+  stepResults: response.step_results,
+  clarificationQuestion: response.clarification_question,
+  culturalTips: response.cultural_tips,
+  events: response.events,
+  finalItinerary: response.final_itinerary,
+  weatherData: response.weather_data,
+  interruptReason: response.interrupt_reason,
+  restaurantRecommendations: response.restaurant_recommendations,
+  accommodationRecommendations: response.accommodation_recommendations,
+  // ── HITL Interrupt Fields ──
+  pendingUserSelection: response.pending_user_selection ?? false,
+  selectionCards: response.selection_cards,
+  promptText: response.prompt_text,
+  searchCandidates: response.search_candidates,
+  mcpSearchMetadata: response.mcp_search_metadata,
+  weatherInterrupt: response.weather_interrupt ?? false,
+  weatherPromptMessage: response.weather_prompt_message,
+  weatherPromptOptions: response.weather_prompt_options,
+});
+
+/**
+ * The graph paused for the user: a candidate pick, a weather decision or a
+ * clarifying question
+ */
+const isAwaitingInput = (response: TourPlanResponse): boolean =>
+  Boolean(
+    response.pending_user_selection || response.weather_interrupt || response.clarification_question
+  );
+
+export class TourPlanJobService {
+  private jobRepository: TourPlanJobRepository;
+  private aiEngineService: AIEngineService;
+  private preferencesService: UserPreferencesService;
+
+  constructor() {
+    this.jobRepository = new TourPlanJobRepository();
+    this.aiEngineService = new AIEngineService();
+    this.preferencesService = new UserPreferencesService();
+  }
+
+  /**
+   * Load the user's profile preferences for personalization.
+   * Plans are still generated without them if the profile can't be read.
+   */
+  async loadUserPreferences(userId: string): Promise<TourPlanUserPreferences | undefined> {
+    try {
+      const prefs = await this.preferencesService.getPreferences(userId);
+      const userPreferences: TourPlanUserPreferences = {
+        history: prefs.preferenceScores.history,
+        adventure: prefs.preferenceScores.adventure,
+        nature: prefs.preferenceScores.nature,
+        relaxation: prefs.preferenceScores.relaxation,
+        pace: prefs.travelStyle.pacePreference,
+        budget: prefs.travelStyle.budgetRange,
+        group_size: prefs.travelStyle.groupSize,
+        accessibility: prefs.travelStyle.accessibility,
+        dietary: prefs.travelStyle.dietaryRestrictions,
+      };
+      logger.info(
+        `Loaded user preferences: history=${userPreferences.history}, adventure=${userPreferences.adventure}, nature=${userPreferences.nature}, relaxation=${userPreferences.relaxation}`
+      );
+      return userPreferences;
+    } catch (err) {
+      logger.warn(`Could not load user preferences for ${userId}, proceeding without:`, err);
+      return undefined;
+    }
+  }
+
+  // ============================================================================
+  // JOBS
+  // ============================================================================
+
+  /**
+   * Queue a job; the worker picks it up straight away
+   */
+  async createJob(
+    userId: string,
+    type: TourPlanJobType,
+    request: ITourPlanJobRequest
+  ): Promise<ITourPlanJob> {
+    const job = await this.jobRepository.create({
+      userId,
+      type,
+      request,
+      expiresAt: this.retentionDeadline(),
+    });
+
+    logger.info(`Queued ${type} tour plan job ${job._id} for user ${userId}`);
+    tourPlanJobEvents.emit('queued', String(job._id));
+    return job;
+  }
+
+  /**
+   * Get a job owned by the user
+   */
+  async getJob(jobId: string, userId: string): Promise<ITourPlanJob> {
+    const job = await this.jobRepository.findByIdForUser(jobId, userId);
+    if (!job) {
+      throw new AppError('Tour plan job not found', 404);
+    }
+    return job;
+  }
+
+  /**
+   * Claim the next runnable job, if any
+   */
+  async claimNextJob(): Promise<ITourPlanJob | null> {
+    const job = await this.jobRepository.claimNext(
+      config.tourPlanJobs.leaseMs,
+      config.tourPlanJobs.maxAttempts
+    );
+    if (job) {
+      tourPlanJobEvents.emit(`update:${job._id}`);
+    }
+    return job;
+  }
+
+  /**
+   * Fail jobs that kept getting lost to server restarts
+   */
+  async failAbandonedJobs(): Promise<number> {
+    const failed = await this.jobRepository.failAbandoned(
+      config.tourPlanJobs.maxAttempts,
+      'Tour plan generation was interrupted. Please try again.'
+    );
+    failed.forEach((jobId) => tourPlanJobEvents.emit(`update:${jobId}`));
+    return failed.length;
+  }
+
+  /**
+   * Run a claimed job against the AI Engine and record the outcome.
+   * Step results are recorded as progress events while the engine reports
+   * them; if it can't stream, they are replayed ahead of the final result.
+   */
+  async runJob(job: ITourPlanJob): Promise<void> {
+    const jobId = String(job._id);
+    let streamedSteps = 0;
+
+    const recordStep = async (step: TourPlanStepResult): Promise<void> => {
+      streamedSteps++;
+      try {
+        await this.jobRepository.appendEvents(jobId, [{ type: 'step', data: { ...step } }]);
+        tourPlanJobEvents.emit(`update:${jobId}`);
+      } catch (error) {
+        logger.warn(
+          `Could not record a step of tour plan job ${jobId}: ${(error as Error).message}`
+        );
+      }
+    };
+
+    try {
+      const response = await this.callEngine(job, recordStep);
+      const data = toTourPlanData(response);
+      const status: TourPlanJobStatus = isAwaitingInput(response) ? 'awaiting_input' : 'completed';
+      const replayedSteps = streamedSteps > 0 ? [] : response.step_results || [];
+
+      await this.jobRepository.appendEvents(
+        jobId,
+        [
+          ...replayedSteps.map((step) => ({ type: 'step' as const, data: { ...step } })),
+          { type: status === 'awaiting_input' ? 'interrupt' : 'result', data },
+          { type: 'status', data: { status } },
+        ],
+        {
+          status,
+          threadId: response.thread_id,
+          result: data,
+          finishedAt: new Date(),
+          expiresAt: this.retentionDeadline(),
+        }
+      );
+      logger.info(`Tour plan job ${jobId} ${status} (thread ${response.thread_id})`);
+    } catch (error) {
+      const statusCode = (error as AppError).statusCode || 500;
+      const message = (error as Error).message || 'Tour plan generation failed';
+
+      await this.jobRepository.appendEvents(
+        jobId,
+        [
+          { type: 'error', data: { message, statusCode } },
+          { type: 'status', data: { status: 'failed' } },
+        ],
+        {
+          status: 'failed',
+          error: { message, statusCode },
+          finishedAt: new Date(),
+          expiresAt: this.retentionDeadline(),
+        }
+      );
+      logger.error(`Tour plan job ${jobId} failed: ${message}`);
+    }
+
+    tourPlanJobEvents.emit(`update:${jobId}`);
+  }
+
+  private async callEngine(
+    job: ITourPlanJob,
+    onStep: TourPlanStepHandler
+  ): Promise<TourPlanResponse> {
+    const request = job.request;
+    const userId = job.userId.toString();
+
+    switch (job.type) {
+      case 'generate':
+        return this.aiEngineService.generateTourPlan(
+          request.selectedLocations || [],
+          request.startDate as string,
+          request.endDate as string,
+          undefined, // threadId will be generated
+          request.preferences,
+          request.message,
+          userId,
+          request.userPreferences,
+          request.selectedRestaurantIds,
+          request.selectedAccommodationIds,
+          request.skipRestaurants,
+          request.skipAccommodations,
+          onStep
+        );
+      case 'refine':
+        return this.aiEngineService.refineTourPlan(
+          request.threadId as string,
+          request.message as string,
+          request.selectedLocations || [],
+          request.startDate as string,
+          request.endDate as string,
+          request.preferences,
+          userId,
+          request.userPreferences,
+          request.selectedRestaurantIds,
+          request.selectedAccommodationIds,
+          request.skipRestaurants,
+          request.skipAccommodations,
+          onStep
+        );
+      case 'resume_selection':
+        return this.aiEngineService.resumeSelection(
+          request.threadId as string,
+          request.selectedCandidateId as string,
+          userId,
+          onStep
+        );
+      case 'resume_weather':
+        return this.aiEngineService.resumeWeather(
+          request.threadId as string,
+          request.userWeatherChoice as 'switch_indoor' | 'reschedule' | 'keep',
+          userId,
+          onStep
+        );
+    }
+  }
+
+  // ============================================================================
+  // VIEWS
+  // ============================================================================
+
+  /**
+   * Progress events after the given event ID (IDs are 1-based log positions)
+   */
+  getEventsSince(job: ITourPlanJob, lastEventId: number = 0): TourPlanJobEventView[] {
+    const from = Math.max(0, lastEventId);
+    return job.events.slice(from).map((event, index) => ({
+      id: from + index + 1,
+      type: event.type,
+      data: event.data,
+      createdAt: event.createdAt,
+    }));
+  }
+
+  /**
+   * Job state for polling clients, with events after `lastEventId`
+   */
+  toJobView(job: ITourPlanJob, lastEventId: number = 0): Record<string, unknown> {
+    return {
+      jobId: job._id,
+      type: job.type,
+      status: job.status,
+      threadId: job.threadId,
+      attempts: job.attempts,
+      result: job.result,
+      error: job.error?.message ? job.error : undefined,
+      events: this.getEventsSince(job, lastEventId),
+      lastEventId: job.events.length,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt,
+    };
+  }
+
+  private retentionDeadline(): Date {
+    return new Date(Date.now() + config.tourPlanJobs.retentionHours * 60 * 60 * 1000);
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Trip Calendar Service
+ * Exports saved trip itineraries as iCalendar files, and serves each user a
+ * subscription feed of all their trips. Calendars are built from the trip as
+ * it is now on every request, so edits, reorders and accepted delta plans
+ * reach subscribed calendars on their next refresh.
+ */
+
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { SavedTripRepository } from '../repositories/SavedTripRepository';
+import { CalendarFeedRepository } from '../repositories/CalendarFeedRepository';
+import { ISavedTrip, IItineraryItem, dateForTripDay } from '../models/SavedTrip';
+import { DEFAULT_TIMEZONE } from './SolarEngineService';
+import { buildCalendar, CalendarEvent, CalendarOptions } from '../utils/icalendar';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+import config from '../../../../shared/config/config';
+
+const PRODUCT_ID = '-//Travion//Trip Itinerary//EN';
+const UID_DOMAIN = 'trips.travion.app';
+
+// Itinerary times are Sri Lanka wall-clock times; Sri Lanka has no daylight saving
+const TRIP_TIMEZONE = { id: DEFAULT_TIMEZONE, utcOffset: '+0530' };
+
+// How often subscribed calendar apps are asked to re-fetch the feed
+const FEED_REFRESH_MINUTES = 60;
+
+export interface CalendarFeedInfo {
+  url: string; // https link, for calendar apps that take a URL
+  webcalUrl: string; // webcal link, opens the subscribe dialog on Apple devices and Outlook
+  createdAt: Date;
+}
+
+export interface CalendarFeedStatus {
+  active: boolean;
+  createdAt?: Date;
+  lastAccessedAt?: Date;
+}
+
+export class TripCalendarService {
+  private tripRepository: SavedTripRepository;
+  private feedRepository: CalendarFeedRepository;
+
+  constructor() {
+    this.tripRepository = new SavedTripRepository();
+    this.feedRepository = new CalendarFeedRepository();
+  }
+
+  // ============================================================================
+  // TRIP EXPORT
+  // ============================================================================
+
+  /**
+   * iCalendar file for one of the user's trips
+   */
+  async getTripCalendar(userId: string, tripId: string): Promise<string> {
+    if (!mongoose.Types.ObjectId.isValid(tripId)) {
+      throw new AppError('Trip not found', 404);
+    }
+    const trip = await this.tripRepository.findByIdAndUser(tripId, userId);
+    if (!trip) {
+      throw new AppError('Trip not found', 404);
+    }
+
+    return this.render({ name: trip.title }, [trip]);
+  }
+
+  // ============================================================================
+  // SUBSCRIPTION FEED
+  // ============================================================================
+
+  /**
+   * Issue the user's subscription link. Issuing again replaces the link, so a
+   * leaked one can be turned off; calendars subscribed to it stop updating.
+   */
+  async createFeed(userId: string): Promise<CalendarFeedInfo> {
+    const token = crypto.randomBytes(32).toString('hex');
+    const feed = await this.feedRepository.upsertToken(userId, this.hash(token));
+
+    const url = this.getFeedUrl(token);
+    return {
+      url,
+      webcalUrl: url.replace(/^https?:/, 'webcal:'),
+      createdAt: feed.createdAt,
+    };
+  }
+
+  /**
+   * Whether the user has a subscription link. The link itself can't be shown
+   * again; only its hash is kept.
+   */
+  async getFeedStatus(userId: string): Promise<CalendarFeedStatus> {
+    const feed = await this.feedRepository.findByUserId(userId);
+    if (!feed) {
+      return { active: false };
+    }
+    return { active: true, createdAt: feed.createdAt, lastAccessedAt: feed.lastAccessedAt };
+  }
+
+  /**
+   * Turn the user's subscription link off
+   */
+  async revokeFeed(userId: string): Promise<void> {
+    const feed = await this.feedRepository.deleteByUserId(userId);
+    if (!feed) {
+      throw new AppError('Calendar feed not found', 404);
+    }
+  }
+
+  /**
+   * iCalendar feed of all the user's trips, found by the token in the link
+   */
+  async getFeedCalendar(token: string): Promise<string> {
+    const feed = await this.feedRepository.findByTokenHash(this.hash(token));
+    if (!feed) {
+      throw new AppError('Calendar feed not found', 404);
+    }
+
+    const userId = String(feed.userId);
+    const [trips] = await Promise.all([
+      this.tripRepository.findForCalendar(userId),
+      this.feedRepository.touch(String(feed._id)),
+    ]);
+
+    return this.render(
+      {
+        name: 'Travion trips',
+        description: 'Itineraries of your saved Travion trips',
+        refreshIntervalMinutes: FEED_REFRESH_MINUTES,
+      },
+      trips
+    );
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  private render(
+    options: Pick<CalendarOptions, 'name' | 'description' | 'refreshIntervalMinutes'>,
+    trips: ISavedTrip[]
+  ): string {
+    const events = trips.flatMap((trip) =>
+      trip.itinerary.map((item, index) => this.toEvent(trip, item, index))
+    );
+    return buildCalendar({ ...options, productId: PRODUCT_ID, timezone: TRIP_TIMEZONE }, events);
+  }
+
+  /**
+   * One itinerary item as an event. UIDs follow the item's position, so after
+   * a reorder or delta plan a refresh updates events in place.
+   */
+  private toEvent(trip: ISavedTrip, item: IItineraryItem, index: number): CalendarEvent {
+    const date = item.date ?? dateForTripDay(trip.startDate, item.dayNumber);
+
+    const details = [
+      item.notes,
+      `Day ${item.dayNumber} of ${trip.title}`,
+      item.crowdPrediction !== undefined
+        ? `Expected crowd: ${Math.round(item.crowdPrediction)}%`
+        : undefined,
+      item.lightingQuality ? `Light: ${item.lightingQuality}` : undefined,
+      item.constraints?.length ? `Constraints: ${item.constraints.join('; ')}` : undefined,
+    ];
+
+    return {
+      uid: `${String(trip._id)}-${index}@${UID_DOMAIN}`,
+      date: date.toISOString().slice(0, 10),
+      time: item.time,
+      durationMinutes: item.durationMinutes,
+      summary: item.activity,
+      location: item.locationName,
+      latitude: item.latitude,
+      longitude: item.longitude,
+      description: details.filter(Boolean).join('\n'),
+      lastModified: trip.updatedAt,
+      // Grows with every edit, so imported copies are replaced rather than duplicated
+      sequence: Math.max(
+        0,
+        Math.floor((trip.updatedAt.getTime() - trip.createdAt.getTime()) / 1000)
+      ),
+    };
+  }
+
+  private getFeedUrl(token: string): string {
+    return `${config.publicApiUrl.replace(/\/+$/, '')}/api/${config.apiVersion}/trips/calendar/feed/${token}.ics`;
+  }
+
+  private hash(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
+
+export default TripCalendarService;
@@ -0,0 +1,553 @@
+/**
+ * Trip Export Service
+ * Offline copies of a saved trip for travellers heading out of coverage:
+ * a printable PDF itinerary (day-by-day schedule, locations, transport legs,
+ * cultural tips and emergency numbers) and GPX/KML files of the stops for
+ * offline map apps. Everything is rendered here from the trip and Location
+ * data; no external rendering service is involved.
+ */
+
+import mongoose from 'mongoose';
+import { SavedTripRepository } from '../repositories/SavedTripRepository';
+import { ISavedTrip, IItineraryItem, dateForTripDay } from '../models/SavedTrip';
+import Location, { ILocation } from '../models/Location';
+import { PdfDocument } from '../utils/pdfDocument';
+import { buildGpx, buildKml, MapStop } from '../utils/mapExport';
+import { TrustedContactRepository } from '../../../safety/domain/repositories/TrustedContactRepository';
+import { ITrustedContact } from '../../../safety/domain/models/TrustedContact';
+import { holidayService, Holiday } from '../../../transport/domain/utils/HolidayService';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+import { logger } from '../../../../shared/config/logger';
+
+export type TripExportFormat = 'pdf' | 'gpx' | 'kml';
+
+export interface TripExport {
+  content: Buffer | string;
+  contentType: string;
+  filename: string;
+}
+
+/**
+ * An itinerary item with its resolved coordinates and Location record
+ */
+interface ExportStop {
+  item: IItineraryItem;
+  date: string; // YYYY-MM-DD
+  latitude?: number;
+  longitude?: number;
+  location?: ILocation;
+}
+
+const CONTENT_TYPES: Record<TripExportFormat, string> = {
+  pdf: 'application/pdf',
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+};
+
+// Travel estimates between stops: roads wind, and average speeds on Sri Lankan roads are low
+const ROAD_DISTANCE_FACTOR = 1.3;
+const AVERAGE_ROAD_SPEED_KMH = 40;
+
+// Location preference score from which a stop counts as a temple, park or trek
+const THEME_THRESHOLD = 0.6;
+
+const EMERGENCY_NUMBERS: [string, string][] = [
+  ['Police emergency', '119'],
+  ['Ambulance (Suwa Seriya, free)', '1990'],
+  ['Fire and rescue', '110'],
+  ['Tourist Police (Colombo)', '+94 11 242 1052'],
+  ['Sri Lanka Tourism hotline', '1912'],
+  ['Accident & Emergency, National Hospital Colombo', '+94 11 269 1111'],
+];
+
+const GENERAL_TIPS = [
+  'Greet people with "Ayubowan" (palms together) and give and receive things with your right hand.',
+  'Ask before photographing people, monks in particular, and never pose with your back to a Buddha statue.',
+  'Public displays of affection are frowned upon outside tourist areas.',
+];
+
+const MUTED: [number, number, number] = [0.4, 0.4, 0.4];
+
+const dateFormat = new Intl.DateTimeFormat('en-GB', {
+  weekday: 'short',
+  day: 'numeric',
+  month: 'short',
+  year: 'numeric',
+  timeZone: 'UTC',
+});
+
+const formatDate = (date: string | Date): string =>
+  dateFormat.format(typeof date === 'string' ? new Date(`${date}T00:00:00Z`) : date);
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const formatClock = (minutes: number): string => {
+  const wrapped = ((minutes % 1440) + 1440) % 1440;
+  return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+};
+
+const formatDuration = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+};
+
+const formatCoordinates = (latitude: number, longitude: number): string =>
+  `${latitude.toFixed(5)}, ${longitude.toFixed(5)}`;
+
+export class TripExportService {
+  private tripRepository: SavedTripRepository;
+  private trustedContactRepository: TrustedContactRepository;
+
+  constructor() {
+    this.tripRepository = new SavedTripRepository();
+    this.trustedContactRepository = new TrustedContactRepository();
+  }
+
+  /**
+   * Export one of the user's trips
+   */
+  async exportTrip(userId: string, tripId: string, format: TripExportFormat): Promise<TripExport> {
+    if (!mongoose.Types.ObjectId.isValid(tripId)) {
+      throw new AppError('Trip not found', 404);
+    }
+    const trip = await this.tripRepository.findByIdAndUser(tripId, userId);
+    if (!trip) {
+      throw new AppError('Trip not found', 404);
+    }
+
+    const stops = await this.resolveStops(trip);
+    const filename = `${this.slugify(trip.title) || 'trip'}.${format}`;
+
+    let content: Buffer | string;
+    if (format === 'pdf') {
+      content = await this.renderPdf(userId, trip, stops);
+    } else {
+      const mapStops = this.toMapStops(stops);
+      if (mapStops.length === 0) {
+        throw new AppError('No itinerary stops with coordinates to export', 422);
+      }
+      const options = { name: trip.title, description: trip.description };
+      content = format === 'gpx' ? buildGpx(options, mapStops) : buildKml(options, mapStops);
+    }
+
+    return { content, contentType: CONTENT_TYPES[format], filename };
+  }
+
+  // ============================================================================
+  // STOPS
+  // ============================================================================
+
+  /**
+   * Itinerary items in day order, with coordinates filled in from the
+   * Location collection (by ID, then by name) where the item has none
+   */
+  private async resolveStops(trip: ISavedTrip): Promise<ExportStop[]> {
+    const ids = trip.itinerary
+      .map((item) => item.locationId)
+      .filter((id): id is string => !!id && mongoose.Types.ObjectId.isValid(id));
+    const names = [...new Set(trip.itinerary.map((item) => item.locationName))];
+
+    const locations = await Location.find({
+      $or: [{ _id: { $in: ids } }, { name: { $in: names } }],
+    }).collation({ locale: 'en', strength: 2 });
+
+    const byId = new Map(locations.map((location) => [String(location._id), location]));
+    const byName = new Map(locations.map((location) => [location.name.toLowerCase(), location]));
+
+    return trip.itinerary
+      .map((item, index) => ({ item, index }))
+      .sort((a, b) => a.item.dayNumber - b.item.dayNumber || a.index - b.index)
+      .map(({ item }) => {
+        const location =
+          (item.locationId && byId.get(item.locationId)) ||
+          byName.get(item.locationName.toLowerCase());
+        const date = item.date ?? dateForTripDay(trip.startDate, item.dayNumber);
+
+        return {
+          item,
+          date: date.toISOString().slice(0, 10),
+          latitude: item.latitude ?? location?.coordinates.latitude,
+          longitude: item.longitude ?? location?.coordinates.longitude,
+          location,
+        };
+      });
+  }
+
+  private toMapStops(stops: ExportStop[]): MapStop[] {
+    return stops
+      .filter((stop) => stop.latitude !== undefined && stop.longitude !== undefined)
+      .map((stop) => ({
+        name: stop.item.locationName,
+        latitude: stop.latitude as number,
+        longitude: stop.longitude as number,
+        dayNumber: stop.item.dayNumber,
+        description: [`${stop.item.time} ${stop.item.activity}`, stop.item.notes]
+          .filter(Boolean)
+          .join('\n'),
+        // Itinerary times are Sri Lanka time
+        time: new Date(`${stop.date}T${formatClock(toMinutes(stop.item.time))}:00+05:30`),
+      }));
+  }
+
+  /**
+   * Straight-line distance and estimated road time between two stops
+   */
+  private estimateLeg(from: ExportStop, to: ExportStop): { km: number; minutes: number } | null {
+    if (
+      from.latitude === undefined ||
+      from.longitude === undefined ||
+      to.latitude === undefined ||
+      to.longitude === undefined
+    ) {
+      return null;
+    }
+
+    const km =
+      this.calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude) *
+      ROAD_DISTANCE_FACTOR;
+    return { km, minutes: (km / AVERAGE_ROAD_SPEED_KMH) * 60 };
+  }
+
+  // ============================================================================
+  // PDF
+  // ============================================================================
+
+  private async renderPdf(userId: string, trip: ISavedTrip, stops: ExportStop[]): Promise<Buffer> {
+    const [holidays, contacts] = await Promise.all([
+      this.getHolidays(trip),
+      this.trustedContactRepository.findByUserId(userId),
+    ]);
+
+    const pdf = new PdfDocument({
+      title: trip.title,
+      author: 'Travion',
+      subject: 'Trip itinerary',
+    });
+
+    this.writeOverview(pdf, trip);
+    this.writeSchedule(pdf, trip, stops, holidays);
+    this.writeLocations(pdf, stops);
+    this.writeTips(pdf, stops, holidays);
+    this.writeEmergencyNumbers(pdf, contacts);
+
+    return pdf.toBuffer((page, pageCount) => `${trip.title}  ·  Page ${page} of ${pageCount}`);
+  }
+
+  private writeOverview(pdf: PdfDocument, trip: ISavedTrip): void {
+    pdf.text(trip.title, { font: 'bold', size: 22, spaceAfter: 4 });
+
+    const facts = [
+      `${formatDate(trip.startDate)} – ${formatDate(trip.endDate)}`,
+      `${trip.totalDays} ${trip.totalDays === 1 ? 'day' : 'days'}`,
+      `${trip.travelersCount} ${trip.travelersCount === 1 ? 'traveller' : 'travellers'}`,
+    ];
+    pdf.text(facts.join('  ·  '), { size: 11, color: MUTED });
+    if (trip.destinations.length > 0) {
+      pdf.text(`Destinations: ${trip.destinations.join(', ')}`, { size: 11, color: MUTED });
+    }
+    if (trip.description) {
+      pdf.moveDown(6).text(trip.description, { size: 10.5 });
+    }
+    pdf.text(`Printed ${formatDate(new Date())}. Times are Sri Lanka time.`, {
+      size: 8.5,
+      color: MUTED,
+    });
+    pdf.rule();
+  }
+
+  /**
+   * Day-by-day schedule, with where the day starts from, stays, meals and the
+   * legs between stops
+   */
+  private writeSchedule(
+    pdf: PdfDocument,
+    trip: ISavedTrip,
+    stops: ExportStop[],
+    holidays: Map<string, Holiday>
+  ): void {
+    pdf.heading('Day-by-day schedule');
+    if (stops.length === 0) {
+      pdf.text('No itinerary items yet.', { color: MUTED });
+      return;
+    }
+
+    const lastDay = Math.max(trip.totalDays, ...stops.map((stop) => stop.item.dayNumber));
+    let previous: ExportStop | undefined;
+    for (let day = 1; day <= lastDay; day++) {
+      const dayStops = stops.filter((stop) => stop.item.dayNumber === day);
+      const stays = trip.accommodations.filter((stay) => stay.checkInDay === day);
+      const meals = trip.restaurants.filter((meal) => meal.dayNumber === day);
+      if (dayStops.length === 0 && stays.length === 0 && meals.length === 0) {
+        continue;
+      }
+
+      const date = dateForTripDay(trip.startDate, day).toISOString().slice(0, 10);
+      const holiday = holidays.get(date);
+      pdf.heading(`Day ${day}  ·  ${formatDate(date)}${holiday ? `  ·  ${holiday.name}` : ''}`, 2);
+
+      // Transfer from where the previous day ended
+      const transfer = previous && dayStops[0] ? this.estimateLeg(previous, dayStops[0]) : null;
+      if (previous && transfer && transfer.km >= 1) {
+        pdf.text(
+          `Starting from ${previous.item.locationName}: about ${Math.round(transfer.km)} km, ` +
+            `${formatDuration(transfer.minutes)} by road to ${dayStops[0].item.locationName}`,
+          { size: 9, color: MUTED, spaceAfter: 4 }
+        );
+      }
+
+      dayStops.forEach((stop, index) => {
+        this.writeStop(pdf, stop);
+        const next = dayStops[index + 1];
+        if (next) {
+          this.writeLeg(pdf, stop, next);
+        }
+      });
+
+      for (const meal of meals) {
+        const where = meal.nearLocation ? ` (near ${meal.nearLocation})` : '';
+        pdf.text(`${this.capitalize(meal.mealSlot)}: ${meal.name}${where}`, { size: 9.5 });
+      }
+      for (const stay of stays) {
+        const where = stay.nearLocation ? ` (near ${stay.nearLocation})` : '';
+        pdf.text(`Overnight: ${stay.name}${where}`, { size: 9.5 });
+      }
+
+      previous = dayStops[dayStops.length - 1] ?? previous;
+      pdf.moveDown(4);
+    }
+  }
+
+  private writeStop(pdf: PdfDocument, stop: ExportStop): void {
+    const { item } = stop;
+    const start = toMinutes(item.time);
+    const indent = 74;
+
+    pdf.ensureSpace(40);
+    pdf.labelled(
+      `${formatClock(start)}–${formatClock(start + item.durationMinutes)}`,
+      item.activity,
+      indent,
+      { font: 'bold', size: 10 }
+    );
+
+    const place =
+      stop.latitude !== undefined && stop.longitude !== undefined
+        ? `${item.locationName}  (${formatCoordinates(stop.latitude, stop.longitude)})`
+        : item.locationName;
+    pdf.text(place, { size: 9, indent, color: MUTED });
+
+    if (item.notes) {
+      pdf.text(item.notes, { size: 9, indent });
+    }
+
+    const conditions = [
+      item.crowdPrediction !== undefined
+        ? `Expected crowd ${Math.round(item.crowdPrediction)}%`
+        : undefined,
+      item.lightingQuality ? `Light: ${item.lightingQuality}` : undefined,
+    ].filter(Boolean);
+    if (conditions.length > 0) {
+      pdf.text(conditions.join('  ·  '), { size: 8.5, indent, color: MUTED });
+    }
+    for (const constraint of item.constraints ?? []) {
+      pdf.text(`Note: ${constraint}`, { size: 8.5, indent });
+    }
+    pdf.moveDown(4);
+  }
+
+  private writeLeg(pdf: PdfDocument, from: ExportStop, to: ExportStop): void {
+    const leg = this.estimateLeg(from, to);
+    if (!leg || leg.km < 0.5) {
+      return;
+    }
+
+    const gap = toMinutes(to.item.time) - (toMinutes(from.item.time) + from.item.durationMinutes);
+    const tight = gap >= 0 && leg.minutes > gap ? ` (only ${formatDuration(gap)} planned)` : '';
+    pdf.text(`»  ${Math.round(leg.km)} km, about ${formatDuration(leg.minutes)} by road${tight}`, {
+      size: 8.5,
+      indent: 74,
+      color: MUTED,
+      spaceAfter: 4,
+    });
+  }
+
+  /**
+   * Each place once, in the order it is first visited
+   */
+  private writeLocations(pdf: PdfDocument, stops: ExportStop[]): void {
+    const places = new Map<string, { stop: ExportStop; days: Set<number> }>();
+    for (const stop of stops) {
+      const key = stop.item.locationName.toLowerCase();
+      const entry = places.get(key) ?? { stop, days: new Set<number>() };
+      entry.days.add(stop.item.dayNumber);
+      places.set(key, entry);
+    }
+    if (places.size === 0) {
+      return;
+    }
+
+    pdf.heading('Locations');
+    for (const { stop, days } of places.values()) {
+      const dayList = [...days].sort((a, b) => a - b).join(', ');
+      pdf.text(`${stop.item.locationName}  ·  Day ${dayList}`, { font: 'bold', size: 10 });
+
+      const details = [
+        stop.latitude !== undefined && stop.longitude !== undefined
+          ? formatCoordinates(stop.latitude, stop.longitude)
+          : 'No coordinates saved',
+        stop.location ? (stop.location.isOutdoor ? 'Outdoors' : 'Indoors') : undefined,
+        stop.location ? this.themesOf(stop.location).join(', ') || undefined : undefined,
+      ].filter(Boolean);
+      pdf.text(details.join('  ·  '), { size: 9, color: MUTED, spaceAfter: 4 });
+    }
+  }
+
+  private writeTips(pdf: PdfDocument, stops: ExportStop[], holidays: Map<string, Holiday>): void {
+    const placesWith = (theme: keyof ILocation['preferenceScores']): string[] => [
+      ...new Set(
+        stops
+          .filter((stop) => (stop.location?.preferenceScores[theme] ?? 0) >= THEME_THRESHOLD)
+          .map((stop) => stop.item.locationName)
+      ),
+    ];
+
+    const tips = [...GENERAL_TIPS];
+
+    const temples = placesWith('history');
+    if (temples.length > 0) {
+      tips.push(
+        `At temples and heritage sites (${temples.join(', ')}): cover shoulders and knees, ` +
+          'take off shoes and hats before entering, and bring socks for hot stone floors.'
+      );
+    }
+    const parks = placesWith('nature');
+    if (parks.length > 0) {
+      tips.push(
+        `In parks and reserves (${parks.join(', ')}): stay in your vehicle or with your guide, ` +
+          'keep quiet and never feed wildlife. Leech socks help in wet forests.'
+      );
+    }
+    const treks = placesWith('adventure');
+    if (treks.length > 0) {
+      tips.push(
+        `For hikes and adventure stops (${treks.join(', ')}): start early to beat the heat and ` +
+          'afternoon rain, and tell your hotel your route, as there may be no phone signal.'
+      );
+    }
+
+    for (const [date, holiday] of holidays) {
+      tips.push(
+        holiday.poya
+          ? `${formatDate(date)} is ${holiday.name}: alcohol and meat are not sold, many shops ` +
+              'and bars close, and temples are busy with pilgrims dressed in white.'
+          : `${formatDate(date)} is ${holiday.name}: expect crowds and busy buses and trains.`
+      );
+    }
+
+    pdf.heading('Cultural tips');
+    for (const tip of tips) {
+      pdf.text(`•  ${tip}`, { size: 9.5, spaceAfter: 3 });
+    }
+  }
+
+  private writeEmergencyNumbers(pdf: PdfDocument, contacts: ITrustedContact[]): void {
+    pdf.heading('Emergency numbers');
+    for (const [service, number] of EMERGENCY_NUMBERS) {
+      pdf.labelled(number, service, 110, { size: 10 });
+    }
+
+    const reachable = contacts.filter((contact) => contact.phoneNumber || contact.email);
+    if (reachable.length > 0) {
+      pdf.heading('Your trusted contacts', 3);
+      for (const contact of reachable) {
+        const name = contact.relationship
+          ? `${contact.name} (${contact.relationship})`
+          : contact.name;
+        const ways = [contact.phoneNumber, contact.email].filter(Boolean).join('  ·  ');
+        pdf.text(`${name}:  ${ways}`, { size: 10 });
+      }
+    }
+
+    pdf
+      .moveDown(6)
+      .text(
+        'When you have signal, SOS mode in the Travion app shares your live location with your trusted contacts.',
+        { size: 8.5, color: MUTED }
+      );
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  /**
+   * Public holidays (Poya days included) falling on the trip, by date.
+   * Tips are a nicety, so the PDF goes out without them if holidays can't load.
+   */
+  private async getHolidays(trip: ISavedTrip): Promise<Map<string, Holiday>> {
+    const holidays = new Map<string, Holiday>();
+    const start = trip.startDate.toISOString().slice(0, 10);
+    const end = trip.endDate.toISOString().slice(0, 10);
+
+    try {
+      for (let year = Number(start.slice(0, 4)); year <= Number(end.slice(0, 4)); year++) {
+        for (const holiday of await holidayService.getYearHolidays(year)) {
+          if (holiday.date >= start && holiday.date <= end && !holidays.has(holiday.date)) {
+            holidays.set(holiday.date, holiday);
+          }
+        }
+      }
+    } catch (error) {
+      logger.warn('Holidays unavailable for trip export', { error: (error as Error).message });
+    }
+    return holidays;
+  }
+
+  private themesOf(location: ILocation): string[] {
+    const labels: Record<keyof ILocation['preferenceScores'], string> = {
+      history: 'History & culture',
+      adventure: 'Adventure',
+      nature: 'Nature & wildlife',
+      relaxation: 'Relaxation',
+    };
+    return (Object.keys(labels) as (keyof ILocation['preferenceScores'])[])
+      .filter((theme) => location.preferenceScores[theme] >= THEME_THRESHOLD)
+      .map((theme) => labels[theme]);
+  }
+
+  private capitalize(value: string): string {
+    return value.charAt(0).toUpperCase() + value.slice(1);
+  }
+
+  private slugify(value: string): string {
+    return value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60);
+  }
+
+  /**
+   * Calculate distance between two coordinates using Haversine formula
+   */
+  private calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
+    const R = 6371; // Earth's radius in km
+    const dLat = ((lat2 - lat1) * Math.PI) / 180;
+    const dLng = ((lng2 - lng1) * Math.PI) / 180;
+    const a =
+      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+      Math.cos((lat1 * Math.PI) / 180) *
+        Math.cos((lat2 * Math.PI) / 180) *
+        Math.sin(dLng / 2) *
+        Math.sin(dLng / 2);
+    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+    return R * c;
+  }
+}
+
+export default TripExportService;
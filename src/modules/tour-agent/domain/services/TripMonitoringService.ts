@@ -0,0 +1,399 @@
+/**
+ * Trip Monitoring Service
+ * User-facing side of the Active Guardian: starts monitoring on accepted trips,
+ * exposes alerts and history, and records the user's responses to alerts and delta plans.
+ * The background checks themselves run in the ShadowWatcher worker.
+ */
+
+import mongoose from 'mongoose';
+import { TripPlanRepository } from '../repositories/TripPlanRepository';
+import { SavedTripRepository } from '../repositories/SavedTripRepository';
+import {
+  ITripPlan,
+  IActiveAlert,
+  IDeltaPlan,
+  IMonitoringCheck,
+  INotificationRecord,
+  AlertSeverity,
+  MonitoringStatus,
+} from '../models/TripPlan';
+import { IItineraryItem, dateForTripDay } from '../models/SavedTrip';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+import { logger } from '../../../../shared/config/logger';
+
+export interface StartMonitoringOptions {
+  monitoringIntervalHours?: number;
+  notificationPreferences?: Partial<ITripPlan['notificationPreferences']>;
+}
+
+export type AlertResponse = NonNullable<IActiveAlert['userResponse']>;
+
+const ENDED_STATUSES = [MonitoringStatus.COMPLETED, MonitoringStatus.CANCELLED];
+
+export class TripMonitoringService {
+  private tripPlanRepository: TripPlanRepository;
+  private savedTripRepository: SavedTripRepository;
+
+  constructor() {
+    this.tripPlanRepository = new TripPlanRepository();
+    this.savedTripRepository = new SavedTripRepository();
+  }
+
+  // ============================================================================
+  // MONITORING LIFECYCLE
+  // ============================================================================
+
+  /**
+   * Start monitoring an accepted (saved) trip.
+   * Re-starting a trip that is already monitored returns the existing plan.
+   */
+  async startMonitoring(
+    userId: string,
+    savedTripId: string,
+    options: StartMonitoringOptions = {}
+  ): Promise<ITripPlan> {
+    this.assertValidId(savedTripId, 'Trip not found');
+
+    const savedTrip = await this.savedTripRepository.findByIdAndUser(savedTripId, userId);
+    if (!savedTrip) {
+      throw new AppError('Trip not found', 404);
+    }
+    if (savedTrip.status === 'draft' || savedTrip.status === 'cancelled') {
+      throw new AppError('Only accepted trips can be monitored', 400);
+    }
+    if (savedTrip.endDate.getTime() < Date.now() - 24 * 60 * 60 * 1000) {
+      throw new AppError('Trip has already ended', 400);
+    }
+
+    const existing = await this.tripPlanRepository.findBySavedTrip(savedTripId, userId);
+    if (existing && !ENDED_STATUSES.includes(existing.monitoringStatus)) {
+      return existing;
+    }
+
+    const source = savedTrip.toObject();
+    const plan = existing
+      ? existing
+      : await this.tripPlanRepository.create({
+          userId: source.userId,
+          savedTripId: source._id as mongoose.Types.ObjectId,
+          title: source.title,
+          description: source.description,
+          startDate: source.startDate,
+          endDate: source.endDate,
+          destinations: source.destinations,
+          itinerary: source.itinerary,
+          status: source.status,
+          tags: source.tags,
+          travelersCount: source.travelersCount,
+          generatedBy: source.generatedBy,
+          aiMetadata: source.aiMetadata,
+          constraints: source.constraints,
+        });
+
+    if (options.monitoringIntervalHours) {
+      plan.monitoringInterval = options.monitoringIntervalHours * 60 * 60 * 1000;
+    }
+    if (options.notificationPreferences) {
+      plan.notificationPreferences = {
+        ...plan.notificationPreferences,
+        ...options.notificationPreferences,
+      };
+    }
+
+    plan.startMonitoring();
+    // Run the first check on the watcher's next cycle rather than after a full interval
+    plan.nextScheduledCheck = new Date();
+
+    const saved = await this.tripPlanRepository.save(plan);
+    logger.info(`Monitoring started for trip ${savedTripId} (plan ${saved._id})`);
+    return saved;
+  }
+
+  /**
+   * Pause monitoring; the watcher skips paused plans
+   */
+  async pauseMonitoring(userId: string, planId: string): Promise<ITripPlan> {
+    const plan = await this.getMonitoredTrip(userId, planId);
+    if (ENDED_STATUSES.includes(plan.monitoringStatus)) {
+      throw new AppError(`Monitoring has already ended (${plan.monitoringStatus})`, 409);
+    }
+    if (plan.monitoringStatus === MonitoringStatus.PAUSED) {
+      return plan;
+    }
+
+    plan.stopMonitoring('paused');
+    return await this.tripPlanRepository.save(plan);
+  }
+
+  /**
+   * Resume a paused plan
+   */
+  async resumeMonitoring(userId: string, planId: string): Promise<ITripPlan> {
+    const plan = await this.getMonitoredTrip(userId, planId);
+    if (plan.monitoringStatus !== MonitoringStatus.PAUSED) {
+      throw new AppError('Only paused monitoring can be resumed', 409);
+    }
+
+    plan.startMonitoring();
+    plan.monitoringEndedAt = undefined;
+    plan.nextScheduledCheck = new Date();
+    return await this.tripPlanRepository.save(plan);
+  }
+
+  // ============================================================================
+  // QUERIES
+  // ============================================================================
+
+  async getMonitoredTrips(userId: string, status?: MonitoringStatus): Promise<ITripPlan[]> {
+    return this.tripPlanRepository.findByUser(userId, status);
+  }
+
+  async getMonitoredTrip(userId: string, planId: string): Promise<ITripPlan> {
+    this.assertValidId(planId, 'Monitored trip not found');
+
+    const plan = await this.tripPlanRepository.findByIdAndUser(planId, userId);
+    if (!plan) {
+      throw new AppError('Monitored trip not found', 404);
+    }
+    return plan;
+  }
+
+  async getAlerts(
+    userId: string,
+    planId: string
+  ): Promise<{ activeAlerts: IActiveAlert[]; alertHistory: IActiveAlert[] }> {
+    const plan = await this.getMonitoredTrip(userId, planId);
+    return {
+      activeAlerts: plan.activeAlerts,
+      alertHistory: plan.alertHistory,
+    };
+  }
+
+  async getHistory(
+    userId: string,
+    planId: string
+  ): Promise<{
+    monitoringStatus: MonitoringStatus;
+    lastMonitoringCheck?: Date;
+    nextScheduledCheck?: Date;
+    monitoringHistory: IMonitoringCheck[];
+    notifications: INotificationRecord[];
+    deltaPlans: IDeltaPlan[];
+  }> {
+    const plan = await this.getMonitoredTrip(userId, planId);
+    return {
+      monitoringStatus: plan.monitoringStatus,
+      lastMonitoringCheck: plan.lastMonitoringCheck,
+      nextScheduledCheck: plan.nextScheduledCheck,
+      monitoringHistory: [...plan.monitoringHistory].reverse(),
+      notifications: [...plan.notifications].reverse(),
+      deltaPlans: plan.deltaPlans,
+    };
+  }
+
+  // ============================================================================
+  // USER RESPONSES
+  // ============================================================================
+
+  /**
+   * Acknowledge an alert and move it to the alert history.
+   * 'cancel' also cancels monitoring of the trip.
+   */
+  async acknowledgeAlert(
+    userId: string,
+    planId: string,
+    alertId: string,
+    userResponse: AlertResponse
+  ): Promise<ITripPlan> {
+    const plan = await this.getMonitoredTrip(userId, planId);
+
+    const index = plan.activeAlerts.findIndex((a) => a.alertId === alertId);
+    if (index === -1) {
+      throw new AppError('Alert not found or already acknowledged', 404);
+    }
+
+    const alert: IActiveAlert = {
+      ...plan.toObject().activeAlerts[index],
+      isAcknowledged: true,
+      acknowledgedAt: new Date(),
+      userResponse,
+    };
+    plan.activeAlerts.splice(index, 1);
+    plan.alertHistory.push(alert);
+
+    if (userResponse === 'cancel') {
+      plan.stopMonitoring('cancelled');
+      plan.status = 'cancelled';
+    } else {
+      this.refreshStatus(plan);
+    }
+
+    logger.info(`Alert ${alertId} on plan ${planId} acknowledged with ${userResponse}`);
+    return await this.tripPlanRepository.save(plan);
+  }
+
+  /**
+   * Accept or reject a delta plan. Accepting applies it to the itinerary
+   * of both the monitored plan and the saved trip.
+   */
+  async respondToDeltaPlan(
+    userId: string,
+    planId: string,
+    deltaId: string,
+    accept: boolean
+  ): Promise<ITripPlan> {
+    const plan = await this.getMonitoredTrip(userId, planId);
+
+    const delta = plan.deltaPlans.find((d) => d.deltaId === deltaId);
+    if (!delta) {
+      throw new AppError('Delta plan not found', 404);
+    }
+    if (delta.userAccepted !== undefined) {
+      throw new AppError('Delta plan has already been answered', 409);
+    }
+    if (ENDED_STATUSES.includes(plan.monitoringStatus)) {
+      throw new AppError(`Monitoring has already ended (${plan.monitoringStatus})`, 409);
+    }
+
+    delta.userAccepted = accept;
+    delta.acceptedAt = new Date();
+
+    if (accept) {
+      plan.itinerary = this.applyDeltaPlan(plan.toObject().itinerary, delta).map((item) => ({
+        ...item,
+        date: dateForTripDay(plan.startDate, item.dayNumber),
+      }));
+
+      if (plan.savedTripId) {
+        await this.savedTripRepository.update(String(plan.savedTripId), userId, {
+          itinerary: plan.itinerary,
+        });
+      }
+    }
+
+    if (plan.currentDeltaPlanId === deltaId) {
+      plan.currentDeltaPlanId = undefined;
+    }
+    this.refreshStatus(plan);
+
+    logger.info(`Delta plan ${deltaId} on plan ${planId} ${accept ? 'accepted' : 'rejected'}`);
+    return await this.tripPlanRepository.save(plan);
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  /**
+   * Replace the items a delta plan targets with its suggestions.
+   * Original items are matched by order, falling back to location name and time.
+   */
+  private applyDeltaPlan(itinerary: IItineraryItem[], delta: IDeltaPlan): IItineraryItem[] {
+    const suggested = delta.suggestedItems
+      .map((item) => this.toItineraryItem(item))
+      .filter((item): item is IItineraryItem => item !== null);
+
+    if (suggested.length === 0) {
+      throw new AppError('Delta plan has no usable itinerary suggestions', 422);
+    }
+
+    const removeIndexes = new Set<number>();
+    for (const original of delta.originalItems) {
+      const order = original.order;
+      const locationName = original.locationName ?? original.location_name ?? original.location;
+      const index = itinerary.findIndex(
+        (existing, i) =>
+          !removeIndexes.has(i) &&
+          (typeof order === 'number'
+            ? existing.order === order
+            : existing.locationName === locationName && existing.time === original.time)
+      );
+      if (index !== -1) {
+        removeIndexes.add(index);
+      }
+    }
+
+    // Suggestions take the slot (and day) of the first replaced item, or go to the end
+    const insertAt = removeIndexes.size > 0 ? Math.min(...removeIndexes) : itinerary.length;
+    const fallbackDay = itinerary[Math.min(insertAt, itinerary.length - 1)]?.dayNumber ?? 1;
+    suggested.forEach((item) => {
+      item.dayNumber = item.dayNumber || fallbackDay;
+    });
+    const kept = itinerary.filter((_item, i) => !removeIndexes.has(i));
+    const keptBefore = itinerary.slice(0, insertAt).filter((_item, i) => !removeIndexes.has(i));
+
+    const merged = [...keptBefore, ...suggested, ...kept.slice(keptBefore.length)];
+
+    return merged.map((item, order) => ({ ...item, order }));
+  }
+
+  /**
+   * Normalise an AI Engine itinerary item (snake_case or camelCase) into an IItineraryItem.
+   * The order (and the day, when the suggestion has none) is assigned when the item is
+   * merged into the itinerary.
+   */
+  private toItineraryItem(raw: Record<string, unknown>): IItineraryItem | null {
+    const pick = (...keys: string[]): unknown => keys.map((k) => raw[k]).find((v) => v != null);
+
+    const locationName = pick('locationName', 'location_name', 'location');
+    const time = pick('time');
+    const activity = pick('activity');
+
+    if (
+      typeof locationName !== 'string' ||
+      typeof time !== 'string' ||
+      typeof activity !== 'string'
+    ) {
+      return null;
+    }
+
+    return {
+      order: 0,
+      dayNumber: Number(pick('dayNumber', 'day_number', 'day')) || 0,
+      time,
+      locationName,
+      locationId: pick('locationId', 'location_id') as string | undefined,
+      latitude: pick('latitude', 'lat') as number | undefined,
+      longitude: pick('longitude', 'lng') as number | undefined,
+      activity,
+      durationMinutes: Number(pick('durationMinutes', 'duration_minutes')) || 60,
+      notes: pick('notes') as string | undefined,
+      crowdPrediction: pick('crowdPrediction', 'crowd_prediction') as number | undefined,
+      lightingQuality: pick('lightingQuality', 'lighting_quality') as
+        | IItineraryItem['lightingQuality']
+        | undefined,
+    };
+  }
+
+  /**
+   * Return to active monitoring once nothing is waiting on the user
+   */
+  private refreshStatus(plan: ITripPlan): void {
+    if (ENDED_STATUSES.includes(plan.monitoringStatus)) {
+      return;
+    }
+    if (plan.monitoringStatus === MonitoringStatus.PAUSED) {
+      return;
+    }
+
+    const hasPendingDelta = plan.deltaPlans.some((d) => d.userAccepted === undefined);
+    const hasSeriousAlert = plan.activeAlerts.some(
+      (a) => a.severity === AlertSeverity.HIGH || a.severity === AlertSeverity.CRITICAL
+    );
+
+    if (hasPendingDelta) {
+      plan.monitoringStatus = MonitoringStatus.DELTA_PLAN_GENERATED;
+    } else if (hasSeriousAlert) {
+      plan.monitoringStatus = MonitoringStatus.ALERT_DETECTED;
+    } else {
+      plan.monitoringStatus = MonitoringStatus.ACTIVE_MONITORING;
+      plan.nextScheduledCheck = plan.nextScheduledCheck || new Date();
+    }
+  }
+
+  private assertValidId(id: string, notFoundMessage: string): void {
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      throw new AppError(notFoundMessage, 404);
+    }
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Trip Notification Service
+ * Delivers ShadowWatcher notifications over the user's enabled channels
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { AlertSeverity, INotificationRecord, ITripPlan } from '../models/TripPlan';
+import { User } from '../../../auth/domain/models/User';
+import {
+  NotificationChannel,
+  NotificationDispatcher,
+  NotificationRecipient,
+  createNotificationDispatcher,
+} from '../../../../shared/libraries/notifications';
+import { pushNotificationService } from '../../../safety/domain/services/PushNotificationService';
+import { logger } from '../../../../shared/config/logger';
+
+export interface TripNotification {
+  type: INotificationRecord['type'];
+  title: string;
+  message: string;
+  severity: AlertSeverity;
+  relatedAlertId?: string;
+  relatedDeltaId?: string;
+}
+
+const SEVERITY_ORDER = [
+  AlertSeverity.INFO,
+  AlertSeverity.LOW,
+  AlertSeverity.MEDIUM,
+  AlertSeverity.HIGH,
+  AlertSeverity.CRITICAL,
+];
+
+export class TripNotificationService {
+  private dispatcher: NotificationDispatcher;
+
+  constructor(dispatcher?: NotificationDispatcher) {
+    this.dispatcher = dispatcher ?? createNotificationDispatcher(pushNotificationService);
+  }
+
+  /**
+   * Whether a severity reaches the user's alert threshold
+   */
+  static meetsThreshold(severity: AlertSeverity, threshold: AlertSeverity): boolean {
+    return SEVERITY_ORDER.indexOf(severity) >= SEVERITY_ORDER.indexOf(threshold);
+  }
+
+  /**
+   * Send a notification for a trip and record per-channel delivery status on it.
+   * Returns null when nothing was sent because of the user's preferences.
+   * The caller is responsible for saving the trip.
+   */
+  async notify(
+    trip: ITripPlan,
+    notification: TripNotification
+  ): Promise<INotificationRecord | null> {
+    const prefs = trip.notificationPreferences;
+
+    if (!TripNotificationService.meetsThreshold(notification.severity, prefs.alertThreshold)) {
+      return null;
+    }
+
+    const channels: NotificationChannel[] = [];
+    if (prefs.enablePush) channels.push('push');
+    if (prefs.enableEmail) channels.push('email');
+    if (prefs.enableSms) channels.push('sms');
+
+    if (channels.length === 0) {
+      return null;
+    }
+
+    const notificationId = uuidv4();
+    const recipient = await this.getRecipient(trip);
+    const deliveries = await this.dispatcher.dispatch(
+      recipient,
+      {
+        title: notification.title,
+        body: notification.message,
+        data: {
+          type: 'trip_alert',
+          screen: 'MonitoredTrip',
+          tripPlanId: String(trip._id),
+          notificationId,
+          ...(notification.relatedAlertId && { alertId: notification.relatedAlertId }),
+          ...(notification.relatedDeltaId && { deltaId: notification.relatedDeltaId }),
+        },
+      },
+      channels
+    );
+
+    const record: INotificationRecord = {
+      notificationId,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      sentAt: new Date(),
+      sentVia: deliveries.filter((d) => d.status === 'sent').map((d) => d.channel),
+      deliveries,
+      relatedAlertId: notification.relatedAlertId,
+      relatedDeltaId: notification.relatedDeltaId,
+    };
+
+    trip.notifications.push(record);
+
+    logger.info('Trip notification dispatched', {
+      tripId: String(trip._id),
+      type: record.type,
+      deliveries: deliveries.map((d) => `${d.channel}:${d.status}`),
+    });
+
+    return record;
+  }
+
+  private async getRecipient(trip: ITripPlan): Promise<NotificationRecipient> {
+    const user = await User.findById(trip.userId).select('email phoneNumber').lean();
+    return {
+      userId: String(trip.userId),
+      email: user?.email,
+      phoneNumber: user?.phoneNumber,
+    };
+  }
+}
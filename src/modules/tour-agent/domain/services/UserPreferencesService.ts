@@ -3,138 +3,216 @@
  * Manages user travel and location preferences
  */
 
+import { UserPreferencesRepository } from '../repositories/UserPreferencesRepository';
+import {
+  IUserPreferences,
+  IPreferenceScores,
+  ITravelStylePreferences,
+  ISavedLocation,
+  ISearchHistoryEntry,
+  INotificationPreferences,
+} from '../../../auth/domain/models/UserPreferences';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+
+const MAX_SAVED_LOCATIONS = 100;
+
+const SCORE_KEYS: (keyof IPreferenceScores)[] = ['history', 'adventure', 'nature', 'relaxation'];
+
+const TRAVEL_STYLE_VALUES: Partial<Record<keyof ITravelStylePreferences, readonly string[]>> = {
+  pacePreference: ['slow', 'moderate', 'fast'],
+  budgetRange: ['budget', 'mid-range', 'luxury'],
+  groupSize: ['solo', 'couple', 'small-group', 'large-group'],
+  accommodationType: ['hotel', 'hostel', 'resort', 'homestay', 'any'],
+};
+
+const NOTIFICATION_KEYS: (keyof INotificationPreferences)[] = [
+  'goldenHourAlerts',
+  'crowdAlerts',
+  'eventAlerts',
+  'poyaDayReminders',
+  'highUVAlerts',
+];
+
+export type NotificationPreferencesUpdate = Partial<INotificationPreferences>;
+
+export type SaveLocationData = Omit<ISavedLocation, 'savedAt'>;
+
+export type SearchHistoryData = Omit<ISearchHistoryEntry, 'timestamp'>;
+
+export interface HomeLocationData {
+  latitude: number;
+  longitude: number;
+  city?: string;
+  country?: string;
+}
+
+export interface CategoriesUpdate {
+  favoriteCategories?: string[];
+  avoidCategories?: string[];
+}
+
+export interface PreferencesUpdate extends CategoriesUpdate {
+  preferenceScores?: Partial<IPreferenceScores>;
+  travelStyle?: Partial<ITravelStylePreferences>;
+  homeLocation?: HomeLocationData;
+  notificationPreferences?: NotificationPreferencesUpdate;
+}
+
 export class UserPreferencesService {
-  constructor() {}
+  private preferencesRepository: UserPreferencesRepository;
+
+  constructor() {
+    this.preferencesRepository = new UserPreferencesRepository();
+  }
 
   // ============================================================================
   // CORE OPERATIONS
   // ============================================================================
 
-  async getPreferences(_userId: string): Promise<any> {
-    // TODO: Implement get user preferences with database
-    return {
-      userId: _userId,
-      preferenceScores: {},
-      travelStyle: {},
-      favoriteCategories: [],
-      savedLocations: [],
-      visitedLocations: [],
-      searchHistory: [],
-      homeLocation: null,
-      notifications: {},
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-  }
-
-  async getUserPreferences(userId: string): Promise<any> {
+  /**
+   * Get preferences, creating the defaults on first access
+   */
+  async getPreferences(userId: string): Promise<IUserPreferences> {
+    return this.preferencesRepository.findOrCreate(userId);
+  }
+
+  async getUserPreferences(userId: string): Promise<IUserPreferences> {
     return this.getPreferences(userId);
   }
 
-  async updatePreferences(_userId: string, preferences: any): Promise<any> {
-    // TODO: Implement update preferences with database
-    return {
-      userId: _userId,
-      ...preferences,
-      updatedAt: new Date(),
-    };
+  /**
+   * Update several preference sections at once.
+   * Each section is validated the same way as its dedicated endpoint, and all
+   * of them are checked before anything is written, so a bad section leaves
+   * the stored preferences untouched.
+   */
+  async updatePreferences(
+    userId: string,
+    preferences: PreferencesUpdate
+  ): Promise<IUserPreferences> {
+    const update: PreferencesUpdate = {};
+
+    if (preferences.preferenceScores) {
+      update.preferenceScores = this.validatePreferenceScores(preferences.preferenceScores);
+    }
+    if (preferences.travelStyle) {
+      update.travelStyle = this.validateTravelStyle(preferences.travelStyle);
+    }
+    if (preferences.favoriteCategories || preferences.avoidCategories) {
+      const { favoriteCategories, avoidCategories } = this.validateCategories(preferences);
+      update.favoriteCategories = favoriteCategories;
+      update.avoidCategories = avoidCategories;
+    }
+    if (preferences.homeLocation) {
+      update.homeLocation = this.validateHomeLocation(preferences.homeLocation);
+    }
+    if (preferences.notificationPreferences) {
+      update.notificationPreferences = this.validateNotificationPreferences(
+        preferences.notificationPreferences
+      );
+    }
+
+    const current = await this.getPreferences(userId);
+    if (Object.keys(update).length === 0) {
+      return current;
+    }
+    return this.ensureFound(await this.preferencesRepository.updateSections(userId, update));
   }
 
-  async deletePreferences(_userId: string): Promise<void> {
-    // TODO: Implement delete preferences with database
-    return;
+  async deletePreferences(userId: string): Promise<void> {
+    const deleted = await this.preferencesRepository.delete(userId);
+    if (!deleted) {
+      throw new AppError('Preferences not found', 404);
+    }
   }
 
   // ============================================================================
   // PREFERENCE SCORES OPERATIONS
   // ============================================================================
 
-  async getPreferenceScores(_userId: string): Promise<any> {
-    // TODO: Implement get preference scores with database
-    return {
-      cultural: 0.5,
-      nature: 0.5,
-      adventure: 0.5,
-      relaxation: 0.5,
-      food: 0.5,
-      shopping: 0.5,
-      nightlife: 0.5,
-      history: 0.5,
-      spiritual: 0.5,
-      wildlife: 0.5,
-    };
-  }
-
-  async updatePreferenceScores(_userId: string, scores: any): Promise<any> {
-    // TODO: Implement update preference scores with database
-    return {
-      userId: _userId,
-      preferenceScores: scores,
-      updatedAt: new Date(),
-    };
+  async getPreferenceScores(userId: string): Promise<IPreferenceScores> {
+    const preferences = await this.getPreferences(userId);
+    return preferences.preferenceScores;
+  }
+
+  async updatePreferenceScores(
+    userId: string,
+    scores: Partial<IPreferenceScores>
+  ): Promise<IUserPreferences> {
+    this.validatePreferenceScores(scores);
+
+    await this.getPreferences(userId);
+    return this.ensureFound(
+      await this.preferencesRepository.updatePreferenceScores(userId, scores)
+    );
   }
 
   // ============================================================================
   // TRAVEL STYLE OPERATIONS
   // ============================================================================
 
-  async updateTravelStyle(_userId: string, travelStyle: any): Promise<any> {
-    // TODO: Implement update travel style with database
-    return {
-      userId: _userId,
-      travelStyle,
-      updatedAt: new Date(),
-    };
+  async updateTravelStyle(
+    userId: string,
+    travelStyle: Partial<ITravelStylePreferences>
+  ): Promise<IUserPreferences> {
+    this.validateTravelStyle(travelStyle);
+
+    await this.getPreferences(userId);
+    return this.ensureFound(
+      await this.preferencesRepository.updateTravelStyle(userId, travelStyle)
+    );
   }
 
   // ============================================================================
   // SAVED LOCATIONS OPERATIONS
   // ============================================================================
 
-  async getSavedLocations(_userId: string): Promise<any> {
-    // TODO: Implement get saved locations with database
-    return [];
+  async getSavedLocations(userId: string): Promise<ISavedLocation[]> {
+    return this.preferencesRepository.getSavedLocations(userId);
   }
 
-  async saveLocation(_userId: string, location: any): Promise<any> {
-    // TODO: Implement save location with database
-    return {
-      userId: _userId,
-      savedLocations: [location],
-      updatedAt: new Date(),
-    };
+  async saveLocation(userId: string, location: SaveLocationData): Promise<IUserPreferences> {
+    const preferences = await this.getPreferences(userId);
+
+    if (preferences.savedLocations.some((saved) => saved.locationId === location.locationId)) {
+      throw new AppError('Location is already saved', 409);
+    }
+    if (preferences.savedLocations.length >= MAX_SAVED_LOCATIONS) {
+      throw new AppError(`Cannot save more than ${MAX_SAVED_LOCATIONS} locations`, 400);
+    }
+
+    return this.ensureFound(
+      await this.preferencesRepository.addSavedLocation(userId, {
+        ...location,
+        savedAt: new Date(),
+      })
+    );
   }
 
-  async removeSavedLocation(_userId: string, _locationId: string): Promise<any> {
-    // TODO: Implement remove saved location with database
-    return {
-      userId: _userId,
-      savedLocations: [],
-      updatedAt: new Date(),
-    };
+  async removeSavedLocation(userId: string, locationId: string): Promise<IUserPreferences> {
+    await this.assertLocationSaved(userId, locationId);
+    return this.ensureFound(
+      await this.preferencesRepository.removeSavedLocation(userId, locationId)
+    );
   }
 
-  async isLocationSaved(_userId: string, _locationId: string): Promise<boolean> {
-    // TODO: Implement check if location is saved with database
-    return false;
+  async isLocationSaved(userId: string, locationId: string): Promise<boolean> {
+    return this.preferencesRepository.isLocationSaved(userId, locationId);
   }
 
   async updateSavedLocationNotes(
-    _userId: string,
-    _locationId: string,
+    userId: string,
+    locationId: string,
     notes: string
-  ): Promise<any> {
-    // TODO: Implement update saved location notes with database
-    return {
-      userId: _userId,
-      locationId: _locationId,
-      notes,
-      updatedAt: new Date(),
-    };
+  ): Promise<IUserPreferences> {
+    await this.assertLocationSaved(userId, locationId);
+    return this.ensureFound(
+      await this.preferencesRepository.updateSavedLocationNotes(userId, locationId, notes)
+    );
   }
 
-  async addPreferredLocation(userId: string, location: string): Promise<any> {
-    return this.saveLocation(userId, { id: location });
+  async addPreferredLocation(userId: string, location: string): Promise<IUserPreferences> {
+    return this.saveLocation(userId, { locationId: location, name: location });
   }
 
   async removePreferredLocation(userId: string, location: string): Promise<void> {
@@ -145,88 +223,93 @@ export class UserPreferencesService {
   // SEARCH HISTORY OPERATIONS
   // ============================================================================
 
-  async getSearchHistory(_userId: string, _limit: number = 50): Promise<any> {
-    // TODO: Implement get search history with database
-    return [];
+  async getSearchHistory(userId: string, limit: number = 50): Promise<ISearchHistoryEntry[]> {
+    return this.preferencesRepository.getSearchHistory(userId, limit);
   }
 
-  async addSearchHistory(_userId: string, searchQuery: any): Promise<any> {
-    // TODO: Implement add search history with database
-    return {
-      userId: _userId,
-      searchHistory: [searchQuery],
-      updatedAt: new Date(),
-    };
+  async addSearchHistory(
+    userId: string,
+    searchQuery: SearchHistoryData
+  ): Promise<IUserPreferences> {
+    const query = searchQuery.query?.trim();
+    if (!query) {
+      throw new AppError('Search query is required', 400);
+    }
+
+    await this.getPreferences(userId);
+    return this.ensureFound(
+      await this.preferencesRepository.addSearchHistory(userId, {
+        ...searchQuery,
+        query,
+        timestamp: new Date(),
+      })
+    );
   }
 
-  async clearSearchHistory(_userId: string): Promise<any> {
-    // TODO: Implement clear search history with database
-    return {
-      userId: _userId,
-      searchHistory: [],
-      updatedAt: new Date(),
-    };
+  async clearSearchHistory(userId: string): Promise<IUserPreferences> {
+    await this.getPreferences(userId);
+    return this.ensureFound(await this.preferencesRepository.clearSearchHistory(userId));
   }
 
   // ============================================================================
   // CATEGORIES OPERATIONS
   // ============================================================================
 
-  async updateCategories(_userId: string, categories: any): Promise<any> {
-    // TODO: Implement update categories with database
-    return {
-      userId: _userId,
-      favoriteCategories: categories,
-      updatedAt: new Date(),
-    };
+  async updateCategories(userId: string, categories: CategoriesUpdate): Promise<IUserPreferences> {
+    const { favoriteCategories, avoidCategories } = this.validateCategories(categories);
+
+    await this.getPreferences(userId);
+    return this.ensureFound(
+      await this.preferencesRepository.updateCategories(userId, favoriteCategories, avoidCategories)
+    );
   }
 
-  async addFavoriteCategory(_userId: string, category: string): Promise<any> {
-    // TODO: Implement add favorite category with database
-    return {
-      userId: _userId,
-      favoriteCategories: [category],
-      updatedAt: new Date(),
-    };
+  async addFavoriteCategory(userId: string, category: string): Promise<IUserPreferences> {
+    const normalized = category.trim();
+    if (!normalized) {
+      throw new AppError('Category is required', 400);
+    }
+
+    await this.getPreferences(userId);
+    return this.ensureFound(
+      await this.preferencesRepository.addFavoriteCategory(userId, normalized)
+    );
   }
 
-  async removeFavoriteCategory(_userId: string, _category: string): Promise<any> {
-    // TODO: Implement remove favorite category with database
-    return {
-      userId: _userId,
-      favoriteCategories: [],
-      updatedAt: new Date(),
-    };
+  async removeFavoriteCategory(userId: string, category: string): Promise<IUserPreferences> {
+    await this.getPreferences(userId);
+    return this.ensureFound(
+      await this.preferencesRepository.removeFavoriteCategory(userId, category.trim())
+    );
   }
 
   // ============================================================================
   // VISITED LOCATIONS OPERATIONS
   // ============================================================================
 
-  async getVisitedLocations(_userId: string): Promise<any> {
-    // TODO: Implement get visited locations with database
-    return [];
+  async getVisitedLocations(userId: string): Promise<string[]> {
+    return this.preferencesRepository.getVisitedLocations(userId);
   }
 
-  async markLocationVisited(_userId: string, locationId: string): Promise<any> {
-    // TODO: Implement mark location as visited with database
-    return {
-      userId: _userId,
-      visitedLocations: [locationId],
-      updatedAt: new Date(),
-    };
+  async markLocationVisited(userId: string, locationId: string): Promise<IUserPreferences> {
+    await this.getPreferences(userId);
+    return this.ensureFound(
+      await this.preferencesRepository.addVisitedLocation(userId, locationId)
+    );
   }
 
-  async unmarkLocationVisited(_userId: string, _locationId: string): Promise<any> {
-    // TODO: Implement unmark location as visited with database
-    return {
-      userId: _userId,
-      visitedLocations: [],
-      updatedAt: new Date(),
-    };
+  async unmarkLocationVisited(userId: string, locationId: string): Promise<IUserPreferences> {
+    const visited = await this.getVisitedLocations(userId);
+    if (!visited.includes(locationId)) {
+      throw new AppError('Location is not marked as visited', 404);
+    }
+
+    return this.ensureFound(
+      await this.preferencesRepository.removeVisitedLocation(userId, locationId)
+    );
   }
 
-  async markVisited(userId: string, location: string): Promise<any> {
+  async markVisited(userId: string, location: string): Promise<IUserPreferences> {
     return this.markLocationVisited(userId, location);
   }
 
@@ -234,25 +317,138 @@ export class UserPreferencesService {
   // HOME LOCATION OPERATIONS
   // ============================================================================
 
-  async updateHomeLocation(_userId: string, location: any): Promise<any> {
-    // TODO: Implement update home location with database
-    return {
-      userId: _userId,
-      homeLocation: location,
-      updatedAt: new Date(),
-    };
+  async updateHomeLocation(userId: string, location: HomeLocationData): Promise<IUserPreferences> {
+    const homeLocation = this.validateHomeLocation(location);
+
+    await this.getPreferences(userId);
+    return this.ensureFound(
+      await this.preferencesRepository.updateHomeLocation(userId, homeLocation)
+    );
   }
 
   // ============================================================================
   // NOTIFICATION PREFERENCES OPERATIONS
   // ============================================================================
 
-  async updateNotificationPreferences(_userId: string, preferences: any): Promise<any> {
-    // TODO: Implement update notification preferences with database
-    return {
-      userId: _userId,
-      notifications: preferences,
-      updatedAt: new Date(),
-    };
+  async updateNotificationPreferences(
+    userId: string,
+    preferences: NotificationPreferencesUpdate
+  ): Promise<IUserPreferences> {
+    const update = this.validateNotificationPreferences(preferences);
+
+    await this.getPreferences(userId);
+    return this.ensureFound(
+      await this.preferencesRepository.updateNotificationPreferences(userId, update)
+    );
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  private validatePreferenceScores(scores: Partial<IPreferenceScores>): Partial<IPreferenceScores> {
+    const unknownKeys = Object.keys(scores).filter(
+      (key) => !SCORE_KEYS.includes(key as keyof IPreferenceScores)
+    );
+    if (unknownKeys.length > 0) {
+      throw new AppError(`Unknown preference scores: ${unknownKeys.join(', ')}`, 400);
+    }
+
+    for (const key of SCORE_KEYS) {
+      const value = scores[key];
+      if (value !== undefined && (typeof value !== 'number' || value < 0 || value > 1)) {
+        throw new AppError(`Preference score "${key}" must be a number between 0 and 1`, 400);
+      }
+    }
+    return scores;
+  }
+
+  private validateTravelStyle(
+    travelStyle: Partial<ITravelStylePreferences>
+  ): Partial<ITravelStylePreferences> {
+    for (const [key, allowed] of Object.entries(TRAVEL_STYLE_VALUES)) {
+      const value = travelStyle[key as keyof ITravelStylePreferences];
+      if (value !== undefined && !allowed.includes(value as string)) {
+        throw new AppError(`Travel style "${key}" must be one of: ${allowed.join(', ')}`, 400);
+      }
+    }
+    return travelStyle;
+  }
+
+  /**
+   * Normalized category lists; a category cannot be both favorite and avoided
+   */
+  private validateCategories(categories: CategoriesUpdate): CategoriesUpdate {
+    const favoriteCategories = this.normalizeCategories(categories.favoriteCategories);
+    const avoidCategories = this.normalizeCategories(categories.avoidCategories);
+
+    if (favoriteCategories && avoidCategories) {
+      const overlap = favoriteCategories.filter((c) => avoidCategories.includes(c));
+      if (overlap.length > 0) {
+        throw new AppError(
+          `Categories cannot be both favorite and avoided: ${overlap.join(', ')}`,
+          400
+        );
+      }
+    }
+    return { favoriteCategories, avoidCategories };
+  }
+
+  private validateHomeLocation(location: HomeLocationData): HomeLocationData {
+    const { latitude, longitude } = location;
+    if (
+      typeof latitude !== 'number' ||
+      typeof longitude !== 'number' ||
+      latitude < -90 ||
+      latitude > 90 ||
+      longitude < -180 ||
+      longitude > 180
+    ) {
+      throw new AppError('Home location must have a valid latitude and longitude', 400);
+    }
+    return { latitude, longitude, city: location.city, country: location.country };
+  }
+
+  /**
+   * The known boolean settings from an update; at least one is required
+   */
+  private validateNotificationPreferences(
+    preferences: NotificationPreferencesUpdate
+  ): NotificationPreferencesUpdate {
+    const update: NotificationPreferencesUpdate = {};
+    for (const key of NOTIFICATION_KEYS) {
+      const value = preferences[key];
+      if (value === undefined) continue;
+      if (typeof value !== 'boolean') {
+        throw new AppError(`Notification preference "${key}" must be a boolean`, 400);
+      }
+      update[key] = value;
+    }
+
+    if (Object.keys(update).length === 0) {
+      throw new AppError('At least one notification preference must be provided', 400);
+    }
+    return update;
+  }
+
+  private async assertLocationSaved(userId: string, locationId: string): Promise<void> {
+    if (!(await this.preferencesRepository.isLocationSaved(userId, locationId))) {
+      throw new AppError('Saved location not found', 404);
+    }
+  }
+
+  /**
+   * Trim and de-duplicate a category list, keeping undefined as "not provided"
+   */
+  private normalizeCategories(categories?: string[]): string[] | undefined {
+    if (categories === undefined) return undefined;
+    return Array.from(new Set(categories.map((c) => c.trim()).filter(Boolean)));
+  }
+
+  private ensureFound(preferences: IUserPreferences | null): IUserPreferences {
+    if (!preferences) {
+      throw new AppError('Preferences not found', 404);
+    }
+    return preferences;
   }
 }
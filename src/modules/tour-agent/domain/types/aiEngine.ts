@@ -138,6 +138,7 @@ export interface TourPlanGenerateRequest {
   selected_accommodation_ids?: string[]; // IDs of accommodations the user selected from recommendations
   skip_restaurants?: boolean; // Skip restaurant recommendations entirely
   skip_accommodations?: boolean; // Skip accommodation recommendations entirely
+  stream?: boolean; // Stream step results as Server-Sent Events before the result
 }
 
 export interface TourPlanMetadata {
@@ -409,6 +410,20 @@ export interface LocationChatRequest {
 
 // Location chat uses the same ChatResponse type
 
+// ============================================================================
+// DEGRADED MODE
+// ============================================================================
+
+/**
+ * Set on responses the backend worked out itself because the AI Engine was
+ * unavailable
+ */
+export interface DegradedModeInfo {
+  source: 'cached_history' | 'local_solar_calculator' | 'local_location_matching';
+  reason: string;
+  cachedAt?: string; // When a cached engine response was recorded
+}
+
 // ============================================================================
 // RECOMMENDATION API TYPES (/api/v1/recommend)
 // ============================================================================
@@ -475,6 +490,7 @@ export interface RecommendationResponse {
     constraints_checked: string[];
   };
   reasoning_summary?: string;
+  degraded?: DegradedModeInfo;
 }
 
 // ============================================================================
@@ -569,6 +585,7 @@ export interface CrowdPredictionResponse {
   crowd_status: 'LOW' | 'MODERATE' | 'HIGH' | 'EXTREME';
   recommendation: string;
   optimal_times?: OptimalTime[];
+  degraded?: DegradedModeInfo;
 }
 
 // ============================================================================
@@ -651,6 +668,7 @@ export interface GoldenHourRequest {
   elevation_m?: number; // Observer elevation (default: 0, max: 3000)
   location_name?: string; // Human-readable name
   include_current_position?: boolean; // Include real-time sun position
+  timezone?: string; // IANA timezone for local times (default: Asia/Colombo)
 }
 
 export interface TimeWindow {
@@ -671,7 +689,7 @@ export interface SolarPosition {
   atmospheric_refraction_deg?: number;
   is_daylight: boolean;
   light_quality: 'golden' | 'blue' | 'harsh' | 'good' | 'dark';
-  calculation_method: 'astral' | 'pysolar';
+  calculation_method: 'astral' | 'pysolar' | 'noaa';
 }
 
 export interface GoldenHourResponse {
@@ -682,7 +700,7 @@ export interface GoldenHourResponse {
     elevation_m: number;
   };
   date: string;
-  timezone: string; // Always "Asia/Colombo"
+  timezone: string; // IANA timezone of the local times (default "Asia/Colombo")
   morning_golden_hour: TimeWindow;
   evening_golden_hour: TimeWindow;
   morning_blue_hour?: TimeWindow;
@@ -695,7 +713,7 @@ export interface GoldenHourResponse {
   current_position?: SolarPosition;
   metadata: {
     topographic_correction_minutes: number;
-    calculation_method: 'astral' | 'pysolar';
+    calculation_method: 'astral' | 'pysolar' | 'noaa';
     precision_estimate_deg: number;
   };
   warnings: string[];
@@ -709,6 +727,7 @@ export interface SunPositionRequest {
   latitude: number;
   longitude: number;
   elevation_m?: number;
+  timezone?: string; // IANA timezone for local_time (default: Asia/Colombo)
 }
 
 export interface SunPositionResponse {
@@ -719,7 +738,7 @@ export interface SunPositionResponse {
   atmospheric_refraction_deg: number;
   is_daylight: boolean;
   light_quality: 'golden' | 'blue' | 'harsh' | 'good' | 'dark';
-  calculation_method: 'astral' | 'pysolar';
+  calculation_method: 'astral' | 'pysolar' | 'noaa';
 }
 
 // ============================================================================
@@ -793,6 +812,7 @@ export interface SimpleCrowdPredictionResponse {
     is_poya: boolean;
     weather_factor: number;
   };
+  degraded?: DegradedModeInfo;
 }
 
 /**
@@ -829,6 +849,7 @@ export interface SimpleGoldenHourResponse {
   };
   current_light_quality?: string;
   photography_recommendation: string;
+  degraded?: DegradedModeInfo;
 }
 
 /**
@@ -898,4 +919,5 @@ export interface SimpleRecommendationResponse {
   max_distance_km: number;
   total_found: number;
   recommendations: SimpleRecommendationLocation[];
+  degraded?: DegradedModeInfo;
 }
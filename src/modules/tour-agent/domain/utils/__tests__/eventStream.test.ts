@@ -0,0 +1,57 @@
+import { Readable } from 'stream';
+import { readServerSentEvents, readStreamText, ServerSentEvent } from '../eventStream';
+
+const collect = async (chunks: string[]): Promise<ServerSentEvent[]> => {
+  const events: ServerSentEvent[] = [];
+  for await (const event of readServerSentEvents(Readable.from(chunks))) {
+    events.push(event);
+  }
+  return events;
+};
+
+describe('readServerSentEvents', () => {
+  it('yields named events with their data', async () => {
+    const events = await collect([
+      'event: step\ndata: {"step":"crowd_check"}\n\n',
+      'event: result\ndata: {"thread_id":"t1"}\n\n',
+    ]);
+
+    expect(events).toEqual([
+      { event: 'step', data: '{"step":"crowd_check"}' },
+      { event: 'result', data: '{"thread_id":"t1"}' },
+    ]);
+  });
+
+  it('joins multi-line data and defaults the event name', async () => {
+    expect(await collect(['data: first\ndata: second\n\n'])).toEqual([
+      { event: 'message', data: 'first\nsecond' },
+    ]);
+  });
+
+  it('reassembles lines split across chunks, including CRLF endings', async () => {
+    const events = await collect(['event: st', 'ep\r', '\ndata: {"a"', ':1}\r\n\r\n']);
+
+    expect(events).toEqual([{ event: 'step', data: '{"a":1}' }]);
+  });
+
+  it('skips comments and unknown fields', async () => {
+    const events = await collect([': heartbeat\n\nid: 4\nretry: 100\nevent: step\ndata: x\n\n']);
+
+    expect(events).toEqual([{ event: 'step', data: 'x' }]);
+  });
+
+  it('drops an event cut off by the end of the stream', async () => {
+    expect(await collect(['event: step\ndata: 1\n\nevent: step\ndata: 2'])).toEqual([
+      { event: 'step', data: '1' },
+    ]);
+  });
+});
+
+describe('readStreamText', () => {
+  it('reads multi-byte characters split across chunks', async () => {
+    const bytes = Buffer.from('{"detail":"ශ්‍රී ලංකා"}');
+    const stream = Readable.from([bytes.subarray(0, 14), bytes.subarray(14)]);
+
+    expect(await readStreamText(stream)).toBe('{"detail":"ශ්‍රී ලංකා"}');
+  });
+});
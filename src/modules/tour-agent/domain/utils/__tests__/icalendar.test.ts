@@ -0,0 +1,108 @@
+import { buildCalendar, CalendarEvent, CalendarOptions } from '../icalendar';
+
+const OPTIONS: CalendarOptions = {
+  productId: '-//Travion//Trip Itinerary//EN',
+  name: 'Hill country, 3 days',
+  timezone: { id: 'Asia/Colombo', utcOffset: '+0530', abbreviation: '+0530' },
+};
+
+const EVENT: CalendarEvent = {
+  uid: 'trip-1-item-1@travion',
+  date: '2026-10-19',
+  time: '8:05',
+  durationMinutes: 90,
+  summary: 'Temple of the Tooth',
+};
+
+/**
+ * Content lines of a calendar, with folded lines joined back up
+ */
+const unfold = (calendar: string): string[] => calendar.replace(/\r\n /g, '').split('\r\n');
+
+describe('buildCalendar', () => {
+  it('writes a VCALENDAR with CRLF line endings and a trailing CRLF', () => {
+    const calendar = buildCalendar(OPTIONS, [EVENT]);
+
+    expect(calendar.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(calendar.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+  });
+
+  it('writes event times as local time in the calendar timezone', () => {
+    const lines = unfold(buildCalendar(OPTIONS, [EVENT]));
+
+    expect(lines).toContain('BEGIN:VTIMEZONE');
+    expect(lines).toContain('TZOFFSETTO:+0530');
+    expect(lines).toContain('DTSTART;TZID=Asia/Colombo:20261019T080500');
+    expect(lines).toContain('DURATION:PT1H30M');
+    expect(lines.find((line) => line.startsWith('DTSTAMP:'))).toMatch(/^DTSTAMP:\d{8}T\d{6}Z$/);
+  });
+
+  it.each([
+    [45, 'PT45M'],
+    [60, 'PT1H'],
+    [0, 'PT0M'],
+  ])('writes a %i minute duration as %s', (durationMinutes, duration) => {
+    const lines = unfold(buildCalendar(OPTIONS, [{ ...EVENT, durationMinutes }]));
+
+    expect(lines).toContain(`DURATION:${duration}`);
+  });
+
+  it('escapes commas, semicolons, backslashes and newlines in text', () => {
+    const lines = unfold(
+      buildCalendar(OPTIONS, [
+        { ...EVENT, summary: 'Kandy; lake, walk', description: 'Bring water\nC:\\maps' },
+      ])
+    );
+
+    expect(lines).toContain('SUMMARY:Kandy\\; lake\\, walk');
+    expect(lines).toContain('DESCRIPTION:Bring water\\nC:\\\\maps');
+    expect(lines).toContain('X-WR-CALNAME:Hill country\\, 3 days');
+  });
+
+  it('only writes the optional event properties that are set', () => {
+    const lines = unfold(
+      buildCalendar(OPTIONS, [
+        {
+          ...EVENT,
+          location: 'Kandy',
+          latitude: 7.2936,
+          longitude: 80.6413,
+          lastModified: new Date('2026-10-01T10:00:00Z'),
+          sequence: 2,
+        },
+      ])
+    );
+
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        'LOCATION:Kandy',
+        'GEO:7.2936;80.6413',
+        'LAST-MODIFIED:20261001T100000Z',
+        'SEQUENCE:2',
+      ])
+    );
+    expect(
+      unfold(buildCalendar(OPTIONS, [EVENT])).some((line) => /^(GEO|LOCATION)/.test(line))
+    ).toBe(false);
+  });
+
+  it('folds long lines at 75 octets without splitting multi-byte characters', () => {
+    const summary = 'ශ්‍රී දළදා මාළිගාව '.repeat(8);
+    const calendar = buildCalendar(OPTIONS, [{ ...EVENT, summary }]);
+    const physicalLines = calendar.split('\r\n');
+
+    for (const line of physicalLines) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+      expect(line).not.toContain('\ufffd');
+    }
+    expect(unfold(calendar)).toContain(`SUMMARY:${summary}`);
+  });
+
+  it('publishes the refresh interval for subscription feeds', () => {
+    const lines = unfold(buildCalendar({ ...OPTIONS, refreshIntervalMinutes: 360 }, []));
+
+    expect(lines).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT6H');
+    expect(lines).toContain('X-PUBLISHED-TTL:PT6H');
+  });
+});
@@ -0,0 +1,72 @@
+import { buildGpx, buildKml, MapStop } from '../mapExport';
+
+const STOPS: MapStop[] = [
+  {
+    name: 'Temple of the Tooth',
+    latitude: 7.2936,
+    longitude: 80.6413,
+    dayNumber: 1,
+    time: new Date('2026-10-19T03:00:00Z'),
+  },
+  { name: 'Peradeniya Gardens', latitude: 7.2686, longitude: 80.5956, dayNumber: 1 },
+  { name: 'Nine Arch Bridge', latitude: 6.8768, longitude: 81.0608, dayNumber: 2 },
+];
+
+const count = (document: string, pattern: RegExp): number =>
+  (document.match(new RegExp(pattern, 'g')) || []).length;
+
+describe('buildGpx', () => {
+  it('writes every stop as a waypoint', () => {
+    const gpx = buildGpx({ name: 'Hill country' }, STOPS);
+
+    expect(gpx.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<gpx version="1.1"')).toBe(true);
+    expect(count(gpx, /<wpt /)).toBe(3);
+    expect(gpx).toContain('<wpt lat="7.2936" lon="80.6413">');
+    expect(gpx).toContain('<time>2026-10-19T03:00:00.000Z</time>');
+    expect(gpx.trimEnd().endsWith('</gpx>')).toBe(true);
+  });
+
+  it('joins the stops of each day with more than one stop into a route', () => {
+    const gpx = buildGpx({ name: 'Hill country' }, STOPS);
+
+    expect(count(gpx, /<rte>/)).toBe(1);
+    expect(gpx).toContain('<name>Day 1</name>');
+    expect(count(gpx, /<rtept /)).toBe(2);
+  });
+
+  it('escapes XML special characters in names and descriptions', () => {
+    const gpx = buildGpx({ name: 'Ella & "Kandy"', description: '<3 days>' }, [
+      { ...STOPS[0], name: "Ravana's Falls" },
+    ]);
+
+    expect(gpx).toContain('<name>Ella &amp; &quot;Kandy&quot;</name>');
+    expect(gpx).toContain('<desc>&lt;3 days&gt;</desc>');
+    expect(gpx).toContain('<name>Ravana&apos;s Falls</name>');
+  });
+});
+
+describe('buildKml', () => {
+  it('puts each day in a folder, in day order', () => {
+    const kml = buildKml({ name: 'Hill country' }, [STOPS[2], STOPS[0], STOPS[1]]);
+
+    expect(count(kml, /<Folder>/)).toBe(2);
+    expect(kml.indexOf('<name>Day 1</name>')).toBeLessThan(kml.indexOf('<name>Day 2</name>'));
+  });
+
+  it('writes coordinates as longitude,latitude and a route line for multi-stop days', () => {
+    const kml = buildKml({ name: 'Hill country' }, STOPS);
+
+    expect(kml).toContain('<Point><coordinates>80.6413,7.2936,0</coordinates></Point>');
+    expect(count(kml, /<LineString>/)).toBe(1);
+    expect(kml).toContain('<coordinates>80.6413,7.2936,0 80.5956,7.2686,0</coordinates>');
+    expect(kml).toContain('<name>Day 1 route</name>');
+    expect(kml).not.toContain('Day 2 route');
+  });
+
+  it('keeps Sinhala and Tamil names as written', () => {
+    const kml = buildKml({ name: 'මහනුවර' }, [{ ...STOPS[0], name: 'தலதா மாளிகை' }]);
+
+    expect(kml).toContain('<name>මහනුවර</name>');
+    expect(kml).toContain('<name>தலதா மாளிகை</name>');
+  });
+});
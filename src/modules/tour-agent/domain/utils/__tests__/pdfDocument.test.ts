@@ -0,0 +1,44 @@
+import zlib from 'zlib';
+import { PdfDocument } from '../pdfDocument';
+
+/**
+ * Inflated contents of every compressed stream in a PDF
+ */
+const inflateStreams = (pdf: Buffer): string[] =>
+  [...pdf.toString('latin1').matchAll(/stream\n([\s\S]*?)\nendstream/g)].flatMap((match) => {
+    try {
+      return [zlib.inflateSync(Buffer.from(match[1], 'latin1')).toString('latin1')];
+    } catch {
+      return [];
+    }
+  });
+
+describe('PdfDocument', () => {
+  it('embeds the Sinhala and Tamil fonts for text in those scripts', async () => {
+    const pdf = await new PdfDocument({ title: 'Kandy' })
+      .heading('ශ්‍රී දළදා මාළිගාව')
+      .text('ஸ்ரீ தலதா மாளிகை, Kandy')
+      .toBuffer();
+    const body = pdf.toString('latin1');
+
+    expect(body.startsWith('%PDF-')).toBe(true);
+    expect(body).toMatch(/\/BaseFont \/[A-Z]{6}\+NotoSansSinhala-Bold/);
+    expect(body).toMatch(/\/BaseFont \/[A-Z]{6}\+NotoSansTamil-Regular/);
+
+    // Shaped conjuncts map back to the characters they were drawn from
+    const cmaps = inflateStreams(pdf).filter((stream) => stream.includes('begincmap'));
+    expect(cmaps.some((cmap) => cmap.includes('<0dca 200d 0dbb>'))).toBe(true);
+    expect(cmaps.some((cmap) => cmap.includes('<0bb8 0bcd 0bb0 0bc0>'))).toBe(true);
+  });
+
+  it('flows long text onto new pages and numbers them in the footer', async () => {
+    const document = new PdfDocument({ title: 'Long trip' });
+    for (let i = 0; i < 80; i++) {
+      document.labelled('08:00', `Stop ${i}: a line long enough to wrap across the page width`, 60);
+    }
+    const pdf = await document.toBuffer((page, pageCount) => `Page ${page} of ${pageCount}`);
+
+    const pageCount = (pdf.toString('latin1').match(/\/Type \/Page\b/g) || []).length;
+    expect(pageCount).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,101 @@
+import { classifyLight, getSunPosition, getSunTimes, horizonDip } from '../solarCalculator';
+
+const LONDON = { latitude: 51.5074, longitude: -0.1278 };
+const COLOMBO = { latitude: 6.9271, longitude: 79.8612 };
+const TROMSO = { latitude: 69.6492, longitude: 18.9553 };
+
+const SRI_LANKA_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+const minutesBetween = (a: Date, b: Date): number =>
+  Math.abs(a.getTime() - b.getTime()) / MINUTE_MS;
+
+describe('getSunTimes', () => {
+  it('matches published sunrise and sunset times for London at midsummer', () => {
+    const times = getSunTimes(Date.UTC(2024, 5, 21), LONDON.latitude, LONDON.longitude);
+
+    expect(minutesBetween(times.sunrise!, new Date('2024-06-21T03:43:00Z'))).toBeLessThan(2);
+    expect(minutesBetween(times.sunset!, new Date('2024-06-21T20:21:00Z'))).toBeLessThan(2);
+    expect(minutesBetween(times.solarNoon, new Date('2024-06-21T12:02:00Z'))).toBeLessThan(2);
+  });
+
+  it('orders blue hour, golden hour and sunrise through the morning and back at dusk', () => {
+    const times = getSunTimes(
+      Date.UTC(2024, 5, 21) - SRI_LANKA_OFFSET_MS,
+      COLOMBO.latitude,
+      COLOMBO.longitude
+    );
+    const morningBlue = times.morningBlueHour!;
+    const morningGolden = times.morningGoldenHour!;
+    const eveningGolden = times.eveningGoldenHour!;
+    const eveningBlue = times.eveningBlueHour!;
+
+    expect(morningBlue.end).toEqual(morningGolden.start);
+    expect(morningGolden.start.getTime()).toBeLessThan(times.sunrise!.getTime());
+    expect(times.sunrise!.getTime()).toBeLessThan(morningGolden.end.getTime());
+    expect(eveningGolden.start.getTime()).toBeLessThan(times.sunset!.getTime());
+    expect(times.sunset!.getTime()).toBeLessThan(eveningGolden.end.getTime());
+    expect(eveningGolden.end).toEqual(eveningBlue.start);
+  });
+
+  it('has no sunrise or sunset during polar day and polar night', () => {
+    const midsummer = getSunTimes(Date.UTC(2024, 5, 21), TROMSO.latitude, TROMSO.longitude);
+    const midwinter = getSunTimes(Date.UTC(2024, 11, 21), TROMSO.latitude, TROMSO.longitude);
+
+    expect(midsummer.sunrise).toBeNull();
+    expect(midsummer.sunset).toBeNull();
+    expect(midwinter.sunrise).toBeNull();
+    // The Sun still climbs out of the dark into blue hour around noon
+    expect(midwinter.morningBlueHour).not.toBeNull();
+    expect(midwinter.morningGoldenHour).toBeNull();
+  });
+
+  it('brings sunrise forward for an observer above sea level', () => {
+    const dayStart = Date.UTC(2024, 5, 21) - SRI_LANKA_OFFSET_MS;
+    const seaLevel = getSunTimes(dayStart, COLOMBO.latitude, COLOMBO.longitude);
+    const summit = getSunTimes(dayStart, COLOMBO.latitude, COLOMBO.longitude, 1000);
+
+    expect(summit.horizonDipDeg).toBeGreaterThan(0);
+    expect(summit.sunrise!.getTime()).toBeLessThan(seaLevel.sunrise!.getTime());
+    expect(summit.sunset!.getTime()).toBeGreaterThan(seaLevel.sunset!.getTime());
+  });
+});
+
+describe('getSunPosition', () => {
+  it('puts the Sun due south at solar noon, at 90° less latitude plus declination', () => {
+    const { solarNoon } = getSunTimes(Date.UTC(2024, 5, 21), LONDON.latitude, LONDON.longitude);
+    const position = getSunPosition(solarNoon, LONDON.latitude, LONDON.longitude);
+
+    expect(position.azimuthDeg).toBeCloseTo(180, 1);
+    expect(position.elevationDeg).toBeCloseTo(90 - LONDON.latitude + 23.44, 1);
+  });
+
+  it('lifts the Sun by refraction near the horizon', () => {
+    const { sunset } = getSunTimes(Date.UTC(2024, 5, 21), LONDON.latitude, LONDON.longitude);
+    const position = getSunPosition(sunset!, LONDON.latitude, LONDON.longitude);
+
+    expect(position.refractionDeg).toBeGreaterThan(0.3);
+    expect(position.refractionDeg).toBeLessThan(0.6);
+  });
+});
+
+describe('horizonDip', () => {
+  it('is zero at sea level and grows with the square root of height', () => {
+    expect(horizonDip()).toBe(0);
+    expect(horizonDip(100)).toBeCloseTo(1.76 / 6, 6);
+    expect(horizonDip(400)).toBeCloseTo(2 * horizonDip(100), 6);
+  });
+});
+
+describe('classifyLight', () => {
+  it.each([
+    [-10, 'dark'],
+    [-5, 'blue'],
+    [-4, 'golden'],
+    [5.9, 'golden'],
+    [6, 'good'],
+    [60, 'harsh'],
+  ])('classifies %d° as %s', (elevation, quality) => {
+    expect(classifyLight(elevation)).toBe(quality);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Server-Sent Events reader
+ *
+ * Splits a text/event-stream response body into messages as the bytes arrive,
+ * following the WHATWG parsing rules for the fields we use: "event" and
+ * multi-line "data". Comments (heartbeats), "id" and "retry" are skipped, and
+ * an event cut off by the end of the stream is dropped.
+ */
+
+import type { Readable } from 'stream';
+
+export interface ServerSentEvent {
+  event: string; // "message" when the field is absent
+  data: string;
+}
+
+/**
+ * Yield each event of a stream; the stream is closed if the caller stops early
+ */
+export async function* readServerSentEvents(stream: Readable): AsyncGenerator<ServerSentEvent> {
+  let buffered = '';
+  let event = '';
+  let data: string[] = [];
+
+  const takeLine = (line: string): ServerSentEvent | undefined => {
+    if (line === '') {
+      const message =
+        data.length > 0 ? { event: event || 'message', data: data.join('\n') } : undefined;
+      event = '';
+      data = [];
+      return message;
+    }
+    if (line.startsWith(':')) return undefined;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
+    return undefined;
+  };
+
+  stream.setEncoding('utf8');
+  for await (const chunk of stream) {
+    buffered += chunk as string;
+
+    let lineEnd: number;
+    while ((lineEnd = buffered.search(/\r\n|\r|\n/)) !== -1) {
+      // A trailing \r may be the first half of a \r\n split across chunks
+      if (buffered[lineEnd] === '\r' && lineEnd === buffered.length - 1) break;
+
+      const line = buffered.slice(0, lineEnd);
+      buffered = buffered.slice(lineEnd + (buffered.startsWith('\r\n', lineEnd) ? 2 : 1));
+      const message = takeLine(line);
+      if (message) yield message;
+    }
+  }
+}
+
+/**
+ * Read a whole stream as UTF-8 text
+ */
+export const readStreamText = async (stream: Readable): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as string));
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
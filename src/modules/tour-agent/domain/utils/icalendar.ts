@@ -0,0 +1,177 @@
+/**
+ * iCalendar writer
+ *
+ * Just enough of RFC 5545 to publish a read-only calendar of timed events that
+ * Google Calendar, Apple Calendar and Outlook can import or subscribe to.
+ * Event times are local wall-clock times in one fixed-offset timezone, which
+ * is written out as a VTIMEZONE so clients don't have to know it.
+ */
+
+export interface CalendarTimezone {
+  id: string; // IANA name, e.g. "Asia/Colombo"
+  utcOffset: string; // e.g. "+0530"
+  abbreviation?: string;
+}
+
+export interface CalendarEvent {
+  uid: string;
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  durationMinutes: number;
+  summary: string;
+  location?: string;
+  latitude?: number;
+  longitude?: number;
+  description?: string;
+  lastModified?: Date;
+  sequence?: number;
+}
+
+export interface CalendarOptions {
+  productId: string; // e.g. "-//Travion//Trip Itinerary//EN"
+  name: string;
+  description?: string;
+  timezone: CalendarTimezone;
+  refreshIntervalMinutes?: number; // Set for subscription feeds
+}
+
+const CRLF = '\r\n';
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escape a TEXT value (commas, semicolons, backslashes and newlines)
+ */
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/**
+ * Fold a content line to 75 octets, continuation lines starting with a space.
+ * Never splits a multi-byte character.
+ */
+const foldLine = (line: string): string => {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const lines: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = Buffer.byteLength(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      lines.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  lines.push(current);
+
+  return lines.join(`${CRLF} `);
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * UTC DATE-TIME value, e.g. 20261019T083000Z
+ */
+const formatUtc = (date: Date): string =>
+  date
+    .toISOString()
+    .replace(/\.\d{3}/, '')
+    .replace(/[-:]/g, '');
+
+/**
+ * Local DATE-TIME value from YYYY-MM-DD and HH:MM, e.g. 20261019T083000
+ */
+const formatLocal = (date: string, time: string): string => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return `${date.replace(/-/g, '')}T${pad(hours)}${pad(minutes)}00`;
+};
+
+/**
+ * DURATION value, e.g. PT1H30M
+ */
+const formatDuration = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `PT${hours > 0 ? `${hours}H` : ''}${rest > 0 || hours === 0 ? `${rest}M` : ''}`;
+};
+
+const timezoneLines = (timezone: CalendarTimezone): string[] => [
+  'BEGIN:VTIMEZONE',
+  `TZID:${timezone.id}`,
+  'BEGIN:STANDARD',
+  'DTSTART:19700101T000000',
+  `TZOFFSETFROM:${timezone.utcOffset}`,
+  `TZOFFSETTO:${timezone.utcOffset}`,
+  `TZNAME:${timezone.abbreviation ?? timezone.utcOffset}`,
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+const eventLines = (event: CalendarEvent, timezone: CalendarTimezone, now: Date): string[] => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `DTSTART;TZID=${timezone.id}:${formatLocal(event.date, event.time)}`,
+    `DURATION:${formatDuration(event.durationMinutes)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+
+  if (event.location) {
+    lines.push(`LOCATION:${escapeText(event.location)}`);
+  }
+  if (event.latitude !== undefined && event.longitude !== undefined) {
+    lines.push(`GEO:${event.latitude};${event.longitude}`);
+  }
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.lastModified) {
+    lines.push(`LAST-MODIFIED:${formatUtc(event.lastModified)}`);
+  }
+  if (event.sequence !== undefined) {
+    lines.push(`SEQUENCE:${event.sequence}`);
+  }
+
+  lines.push('TRANSP:OPAQUE', 'END:VEVENT');
+  return lines;
+};
+
+/**
+ * Render a VCALENDAR document
+ */
+export const buildCalendar = (options: CalendarOptions, events: CalendarEvent[]): string => {
+  const now = new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${options.productId}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    `X-WR-TIMEZONE:${options.timezone.id}`,
+  ];
+
+  if (options.description) {
+    lines.push(`X-WR-CALDESC:${escapeText(options.description)}`);
+  }
+  if (options.refreshIntervalMinutes) {
+    // REFRESH-INTERVAL is the standard (RFC 7986); Outlook and Google read X-PUBLISHED-TTL
+    const interval = formatDuration(options.refreshIntervalMinutes);
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:${interval}`, `X-PUBLISHED-TTL:${interval}`);
+  }
+
+  lines.push(...timezoneLines(options.timezone));
+  for (const event of events) {
+    lines.push(...eventLines(event, options.timezone, now));
+  }
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join(CRLF) + CRLF;
+};
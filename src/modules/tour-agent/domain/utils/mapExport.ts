@@ -0,0 +1,146 @@
+/**
+ * GPX and KML writers
+ *
+ * Itinerary stops as waypoints, plus one route per day joining that day's
+ * stops in order, for offline map apps (Organic Maps, OsmAnd, Maps.me,
+ * Google Earth). Routes are straight lines between stops, not road paths.
+ */
+
+export interface MapStop {
+  name: string;
+  latitude: number;
+  longitude: number;
+  dayNumber: number;
+  description?: string;
+  time?: Date; // Planned arrival
+}
+
+export interface MapExportOptions {
+  name: string;
+  description?: string;
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8"?>';
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const element = (name: string, value?: string): string =>
+  value ? `<${name}>${escapeXml(value)}</${name}>` : '';
+
+/**
+ * Stops grouped by day, in day order
+ */
+const byDay = (stops: MapStop[]): [number, MapStop[]][] => {
+  const days = new Map<number, MapStop[]>();
+  for (const stop of stops) {
+    days.set(stop.dayNumber, [...(days.get(stop.dayNumber) ?? []), stop]);
+  }
+  return [...days.entries()].sort(([a], [b]) => a - b);
+};
+
+/**
+ * GPX 1.1 document
+ */
+export const buildGpx = (options: MapExportOptions, stops: MapStop[]): string => {
+  const point = (tag: string, stop: MapStop, indent: string): string =>
+    [
+      `${indent}<${tag} lat="${stop.latitude}" lon="${stop.longitude}">`,
+      stop.time ? `${indent}  <time>${stop.time.toISOString()}</time>` : '',
+      `${indent}  ${element('name', stop.name)}`,
+      stop.description ? `${indent}  ${element('desc', stop.description)}` : '',
+      `${indent}</${tag}>`,
+    ]
+      .filter(Boolean)
+      .join('\n');
+
+  const lines = [
+    XML_HEADER,
+    '<gpx version="1.1" creator="Travion" xmlns="http://www.topografix.com/GPX/1/1">',
+    '  <metadata>',
+    `    ${element('name', options.name)}`,
+    options.description ? `    ${element('desc', options.description)}` : '',
+    `    <time>${new Date().toISOString()}</time>`,
+    '  </metadata>',
+    ...stops.map((stop) => point('wpt', stop, '  ')),
+    ...byDay(stops)
+      .filter(([, dayStops]) => dayStops.length > 1)
+      .map(([day, dayStops]) =>
+        [
+          '  <rte>',
+          `    ${element('name', `Day ${day}`)}`,
+          ...dayStops.map((stop) => point('rtept', stop, '    ')),
+          '  </rte>',
+        ].join('\n')
+      ),
+    '</gpx>',
+    '',
+  ];
+
+  return lines.filter((line) => line !== '').join('\n') + '\n';
+};
+
+/**
+ * KML 2.2 document, one folder per day
+ */
+export const buildKml = (options: MapExportOptions, stops: MapStop[]): string => {
+  const coordinates = (stop: MapStop): string => `${stop.longitude},${stop.latitude},0`;
+
+  const folders = byDay(stops).map(([day, dayStops]) => {
+    const placemarks = dayStops.map((stop) =>
+      [
+        '      <Placemark>',
+        `        ${element('name', stop.name)}`,
+        stop.description ? `        ${element('description', stop.description)}` : '',
+        stop.time ? `        <TimeStamp><when>${stop.time.toISOString()}</when></TimeStamp>` : '',
+        '        <styleUrl>#stop</styleUrl>',
+        `        <Point><coordinates>${coordinates(stop)}</coordinates></Point>`,
+        '      </Placemark>',
+      ]
+        .filter(Boolean)
+        .join('\n')
+    );
+
+    if (dayStops.length > 1) {
+      placemarks.push(
+        [
+          '      <Placemark>',
+          `        ${element('name', `Day ${day} route`)}`,
+          '        <styleUrl>#route</styleUrl>',
+          '        <LineString>',
+          '          <tessellate>1</tessellate>',
+          `          <coordinates>${dayStops.map(coordinates).join(' ')}</coordinates>`,
+          '        </LineString>',
+          '      </Placemark>',
+        ].join('\n')
+      );
+    }
+
+    return [
+      '    <Folder>',
+      `      ${element('name', `Day ${day}`)}`,
+      ...placemarks,
+      '    </Folder>',
+    ].join('\n');
+  });
+
+  const lines = [
+    XML_HEADER,
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    ${element('name', options.name)}`,
+    options.description ? `    ${element('description', options.description)}` : '',
+    '    <Style id="stop"><IconStyle><scale>1.1</scale></IconStyle></Style>',
+    '    <Style id="route"><LineStyle><color>ff1f6feb</color><width>3</width></LineStyle></Style>',
+    ...folders,
+    '  </Document>',
+    '</kml>',
+  ];
+
+  return lines.filter((line) => line !== '').join('\n') + '\n';
+};
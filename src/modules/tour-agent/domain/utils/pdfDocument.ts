@@ -0,0 +1,305 @@
+/**
+ * PDF writer
+ *
+ * A small flowing-text PDF builder for printable exports: headings, wrapped
+ * paragraphs, indented lines and rules on A4 pages, with a footer on every
+ * page. Pages are drawn with PDFKit using the Noto Sans fonts, which are
+ * embedded (subset to the glyphs used) so Sinhala, Tamil and English all
+ * print on any reader. Noto Sans Sinhala also carries the Latin alphabet, so
+ * it is the base font; runs of Tamil switch to Noto Sans Tamil.
+ */
+
+import PDFKit from 'pdfkit';
+
+export type PdfFont = 'regular' | 'bold';
+
+export type PdfColor = [number, number, number]; // RGB, 0-1
+
+export interface PdfTextOptions {
+  font?: PdfFont;
+  size?: number;
+  color?: PdfColor;
+  indent?: number; // Points from the left margin
+  spaceAfter?: number;
+}
+
+export interface PdfDocumentOptions {
+  title: string;
+  author?: string;
+  subject?: string;
+}
+
+type PdfScript = 'sinhala' | 'tamil';
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const FOOTER_HEIGHT = 30;
+const LINE_SPACING = 1.3;
+const DEFAULT_COLOR: PdfColor = [0.1, 0.1, 0.1];
+
+const FONT_FILES: Record<PdfScript, Record<PdfFont, string>> = {
+  sinhala: {
+    regular: require.resolve(
+      '@expo-google-fonts/noto-sans-sinhala/400Regular/NotoSansSinhala_400Regular.ttf'
+    ),
+    bold: require.resolve(
+      '@expo-google-fonts/noto-sans-sinhala/700Bold/NotoSansSinhala_700Bold.ttf'
+    ),
+  },
+  tamil: {
+    regular: require.resolve(
+      '@expo-google-fonts/noto-sans-tamil/400Regular/NotoSansTamil_400Regular.ttf'
+    ),
+    bold: require.resolve('@expo-google-fonts/noto-sans-tamil/700Bold/NotoSansTamil_700Bold.ttf'),
+  },
+};
+
+const TAMIL = /[\u0b80-\u0bff]/;
+// Spaces and joiners stay with the run they are in, so shaping isn't cut short
+const NEUTRAL = /[\s\u200c\u200d]/;
+
+/**
+ * Split text into runs that one font can draw
+ */
+const scriptRuns = (text: string): { script: PdfScript; text: string }[] => {
+  const runs: { script: PdfScript; text: string }[] = [];
+  for (const char of text) {
+    const last = runs[runs.length - 1];
+    const script: PdfScript =
+      last && NEUTRAL.test(char) ? last.script : TAMIL.test(char) ? 'tamil' : 'sinhala';
+    if (last && last.script === script) {
+      last.text += char;
+    } else {
+      runs.push({ script, text: char });
+    }
+  }
+  return runs;
+};
+
+const fontName = (script: PdfScript, font: PdfFont): string => `${script}-${font}`;
+
+const toRgb = (color: PdfColor): [number, number, number] =>
+  color.map((value) => Math.round(value * 255)) as [number, number, number];
+
+export class PdfDocument {
+  private doc: PDFKit.PDFDocument;
+  private y: number = MARGIN; // Top of the next line, from the top of the page
+
+  constructor(options: PdfDocumentOptions) {
+    this.doc = new PDFKit({
+      size: [PAGE_WIDTH, PAGE_HEIGHT],
+      margin: MARGIN,
+      bufferPages: true,
+      info: {
+        Title: options.title,
+        ...(options.author && { Author: options.author }),
+        ...(options.subject && { Subject: options.subject }),
+        Producer: 'Travion',
+        Creator: 'Travion',
+      },
+    });
+
+    for (const script of Object.keys(FONT_FILES) as PdfScript[]) {
+      for (const font of ['regular', 'bold'] as PdfFont[]) {
+        this.doc.registerFont(fontName(script, font), FONT_FILES[script][font]);
+      }
+    }
+  }
+
+  /**
+   * Width between the left and right margins
+   */
+  get contentWidth(): number {
+    return PAGE_WIDTH - 2 * MARGIN;
+  }
+
+  /**
+   * Write text, wrapped to the page width. Newlines start new lines.
+   */
+  text(text: string, options: PdfTextOptions = {}): this {
+    const font = options.font ?? 'regular';
+    const size = options.size ?? 10;
+    const indent = options.indent ?? 0;
+    const lineHeight = size * LINE_SPACING;
+
+    for (const line of this.wrap(text, font, size, this.contentWidth - indent)) {
+      this.ensureSpace(lineHeight);
+      this.y += lineHeight;
+      this.write(
+        line,
+        MARGIN + indent,
+        this.y - (lineHeight - size) / 2,
+        font,
+        size,
+        options.color
+      );
+    }
+    this.y += options.spaceAfter ?? 0;
+    return this;
+  }
+
+  /**
+   * Bold label in a left column with the text wrapped beside it, as in a
+   * schedule ("08:00-09:30  Visit the temple")
+   */
+  labelled(label: string, text: string, labelWidth: number, options: PdfTextOptions = {}): this {
+    const size = options.size ?? 10;
+    const lineHeight = size * LINE_SPACING;
+
+    // Same baseline as the first line of the text
+    this.ensureSpace(lineHeight);
+    this.write(
+      label,
+      MARGIN + (options.indent ?? 0),
+      this.y + lineHeight - (lineHeight - size) / 2,
+      'bold',
+      size,
+      options.color
+    );
+    return this.text(text, { ...options, indent: (options.indent ?? 0) + labelWidth });
+  }
+
+  /**
+   * Section heading; moves to a new page rather than leave it alone at the bottom
+   */
+  heading(text: string, level: 1 | 2 | 3 = 1): this {
+    const size = level === 1 ? 18 : level === 2 ? 14 : 11.5;
+    this.moveDown(level === 1 ? 6 : 8);
+    this.ensureSpace(size * LINE_SPACING * 3);
+    return this.text(text, { font: 'bold', size, spaceAfter: level === 3 ? 2 : 4 });
+  }
+
+  /**
+   * Horizontal line across the content width
+   */
+  rule(color: PdfColor = [0.75, 0.75, 0.75]): this {
+    this.ensureSpace(8);
+    this.y += 4;
+    this.doc
+      .moveTo(MARGIN, this.y)
+      .lineTo(PAGE_WIDTH - MARGIN, this.y)
+      .lineWidth(0.5)
+      .strokeColor(toRgb(color))
+      .stroke();
+    this.y += 4;
+    return this;
+  }
+
+  moveDown(points: number): this {
+    this.y = Math.min(this.y + points, PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT);
+    return this;
+  }
+
+  /**
+   * Start a new page unless `points` of height are left on this one
+   */
+  ensureSpace(points: number): this {
+    if (this.y + points > PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT) {
+      this.addPage();
+    }
+    return this;
+  }
+
+  addPage(): this {
+    this.doc.addPage();
+    this.y = MARGIN;
+    return this;
+  }
+
+  /**
+   * Render the document, with `footer(page, pageCount)` printed on each page.
+   * A document can only be rendered once.
+   */
+  toBuffer(footer?: (page: number, pageCount: number) => string): Promise<Buffer> {
+    if (footer) {
+      const { start, count } = this.doc.bufferedPageRange();
+      for (let index = 0; index < count; index++) {
+        this.doc.switchToPage(start + index);
+        const label = footer(index + 1, count);
+        const size = 8;
+        const x = PAGE_WIDTH - MARGIN - this.textWidth(label, 'regular', size);
+        this.write(label, x, PAGE_HEIGHT - MARGIN + 10, 'regular', size, [0.45, 0.45, 0.45]);
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      this.doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      this.doc.on('end', () => resolve(Buffer.concat(chunks)));
+      this.doc.on('error', reject);
+      this.doc.end();
+    });
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  /**
+   * Draw one line of text with its baseline at `baseline`
+   */
+  private write(
+    text: string,
+    x: number,
+    baseline: number,
+    font: PdfFont,
+    size: number,
+    color: PdfColor = DEFAULT_COLOR
+  ): void {
+    this.doc.fillColor(toRgb(color)).fontSize(size);
+    for (const run of scriptRuns(text)) {
+      this.doc
+        .font(fontName(run.script, font))
+        .text(run.text, x, baseline, { lineBreak: false, baseline: 'alphabetic' });
+      x += this.doc.widthOfString(run.text);
+    }
+  }
+
+  /**
+   * Width of a string in points
+   */
+  private textWidth(text: string, font: PdfFont, size: number): number {
+    this.doc.fontSize(size);
+    return scriptRuns(text).reduce(
+      (width, run) => width + this.doc.font(fontName(run.script, font)).widthOfString(run.text),
+      0
+    );
+  }
+
+  /**
+   * Break text into lines that fit `width`, splitting overlong words
+   */
+  private wrap(text: string, font: PdfFont, size: number, width: number): string[] {
+    const lines: string[] = [];
+
+    for (const paragraph of text.split(/\r?\n/)) {
+      let line = '';
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (this.textWidth(candidate, font, size) <= width) {
+          line = candidate;
+          continue;
+        }
+
+        if (line) {
+          lines.push(line);
+        }
+        line = word;
+        while (this.textWidth(line, font, size) > width) {
+          let fit = line.length - 1;
+          while (fit > 1 && this.textWidth(line.slice(0, fit), font, size) > width) {
+            fit--;
+          }
+          lines.push(line.slice(0, fit));
+          line = line.slice(fit);
+        }
+      }
+      lines.push(line);
+    }
+
+    return lines;
+  }
+}
+
+export default PdfDocument;
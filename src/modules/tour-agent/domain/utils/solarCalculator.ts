@@ -0,0 +1,249 @@
+/**
+ * Solar calculator
+ *
+ * Sun position and the times the Sun crosses a given elevation, from the NOAA
+ * solar calculator equations (after Meeus, "Astronomical Algorithms"). Good to
+ * within a minute for sunrise and sunset between 1900 and 2100, which is
+ * plenty to plan golden-hour photography without the AI Engine.
+ *
+ * Golden hour is the Sun between -4° and 6° elevation and blue hour between
+ * -6° and -4°, matching the AI Engine's physics service. From a raised
+ * vantage point the horizon drops below eye level, so the Sun rises earlier
+ * and sets later by the horizon dip.
+ */
+
+export type LightQuality = 'golden' | 'blue' | 'harsh' | 'good' | 'dark';
+
+export interface SunPosition {
+  elevationDeg: number; // Apparent elevation, refraction included
+  azimuthDeg: number; // Clockwise from north
+  refractionDeg: number;
+}
+
+export interface SunWindow {
+  start: Date;
+  end: Date;
+}
+
+export interface SunTimes {
+  sunrise: Date | null; // null during polar day/night
+  sunset: Date | null;
+  horizonDipDeg: number;
+  solarNoon: Date;
+  solarNoonElevationDeg: number;
+  morningGoldenHour: SunWindow | null;
+  eveningGoldenHour: SunWindow | null;
+  morningBlueHour: SunWindow | null;
+  eveningBlueHour: SunWindow | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+export const SUNRISE_ELEVATION = -0.833; // Upper limb on the horizon, standard refraction
+export const GOLDEN_HOUR_LOW = -4;
+export const GOLDEN_HOUR_HIGH = 6;
+export const BLUE_HOUR_LOW = -6;
+const HARSH_LIGHT_ELEVATION = 45;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+
+const normalizeDegrees = (degrees: number): number => ((degrees % 360) + 360) % 360;
+
+/** Julian centuries since J2000.0 */
+const julianCenturies = (ms: number): number => (ms / DAY_MS + 2440587.5 - 2451545) / 36525;
+
+/**
+ * Declination (degrees) and equation of time (minutes) at an instant
+ */
+const solarCoordinates = (ms: number): { declination: number; equationOfTime: number } => {
+  const t = julianCenturies(ms);
+  const meanLongitude = normalizeDegrees(280.46646 + t * (36000.76983 + t * 0.0003032));
+  const meanAnomaly = 357.52911 + t * (35999.05029 - 0.0001537 * t);
+  const eccentricity = 0.016708634 - t * (0.000042037 + 0.0000001267 * t);
+
+  const m = toRadians(meanAnomaly);
+  const center =
+    Math.sin(m) * (1.914602 - t * (0.004817 + 0.000014 * t)) +
+    Math.sin(2 * m) * (0.019993 - 0.000101 * t) +
+    Math.sin(3 * m) * 0.000289;
+
+  const omega = toRadians(125.04 - 1934.136 * t);
+  const apparentLongitude = toRadians(meanLongitude + center - 0.00569 - 0.00478 * Math.sin(omega));
+  const meanObliquity =
+    23 + (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60;
+  const obliquity = toRadians(meanObliquity + 0.00256 * Math.cos(omega));
+
+  const declination = toDegrees(Math.asin(Math.sin(obliquity) * Math.sin(apparentLongitude)));
+
+  const y = Math.tan(obliquity / 2) ** 2;
+  const l0 = toRadians(meanLongitude);
+  const equationOfTime =
+    4 *
+    toDegrees(
+      y * Math.sin(2 * l0) -
+        2 * eccentricity * Math.sin(m) +
+        4 * eccentricity * y * Math.sin(m) * Math.cos(2 * l0) -
+        0.5 * y * y * Math.sin(4 * l0) -
+        1.25 * eccentricity * eccentricity * Math.sin(2 * m)
+    );
+
+  return { declination, equationOfTime };
+};
+
+/**
+ * How far below eye level the sea-level horizon lies for an observer at
+ * `elevationM` metres (degrees), with standard refraction
+ */
+export const horizonDip = (elevationM: number = 0): number =>
+  elevationM > 0 ? (1.76 * Math.sqrt(elevationM)) / 60 : 0;
+
+/**
+ * Atmospheric refraction (degrees) for a geometric elevation
+ */
+const refraction = (elevationDeg: number): number => {
+  if (elevationDeg > 85) return 0;
+
+  const tanE = Math.tan(toRadians(elevationDeg));
+  let arcSeconds: number;
+  if (elevationDeg > 5) {
+    arcSeconds = 58.1 / tanE - 0.07 / tanE ** 3 + 0.000086 / tanE ** 5;
+  } else if (elevationDeg > -0.575) {
+    arcSeconds =
+      1735 +
+      elevationDeg *
+        (-518.2 + elevationDeg * (103.4 + elevationDeg * (-12.79 + elevationDeg * 0.711)));
+  } else {
+    arcSeconds = -20.774 / tanE;
+  }
+  return arcSeconds / 3600;
+};
+
+/**
+ * Position of the Sun in the sky at an instant
+ */
+export const getSunPosition = (at: Date, latitude: number, longitude: number): SunPosition => {
+  const ms = at.getTime();
+  const { declination, equationOfTime } = solarCoordinates(ms);
+
+  const utcMinutes = (((ms % DAY_MS) + DAY_MS) % DAY_MS) / MINUTE_MS;
+  const trueSolarMinutes = utcMinutes + equationOfTime + 4 * longitude;
+  const hourAngle = toRadians(trueSolarMinutes / 4 - 180);
+
+  const lat = toRadians(latitude);
+  const dec = toRadians(declination);
+  const cosZenith = Math.min(
+    1,
+    Math.max(
+      -1,
+      Math.sin(lat) * Math.sin(dec) + Math.cos(lat) * Math.cos(dec) * Math.cos(hourAngle)
+    )
+  );
+  const geometricElevation = 90 - toDegrees(Math.acos(cosZenith));
+
+  const azimuth = normalizeDegrees(
+    toDegrees(
+      Math.atan2(
+        Math.sin(hourAngle),
+        Math.cos(hourAngle) * Math.sin(lat) - Math.tan(dec) * Math.cos(lat)
+      )
+    ) + 180
+  );
+
+  const refractionDeg = refraction(geometricElevation);
+  return {
+    elevationDeg: geometricElevation + refractionDeg,
+    azimuthDeg: azimuth,
+    refractionDeg,
+  };
+};
+
+/**
+ * Solar noon (ms) nearest to `aroundMs`
+ */
+const solarNoonNear = (aroundMs: number, longitude: number): number => {
+  const midnight = Math.floor(aroundMs / DAY_MS) * DAY_MS;
+  let noon = midnight + (720 - 4 * longitude) * MINUTE_MS;
+  for (let i = 0; i < 2; i++) {
+    noon = midnight + (720 - 4 * longitude - solarCoordinates(noon).equationOfTime) * MINUTE_MS;
+  }
+  return noon;
+};
+
+/**
+ * When the Sun's centre crosses `elevationDeg` before (rising) or after
+ * (setting) the given solar noon; null if it never gets there that day
+ */
+const timeAtElevation = (
+  noonMs: number,
+  latitude: number,
+  longitude: number,
+  elevationDeg: number,
+  rising: boolean
+): Date | null => {
+  const lat = toRadians(latitude);
+  let ms = noonMs;
+
+  for (let i = 0; i < 3; i++) {
+    const { declination, equationOfTime } = solarCoordinates(ms);
+    const dec = toRadians(declination);
+    const cosHourAngle =
+      (Math.sin(toRadians(elevationDeg)) - Math.sin(lat) * Math.sin(dec)) /
+      (Math.cos(lat) * Math.cos(dec));
+    if (cosHourAngle < -1 || cosHourAngle > 1) {
+      return null;
+    }
+
+    const hourAngle = toDegrees(Math.acos(cosHourAngle));
+    const midnight = Math.floor(noonMs / DAY_MS) * DAY_MS;
+    const noonMinutes = 720 - 4 * longitude - equationOfTime;
+    ms = midnight + (noonMinutes + (rising ? -4 : 4) * hourAngle) * MINUTE_MS;
+  }
+  return new Date(ms);
+};
+
+const toWindow = (start: Date | null, end: Date | null): SunWindow | null =>
+  start && end ? { start, end } : null;
+
+/**
+ * Sunrise, sunset, golden and blue hours for a calendar day.
+ * `dayStartMs` is local midnight of the day, as a UTC timestamp.
+ */
+export const getSunTimes = (
+  dayStartMs: number,
+  latitude: number,
+  longitude: number,
+  observerElevationM: number = 0
+): SunTimes => {
+  const noon = solarNoonNear(dayStartMs + DAY_MS / 2, longitude);
+  const dip = horizonDip(observerElevationM);
+  const at = (elevation: number, rising: boolean) =>
+    timeAtElevation(noon, latitude, longitude, elevation, rising);
+
+  const goldenLowMorning = at(GOLDEN_HOUR_LOW, true);
+  const goldenLowEvening = at(GOLDEN_HOUR_LOW, false);
+
+  return {
+    sunrise: at(SUNRISE_ELEVATION - dip, true),
+    sunset: at(SUNRISE_ELEVATION - dip, false),
+    horizonDipDeg: dip,
+    solarNoon: new Date(noon),
+    solarNoonElevationDeg: getSunPosition(new Date(noon), latitude, longitude).elevationDeg,
+    morningGoldenHour: toWindow(goldenLowMorning, at(GOLDEN_HOUR_HIGH, true)),
+    eveningGoldenHour: toWindow(at(GOLDEN_HOUR_HIGH, false), goldenLowEvening),
+    morningBlueHour: toWindow(at(BLUE_HOUR_LOW, true), goldenLowMorning),
+    eveningBlueHour: toWindow(goldenLowEvening, at(BLUE_HOUR_LOW, false)),
+  };
+};
+
+/**
+ * Photographic light quality for a Sun elevation
+ */
+export const classifyLight = (elevationDeg: number): LightQuality => {
+  if (elevationDeg < BLUE_HOUR_LOW) return 'dark';
+  if (elevationDeg < GOLDEN_HOUR_LOW) return 'blue';
+  if (elevationDeg < GOLDEN_HOUR_HIGH) return 'golden';
+  if (elevationDeg < HARSH_LIGHT_ELEVATION) return 'good';
+  return 'harsh';
+};
@@ -29,6 +29,7 @@ import type {
   IDeltaPlan,
   IWeatherForecast,
 } from '../models/TripPlan';
+import { TripNotificationService } from '../services/TripNotificationService';
 import { httpClient } from '../../../../shared/utils/httpClient';
 import { logger } from '../../../../shared/config/logger';
 import { v4 as uuidv4 } from 'uuid';
@@ -68,9 +69,11 @@ export class ShadowWatcher {
   private isRunning: boolean = false;
   private intervalId: NodeJS.Timeout | null = null;
   private processingCount: number = 0;
+  private notificationService: TripNotificationService;
 
   constructor(config: Partial<ShadowWatcherConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.notificationService = new TripNotificationService();
     logger.info('ShadowWatcher initialized', {
       enabled: this.config.enabled,
       checkInterval: this.config.checkIntervalMs,
@@ -592,8 +595,9 @@ export class ShadowWatcher {
    * Add an alert to the trip
    */
   private async addAlertToTrip(trip: ITripPlan, alert: IActiveAlert): Promise<void> {
-    // Check if alert already exists (by comparing title and location)
-    const exists = trip.activeAlerts.some(
+    // Check if alert already exists (by comparing title and location). Alerts the user
+    // has already acknowledged live in alertHistory and must not be raised again.
+    const exists = [...trip.activeAlerts, ...trip.alertHistory].some(
       (a) => a.title === alert.title && a.affectedLocation === alert.affectedLocation
     );
 
@@ -609,69 +613,27 @@ export class ShadowWatcher {
   }
 
   /**
-   * Send notifications to the user
+   * Send notifications to the user over their enabled channels.
+   * Delivery failures are recorded on the notification and never fail the check.
    */
   private async sendNotifications(
     trip: ITripPlan,
     status: 'warning' | 'failed',
     details: string[]
   ): Promise<void> {
-    // Check notification preferences
-    if (
-      !trip.notificationPreferences.enablePush &&
-      !trip.notificationPreferences.enableEmail &&
-      !trip.notificationPreferences.enableSms
-    ) {
-      return;
-    }
-
-    const severity = status === 'failed' ? AlertSeverity.HIGH : AlertSeverity.MEDIUM;
-
-    // Check threshold
-    const severityOrder = [
-      AlertSeverity.INFO,
-      AlertSeverity.LOW,
-      AlertSeverity.MEDIUM,
-      AlertSeverity.HIGH,
-      AlertSeverity.CRITICAL,
-    ];
-    const thresholdIndex = severityOrder.indexOf(trip.notificationPreferences.alertThreshold);
-    const currentIndex = severityOrder.indexOf(severity);
-
-    if (currentIndex < thresholdIndex) {
-      return; // Below user's threshold
-    }
-
-    const notification = {
-      notificationId: uuidv4(),
-      type: 'alert' as const,
-      title: status === 'failed' ? 'Trip Alert: Action Required' : 'Trip Advisory',
-      message: details.slice(0, 3).join('; '),
-      sentAt: new Date(),
-      sentVia: [] as ('push' | 'email' | 'sms')[],
-    };
-
-    // Determine channels
-    if (trip.notificationPreferences.enablePush) {
-      notification.sentVia.push('push');
-      // TODO: Implement push notification sending
-    }
-    if (trip.notificationPreferences.enableEmail) {
-      notification.sentVia.push('email');
-      // TODO: Implement email sending
-    }
-    if (trip.notificationPreferences.enableSms) {
-      notification.sentVia.push('sms');
-      // TODO: Implement SMS sending
+    try {
+      await this.notificationService.notify(trip, {
+        type: 'alert',
+        title: status === 'failed' ? 'Trip Alert: Action Required' : 'Trip Advisory',
+        message: details.slice(0, 3).join('; '),
+        severity: status === 'failed' ? AlertSeverity.HIGH : AlertSeverity.MEDIUM,
+      });
+    } catch (error) {
+      logger.error('ShadowWatcher: Failed to send notifications', {
+        tripId: trip.id,
+        error: (error as Error).message,
+      });
     }
-
-    trip.notifications.push(notification);
-
-    logger.info('ShadowWatcher: Notification sent', {
-      tripId: trip.id,
-      type: notification.type,
-      channels: notification.sentVia,
-    });
   }
 
   /**
@@ -0,0 +1,177 @@
+/**
+ * Tour Plan Job Worker
+ *
+ * Runs queued tour plan jobs against the AI Engine, a few at a time. New jobs
+ * on this server start immediately; the poll picks up jobs queued on other
+ * servers and jobs whose server restarted mid-run (their lease runs out).
+ */
+
+import { TourPlanJobService, tourPlanJobEvents } from '../services/TourPlanJobService';
+import { logger } from '../../../../shared/config/logger';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+interface TourPlanJobWorkerConfig {
+  enabled: boolean;
+  pollIntervalMs: number; // How often the queue is checked for stray jobs
+  concurrency: number; // Jobs run at once on this server
+}
+
+const DEFAULT_CONFIG: TourPlanJobWorkerConfig = {
+  enabled: true,
+  pollIntervalMs: 5 * 1000, // Every 5 seconds
+  concurrency: 3,
+};
+
+// ============================================================================
+// TOUR PLAN JOB WORKER CLASS
+// ============================================================================
+
+export class TourPlanJobWorker {
+  private config: TourPlanJobWorkerConfig;
+  private isRunning: boolean = false;
+  private isProcessing: boolean = false;
+  private cycleRequested: boolean = false;
+  private activeJobs: number = 0;
+  private intervalId: NodeJS.Timeout | null = null;
+  private jobService: TourPlanJobService;
+  private onQueued = () => {
+    this.runCycle();
+  };
+
+  constructor(config: Partial<TourPlanJobWorkerConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.jobService = new TourPlanJobService();
+  }
+
+  /**
+   * Start running jobs as they are queued, and polling for the rest
+   */
+  start(): void {
+    if (this.isRunning) {
+      logger.warn('TourPlanJobWorker is already running');
+      return;
+    }
+
+    if (!this.config.enabled) {
+      logger.info('TourPlanJobWorker is disabled by configuration');
+      return;
+    }
+
+    this.isRunning = true;
+    logger.info('TourPlanJobWorker started', {
+      pollInterval: this.config.pollIntervalMs,
+      concurrency: this.config.concurrency,
+    });
+
+    tourPlanJobEvents.on('queued', this.onQueued);
+
+    // Run immediately on start to resume jobs left behind by a restart
+    this.runCycle();
+    this.intervalId = setInterval(() => {
+      this.runCycle();
+    }, this.config.pollIntervalMs);
+  }
+
+  /**
+   * Stop the worker. Jobs already running finish; anything else stays queued.
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    tourPlanJobEvents.off('queued', this.onQueued);
+    this.isRunning = false;
+    logger.info('TourPlanJobWorker stopped');
+  }
+
+  /**
+   * Claim jobs until this server is at capacity or the queue is empty
+   */
+  async runCycle(): Promise<void> {
+    if (this.isProcessing) {
+      // Run again afterwards, so a job queued mid-cycle doesn't wait for the poll
+      this.cycleRequested = true;
+      return;
+    }
+
+    this.isProcessing = true;
+    this.cycleRequested = false;
+    try {
+      const failed = await this.jobService.failAbandonedJobs();
+      if (failed > 0) {
+        logger.warn(`TourPlanJobWorker: Failed ${failed} jobs abandoned after repeated restarts`);
+      }
+
+      while (this.isRunning && this.activeJobs < this.config.concurrency) {
+        const job = await this.jobService.claimNextJob();
+        if (!job) break;
+
+        this.activeJobs++;
+        this.jobService
+          .runJob(job)
+          .catch((error) => {
+            logger.error(`TourPlanJobWorker: Job ${job._id} could not be recorded`, {
+              error: (error as Error).message,
+            });
+          })
+          .finally(() => {
+            this.activeJobs--;
+            // A slot opened up; pick up anything that queued meanwhile
+            this.runCycle();
+          });
+      }
+    } catch (error) {
+      logger.error('TourPlanJobWorker: Cycle failed', {
+        error: (error as Error).message,
+      });
+    } finally {
+      this.isProcessing = false;
+    }
+
+    if (this.cycleRequested) {
+      this.runCycle();
+    }
+  }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
+
+let tourPlanJobWorkerInstance: TourPlanJobWorker | null = null;
+
+/**
+ * Get or create the Tour Plan Job Worker instance
+ */
+export function getTourPlanJobWorker(config?: Partial<TourPlanJobWorkerConfig>): TourPlanJobWorker {
+  if (!tourPlanJobWorkerInstance) {
+    tourPlanJobWorkerInstance = new TourPlanJobWorker(config);
+  }
+  return tourPlanJobWorkerInstance;
+}
+
+/**
+ * Start the Tour Plan Job Worker
+ */
+export function startTourPlanJobWorker(
+  config?: Partial<TourPlanJobWorkerConfig>
+): TourPlanJobWorker {
+  const worker = getTourPlanJobWorker(config);
+  worker.start();
+  return worker;
+}
+
+/**
+ * Stop the Tour Plan Job Worker
+ */
+export function stopTourPlanJobWorker(): void {
+  if (tourPlanJobWorkerInstance) {
+    tourPlanJobWorkerInstance.stop();
+  }
+}
+
+export default TourPlanJobWorker;
@@ -0,0 +1,107 @@
+import { Response, NextFunction } from 'express';
+import { holidayService } from '../../domain/utils/HolidayService';
+import { toSriLankaDate } from '../../domain/utils/PoyaCalendar';
+import { AuthRequest } from '../../../../shared/middleware/auth';
+import { logger } from '../../../../shared/config/logger';
+
+export class HolidayController {
+  /**
+   * Public holidays and Poya days for a year, with overrides applied
+   * @route GET /api/v1/holidays
+   */
+  getHolidays = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const year = this.getYear(req);
+      const holidays = await holidayService.getYearHolidays(year);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          year,
+          holidays,
+        },
+      });
+    } catch (error) {
+      logger.error('Error in getHolidays:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * List the admin overrides for a year
+   * @route GET /api/v1/holidays/overrides
+   */
+  getOverrides = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const year = this.getYear(req);
+      const overrides = await holidayService.getOverrides(year);
+
+      res.status(200).json({
+        success: true,
+        data: overrides,
+      });
+    } catch (error) {
+      logger.error('Error in getOverrides:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Add a holiday, or remove a computed one
+   * @route PUT /api/v1/holidays/overrides
+   */
+  saveOverride = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      const { date, name, action, is_poya, notes } = req.body;
+      const override = await holidayService.saveOverride(
+        { date, name, action, isPoya: is_poya, notes },
+        userId
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Holiday override saved successfully',
+        data: override,
+      });
+    } catch (error) {
+      logger.error('Error in saveOverride:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Delete an override, restoring the computed calendar for that holiday
+   * @route DELETE /api/v1/holidays/overrides/:id
+   */
+  deleteOverride = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      await holidayService.deleteOverride(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Holiday override deleted successfully',
+      });
+    } catch (error) {
+      logger.error('Error in deleteOverride:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Requested year, defaulting to the current year in Sri Lanka
+   */
+  private getYear(req: AuthRequest): number {
+    return req.query.year
+      ? parseInt(req.query.year as string, 10)
+      : Number(toSriLankaDate(new Date()).slice(0, 4));
+  }
+}
@@ -1,5 +1,6 @@
 import { Response, NextFunction } from 'express';
 import { IncidentService } from '../../domain/services/IncidentService';
+import { IncidentHistoryFilter } from '../../domain/repositories/IncidentRepository';
 import { AuthRequest } from '../../../../shared/middleware/auth';
 import { logger } from '../../../../shared/config/logger';
 
@@ -108,7 +109,7 @@ export class IncidentController {
     next: NextFunction
   ): Promise<void> => {
     try {
-      const { origin_lat, origin_lng, dest_lat, dest_lng, radius_km } = req.query;
+      const { origin_lat, origin_lng, dest_lat, dest_lng, corridor_m, radius_km } = req.query;
 
       if (!origin_lat || !origin_lng || !dest_lat || !dest_lng) {
         res.status(400).json({
@@ -122,14 +123,20 @@ export class IncidentController {
       const originLng = parseFloat(origin_lng as string);
       const destLat = parseFloat(dest_lat as string);
       const destLng = parseFloat(dest_lng as string);
-      const radius = radius_km ? parseFloat(radius_km as string) : 10;
+      // radius_km is the older, coarser way of setting the corridor width
+      let corridorKm: number | undefined;
+      if (corridor_m) {
+        corridorKm = parseFloat(corridor_m as string) / 1000;
+      } else if (radius_km) {
+        corridorKm = parseFloat(radius_km as string);
+      }
 
       const incidents = await this.incidentService.getIncidentsForRoute(
         originLat,
         originLng,
         destLat,
         destLng,
-        radius
+        corridorKm
       );
 
       res.status(200).json({
@@ -320,6 +327,52 @@ export class IncidentController {
     }
   };
 
+  /**
+   * Search incident history, including resolved and archived incidents
+   * @route GET /api/v1/transport-incidents/history
+   */
+  getIncidentHistory = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { status, incident_type, severity, district, from, to, limit, skip } = req.query;
+      const limitNum = limit ? parseInt(limit as string, 10) : 50;
+      const skipNum = skip ? parseInt(skip as string, 10) : 0;
+
+      const { incidents, total } = await this.incidentService.getIncidentHistory(
+        {
+          status: status as IncidentHistoryFilter['status'],
+          incident_type: incident_type as IncidentHistoryFilter['incident_type'],
+          severity: severity as IncidentHistoryFilter['severity'],
+          district: district as string | undefined,
+          from: from ? new Date(from as string) : undefined,
+          to: to ? new Date(to as string) : undefined,
+        },
+        limitNum,
+        skipNum
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          incidents,
+          count: incidents.length,
+        },
+        pagination: {
+          total,
+          limit: limitNum,
+          skip: skipNum,
+          hasMore: total > skipNum + limitNum,
+        },
+      });
+    } catch (error) {
+      logger.error('Error in getIncidentHistory:', error);
+      next(error);
+    }
+  };
+
   /**
    * Get user's reported incidents
    * @route GET /api/v1/incidents/my-reports
@@ -0,0 +1,165 @@
+import { Response, NextFunction } from 'express';
+import { GtfsImportService, GtfsSource } from '../../domain/services/GtfsImportService';
+import { TimetableService } from '../../domain/services/TimetableService';
+import { AuthRequest } from '../../../../shared/middleware/auth';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+import { logger } from '../../../../shared/config/logger';
+
+export class TimetableController {
+  private gtfsImportService: GtfsImportService;
+  private timetableService: TimetableService;
+
+  constructor() {
+    this.gtfsImportService = new GtfsImportService();
+    this.timetableService = new TimetableService();
+  }
+
+  /**
+   * Upload and import a GTFS feed (one zip, or the individual CSV files)
+   * @route POST /api/v1/timetables/feeds
+   */
+  importFeed = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      const files = (req.files as Express.Multer.File[]) || [];
+      const { feed_id, name, operator, timezone, default_mode } = req.body;
+
+      const feed = await this.gtfsImportService.importFeed(this.toGtfsSource(files), {
+        feedId: feed_id,
+        name,
+        operator,
+        timezone,
+        defaultMode: default_mode,
+        importedBy: userId,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Timetable feed imported successfully',
+        data: feed,
+      });
+    } catch (error) {
+      logger.error('Error in importFeed:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * List timetable feeds and their import status
+   * @route GET /api/v1/timetables/feeds
+   */
+  getFeeds = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const status = req.query.status as 'importing' | 'active' | 'failed' | undefined;
+      const feeds = await this.timetableService.getFeeds(status);
+
+      res.status(200).json({
+        success: true,
+        data: feeds,
+      });
+    } catch (error) {
+      logger.error('Error in getFeeds:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Get a single feed with counts, validity range and import warnings
+   * @route GET /api/v1/timetables/feeds/:feedId
+   */
+  getFeed = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const feed = await this.timetableService.getFeed(req.params.feedId);
+
+      res.status(200).json({
+        success: true,
+        data: feed,
+      });
+    } catch (error) {
+      logger.error('Error in getFeed:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Delete a feed and all of its timetable data
+   * @route DELETE /api/v1/timetables/feeds/:feedId
+   */
+  deleteFeed = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      await this.timetableService.deleteFeed(req.params.feedId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Timetable feed deleted successfully',
+      });
+    } catch (error) {
+      logger.error('Error in deleteFeed:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Check scheduled departures between two cities against the imported feeds
+   * @route GET /api/v1/timetables/departures
+   */
+  getDepartures = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { origin_city_id, destination_city_id, mode, count, time } = req.query;
+
+      const departures = await this.timetableService.getScheduledDepartures(
+        parseInt(origin_city_id as string, 10),
+        parseInt(destination_city_id as string, 10),
+        mode as 'bus' | 'train',
+        time ? new Date(time as string) : new Date(),
+        count ? parseInt(count as string, 10) : 5
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          has_timetable: departures !== null,
+          departures: departures || [],
+        },
+      });
+    } catch (error) {
+      logger.error('Error in getDepartures:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * Turn uploaded files into a GTFS source: a single .zip, or .txt/.csv files
+   */
+  private toGtfsSource(files: Express.Multer.File[]): GtfsSource {
+    if (files.length === 0) {
+      throw new AppError('Upload a GTFS zip or its CSV files', 400);
+    }
+
+    const zipFiles = files.filter((file) => /\.zip$/i.test(file.originalname));
+    if (zipFiles.length > 0) {
+      if (files.length > 1) {
+        throw new AppError('Upload either a single zip or CSV files, not both', 400);
+      }
+      return { format: 'zip', buffer: zipFiles[0].buffer, sourceName: zipFiles[0].originalname };
+    }
+
+    const csvFiles: Record<string, string> = {};
+    for (const file of files) {
+      csvFiles[file.originalname] = file.buffer.toString('utf-8');
+    }
+    return {
+      format: 'csv',
+      files: csvFiles,
+      sourceName: files.map((file) => file.originalname).join(', '),
+    };
+  }
+}
@@ -39,7 +39,7 @@ export class TransportChatbotController {
         user_id: userId,
         message,
         conversation_id,
-        language: language || 'en',
+        language,
         context: current_location ? { current_location } : undefined,
       });
 
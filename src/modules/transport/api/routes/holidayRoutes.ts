@@ -0,0 +1,64 @@
+import { Router } from 'express';
+import { HolidayController } from '../controllers/HolidayController';
+import { authenticate, authorize } from '../../../../shared/middleware/auth';
+import { validateRequest } from '../../../../shared/middleware/validator';
+import {
+  yearQueryValidator,
+  saveOverrideValidator,
+  overrideIdValidator,
+} from '../validators/holidayValidator';
+
+const router = Router();
+const holidayController = new HolidayController();
+
+router.use(authenticate as any);
+
+/**
+ * @route   GET /api/v1/holidays
+ * @desc    Public holidays and Poya days for a year (computed, with admin overrides applied)
+ * @access  Private
+ * @query   year (optional, defaults to the current year)
+ */
+router.get('/', yearQueryValidator, validateRequest, holidayController.getHolidays);
+
+/**
+ * @route   GET /api/v1/holidays/overrides
+ * @desc    List admin overrides to the computed calendar for a year
+ * @access  Private (admin)
+ * @query   year (optional, defaults to the current year)
+ */
+router.get(
+  '/overrides',
+  authorize('admin') as any,
+  yearQueryValidator,
+  validateRequest,
+  holidayController.getOverrides
+);
+
+/**
+ * @route   PUT /api/v1/holidays/overrides
+ * @desc    Add a holiday, or remove a computed one (keyed by date and name)
+ * @access  Private (admin)
+ */
+router.put(
+  '/overrides',
+  authorize('admin') as any,
+  saveOverrideValidator,
+  validateRequest,
+  holidayController.saveOverride
+);
+
+/**
+ * @route   DELETE /api/v1/holidays/overrides/:id
+ * @desc    Delete an override, restoring the computed holiday
+ * @access  Private (admin)
+ */
+router.delete(
+  '/overrides/:id',
+  authorize('admin') as any,
+  overrideIdValidator,
+  validateRequest,
+  holidayController.deleteOverride
+);
+
+export { router as holidayRoutes };
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { IncidentController } from '../controllers/IncidentController';
-import { authenticate } from '../../../../shared/middleware/auth';
+import { authenticate, authorize } from '../../../../shared/middleware/auth';
 import { validateRequest } from '../../../../shared/middleware/validator';
 import {
   reportIncidentValidator,
@@ -11,6 +11,7 @@ import {
   incidentIdValidator,
   resolveIncidentValidator,
   incidentPaginationValidator,
+  incidentHistoryValidator,
 } from '../validators/incidentValidator';
 
 const router = Router();
@@ -40,9 +41,9 @@ router.get(
 
 /**
  * @route   GET /api/v1/transport-incidents/route
- * @desc    Get incidents affecting a route by coordinates
+ * @desc    Get incidents along the driving route between two coordinates
  * @access  Private
- * @query   origin_lat, origin_lng, dest_lat, dest_lng, radius_km (optional)
+ * @query   origin_lat, origin_lng, dest_lat, dest_lng, corridor_m (optional), radius_km (optional, legacy)
  */
 router.get(
   '/route',
@@ -89,11 +90,12 @@ router.post(
 
 /**
  * @route   POST /api/v1/transport-incidents/:incidentId/resolve
- * @desc    Mark an incident as resolved (admin/authorized users)
- * @access  Private
+ * @desc    Mark an incident as resolved
+ * @access  Private (admin, moderator)
  */
 router.post(
   '/:incidentId/resolve',
+  authorize('admin', 'moderator') as any,
   resolveIncidentValidator,
   validateRequest,
   incidentController.resolveIncident
@@ -118,6 +120,19 @@ router.get(
  */
 router.get('/statistics', incidentController.getIncidentStatistics);
 
+/**
+ * @route   GET /api/v1/transport-incidents/history
+ * @desc    Search past and present incidents, including resolved and archived ones
+ * @access  Private
+ * @query   status, incident_type, severity, district, from, to, limit, skip (all optional)
+ */
+router.get(
+  '/history',
+  incidentHistoryValidator,
+  validateRequest,
+  incidentController.getIncidentHistory
+);
+
 /**
  * @route   GET /api/v1/transport-incidents/my-reports
  * @desc    Get incidents reported by the current user
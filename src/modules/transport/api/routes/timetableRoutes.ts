@@ -0,0 +1,95 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { TimetableController } from '../controllers/TimetableController';
+import { authenticate, authorize } from '../../../../shared/middleware/auth';
+import { validateRequest } from '../../../../shared/middleware/validator';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+import {
+  importFeedValidator,
+  feedIdValidator,
+  getFeedsValidator,
+  getDeparturesValidator,
+} from '../validators/timetableValidator';
+
+const router = Router();
+const timetableController = new TimetableController();
+
+const MAX_FEED_FILE_SIZE = 100 * 1024 * 1024; // 100MB - national stop_times files are large
+const MAX_FEED_FILES = 10;
+
+const feedUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_FEED_FILE_SIZE, files: MAX_FEED_FILES },
+  fileFilter: (_req, file, callback) => {
+    if (/\.(zip|txt|csv)$/i.test(file.originalname)) {
+      callback(null, true);
+    } else {
+      callback(new AppError(`Unsupported feed file: ${file.originalname}`, 400));
+    }
+  },
+}).array('files', MAX_FEED_FILES);
+
+/**
+ * Parse multipart feed uploads, reporting upload limit errors as 400s
+ */
+const uploadFeedFiles = (req: Request, res: Response, next: NextFunction) => {
+  feedUpload(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      next(new AppError(`Feed upload failed: ${error.message}`, 400));
+      return;
+    }
+    next(error);
+  });
+};
+
+// All timetable routes are admin-only
+router.use(authenticate as any, authorize('admin') as any);
+
+/**
+ * @route   POST /api/v1/timetables/feeds
+ * @desc    Upload a GTFS feed (zip or CSV files in "files") and import it, replacing any previous version
+ * @access  Private (admin)
+ */
+router.post(
+  '/feeds',
+  uploadFeedFiles,
+  importFeedValidator,
+  validateRequest,
+  timetableController.importFeed
+);
+
+/**
+ * @route   GET /api/v1/timetables/feeds
+ * @desc    List timetable feeds with their import status
+ * @access  Private (admin)
+ */
+router.get('/feeds', getFeedsValidator, validateRequest, timetableController.getFeeds);
+
+/**
+ * @route   GET /api/v1/timetables/feeds/:feedId
+ * @desc    Get a feed's status, counts, validity range and import warnings
+ * @access  Private (admin)
+ */
+router.get('/feeds/:feedId', feedIdValidator, validateRequest, timetableController.getFeed);
+
+/**
+ * @route   DELETE /api/v1/timetables/feeds/:feedId
+ * @desc    Delete a feed and all of its timetable data
+ * @access  Private (admin)
+ */
+router.delete('/feeds/:feedId', feedIdValidator, validateRequest, timetableController.deleteFeed);
+
+/**
+ * @route   GET /api/v1/timetables/departures
+ * @desc    Check scheduled departures between two cities
+ * @access  Private (admin)
+ * @query   origin_city_id, destination_city_id, mode (bus|train), count (optional), time (optional)
+ */
+router.get(
+  '/departures',
+  getDeparturesValidator,
+  validateRequest,
+  timetableController.getDepartures
+);
+
+export { router as timetableRoutes };
@@ -0,0 +1,42 @@
+import { body, param, query } from 'express-validator';
+
+/**
+ * Validator for the optional year filter
+ */
+export const yearQueryValidator = [
+  query('year')
+    .optional()
+    .isInt({ min: 1900, max: 2100 })
+    .withMessage('Year must be between 1900 and 2100'),
+];
+
+/**
+ * Validator for adding or replacing a holiday override
+ */
+export const saveOverrideValidator = [
+  body('date')
+    .notEmpty()
+    .withMessage('Date is required')
+    .matches(/^\d{4}-\d{2}-\d{2}$/)
+    .withMessage('Date must be in YYYY-MM-DD format')
+    .isISO8601({ strict: true })
+    .withMessage('Date must be a valid calendar date'),
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Holiday name is required')
+    .isLength({ max: 200 })
+    .withMessage('Holiday name must be at most 200 characters'),
+  body('action').isIn(['add', 'remove']).withMessage('Action must be add or remove'),
+  body('is_poya').optional().isBoolean().withMessage('is_poya must be a boolean').toBoolean(),
+  body('notes')
+    .optional()
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('Notes must be at most 500 characters'),
+];
+
+/**
+ * Validator for override ID parameter
+ */
+export const overrideIdValidator = [param('id').isMongoId().withMessage('Invalid override ID')];
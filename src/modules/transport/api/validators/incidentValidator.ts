@@ -49,8 +49,20 @@ export const reportIncidentValidator = [
     .withMessage('Invalid severity level'),
   body('affected_routes').optional().isArray().withMessage('Affected routes must be an array'),
   body('attachments').optional().isObject().withMessage('Attachments must be an object'),
-  body('attachments.image_urls').optional().isArray().withMessage('Image URLs must be an array'),
-  body('attachments.video_urls').optional().isArray().withMessage('Video URLs must be an array'),
+  body('attachments.image_urls')
+    .optional()
+    .isArray({ max: 10 })
+    .withMessage('Image URLs must be an array of at most 10 URLs'),
+  body('attachments.image_urls.*')
+    .isURL({ require_tld: false })
+    .withMessage('Each image URL must be a valid URL'),
+  body('attachments.video_urls')
+    .optional()
+    .isArray({ max: 3 })
+    .withMessage('Video URLs must be an array of at most 3 URLs'),
+  body('attachments.video_urls.*')
+    .isURL({ require_tld: false })
+    .withMessage('Each video URL must be a valid URL'),
 ];
 
 /**
@@ -97,6 +109,10 @@ export const getIncidentsForRouteValidator = [
     .withMessage('Destination longitude is required')
     .isFloat({ min: -180, max: 180 })
     .withMessage('Destination longitude must be between -180 and 180'),
+  query('corridor_m')
+    .optional()
+    .isInt({ min: 50, max: 20000 })
+    .withMessage('Corridor must be between 50 and 20000 metres'),
   query('radius_km')
     .optional()
     .isFloat({ min: 0.1, max: 50 })
@@ -166,3 +182,38 @@ export const incidentPaginationValidator = [
     .isInt({ min: 1, max: 100 })
     .withMessage('Limit must be between 1 and 100'),
 ];
+
+/**
+ * Validator for searching incident history (including resolved and archived incidents)
+ */
+export const incidentHistoryValidator = [
+  query('status')
+    .optional()
+    .isIn(['active', 'resolved', 'archived'])
+    .withMessage('Status must be active, resolved or archived'),
+  query('incident_type')
+    .optional()
+    .isIn([
+      'accident',
+      'road_block',
+      'traffic_jam',
+      'pothole',
+      'flooding',
+      'landslide',
+      'construction',
+      'other',
+    ])
+    .withMessage('Invalid incident type'),
+  query('severity')
+    .optional()
+    .isIn(['low', 'medium', 'high', 'critical'])
+    .withMessage('Invalid severity level'),
+  query('district').optional().isString().withMessage('District must be a string'),
+  query('from').optional().isISO8601().withMessage('From must be an ISO 8601 date'),
+  query('to').optional().isISO8601().withMessage('To must be an ISO 8601 date'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+  query('skip').optional().isInt({ min: 0 }).withMessage('Skip must be 0 or more'),
+];
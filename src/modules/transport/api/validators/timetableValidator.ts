@@ -0,0 +1,67 @@
+import { body, param, query } from 'express-validator';
+
+/**
+ * Validator for uploading a GTFS feed (multipart fields alongside the files)
+ */
+export const importFeedValidator = [
+  body('feed_id')
+    .trim()
+    .notEmpty()
+    .withMessage('Feed ID is required')
+    .matches(/^[A-Za-z0-9_-]{2,50}$/)
+    .withMessage('Feed ID must be 2-50 letters, numbers, dashes or underscores'),
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Feed name is required')
+    .isLength({ max: 200 })
+    .withMessage('Feed name must be at most 200 characters'),
+  body('operator').optional().isString().withMessage('Operator must be a string'),
+  body('timezone').optional().isString().withMessage('Timezone must be a string'),
+  body('default_mode')
+    .optional()
+    .isIn(['bus', 'train'])
+    .withMessage('Default mode must be bus or train'),
+];
+
+/**
+ * Validator for feed ID parameter
+ */
+export const feedIdValidator = [
+  param('feedId')
+    .matches(/^[A-Za-z0-9_-]{2,50}$/)
+    .withMessage('Invalid feed ID'),
+];
+
+/**
+ * Validator for listing feeds
+ */
+export const getFeedsValidator = [
+  query('status')
+    .optional()
+    .isIn(['importing', 'active', 'failed'])
+    .withMessage('Invalid feed status'),
+];
+
+/**
+ * Validator for checking departures between two cities
+ */
+export const getDeparturesValidator = [
+  query('origin_city_id')
+    .notEmpty()
+    .withMessage('origin_city_id is required')
+    .isInt()
+    .withMessage('origin_city_id must be an integer'),
+  query('destination_city_id')
+    .notEmpty()
+    .withMessage('destination_city_id is required')
+    .isInt()
+    .withMessage('destination_city_id must be an integer'),
+  query('mode')
+    .notEmpty()
+    .withMessage('mode is required')
+    .isIn(['bus', 'train'])
+    .withMessage('mode must be bus or train'),
+  query('count').optional().isInt({ min: 1, max: 10 }).withMessage('count must be 1-10'),
+  query('time').optional().isISO8601().withMessage('time must be an ISO 8601 date'),
+];
@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * An admin correction to the computed holiday calendar. "add" declares a
+ * holiday the calendar can't compute (e.g. Id-Ul-Fitr, a special bank
+ * holiday, or a Poya the almanac moved); "remove" drops the computed holiday
+ * with the same date and name.
+ */
+export interface IHolidayOverride extends Document {
+  date: string; // YYYY-MM-DD, Sri Lanka time
+  name: string;
+  action: 'add' | 'remove';
+  is_poya: boolean;
+  notes?: string;
+  updated_by: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const HolidayOverrideSchema = new Schema<IHolidayOverride>(
+  {
+    date: {
+      type: String,
+      required: true,
+      match: /^\d{4}-\d{2}-\d{2}$/,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 200,
+    },
+    action: {
+      type: String,
+      required: true,
+      enum: ['add', 'remove'],
+    },
+    is_poya: {
+      type: Boolean,
+      default: false,
+    },
+    notes: {
+      type: String,
+      required: false,
+      maxlength: 500,
+    },
+    updated_by: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One override per holiday; correcting it again replaces the previous one
+HolidayOverrideSchema.index({ date: 1, name: 1 }, { unique: true });
+
+export const HolidayOverride = mongoose.model<IHolidayOverride>(
+  'HolidayOverride',
+  HolidayOverrideSchema
+);
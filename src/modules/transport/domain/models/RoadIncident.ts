@@ -44,6 +44,10 @@ export interface IRoadIncident extends Document {
   title: string;
   description: string;
   location: ILocation;
+  geo_location?: {
+    type: 'Point';
+    coordinates: [number, number]; // [longitude, latitude], kept in sync with location
+  };
   severity: 'low' | 'medium' | 'high' | 'critical'; // Impact on travel
   status: 'active' | 'resolved' | 'archived';
   affected_routes?: IAffectedRoute[];
@@ -61,7 +65,8 @@ export interface IRoadIncident extends Document {
   resolved_by?: mongoose.Types.ObjectId;
   resolved_at?: Date;
   resolution_notes?: string;
-  expires_at?: Date; // Auto-archive after certain time
+  expires_at?: Date; // Archived by the lifecycle worker after this time
+  archived_at?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -119,6 +124,16 @@ const RoadIncidentSchema = new Schema<IRoadIncident>(
         required: false,
       },
     },
+    geo_location: {
+      type: {
+        type: String,
+        enum: ['Point'],
+      },
+      coordinates: {
+        type: [Number],
+        default: undefined,
+      },
+    },
     severity: {
       type: String,
       enum: ['low', 'medium', 'high', 'critical'],
@@ -236,6 +251,10 @@ const RoadIncidentSchema = new Schema<IRoadIncident>(
       required: false,
       default: () => new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days default
     },
+    archived_at: {
+      type: Date,
+      required: false,
+    },
   },
   {
     timestamps: true,
@@ -244,8 +263,22 @@ const RoadIncidentSchema = new Schema<IRoadIncident>(
 
 // Index for geospatial queries
 RoadIncidentSchema.index({ 'location.latitude': 1, 'location.longitude': 1 });
+RoadIncidentSchema.index({ geo_location: '2dsphere' }); // route corridor matching
 RoadIncidentSchema.index({ status: 1, is_resolved: 1 });
 RoadIncidentSchema.index({ reporter_id: 1, createdAt: -1 });
-RoadIncidentSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 }); // TTL index
+// Expired incidents are archived by the lifecycle worker, not deleted by a TTL index
+RoadIncidentSchema.index({ status: 1, expires_at: 1 });
+RoadIncidentSchema.index({ createdAt: -1, incident_type: 1 }); // history queries
+
+// Mirror the reported coordinates as a GeoJSON point for the 2dsphere index
+RoadIncidentSchema.pre('save', function (next) {
+  if (this.location?.latitude !== undefined && this.location?.longitude !== undefined) {
+    this.geo_location = {
+      type: 'Point',
+      coordinates: [this.location.longitude, this.location.latitude],
+    };
+  }
+  next();
+});
 
 export const RoadIncident = mongoose.model<IRoadIncident>('RoadIncident', RoadIncidentSchema);
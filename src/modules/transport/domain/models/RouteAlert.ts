@@ -0,0 +1,49 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Record of a route incident alert sent to a user. Guarantees each user hears
+ * about an incident once.
+ */
+export interface IRouteAlert extends Document {
+  user_id: mongoose.Types.ObjectId;
+  incident_id: mongoose.Types.ObjectId;
+  source: 'chatbot' | 'saved_trip';
+  source_id: string; // route ID of the chatbot suggestion, or the saved trip ID
+  distance_km: number; // how far the incident is from the user's route
+  sent_at: Date;
+}
+
+const RouteAlertSchema = new Schema<IRouteAlert>({
+  user_id: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User',
+  },
+  incident_id: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'RoadIncident',
+  },
+  source: {
+    type: String,
+    enum: ['chatbot', 'saved_trip'],
+    required: true,
+  },
+  source_id: {
+    type: String,
+    required: true,
+  },
+  distance_km: {
+    type: Number,
+    required: true,
+  },
+  sent_at: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+RouteAlertSchema.index({ user_id: 1, incident_id: 1 }, { unique: true });
+RouteAlertSchema.index({ sent_at: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+export const RouteAlert = mongoose.model<IRouteAlert>('RouteAlert', RouteAlertSchema);
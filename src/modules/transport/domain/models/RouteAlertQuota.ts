@@ -0,0 +1,36 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Times a user was sent route incident alerts in the last hour. Reserving a
+ * slot checks and records the send in one update, so concurrent incidents
+ * can't push a user past the hourly limit.
+ */
+export interface IRouteAlertQuota extends Document {
+  user_id: mongoose.Types.ObjectId;
+  sent_at: Date[];
+  updated_at: Date;
+}
+
+const RouteAlertQuotaSchema = new Schema<IRouteAlertQuota>({
+  user_id: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User',
+  },
+  sent_at: {
+    type: [Date],
+    default: [],
+  },
+  updated_at: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+RouteAlertQuotaSchema.index({ user_id: 1 }, { unique: true });
+RouteAlertQuotaSchema.index({ updated_at: 1 }, { expireAfterSeconds: 60 * 60 });
+
+export const RouteAlertQuota = mongoose.model<IRouteAlertQuota>(
+  'RouteAlertQuota',
+  RouteAlertQuotaSchema
+);
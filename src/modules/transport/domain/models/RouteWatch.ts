@@ -0,0 +1,75 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { LatLng, PathBounds } from '../utils/Polyline';
+
+/**
+ * A route a user is about to travel, recorded when the chatbot suggests it,
+ * so new severe incidents along the way can be pushed to them. Watches expire
+ * on their own; saved trips are matched directly and don't need one.
+ */
+export interface IRouteWatch extends Document {
+  user_id: mongoose.Types.ObjectId;
+  conversation_id: mongoose.Types.ObjectId;
+  route_id: string;
+  transport_type: string;
+  label?: string; // e.g. "Colombo to Kandy"
+  path: LatLng[]; // decoded (and thinned) route polyline
+  bounds: PathBounds;
+  expires_at: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RouteWatchSchema = new Schema<IRouteWatch>(
+  {
+    user_id: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: 'User',
+    },
+    conversation_id: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: 'Conversation',
+    },
+    route_id: {
+      type: String,
+      required: true,
+    },
+    transport_type: {
+      type: String,
+      required: true,
+    },
+    label: {
+      type: String,
+      required: false,
+    },
+    path: [
+      {
+        _id: false,
+        latitude: { type: Number, required: true },
+        longitude: { type: Number, required: true },
+      },
+    ],
+    bounds: {
+      min_lat: { type: Number, required: true },
+      max_lat: { type: Number, required: true },
+      min_lng: { type: Number, required: true },
+      max_lng: { type: Number, required: true },
+    },
+    expires_at: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One watch per suggested route; asking again refreshes it
+RouteWatchSchema.index({ user_id: 1, route_id: 1 }, { unique: true });
+RouteWatchSchema.index({ 'bounds.min_lat': 1, 'bounds.max_lat': 1 });
+// Watches only matter until the user has travelled
+RouteWatchSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+export const RouteWatch = mongoose.model<IRouteWatch>('RouteWatch', RouteWatchSchema);
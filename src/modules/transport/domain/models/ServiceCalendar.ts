@@ -0,0 +1,105 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * GTFS service calendar (calendar.txt).
+ * Dates are kept in GTFS YYYYMMDD form so they compare lexicographically.
+ */
+export interface IServiceCalendar extends Document {
+  feed_id: string;
+  service_id: string;
+  monday: boolean;
+  tuesday: boolean;
+  wednesday: boolean;
+  thursday: boolean;
+  friday: boolean;
+  saturday: boolean;
+  sunday: boolean;
+  start_date: string;
+  end_date: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * GTFS service exception (calendar_dates.txt).
+ * exception_type 1 adds service on the date, 2 removes it (e.g. Poya day changes).
+ */
+export interface IServiceCalendarException extends Document {
+  feed_id: string;
+  service_id: string;
+  date: string;
+  exception_type: 1 | 2;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ServiceCalendarSchema = new Schema<IServiceCalendar>(
+  {
+    feed_id: {
+      type: String,
+      required: true,
+    },
+    service_id: {
+      type: String,
+      required: true,
+    },
+    monday: { type: Boolean, required: true },
+    tuesday: { type: Boolean, required: true },
+    wednesday: { type: Boolean, required: true },
+    thursday: { type: Boolean, required: true },
+    friday: { type: Boolean, required: true },
+    saturday: { type: Boolean, required: true },
+    sunday: { type: Boolean, required: true },
+    start_date: {
+      type: String,
+      required: true,
+    },
+    end_date: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const ServiceCalendarExceptionSchema = new Schema<IServiceCalendarException>(
+  {
+    feed_id: {
+      type: String,
+      required: true,
+    },
+    service_id: {
+      type: String,
+      required: true,
+    },
+    date: {
+      type: String,
+      required: true,
+    },
+    exception_type: {
+      type: Number,
+      enum: [1, 2],
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for faster queries
+ServiceCalendarSchema.index({ feed_id: 1, service_id: 1 }, { unique: true });
+ServiceCalendarSchema.index({ feed_id: 1, start_date: 1, end_date: 1 });
+ServiceCalendarExceptionSchema.index({ feed_id: 1, date: 1 });
+ServiceCalendarExceptionSchema.index({ feed_id: 1, service_id: 1, date: 1 }, { unique: true });
+
+export const ServiceCalendar = mongoose.model<IServiceCalendar>(
+  'ServiceCalendar',
+  ServiceCalendarSchema
+);
+export const ServiceCalendarException = mongoose.model<IServiceCalendarException>(
+  'ServiceCalendarException',
+  ServiceCalendarExceptionSchema
+);
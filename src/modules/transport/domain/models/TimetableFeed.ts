@@ -0,0 +1,119 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type TimetableFeedStatus = 'importing' | 'active' | 'failed';
+
+export interface ITimetableFeedCounts {
+  agencies: number;
+  stops: number;
+  routes: number;
+  trips: number;
+  stop_times: number;
+  calendars: number;
+  calendar_exceptions: number;
+}
+
+export interface ITimetableFeed extends Document {
+  feed_id: string;
+  name: string;
+  operator?: string; // e.g. "SLTB", "Sri Lanka Railways", "Private bus"
+  source_format: 'zip' | 'csv';
+  source_name?: string;
+  timezone: string;
+  status: TimetableFeedStatus;
+  counts: ITimetableFeedCounts;
+  unmatched_stops: number; // stops that could not be linked to a city
+  valid_from?: string; // YYYYMMDD
+  valid_to?: string; // YYYYMMDD
+  warnings: string[];
+  error_message?: string;
+  imported_by?: string;
+  import_started_at?: Date;
+  import_completed_at?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TimetableFeedSchema = new Schema<ITimetableFeed>(
+  {
+    feed_id: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    operator: {
+      type: String,
+      required: false,
+    },
+    source_format: {
+      type: String,
+      enum: ['zip', 'csv'],
+      required: true,
+    },
+    source_name: {
+      type: String,
+      required: false,
+    },
+    timezone: {
+      type: String,
+      default: 'Asia/Colombo',
+    },
+    status: {
+      type: String,
+      enum: ['importing', 'active', 'failed'],
+      default: 'importing',
+    },
+    counts: {
+      agencies: { type: Number, default: 0 },
+      stops: { type: Number, default: 0 },
+      routes: { type: Number, default: 0 },
+      trips: { type: Number, default: 0 },
+      stop_times: { type: Number, default: 0 },
+      calendars: { type: Number, default: 0 },
+      calendar_exceptions: { type: Number, default: 0 },
+    },
+    unmatched_stops: {
+      type: Number,
+      default: 0,
+    },
+    valid_from: {
+      type: String,
+      required: false,
+    },
+    valid_to: {
+      type: String,
+      required: false,
+    },
+    warnings: {
+      type: [String],
+      default: [],
+    },
+    error_message: {
+      type: String,
+      required: false,
+    },
+    imported_by: {
+      type: String,
+      required: false,
+    },
+    import_started_at: {
+      type: Date,
+      required: false,
+    },
+    import_completed_at: {
+      type: Date,
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for faster queries
+TimetableFeedSchema.index({ status: 1 });
+
+export const TimetableFeed = mongoose.model<ITimetableFeed>('TimetableFeed', TimetableFeedSchema);
@@ -0,0 +1,62 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * A GTFS stop (stops.txt) belonging to a timetable feed.
+ * city_id links the stop to our City collection so chatbot queries
+ * ("Colombo to Kandy") can be answered from the timetable.
+ */
+export interface ITimetableStop extends Document {
+  feed_id: string;
+  stop_id: string;
+  name: string;
+  location: {
+    type: string;
+    coordinates: [number, number]; // [longitude, latitude]
+  };
+  city_id?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TimetableStopSchema = new Schema<ITimetableStop>(
+  {
+    feed_id: {
+      type: String,
+      required: true,
+    },
+    stop_id: {
+      type: String,
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    location: {
+      type: {
+        type: String,
+        enum: ['Point'],
+        required: true,
+      },
+      coordinates: {
+        type: [Number],
+        required: true,
+      },
+    },
+    city_id: {
+      type: Number,
+      required: false,
+      ref: 'City',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for faster queries
+TimetableStopSchema.index({ feed_id: 1, stop_id: 1 }, { unique: true });
+TimetableStopSchema.index({ city_id: 1 });
+TimetableStopSchema.index({ location: '2dsphere' });
+
+export const TimetableStop = mongoose.model<ITimetableStop>('TimetableStop', TimetableStopSchema);
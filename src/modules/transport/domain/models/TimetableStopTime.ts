@@ -0,0 +1,58 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * A GTFS stop time (stop_times.txt).
+ * Times are stored as seconds after midnight of the service day; GTFS allows
+ * values past 24:00:00 for trips that run after midnight.
+ */
+export interface ITimetableStopTime extends Document {
+  feed_id: string;
+  trip_id: string;
+  stop_id: string;
+  stop_sequence: number;
+  arrival_secs: number;
+  departure_secs: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TimetableStopTimeSchema = new Schema<ITimetableStopTime>(
+  {
+    feed_id: {
+      type: String,
+      required: true,
+    },
+    trip_id: {
+      type: String,
+      required: true,
+    },
+    stop_id: {
+      type: String,
+      required: true,
+    },
+    stop_sequence: {
+      type: Number,
+      required: true,
+    },
+    arrival_secs: {
+      type: Number,
+      required: true,
+    },
+    departure_secs: {
+      type: Number,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for faster queries
+TimetableStopTimeSchema.index({ feed_id: 1, stop_id: 1, departure_secs: 1 });
+TimetableStopTimeSchema.index({ feed_id: 1, trip_id: 1, stop_sequence: 1 });
+
+export const TimetableStopTime = mongoose.model<ITimetableStopTime>(
+  'TimetableStopTime',
+  TimetableStopTimeSchema
+);
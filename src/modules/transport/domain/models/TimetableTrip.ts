@@ -0,0 +1,70 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * A GTFS trip (trips.txt) denormalised with its route (routes.txt) and
+ * agency (agency.txt) so departure lookups need no extra joins.
+ */
+export interface ITimetableTrip extends Document {
+  feed_id: string;
+  trip_id: string;
+  route_id: string;
+  service_id: string;
+  mode: 'bus' | 'train';
+  route_short_name?: string;
+  route_long_name?: string;
+  agency_name?: string;
+  headsign?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TimetableTripSchema = new Schema<ITimetableTrip>(
+  {
+    feed_id: {
+      type: String,
+      required: true,
+    },
+    trip_id: {
+      type: String,
+      required: true,
+    },
+    route_id: {
+      type: String,
+      required: true,
+    },
+    service_id: {
+      type: String,
+      required: true,
+    },
+    mode: {
+      type: String,
+      enum: ['bus', 'train'],
+      required: true,
+    },
+    route_short_name: {
+      type: String,
+      required: false,
+    },
+    route_long_name: {
+      type: String,
+      required: false,
+    },
+    agency_name: {
+      type: String,
+      required: false,
+    },
+    headsign: {
+      type: String,
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for faster queries
+TimetableTripSchema.index({ feed_id: 1, trip_id: 1 }, { unique: true });
+TimetableTripSchema.index({ feed_id: 1, service_id: 1 });
+
+export const TimetableTrip = mongoose.model<ITimetableTrip>('TimetableTrip', TimetableTripSchema);
@@ -49,18 +49,37 @@ export class CityRepository {
       return [exactMatch];
     }
 
-    // Fallback to partial match with word boundaries
+    // Fallback to partial match with word boundaries. `\b` only understands
+    // ASCII word characters, so Sinhala and Tamil names use a plain substring match.
+    const partialTerm = /^[\x20-\x7E]*$/.test(trimmedTerm)
+      ? new RegExp(`\\b${escapedTerm}\\b`, 'i')
+      : new RegExp(escapedTerm);
+
     return City.find({
       $or: [
-        { city_name: new RegExp(`\\b${escapedTerm}\\b`, 'i') },
+        { city_name: partialTerm },
         { slug: slugTerm },
-        { 'name.en': new RegExp(`\\b${escapedTerm}\\b`, 'i') },
-        { 'name.si': new RegExp(`\\b${escapedTerm}\\b`, 'i') },
-        { 'name.ta': new RegExp(`\\b${escapedTerm}\\b`, 'i') },
+        { 'name.en': partialTerm },
+        { 'name.si': partialTerm },
+        { 'name.ta': partialTerm },
       ],
     }).limit(10);
   }
 
+  /**
+   * List the city names stored for a language, skipping cities without one
+   */
+  async findLocalizedNames(
+    language: 'si' | 'ta'
+  ): Promise<Array<{ city_id: number; name: string }>> {
+    const field = `name.${language}`;
+    const cities = await City.find({ [field]: { $nin: [null, ''] } })
+      .select({ city_id: 1, name: 1 })
+      .lean();
+
+    return cities.map((city) => ({ city_id: city.city_id, name: city.name[language].trim() }));
+  }
+
   async findNearby(
     longitude: number,
     latitude: number,
@@ -0,0 +1,35 @@
+import { Types } from 'mongoose';
+import { HolidayOverride, IHolidayOverride } from '../models/HolidayOverride';
+
+export class HolidayOverrideRepository {
+  /**
+   * Overrides for one year, in date order
+   */
+  async findByYear(year: number): Promise<IHolidayOverride[]> {
+    return HolidayOverride.find({
+      date: { $gte: `${year}-01-01`, $lte: `${year}-12-31` },
+    }).sort({ date: 1, name: 1 });
+  }
+
+  /**
+   * Create the override for a holiday, or replace the existing one
+   */
+  async upsert(
+    override: Pick<IHolidayOverride, 'date' | 'name' | 'action' | 'is_poya' | 'notes'> & {
+      updated_by: string;
+    }
+  ): Promise<IHolidayOverride | null> {
+    return HolidayOverride.findOneAndUpdate(
+      { date: override.date, name: override.name },
+      { ...override, updated_by: new Types.ObjectId(override.updated_by) },
+      { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+  }
+
+  /**
+   * Delete an override; returns the deleted document, if any
+   */
+  async delete(id: string): Promise<IHolidayOverride | null> {
+    return HolidayOverride.findByIdAndDelete(id);
+  }
+}
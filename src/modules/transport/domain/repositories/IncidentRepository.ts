@@ -1,5 +1,19 @@
 import { RoadIncident, IRoadIncident } from '../models/RoadIncident';
 import { Types } from 'mongoose';
+import { LatLng, pathLengthKm, samplePath } from '../utils/Polyline';
+import { logger } from '../../../../shared/config/logger';
+
+const EARTH_RADIUS_KM = 6378.1; // as MongoDB's $centerSphere expects
+const MAX_CORRIDOR_CIRCLES = 60;
+
+export interface IncidentHistoryFilter {
+  status?: IRoadIncident['status'];
+  incident_type?: IRoadIncident['incident_type'];
+  severity?: IRoadIncident['severity'];
+  district?: string;
+  from?: Date;
+  to?: Date;
+}
 
 export class IncidentRepository {
   /**
@@ -76,42 +90,28 @@ export class IncidentRepository {
   }
 
   /**
-   * Find incidents affecting routes between two coordinates
-   * This finds incidents where affected routes pass through or near the path
+   * Find active incidents that may lie within a corridor around a path.
+   * Covers the path with overlapping circles on the 2dsphere index, so the
+   * result is a superset: callers measure the exact distance to the path.
    */
-  async findByRouteCoordinates(
-    originLat: number,
-    originLng: number,
-    destLat: number,
-    destLng: number,
-    radiusKm: number = 10
-  ): Promise<IRoadIncident[]> {
-    // Calculate bounding box for the route corridor
-    const minLat = Math.min(originLat, destLat) - radiusKm / 111; // ~111km per degree
-    const maxLat = Math.max(originLat, destLat) + radiusKm / 111;
-    const minLng = Math.min(originLng, destLng) - radiusKm / 111;
-    const maxLng = Math.max(originLng, destLng) + radiusKm / 111;
+  async findNearPath(path: LatLng[], corridorKm: number): Promise<IRoadIncident[]> {
+    if (path.length === 0) {
+      return [];
+    }
+
+    // Space the circles so a long route never needs more than MAX_CORRIDOR_CIRCLES
+    const spacingKm = Math.max(corridorKm * 2, pathLengthKm(path) / MAX_CORRIDOR_CIRCLES);
+    const radiusRad = (corridorKm + spacingKm / 2) / EARTH_RADIUS_KM;
 
     return RoadIncident.find({
-      $or: [
-        // Incidents within the route corridor
-        {
-          'location.latitude': { $gte: minLat, $lte: maxLat },
-          'location.longitude': { $gte: minLng, $lte: maxLng },
-        },
-        // Incidents with affected routes that intersect
-        {
-          'affected_routes.coordinates.start.latitude': { $gte: minLat, $lte: maxLat },
-          'affected_routes.coordinates.start.longitude': { $gte: minLng, $lte: maxLng },
+      $or: samplePath(path, spacingKm).map((point) => ({
+        geo_location: {
+          $geoWithin: { $centerSphere: [[point.longitude, point.latitude], radiusRad] },
         },
-        {
-          'affected_routes.coordinates.end.latitude': { $gte: minLat, $lte: maxLat },
-          'affected_routes.coordinates.end.longitude': { $gte: minLng, $lte: maxLng },
-        },
-      ],
+      })),
       status: 'active',
       is_resolved: false,
-    }).sort({ severity: -1, createdAt: -1 });
+    });
   }
 
   /**
@@ -152,13 +152,19 @@ export class IncidentRepository {
   }
 
   /**
-   * Confirm/verify an incident by user
+   * Confirm/verify an active incident by user.
+   * Returns null when the incident isn't active or the user already confirmed it.
    */
   async confirmIncident(incidentId: string, userId: string): Promise<IRoadIncident | null> {
-    return RoadIncident.findByIdAndUpdate(
-      incidentId,
+    const userObjectId = new Types.ObjectId(userId);
+    return RoadIncident.findOneAndUpdate(
+      {
+        _id: incidentId,
+        status: 'active',
+        'verification.confirmed_by_users': { $ne: userObjectId },
+      },
       {
-        $addToSet: { 'verification.confirmed_by_users': new Types.ObjectId(userId) },
+        $addToSet: { 'verification.confirmed_by_users': userObjectId },
         $inc: { 'verification.count': 1 },
         'verification.last_confirmed_at': new Date(),
       },
@@ -166,6 +172,17 @@ export class IncidentRepository {
     );
   }
 
+  /**
+   * Push an incident's expiry back (never brings it forward)
+   */
+  async extendExpiry(incidentId: string, expiresAt: Date): Promise<IRoadIncident | null> {
+    return RoadIncident.findByIdAndUpdate(
+      incidentId,
+      { $max: { expires_at: expiresAt } },
+      { new: true }
+    );
+  }
+
   /**
    * Update incident
    */
@@ -173,6 +190,13 @@ export class IncidentRepository {
     incidentId: string,
     updateData: Partial<IRoadIncident>
   ): Promise<IRoadIncident | null> {
+    const { location } = updateData;
+    if (location?.latitude !== undefined && location?.longitude !== undefined) {
+      updateData = {
+        ...updateData,
+        geo_location: { type: 'Point', coordinates: [location.longitude, location.latitude] },
+      };
+    }
     return RoadIncident.findByIdAndUpdate(incidentId, updateData, { new: true });
   }
 
@@ -201,7 +225,91 @@ export class IncidentRepository {
    * Archive incident
    */
   async archive(incidentId: string): Promise<IRoadIncident | null> {
-    return RoadIncident.findByIdAndUpdate(incidentId, { status: 'archived' }, { new: true });
+    return RoadIncident.findByIdAndUpdate(
+      incidentId,
+      { status: 'archived', archived_at: new Date() },
+      { new: true }
+    );
+  }
+
+  /**
+   * Archive every active or resolved incident whose expiry has passed
+   * @returns number of incidents archived
+   */
+  async archiveExpired(now: Date = new Date()): Promise<number> {
+    const result = await RoadIncident.updateMany(
+      { status: { $in: ['active', 'resolved'] }, expires_at: { $lte: now } },
+      { $set: { status: 'archived', archived_at: now } }
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * Find past and present incidents, newest first
+   */
+  async findHistory(
+    filter: IncidentHistoryFilter,
+    limit: number = 50,
+    skip: number = 0
+  ): Promise<IRoadIncident[]> {
+    return RoadIncident.find(this.buildHistoryQuery(filter))
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .skip(skip);
+  }
+
+  /**
+   * Count incidents matching a history filter
+   */
+  async countHistory(filter: IncidentHistoryFilter): Promise<number> {
+    return RoadIncident.countDocuments(this.buildHistoryQuery(filter));
+  }
+
+  /**
+   * Give incidents reported before GeoJSON points were stored their point
+   * @returns number of incidents updated
+   */
+  async backfillGeoLocations(): Promise<number> {
+    const result = await RoadIncident.updateMany(
+      {
+        geo_location: { $exists: false },
+        'location.latitude': { $type: 'number' },
+        'location.longitude': { $type: 'number' },
+      },
+      [
+        {
+          $set: {
+            geo_location: {
+              type: 'Point',
+              coordinates: ['$location.longitude', '$location.latitude'],
+            },
+          },
+        },
+      ]
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * Drop the TTL index older deployments created on expires_at, which would
+   * otherwise keep deleting incidents instead of letting them be archived
+   */
+  async dropExpiryTtlIndex(): Promise<void> {
+    try {
+      const indexes = await RoadIncident.collection.indexes();
+      const ttlIndex = indexes.find(
+        (index) => index.key.expires_at !== undefined && index.expireAfterSeconds !== undefined
+      );
+      if (ttlIndex?.name) {
+        await RoadIncident.collection.dropIndex(ttlIndex.name);
+        logger.info(`Dropped TTL index ${ttlIndex.name} on road incidents`);
+      }
+    } catch (error) {
+      // The collection doesn't exist yet on a fresh database
+      if ((error as { codeName?: string }).codeName !== 'NamespaceNotFound') {
+        throw error;
+      }
+    }
   }
 
   /**
@@ -251,6 +359,7 @@ export class IncidentRepository {
     total_active: number;
     by_severity: Record<string, number>;
     by_type: Record<string, number>;
+    by_status: Record<string, number>;
   }> {
     const activeCount = await RoadIncident.countDocuments({ status: 'active', is_resolved: false });
 
@@ -264,10 +373,31 @@ export class IncidentRepository {
       { $group: { _id: '$incident_type', count: { $sum: 1 } } },
     ]);
 
+    // All incidents ever reported, including resolved and archived ones
+    const byStatus = await RoadIncident.aggregate([
+      { $group: { _id: '$status', count: { $sum: 1 } } },
+    ]);
+
     return {
       total_active: activeCount,
       by_severity: Object.fromEntries(bySeverity.map((item: any) => [item._id, item.count])),
       by_type: Object.fromEntries(byType.map((item: any) => [item._id, item.count])),
+      by_status: Object.fromEntries(byStatus.map((item: any) => [item._id, item.count])),
     };
   }
+
+  private buildHistoryQuery(filter: IncidentHistoryFilter): Record<string, unknown> {
+    const query: Record<string, unknown> = {};
+    if (filter.status) query.status = filter.status;
+    if (filter.incident_type) query.incident_type = filter.incident_type;
+    if (filter.severity) query.severity = filter.severity;
+    if (filter.district) query['location.district'] = filter.district;
+    if (filter.from || filter.to) {
+      query.createdAt = {
+        ...(filter.from && { $gte: filter.from }),
+        ...(filter.to && { $lte: filter.to }),
+      };
+    }
+    return query;
+  }
 }
@@ -0,0 +1,113 @@
+import { Types } from 'mongoose';
+import { RouteWatch, IRouteWatch } from '../models/RouteWatch';
+import { RouteAlert, IRouteAlert } from '../models/RouteAlert';
+import { RouteAlertQuota } from '../models/RouteAlertQuota';
+import { PathBounds } from '../utils/Polyline';
+
+export class RouteAlertRepository {
+  /**
+   * Create or refresh the watch for a route suggested to a user
+   */
+  async upsertWatch(
+    watch: Pick<
+      IRouteWatch,
+      'route_id' | 'transport_type' | 'label' | 'path' | 'bounds' | 'expires_at'
+    > & { user_id: string; conversation_id: string }
+  ): Promise<IRouteWatch | null> {
+    const userId = new Types.ObjectId(watch.user_id);
+    return RouteWatch.findOneAndUpdate(
+      { user_id: userId, route_id: watch.route_id },
+      {
+        ...watch,
+        user_id: userId,
+        conversation_id: new Types.ObjectId(watch.conversation_id),
+      },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+  }
+
+  /**
+   * Unexpired watches whose route bounds overlap the given area
+   */
+  async findWatchesInBounds(bounds: PathBounds, now: Date = new Date()): Promise<IRouteWatch[]> {
+    return RouteWatch.find({
+      expires_at: { $gt: now },
+      'bounds.min_lat': { $lte: bounds.max_lat },
+      'bounds.max_lat': { $gte: bounds.min_lat },
+      'bounds.min_lng': { $lte: bounds.max_lng },
+      'bounds.max_lng': { $gte: bounds.min_lng },
+    });
+  }
+
+  /**
+   * Record that a user is being alerted about an incident.
+   * Returns false when they were already alerted about it.
+   */
+  async claimAlert(
+    alert: Pick<IRouteAlert, 'source' | 'source_id' | 'distance_km'> & {
+      user_id: string;
+      incident_id: string;
+    }
+  ): Promise<boolean> {
+    try {
+      await RouteAlert.create({
+        ...alert,
+        user_id: new Types.ObjectId(alert.user_id),
+        incident_id: new Types.ObjectId(alert.incident_id),
+        sent_at: new Date(),
+      });
+      return true;
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Forget an alert claim, e.g. when it was rate-limited and never sent
+   */
+  async releaseAlert(userId: string, incidentId: string): Promise<void> {
+    await RouteAlert.deleteOne({
+      user_id: new Types.ObjectId(userId),
+      incident_id: new Types.ObjectId(incidentId),
+    });
+  }
+
+  /**
+   * Take one of a user's hourly alert slots. Returns false when they have
+   * already had `maxPerHour` alerts in the last hour.
+   */
+  async reserveAlertSlot(userId: string, maxPerHour: number): Promise<boolean> {
+    const now = new Date();
+    const recent = {
+      $filter: {
+        input: { $ifNull: ['$sent_at', []] },
+        cond: { $gt: ['$$this', new Date(now.getTime() - 60 * 60 * 1000)] },
+      },
+    };
+
+    // A full quota fails the filter, so the upsert collides with the user's
+    // existing document. The first collision may instead be a concurrent
+    // first insert, which is why it is retried once.
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        await RouteAlertQuota.updateOne(
+          {
+            user_id: new Types.ObjectId(userId),
+            $expr: { $lt: [{ $size: recent }, maxPerHour] },
+          },
+          [{ $set: { sent_at: { $concatArrays: [recent, [now]] }, updated_at: now } }],
+          { upsert: true }
+        );
+        return true;
+      } catch (error) {
+        if ((error as { code?: number }).code !== 11000) {
+          throw error;
+        }
+      }
+    }
+    return false;
+  }
+}
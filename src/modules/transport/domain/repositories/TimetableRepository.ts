@@ -0,0 +1,269 @@
+import { Model } from 'mongoose';
+import { TimetableFeed, ITimetableFeed } from '../models/TimetableFeed';
+import { TimetableStop, ITimetableStop } from '../models/TimetableStop';
+import { TimetableTrip, ITimetableTrip } from '../models/TimetableTrip';
+import { TimetableStopTime, ITimetableStopTime } from '../models/TimetableStopTime';
+import {
+  ServiceCalendar,
+  ServiceCalendarException,
+  IServiceCalendar,
+  IServiceCalendarException,
+} from '../models/ServiceCalendar';
+
+const INSERT_BATCH_SIZE = 1000;
+
+const WEEKDAY_FIELDS: Array<keyof IServiceCalendar> = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+export class TimetableRepository {
+  // ============================================================================
+  // FEEDS
+  // ============================================================================
+
+  async findFeedById(feedId: string): Promise<ITimetableFeed | null> {
+    return TimetableFeed.findOne({ feed_id: feedId });
+  }
+
+  async findFeeds(status?: ITimetableFeed['status']): Promise<ITimetableFeed[]> {
+    const query: Record<string, unknown> = {};
+    if (status) {
+      query.status = status;
+    }
+    return TimetableFeed.find(query).sort({ updatedAt: -1 });
+  }
+
+  async findActiveFeeds(): Promise<ITimetableFeed[]> {
+    return TimetableFeed.find({ status: 'active' });
+  }
+
+  /**
+   * Create a feed record, or reset an existing one before it is re-imported
+   */
+  async upsertFeed(feedId: string, feedData: Partial<ITimetableFeed>): Promise<ITimetableFeed> {
+    const feed = await TimetableFeed.findOneAndUpdate(
+      { feed_id: feedId },
+      { $set: { ...feedData, feed_id: feedId }, $unset: { error_message: 1 } },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    );
+    return feed as ITimetableFeed;
+  }
+
+  async updateFeed(
+    feedId: string,
+    updateData: Partial<ITimetableFeed>
+  ): Promise<ITimetableFeed | null> {
+    return TimetableFeed.findOneAndUpdate({ feed_id: feedId }, updateData, { new: true });
+  }
+
+  async deleteFeed(feedId: string): Promise<boolean> {
+    await this.deleteFeedData(feedId);
+    const result = await TimetableFeed.deleteOne({ feed_id: feedId });
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Remove every stop, trip, stop time and calendar entry of a feed
+   */
+  async deleteFeedData(feedId: string): Promise<void> {
+    await Promise.all([
+      TimetableStop.deleteMany({ feed_id: feedId }),
+      TimetableTrip.deleteMany({ feed_id: feedId }),
+      TimetableStopTime.deleteMany({ feed_id: feedId }),
+      ServiceCalendar.deleteMany({ feed_id: feedId }),
+      ServiceCalendarException.deleteMany({ feed_id: feedId }),
+    ]);
+  }
+
+  // ============================================================================
+  // BULK INSERTS (used by the GTFS importer)
+  // ============================================================================
+
+  async insertStops(stops: Array<Partial<ITimetableStop>>): Promise<void> {
+    await this.insertInBatches(TimetableStop, stops);
+  }
+
+  async insertTrips(trips: Array<Partial<ITimetableTrip>>): Promise<void> {
+    await this.insertInBatches(TimetableTrip, trips);
+  }
+
+  async insertStopTimes(stopTimes: Array<Partial<ITimetableStopTime>>): Promise<void> {
+    await this.insertInBatches(TimetableStopTime, stopTimes);
+  }
+
+  async insertCalendars(calendars: Array<Partial<IServiceCalendar>>): Promise<void> {
+    await this.insertInBatches(ServiceCalendar, calendars);
+  }
+
+  async insertCalendarExceptions(
+    exceptions: Array<Partial<IServiceCalendarException>>
+  ): Promise<void> {
+    await this.insertInBatches(ServiceCalendarException, exceptions);
+  }
+
+  private async insertInBatches<T>(model: Model<T>, docs: Array<Partial<T>>): Promise<void> {
+    for (let i = 0; i < docs.length; i += INSERT_BATCH_SIZE) {
+      await model.insertMany(docs.slice(i, i + INSERT_BATCH_SIZE), { ordered: false });
+    }
+  }
+
+  // ============================================================================
+  // LOOKUPS (used by the departure search)
+  // ============================================================================
+
+  async findStopsByCity(feedId: string, cityId: number): Promise<ITimetableStop[]> {
+    return TimetableStop.find({ feed_id: feedId, city_id: cityId });
+  }
+
+  /**
+   * Service IDs running on a date: calendar.txt matches plus calendar_dates.txt
+   * additions, minus calendar_dates.txt removals
+   */
+  async findActiveServiceIds(
+    feedId: string,
+    serviceDate: string,
+    weekday: number
+  ): Promise<string[]> {
+    const [calendars, exceptions] = await Promise.all([
+      ServiceCalendar.find({
+        feed_id: feedId,
+        start_date: { $lte: serviceDate },
+        end_date: { $gte: serviceDate },
+        [WEEKDAY_FIELDS[weekday]]: true,
+      }).select('service_id'),
+      ServiceCalendarException.find({ feed_id: feedId, date: serviceDate }),
+    ]);
+
+    const serviceIds = new Set(calendars.map((c) => c.service_id));
+    for (const exception of exceptions) {
+      if (exception.exception_type === 1) {
+        serviceIds.add(exception.service_id);
+      } else {
+        serviceIds.delete(exception.service_id);
+      }
+    }
+    return Array.from(serviceIds);
+  }
+
+  /**
+   * Trip IDs that call at any of the given stops
+   */
+  async findTripIdsServingStops(feedId: string, stopIds: string[]): Promise<string[]> {
+    return TimetableStopTime.distinct('trip_id', { feed_id: feedId, stop_id: { $in: stopIds } });
+  }
+
+  /**
+   * Stop times of the given trips departing from any of the given stops within a seconds window
+   */
+  async findDeparturesFromStops(
+    feedId: string,
+    stopIds: string[],
+    tripIds: string[],
+    fromSecs: number,
+    toSecs: number,
+    limit: number = 200
+  ): Promise<ITimetableStopTime[]> {
+    return TimetableStopTime.find({
+      feed_id: feedId,
+      stop_id: { $in: stopIds },
+      trip_id: { $in: tripIds },
+      departure_secs: { $gte: fromSecs, $lt: toSecs },
+    })
+      .sort({ departure_secs: 1 })
+      .limit(limit);
+  }
+
+  async findTrips(
+    feedId: string,
+    tripIds: string[],
+    serviceIds: string[],
+    mode: 'bus' | 'train'
+  ): Promise<ITimetableTrip[]> {
+    return TimetableTrip.find({
+      feed_id: feedId,
+      trip_id: { $in: tripIds },
+      service_id: { $in: serviceIds },
+      mode,
+    });
+  }
+
+  async findStopTimesForTrips(
+    feedId: string,
+    tripIds: string[],
+    stopIds: string[]
+  ): Promise<ITimetableStopTime[]> {
+    return TimetableStopTime.find({
+      feed_id: feedId,
+      trip_id: { $in: tripIds },
+      stop_id: { $in: stopIds },
+    });
+  }
+
+  /**
+   * Check whether any trip of the given mode visits an origin stop and later a destination stop,
+   * regardless of the day it runs
+   */
+  async hasConnectingTrip(
+    feedId: string,
+    originStopIds: string[],
+    destinationStopIds: string[],
+    mode: 'bus' | 'train'
+  ): Promise<boolean> {
+    const result = await TimetableStopTime.aggregate([
+      {
+        $match: {
+          feed_id: feedId,
+          stop_id: { $in: [...originStopIds, ...destinationStopIds] },
+        },
+      },
+      {
+        $group: {
+          _id: '$trip_id',
+          origin_seq: {
+            $min: { $cond: [{ $in: ['$stop_id', originStopIds] }, '$stop_sequence', null] },
+          },
+          destination_seq: {
+            $max: { $cond: [{ $in: ['$stop_id', destinationStopIds] }, '$stop_sequence', null] },
+          },
+        },
+      },
+      {
+        $match: {
+          $expr: {
+            $and: [{ $ne: ['$origin_seq', null] }, { $gt: ['$destination_seq', '$origin_seq'] }],
+          },
+        },
+      },
+      {
+        $lookup: {
+          from: TimetableTrip.collection.name,
+          let: { tripId: '$_id' },
+          pipeline: [
+            {
+              $match: {
+                $expr: {
+                  $and: [
+                    { $eq: ['$trip_id', '$$tripId'] },
+                    { $eq: ['$feed_id', feedId] },
+                    { $eq: ['$mode', mode] },
+                  ],
+                },
+              },
+            },
+            { $limit: 1 },
+          ],
+          as: 'trip',
+        },
+      },
+      { $match: { 'trip.0': { $exists: true } } },
+      { $limit: 1 },
+    ]);
+    return result.length > 0;
+  }
+}
@@ -1,6 +1,6 @@
 import axios, { AxiosInstance } from 'axios';
 import { logger } from '../../../../shared/config/logger';
-import { cacheService } from '../../../../shared/libraries/cache/CacheService';
+import { getCache } from '../../../../shared/libraries/cache';
 
 export interface GoogleMapsRoute {
   summary: string;
@@ -48,6 +48,8 @@ export interface RouteDistance {
   traffic_delay_min: number;
 }
 
+const routeDistanceCache = getCache('route_distance');
+
 export class GoogleMapsService {
   private client: AxiosInstance;
   private routesClient: AxiosInstance;
@@ -289,87 +291,12 @@ export class GoogleMapsService {
     mode: 'driving' | 'transit' | 'walking' = 'transit'
   ): Promise<RouteDistance | null> {
     try {
-      // Check cache first
-      const cacheKey = `distance:${mode}:${originLat},${originLng}:${destLat},${destLng}`;
-      const cached = cacheService.get<RouteDistance>(cacheKey);
-      if (cached) {
-        logger.debug(`Using cached distance for ${originLat},${originLng} → ${destLat},${destLng}`);
-        return cached;
-      }
-
-      this.ensureConfigured();
-
-      const travelModeMap = {
-        driving: 'DRIVE',
-        transit: 'TRANSIT',
-        walking: 'WALK',
-      };
-
-      const requestBody: Record<string, any> = {
-        origin: {
-          location: {
-            latLng: {
-              latitude: originLat,
-              longitude: originLng,
-            },
-          },
-        },
-        destination: {
-          location: {
-            latLng: {
-              latitude: destLat,
-              longitude: destLng,
-            },
-          },
-        },
-        travelMode: travelModeMap[mode],
-        departureTime: new Date(Date.now() + 60000).toISOString(), // 1 minute in the future
-      };
-
-      // Google Routes API does not allow routingPreference for TRANSIT mode.
-      if (mode === 'driving') {
-        requestBody.routingPreference = 'TRAFFIC_AWARE';
-      }
-
-      const response = await this.routesClient.post('/directions/v2:computeRoutes', requestBody);
-
-      logger.info('Routes API Distance Response:', {
-        routes_count: response.data.routes?.length || 0,
-        origin: `${originLat},${originLng}`,
-        destination: `${destLat},${destLng}`,
-        mode: travelModeMap[mode],
-      });
-
-      if (!response.data.routes || !response.data.routes.length) {
-        logger.warn(`No route found for ${originLat},${originLng} → ${destLat},${destLng}`);
-        return null;
-      }
-
-      const route = response.data.routes[0];
-
-      // Parse duration (format: "1234s")
-      // duration = with traffic, staticDuration = without traffic
-      const durationWithTrafficSec = route.duration ? parseInt(route.duration.replace('s', '')) : 0;
-      const durationWithoutTrafficSec = route.staticDuration
-        ? parseInt(route.staticDuration.replace('s', ''))
-        : durationWithTrafficSec;
-      const distanceM = route.distanceMeters || 0;
-
-      // Calculate traffic delay
-      const trafficDelayMin = Math.round((durationWithTrafficSec - durationWithoutTrafficSec) / 60);
-
-      const result: RouteDistance = {
-        distance_km: distanceM / 1000,
-        distance_m: distanceM,
-        duration_min: Math.round(durationWithTrafficSec / 60),
-        duration_sec: durationWithTrafficSec,
-        traffic_delay_min: Math.max(0, trafficDelayMin),
-      };
-
-      // Cache for 10 minutes
-      cacheService.set(cacheKey, result, 10 * 60 * 1000);
-
-      return result;
+      // Cached for 10 minutes; concurrent lookups of the same route share one request
+      return await routeDistanceCache.getOrSet(
+        `${mode}:${originLat},${originLng}:${destLat},${destLng}`,
+        () => this.fetchRouteDistance(originLat, originLng, destLat, destLng, mode),
+        10 * 60 * 1000
+      );
     } catch (error) {
       if (axios.isAxiosError(error)) {
         logger.error('Routes API distance request failed:', {
@@ -390,6 +317,88 @@ export class GoogleMapsService {
     }
   }
 
+  /**
+   * Request route distance and traffic delay from the Routes API
+   */
+  private async fetchRouteDistance(
+    originLat: number,
+    originLng: number,
+    destLat: number,
+    destLng: number,
+    mode: 'driving' | 'transit' | 'walking'
+  ): Promise<RouteDistance | null> {
+    this.ensureConfigured();
+
+    const travelModeMap = {
+      driving: 'DRIVE',
+      transit: 'TRANSIT',
+      walking: 'WALK',
+    };
+
+    const requestBody: Record<string, any> = {
+      origin: {
+        location: {
+          latLng: {
+            latitude: originLat,
+            longitude: originLng,
+          },
+        },
+      },
+      destination: {
+        location: {
+          latLng: {
+            latitude: destLat,
+            longitude: destLng,
+          },
+        },
+      },
+      travelMode: travelModeMap[mode],
+      departureTime: new Date(Date.now() + 60000).toISOString(), // 1 minute in the future
+    };
+
+    // Google Routes API does not allow routingPreference for TRANSIT mode.
+    if (mode === 'driving') {
+      requestBody.routingPreference = 'TRAFFIC_AWARE';
+    }
+
+    const response = await this.routesClient.post('/directions/v2:computeRoutes', requestBody);
+
+    logger.info('Routes API Distance Response:', {
+      routes_count: response.data.routes?.length || 0,
+      origin: `${originLat},${originLng}`,
+      destination: `${destLat},${destLng}`,
+      mode: travelModeMap[mode],
+    });
+
+    if (!response.data.routes || !response.data.routes.length) {
+      logger.warn(`No route found for ${originLat},${originLng} → ${destLat},${destLng}`);
+      return null;
+    }
+
+    const route = response.data.routes[0];
+
+    // Parse duration (format: "1234s")
+    // duration = with traffic, staticDuration = without traffic
+    const durationWithTrafficSec = route.duration ? parseInt(route.duration.replace('s', '')) : 0;
+    const durationWithoutTrafficSec = route.staticDuration
+      ? parseInt(route.staticDuration.replace('s', ''))
+      : durationWithTrafficSec;
+    const distanceM = route.distanceMeters || 0;
+
+    // Calculate traffic delay
+    const trafficDelayMin = Math.round((durationWithTrafficSec - durationWithoutTrafficSec) / 60);
+
+    const result: RouteDistance = {
+      distance_km: distanceM / 1000,
+      distance_m: distanceM,
+      duration_min: Math.round(durationWithTrafficSec / 60),
+      duration_sec: durationWithTrafficSec,
+      traffic_delay_min: Math.max(0, trafficDelayMin),
+    };
+
+    return result;
+  }
+
   /**
    * Geocode an address to coordinates
    */
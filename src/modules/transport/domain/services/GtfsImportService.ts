@@ -0,0 +1,417 @@
+import AdmZip from 'adm-zip';
+import { parse } from 'csv-parse/sync';
+import { TimetableRepository } from '../repositories/TimetableRepository';
+import { CityRepository } from '../repositories/CityRepository';
+import { ITimetableFeed, ITimetableFeedCounts } from '../models/TimetableFeed';
+import { ITimetableStop } from '../models/TimetableStop';
+import { ITimetableTrip } from '../models/TimetableTrip';
+import { ITimetableStopTime } from '../models/TimetableStopTime';
+import { IServiceCalendar, IServiceCalendarException } from '../models/ServiceCalendar';
+import { GtfsTimeHelper } from '../utils/GtfsTimeHelper';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+import { logger } from '../../../../shared/config/logger';
+
+/**
+ * Raw feed contents: either a GTFS zip or a set of GTFS CSV files keyed by file name
+ */
+export type GtfsSource =
+  | { format: 'zip'; buffer: Buffer; sourceName?: string }
+  | { format: 'csv'; files: Record<string, string>; sourceName?: string };
+
+export interface GtfsImportOptions {
+  feedId: string;
+  name: string;
+  operator?: string;
+  timezone?: string;
+  defaultMode?: 'bus' | 'train'; // used for routes with a non-bus/rail route_type
+  importedBy?: string;
+}
+
+type CsvRow = Record<string, string>;
+
+const REQUIRED_FILES = ['stops', 'routes', 'trips', 'stop_times'];
+const CITY_MATCH_RADIUS_KM = 5;
+const MAX_WARNINGS = 50;
+const DEFAULT_TIMEZONE = 'Asia/Colombo';
+const STALE_IMPORT_MS = 60 * 60 * 1000; // an import still "running" after this is assumed dead
+
+/**
+ * GTFS Import Service
+ *
+ * Loads a GTFS feed (zip or CSV subset) into the timetable collections.
+ * Supported files: agency, stops, routes, trips, stop_times, calendar, calendar_dates.
+ * Stops are linked to cities through an optional `city_id` column, or else the
+ * nearest city within 5 km. Re-importing a feed replaces its previous data.
+ */
+export class GtfsImportService {
+  private timetableRepository: TimetableRepository;
+  private cityRepository: CityRepository;
+
+  constructor() {
+    this.timetableRepository = new TimetableRepository();
+    this.cityRepository = new CityRepository();
+  }
+
+  /**
+   * Import a feed and mark it active, or mark it failed and rethrow
+   */
+  async importFeed(source: GtfsSource, options: GtfsImportOptions): Promise<ITimetableFeed> {
+    const existing = await this.timetableRepository.findFeedById(options.feedId);
+    const importAge = Date.now() - (existing?.import_started_at?.getTime() || 0);
+    if (existing?.status === 'importing' && importAge < STALE_IMPORT_MS) {
+      throw new AppError(`Feed ${options.feedId} is already being imported`, 409);
+    }
+
+    const files = this.extractFiles(source);
+    const missing = REQUIRED_FILES.filter((name) => !files[name]);
+    if (!files.calendar && !files.calendar_dates) {
+      missing.push('calendar or calendar_dates');
+    }
+    if (missing.length > 0) {
+      throw new AppError(`GTFS feed is missing required files: ${missing.join(', ')}`, 400);
+    }
+
+    await this.timetableRepository.upsertFeed(options.feedId, {
+      name: options.name,
+      operator: options.operator,
+      source_format: source.format,
+      source_name: source.sourceName,
+      status: 'importing',
+      warnings: [],
+      imported_by: options.importedBy,
+      import_started_at: new Date(),
+    });
+
+    try {
+      const result = await this.loadFeed(files, options);
+
+      const feed = await this.timetableRepository.updateFeed(options.feedId, {
+        status: 'active',
+        timezone: result.timezone,
+        counts: result.counts,
+        unmatched_stops: result.unmatchedStops,
+        valid_from: result.validFrom,
+        valid_to: result.validTo,
+        warnings: result.warnings,
+        import_completed_at: new Date(),
+      });
+
+      logger.info(
+        `Imported GTFS feed ${options.feedId}: ${result.counts.trips} trips, ${result.counts.stop_times} stop times`
+      );
+      return feed as ITimetableFeed;
+    } catch (error) {
+      logger.error(`GTFS import failed for feed ${options.feedId}:`, error);
+      await this.timetableRepository.deleteFeedData(options.feedId);
+      await this.timetableRepository.updateFeed(options.feedId, {
+        status: 'failed',
+        error_message: error instanceof Error ? error.message : 'Unknown import error',
+        import_completed_at: new Date(),
+      });
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // FILE HANDLING
+  // ============================================================================
+
+  /**
+   * Normalise the source into a map of GTFS file name (without extension) to CSV text
+   */
+  private extractFiles(source: GtfsSource): Record<string, string> {
+    const files: Record<string, string> = {};
+
+    if (source.format === 'zip') {
+      let zip: AdmZip;
+      try {
+        zip = new AdmZip(source.buffer);
+      } catch {
+        throw new AppError('Uploaded file is not a valid zip archive', 400);
+      }
+      for (const entry of zip.getEntries()) {
+        if (!entry.isDirectory) {
+          files[this.normaliseFileName(entry.entryName)] = entry.getData().toString('utf-8');
+        }
+      }
+    } else {
+      for (const [fileName, content] of Object.entries(source.files)) {
+        files[this.normaliseFileName(fileName)] = content;
+      }
+    }
+
+    return files;
+  }
+
+  private normaliseFileName(fileName: string): string {
+    const baseName = fileName.split(/[\\/]/).pop() || fileName;
+    return baseName.replace(/\.(txt|csv)$/i, '').toLowerCase();
+  }
+
+  private parseCsv(content: string | undefined, fileName: string): CsvRow[] {
+    if (!content) {
+      return [];
+    }
+    try {
+      return parse(content, {
+        columns: (header: string[]) => header.map((column) => column.trim().toLowerCase()),
+        bom: true,
+        skip_empty_lines: true,
+        trim: true,
+        relax_column_count: true,
+      }) as CsvRow[];
+    } catch (error) {
+      throw new AppError(
+        `Could not parse ${fileName}: ${error instanceof Error ? error.message : 'invalid CSV'}`,
+        400
+      );
+    }
+  }
+
+  // ============================================================================
+  // FEED LOADING
+  // ============================================================================
+
+  private async loadFeed(
+    files: Record<string, string>,
+    options: GtfsImportOptions
+  ): Promise<{
+    timezone: string;
+    counts: ITimetableFeedCounts;
+    unmatchedStops: number;
+    validFrom?: string;
+    validTo?: string;
+    warnings: string[];
+  }> {
+    const feedId = options.feedId;
+    const warnings: string[] = [];
+    const warn = (message: string) => {
+      if (warnings.length < MAX_WARNINGS) {
+        warnings.push(message);
+      }
+    };
+
+    // agency.txt (optional)
+    const agencyRows = this.parseCsv(files.agency, 'agency.txt');
+    const agencyNames = new Map<string, string>();
+    for (const row of agencyRows) {
+      agencyNames.set(row.agency_id || '', row.agency_name || options.operator || '');
+    }
+    const timezone = options.timezone || agencyRows[0]?.agency_timezone || DEFAULT_TIMEZONE;
+
+    // routes.txt
+    const routes = new Map<
+      string,
+      { mode: 'bus' | 'train'; shortName?: string; longName?: string; agencyName?: string }
+    >();
+    for (const row of this.parseCsv(files.routes, 'routes.txt')) {
+      const mode = this.resolveMode(row.route_type, options.defaultMode);
+      if (!row.route_id || !mode) {
+        warn(
+          `Skipped route ${row.route_id || '(no id)'}: unsupported route_type ${row.route_type}`
+        );
+        continue;
+      }
+      routes.set(row.route_id, {
+        mode,
+        shortName: row.route_short_name || undefined,
+        longName: row.route_long_name || undefined,
+        agencyName:
+          agencyNames.get(row.agency_id || '') ||
+          (agencyNames.size === 1 ? Array.from(agencyNames.values())[0] : options.operator),
+      });
+    }
+
+    // stops.txt
+    const stops: Array<Partial<ITimetableStop>> = [];
+    const stopIds = new Set<string>();
+    let unmatchedStops = 0;
+    for (const row of this.parseCsv(files.stops, 'stops.txt')) {
+      const lat = parseFloat(row.stop_lat);
+      const lng = parseFloat(row.stop_lon);
+      if (!row.stop_id || isNaN(lat) || isNaN(lng)) {
+        warn(`Skipped stop ${row.stop_id || '(no id)'}: missing id or coordinates`);
+        continue;
+      }
+
+      const cityId = await this.resolveCityId(row, lng, lat);
+      if (cityId === undefined) {
+        unmatchedStops++;
+      }
+
+      stopIds.add(row.stop_id);
+      stops.push({
+        feed_id: feedId,
+        stop_id: row.stop_id,
+        name: row.stop_name || row.stop_id,
+        location: { type: 'Point', coordinates: [lng, lat] },
+        city_id: cityId,
+      });
+    }
+
+    // trips.txt
+    const trips: Array<Partial<ITimetableTrip>> = [];
+    const tripIds = new Set<string>();
+    for (const row of this.parseCsv(files.trips, 'trips.txt')) {
+      const route = routes.get(row.route_id);
+      if (!row.trip_id || !row.service_id || !route) {
+        warn(`Skipped trip ${row.trip_id || '(no id)'}: unknown route or missing service_id`);
+        continue;
+      }
+      tripIds.add(row.trip_id);
+      trips.push({
+        feed_id: feedId,
+        trip_id: row.trip_id,
+        route_id: row.route_id,
+        service_id: row.service_id,
+        mode: route.mode,
+        route_short_name: route.shortName,
+        route_long_name: route.longName,
+        agency_name: route.agencyName,
+        headsign: row.trip_headsign || undefined,
+      });
+    }
+
+    // stop_times.txt
+    const stopTimes: Array<Partial<ITimetableStopTime>> = [];
+    let skippedStopTimes = 0;
+    for (const row of this.parseCsv(files.stop_times, 'stop_times.txt')) {
+      const arrival = GtfsTimeHelper.parseTime(row.arrival_time);
+      const departure = GtfsTimeHelper.parseTime(row.departure_time);
+      const sequence = parseInt(row.stop_sequence, 10);
+
+      // Untimed intermediate stops are allowed by GTFS but useless for departures
+      if (
+        !tripIds.has(row.trip_id) ||
+        !stopIds.has(row.stop_id) ||
+        isNaN(sequence) ||
+        (arrival === null && departure === null)
+      ) {
+        skippedStopTimes++;
+        continue;
+      }
+
+      stopTimes.push({
+        feed_id: feedId,
+        trip_id: row.trip_id,
+        stop_id: row.stop_id,
+        stop_sequence: sequence,
+        arrival_secs: (arrival ?? departure) as number,
+        departure_secs: (departure ?? arrival) as number,
+      });
+    }
+    if (skippedStopTimes > 0) {
+      warn(`Skipped ${skippedStopTimes} stop_times rows with unknown trip/stop or no times`);
+    }
+
+    // calendar.txt / calendar_dates.txt
+    const dates: string[] = [];
+    const calendars: Array<Partial<IServiceCalendar>> = [];
+    for (const row of this.parseCsv(files.calendar, 'calendar.txt')) {
+      if (
+        !row.service_id ||
+        !GtfsTimeHelper.isValidDate(row.start_date) ||
+        !GtfsTimeHelper.isValidDate(row.end_date)
+      ) {
+        warn(`Skipped calendar ${row.service_id || '(no id)'}: invalid dates`);
+        continue;
+      }
+      dates.push(row.start_date, row.end_date);
+      calendars.push({
+        feed_id: feedId,
+        service_id: row.service_id,
+        monday: row.monday === '1',
+        tuesday: row.tuesday === '1',
+        wednesday: row.wednesday === '1',
+        thursday: row.thursday === '1',
+        friday: row.friday === '1',
+        saturday: row.saturday === '1',
+        sunday: row.sunday === '1',
+        start_date: row.start_date,
+        end_date: row.end_date,
+      });
+    }
+
+    const exceptions: Array<Partial<IServiceCalendarException>> = [];
+    for (const row of this.parseCsv(files.calendar_dates, 'calendar_dates.txt')) {
+      const exceptionType = Number(row.exception_type);
+      if (
+        !row.service_id ||
+        !GtfsTimeHelper.isValidDate(row.date) ||
+        (exceptionType !== 1 && exceptionType !== 2)
+      ) {
+        warn(`Skipped calendar_dates row for ${row.service_id || '(no id)'}: invalid entry`);
+        continue;
+      }
+      dates.push(row.date);
+      exceptions.push({
+        feed_id: feedId,
+        service_id: row.service_id,
+        date: row.date,
+        exception_type: exceptionType as 1 | 2,
+      });
+    }
+
+    if (trips.length === 0 || stopTimes.length === 0) {
+      throw new AppError('GTFS feed contains no usable trips or stop times', 400);
+    }
+    if (calendars.length === 0 && exceptions.length === 0) {
+      throw new AppError('GTFS feed contains no usable service calendar entries', 400);
+    }
+
+    // Replace any previous version of this feed
+    await this.timetableRepository.deleteFeedData(feedId);
+    await this.timetableRepository.insertStops(stops);
+    await this.timetableRepository.insertTrips(trips);
+    await this.timetableRepository.insertStopTimes(stopTimes);
+    await this.timetableRepository.insertCalendars(calendars);
+    await this.timetableRepository.insertCalendarExceptions(exceptions);
+
+    dates.sort();
+
+    return {
+      timezone,
+      counts: {
+        agencies: agencyRows.length,
+        stops: stops.length,
+        routes: routes.size,
+        trips: trips.length,
+        stop_times: stopTimes.length,
+        calendars: calendars.length,
+        calendar_exceptions: exceptions.length,
+      },
+      unmatchedStops,
+      validFrom: dates[0],
+      validTo: dates[dates.length - 1],
+      warnings,
+    };
+  }
+
+  /**
+   * Map a GTFS route_type (basic or extended) to our transport modes
+   */
+  private resolveMode(
+    routeType: string,
+    defaultMode?: 'bus' | 'train'
+  ): 'bus' | 'train' | undefined {
+    const type = parseInt(routeType, 10);
+    if (type === 3 || (type >= 200 && type < 300) || (type >= 700 && type < 800)) {
+      return 'bus';
+    }
+    if (type === 2 || (type >= 100 && type < 200)) {
+      return 'train';
+    }
+    return defaultMode;
+  }
+
+  /**
+   * Use an explicit city_id column when present, otherwise the nearest city
+   */
+  private async resolveCityId(row: CsvRow, lng: number, lat: number): Promise<number | undefined> {
+    if (row.city_id && !isNaN(Number(row.city_id))) {
+      return Number(row.city_id);
+    }
+    const [nearest] = await this.cityRepository.findNearby(lng, lat, CITY_MATCH_RADIUS_KM);
+    return nearest?.city_id;
+  }
+}
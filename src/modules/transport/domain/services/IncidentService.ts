@@ -1,5 +1,12 @@
-import { IncidentRepository } from '../repositories/IncidentRepository';
+import { IncidentRepository, IncidentHistoryFilter } from '../repositories/IncidentRepository';
 import { IRoadIncident, ILocation } from '../models/RoadIncident';
+import { calculateExpiry } from '../utils/IncidentLifecycle';
+import { RouteAlertService } from './RouteAlertService';
+import { GoogleMapsService } from './GoogleMapsService';
+import { LatLng, decodePolyline, locateOnPath, pathLengthKm } from '../utils/Polyline';
+import { MediaService } from '../../../media/domain/services/MediaService';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+import config from '../../../../shared/config/config';
 import { logger } from '../../../../shared/config/logger';
 
 export interface ReportIncidentRequest {
@@ -34,15 +41,37 @@ export interface IncidentResponse {
   status: string;
   verification_count: number;
   reported_at: Date;
+  expires_at?: Date;
+  archived_at?: Date;
   distance_from_user_km?: number;
+  distance_from_route_km?: number; // how far off the route the incident is
+  distance_along_route_km?: number; // how far from the start of the route
+  route_step_index?: number; // the navigation step the incident falls on
+  route_step_instruction?: string;
   estimated_delay_min?: number;
 }
 
+/**
+ * A route to match incidents against: an encoded Google polyline or an
+ * already decoded path, with the route's navigation steps when known
+ */
+export interface RouteGeometry {
+  polyline?: string;
+  path?: LatLng[];
+  steps?: Array<{ distance: number; instruction?: string }>; // distance in metres
+}
+
 export class IncidentService {
   private incidentRepository: IncidentRepository;
+  private mediaService: MediaService;
+  private routeAlertService: RouteAlertService;
+  private googleMapsService: GoogleMapsService;
 
   constructor() {
     this.incidentRepository = new IncidentRepository();
+    this.mediaService = new MediaService();
+    this.routeAlertService = new RouteAlertService();
+    this.googleMapsService = new GoogleMapsService();
   }
 
   /**
@@ -50,6 +79,21 @@ export class IncidentService {
    */
   async reportIncident(request: ReportIncidentRequest): Promise<IncidentResponse> {
     try {
+      const attachments = request.attachments && {
+        image_urls: await this.mediaService.checkUrls(
+          request.attachments.image_urls || [],
+          request.reporter_id,
+          'road_incident',
+          'image'
+        ),
+        video_urls: await this.mediaService.checkUrls(
+          request.attachments.video_urls || [],
+          request.reporter_id,
+          'road_incident',
+          'video'
+        ),
+      };
+
       const incident = await this.incidentRepository.create({
         reporter_id: request.reporter_id,
         incident_type: request.incident_type,
@@ -57,16 +101,27 @@ export class IncidentService {
         description: request.description,
         location: request.location,
         severity: request.severity || 'medium',
+        expires_at: calculateExpiry(request.severity || 'medium', 1),
         affected_routes: request.affected_routes || [],
         verification: {
           confirmed_by_users: [request.reporter_id],
           count: 1,
           last_confirmed_at: new Date(),
         },
-        attachments: request.attachments,
+        attachments,
       } as any);
 
+      if (attachments) {
+        await this.mediaService.attachUrls([...attachments.image_urls, ...attachments.video_urls]);
+      }
+
       logger.info(`Incident reported: ${incident._id} by user ${request.reporter_id}`);
+
+      // Alert users travelling through it without holding up the reporter
+      this.routeAlertService.notifyUsersAlongRoute(incident).catch((error) => {
+        logger.error(`Failed to send route alerts for incident ${incident._id}:`, error);
+      });
+
       return this.formatIncidentResponse(incident);
     } catch (error) {
       logger.error('Error reporting incident:', error);
@@ -100,45 +155,93 @@ export class IncidentService {
   }
 
   /**
-   * Fetch incidents affecting a specific route by coordinates
+   * Fetch incidents along the road between two coordinates. Follows the
+   * driving route from Google Maps, or the straight line between the points
+   * when no route is available.
    */
   async getIncidentsForRoute(
     originLat: number,
     originLng: number,
     destLat: number,
     destLng: number,
-    radiusKm: number = 10
+    corridorKm: number = config.routeIncidents.corridorMeters / 1000
+  ): Promise<IncidentResponse[]> {
+    try {
+      const directions = await this.googleMapsService
+        .getDirections(
+          { lat: originLat, lng: originLng },
+          { lat: destLat, lng: destLng },
+          'driving',
+          false
+        )
+        .catch((error) => {
+          logger.warn(`Directions unavailable for route incidents: ${error.message}`);
+          return [];
+        });
+
+      const route: RouteGeometry = directions[0]?.polyline
+        ? { polyline: directions[0].polyline, steps: directions[0].steps }
+        : {
+            path: [
+              { latitude: originLat, longitude: originLng },
+              { latitude: destLat, longitude: destLng },
+            ],
+          };
+
+      const incidents = await this.getIncidentsAlongRoute(route, corridorKm);
+      return incidents.map((incident) => ({
+        ...incident,
+        distance_from_user_km: this.calculateDistance(
+          originLat,
+          originLng,
+          incident.location.latitude,
+          incident.location.longitude
+        ),
+      }));
+    } catch (error) {
+      logger.error('Error fetching incidents for route:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch incidents within a corridor around a route, with how far along the
+   * route each one is and which step of the route it falls on.
+   * Sorted by severity, then by distance along the route.
+   */
+  async getIncidentsAlongRoute(
+    route: RouteGeometry,
+    corridorKm: number = config.routeIncidents.corridorMeters / 1000
   ): Promise<IncidentResponse[]> {
     try {
-      const incidents = await this.incidentRepository.findByRouteCoordinates(
-        originLat,
-        originLng,
-        destLat,
-        destLng,
-        radiusKm
-      );
-
-      return incidents
-        .map((incident) => ({
-          ...this.formatIncidentResponse(incident),
-          distance_from_user_km: this.calculateDistance(
-            originLat,
-            originLng,
-            incident.location.latitude,
-            incident.location.longitude
-          ),
-        }))
+      const path = route.path ?? (route.polyline ? decodePolyline(route.polyline) : []);
+      const candidates = await this.incidentRepository.findNearPath(path, corridorKm);
+      const stepEnds = this.getStepEndsKm(route.steps, pathLengthKm(path));
+
+      const severityOrder = { critical: 0, high: 1, medium: 2, low: 3 };
+      return candidates
+        .map((incident) => ({ incident, position: locateOnPath(incident.location, path) }))
+        .filter(({ position }) => position.distanceKm <= corridorKm)
+        .map(({ incident, position }) => {
+          const stepIndex = stepEnds.findIndex((end) => position.distanceAlongKm <= end);
+          const step = stepIndex >= 0 ? route.steps?.[stepIndex] : undefined;
+          return {
+            ...this.formatIncidentResponse(incident),
+            distance_from_route_km: Math.round(position.distanceKm * 1000) / 1000,
+            distance_along_route_km: Math.round(position.distanceAlongKm * 10) / 10,
+            route_step_index: step ? stepIndex : undefined,
+            route_step_instruction: step?.instruction || undefined,
+          };
+        })
         .sort((a, b) => {
-          // Sort by severity first, then by distance
-          const severityOrder = { critical: 0, high: 1, medium: 2, low: 3 };
           const severityDiff =
             severityOrder[a.severity as keyof typeof severityOrder] -
             severityOrder[b.severity as keyof typeof severityOrder];
           if (severityDiff !== 0) return severityDiff;
-          return (a.distance_from_user_km || 0) - (b.distance_from_user_km || 0);
+          return a.distance_along_route_km - b.distance_along_route_km;
         });
     } catch (error) {
-      logger.error('Error fetching incidents for route:', error);
+      logger.error('Error fetching incidents along route:', error);
       throw error;
     }
   }
@@ -174,10 +277,26 @@ export class IncidentService {
    */
   async confirmIncident(incidentId: string, userId: string): Promise<IncidentResponse> {
     try {
-      const incident = await this.incidentRepository.confirmIncident(incidentId, userId);
-      if (!incident) {
-        throw new Error('Incident not found');
+      const confirmed = await this.incidentRepository.confirmIncident(incidentId, userId);
+      if (!confirmed) {
+        const existing = await this.incidentRepository.findById(incidentId);
+        if (!existing) {
+          throw new AppError('Incident not found', 404);
+        }
+        if (existing.status !== 'active') {
+          throw new AppError(`Cannot confirm an incident that is ${existing.status}`, 409);
+        }
+        // Already confirmed by this user - confirming again changes nothing
+        return this.formatIncidentResponse(existing);
       }
+
+      // Each confirmation keeps the incident alive for longer
+      const incident =
+        (await this.incidentRepository.extendExpiry(
+          incidentId,
+          calculateExpiry(confirmed.severity, confirmed.verification.count)
+        )) ?? confirmed;
+
       logger.info(`Incident ${incidentId} confirmed by user ${userId}`);
       return this.formatIncidentResponse(incident);
     } catch (error) {
@@ -233,6 +352,37 @@ export class IncidentService {
     }
   }
 
+  /**
+   * Search past and present incidents, including resolved and archived ones
+   */
+  async getIncidentHistory(
+    filter: IncidentHistoryFilter,
+    limit: number = 50,
+    skip: number = 0
+  ): Promise<{ incidents: IncidentResponse[]; total: number }> {
+    try {
+      const [incidents, total] = await Promise.all([
+        this.incidentRepository.findHistory(filter, limit, skip),
+        this.incidentRepository.countHistory(filter),
+      ]);
+      return {
+        incidents: incidents.map((incident) => this.formatIncidentResponse(incident)),
+        total,
+      };
+    } catch (error) {
+      logger.error('Error fetching incident history:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Archive incidents whose expiry has passed
+   * @returns number of incidents archived
+   */
+  async archiveExpiredIncidents(): Promise<number> {
+    return this.incidentRepository.archiveExpired();
+  }
+
   /**
    * Get user's reported incidents
    */
@@ -263,6 +413,25 @@ export class IncidentService {
     return R * c;
   }
 
+  /**
+   * Distance along the route (in km) at which each step ends. Step distances
+   * come from Google and are scaled to the decoded polyline's length so the
+   * two measure the same route.
+   */
+  private getStepEndsKm(steps: RouteGeometry['steps'], pathKm: number): number[] {
+    const totalKm = (steps || []).reduce((sum, step) => sum + step.distance / 1000, 0);
+    if (!steps || totalKm === 0) {
+      return [];
+    }
+
+    const scale = pathKm / totalKm;
+    let travelled = 0;
+    return steps.map((step) => {
+      travelled += (step.distance / 1000) * scale;
+      return travelled;
+    });
+  }
+
   /**
    * Format incident for response
    */
@@ -277,6 +446,8 @@ export class IncidentService {
       status: incident.status,
       verification_count: incident.verification.count,
       reported_at: incident.createdAt,
+      expires_at: incident.expires_at,
+      archived_at: incident.archived_at,
       estimated_delay_min: incident.impact_estimate?.estimated_delay_minutes,
     };
   }
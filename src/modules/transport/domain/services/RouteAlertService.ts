@@ -0,0 +1,290 @@
+import mongoose from 'mongoose';
+import { RouteAlertRepository } from '../repositories/RouteAlertRepository';
+import { IRoadIncident } from '../models/RoadIncident';
+import { IRouteAlert } from '../models/RouteAlert';
+import {
+  LatLng,
+  PathBounds,
+  decodePolyline,
+  distanceBetweenPathsKm,
+  getPathBounds,
+  thinPath,
+} from '../utils/Polyline';
+import { SavedTripRepository } from '../../../tour-agent/domain/repositories/SavedTripRepository';
+import { ISavedTrip } from '../../../tour-agent/domain/models/SavedTrip';
+import { pushNotificationService } from '../../../safety/domain/services/PushNotificationService';
+import config from '../../../../shared/config/config';
+import { logger } from '../../../../shared/config/logger';
+
+/**
+ * Routes suggested by the chatbot, in the shape of ChatResponse map_data
+ */
+export interface SuggestedRoutes {
+  origin: { lat: number; lng: number };
+  destination: { lat: number; lng: number };
+  routes: Array<{
+    route_id: string;
+    transport_type: string;
+    polyline?: string;
+    navigation_steps?: Array<{
+      start_location?: { lat: number; lng: number };
+      end_location?: { lat: number; lng: number };
+    }>;
+  }>;
+}
+
+interface RouteMatch {
+  userId: string;
+  source: IRouteAlert['source'];
+  sourceId: string;
+  label?: string;
+  distanceKm: number;
+}
+
+// Only incidents this severe are worth interrupting someone's day for
+const ALERT_SEVERITIES: IRoadIncident['severity'][] = ['high', 'critical'];
+
+// Long routes are thinned to this many points before being stored
+const MAX_WATCH_POINTS = 500;
+
+/**
+ * Route Alert Service
+ *
+ * Pushes new high and critical road incidents to users whose route passes
+ * through them: routes the chatbot recently suggested, and saved trips that
+ * are under way or about to start. An incident matches when its location or
+ * any of its affected-route polylines comes within the corridor distance of
+ * the user's route. Each user hears about an incident at most once, and only
+ * a few times an hour.
+ */
+export class RouteAlertService {
+  private routeAlertRepository: RouteAlertRepository;
+  private savedTripRepository: SavedTripRepository;
+
+  constructor() {
+    this.routeAlertRepository = new RouteAlertRepository();
+    this.savedTripRepository = new SavedTripRepository();
+  }
+
+  /**
+   * Watch the routes the chatbot just suggested to a user
+   */
+  async watchSuggestedRoutes(
+    userId: string,
+    conversationId: string,
+    suggestion: SuggestedRoutes,
+    label?: string
+  ): Promise<void> {
+    const expiresAt = new Date(
+      Date.now() + config.routeAlerts.chatbotRouteTtlHours * 60 * 60 * 1000
+    );
+
+    for (const route of suggestion.routes) {
+      const path = thinPath(this.getSuggestedPath(route, suggestion), MAX_WATCH_POINTS);
+      const bounds = getPathBounds(path);
+      if (!bounds) continue;
+
+      await this.routeAlertRepository.upsertWatch({
+        user_id: userId,
+        conversation_id: conversationId,
+        route_id: route.route_id,
+        transport_type: route.transport_type,
+        label,
+        path,
+        bounds,
+        expires_at: expiresAt,
+      });
+    }
+  }
+
+  /**
+   * Alert every user whose active route passes through a newly reported incident
+   * @returns number of users alerted
+   */
+  async notifyUsersAlongRoute(incident: IRoadIncident): Promise<number> {
+    if (!ALERT_SEVERITIES.includes(incident.severity) || incident.status !== 'active') {
+      return 0;
+    }
+
+    const { corridorKm, maxAlertsPerHour } = config.routeAlerts;
+    const incidentPaths = this.getIncidentPaths(incident);
+    const searchBounds = getPathBounds(incidentPaths.flat(), corridorKm);
+    if (!searchBounds) {
+      return 0;
+    }
+
+    const matches = await this.findMatches(incidentPaths, searchBounds);
+    const reporterId = incident.reporter_id?.toString();
+    const incidentId = String(incident._id);
+
+    let alerted = 0;
+    for (const match of matches.values()) {
+      if (match.userId === reporterId) continue;
+
+      const claimed = await this.routeAlertRepository.claimAlert({
+        user_id: match.userId,
+        incident_id: incidentId,
+        source: match.source,
+        source_id: match.sourceId,
+        distance_km: match.distanceKm,
+      });
+      if (!claimed) continue;
+
+      if (!(await this.routeAlertRepository.reserveAlertSlot(match.userId, maxAlertsPerHour))) {
+        await this.routeAlertRepository.releaseAlert(match.userId, incidentId);
+        logger.info(`Route alert for incident ${incidentId} to user ${match.userId} rate-limited`);
+        continue;
+      }
+
+      const sent = await pushNotificationService.sendToUser(
+        new mongoose.Types.ObjectId(match.userId),
+        {
+          title: `${incident.severity === 'critical' ? 'Critical' : 'Severe'} incident on your route`,
+          body: this.describeMatch(incident, match),
+          data: {
+            type: 'route_incident_alert',
+            incidentId,
+            incidentType: incident.incident_type,
+            severity: incident.severity,
+            routeSource: match.source,
+            routeId: match.sourceId,
+            latitude: incident.location.latitude.toString(),
+            longitude: incident.location.longitude.toString(),
+          },
+        }
+      );
+      if (sent) alerted++;
+    }
+
+    logger.info(
+      `Route alerts for incident ${incidentId}: ${alerted}/${matches.size} users notified`
+    );
+    return alerted;
+  }
+
+  // ============================================================================
+  // HELPER METHODS
+  // ============================================================================
+
+  /**
+   * Closest matching route for each user, from chatbot watches and upcoming trips
+   */
+  private async findMatches(
+    incidentPaths: LatLng[][],
+    searchBounds: PathBounds
+  ): Promise<Map<string, RouteMatch>> {
+    const { corridorKm, tripLookaheadHours } = config.routeAlerts;
+    const matches = new Map<string, RouteMatch>();
+
+    const addMatch = (candidate: Omit<RouteMatch, 'distanceKm'>, path: LatLng[]): void => {
+      const distanceKm = Math.min(
+        ...incidentPaths.map((incidentPath) => distanceBetweenPathsKm(incidentPath, path))
+      );
+      if (distanceKm > corridorKm) return;
+
+      const existing = matches.get(candidate.userId);
+      if (!existing || distanceKm < existing.distanceKm) {
+        matches.set(candidate.userId, { ...candidate, distanceKm });
+      }
+    };
+
+    const watches = await this.routeAlertRepository.findWatchesInBounds(searchBounds);
+    for (const watch of watches) {
+      addMatch(
+        {
+          userId: watch.user_id.toString(),
+          source: 'chatbot',
+          sourceId: watch.route_id,
+          label: watch.label,
+        },
+        watch.path
+      );
+    }
+
+    const now = new Date();
+    const trips = await this.savedTripRepository.findTravellingBetween(
+      now,
+      new Date(now.getTime() + tripLookaheadHours * 60 * 60 * 1000),
+      {
+        minLat: searchBounds.min_lat,
+        maxLat: searchBounds.max_lat,
+        minLng: searchBounds.min_lng,
+        maxLng: searchBounds.max_lng,
+      }
+    );
+    for (const trip of trips) {
+      const path = this.getTripPath(trip);
+      if (path.length === 0) continue;
+
+      addMatch(
+        {
+          userId: trip.userId.toString(),
+          source: 'saved_trip',
+          sourceId: String(trip._id),
+          label: trip.title,
+        },
+        path
+      );
+    }
+
+    return matches;
+  }
+
+  /**
+   * The incident's location plus every affected route, following its polyline
+   * when there is one and its start and end points otherwise
+   */
+  private getIncidentPaths(incident: IRoadIncident): LatLng[][] {
+    const paths: LatLng[][] = [
+      [{ latitude: incident.location.latitude, longitude: incident.location.longitude }],
+    ];
+
+    for (const route of incident.affected_routes || []) {
+      const decoded = route.polyline ? decodePolyline(route.polyline) : [];
+      if (decoded.length > 0) {
+        paths.push(decoded);
+      } else if (route.coordinates?.start && route.coordinates?.end) {
+        paths.push([route.coordinates.start, route.coordinates.end]);
+      }
+    }
+
+    return paths;
+  }
+
+  /**
+   * Path of a suggested route: its polyline, else its navigation steps, else
+   * a straight line from origin to destination
+   */
+  private getSuggestedPath(
+    route: SuggestedRoutes['routes'][number],
+    suggestion: SuggestedRoutes
+  ): LatLng[] {
+    const decoded = route.polyline ? decodePolyline(route.polyline) : [];
+    if (decoded.length > 1) {
+      return decoded;
+    }
+
+    const stepPoints = (route.navigation_steps || [])
+      .flatMap((step) => [step.start_location, step.end_location])
+      .filter((point): point is { lat: number; lng: number } => !!point);
+    const points = stepPoints.length > 1 ? stepPoints : [suggestion.origin, suggestion.destination];
+
+    return points.map((point) => ({ latitude: point.lat, longitude: point.lng }));
+  }
+
+  /**
+   * Path of a saved trip through its located itinerary stops, in visiting order
+   */
+  private getTripPath(trip: ISavedTrip): LatLng[] {
+    return [...trip.itinerary]
+      .filter((item) => item.latitude !== undefined && item.longitude !== undefined)
+      .sort((a, b) => a.dayNumber - b.dayNumber || a.order - b.order)
+      .map((item) => ({ latitude: item.latitude as number, longitude: item.longitude as number }));
+  }
+
+  private describeMatch(incident: IRoadIncident, match: RouteMatch): string {
+    const distance = match.distanceKm < 0.1 ? 'on' : `${match.distanceKm.toFixed(1)} km from`;
+    const route = match.label ? `your route "${match.label}"` : 'your route';
+    return `${incident.title} reported ${distance} ${route}`;
+  }
+}
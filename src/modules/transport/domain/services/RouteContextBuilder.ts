@@ -2,7 +2,7 @@ import { logger } from '../../../../shared/config/logger';
 import { GoogleMapsService } from './GoogleMapsService';
 import { WeatherService, WeatherData } from './WeatherService';
 import { TrafficService } from './TrafficService';
-import { cacheService } from '../../../../shared/libraries/cache/CacheService';
+import { getCache } from '../../../../shared/libraries/cache';
 
 export interface StaticRouteData {
   route_id: string;
@@ -42,6 +42,8 @@ export interface RouteContext {
   recommendation_reason?: string;
 }
 
+const routeContextCache = getCache('route_context');
+
 export class RouteContextBuilder {
   private googleMapsService: GoogleMapsService;
   private weatherService: WeatherService;
@@ -63,8 +65,8 @@ export class RouteContextBuilder {
   ): Promise<RouteContext | null> {
     try {
       // Check cache
-      const cacheKey = `route_context:${staticRoute.route_id}:${originCoords.lat},${originCoords.lng}:${destCoords.lat},${destCoords.lng}`;
-      const cached = cacheService.get<RouteContext>(cacheKey);
+      const cacheKey = `${staticRoute.route_id}:${originCoords.lat},${originCoords.lng}:${destCoords.lat},${destCoords.lng}`;
+      const cached = await routeContextCache.get<RouteContext>(cacheKey);
       if (cached) {
         logger.debug(`Using cached route context for route ${staticRoute.route_id}`);
         return cached;
@@ -155,7 +157,7 @@ export class RouteContextBuilder {
       };
 
       // Cache for 10 minutes
-      cacheService.set(cacheKey, context, 10 * 60 * 1000);
+      await routeContextCache.set(cacheKey, context, 10 * 60 * 1000);
 
       logger.info(`Built route context for ${staticRoute.route_id}:`, {
         distance_km: dynamic.distance_km,
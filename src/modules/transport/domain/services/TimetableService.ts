@@ -0,0 +1,377 @@
+import { TimetableRepository } from '../repositories/TimetableRepository';
+import { ITimetableFeed } from '../models/TimetableFeed';
+import { ITimetableStop } from '../models/TimetableStop';
+import { ITimetableTrip } from '../models/TimetableTrip';
+import { ITimetableStopTime } from '../models/TimetableStopTime';
+import { MockTimetableService, DepartureTime } from './MockTimetableService';
+import { GtfsTimeHelper } from '../utils/GtfsTimeHelper';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+import { logger } from '../../../../shared/config/logger';
+
+/**
+ * Departure with the source it came from and, for scheduled trips, service details
+ */
+export interface TimetableDeparture extends DepartureTime {
+  source: 'timetable' | 'estimated';
+  route_name?: string;
+  agency_name?: string;
+  headsign?: string;
+  origin_stop?: string;
+  destination_stop?: string;
+  arrival_time?: string;
+}
+
+export interface DepartureQuery {
+  originCityId?: number;
+  destinationCityId?: number;
+  transportMode: 'bus' | 'train' | 'car';
+  distanceKm: number; // only used by the estimated fallback
+  currentTime?: Date;
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+// Yesterday (trips running past midnight), today, and the next two days
+const SEARCH_DAY_OFFSETS = [-1, 0, 1, 2];
+
+/**
+ * Timetable Service
+ *
+ * Answers "when is the next bus/train" from imported GTFS feeds.
+ * Routes without any timetable coverage fall back to MockTimetableService
+ * estimates, which are flagged with source 'estimated'.
+ */
+export class TimetableService {
+  private timetableRepository: TimetableRepository;
+  private mockTimetableService: MockTimetableService;
+
+  constructor() {
+    this.timetableRepository = new TimetableRepository();
+    this.mockTimetableService = new MockTimetableService();
+  }
+
+  /**
+   * Get the next departure between two cities
+   */
+  async getNextDeparture(query: DepartureQuery): Promise<TimetableDeparture | null> {
+    const [next] = await this.getUpcomingDepartures(query, 1);
+    return next || null;
+  }
+
+  /**
+   * Get upcoming departures between two cities.
+   * An empty list means the route is timetabled but nothing runs in the search window.
+   */
+  async getUpcomingDepartures(
+    query: DepartureQuery,
+    count: number = 3
+  ): Promise<TimetableDeparture[]> {
+    const { originCityId, destinationCityId, transportMode } = query;
+
+    if (transportMode !== 'car' && originCityId !== undefined && destinationCityId !== undefined) {
+      try {
+        const scheduled = await this.getScheduledDepartures(
+          originCityId,
+          destinationCityId,
+          transportMode,
+          query.currentTime || new Date(),
+          count
+        );
+        if (scheduled) {
+          return scheduled;
+        }
+      } catch (error) {
+        logger.warn('Timetable lookup failed, using estimated departures:', error);
+      }
+    }
+
+    return this.mockTimetableService
+      .getUpcomingDepartures(query.distanceKm, transportMode, count, query.currentTime)
+      .map((departure) => ({ ...departure, source: 'estimated' as const }));
+  }
+
+  /**
+   * Format departure for display, including the service for scheduled trips
+   */
+  formatDepartureForDisplay(departure: TimetableDeparture): string {
+    const base = this.mockTimetableService.formatDepartureForDisplay(departure);
+
+    if (departure.source === 'estimated') {
+      return departure.departure_time === 'On Demand' ? base : `${base} - estimated`;
+    }
+
+    const details: string[] = [];
+    if (departure.route_name) details.push(departure.route_name);
+    if (departure.headsign) details.push(`to ${departure.headsign}`);
+    if (departure.origin_stop) details.push(`from ${departure.origin_stop}`);
+    if (departure.arrival_time) details.push(`arrives ${departure.arrival_time}`);
+
+    return details.length > 0 ? `${base} - ${details.join(', ')}` : base;
+  }
+
+  // ============================================================================
+  // FEEDS
+  // ============================================================================
+
+  async getFeeds(status?: ITimetableFeed['status']): Promise<ITimetableFeed[]> {
+    return this.timetableRepository.findFeeds(status);
+  }
+
+  async getFeed(feedId: string): Promise<ITimetableFeed> {
+    const feed = await this.timetableRepository.findFeedById(feedId);
+    if (!feed) {
+      throw new AppError('Timetable feed not found', 404);
+    }
+    return feed;
+  }
+
+  async deleteFeed(feedId: string): Promise<void> {
+    const deleted = await this.timetableRepository.deleteFeed(feedId);
+    if (!deleted) {
+      throw new AppError('Timetable feed not found', 404);
+    }
+    logger.info(`Deleted timetable feed ${feedId}`);
+  }
+
+  // ============================================================================
+  // SCHEDULE SEARCH
+  // ============================================================================
+
+  /**
+   * Search every active feed for scheduled departures only.
+   * Returns null when no feed has a trip linking the two cities.
+   */
+  async getScheduledDepartures(
+    originCityId: number,
+    destinationCityId: number,
+    mode: 'bus' | 'train',
+    now: Date,
+    count: number
+  ): Promise<TimetableDeparture[] | null> {
+    const feeds = await this.timetableRepository.findActiveFeeds();
+    const departures: TimetableDeparture[] = [];
+    let covered = false;
+
+    for (const feed of feeds) {
+      const [originStops, destinationStops] = await Promise.all([
+        this.timetableRepository.findStopsByCity(feed.feed_id, originCityId),
+        this.timetableRepository.findStopsByCity(feed.feed_id, destinationCityId),
+      ]);
+      if (originStops.length === 0 || destinationStops.length === 0) {
+        continue;
+      }
+
+      const feedDepartures = await this.searchFeed(
+        feed,
+        originStops,
+        destinationStops,
+        mode,
+        now,
+        count
+      );
+
+      if (feedDepartures.length > 0) {
+        covered = true;
+        departures.push(...feedDepartures);
+      } else if (
+        !covered &&
+        (await this.timetableRepository.hasConnectingTrip(
+          feed.feed_id,
+          originStops.map((s) => s.stop_id),
+          destinationStops.map((s) => s.stop_id),
+          mode
+        ))
+      ) {
+        covered = true;
+      }
+    }
+
+    if (!covered) {
+      return null;
+    }
+
+    return departures
+      .sort((a, b) => a.departure_datetime.getTime() - b.departure_datetime.getTime())
+      .slice(0, count)
+      .map((departure, index) => ({ ...departure, is_next_available: index === 0 }));
+  }
+
+  /**
+   * Walk service days in order until enough departures have been found in one feed
+   */
+  private async searchFeed(
+    feed: ITimetableFeed,
+    originStops: ITimetableStop[],
+    destinationStops: ITimetableStop[],
+    mode: 'bus' | 'train',
+    now: Date,
+    count: number
+  ): Promise<TimetableDeparture[]> {
+    const timezone = feed.timezone || 'Asia/Colombo';
+    const clock = GtfsTimeHelper.getZonedClock(now, timezone);
+    const stopNames = new Map<string, string>();
+    [...originStops, ...destinationStops].forEach((stop) => stopNames.set(stop.stop_id, stop.name));
+
+    // Only trips calling somewhere in the destination city can be useful
+    const destinationTripIds = await this.timetableRepository.findTripIdsServingStops(
+      feed.feed_id,
+      destinationStops.map((s) => s.stop_id)
+    );
+    if (destinationTripIds.length === 0) {
+      return [];
+    }
+
+    const results: TimetableDeparture[] = [];
+
+    for (const offset of SEARCH_DAY_OFFSETS) {
+      // Yesterday and today are both searched before we stop, since an overnight
+      // trip from yesterday's service can leave before today's first trip
+      if (offset > 0 && results.length >= count) {
+        break;
+      }
+
+      const serviceDate = GtfsTimeHelper.addDays(clock.serviceDate, offset);
+      const serviceIds = await this.timetableRepository.findActiveServiceIds(
+        feed.feed_id,
+        serviceDate,
+        GtfsTimeHelper.getWeekday(serviceDate)
+      );
+      if (serviceIds.length === 0) {
+        continue;
+      }
+
+      const trips = await this.timetableRepository.findTrips(
+        feed.feed_id,
+        destinationTripIds,
+        serviceIds,
+        mode
+      );
+      if (trips.length === 0) {
+        continue;
+      }
+
+      // Seconds window relative to this service day's midnight that is still in the future
+      const fromSecs = Math.max(0, clock.secondsOfDay - offset * SECONDS_PER_DAY);
+      const candidates = await this.timetableRepository.findDeparturesFromStops(
+        feed.feed_id,
+        originStops.map((s) => s.stop_id),
+        trips.map((t) => t.trip_id),
+        fromSecs,
+        fromSecs + 2 * SECONDS_PER_DAY
+      );
+      if (candidates.length === 0) {
+        continue;
+      }
+
+      const arrivals = await this.timetableRepository.findStopTimesForTrips(
+        feed.feed_id,
+        Array.from(new Set(candidates.map((c) => c.trip_id))),
+        destinationStops.map((s) => s.stop_id)
+      );
+
+      results.push(
+        ...this.matchDepartures(candidates, trips, arrivals, stopNames).map((match) =>
+          this.toDeparture(match, serviceDate, offset, timezone, now)
+        )
+      );
+    }
+
+    return results;
+  }
+
+  /**
+   * Pair each trip's first qualifying origin stop time with its first later destination stop time
+   */
+  private matchDepartures(
+    candidates: ITimetableStopTime[],
+    trips: ITimetableTrip[],
+    arrivals: ITimetableStopTime[],
+    stopNames: Map<string, string>
+  ): Array<{
+    trip: ITimetableTrip;
+    departure: ITimetableStopTime;
+    arrival: ITimetableStopTime;
+    originStop?: string;
+    destinationStop?: string;
+  }> {
+    const tripsById = new Map(trips.map((trip) => [trip.trip_id, trip]));
+    const seenTrips = new Set<string>();
+    const matches = [];
+
+    // Candidates are sorted by departure time, so the first hit per trip is the earliest
+    for (const candidate of candidates) {
+      const trip = tripsById.get(candidate.trip_id);
+      if (!trip || seenTrips.has(trip.trip_id)) {
+        continue;
+      }
+
+      const arrival = arrivals
+        .filter((a) => a.trip_id === trip.trip_id && a.stop_sequence > candidate.stop_sequence)
+        .sort((a, b) => a.stop_sequence - b.stop_sequence)[0];
+      if (!arrival) {
+        continue;
+      }
+
+      seenTrips.add(trip.trip_id);
+      matches.push({
+        trip,
+        departure: candidate,
+        arrival,
+        originStop: stopNames.get(candidate.stop_id),
+        destinationStop: stopNames.get(arrival.stop_id),
+      });
+    }
+
+    return matches;
+  }
+
+  private toDeparture(
+    match: {
+      trip: ITimetableTrip;
+      departure: ITimetableStopTime;
+      arrival: ITimetableStopTime;
+      originStop?: string;
+      destinationStop?: string;
+    },
+    serviceDate: string,
+    offset: number,
+    timezone: string,
+    now: Date
+  ): TimetableDeparture {
+    const { trip, departure, arrival } = match;
+    const departureDatetime = GtfsTimeHelper.toInstant(
+      serviceDate,
+      departure.departure_secs,
+      timezone
+    );
+    const dayDifference = offset + Math.floor(departure.departure_secs / SECONDS_PER_DAY);
+
+    let departureTime = GtfsTimeHelper.formatTime(departure.departure_secs);
+    if (dayDifference === 1) {
+      departureTime += ' (Tomorrow)';
+    } else if (dayDifference > 1) {
+      departureTime += ` (${departureDatetime.toLocaleDateString('en-US', {
+        timeZone: timezone,
+        weekday: 'long',
+      })})`;
+    }
+
+    const routeName = [trip.route_short_name, trip.route_long_name].filter(Boolean).join(' ');
+
+    return {
+      departure_time: departureTime,
+      departure_datetime: departureDatetime,
+      minutes_until_departure: Math.max(
+        0,
+        Math.floor((departureDatetime.getTime() - now.getTime()) / (1000 * 60))
+      ),
+      is_next_available: false,
+      source: 'timetable',
+      route_name: routeName || undefined,
+      agency_name: trip.agency_name,
+      headsign: trip.headsign,
+      origin_stop: match.originStop,
+      destination_stop: match.destinationStop,
+      arrival_time: GtfsTimeHelper.formatTime(arrival.arrival_secs),
+    };
+  }
+}
@@ -1,5 +1,5 @@
 import { logger } from '../../../../shared/config/logger';
-import { cacheService } from '../../../../shared/libraries/cache/CacheService';
+import { getCache } from '../../../../shared/libraries/cache';
 
 export interface TrafficData {
   congestion_level: 'low' | 'medium' | 'high' | 'severe';
@@ -8,6 +8,8 @@ export interface TrafficData {
   estimated_delay_min: number;
 }
 
+const trafficCache = getCache('traffic');
+
 /**
  * TrafficService provides traffic and congestion data
  * Currently implements simple rule-based model
@@ -31,8 +33,8 @@ export class TrafficService {
     timeOfDay: 'morning' | 'afternoon' | 'evening' | 'night' = 'afternoon'
   ): Promise<TrafficData> {
     try {
-      const cacheKey = `traffic:${originLat},${originLng}:${_destLat},${_destLng}:${timeOfDay}`;
-      const cached = cacheService.get<TrafficData>(cacheKey);
+      const cacheKey = `${originLat},${originLng}:${_destLat},${_destLng}:${timeOfDay}`;
+      const cached = await trafficCache.get<TrafficData>(cacheKey);
 
       if (cached) {
         logger.debug(`Using cached traffic data for route`);
@@ -49,7 +51,7 @@ export class TrafficService {
       );
 
       // Cache for 5 minutes (traffic changes frequently)
-      cacheService.set(cacheKey, trafficData, 5 * 60 * 1000);
+      await trafficCache.set(cacheKey, trafficData, 5 * 60 * 1000);
 
       return trafficData;
     } catch (error) {
@@ -7,11 +7,26 @@ import { GoogleMapsService } from './GoogleMapsService';
 import { RouteContextBuilder, StaticRouteData, RouteContext } from './RouteContextBuilder';
 import { RankingService, RankedRoute } from './RankingService';
 import { IncidentService, IncidentResponse } from './IncidentService';
-import { MockTimetableService } from './MockTimetableService';
+import { RouteAlertService } from './RouteAlertService';
+import { TimetableService, TimetableDeparture } from './TimetableService';
 import { logger } from '../../../../shared/config/logger';
+import { getCache } from '../../../../shared/libraries/cache';
 import { IMessage } from '../models/Message';
 import { IConversation } from '../models/Conversation';
 import { ICity } from '../models/City';
+import { CityRepository } from '../repositories/CityRepository';
+import {
+  ChatLanguage,
+  LocalizedCityName,
+  LANGUAGE_KEYWORDS,
+  containsKeyword,
+  detectChatLanguage,
+  findPlaceMentions,
+} from '../utils/ChatbotLanguage';
+import { getChatbotMessages } from '../utils/ChatbotMessages';
+
+// Localized city names rarely change; reload them hourly
+const localizedCityNamesCache = getCache('localized_city_names', 60 * 60 * 1000);
 
 // Extended StaticRouteData with additional fields used in route creation
 interface ExtendedStaticRouteData extends StaticRouteData {
@@ -25,7 +40,8 @@ export interface ChatRequest {
   user_id: string;
   message: string;
   conversation_id?: string;
-  language?: 'en' | 'si' | 'ta';
+  /** Reply language; detected from the message script when omitted */
+  language?: ChatLanguage;
   context?: {
     current_location?: {
       lat: number;
@@ -40,6 +56,7 @@ export interface ChatResponse {
   message_type: IMessage['message_type'];
   metadata?: {
     intent?: string;
+    language?: ChatLanguage;
     locations_identified?: Array<{
       name: string;
       city_id?: number;
@@ -170,7 +187,9 @@ export class TransportChatbotService {
   private routeContextBuilder: RouteContextBuilder;
   private rankingService: RankingService;
   private incidentService: IncidentService;
-  private mockTimetableService: MockTimetableService;
+  private routeAlertService: RouteAlertService;
+  private timetableService: TimetableService;
+  private cityRepository: CityRepository;
 
   constructor() {
     this.conversationService = new ConversationService();
@@ -182,7 +201,9 @@ export class TransportChatbotService {
     this.routeContextBuilder = new RouteContextBuilder();
     this.rankingService = new RankingService();
     this.incidentService = new IncidentService();
-    this.mockTimetableService = new MockTimetableService();
+    this.routeAlertService = new RouteAlertService();
+    this.timetableService = new TimetableService();
+    this.cityRepository = new CityRepository();
   }
 
   /**
@@ -192,6 +213,12 @@ export class TransportChatbotService {
     const startTime = Date.now();
 
     try {
+      // Honour the requested language, otherwise answer in the language the user wrote in
+      const chatRequest: ChatRequest = {
+        ...request,
+        language: request.language ?? detectChatLanguage(request.message) ?? 'en',
+      };
+
       // Get or create conversation
       const conversation = request.conversation_id
         ? await this.conversationService.getConversation(request.conversation_id)
@@ -216,7 +243,11 @@ export class TransportChatbotService {
       );
 
       // Extract intent and entities using LLM
-      const intent = await this.extractIntent(request.message, recentMessages);
+      const intent = await this.extractIntent(
+        request.message,
+        recentMessages,
+        chatRequest.language
+      );
 
       logger.info('Intent extraction result:', {
         message: request.message,
@@ -273,22 +304,26 @@ export class TransportChatbotService {
       let response: ChatResponse;
       switch (intent.intent) {
         case 'route_query':
-          response = await this.handleRouteQuery(activeConversation, request, intent);
+          response = await this.handleRouteQuery(activeConversation, chatRequest, intent);
           break;
         case 'time_query':
-          response = await this.handleTimeQuery(activeConversation, request, intent);
+          response = await this.handleTimeQuery(activeConversation, chatRequest, intent);
           break;
         case 'weather_query':
-          response = await this.handleWeatherQuery(activeConversation, request, intent);
+          response = await this.handleWeatherQuery(activeConversation, chatRequest, intent);
           break;
         case 'location_info':
-          response = await this.handleLocationInfo(activeConversation, request, intent);
+          response = await this.handleLocationInfo(activeConversation, chatRequest, intent);
           break;
         case 'greeting':
-          response = await this.handleGreeting(activeConversation, request);
+          response = await this.handleGreeting(activeConversation, chatRequest);
           break;
         default:
-          response = await this.handleGeneralQuestion(activeConversation, request, recentMessages);
+          response = await this.handleGeneralQuestion(
+            activeConversation,
+            chatRequest,
+            recentMessages
+          );
       }
 
       // Clear pending context after a successful full route answer
@@ -297,6 +332,21 @@ export class TransportChatbotService {
         await this.conversationService.clearPendingRouteQuery(String(activeConversation._id));
       }
 
+      // Watch suggested routes so the user hears about severe incidents along them
+      if (response.message_type === 'route_suggestion' && response.metadata?.map_data) {
+        const [from, to] = response.metadata.locations_identified || [];
+        this.routeAlertService
+          .watchSuggestedRoutes(
+            request.user_id,
+            String(activeConversation._id),
+            response.metadata.map_data,
+            from && to ? `${from.name} to ${to.name}` : undefined
+          )
+          .catch((error) => {
+            logger.error('Failed to watch suggested routes:', error);
+          });
+      }
+
       // Clear stale route context when user asks a non-route question
       if (!isRouteIntent && hadPendingRouteContext) {
         logger.info('Non-route intent with stale route context - clearing pending route context');
@@ -308,6 +358,7 @@ export class TransportChatbotService {
         ...response.metadata,
         processing_time_ms: Date.now() - startTime,
         intent: intent.intent,
+        language: chatRequest.language,
       };
 
       // Save assistant message
@@ -327,6 +378,48 @@ export class TransportChatbotService {
     }
   }
 
+  /**
+   * Incidents along any of the displayed routes, matched against each route's
+   * polyline. An incident on several routes is listed once, positioned on the
+   * best-ranked route. Falls back to the road between origin and destination
+   * when no route has a polyline.
+   */
+  private async getIncidentsAlongRoutes(
+    routes: RankedRoute[],
+    origin: { lat: number; lng: number },
+    destination: { lat: number; lng: number }
+  ): Promise<IncidentResponse[]> {
+    const routesWithPolyline = routes.filter((route) => route.static.polyline);
+    if (routesWithPolyline.length === 0) {
+      return this.incidentService.getIncidentsForRoute(
+        origin.lat,
+        origin.lng,
+        destination.lat,
+        destination.lng
+      );
+    }
+
+    const incidents = new Map<string, IncidentResponse>();
+    for (const route of routesWithPolyline) {
+      const alongRoute = await this.incidentService.getIncidentsAlongRoute({
+        polyline: route.static.polyline,
+        steps: route.static.navigation_steps,
+      });
+      alongRoute
+        .filter((incident) => !incidents.has(incident.id))
+        .forEach((incident) => incidents.set(incident.id, incident));
+    }
+    return [...incidents.values()];
+  }
+
+  /**
+   * How far into the trip an incident is: along the route when it was matched
+   * against one, otherwise as the crow flies from the origin
+   */
+  private getKmFromOrigin(incident: IncidentResponse): number | undefined {
+    return incident.distance_along_route_km ?? incident.distance_from_user_km;
+  }
+
   /**
    * Save location mentions to pending context for cross-message queries
    */
@@ -392,7 +485,19 @@ export class TransportChatbotService {
   /**
    * Extract intent and entities from user message
    */
-  private async extractIntent(message: string, context: IMessage[]): Promise<ExtractedIntent> {
+  private async extractIntent(
+    message: string,
+    context: IMessage[],
+    language: ChatLanguage = 'en'
+  ): Promise<ExtractedIntent> {
+    // Sinhala/Tamil place names are matched against the stored city names first
+    if (language !== 'en') {
+      const localizedIntent = await this.extractLocalizedIntent(message, language);
+      if (localizedIntent) {
+        return localizedIntent;
+      }
+    }
+
     try {
       // Build context with previous entities from metadata
       const contextText = context
@@ -433,6 +538,7 @@ IMPORTANT EXTRACTION RULES:
 5. If the user previously said where they want to go, and now just mentions where they're from, combine them
 6. If the user previously said where they're from, and now just mentions where they want to go, combine them
 7. For time queries, check if origin/destination was mentioned in previous messages and include them
+8. Place names may be written in Sinhala or Tamil - return them exactly as written
 
 EXAMPLES:
 - "I'm in Colombo and i want to go to embilipitiya" → intent: "route_query", origin: "Colombo", destination: "embilipitiya"
@@ -621,6 +727,130 @@ Return JSON with: intent, origin, destination, transport_type, date, time`;
     };
   }
 
+  /**
+   * Keyword and place-name based intent extraction for Sinhala and Tamil messages.
+   * Returns null when the message doesn't match, so the LLM can have a go.
+   */
+  private async extractLocalizedIntent(
+    message: string,
+    language: Exclude<ChatLanguage, 'en'>
+  ): Promise<ExtractedIntent | null> {
+    const keywords = LANGUAGE_KEYWORDS[language];
+    const temporalHints = this.extractTemporalHints(message);
+    const mentions = findPlaceMentions(
+      message,
+      await this.getLocalizedCityNames(language),
+      language
+    );
+
+    if (mentions.length === 0) {
+      return containsKeyword(message, keywords.greeting)
+        ? { intent: 'greeting', entities: {}, confidence: 0.9 }
+        : null;
+    }
+
+    if (containsKeyword(message, keywords.weather)) {
+      return {
+        intent: 'weather_query',
+        entities: { destination: mentions[0].name },
+        confidence: 0.8,
+      };
+    }
+
+    // Explicit markers win; otherwise the first place is the origin and the next the destination
+    const origin = mentions.find((mention) => mention.role === 'origin');
+    const destination = mentions.find((mention) => mention.role === 'destination');
+    const unassigned = mentions.filter((mention) => !mention.role);
+
+    let originName = origin?.name;
+    let destinationName = destination?.name;
+    if (!originName && unassigned.length > (destinationName ? 0 : 1)) {
+      originName = unassigned.shift()?.name;
+    }
+    if (!destinationName && unassigned.length > 0) {
+      destinationName = unassigned.shift()?.name;
+    }
+
+    if (containsKeyword(message, keywords.time)) {
+      return {
+        intent: 'time_query',
+        entities: {
+          origin: originName,
+          destination: destinationName,
+          transport_type: containsKeyword(message, keywords.train)
+            ? 'train'
+            : containsKeyword(message, keywords.bus)
+              ? 'bus'
+              : undefined,
+          date: temporalHints.date,
+          time: temporalHints.time,
+        },
+        confidence: 0.85,
+      };
+    }
+
+    if (mentions.length === 1 && containsKeyword(message, keywords.locationInfo)) {
+      return {
+        intent: 'location_info',
+        entities: { destination: mentions[0].name },
+        confidence: 0.7,
+      };
+    }
+
+    return {
+      intent: 'route_query',
+      entities: {
+        origin: originName,
+        destination: destinationName,
+        date: temporalHints.date,
+        time: temporalHints.time,
+      },
+      confidence: originName && destinationName ? 0.85 : 0.6,
+    };
+  }
+
+  /**
+   * Sinhala or Tamil city names, cached
+   */
+  private async getLocalizedCityNames(
+    language: Exclude<ChatLanguage, 'en'>
+  ): Promise<LocalizedCityName[]> {
+    try {
+      return await localizedCityNamesCache.getOrSet(language, () =>
+        this.cityRepository.findLocalizedNames(language)
+      );
+    } catch (error) {
+      logger.warn(`Failed to load ${language} city names:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Translate LLM-generated free text into the reply language
+   */
+  private async localizeFreeText(text: string, language: ChatLanguage = 'en'): Promise<string> {
+    if (language === 'en' || !text) {
+      return text;
+    }
+
+    try {
+      return await this.llmService.translate(text, language);
+    } catch (error) {
+      logger.warn('Translation failed, replying in English:', (error as Error).message);
+      return text;
+    }
+  }
+
+  /**
+   * System prompt line asking the LLM to answer in the reply language
+   */
+  private languageInstruction(language: ChatLanguage = 'en'): string {
+    if (language === 'en') {
+      return '';
+    }
+    return `\n\nRespond in ${language === 'si' ? 'Sinhala' : 'Tamil'}. Keep city and place names recognizable.`;
+  }
+
   /**
    * Extract previously mentioned locations from conversation context
    */
@@ -687,6 +917,8 @@ Return JSON with: intent, origin, destination, transport_type, date, time`;
     request: ChatRequest,
     intent: ExtractedIntent
   ): Promise<ChatResponse> {
+    const messages = getChatbotMessages(request.language);
+
     try {
       const { origin, destination } = intent.entities;
 
@@ -694,9 +926,9 @@ Return JSON with: intent, origin, destination, transport_type, date, time`;
       if (!origin && destination) {
         return {
           conversation_id: String(conversation._id),
-          message: `Great! You want to go to ${destination}. Where are you starting from? 🚏\n\nFor example, "I'm in Colombo" or "from Kandy"`,
+          message: messages.askOrigin(destination),
           message_type: 'text',
-          suggestions: ['I am in Colombo', 'From Kandy', 'Starting from Galle'],
+          suggestions: messages.askOriginSuggestions,
           metadata: {
             processing_time_ms: 0,
             intent: 'route_query_partial',
@@ -709,9 +941,9 @@ Return JSON with: intent, origin, destination, transport_type, date, time`;
       if (origin && !destination) {
         return {
           conversation_id: String(conversation._id),
-          message: `Got it! You're in ${origin}. Where would you like to go? 🎯\n\nFor example, "to Kandy" or "I want to go to Galle"`,
+          message: messages.askDestination(origin),
           message_type: 'text',
-          suggestions: ['To Kandy', 'I want to go to Galle', 'Heading to Nuwara Eliya'],
+          suggestions: messages.askDestinationSuggestions,
           metadata: {
             processing_time_ms: 0,
             intent: 'route_query_partial',
@@ -724,14 +956,9 @@ Return JSON with: intent, origin, destination, transport_type, date, time`;
       if (!origin && !destination) {
         return {
           conversation_id: String(conversation._id),
-          message:
-            "I'd be happy to help you find transport! 🚌🚂\n\nCould you tell me:\n• Where are you starting from?\n• Where do you want to go?\n\nFor example: 'I want to go from Colombo to Kandy'",
+          message: messages.askRoute,
           message_type: 'text',
-          suggestions: [
-            'I want to go from Colombo to Kandy',
-            'How do I get to Galle from Negombo?',
-            'Transport from Nugegoda to Embilipitiya',
-          ],
+          suggestions: messages.askRouteSuggestions,
         };
       }
 
@@ -755,7 +982,7 @@ Return JSON with: intent, origin, destination, transport_type, date, time`;
         if (!originCoords) {
           return {
             conversation_id: String(conversation._id),
-            message: `I couldn't find the location "${origin}". Could you please check the spelling or try a nearby city?`,
+            message: messages.locationNotFound(origin!),
             message_type: 'text',
           };
         }
@@ -774,7 +1001,7 @@ Return JSON with: intent, origin, destination, transport_type, date, time`;
         if (!destCoords) {
           return {
             conversation_id: String(conversation._id),
-            message: `I couldn't find the location "${destination}". Could you please check the spelling or try a nearby city?`,
+            message: messages.locationNotFound(destination!),
             message_type: 'text',
           };
         }
@@ -797,7 +1024,7 @@ Return JSON with: intent, origin, destination, transport_type, date, time`;
         );
         return {
           conversation_id: String(conversation._id),
-          message: `It seems both locations are the same or very close to each other. Please check:\n• Origin: ${origin}\n• Destination: ${destination}`,
+          message: messages.sameLocation(origin!, destination!),
           message_type: 'error',
         };
       }
@@ -993,7 +1220,7 @@ Return JSON with: intent, origin, destination, transport_type, date, time`;
         if (allRoutes.length === 0) {
           return {
             conversation_id: String(conversation._id),
-            message: `I couldn't find any routes between ${origin} and ${destination}. This might be due to Google Maps API limitations. Please try different locations or check back later.`,
+            message: messages.noRoutesFound(origin!, destination!),
             message_type: 'text',
           };
         }
@@ -1019,7 +1246,7 @@ Return JSON with: intent, origin, destination, transport_type, date, time`;
         if (validContexts.length === 0) {
           return {
             conversation_id: String(conversation._id),
-            message: 'Could not fetch real-time data for available routes. Please try again.',
+            message: messages.realTimeDataUnavailable,
             message_type: 'error',
           };
         }
@@ -1039,44 +1266,55 @@ Return JSON with: intent, origin, destination, transport_type, date, time`;
           departureTime,
         });
 
-        // Fetch incidents affecting this route
+        // Select diverse routes for display (ensure different transport types are shown)
+        const displayRoutes = this.selectDiverseRoutes(rankedRoutes, 3);
+
+        // Fetch incidents along the displayed routes
         let routeIncidents: IncidentResponse[] = [];
         try {
-          routeIncidents = await this.incidentService.getIncidentsForRoute(
-            originCoords.lat,
-            originCoords.lng,
-            destCoords.lat,
-            destCoords.lng,
-            15 // 15km corridor radius
+          routeIncidents = await this.getIncidentsAlongRoutes(
+            displayRoutes,
+            originCoords,
+            destCoords
           );
         } catch (error) {
           logger.warn('Error fetching route incidents:', error);
           // Continue without incidents
         }
 
-        // Select diverse routes for display (ensure different transport types are shown)
-        const displayRoutes = this.selectDiverseRoutes(rankedRoutes, 3);
-
         // Generate explanation using selected transport methods (not all route variants)
         let explanation: string;
         try {
-          explanation = await this.llmService.generateRouteExplanation(
-            displayRoutes,
-            origin!,
-            destination!
+          explanation = await this.localizeFreeText(
+            await this.llmService.generateRouteExplanation(displayRoutes, origin!, destination!),
+            request.language
           );
         } catch (error) {
           logger.warn('Error generating explanation:', (error as Error).message);
           // Fallback explanation
-          explanation = `I found ${displayRoutes.length} transport methods from ${origin} to ${destination}.`;
+          explanation = messages.routeExplanationFallback(
+            displayRoutes.length,
+            origin!,
+            destination!
+          );
         }
 
+        // Look up next departures from the timetable (estimates when the route has none)
+        const nextDepartures = await this.getNextDeparturesForRoutes(
+          displayRoutes,
+          accessOriginCity?.city_id,
+          accessDestCity?.city_id,
+          departureTime
+        );
+
         // Format detailed response with top 3 routes and incidents
         const detailedResponse = this.formatIntelligentRouteResponse(
           displayRoutes,
           explanation,
           departureTime,
-          routeIncidents
+          nextDepartures,
+          routeIncidents,
+          request.language
         );
 
         // Update conversation context (only if both cities were found in database)
@@ -1161,18 +1399,13 @@ Return JSON with: intent, origin, destination, transport_type, date, time`;
             },
             processing_time_ms: 0,
           },
-          suggestions: [
-            'Show me more options',
-            'What about cheaper routes?',
-            'Which is fastest?',
-            'Tell me about weather',
-          ],
+          suggestions: messages.routeSuggestions,
         };
       } catch (googleMapsError) {
         logger.error('Error fetching routes from Google Maps:', googleMapsError);
         return {
           conversation_id: String(conversation._id),
-          message: `I'm having trouble finding routes between ${origin} and ${destination} right now. This could be due to:\n\n• Google Maps API is not configured\n• Network connectivity issues\n• The locations are too far apart\n\nPlease try again later or contact support if the problem persists.`,
+          message: messages.routeServiceUnavailable(origin!, destination!),
           message_type: 'error',
         };
       }
@@ -1180,8 +1413,7 @@ Return JSON with: intent, origin, destination, transport_type, date, time`;
       logger.error('Error handling route query:', error);
       return {
         conversation_id: String(conversation._id),
-        message:
-          'I encountered an error while finding routes. Please try again or rephrase your question.',
+        message: messages.routeQueryError,
         message_type: 'error',
       };
     }
@@ -1234,6 +1466,36 @@ Return JSON with: intent, origin, destination, transport_type, date, time`;
     return selected;
   }
 
+  /**
+   * Resolve the next departure for each bus/train option shown to the user
+   */
+  private async getNextDeparturesForRoutes(
+    routes: RankedRoute[],
+    originCityId: number | undefined,
+    destinationCityId: number | undefined,
+    departureTime: Date
+  ): Promise<Map<RankedRoute, TimetableDeparture | null>> {
+    const nextDepartures = new Map<RankedRoute, TimetableDeparture | null>();
+
+    for (const route of routes) {
+      if (route.transport_type !== 'bus' && route.transport_type !== 'train') {
+        continue;
+      }
+      nextDepartures.set(
+        route,
+        await this.timetableService.getNextDeparture({
+          originCityId,
+          destinationCityId,
+          transportMode: route.transport_type,
+          distanceKm: route.dynamic.distance_km,
+          currentTime: departureTime,
+        })
+      );
+    }
+
+    return nextDepartures;
+  }
+
   /**
    * Format intelligent route response with ranked options
    */
@@ -1241,8 +1503,11 @@ Return JSON with: intent, origin, destination, transport_type, date, time`;
     rankedRoutes: RankedRoute[],
     explanation: string,
     departureTime: Date,
-    incidents?: IncidentResponse[]
+    nextDepartures: Map<RankedRoute, TimetableDeparture | null>,
+    incidents?: IncidentResponse[],
+    language: ChatLanguage = 'en'
   ): string {
+    const messages = getChatbotMessages(language);
     let response = `${explanation}\n\n`;
 
     const topRoute = rankedRoutes[0];
@@ -1256,25 +1521,27 @@ Return JSON with: intent, origin, destination, transport_type, date, time`;
       const mediumIncidents = incidents.filter((i) => i.severity === 'medium');
 
       if (criticalIncidents.length > 0) {
-        response += '🚨 **CRITICAL INCIDENTS ON ROUTE:**\n';
+        response += `${messages.criticalIncidentsHeader}\n`;
         criticalIncidents.forEach((incident) => {
-          const distanceInfo = incident.distance_from_user_km
-            ? ` (${incident.distance_from_user_km.toFixed(1)} km from origin)`
+          const kmFromOrigin = this.getKmFromOrigin(incident);
+          const distanceInfo = kmFromOrigin
+            ? ` (${messages.kmFromOrigin(kmFromOrigin.toFixed(1))})`
             : '';
           response += `• ${incident.title}${distanceInfo}\n`;
           response += `  ${incident.description.substring(0, 80)}...\n`;
           if (incident.estimated_delay_min) {
-            response += `  ⏱️ Expected delay: ${incident.estimated_delay_min} minutes\n`;
+            response += `  ${messages.expectedDelay(incident.estimated_delay_min)}\n`;
           }
         });
         response += '\n';
       }
 
       if (highIncidents.length > 0) {
-        response += '⚠️ **Important Road Conditions:**\n';
+        response += `${messages.importantConditionsHeader}\n`;
         highIncidents.forEach((incident) => {
-          const distanceInfo = incident.distance_from_user_km
-            ? ` - ${incident.distance_from_user_km.toFixed(1)} km from origin`
+          const kmFromOrigin = this.getKmFromOrigin(incident);
+          const distanceInfo = kmFromOrigin
+            ? ` - ${messages.kmFromOrigin(kmFromOrigin.toFixed(1))}`
             : '';
           response += `• ${incident.title} (${incident.incident_type})${distanceInfo}\n`;
         });
@@ -1282,15 +1549,16 @@ Return JSON with: intent, origin, destination, transport_type, date, time`;
       }
 
       if (mediumIncidents.length > 0) {
-        response += 'ℹ️ **Reported Road Issues:**\n';
+        response += `${messages.reportedIssuesHeader}\n`;
         mediumIncidents.slice(0, 3).forEach((incident) => {
-          const distanceInfo = incident.distance_from_user_km
-            ? ` - ${incident.distance_from_user_km.toFixed(1)} km from origin`
+          const kmFromOrigin = this.getKmFromOrigin(incident);
+          const distanceInfo = kmFromOrigin
+            ? ` - ${messages.kmFromOrigin(kmFromOrigin.toFixed(1))}`
             : '';
           response += `• ${incident.title}${distanceInfo}\n`;
         });
         if (mediumIncidents.length > 3) {
-          response += `• ...and ${mediumIncidents.length - 3} more\n`;
+          response += `• ${messages.moreIncidents(mediumIncidents.length - 3)}\n`;
         }
         response += '\n';
       }
@@ -1298,68 +1566,62 @@ Return JSON with: intent, origin, destination, transport_type, date, time`;
       const lowIncidents =
         incidents.length - criticalIncidents.length - highIncidents.length - mediumIncidents.length;
       if (lowIncidents > 0) {
-        response += `💡 ${lowIncidents} minor incident(s) also reported in this area.\n\n`;
+        response += `${messages.minorIncidents(lowIncidents)}\n\n`;
       }
     }
 
-    response += '**Route Summary:**\n';
+    response += `${messages.routeSummaryHeader}\n`;
     if (topRoute) {
-      response += `• Departure time considered: ${departureTime.toLocaleTimeString('en-LK', {
+      const departureLabel = departureTime.toLocaleTimeString(messages.locale, {
         hour: '2-digit',
         minute: '2-digit',
         hour12: true,
-      })} (${isNightWindow ? 'night window' : 'day window'})\n`;
-      response += `• Estimated trip distance: ${topRoute.dynamic.distance_km.toFixed(1)} km\n`;
-      if (isNightWindow && shortTrip) {
-        response +=
-          '• Reasoning: For trips under 25 km during 8:00 PM–5:00 AM, ride-hailing (PickMe/Uber) is prioritized because public transport availability is less reliable.\n';
-      } else {
-        response +=
-          '• Reasoning: Ranked by travel time, fare, comfort, safety, weather, traffic, incidents, and ML confidence.\n';
-      }
+      });
+      response += `${messages.departureConsidered(departureLabel, isNightWindow)}\n`;
+      response += `${messages.estimatedDistance(topRoute.dynamic.distance_km.toFixed(1))}\n`;
+      response += `${isNightWindow && shortTrip ? messages.nightReasoning : messages.defaultReasoning}\n`;
     }
 
     response += '\n';
 
     // Show all provided routes with detailed metrics (already filtered for diversity)
     if (rankedRoutes.length > 0) {
-      response += '**Detailed Route Options:**\n\n';
+      response += `${messages.detailedOptionsHeader}\n\n`;
 
       rankedRoutes.forEach((route, index) => {
         const medalEmoji = index === 0 ? '🥇' : index === 1 ? '🥈' : '🥉';
-        response += `${medalEmoji} **Option ${index + 1}: ${route.transport_type.toUpperCase()}**\n`;
-        response += `   Provider: ${route.static.operator_name}\n`;
-        response += `   Score: ${(route.score * 100).toFixed(0)}/100\n`;
-        response += `   ⏱ Duration: ${route.dynamic.duration_min} min\n`;
-        response += `   📏 Distance: ${route.dynamic.distance_km.toFixed(1)} km\n`;
+        const transportLabel =
+          messages.transportTypes[route.transport_type as 'bus' | 'train' | 'car'] ??
+          route.transport_type.toUpperCase();
+        response += `${medalEmoji} ${messages.option(index + 1, transportLabel)}\n`;
+        response += `   ${messages.provider(route.static.operator_name)}\n`;
+        response += `   ${messages.score((route.score * 100).toFixed(0))}\n`;
+        response += `   ${messages.duration(route.dynamic.duration_min)}\n`;
+        response += `   ${messages.distance(route.dynamic.distance_km.toFixed(1))}\n`;
 
         // Add next departure time for bus/train
         if (route.transport_type === 'bus' || route.transport_type === 'train') {
-          const nextDeparture = this.mockTimetableService.getNextDeparture(
-            route.dynamic.distance_km,
-            route.transport_type,
-            departureTime
-          );
+          const nextDeparture = nextDepartures.get(route);
           if (nextDeparture) {
-            response += `   🕐 Next Departure: ${this.mockTimetableService.formatDepartureForDisplay(nextDeparture)}\n`;
+            response += `   ${messages.nextDeparture(this.timetableService.formatDepartureForDisplay(nextDeparture))}\n`;
           }
         } else if (route.transport_type === 'car') {
-          response += `   🕐 Available: On demand (book anytime)\n`;
+          response += `   ${messages.availableOnDemand}\n`;
         }
 
         // Show key metrics
         const metrics = [];
-        if (route.dynamic.weather_risk < 0.3) metrics.push('✅ Good weather');
-        if (route.dynamic.congestion === 'low') metrics.push('🟢 Low traffic');
-        if (route.static.scenic_score > 0.7) metrics.push('🌄 Scenic route');
-        if (route.static.comfort_score > 0.7) metrics.push('🪑 Comfortable');
+        if (route.dynamic.weather_risk < 0.3) metrics.push(messages.goodWeather);
+        if (route.dynamic.congestion === 'low') metrics.push(messages.lowTraffic);
+        if (route.static.scenic_score > 0.7) metrics.push(messages.scenicRoute);
+        if (route.static.comfort_score > 0.7) metrics.push(messages.comfortable);
 
         if (metrics.length > 0) {
           response += `   ${metrics.join(' • ')}\n`;
         }
 
         if (route.recommendation_reason) {
-          response += `   🧠 Why this rank: ${route.recommendation_reason}\n`;
+          response += `   ${messages.whyThisRank(route.recommendation_reason)}\n`;
         }
 
         // Show turn-by-turn navigation for the top route only
@@ -1368,7 +1630,7 @@ Return JSON with: intent, origin, destination, transport_type, date, time`;
           route.static.navigation_steps &&
           route.static.navigation_steps.length > 0
         ) {
-          response += '\n   **🗺️ Turn-by-Turn Directions:**\n';
+          response += `\n   ${messages.turnByTurnHeader}\n`;
           const stepsToShow = route.static.navigation_steps.slice(0, 8); // Show first 8 steps
           stepsToShow.forEach((step, stepIdx: number) => {
             const maneuverEmoji = this.getManeuverEmoji(step.maneuver);
@@ -1376,7 +1638,7 @@ Return JSON with: intent, origin, destination, transport_type, date, time`;
             response += `   ${stepIdx + 1}. ${maneuverEmoji} ${step.instruction} (${distanceKm} km)\n`;
           });
           if (route.static.navigation_steps.length > 8) {
-            response += `   ... and ${route.static.navigation_steps.length - 8} more steps\n`;
+            response += `   ${messages.moreSteps(route.static.navigation_steps.length - 8)}\n`;
           }
         }
 
@@ -1384,11 +1646,14 @@ Return JSON with: intent, origin, destination, transport_type, date, time`;
       });
     }
 
-    response +=
-      '💡 *Tip: You can ask me for cheaper options, faster routes, or more comfortable transport!*';
+    response += messages.routeTip;
     return response;
   }
 
+  private getCityDisplayName(city: ICity, language: ChatLanguage = 'en'): string {
+    return city.name?.[language] || city.name?.en || city.city_name || '';
+  }
+
   private buildCityStationData(
     requestedName: string,
     city: ICity | null | undefined,
@@ -1709,12 +1974,14 @@ Return JSON with: intent, origin, destination, transport_type, date, time`;
     destination: string,
     distanceKm: number,
     timingData: Array<{
+      type: 'bus' | 'train' | 'car';
       mode: string;
       available: boolean;
       nextDeparture?: string;
       upcomingDepartures?: string[];
       reason?: string;
-    }>
+    }>,
+    language: ChatLanguage = 'en'
   ): Promise<string> {
     try {
       // Build structured data for LLM
@@ -1734,17 +2001,18 @@ Guidelines:
 - Start with a friendly greeting about the route
 - Present the distance naturally in the conversation
 - For each transport mode, clearly show:
-  * Bus: Use 🚌 emoji
-  * Train: Use 🚊 emoji  
-  * Car/Taxi: Use 🚗 emoji
+  * type "bus": Use 🚌 emoji
+  * type "train": Use 🚊 emoji
+  * type "car": Use 🚗 emoji
 - Show next departure time prominently
 - List upcoming departures if available (just the times, cleanly formatted)
 - If a mode is not available, explain why briefly and positively
 - Keep the tone warm and conversational, like talking to a friend
-- Don't mention "mock times" or "estimates" - present the information as factual timetable data
+- Options with source "timetable" come from the published timetable - present them as scheduled departures
+- Options with source "estimated" have no published timetable - say the times are approximate
 - Keep it concise but complete
 
-Keep the response structured but natural - it should feel helpful and easy to scan.`;
+Keep the response structured but natural - it should feel helpful and easy to scan.${this.languageInstruction(language)}`;
 
       const userPrompt = `Present these departure times in a friendly, conversational way:\n\n${dataString}`;
 
@@ -1756,12 +2024,13 @@ Keep the response structured but natural - it should feel helpful and easy to sc
       );
 
       return (
-        response || this.buildFallbackTimeResponse(origin, destination, distanceKm, timingData)
+        response ||
+        this.buildFallbackTimeResponse(origin, destination, distanceKm, timingData, language)
       );
     } catch (error) {
       logger.error('Error generating humanized time response:', error);
       // Fallback to structured response if LLM fails
-      return this.buildFallbackTimeResponse(origin, destination, distanceKm, timingData);
+      return this.buildFallbackTimeResponse(origin, destination, distanceKm, timingData, language);
     }
   }
 
@@ -1773,21 +2042,24 @@ Keep the response structured but natural - it should feel helpful and easy to sc
     destination: string,
     distanceKm: number,
     timingData: Array<{
+      type: 'bus' | 'train' | 'car';
       mode: string;
       available: boolean;
       nextDeparture?: string;
       upcomingDepartures?: string[];
       reason?: string;
-    }>
+    }>,
+    language: ChatLanguage = 'en'
   ): string {
-    let response = `**Departure Times: ${origin} → ${destination}**\n`;
-    response += `Distance: ${distanceKm.toFixed(1)} km\n\n`;
+    const messages = getChatbotMessages(language);
+    let response = `${messages.departureTimesHeader(origin, destination)}\n`;
+    response += `${messages.distanceLine(distanceKm.toFixed(1))}\n\n`;
 
     let hasAvailableMode = false;
 
     for (const data of timingData) {
       if (!data.available) {
-        response += `❌ **${data.mode}**: Not available\n`;
+        response += `❌ **${data.mode}**: ${messages.notAvailable}\n`;
         if (data.reason) {
           response += `   (${data.reason})\n`;
         }
@@ -1797,18 +2069,18 @@ Keep the response structured but natural - it should feel helpful and easy to sc
 
       hasAvailableMode = true;
 
-      const modeEmoji = data.mode === 'Bus' ? '🚌' : data.mode === 'Train' ? '🚊' : '🚗';
+      const modeEmoji = data.type === 'bus' ? '🚌' : data.type === 'train' ? '🚊' : '🚗';
       response += `${modeEmoji} **${data.mode}**\n`;
 
       if (data.nextDeparture) {
-        if (data.mode === 'Car/Taxi') {
+        if (data.type === 'car') {
           response += `   ✅ ${data.nextDeparture}\n`;
-          response += `   💡 PickMe, Uber, or local taxi services\n`;
+          response += `   💡 ${messages.rideHailingHint}\n`;
         } else {
-          response += `   🕐 Next Departure: ${data.nextDeparture}\n`;
+          response += `   ${messages.nextDeparture(data.nextDeparture)}\n`;
 
           if (data.upcomingDepartures && data.upcomingDepartures.length > 0) {
-            response += `   📅 Upcoming:\n`;
+            response += `   📅 ${messages.upcoming}:\n`;
             data.upcomingDepartures.forEach((dep) => {
               response += `      • ${dep}\n`;
             });
@@ -1821,7 +2093,7 @@ Keep the response structured but natural - it should feel helpful and easy to sc
     }
 
     if (!hasAvailableMode) {
-      response += '💡 No public transport available on this route. Consider car/taxi services.\n';
+      response += `${messages.noPublicTransport}\n`;
     }
 
     return response;
@@ -1832,9 +2104,11 @@ Keep the response structured but natural - it should feel helpful and easy to sc
    */
   private async handleTimeQuery(
     conversation: IConversation,
-    _request: ChatRequest,
+    request: ChatRequest,
     intent: ExtractedIntent
   ): Promise<ChatResponse> {
+    const messages = getChatbotMessages(request.language);
+
     try {
       const { origin, destination, transport_type } = intent.entities;
 
@@ -1876,13 +2150,9 @@ Keep the response structured but natural - it should feel helpful and easy to sc
 
         return {
           conversation_id: String(conversation._id),
-          message: `To check departure times, I need a complete route first.\n\n💡 **Try asking:** "I want to go from Colombo to Kandy"\n\nThen you can ask about departure times, and I'll remember your route!`,
+          message: messages.needRouteForTimes,
           message_type: 'text',
-          suggestions: [
-            'I want to go from Colombo to Kandy',
-            'Show routes from Galle to Colombo',
-            'Nugegoda to Anuradhapura',
-          ],
+          suggestions: messages.timeQuerySuggestions,
         };
       }
 
@@ -1900,13 +2170,9 @@ Keep the response structured but natural - it should feel helpful and easy to sc
         const missingCity = !originCity ? finalOrigin : finalDestination;
         const wasFromContext = !origin && !destination;
 
-        let message = `I couldn't find "${missingCity}". `;
-
-        if (wasFromContext) {
-          message += `This location might have been saved incorrectly from a previous query.\n\n💡 **Try asking for a new route:**\n"I want to go from Colombo to Kandy"`;
-        } else {
-          message += `Please check the spelling or try a nearby city.`;
-        }
+        const message =
+          messages.cityNotFound(missingCity) +
+          (wasFromContext ? messages.savedIncorrectly : messages.checkSpelling);
 
         logger.warn('City not found in time query', {
           missingCity,
@@ -1919,11 +2185,7 @@ Keep the response structured but natural - it should feel helpful and easy to sc
           conversation_id: String(conversation._id),
           message,
           message_type: 'text',
-          suggestions: [
-            'I want to go from Colombo to Kandy',
-            'Show routes from Galle to Colombo',
-            'Transport options to Anuradhapura',
-          ],
+          suggestions: messages.cityNotFoundSuggestions,
         };
       }
 
@@ -1950,20 +2212,20 @@ Keep the response structured but natural - it should feel helpful and easy to sc
       const modes: Array<{ type: 'bus' | 'train' | 'car'; name: string; available: boolean }> = [
         {
           type: 'bus',
-          name: 'Bus',
+          name: messages.modeNames.bus,
           available: Boolean(
             originCity.transport_access?.has_bus && destCity.transport_access?.has_bus
           ),
         },
         {
           type: 'train',
-          name: 'Train',
+          name: messages.modeNames.train,
           available:
             this.hasReliableRailwayAccess(originCity) && this.hasReliableRailwayAccess(destCity),
         },
         {
           type: 'car',
-          name: 'Car/Taxi',
+          name: messages.modeNames.car,
           available: true, // Always available
         },
       ];
@@ -1973,10 +2235,12 @@ Keep the response structured but natural - it should feel helpful and easy to sc
 
       // Collect timing data for LLM
       const timingData: Array<{
+        type: 'bus' | 'train' | 'car';
         mode: string;
         available: boolean;
         nextDeparture?: string;
         upcomingDepartures?: string[];
+        source?: TimetableDeparture['source'];
         reason?: string;
       }> = [];
 
@@ -1984,11 +2248,12 @@ Keep the response structured but natural - it should feel helpful and easy to sc
         if (!mode.available) {
           let reason = '';
           if (mode.type === 'bus') {
-            reason = 'One or both cities lack bus access';
+            reason = messages.noBusAccess;
           } else if (mode.type === 'train') {
-            reason = 'No railway stations at origin or destination';
+            reason = messages.noRailwayAccess;
           }
           timingData.push({
+            type: mode.type,
             mode: mode.name,
             available: false,
             reason,
@@ -1996,45 +2261,48 @@ Keep the response structured but natural - it should feel helpful and easy to sc
           continue;
         }
 
-        const nextDeparture = this.mockTimetableService.getNextDeparture(
-          distanceKm,
-          mode.type,
-          new Date()
+        const upcomingDepartures = await this.timetableService.getUpcomingDepartures(
+          {
+            originCityId: originCity.city_id,
+            destinationCityId: destCity.city_id,
+            transportMode: mode.type,
+            distanceKm,
+            currentTime: new Date(),
+          },
+          3
         );
+        const nextDeparture = upcomingDepartures[0];
 
         if (!nextDeparture) {
           timingData.push({
+            type: mode.type,
             mode: mode.name,
             available: true,
-            reason: 'Unable to fetch timing',
+            reason: messages.noScheduledDepartures,
           });
           continue;
         }
 
-        const upcomingDepartures = this.mockTimetableService.getUpcomingDepartures(
-          distanceKm,
-          mode.type,
-          3,
-          new Date()
-        );
-
         if (mode.type === 'car') {
           timingData.push({
+            type: mode.type,
             mode: mode.name,
             available: true,
-            nextDeparture: 'On demand (book anytime)',
+            nextDeparture: messages.onDemandBooking,
           });
         } else {
           timingData.push({
+            type: mode.type,
             mode: mode.name,
             available: true,
-            nextDeparture: this.mockTimetableService.formatDepartureForDisplay(nextDeparture),
+            nextDeparture: this.timetableService.formatDepartureForDisplay(nextDeparture),
             upcomingDepartures:
               upcomingDepartures.length > 1
                 ? upcomingDepartures
                     .slice(1, 3)
-                    .map((dep) => this.mockTimetableService.formatDepartureForDisplay(dep))
+                    .map((dep) => this.timetableService.formatDepartureForDisplay(dep))
                 : undefined,
+            source: nextDeparture.source,
           });
         }
       }
@@ -2044,7 +2312,8 @@ Keep the response structured but natural - it should feel helpful and easy to sc
         finalOrigin,
         finalDestination,
         distanceKm,
-        timingData
+        timingData,
+        request.language
       );
 
       return {
@@ -2059,13 +2328,13 @@ Keep the response structured but natural - it should feel helpful and easy to sc
           ],
           processing_time_ms: 0,
         },
-        suggestions: ['Show me route options', 'What about cheaper routes?', 'Weather information'],
+        suggestions: messages.timeResultSuggestions,
       };
     } catch (error) {
       logger.error('Error handling time query:', error);
       return {
         conversation_id: String(conversation._id),
-        message: 'I encountered an error while fetching departure times. Please try again.',
+        message: messages.timeQueryError,
         message_type: 'error',
       };
     }
@@ -2076,15 +2345,16 @@ Keep the response structured but natural - it should feel helpful and easy to sc
    */
   private async handleWeatherQuery(
     conversation: IConversation,
-    _request: ChatRequest,
+    request: ChatRequest,
     intent: ExtractedIntent
   ): Promise<ChatResponse> {
+    const messages = getChatbotMessages(request.language);
     const location = intent.entities.destination || intent.entities.origin;
 
     if (!location) {
       return {
         conversation_id: String(conversation._id),
-        message: 'Which location would you like weather information for?',
+        message: messages.askWeatherLocation,
         message_type: 'text',
       };
     }
@@ -2093,7 +2363,7 @@ Keep the response structured but natural - it should feel helpful and easy to sc
     if (!city) {
       return {
         conversation_id: String(conversation._id),
-        message: `I couldn't find the location "${location}". Please try another city.`,
+        message: messages.weatherLocationNotFound(location),
         message_type: 'text',
       };
     }
@@ -2107,17 +2377,18 @@ Keep the response structured but natural - it should feel helpful and easy to sc
     if (!weather) {
       return {
         conversation_id: String(conversation._id),
-        message: 'Weather information is currently unavailable.',
+        message: messages.weatherUnavailable,
         message_type: 'error',
       };
     }
 
-    const message =
-      `🌤 **Weather in ${city.name.en}:**\n\n` +
-      `Temperature: ${Math.round(weather.temperature)}°C (feels like ${Math.round(weather.feels_like)}°C)\n` +
-      `Conditions: ${weather.description}\n` +
-      `Humidity: ${weather.humidity}%\n` +
-      `Wind Speed: ${weather.wind_speed} m/s`;
+    const message = messages.weatherReport(this.getCityDisplayName(city, request.language), {
+      temperature: Math.round(weather.temperature),
+      feelsLike: Math.round(weather.feels_like),
+      description: weather.description,
+      humidity: weather.humidity,
+      windSpeed: weather.wind_speed,
+    });
 
     return {
       conversation_id: String(conversation._id),
@@ -2138,12 +2409,13 @@ Keep the response structured but natural - it should feel helpful and easy to sc
     request: ChatRequest,
     intent: ExtractedIntent
   ): Promise<ChatResponse> {
+    const messages = getChatbotMessages(request.language);
     const location = intent.entities.destination || intent.entities.origin;
 
     if (!location) {
       return {
         conversation_id: String(conversation._id),
-        message: 'Which location would you like information about?',
+        message: messages.askInfoLocation,
         message_type: 'text',
       };
     }
@@ -2185,7 +2457,7 @@ When asked about tourist destinations or attractions:
 - Use relevant emojis to make responses engaging
 
 IMPORTANT: The user is asking about locations between ${originName} and ${destName}. 
-Focus on attractions ALONG OR NEAR this route.`;
+Focus on attractions ALONG OR NEAR this route.${this.languageInstruction(request.language)}`;
 
         const conversationHistory = recentMessages
           .map((m) => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
@@ -2209,20 +2481,20 @@ Focus on attractions ALONG OR NEAR this route.`;
         // Get route context for fallback too
         const routeContext = conversation.context;
         const originName =
-          intent.entities.origin || routeContext?.current_location?.city_name || 'your origin';
+          intent.entities.origin ||
+          routeContext?.current_location?.city_name ||
+          messages.yourOrigin;
         const destName =
-          intent.entities.destination || routeContext?.destination?.city_name || 'your destination';
+          intent.entities.destination ||
+          routeContext?.destination?.city_name ||
+          messages.yourDestination;
 
         // Fallback: provide helpful guidance
         return {
           conversation_id: String(conversation._id),
-          message: `I'd love to tell you about attractions between ${originName} and ${destName}! 🌍\n\nWhile I can't provide detailed information right now, I recommend:\n\n• Searching online for "${originName} to ${destName} attractions"\n• Asking locals along the route\n• Checking for national parks, beaches, temples, or historical sites\n\nI can help you plan the transport for your journey though! Just let me know if you need route information.`,
+          message: messages.attractionsFallback(originName, destName),
           message_type: 'text',
-          suggestions: [
-            `Route from ${originName} to ${destName}`,
-            `Weather along the route`,
-            `Tell me about ${destName}`,
-          ],
+          suggestions: messages.attractionsSuggestions(originName, destName),
         };
       }
     }
@@ -2232,28 +2504,18 @@ Focus on attractions ALONG OR NEAR this route.`;
     if (!city) {
       return {
         conversation_id: String(conversation._id),
-        message: `I couldn't find information about "${location}".`,
+        message: messages.infoNotFound(location),
         message_type: 'text',
       };
     }
 
-    let message = `I see you mentioned ${city.name.en}! 🌍\n\n`;
-    message += `I can help you with:\n`;
-    message += `• Getting TO ${city.name.en} - just tell me where you're starting from\n`;
-    message += `• Traveling FROM ${city.name.en} - let me know your destination\n`;
-    message += `• Weather conditions in ${city.name.en}\n`;
-    message += `• Information about the city\n\n`;
-    message += `What would you like to know?`;
+    const cityName = this.getCityDisplayName(city, request.language);
 
     return {
       conversation_id: String(conversation._id),
-      message,
+      message: messages.cityIntro(cityName),
       message_type: 'text',
-      suggestions: [
-        `How to get to ${city.name.en}?`,
-        `Routes from ${city.name.en}`,
-        `Weather in ${city.name.en}`,
-      ],
+      suggestions: messages.cityIntroSuggestions(cityName),
     };
   }
 
@@ -2262,13 +2524,9 @@ Focus on attractions ALONG OR NEAR this route.`;
    */
   private async handleGreeting(
     conversation: IConversation,
-    _request: ChatRequest
+    request: ChatRequest
   ): Promise<ChatResponse> {
-    const greetings = [
-      "Hello! 👋 I'm your Sri Lankan transport assistant. I can help you find the best bus or train routes across Sri Lanka. Where would you like to go today?",
-      'Hi there! 🚌 Welcome to Sri Lanka Transport Helper. I can help you plan your journey. Just tell me where you want to go!',
-      "Greetings! 🌏 I'm here to help you navigate Sri Lanka's transport system. Where's your destination?",
-    ];
+    const { greetings, greetingSuggestions } = getChatbotMessages(request.language);
 
     const message = greetings[Math.floor(Math.random() * greetings.length)];
 
@@ -2276,11 +2534,7 @@ Focus on attractions ALONG OR NEAR this route.`;
       conversation_id: String(conversation._id),
       message,
       message_type: 'text',
-      suggestions: [
-        'I want to go from Colombo to Kandy',
-        'Show me transport from Galle to Jaffna',
-        "What's the weather in Nuwara Eliya?",
-      ],
+      suggestions: greetingSuggestions,
     };
   }
 
@@ -2329,7 +2583,7 @@ When asked about tourist destinations or attractions:
 - Be enthusiastic and helpful
 - Use relevant emojis to make responses engaging
 
-Be friendly, culturally aware, and helpful. If you don't know something, admit it and suggest alternatives.${contextInfo}`;
+Be friendly, culturally aware, and helpful. If you don't know something, admit it and suggest alternatives.${contextInfo}${this.languageInstruction(request.language)}`;
 
       const conversationHistory = context
         .map((m) => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
@@ -2349,6 +2603,8 @@ Be friendly, culturally aware, and helpful. If you don't know something, admit i
       };
     } catch (error) {
       logger.warn('LLM general question handling failed, using smart fallback');
+      const messages = getChatbotMessages(request.language);
+
       // Smart fallback responses when LLM is not available
       const lowerMessage = request.message.toLowerCase();
 
@@ -2368,31 +2624,30 @@ Be friendly, culturally aware, and helpful. If you don't know something, admit i
         'batticaloa',
       ];
 
-      const mentionedCity = cityNames.find((city) => lowerMessage.includes(city));
+      const mentionedCity =
+        request.language === 'si' || request.language === 'ta'
+          ? findPlaceMentions(
+              request.message,
+              await this.getLocalizedCityNames(request.language),
+              request.language
+            )[0]?.name
+          : cityNames.find((city) => lowerMessage.includes(city));
 
       if (mentionedCity) {
         return {
           conversation_id: String(conversation._id),
-          message: `I see you mentioned ${mentionedCity}! 🌍\n\nI can help you with:\n• Getting TO ${mentionedCity} - just tell me where you're starting from\n• Traveling FROM ${mentionedCity} - let me know your destination\n• Weather conditions in ${mentionedCity}\n• Information about the city\n\nWhat would you like to know?`,
+          message: messages.cityIntro(mentionedCity),
           message_type: 'text',
-          suggestions: [
-            `How do I get to ${mentionedCity}?`,
-            `What's the weather in ${mentionedCity}?`,
-            `Tell me about ${mentionedCity}`,
-          ],
+          suggestions: messages.mentionedCitySuggestions(mentionedCity),
         };
       }
 
       // Generic helpful response
       return {
         conversation_id: String(conversation._id),
-        message: `I'm your Sri Lankan transport assistant! 🇱🇰 I can help you with:\n\n🚌 **Transport Routes** - Bus and train connections\n🌤️ **Weather Info** - Check conditions before you travel\n🗺️ **City Information** - Learn about destinations\n\nJust ask me something like:\n• "How do I get from Colombo to Kandy?"\n• "What's the weather in Galle?"\n• "Tell me about Nuwara Eliya"\n\nWhat would you like to know?`,
+        message: messages.assistantIntro,
         message_type: 'text',
-        suggestions: [
-          'I want to go from Colombo to Kandy',
-          "What's the weather in Nuwara Eliya?",
-          'Tell me about Galle',
-        ],
+        suggestions: messages.assistantIntroSuggestions,
       };
     }
   }
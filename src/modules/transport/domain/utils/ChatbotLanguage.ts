@@ -0,0 +1,139 @@
+/**
+ * Language helpers for the transport chatbot
+ *
+ * Detects Sinhala and Tamil messages by script and pulls place names out of
+ * them using the localized city names stored on City.name.si / City.name.ta.
+ */
+
+export type ChatLanguage = 'en' | 'si' | 'ta';
+
+export interface LocalizedCityName {
+  city_id: number;
+  name: string;
+}
+
+export interface PlaceMention {
+  name: string;
+  index: number;
+  role?: 'origin' | 'destination';
+}
+
+interface LanguageKeywords {
+  greeting: string[];
+  weather: string[];
+  time: string[];
+  locationInfo: string[];
+  bus: string[];
+  train: string[];
+  /** Words following a place name that mark it as the starting point */
+  fromMarkers: string[];
+  /** Words following a place name that mark it as the destination */
+  toMarkers: string[];
+  /** Case suffixes attached to a place name that mark it as the destination */
+  toSuffixes: string[];
+}
+
+export const LANGUAGE_KEYWORDS: Record<Exclude<ChatLanguage, 'en'>, LanguageKeywords> = {
+  si: {
+    greeting: ['ආයුබෝවන්', 'හලෝ', 'හායි', 'සුභ උදෑසනක්'],
+    weather: ['කාලගුණ', 'වැසි', 'වැස්ස', 'උෂ්ණත්ව'],
+    time: ['වේලාව', 'වෙලාව', 'කීයට', 'ඊළඟ', 'කාලසටහන'],
+    locationInfo: ['ගැන', 'විස්තර'],
+    bus: ['බස්'],
+    train: ['දුම්රිය', 'කෝච්චි'],
+    fromMarkers: ['සිට', 'ඉඳන්', 'ඉදන්', 'ඉන්නවා', 'ඉන්නේ'],
+    toMarkers: ['දක්වා', 'වෙත', 'යන්න', 'යනවා'],
+    toSuffixes: ['ට'],
+  },
+  ta: {
+    greeting: ['வணக்கம்', 'ஹலோ', 'ஹாய்'],
+    weather: ['வானிலை', 'மழை', 'வெப்பநிலை'],
+    time: ['நேரம்', 'எப்போது', 'அடுத்த', 'அட்டவணை'],
+    locationInfo: ['பற்றி', 'விவரம்'],
+    bus: ['பேருந்து', 'பஸ்'],
+    train: ['ரயில்', 'தொடருந்து'],
+    fromMarkers: ['இருந்து', 'ிருந்து', 'இருக்கிறேன்', 'இருக்கேன்'],
+    toMarkers: ['வரை', 'போக', 'செல்ல', 'போகணும்'],
+    toSuffixes: ['கு'],
+  },
+};
+
+const SINHALA_SCRIPT = /[\u0D80-\u0DFF]/g;
+const TAMIL_SCRIPT = /[\u0B80-\u0BFF]/g;
+
+// Trailing vowel signs and virama change when a name takes a case suffix
+// (e.g. கொழும்பு -> கொழும்பில்), so names are also matched without them
+const TRAILING_VOWEL_SIGNS = /[\u0DCA-\u0DDF\u0BBE-\u0BCD]+$/;
+
+/**
+ * Detect the language of a message from its script.
+ * Returns undefined for text without Sinhala or Tamil characters.
+ */
+export const detectChatLanguage = (text: string): ChatLanguage | undefined => {
+  const sinhala = text.match(SINHALA_SCRIPT)?.length ?? 0;
+  const tamil = text.match(TAMIL_SCRIPT)?.length ?? 0;
+
+  if (sinhala === 0 && tamil === 0) {
+    return undefined;
+  }
+  return sinhala >= tamil ? 'si' : 'ta';
+};
+
+export const containsKeyword = (text: string, keywords: string[]): boolean =>
+  keywords.some((keyword) => text.includes(keyword));
+
+/**
+ * Find localized city names mentioned in a message, in order of appearance,
+ * and work out from the surrounding words which is the origin and which is
+ * the destination.
+ */
+export const findPlaceMentions = (
+  message: string,
+  names: LocalizedCityName[],
+  language: Exclude<ChatLanguage, 'en'>
+): PlaceMention[] => {
+  const matches: Array<{ name: string; index: number; end: number }> = [];
+
+  for (const { name } of names) {
+    const stem = name.replace(TRAILING_VOWEL_SIGNS, '');
+    const variants = stem !== name && stem.length >= 2 ? [name, stem] : [name];
+
+    for (const variant of variants) {
+      const index = message.indexOf(variant);
+      if (index >= 0) {
+        matches.push({ name, index, end: index + variant.length });
+        break;
+      }
+    }
+  }
+
+  // Prefer the longest name where matches overlap (e.g. මහනුවර over නුවර)
+  matches.sort((a, b) => a.index - b.index || b.end - a.end);
+  const mentions: Array<{ name: string; index: number; end: number }> = [];
+  for (const match of matches) {
+    const previous = mentions[mentions.length - 1];
+    if (previous && match.index < previous.end) continue;
+    if (mentions.some((mention) => mention.name === match.name)) continue;
+    mentions.push(match);
+  }
+
+  const keywords = LANGUAGE_KEYWORDS[language];
+
+  return mentions.map(({ name, index, end }) => {
+    // Suffix still attached to the name, plus the word that follows it
+    const [suffix = '', nextWord = ''] = message.slice(end).split(/\s+/);
+
+    let role: PlaceMention['role'];
+    if (containsKeyword(suffix, keywords.fromMarkers)) {
+      role = 'origin';
+    } else if (keywords.toSuffixes.some((marker) => suffix.endsWith(marker))) {
+      role = 'destination';
+    } else if (containsKeyword(nextWord, keywords.fromMarkers)) {
+      role = 'origin';
+    } else if (containsKeyword(nextWord, keywords.toMarkers)) {
+      role = 'destination';
+    }
+
+    return { name, index, role };
+  });
+};
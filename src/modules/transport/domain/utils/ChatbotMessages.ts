@@ -0,0 +1,596 @@
+import { ChatLanguage } from './ChatbotLanguage';
+
+/**
+ * Templated transport chatbot replies in English, Sinhala and Tamil
+ *
+ * Only fixed wording lives here; free text produced by the LLM is generated in
+ * (or translated to) the user's language by the chatbot service.
+ */
+export interface ChatbotMessages {
+  /** Locale used when formatting times */
+  locale: string;
+  yourOrigin: string;
+  yourDestination: string;
+  transportTypes: Record<'bus' | 'train' | 'car', string>;
+
+  // Route queries
+  askOrigin: (destination: string) => string;
+  askOriginSuggestions: string[];
+  askDestination: (origin: string) => string;
+  askDestinationSuggestions: string[];
+  askRoute: string;
+  askRouteSuggestions: string[];
+  locationNotFound: (location: string) => string;
+  sameLocation: (origin: string, destination: string) => string;
+  noRoutesFound: (origin: string, destination: string) => string;
+  realTimeDataUnavailable: string;
+  routeExplanationFallback: (count: number, origin: string, destination: string) => string;
+  routeSuggestions: string[];
+  routeServiceUnavailable: (origin: string, destination: string) => string;
+  routeQueryError: string;
+
+  // Route response
+  criticalIncidentsHeader: string;
+  importantConditionsHeader: string;
+  reportedIssuesHeader: string;
+  kmFromOrigin: (km: string) => string;
+  expectedDelay: (minutes: number) => string;
+  moreIncidents: (count: number) => string;
+  minorIncidents: (count: number) => string;
+  routeSummaryHeader: string;
+  departureConsidered: (time: string, isNightWindow: boolean) => string;
+  estimatedDistance: (km: string) => string;
+  nightReasoning: string;
+  defaultReasoning: string;
+  detailedOptionsHeader: string;
+  option: (index: number, transportType: string) => string;
+  provider: (name: string) => string;
+  score: (score: string) => string;
+  duration: (minutes: number) => string;
+  distance: (km: string) => string;
+  nextDeparture: (departure: string) => string;
+  availableOnDemand: string;
+  goodWeather: string;
+  lowTraffic: string;
+  scenicRoute: string;
+  comfortable: string;
+  whyThisRank: (reason: string) => string;
+  turnByTurnHeader: string;
+  moreSteps: (count: number) => string;
+  routeTip: string;
+
+  // Time queries
+  needRouteForTimes: string;
+  timeQuerySuggestions: string[];
+  cityNotFound: (city: string) => string;
+  savedIncorrectly: string;
+  checkSpelling: string;
+  cityNotFoundSuggestions: string[];
+  modeNames: Record<'bus' | 'train' | 'car', string>;
+  noBusAccess: string;
+  noRailwayAccess: string;
+  noScheduledDepartures: string;
+  onDemandBooking: string;
+  departureTimesHeader: (origin: string, destination: string) => string;
+  distanceLine: (km: string) => string;
+  notAvailable: string;
+  upcoming: string;
+  rideHailingHint: string;
+  noPublicTransport: string;
+  timeResultSuggestions: string[];
+  timeQueryError: string;
+
+  // Weather
+  askWeatherLocation: string;
+  weatherLocationNotFound: (location: string) => string;
+  weatherUnavailable: string;
+  weatherReport: (
+    city: string,
+    weather: {
+      temperature: number;
+      feelsLike: number;
+      description: string;
+      humidity: number;
+      windSpeed: number;
+    }
+  ) => string;
+
+  // Location info
+  askInfoLocation: string;
+  attractionsFallback: (origin: string, destination: string) => string;
+  attractionsSuggestions: (origin: string, destination: string) => string[];
+  infoNotFound: (location: string) => string;
+  cityIntro: (city: string) => string;
+  cityIntroSuggestions: (city: string) => string[];
+  mentionedCitySuggestions: (city: string) => string[];
+
+  // Greetings and general questions
+  greetings: string[];
+  greetingSuggestions: string[];
+  assistantIntro: string;
+  assistantIntroSuggestions: string[];
+}
+
+const en: ChatbotMessages = {
+  locale: 'en-LK',
+  yourOrigin: 'your origin',
+  yourDestination: 'your destination',
+  transportTypes: { bus: 'BUS', train: 'TRAIN', car: 'CAR' },
+
+  askOrigin: (destination) =>
+    `Great! You want to go to ${destination}. Where are you starting from? 🚏\n\nFor example, "I'm in Colombo" or "from Kandy"`,
+  askOriginSuggestions: ['I am in Colombo', 'From Kandy', 'Starting from Galle'],
+  askDestination: (origin) =>
+    `Got it! You're in ${origin}. Where would you like to go? 🎯\n\nFor example, "to Kandy" or "I want to go to Galle"`,
+  askDestinationSuggestions: ['To Kandy', 'I want to go to Galle', 'Heading to Nuwara Eliya'],
+  askRoute:
+    "I'd be happy to help you find transport! 🚌🚂\n\nCould you tell me:\n• Where are you starting from?\n• Where do you want to go?\n\nFor example: 'I want to go from Colombo to Kandy'",
+  askRouteSuggestions: [
+    'I want to go from Colombo to Kandy',
+    'How do I get to Galle from Negombo?',
+    'Transport from Nugegoda to Embilipitiya',
+  ],
+  locationNotFound: (location) =>
+    `I couldn't find the location "${location}". Could you please check the spelling or try a nearby city?`,
+  sameLocation: (origin, destination) =>
+    `It seems both locations are the same or very close to each other. Please check:\n• Origin: ${origin}\n• Destination: ${destination}`,
+  noRoutesFound: (origin, destination) =>
+    `I couldn't find any routes between ${origin} and ${destination}. This might be due to Google Maps API limitations. Please try different locations or check back later.`,
+  realTimeDataUnavailable: 'Could not fetch real-time data for available routes. Please try again.',
+  routeExplanationFallback: (count, origin, destination) =>
+    `I found ${count} transport methods from ${origin} to ${destination}.`,
+  routeSuggestions: [
+    'Show me more options',
+    'What about cheaper routes?',
+    'Which is fastest?',
+    'Tell me about weather',
+  ],
+  routeServiceUnavailable: (origin, destination) =>
+    `I'm having trouble finding routes between ${origin} and ${destination} right now. This could be due to:\n\n• Google Maps API is not configured\n• Network connectivity issues\n• The locations are too far apart\n\nPlease try again later or contact support if the problem persists.`,
+  routeQueryError:
+    'I encountered an error while finding routes. Please try again or rephrase your question.',
+
+  criticalIncidentsHeader: '🚨 **CRITICAL INCIDENTS ON ROUTE:**',
+  importantConditionsHeader: '⚠️ **Important Road Conditions:**',
+  reportedIssuesHeader: 'ℹ️ **Reported Road Issues:**',
+  kmFromOrigin: (km) => `${km} km from origin`,
+  expectedDelay: (minutes) => `⏱️ Expected delay: ${minutes} minutes`,
+  moreIncidents: (count) => `...and ${count} more`,
+  minorIncidents: (count) => `💡 ${count} minor incident(s) also reported in this area.`,
+  routeSummaryHeader: '**Route Summary:**',
+  departureConsidered: (time, isNightWindow) =>
+    `• Departure time considered: ${time} (${isNightWindow ? 'night window' : 'day window'})`,
+  estimatedDistance: (km) => `• Estimated trip distance: ${km} km`,
+  nightReasoning:
+    '• Reasoning: For trips under 25 km during 8:00 PM–5:00 AM, ride-hailing (PickMe/Uber) is prioritized because public transport availability is less reliable.',
+  defaultReasoning:
+    '• Reasoning: Ranked by travel time, fare, comfort, safety, weather, traffic, incidents, and ML confidence.',
+  detailedOptionsHeader: '**Detailed Route Options:**',
+  option: (index, transportType) => `**Option ${index}: ${transportType}**`,
+  provider: (name) => `Provider: ${name}`,
+  score: (score) => `Score: ${score}/100`,
+  duration: (minutes) => `⏱ Duration: ${minutes} min`,
+  distance: (km) => `📏 Distance: ${km} km`,
+  nextDeparture: (departure) => `🕐 Next Departure: ${departure}`,
+  availableOnDemand: '🕐 Available: On demand (book anytime)',
+  goodWeather: '✅ Good weather',
+  lowTraffic: '🟢 Low traffic',
+  scenicRoute: '🌄 Scenic route',
+  comfortable: '🪑 Comfortable',
+  whyThisRank: (reason) => `🧠 Why this rank: ${reason}`,
+  turnByTurnHeader: '**🗺️ Turn-by-Turn Directions:**',
+  moreSteps: (count) => `... and ${count} more steps`,
+  routeTip:
+    '💡 *Tip: You can ask me for cheaper options, faster routes, or more comfortable transport!*',
+
+  needRouteForTimes: `To check departure times, I need a complete route first.\n\n💡 **Try asking:** "I want to go from Colombo to Kandy"\n\nThen you can ask about departure times, and I'll remember your route!`,
+  timeQuerySuggestions: [
+    'I want to go from Colombo to Kandy',
+    'Show routes from Galle to Colombo',
+    'Nugegoda to Anuradhapura',
+  ],
+  cityNotFound: (city) => `I couldn't find "${city}". `,
+  savedIncorrectly: `This location might have been saved incorrectly from a previous query.\n\n💡 **Try asking for a new route:**\n"I want to go from Colombo to Kandy"`,
+  checkSpelling: 'Please check the spelling or try a nearby city.',
+  cityNotFoundSuggestions: [
+    'I want to go from Colombo to Kandy',
+    'Show routes from Galle to Colombo',
+    'Transport options to Anuradhapura',
+  ],
+  modeNames: { bus: 'Bus', train: 'Train', car: 'Car/Taxi' },
+  noBusAccess: 'One or both cities lack bus access',
+  noRailwayAccess: 'No railway stations at origin or destination',
+  noScheduledDepartures: 'No scheduled departures in the next few days',
+  onDemandBooking: 'On demand (book anytime)',
+  departureTimesHeader: (origin, destination) => `**Departure Times: ${origin} → ${destination}**`,
+  distanceLine: (km) => `Distance: ${km} km`,
+  notAvailable: 'Not available',
+  upcoming: 'Upcoming',
+  rideHailingHint: 'PickMe, Uber, or local taxi services',
+  noPublicTransport: '💡 No public transport available on this route. Consider car/taxi services.',
+  timeResultSuggestions: [
+    'Show me route options',
+    'What about cheaper routes?',
+    'Weather information',
+  ],
+  timeQueryError: 'I encountered an error while fetching departure times. Please try again.',
+
+  askWeatherLocation: 'Which location would you like weather information for?',
+  weatherLocationNotFound: (location) =>
+    `I couldn't find the location "${location}". Please try another city.`,
+  weatherUnavailable: 'Weather information is currently unavailable.',
+  weatherReport: (city, weather) =>
+    `🌤 **Weather in ${city}:**\n\n` +
+    `Temperature: ${weather.temperature}°C (feels like ${weather.feelsLike}°C)\n` +
+    `Conditions: ${weather.description}\n` +
+    `Humidity: ${weather.humidity}%\n` +
+    `Wind Speed: ${weather.windSpeed} m/s`,
+
+  askInfoLocation: 'Which location would you like information about?',
+  attractionsFallback: (origin, destination) =>
+    `I'd love to tell you about attractions between ${origin} and ${destination}! 🌍\n\nWhile I can't provide detailed information right now, I recommend:\n\n• Searching online for "${origin} to ${destination} attractions"\n• Asking locals along the route\n• Checking for national parks, beaches, temples, or historical sites\n\nI can help you plan the transport for your journey though! Just let me know if you need route information.`,
+  attractionsSuggestions: (origin, destination) => [
+    `Route from ${origin} to ${destination}`,
+    `Weather along the route`,
+    `Tell me about ${destination}`,
+  ],
+  infoNotFound: (location) => `I couldn't find information about "${location}".`,
+  cityIntro: (city) =>
+    `I see you mentioned ${city}! 🌍\n\n` +
+    `I can help you with:\n` +
+    `• Getting TO ${city} - just tell me where you're starting from\n` +
+    `• Traveling FROM ${city} - let me know your destination\n` +
+    `• Weather conditions in ${city}\n` +
+    `• Information about the city\n\n` +
+    `What would you like to know?`,
+  cityIntroSuggestions: (city) => [
+    `How to get to ${city}?`,
+    `Routes from ${city}`,
+    `Weather in ${city}`,
+  ],
+  mentionedCitySuggestions: (city) => [
+    `How do I get to ${city}?`,
+    `What's the weather in ${city}?`,
+    `Tell me about ${city}`,
+  ],
+
+  greetings: [
+    "Hello! 👋 I'm your Sri Lankan transport assistant. I can help you find the best bus or train routes across Sri Lanka. Where would you like to go today?",
+    'Hi there! 🚌 Welcome to Sri Lanka Transport Helper. I can help you plan your journey. Just tell me where you want to go!',
+    "Greetings! 🌏 I'm here to help you navigate Sri Lanka's transport system. Where's your destination?",
+  ],
+  greetingSuggestions: [
+    'I want to go from Colombo to Kandy',
+    'Show me transport from Galle to Jaffna',
+    "What's the weather in Nuwara Eliya?",
+  ],
+  assistantIntro: `I'm your Sri Lankan transport assistant! 🇱🇰 I can help you with:\n\n🚌 **Transport Routes** - Bus and train connections\n🌤️ **Weather Info** - Check conditions before you travel\n🗺️ **City Information** - Learn about destinations\n\nJust ask me something like:\n• "How do I get from Colombo to Kandy?"\n• "What's the weather in Galle?"\n• "Tell me about Nuwara Eliya"\n\nWhat would you like to know?`,
+  assistantIntroSuggestions: [
+    'I want to go from Colombo to Kandy',
+    "What's the weather in Nuwara Eliya?",
+    'Tell me about Galle',
+  ],
+};
+
+const si: ChatbotMessages = {
+  locale: 'si-LK',
+  yourOrigin: 'ඔබ පිටත් වන ස්ථානය',
+  yourDestination: 'ඔබේ ගමනාන්තය',
+  transportTypes: { bus: 'බස්', train: 'දුම්රිය', car: 'කාර්' },
+
+  askOrigin: (destination) =>
+    `හොඳයි! ඔබට ${destination} වෙත යාමට අවශ්‍යයි. ඔබ ගමන ආරම්භ කරන්නේ කොහෙන්ද? 🚏\n\nඋදාහරණයක් ලෙස, "මම කොළඹ ඉන්නවා" හෝ "මහනුවර සිට"`,
+  askOriginSuggestions: ['මම කොළඹ ඉන්නවා', 'මහනුවර සිට', 'ගාල්ල සිට'],
+  askDestination: (origin) =>
+    `හරි! ඔබ ඉන්නේ ${origin}. ඔබට යාමට අවශ්‍ය කොහෙටද? 🎯\n\nඋදාහරණයක් ලෙස, "මහනුවරට" හෝ "මට ගාල්ලට යන්න ඕනේ"`,
+  askDestinationSuggestions: ['මහනුවරට', 'මට ගාල්ලට යන්න ඕනේ', 'නුවරඑළියට යනවා'],
+  askRoute:
+    'ඔබට ප්‍රවාහන මාර්ගයක් සොයා දීමට මම සතුටුයි! 🚌🚂\n\nකරුණාකර මට කියන්න:\n• ඔබ ගමන ආරම්භ කරන්නේ කොහෙන්ද?\n• ඔබට යාමට අවශ්‍ය කොහෙටද?\n\nඋදාහරණයක් ලෙස: "මට කොළඹ සිට මහනුවරට යන්න ඕනේ"',
+  askRouteSuggestions: [
+    'මට කොළඹ සිට මහනුවරට යන්න ඕනේ',
+    'මීගමුව සිට ගාල්ලට යන්නේ කොහොමද?',
+    'නුගේගොඩ සිට ඇඹිලිපිටියට ප්‍රවාහනය',
+  ],
+  locationNotFound: (location) =>
+    `"${location}" ස්ථානය සොයාගත නොහැකි විය. කරුණාකර අක්ෂර වින්‍යාසය පරීක්ෂා කරන්න හෝ ආසන්න නගරයක් උත්සාහ කරන්න.`,
+  sameLocation: (origin, destination) =>
+    `ස්ථාන දෙකම එකම හෝ එකිනෙකට ඉතා ආසන්න බව පෙනේ. කරුණාකර පරීක්ෂා කරන්න:\n• ආරම්භය: ${origin}\n• ගමනාන්තය: ${destination}`,
+  noRoutesFound: (origin, destination) =>
+    `${origin} සහ ${destination} අතර කිසිදු මාර්ගයක් සොයාගත නොහැකි විය. මෙය Google Maps API සීමාවන් නිසා විය හැක. කරුණාකර වෙනත් ස්ථාන උත්සාහ කරන්න හෝ පසුව නැවත පරීක්ෂා කරන්න.`,
+  realTimeDataUnavailable:
+    'පවතින මාර්ග සඳහා තත්‍ය කාලීන දත්ත ලබාගත නොහැකි විය. කරුණාකර නැවත උත්සාහ කරන්න.',
+  routeExplanationFallback: (count, origin, destination) =>
+    `${origin} සිට ${destination} දක්වා ප්‍රවාහන ක්‍රම ${count}ක් හමු විය.`,
+  routeSuggestions: [
+    'තවත් විකල්ප පෙන්වන්න',
+    'ලාභ මාර්ග තිබේද?',
+    'වේගවත්ම මාර්ගය කුමක්ද?',
+    'කාලගුණය ගැන කියන්න',
+  ],
+  routeServiceUnavailable: (origin, destination) =>
+    `දැනට ${origin} සහ ${destination} අතර මාර්ග සොයා ගැනීමේ ගැටලුවක් ඇත. මෙයට හේතු විය හැක්කේ:\n\n• Google Maps API සකසා නොමැති වීම\n• ජාල සම්බන්ධතා ගැටලු\n• ස්ථාන එකිනෙකට ඉතා දුරින් පිහිටීම\n\nකරුණාකර පසුව නැවත උත්සාහ කරන්න, නැතහොත් ගැටලුව දිගටම පවතී නම් සහාය කණ්ඩායම අමතන්න.`,
+  routeQueryError:
+    'මාර්ග සොයන අතරතුර දෝෂයක් ඇති විය. කරුණාකර නැවත උත්සාහ කරන්න හෝ ඔබේ ප්‍රශ්නය වෙනත් ආකාරයකින් අසන්න.',
+
+  criticalIncidentsHeader: '🚨 **මාර්ගයේ බරපතල සිදුවීම්:**',
+  importantConditionsHeader: '⚠️ **වැදගත් මාර්ග තත්ත්වයන්:**',
+  reportedIssuesHeader: 'ℹ️ **වාර්තා වූ මාර්ග ගැටලු:**',
+  kmFromOrigin: (km) => `ආරම්භයේ සිට කි.මී. ${km}`,
+  expectedDelay: (minutes) => `⏱️ අපේක්ෂිත ප්‍රමාදය: මිනිත්තු ${minutes}`,
+  moreIncidents: (count) => `...සහ තවත් ${count}ක්`,
+  minorIncidents: (count) => `💡 මෙම ප්‍රදේශයේ සුළු සිදුවීම් ${count}ක් ද වාර්තා වී ඇත.`,
+  routeSummaryHeader: '**මාර්ග සාරාංශය:**',
+  departureConsidered: (time, isNightWindow) =>
+    `• සලකා බැලූ පිටත්වීමේ වේලාව: ${time} (${isNightWindow ? 'රාත්‍රී කාලය' : 'දිවා කාලය'})`,
+  estimatedDistance: (km) => `• ඇස්තමේන්තුගත ගමන් දුර: කි.මී. ${km}`,
+  nightReasoning:
+    '• හේතුව: රාත්‍රී 8:00 සිට අලුයම 5:00 දක්වා කි.මී. 25ට අඩු ගමන් සඳහා පොදු ප්‍රවාහනය අඩු විශ්වාසනීය බැවින් කුලී රථ සේවා (PickMe/Uber) ප්‍රමුඛ කර ඇත.',
+  defaultReasoning:
+    '• හේතුව: ගමන් කාලය, ගාස්තුව, සුවපහසුව, ආරක්ෂාව, කාලගුණය, රථ වාහන තදබදය, සිදුවීම් සහ ML විශ්වාසය අනුව ශ්‍රේණිගත කර ඇත.',
+  detailedOptionsHeader: '**විස්තරාත්මක මාර්ග විකල්ප:**',
+  option: (index, transportType) => `**විකල්පය ${index}: ${transportType}**`,
+  provider: (name) => `සේවා සපයන්නා: ${name}`,
+  score: (score) => `ලකුණු: ${score}/100`,
+  duration: (minutes) => `⏱ ගත වන කාලය: මිනිත්තු ${minutes}`,
+  distance: (km) => `📏 දුර: කි.මී. ${km}`,
+  nextDeparture: (departure) => `🕐 ඊළඟ පිටත්වීම: ${departure}`,
+  availableOnDemand: '🕐 ලබා ගත හැක: ඉල්ලුම මත (ඕනෑම වේලාවක වෙන් කරන්න)',
+  goodWeather: '✅ හොඳ කාලගුණය',
+  lowTraffic: '🟢 අඩු තදබදය',
+  scenicRoute: '🌄 සුන්දර මාර්ගය',
+  comfortable: '🪑 සුවපහසුයි',
+  whyThisRank: (reason) => `🧠 මෙම ස්ථානයට හේතුව: ${reason}`,
+  turnByTurnHeader: '**🗺️ පියවරෙන් පියවර මඟ පෙන්වීම:**',
+  moreSteps: (count) => `... සහ තවත් පියවර ${count}ක්`,
+  routeTip: '💡 *ඉඟිය: ලාභ විකල්ප, වේගවත් මාර්ග හෝ වඩා සුවපහසු ප්‍රවාහනය ගැන ඔබට මගෙන් ඇසිය හැක!*',
+
+  needRouteForTimes: `පිටත්වීමේ වේලාවන් බැලීමට මුලින්ම සම්පූර්ණ මාර්ගයක් අවශ්‍යයි.\n\n💡 **මෙසේ අසා බලන්න:** "මට කොළඹ සිට මහනුවරට යන්න ඕනේ"\n\nඉන්පසු පිටත්වීමේ වේලාවන් ගැන අසන්න, මම ඔබේ මාර්ගය මතක තබා ගන්නම්!`,
+  timeQuerySuggestions: [
+    'මට කොළඹ සිට මහනුවරට යන්න ඕනේ',
+    'ගාල්ල සිට කොළඹට මාර්ග පෙන්වන්න',
+    'නුගේගොඩ සිට අනුරාධපුරයට',
+  ],
+  cityNotFound: (city) => `"${city}" සොයාගත නොහැකි විය. `,
+  savedIncorrectly: `මෙම ස්ථානය පෙර විමසුමකින් වැරදියට සුරැකී තිබිය හැක.\n\n💡 **නව මාර්ගයක් අසා බලන්න:**\n"මට කොළඹ සිට මහනුවරට යන්න ඕනේ"`,
+  checkSpelling: 'කරුණාකර අක්ෂර වින්‍යාසය පරීක්ෂා කරන්න හෝ ආසන්න නගරයක් උත්සාහ කරන්න.',
+  cityNotFoundSuggestions: [
+    'මට කොළඹ සිට මහනුවරට යන්න ඕනේ',
+    'ගාල්ල සිට කොළඹට මාර්ග පෙන්වන්න',
+    'අනුරාධපුරයට ප්‍රවාහන විකල්ප',
+  ],
+  modeNames: { bus: 'බස්', train: 'දුම්රිය', car: 'කාර්/කුලී රථ' },
+  noBusAccess: 'නගර එකක හෝ දෙකෙහිම බස් සේවා නොමැත',
+  noRailwayAccess: 'ආරම්භයේ හෝ ගමනාන්තයේ දුම්රිය ස්ථාන නොමැත',
+  noScheduledDepartures: 'ඉදිරි දින කිහිපය තුළ නියමිත පිටත්වීම් නොමැත',
+  onDemandBooking: 'ඉල්ලුම මත (ඕනෑම වේලාවක වෙන් කරන්න)',
+  departureTimesHeader: (origin, destination) =>
+    `**පිටත්වීමේ වේලාවන්: ${origin} → ${destination}**`,
+  distanceLine: (km) => `දුර: කි.මී. ${km}`,
+  notAvailable: 'ලබා ගත නොහැක',
+  upcoming: 'ඉදිරි පිටත්වීම්',
+  rideHailingHint: 'PickMe, Uber හෝ ප්‍රාදේශීය කුලී රථ සේවා',
+  noPublicTransport: '💡 මෙම මාර්ගයේ පොදු ප්‍රවාහනය නොමැත. කාර් හෝ කුලී රථ සේවා සලකා බලන්න.',
+  timeResultSuggestions: ['මාර්ග විකල්ප පෙන්වන්න', 'ලාභ මාර්ග තිබේද?', 'කාලගුණ තොරතුරු'],
+  timeQueryError: 'පිටත්වීමේ වේලාවන් ලබා ගන්නා අතරතුර දෝෂයක් ඇති විය. කරුණාකර නැවත උත්සාහ කරන්න.',
+
+  askWeatherLocation: 'ඔබට කාලගුණ තොරතුරු අවශ්‍ය කුමන ස්ථානය සඳහාද?',
+  weatherLocationNotFound: (location) =>
+    `"${location}" ස්ථානය සොයාගත නොහැකි විය. කරුණාකර වෙනත් නගරයක් උත්සාහ කරන්න.`,
+  weatherUnavailable: 'කාලගුණ තොරතුරු දැනට ලබා ගත නොහැක.',
+  weatherReport: (city, weather) =>
+    `🌤 **${city} කාලගුණය:**\n\n` +
+    `උෂ්ණත්වය: ${weather.temperature}°C (දැනෙන්නේ ${weather.feelsLike}°C ලෙස)\n` +
+    `තත්ත්වය: ${weather.description}\n` +
+    `ආර්ද්‍රතාවය: ${weather.humidity}%\n` +
+    `සුළං වේගය: ${weather.windSpeed} m/s`,
+
+  askInfoLocation: 'ඔබට තොරතුරු අවශ්‍ය කුමන ස්ථානය ගැනද?',
+  attractionsFallback: (origin, destination) =>
+    `${origin} සහ ${destination} අතර ආකර්ෂණීය ස්ථාන ගැන කියන්න මම කැමතියි! 🌍\n\nදැනට සවිස්තරාත්මක තොරතුරු ලබා දිය නොහැකි වුවත්, මම නිර්දේශ කරන්නේ:\n\n• "${origin} සිට ${destination} දක්වා ආකර්ෂණීය ස්ථාන" අන්තර්ජාලයේ සොයන්න\n• මාර්ගය දිගේ ප්‍රදේශවාසීන්ගෙන් විමසන්න\n• ජාතික වනෝද්‍යාන, වෙරළ, විහාරස්ථාන හෝ ඓතිහාසික ස්ථාන පරීක්ෂා කරන්න\n\nකෙසේ වෙතත් ඔබේ ගමනට ප්‍රවාහනය සැලසුම් කිරීමට මට උදව් කළ හැක! මාර්ග තොරතුරු අවශ්‍ය නම් මට කියන්න.`,
+  attractionsSuggestions: (origin, destination) => [
+    `${origin} සිට ${destination} දක්වා මාර්ගය`,
+    'මාර්ගය දිගේ කාලගුණය',
+    `${destination} ගැන කියන්න`,
+  ],
+  infoNotFound: (location) => `"${location}" ගැන තොරතුරු සොයාගත නොහැකි විය.`,
+  cityIntro: (city) =>
+    `ඔබ ${city} ගැන සඳහන් කළා! 🌍\n\n` +
+    `මට උදව් කළ හැක්කේ:\n` +
+    `• ${city} වෙත යාමට - ඔබ ආරම්භ කරන ස්ථානය කියන්න\n` +
+    `• ${city} සිට ගමන් කිරීමට - ඔබේ ගමනාන්තය කියන්න\n` +
+    `• ${city} කාලගුණ තත්ත්වය\n` +
+    `• නගරය පිළිබඳ තොරතුරු\n\n` +
+    `ඔබට දැනගැනීමට අවශ්‍ය කුමක්ද?`,
+  cityIntroSuggestions: (city) => [
+    `${city} වෙත යන්නේ කොහොමද?`,
+    `${city} සිට මාර්ග`,
+    `${city} කාලගුණය`,
+  ],
+  mentionedCitySuggestions: (city) => [
+    `${city} වෙත යන්නේ කොහොමද?`,
+    `${city} කාලගුණය කොහොමද?`,
+    `${city} ගැන කියන්න`,
+  ],
+
+  greetings: [
+    'ආයුබෝවන්! 👋 මම ඔබේ ශ්‍රී ලංකා ප්‍රවාහන සහායකයා. ශ්‍රී ලංකාව පුරා හොඳම බස් හෝ දුම්රිය මාර්ග සොයා ගැනීමට මට උදව් කළ හැක. අද ඔබට යාමට අවශ්‍ය කොහෙටද?',
+    'හලෝ! 🚌 ශ්‍රී ලංකා ප්‍රවාහන සහායකයා වෙත සාදරයෙන් පිළිගනිමු. ඔබේ ගමන සැලසුම් කිරීමට මට උදව් කළ හැක. ඔබට යාමට අවශ්‍ය ස්ථානය කියන්න!',
+    'ආයුබෝවන්! 🌏 ශ්‍රී ලංකාවේ ප්‍රවාහන පද්ධතිය තුළ ගමන් කිරීමට ඔබට උදව් කිරීමට මම සූදානම්. ඔබේ ගමනාන්තය කොහේද?',
+  ],
+  greetingSuggestions: [
+    'මට කොළඹ සිට මහනුවරට යන්න ඕනේ',
+    'ගාල්ල සිට යාපනයට ප්‍රවාහනය පෙන්වන්න',
+    'නුවරඑළිය කාලගුණය කොහොමද?',
+  ],
+  assistantIntro: `මම ඔබේ ශ්‍රී ලංකා ප්‍රවාහන සහායකයා! 🇱🇰 මට උදව් කළ හැක්කේ:\n\n🚌 **ප්‍රවාහන මාර්ග** - බස් සහ දුම්රිය සම්බන්ධතා\n🌤️ **කාලගුණ තොරතුරු** - ගමනට පෙර තත්ත්වය බලන්න\n🗺️ **නගර තොරතුරු** - ගමනාන්ත ගැන දැනගන්න\n\nමෙවැනි දෙයක් අසන්න:\n• "කොළඹ සිට මහනුවරට යන්නේ කොහොමද?"\n• "ගාල්ල කාලගුණය කොහොමද?"\n• "නුවරඑළිය ගැන කියන්න"\n\nඔබට දැනගැනීමට අවශ්‍ය කුමක්ද?`,
+  assistantIntroSuggestions: [
+    'මට කොළඹ සිට මහනුවරට යන්න ඕනේ',
+    'නුවරඑළිය කාලගුණය කොහොමද?',
+    'ගාල්ල ගැන කියන්න',
+  ],
+};
+
+const ta: ChatbotMessages = {
+  locale: 'ta-LK',
+  yourOrigin: 'நீங்கள் புறப்படும் இடம்',
+  yourDestination: 'உங்கள் சேருமிடம்',
+  transportTypes: { bus: 'பேருந்து', train: 'ரயில்', car: 'கார்' },
+
+  askOrigin: (destination) =>
+    `சரி! நீங்கள் ${destination} செல்ல விரும்புகிறீர்கள். நீங்கள் எங்கிருந்து புறப்படுகிறீர்கள்? 🚏\n\nஉதாரணமாக, "நான் கொழும்பில் இருக்கிறேன்" அல்லது "கண்டியிலிருந்து"`,
+  askOriginSuggestions: ['நான் கொழும்பில் இருக்கிறேன்', 'கண்டியிலிருந்து', 'காலியிலிருந்து'],
+  askDestination: (origin) =>
+    `புரிந்தது! நீங்கள் ${origin} இல் இருக்கிறீர்கள். எங்கே செல்ல விரும்புகிறீர்கள்? 🎯\n\nஉதாரணமாக, "கண்டிக்கு" அல்லது "நான் காலிக்கு போக வேண்டும்"`,
+  askDestinationSuggestions: ['கண்டிக்கு', 'நான் காலிக்கு போக வேண்டும்', 'நுவரெலியாவுக்கு'],
+  askRoute:
+    'போக்குவரத்தைக் கண்டறிய உதவ மகிழ்ச்சி! 🚌🚂\n\nதயவுசெய்து சொல்லுங்கள்:\n• நீங்கள் எங்கிருந்து புறப்படுகிறீர்கள்?\n• எங்கே செல்ல விரும்புகிறீர்கள்?\n\nஉதாரணமாக: "நான் கொழும்பிலிருந்து கண்டிக்கு போக வேண்டும்"',
+  askRouteSuggestions: [
+    'நான் கொழும்பிலிருந்து கண்டிக்கு போக வேண்டும்',
+    'நீர்கொழும்பிலிருந்து காலிக்கு எப்படி போவது?',
+    'நுகேகொடையிலிருந்து எம்பிலிப்பிட்டியவுக்கு போக்குவரத்து',
+  ],
+  locationNotFound: (location) =>
+    `"${location}" என்ற இடத்தைக் கண்டுபிடிக்க முடியவில்லை. எழுத்துப்பிழையைச் சரிபார்க்கவும் அல்லது அருகிலுள்ள நகரத்தை முயற்சிக்கவும்.`,
+  sameLocation: (origin, destination) =>
+    `இரண்டு இடங்களும் ஒன்றே அல்லது மிக அருகில் உள்ளன போல் தெரிகிறது. தயவுசெய்து சரிபார்க்கவும்:\n• புறப்படும் இடம்: ${origin}\n• சேருமிடம்: ${destination}`,
+  noRoutesFound: (origin, destination) =>
+    `${origin} மற்றும் ${destination} இடையே எந்த வழியும் கிடைக்கவில்லை. இது Google Maps API வரம்புகள் காரணமாக இருக்கலாம். வேறு இடங்களை முயற்சிக்கவும் அல்லது பின்னர் மீண்டும் பார்க்கவும்.`,
+  realTimeDataUnavailable:
+    'கிடைக்கும் வழிகளுக்கான நேரடித் தரவைப் பெற முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  routeExplanationFallback: (count, origin, destination) =>
+    `${origin} இலிருந்து ${destination} வரை ${count} போக்குவரத்து முறைகள் கிடைத்தன.`,
+  routeSuggestions: [
+    'மேலும் விருப்பங்களைக் காட்டு',
+    'மலிவான வழிகள் உள்ளதா?',
+    'எது வேகமானது?',
+    'வானிலை பற்றி சொல்லுங்கள்',
+  ],
+  routeServiceUnavailable: (origin, destination) =>
+    `தற்போது ${origin} மற்றும் ${destination} இடையே வழிகளைக் கண்டறிவதில் சிக்கல் உள்ளது. இதற்குக் காரணம்:\n\n• Google Maps API அமைக்கப்படாமல் இருக்கலாம்\n• இணைய இணைப்புச் சிக்கல்கள்\n• இடங்கள் மிகத் தொலைவில் இருக்கலாம்\n\nபின்னர் மீண்டும் முயற்சிக்கவும், சிக்கல் தொடர்ந்தால் உதவிக் குழுவைத் தொடர்பு கொள்ளவும்.`,
+  routeQueryError:
+    'வழிகளைத் தேடும்போது பிழை ஏற்பட்டது. மீண்டும் முயற்சிக்கவும் அல்லது உங்கள் கேள்வியை வேறு விதமாகக் கேளுங்கள்.',
+
+  criticalIncidentsHeader: '🚨 **வழியில் கடுமையான சம்பவங்கள்:**',
+  importantConditionsHeader: '⚠️ **முக்கியமான சாலை நிலைமைகள்:**',
+  reportedIssuesHeader: 'ℹ️ **அறிவிக்கப்பட்ட சாலைச் சிக்கல்கள்:**',
+  kmFromOrigin: (km) => `புறப்படும் இடத்திலிருந்து ${km} கி.மீ.`,
+  expectedDelay: (minutes) => `⏱️ எதிர்பார்க்கப்படும் தாமதம்: ${minutes} நிமிடங்கள்`,
+  moreIncidents: (count) => `...மேலும் ${count}`,
+  minorIncidents: (count) => `💡 இப்பகுதியில் ${count} சிறிய சம்பவங்களும் அறிவிக்கப்பட்டுள்ளன.`,
+  routeSummaryHeader: '**வழிச் சுருக்கம்:**',
+  departureConsidered: (time, isNightWindow) =>
+    `• கருதப்பட்ட புறப்படும் நேரம்: ${time} (${isNightWindow ? 'இரவு நேரம்' : 'பகல் நேரம்'})`,
+  estimatedDistance: (km) => `• மதிப்பிடப்பட்ட பயணத் தூரம்: ${km} கி.மீ.`,
+  nightReasoning:
+    '• காரணம்: இரவு 8:00 முதல் அதிகாலை 5:00 வரை 25 கி.மீ.க்குக் குறைவான பயணங்களுக்கு பொதுப் போக்குவரத்து நம்பகமானதாக இல்லாததால் வாடகை வாகன சேவைகள் (PickMe/Uber) முன்னுரிமை பெறுகின்றன.',
+  defaultReasoning:
+    '• காரணம்: பயண நேரம், கட்டணம், வசதி, பாதுகாப்பு, வானிலை, போக்குவரத்து நெரிசல், சம்பவங்கள் மற்றும் ML நம்பகத்தன்மை அடிப்படையில் தரவரிசைப்படுத்தப்பட்டது.',
+  detailedOptionsHeader: '**விரிவான வழி விருப்பங்கள்:**',
+  option: (index, transportType) => `**விருப்பம் ${index}: ${transportType}**`,
+  provider: (name) => `சேவை வழங்குநர்: ${name}`,
+  score: (score) => `மதிப்பெண்: ${score}/100`,
+  duration: (minutes) => `⏱ பயண நேரம்: ${minutes} நிமி.`,
+  distance: (km) => `📏 தூரம்: ${km} கி.மீ.`,
+  nextDeparture: (departure) => `🕐 அடுத்த புறப்பாடு: ${departure}`,
+  availableOnDemand: '🕐 கிடைக்கும்: தேவைக்கேற்ப (எப்போது வேண்டுமானாலும் முன்பதிவு செய்யலாம்)',
+  goodWeather: '✅ நல்ல வானிலை',
+  lowTraffic: '🟢 குறைந்த நெரிசல்',
+  scenicRoute: '🌄 அழகிய வழி',
+  comfortable: '🪑 வசதியானது',
+  whyThisRank: (reason) => `🧠 இந்தத் தரவரிசைக்குக் காரணம்: ${reason}`,
+  turnByTurnHeader: '**🗺️ படிப்படியான வழிகாட்டல்:**',
+  moreSteps: (count) => `... மேலும் ${count} படிகள்`,
+  routeTip:
+    '💡 *குறிப்பு: மலிவான விருப்பங்கள், வேகமான வழிகள் அல்லது வசதியான போக்குவரத்து பற்றி என்னிடம் கேட்கலாம்!*',
+
+  needRouteForTimes: `புறப்படும் நேரங்களைப் பார்க்க முதலில் முழுமையான வழி தேவை.\n\n💡 **இப்படிக் கேளுங்கள்:** "நான் கொழும்பிலிருந்து கண்டிக்கு போக வேண்டும்"\n\nபின்னர் புறப்படும் நேரங்களைப் பற்றிக் கேளுங்கள், உங்கள் வழியை நான் நினைவில் வைத்துக்கொள்வேன்!`,
+  timeQuerySuggestions: [
+    'நான் கொழும்பிலிருந்து கண்டிக்கு போக வேண்டும்',
+    'காலியிலிருந்து கொழும்புக்கு வழிகளைக் காட்டு',
+    'நுகேகொடையிலிருந்து அனுராதபுரத்துக்கு',
+  ],
+  cityNotFound: (city) => `"${city}" கண்டுபிடிக்க முடியவில்லை. `,
+  savedIncorrectly: `இந்த இடம் முந்தைய கேள்வியிலிருந்து தவறாகச் சேமிக்கப்பட்டிருக்கலாம்.\n\n💡 **புதிய வழியைக் கேளுங்கள்:**\n"நான் கொழும்பிலிருந்து கண்டிக்கு போக வேண்டும்"`,
+  checkSpelling: 'எழுத்துப்பிழையைச் சரிபார்க்கவும் அல்லது அருகிலுள்ள நகரத்தை முயற்சிக்கவும்.',
+  cityNotFoundSuggestions: [
+    'நான் கொழும்பிலிருந்து கண்டிக்கு போக வேண்டும்',
+    'காலியிலிருந்து கொழும்புக்கு வழிகளைக் காட்டு',
+    'அனுராதபுரத்துக்கு போக்குவரத்து விருப்பங்கள்',
+  ],
+  modeNames: { bus: 'பேருந்து', train: 'ரயில்', car: 'கார்/டாக்ஸி' },
+  noBusAccess: 'ஒன்று அல்லது இரண்டு நகரங்களிலும் பேருந்து சேவை இல்லை',
+  noRailwayAccess: 'புறப்படும் இடத்திலோ சேருமிடத்திலோ ரயில் நிலையம் இல்லை',
+  noScheduledDepartures: 'அடுத்த சில நாட்களில் திட்டமிடப்பட்ட புறப்பாடுகள் இல்லை',
+  onDemandBooking: 'தேவைக்கேற்ப (எப்போது வேண்டுமானாலும் முன்பதிவு செய்யலாம்)',
+  departureTimesHeader: (origin, destination) =>
+    `**புறப்படும் நேரங்கள்: ${origin} → ${destination}**`,
+  distanceLine: (km) => `தூரம்: ${km} கி.மீ.`,
+  notAvailable: 'கிடைக்கவில்லை',
+  upcoming: 'அடுத்தடுத்த புறப்பாடுகள்',
+  rideHailingHint: 'PickMe, Uber அல்லது உள்ளூர் டாக்ஸி சேவைகள்',
+  noPublicTransport:
+    '💡 இந்த வழியில் பொதுப் போக்குவரத்து இல்லை. கார் அல்லது டாக்ஸி சேவைகளைப் பரிசீலிக்கவும்.',
+  timeResultSuggestions: ['வழி விருப்பங்களைக் காட்டு', 'மலிவான வழிகள் உள்ளதா?', 'வானிலைத் தகவல்'],
+  timeQueryError: 'புறப்படும் நேரங்களைப் பெறும்போது பிழை ஏற்பட்டது. மீண்டும் முயற்சிக்கவும்.',
+
+  askWeatherLocation: 'எந்த இடத்திற்கான வானிலைத் தகவல் வேண்டும்?',
+  weatherLocationNotFound: (location) =>
+    `"${location}" என்ற இடத்தைக் கண்டுபிடிக்க முடியவில்லை. வேறு நகரத்தை முயற்சிக்கவும்.`,
+  weatherUnavailable: 'வானிலைத் தகவல் தற்போது கிடைக்கவில்லை.',
+  weatherReport: (city, weather) =>
+    `🌤 **${city} வானிலை:**\n\n` +
+    `வெப்பநிலை: ${weather.temperature}°C (உணரப்படுவது ${weather.feelsLike}°C)\n` +
+    `நிலைமை: ${weather.description}\n` +
+    `ஈரப்பதம்: ${weather.humidity}%\n` +
+    `காற்றின் வேகம்: ${weather.windSpeed} m/s`,
+
+  askInfoLocation: 'எந்த இடத்தைப் பற்றிய தகவல் வேண்டும்?',
+  attractionsFallback: (origin, destination) =>
+    `${origin} மற்றும் ${destination} இடையிலான சுற்றுலாத் தலங்களைப் பற்றிச் சொல்ல விரும்புகிறேன்! 🌍\n\nதற்போது விரிவான தகவல்களை வழங்க முடியாவிட்டாலும், நான் பரிந்துரைப்பது:\n\n• "${origin} முதல் ${destination} வரை சுற்றுலாத் தலங்கள்" என இணையத்தில் தேடுங்கள்\n• வழியில் உள்ள உள்ளூர் மக்களிடம் கேளுங்கள்\n• தேசிய பூங்காக்கள், கடற்கரைகள், கோயில்கள் அல்லது வரலாற்றுச் சிறப்புமிக்க இடங்களைப் பாருங்கள்\n\nஉங்கள் பயணத்துக்கான போக்குவரத்தைத் திட்டமிட நான் உதவ முடியும்! வழித் தகவல் தேவைப்பட்டால் சொல்லுங்கள்.`,
+  attractionsSuggestions: (origin, destination) => [
+    `${origin} இலிருந்து ${destination} வரை வழி`,
+    'வழியில் வானிலை',
+    `${destination} பற்றி சொல்லுங்கள்`,
+  ],
+  infoNotFound: (location) => `"${location}" பற்றிய தகவலைக் கண்டுபிடிக்க முடியவில்லை.`,
+  cityIntro: (city) =>
+    `நீங்கள் ${city} பற்றிக் குறிப்பிட்டீர்கள்! 🌍\n\n` +
+    `நான் உதவக்கூடியவை:\n` +
+    `• ${city} செல்ல - நீங்கள் எங்கிருந்து புறப்படுகிறீர்கள் என்று சொல்லுங்கள்\n` +
+    `• ${city} இலிருந்து பயணிக்க - உங்கள் சேருமிடத்தைச் சொல்லுங்கள்\n` +
+    `• ${city} வானிலை நிலைமைகள்\n` +
+    `• நகரம் பற்றிய தகவல்\n\n` +
+    `நீங்கள் என்ன அறிய விரும்புகிறீர்கள்?`,
+  cityIntroSuggestions: (city) => [
+    `${city} செல்வது எப்படி?`,
+    `${city} இலிருந்து வழிகள்`,
+    `${city} வானிலை`,
+  ],
+  mentionedCitySuggestions: (city) => [
+    `${city} செல்வது எப்படி?`,
+    `${city} வானிலை எப்படி?`,
+    `${city} பற்றி சொல்லுங்கள்`,
+  ],
+
+  greetings: [
+    'வணக்கம்! 👋 நான் உங்கள் இலங்கைப் போக்குவரத்து உதவியாளர். இலங்கை முழுவதும் சிறந்த பேருந்து அல்லது ரயில் வழிகளைக் கண்டறிய உதவுவேன். இன்று எங்கே செல்ல விரும்புகிறீர்கள்?',
+    'வணக்கம்! 🚌 இலங்கைப் போக்குவரத்து உதவியாளருக்கு வரவேற்கிறோம். உங்கள் பயணத்தைத் திட்டமிட உதவுவேன். எங்கே செல்ல வேண்டும் என்று சொல்லுங்கள்!',
+    'வணக்கம்! 🌏 இலங்கையின் போக்குவரத்து அமைப்பில் பயணிக்க உதவ நான் இங்கே இருக்கிறேன். உங்கள் சேருமிடம் எது?',
+  ],
+  greetingSuggestions: [
+    'நான் கொழும்பிலிருந்து கண்டிக்கு போக வேண்டும்',
+    'காலியிலிருந்து யாழ்ப்பாணத்துக்கு போக்குவரத்தைக் காட்டு',
+    'நுவரெலியா வானிலை எப்படி?',
+  ],
+  assistantIntro: `நான் உங்கள் இலங்கைப் போக்குவரத்து உதவியாளர்! 🇱🇰 நான் உதவக்கூடியவை:\n\n🚌 **போக்குவரத்து வழிகள்** - பேருந்து மற்றும் ரயில் இணைப்புகள்\n🌤️ **வானிலைத் தகவல்** - பயணத்துக்கு முன் நிலைமைகளைப் பாருங்கள்\n🗺️ **நகரத் தகவல்** - சேருமிடங்களைப் பற்றி அறியுங்கள்\n\nஇப்படிக் கேளுங்கள்:\n• "கொழும்பிலிருந்து கண்டிக்கு எப்படி போவது?"\n• "காலி வானிலை எப்படி?"\n• "நுவரெலியா பற்றி சொல்லுங்கள்"\n\nநீங்கள் என்ன அறிய விரும்புகிறீர்கள்?`,
+  assistantIntroSuggestions: [
+    'நான் கொழும்பிலிருந்து கண்டிக்கு போக வேண்டும்',
+    'நுவரெலியா வானிலை எப்படி?',
+    'காலி பற்றி சொல்லுங்கள்',
+  ],
+};
+
+const CATALOGS: Record<ChatLanguage, ChatbotMessages> = { en, si, ta };
+
+export const getChatbotMessages = (language: ChatLanguage = 'en'): ChatbotMessages =>
+  CATALOGS[language] ?? en;
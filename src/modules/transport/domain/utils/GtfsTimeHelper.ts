@@ -0,0 +1,134 @@
+/**
+ * Wall-clock parts of an instant in a given IANA timezone
+ */
+export interface ZonedClock {
+  serviceDate: string; // YYYYMMDD
+  weekday: number; // 0 = Sunday
+  secondsOfDay: number;
+}
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+};
+
+/**
+ * Helpers for GTFS time and date handling.
+ * GTFS times are "HH:MM:SS" relative to the service day and may exceed 24:00:00;
+ * GTFS dates are "YYYYMMDD" in the feed timezone.
+ */
+export class GtfsTimeHelper {
+  /**
+   * Parse a GTFS "H:MM:SS" / "HH:MM:SS" time into seconds after midnight
+   */
+  static parseTime(value: string): number | null {
+    const match = /^\s*(\d{1,2}):(\d{2})(?::(\d{2}))?\s*$/.exec(value || '');
+    if (!match) {
+      return null;
+    }
+    const [, hours, minutes, seconds] = match;
+    return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds || 0);
+  }
+
+  /**
+   * Format seconds after midnight as HH:MM (wrapping times past midnight)
+   */
+  static formatTime(secs: number): string {
+    const minutesOfDay = Math.floor(secs / 60) % (24 * 60);
+    const hours = Math.floor(minutesOfDay / 60);
+    const mins = minutesOfDay % 60;
+    return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+  }
+
+  /**
+   * Check a GTFS date string (YYYYMMDD) is a real calendar date
+   */
+  static isValidDate(value: string): boolean {
+    if (!/^\d{8}$/.test(value || '')) {
+      return false;
+    }
+    const year = Number(value.slice(0, 4));
+    const month = Number(value.slice(4, 6));
+    const day = Number(value.slice(6, 8));
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+  }
+
+  /**
+   * Get the service date, weekday and seconds of day of an instant in the feed timezone
+   */
+  static getZonedClock(instant: Date, timeZone: string): ZonedClock {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(instant);
+
+    const get = (type: string): string => parts.find((p) => p.type === type)?.value || '';
+
+    return {
+      serviceDate: `${get('year')}${get('month')}${get('day')}`,
+      weekday: WEEKDAY_INDEX[get('weekday')] ?? 0,
+      secondsOfDay: Number(get('hour')) * 3600 + Number(get('minute')) * 60 + Number(get('second')),
+    };
+  }
+
+  /**
+   * Shift a GTFS date string by a number of days
+   */
+  static addDays(serviceDate: string, days: number): string {
+    const date = new Date(
+      Date.UTC(
+        Number(serviceDate.slice(0, 4)),
+        Number(serviceDate.slice(4, 6)) - 1,
+        Number(serviceDate.slice(6, 8)) + days
+      )
+    );
+    return [
+      date.getUTCFullYear().toString(),
+      (date.getUTCMonth() + 1).toString().padStart(2, '0'),
+      date.getUTCDate().toString().padStart(2, '0'),
+    ].join('');
+  }
+
+  /**
+   * Weekday (0 = Sunday) of a GTFS date string
+   */
+  static getWeekday(serviceDate: string): number {
+    return new Date(
+      Date.UTC(
+        Number(serviceDate.slice(0, 4)),
+        Number(serviceDate.slice(4, 6)) - 1,
+        Number(serviceDate.slice(6, 8))
+      )
+    ).getUTCDay();
+  }
+
+  /**
+   * Convert a service date plus seconds after its midnight into an absolute instant.
+   * GTFS measures times from "noon minus 12h", which equals local midnight outside DST changes.
+   */
+  static toInstant(serviceDate: string, secs: number, timeZone: string): Date {
+    const year = Number(serviceDate.slice(0, 4));
+    const month = Number(serviceDate.slice(4, 6)) - 1;
+    const day = Number(serviceDate.slice(6, 8));
+
+    // Find the timezone offset at noon of the service day and apply it
+    const noonUtc = Date.UTC(year, month, day, 12, 0, 0);
+    const noonClock = GtfsTimeHelper.getZonedClock(new Date(noonUtc), timeZone);
+    const offsetSecs = noonClock.secondsOfDay - 12 * 3600;
+
+    return new Date(Date.UTC(year, month, day) + (secs - offsetSecs) * 1000);
+  }
+}
@@ -1,11 +1,25 @@
-import axios, { AxiosInstance } from 'axios';
+import mongoose from 'mongoose';
 import { logger } from '../../../../shared/config/logger';
+import { getCache } from '../../../../shared/libraries/cache';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+import { IHolidayOverride } from '../models/HolidayOverride';
+import { HolidayOverrideRepository } from '../repositories/HolidayOverrideRepository';
+import {
+  addDays,
+  getEasterSunday,
+  getPoyaDays,
+  getSankrantiDate,
+  getWeekday,
+  toSriLankaDate,
+} from './PoyaCalendar';
 
 export interface Holiday {
   name: string;
   date: string; // YYYY-MM-DD
   observed: string;
   public: boolean;
+  poya: boolean;
+  source: 'computed' | 'override';
   country: string;
   uuid: string;
   weekday: {
@@ -20,265 +34,161 @@ export interface Holiday {
   };
 }
 
-export interface HolidayResponse {
-  status: number;
-  requests: {
-    used: number;
-    available: number;
-    resets: string;
-  };
-  holidays: Holiday[];
-  error?: string;
-  warning?: string;
-}
-
-interface NagerHoliday {
+export interface HolidayOverrideInput {
   date: string;
-  localName: string;
   name: string;
+  action: 'add' | 'remove';
+  isPoya?: boolean;
+  notes?: string;
 }
 
-interface StaticHolidayEntry {
-  name: string;
-  date: string;
-}
-
+const WEEKDAY_NAMES = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+// Sidereal sign the Sun enters on Thai Pongal (Makara)
+const MAKARA = 9;
+
+/**
+ * Sri Lanka public holidays, computed locally: Poya days from the Moon's
+ * position, fixed-date and rule-based holidays, then admin overrides for
+ * anything the calendar can't know in advance (Islamic and Hindu festivals,
+ * special bank holidays, almanac corrections). Nothing here calls out to the
+ * network, so ML features built from it never stall on a third-party API.
+ */
 export class HolidayService {
-  private client: AxiosInstance;
-  private apiKey: string;
-  private holidayCache: Map<number, Holiday[]> = new Map(); // Cache by year
-  private cacheTimestamp: Map<number, number> = new Map();
-  private inFlightRequests: Map<number, Promise<Holiday[]>> = new Map();
-  private readonly CACHE_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days
-
-  // Offline fallback for critical Sri Lanka holidays when external APIs are unavailable.
-  // Keep this list updated yearly for best accuracy.
-  private readonly staticSriLankaHolidays: Record<number, StaticHolidayEntry[]> = {
-    2026: [
-      { name: 'Independence Day', date: '2026-02-04' },
-      { name: 'Bak Full Moon Poya Day', date: '2026-04-01' },
-      { name: 'Sinhala and Tamil New Year Eve', date: '2026-04-13' },
-      { name: 'Sinhala and Tamil New Year Day', date: '2026-04-14' },
-      { name: 'May Day', date: '2026-05-01' },
-      { name: 'Christmas Day', date: '2026-12-25' },
-    ],
-  };
+  private overrideRepository: HolidayOverrideRepository;
+  // Merged calendar by year; cleared whenever an override changes
+  private holidayCache = getCache('holidays', 6 * 60 * 60 * 1000);
 
   constructor() {
-    this.apiKey = process.env.HOLIDAY_API_KEY || '';
-
-    if (!this.apiKey) {
-      logger.warn('Holiday API key not configured - holiday detection will be unavailable');
-    }
-
-    this.client = axios.create({
-      baseURL: 'https://holidayapi.com/v1',
-      timeout: 5000,
-    });
+    this.overrideRepository = new HolidayOverrideRepository();
   }
 
   /**
-   * Fetch holidays for a specific year from Holiday API
+   * Holidays that follow from the calendar alone
    */
-  private async fetchHolidays(year: number): Promise<Holiday[]> {
-    if (!this.apiKey) {
-      logger.warn('Holiday API key not set, using fallback holiday provider');
-      return this.fetchFallbackHolidays(year);
+  private computeHolidays(year: number): Holiday[] {
+    const poyaDays = getPoyaDays(year);
+    const vesak = poyaDays.find((poya) => poya.month === 'Vesak');
+
+    const holidays: Holiday[] = [
+      this.toHoliday('Tamil Thai Pongal Day', getSankrantiDate(year, MAKARA)),
+      this.toHoliday('Independence Day', `${year}-02-04`),
+      this.toHoliday('Good Friday', addDays(getEasterSunday(year), -2)),
+      this.toHoliday('Sinhala and Tamil New Year Eve', `${year}-04-13`),
+      this.toHoliday('Sinhala and Tamil New Year Day', `${year}-04-14`),
+      this.toHoliday('May Day', `${year}-05-01`),
+      this.toHoliday('Christmas Day', `${year}-12-25`),
+      ...poyaDays.map((poya) => this.toHoliday(poya.name, poya.date, { poya: true })),
+    ];
+
+    if (vesak) {
+      holidays.push(
+        this.toHoliday('Day following Vesak Full Moon Poya Day', addDays(vesak.date, 1))
+      );
     }
 
-    try {
-      const response = await this.client.get<HolidayResponse>('/holidays', {
-        params: {
-          country: 'LK', // Sri Lanka
-          year: year,
-          key: this.apiKey,
-          public: true,
-        },
-      });
-
-      if (response.data.warning) {
-        logger.warn(`Holiday API warning: ${response.data.warning}`);
-      }
-
-      if (response.data.error) {
-        logger.warn(`Holiday API error: ${response.data.error}`);
-        return this.fetchFallbackHolidays(year);
-      }
-
-      if (!Array.isArray(response.data.holidays)) {
-        logger.warn('Holiday API returned malformed holidays payload, using fallback provider');
-        return this.fetchFallbackHolidays(year);
-      }
-
-      if (response.data.status === 200) {
-        logger.info(
-          `Fetched ${response.data.holidays.length} holidays for ${year} (${response.data.requests.available} requests remaining)`
-        );
-        return response.data.holidays;
-      }
-
-      logger.warn(`Holiday API returned status ${response.data.status}`);
-      return this.fetchFallbackHolidays(year);
-    } catch (error: unknown) {
-      const axiosError = error as { response?: { status?: number }; message?: string };
-      const statusCode = axiosError?.response?.status;
-      const message = axiosError?.message || 'Unknown error';
-      logger.error(`Error fetching holidays: ${message}`);
-
-      // Quota/billing errors are common on HolidayAPI free tiers; use fallback provider.
-      if (statusCode === 402 || statusCode === 401 || statusCode === 429) {
-        logger.warn(
-          `HolidayAPI unavailable (status ${statusCode}), using fallback holiday provider`
-        );
-      }
-
-      return this.fetchFallbackHolidays(year);
-    }
+    return holidays.sort((a, b) => a.date.localeCompare(b.date));
   }
 
   /**
-   * Fallback provider using free Nager.Date API (no API key required)
+   * Apply admin overrides on top of the computed calendar
    */
-  private async fetchFallbackHolidays(year: number): Promise<Holiday[]> {
-    try {
-      const response = await axios.get<NagerHoliday[]>(
-        `https://date.nager.at/api/v3/PublicHolidays/${year}/LK`,
-        { timeout: 5000 }
-      );
-
-      const holidays = (response.data || []).map((h, index) => ({
-        name: h.localName || h.name,
-        date: h.date,
-        observed: h.date,
-        public: true,
-        country: 'LK',
-        uuid: `nager-${year}-${index}`,
-        weekday: {
-          date: {
-            name: new Date(h.date).toLocaleDateString('en-US', { weekday: 'long' }),
-            numeric: new Date(h.date).getDay(),
-          },
-          observed: {
-            name: new Date(h.date).toLocaleDateString('en-US', { weekday: 'long' }),
-            numeric: new Date(h.date).getDay(),
-          },
-        },
-      }));
-
-      if (holidays.length > 0) {
-        logger.info(`Fetched ${holidays.length} fallback holidays for ${year} from Nager.Date`);
-        return holidays;
-      }
-
-      logger.warn(`Nager fallback returned 0 holidays for ${year}, using static fallback list`);
-      return this.getStaticFallbackHolidays(year);
-    } catch (fallbackError: unknown) {
-      const message = fallbackError instanceof Error ? fallbackError.message : 'Unknown error';
-      logger.error(`Fallback holiday fetch failed: ${message}`);
-      return this.getStaticFallbackHolidays(year);
-    }
-  }
+  private applyOverrides(holidays: Holiday[], overrides: IHolidayOverride[]): Holiday[] {
+    const isSameHoliday = (holiday: Holiday, override: IHolidayOverride) =>
+      holiday.date === override.date && holiday.name.toLowerCase() === override.name.toLowerCase();
 
-  private getStaticFallbackHolidays(year: number): Holiday[] {
-    const staticEntries = this.staticSriLankaHolidays[year] || [];
+    const merged = holidays.filter(
+      (holiday) => !overrides.some((override) => isSameHoliday(holiday, override))
+    );
 
-    if (staticEntries.length === 0) {
-      logger.warn(`No static fallback holidays configured for year ${year}`);
-      return [];
-    }
+    overrides
+      .filter((override) => override.action === 'add')
+      .forEach((override) =>
+        merged.push(
+          this.toHoliday(override.name, override.date, {
+            poya: override.is_poya,
+            source: 'override',
+            uuid: `override-${override._id}`,
+          })
+        )
+      );
 
-    const holidays = staticEntries.map((entry, index) => {
-      const date = new Date(entry.date);
-      const weekdayName = date.toLocaleDateString('en-US', { weekday: 'long' });
-      const weekdayNumber = date.getDay();
-
-      return {
-        name: entry.name,
-        date: entry.date,
-        observed: entry.date,
-        public: true,
-        country: 'LK',
-        uuid: `static-${year}-${index}`,
-        weekday: {
-          date: {
-            name: weekdayName,
-            numeric: weekdayNumber,
-          },
-          observed: {
-            name: weekdayName,
-            numeric: weekdayNumber,
-          },
-        },
-      };
-    });
+    return merged.sort((a, b) => a.date.localeCompare(b.date));
+  }
 
-    logger.info(`Using ${holidays.length} static fallback holidays for ${year}`);
-    return holidays;
+  private toHoliday(
+    name: string,
+    date: string,
+    options: { poya?: boolean; source?: Holiday['source']; uuid?: string } = {}
+  ): Holiday {
+    const weekday = getWeekday(date);
+    const day = { name: WEEKDAY_NAMES[weekday], numeric: weekday };
+
+    return {
+      name,
+      date,
+      observed: date,
+      public: true,
+      poya: options.poya ?? false,
+      source: options.source ?? 'computed',
+      country: 'LK',
+      uuid: options.uuid ?? `computed-${date}-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+      weekday: { date: day, observed: day },
+    };
   }
 
   /**
-   * Get holidays for a year (with caching)
+   * Get holidays for a year (with caching).
+   * If overrides can't be loaded, the computed calendar is used on its own.
    */
   private async getHolidays(year: number): Promise<Holiday[]> {
-    const now = Date.now();
-    const cached = this.holidayCache.get(year);
-    const cacheTime = this.cacheTimestamp.get(year);
-
-    // Return cached data if still valid
-    if (cached && cacheTime && now - cacheTime < this.CACHE_TTL) {
-      return cached;
+    // Don't wait on Mongoose's command buffer while the database is down
+    if (mongoose.connection.readyState !== 1) {
+      return this.computeHolidays(year);
     }
 
-    // Reuse in-flight request to avoid parallel duplicate API calls for same year.
-    const inFlight = this.inFlightRequests.get(year);
-    if (inFlight) {
-      return inFlight;
-    }
-
-    const fetchPromise = this.fetchHolidays(year)
-      .then((holidays) => {
-        this.holidayCache.set(year, holidays);
-        this.cacheTimestamp.set(year, Date.now());
-        return holidays;
-      })
-      .finally(() => {
-        this.inFlightRequests.delete(year);
+    try {
+      return await this.holidayCache.getOrSet(String(year), async () =>
+        this.applyOverrides(
+          this.computeHolidays(year),
+          await this.overrideRepository.findByYear(year)
+        )
+      );
+    } catch (error) {
+      logger.warn(`Holiday overrides unavailable for ${year}, using computed calendar`, {
+        error: (error as Error).message,
       });
+      return this.computeHolidays(year);
+    }
+  }
 
-    this.inFlightRequests.set(year, fetchPromise);
-    return fetchPromise;
+  private async findHolidays(dateStr: string): Promise<Holiday[]> {
+    const holidays = await this.getHolidays(Number(dateStr.slice(0, 4)));
+    return holidays.filter(
+      (holiday) => holiday.public && (holiday.date === dateStr || holiday.observed === dateStr)
+    );
   }
 
   /**
    * Check if a date is a public holiday (including Poya days in Sri Lanka)
    */
   async isPublicHoliday(date: Date): Promise<boolean> {
-    const year = date.getFullYear();
-    const dateStr = this.formatDate(date);
-
-    const holidays = await this.getHolidays(year);
-
-    return holidays.some(
-      (holiday) => holiday.public && (holiday.date === dateStr || holiday.observed === dateStr)
-    );
+    return (await this.findHolidays(toSriLankaDate(date))).length > 0;
   }
 
   /**
    * Check if a date is a Poya day (full moon holiday in Sri Lanka)
    */
   async isPoyaDay(date: Date): Promise<boolean> {
-    const year = date.getFullYear();
-    const dateStr = this.formatDate(date);
-
-    const holidays = await this.getHolidays(year);
-
-    // Poya days typically have "Poya" in the name
-    return holidays.some(
-      (holiday) =>
-        holiday.public &&
-        holiday.name.toLowerCase().includes('poya') &&
-        (holiday.date === dateStr || holiday.observed === dateStr)
-    );
+    return (await this.findHolidays(toSriLankaDate(date))).some((holiday) => holiday.poya);
   }
 
   /**
@@ -287,43 +197,31 @@ export class HolidayService {
    * creating a 3+ day weekend
    */
   async isLongWeekend(date: Date): Promise<boolean> {
-    const dayOfWeek = date.getDay(); // 0 = Sunday, 6 = Saturday
+    const dateStr = toSriLankaDate(date);
+    const isHoliday = async (day: string) => (await this.findHolidays(day)).length > 0;
+    const dayOfWeek = getWeekday(dateStr); // 0 = Sunday, 6 = Saturday
 
     // Weekend days are always part of a weekend (but not necessarily "long")
-    if (dayOfWeek === 0 || dayOfWeek === 6) {
-      // Check if there's a holiday on Friday or Monday
-      const friday = new Date(date);
-      const monday = new Date(date);
-
-      if (dayOfWeek === 0) {
-        // Sunday - check if Monday is a holiday
-        monday.setDate(date.getDate() + 1);
-        return await this.isPublicHoliday(monday);
-      } else {
-        // Saturday - check if Friday is a holiday
-        friday.setDate(date.getDate() - 1);
-        return await this.isPublicHoliday(friday);
-      }
+    if (dayOfWeek === 0) {
+      // Sunday - check if Monday is a holiday
+      return isHoliday(addDays(dateStr, 1));
+    }
+    if (dayOfWeek === 6) {
+      // Saturday - check if Friday is a holiday
+      return isHoliday(addDays(dateStr, -1));
     }
 
-    // Weekdays - check if they're holidays adjacent to weekends
-    if (dayOfWeek === 5) {
-      // Friday - check if it's a holiday (makes it a long weekend)
-      return await this.isPublicHoliday(date);
-    } else if (dayOfWeek === 1) {
-      // Monday - check if it's a holiday (makes it a long weekend)
-      return await this.isPublicHoliday(date);
+    // Friday or Monday - a holiday makes it a long weekend
+    if (dayOfWeek === 5 || dayOfWeek === 1) {
+      return isHoliday(dateStr);
     }
 
     // Check if there are consecutive holidays creating a long weekend
-    const previousDay = new Date(date);
-    previousDay.setDate(date.getDate() - 1);
-    const nextDay = new Date(date);
-    nextDay.setDate(date.getDate() + 1);
-
-    const isCurrentHoliday = await this.isPublicHoliday(date);
-    const isPrevHoliday = await this.isPublicHoliday(previousDay);
-    const isNextHoliday = await this.isPublicHoliday(nextDay);
+    const [isCurrentHoliday, isPrevHoliday, isNextHoliday] = await Promise.all([
+      isHoliday(dateStr),
+      isHoliday(addDays(dateStr, -1)),
+      isHoliday(addDays(dateStr, 1)),
+    ]);
 
     // Long weekend if current day + adjacent days are holidays
     return isCurrentHoliday && (isPrevHoliday || isNextHoliday);
@@ -333,15 +231,7 @@ export class HolidayService {
    * Get holiday name if the date is a holiday
    */
   async getHolidayName(date: Date): Promise<string | null> {
-    const year = date.getFullYear();
-    const dateStr = this.formatDate(date);
-
-    const holidays = await this.getHolidays(year);
-
-    const holiday = holidays.find(
-      (h) => h.public && (h.date === dateStr || h.observed === dateStr)
-    );
-
+    const [holiday] = await this.findHolidays(toSriLankaDate(date));
     return holiday ? holiday.name : null;
   }
 
@@ -354,23 +244,51 @@ export class HolidayService {
   }
 
   /**
-   * Format date to YYYY-MM-DD
+   * List the admin overrides for a year
+   */
+  async getOverrides(year: number): Promise<IHolidayOverride[]> {
+    return this.overrideRepository.findByYear(year);
+  }
+
+  /**
+   * Add or replace an override, then rebuild the calendar on next use
+   */
+  async saveOverride(input: HolidayOverrideInput, userId: string): Promise<IHolidayOverride> {
+    const override = await this.overrideRepository.upsert({
+      date: input.date,
+      name: input.name,
+      action: input.action,
+      is_poya: input.isPoya ?? false,
+      notes: input.notes,
+      updated_by: userId,
+    });
+    if (!override) {
+      throw new AppError('Failed to save holiday override', 500);
+    }
+
+    await this.clearCache();
+    logger.info(`Holiday override saved: ${input.action} "${input.name}" on ${input.date}`);
+    return override;
+  }
+
+  /**
+   * Delete an override, restoring the computed holiday it replaced
    */
-  private formatDate(date: Date): string {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
+  async deleteOverride(id: string): Promise<void> {
+    const override = await this.overrideRepository.delete(id);
+    if (!override) {
+      throw new AppError('Holiday override not found', 404);
+    }
+
+    await this.clearCache();
+    logger.info(`Holiday override removed: "${override.name}" on ${override.date}`);
   }
 
   /**
    * Clear cache (useful for testing or manual refresh)
    */
-  clearCache(): void {
-    this.holidayCache.clear();
-    this.cacheTimestamp.clear();
-    this.inFlightRequests.clear();
-    logger.info('Holiday cache cleared');
+  async clearCache(): Promise<void> {
+    await this.holidayCache.clear();
   }
 }
 
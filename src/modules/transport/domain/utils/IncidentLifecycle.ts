@@ -0,0 +1,50 @@
+/**
+ * Road incident lifecycle
+ *
+ * How long an incident stays active before the lifecycle worker archives it.
+ * Severe incidents last longer, and every independent confirmation extends
+ * the lifetime, up to a cap, so incidents people keep confirming stay visible
+ * while stale one-off reports drop off.
+ */
+
+import { IRoadIncident } from '../models/RoadIncident';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Lifetime of an incident with a single report
+export const BASE_LIFETIME_HOURS: Record<IRoadIncident['severity'], number> = {
+  low: 6,
+  medium: 12,
+  high: 24,
+  critical: 48,
+};
+
+// Each confirmation after the first adds this share of the base lifetime
+const CONFIRMATION_BONUS = 0.5;
+
+// Never keep an incident alive for more than this multiple of its base lifetime
+const MAX_LIFETIME_MULTIPLIER = 4;
+
+/**
+ * Lifetime in milliseconds for an incident of this severity and confirmation count
+ */
+export const calculateLifetimeMs = (
+  severity: IRoadIncident['severity'],
+  confirmations: number
+): number => {
+  const baseHours = BASE_LIFETIME_HOURS[severity] ?? BASE_LIFETIME_HOURS.medium;
+  const multiplier = Math.min(
+    1 + Math.max(0, confirmations - 1) * CONFIRMATION_BONUS,
+    MAX_LIFETIME_MULTIPLIER
+  );
+  return baseHours * multiplier * HOUR_MS;
+};
+
+/**
+ * When an incident should expire, counting from its latest report or confirmation
+ */
+export const calculateExpiry = (
+  severity: IRoadIncident['severity'],
+  confirmations: number,
+  from: Date = new Date()
+): Date => new Date(from.getTime() + calculateLifetimeMs(severity, confirmations));
@@ -0,0 +1,268 @@
+/**
+ * Polyline geometry
+ *
+ * Decodes Google encoded polylines and measures how close points and paths
+ * are to each other, so incidents can be matched against the actual road a
+ * route follows rather than just its start and end points. Distances use a
+ * local equirectangular projection, which is accurate to well under a percent
+ * at the few-kilometre scales a route corridor covers.
+ */
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+export interface PathBounds {
+  min_lat: number;
+  max_lat: number;
+  min_lng: number;
+  max_lng: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LAT = 111.32;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Decode a Google encoded polyline (precision 5) into coordinates
+ */
+export const decodePolyline = (encoded: string): LatLng[] => {
+  const points: LatLng[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const readValue = (): number | null => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      if (index >= encoded.length) return null;
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    const dLat = readValue();
+    const dLng = readValue();
+    if (dLat === null || dLng === null) break; // truncated input
+
+    lat += dLat;
+    lng += dLng;
+    points.push({ latitude: lat / 1e5, longitude: lng / 1e5 });
+  }
+
+  return points;
+};
+
+/**
+ * Great-circle distance between two points in km (Haversine formula)
+ */
+export const haversineKm = (a: LatLng, b: LatLng): number => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(a.latitude)) *
+      Math.cos(toRadians(b.latitude)) *
+      Math.sin(dLng / 2) *
+      Math.sin(dLng / 2);
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+};
+
+/**
+ * Where a point falls relative to a segment: how far it is from it, and how
+ * far along the segment (0-1) its closest point lies
+ */
+const projectOntoSegment = (
+  point: LatLng,
+  start: LatLng,
+  end: LatLng
+): { distanceKm: number; fraction: number } => {
+  // Project onto a flat plane centred on the point, in km
+  const kmPerDegreeLng = KM_PER_DEGREE_LAT * Math.cos(toRadians(point.latitude));
+  const ax = (start.longitude - point.longitude) * kmPerDegreeLng;
+  const ay = (start.latitude - point.latitude) * KM_PER_DEGREE_LAT;
+  const bx = (end.longitude - point.longitude) * kmPerDegreeLng;
+  const by = (end.latitude - point.latitude) * KM_PER_DEGREE_LAT;
+
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const fraction =
+    lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+
+  return { distanceKm: Math.hypot(ax + fraction * dx, ay + fraction * dy), fraction };
+};
+
+/**
+ * Shortest distance in km from a point to the segment between two others
+ */
+export const distanceToSegmentKm = (point: LatLng, start: LatLng, end: LatLng): number =>
+  projectOntoSegment(point, start, end).distanceKm;
+
+/**
+ * Shortest distance in km from a point to any part of a path
+ */
+export const distanceToPathKm = (point: LatLng, path: LatLng[]): number => {
+  if (path.length === 0) return Infinity;
+  if (path.length === 1) return haversineKm(point, path[0]);
+
+  let min = Infinity;
+  for (let i = 1; i < path.length; i++) {
+    min = Math.min(min, distanceToSegmentKm(point, path[i - 1], path[i]));
+  }
+  return min;
+};
+
+/**
+ * Length of a path in km
+ */
+export const pathLengthKm = (path: LatLng[]): number => {
+  let length = 0;
+  for (let i = 1; i < path.length; i++) {
+    length += haversineKm(path[i - 1], path[i]);
+  }
+  return length;
+};
+
+/**
+ * Locate a point against a path: how far it is from the path, and how far
+ * along the path (from its start) the closest point lies
+ */
+export const locateOnPath = (
+  point: LatLng,
+  path: LatLng[]
+): { distanceKm: number; distanceAlongKm: number } => {
+  if (path.length === 0) return { distanceKm: Infinity, distanceAlongKm: 0 };
+  if (path.length === 1) return { distanceKm: haversineKm(point, path[0]), distanceAlongKm: 0 };
+
+  let best = { distanceKm: Infinity, distanceAlongKm: 0 };
+  let travelled = 0;
+  for (let i = 1; i < path.length; i++) {
+    const segmentKm = haversineKm(path[i - 1], path[i]);
+    const { distanceKm, fraction } = projectOntoSegment(point, path[i - 1], path[i]);
+    if (distanceKm < best.distanceKm) {
+      best = { distanceKm, distanceAlongKm: travelled + fraction * segmentKm };
+    }
+    travelled += segmentKm;
+  }
+  return best;
+};
+
+/**
+ * Points spaced evenly along a path, starting at its first point and always
+ * including its last
+ */
+export const samplePath = (path: LatLng[], spacingKm: number): LatLng[] => {
+  if (path.length < 2 || spacingKm <= 0) return [...path];
+
+  const samples: LatLng[] = [path[0]];
+  let sinceLast = 0;
+  for (let i = 1; i < path.length; i++) {
+    const start = path[i - 1];
+    const end = path[i];
+    const segmentKm = haversineKm(start, end);
+
+    let offset = spacingKm - sinceLast;
+    while (offset <= segmentKm) {
+      const fraction = offset / segmentKm;
+      samples.push({
+        latitude: start.latitude + (end.latitude - start.latitude) * fraction,
+        longitude: start.longitude + (end.longitude - start.longitude) * fraction,
+      });
+      offset += spacingKm;
+    }
+    sinceLast = segmentKm - (offset - spacingKm);
+  }
+
+  const last = path[path.length - 1];
+  const lastSample = samples[samples.length - 1];
+  if (lastSample.latitude !== last.latitude || lastSample.longitude !== last.longitude) {
+    samples.push(last);
+  }
+  return samples;
+};
+
+/**
+ * Whether two segments cross each other
+ */
+const segmentsIntersect = (p1: LatLng, p2: LatLng, q1: LatLng, q2: LatLng): boolean => {
+  const orientation = (a: LatLng, b: LatLng, c: LatLng): number =>
+    Math.sign(
+      (b.longitude - a.longitude) * (c.latitude - a.latitude) -
+        (b.latitude - a.latitude) * (c.longitude - a.longitude)
+    );
+
+  const o1 = orientation(p1, p2, q1);
+  const o2 = orientation(p1, p2, q2);
+  const o3 = orientation(q1, q2, p1);
+  const o4 = orientation(q1, q2, p2);
+
+  // Segments that only touch are caught by the vertex distances instead
+  return o1 !== o2 && o3 !== o4 && o1 !== 0 && o2 !== 0 && o3 !== 0 && o4 !== 0;
+};
+
+/**
+ * Shortest distance in km between two paths: zero where they cross,
+ * otherwise the closest any vertex of one comes to the other
+ */
+export const distanceBetweenPathsKm = (a: LatLng[], b: LatLng[]): number => {
+  for (let i = 1; i < a.length; i++) {
+    for (let j = 1; j < b.length; j++) {
+      if (segmentsIntersect(a[i - 1], a[i], b[j - 1], b[j])) return 0;
+    }
+  }
+
+  let min = Infinity;
+  for (const point of a) {
+    min = Math.min(min, distanceToPathKm(point, b));
+  }
+  for (const point of b) {
+    min = Math.min(min, distanceToPathKm(point, a));
+  }
+  return min;
+};
+
+/**
+ * Bounding box of a path, grown by a margin in km on every side
+ */
+export const getPathBounds = (path: LatLng[], marginKm: number = 0): PathBounds | null => {
+  if (path.length === 0) return null;
+
+  const latitudes = path.map((point) => point.latitude);
+  const longitudes = path.map((point) => point.longitude);
+  const minLat = Math.min(...latitudes);
+  const maxLat = Math.max(...latitudes);
+
+  const latMargin = marginKm / KM_PER_DEGREE_LAT;
+  const widestLat = Math.max(Math.abs(minLat), Math.abs(maxLat));
+  const lngMargin = marginKm / (KM_PER_DEGREE_LAT * Math.max(Math.cos(toRadians(widestLat)), 0.01));
+
+  return {
+    min_lat: minLat - latMargin,
+    max_lat: maxLat + latMargin,
+    min_lng: Math.min(...longitudes) - lngMargin,
+    max_lng: Math.max(...longitudes) + lngMargin,
+  };
+};
+
+/**
+ * Keep every n-th point (and always the last) so long paths stay small
+ * enough to store and compare
+ */
+export const thinPath = (path: LatLng[], maxPoints: number): LatLng[] => {
+  if (path.length <= maxPoints || maxPoints < 2) return path;
+
+  const step = (path.length - 1) / (maxPoints - 1);
+  const thinned: LatLng[] = [];
+  for (let i = 0; i < maxPoints; i++) {
+    thinned.push(path[Math.round(i * step)]);
+  }
+  return thinned;
+};
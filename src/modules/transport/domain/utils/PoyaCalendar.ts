@@ -0,0 +1,334 @@
+/**
+ * Poya calendar
+ *
+ * Computes Sri Lankan full-moon Poya days from the positions of the Sun and
+ * Moon, so holidays are known for any year without a network call. Positions
+ * use the truncated series from Meeus, "Astronomical Algorithms" (ch. 25 and
+ * 47), which place full moons within a couple of minutes between 1900 and 2100.
+ *
+ * A Poya falls on the day whose sunset in Colombo lies inside the full-moon
+ * tithi (the Moon 168°-180° ahead of the Sun), at least a ghatika after the
+ * tithi began. When the tithi is short enough to fit between two sunsets, the
+ * day of the full moon itself is used. Lunar months are named by the sidereal
+ * sign the Sun occupies at the preceding new moon; a month in which the Sun
+ * doesn't change sign is an Adhi (leap) month.
+ *
+ * The almanac committee works from its own tables, so a sankranti that falls
+ * within hours of a new moon can land on the other side of it in the gazetted
+ * calendar. Those are listed in ALMANAC_LATE_SANKRANTIS.
+ */
+
+export interface PoyaDay {
+  date: string; // YYYY-MM-DD, Sri Lanka time
+  month: string; // e.g. 'Vesak', 'Adhi Esala'
+  name: string; // e.g. 'Vesak Full Moon Poya Day'
+  fullMoonAt: Date;
+  adhi: boolean;
+}
+
+const SRI_LANKA_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const GHATIKA_MS = 24 * 60 * 1000;
+const COLOMBO = { latitude: 6.9271, longitude: 79.8612 };
+
+// Lunar month names by the Sun's sidereal sign at the month's new moon (Mesha first)
+const MONTH_BY_SIGN = [
+  'Vesak',
+  'Poson',
+  'Esala',
+  'Nikini',
+  'Binara',
+  'Vap',
+  'Il',
+  'Unduvap',
+  'Duruthu',
+  'Navam',
+  'Medin',
+  'Bak',
+];
+
+// Sankrantis (Sri Lanka date) that the gazetted calendar counts after the new
+// moon following them, which moves the Adhi month back one lunation
+const ALMANAC_LATE_SANKRANTIS = new Set([
+  '2023-07-17', // Karka: Adhi Esala rather than Adhi Nikini
+]);
+
+// Main periodic terms of the Moon's longitude: D, M, M', F, coefficient (1e-6 degrees)
+const MOON_LONGITUDE_TERMS: [number, number, number, number, number][] = [
+  [0, 0, 1, 0, 6288774],
+  [2, 0, -1, 0, 1274027],
+  [2, 0, 0, 0, 658314],
+  [0, 0, 2, 0, 213618],
+  [0, 1, 0, 0, -185116],
+  [0, 0, 0, 2, -114332],
+  [2, 0, -2, 0, 58793],
+  [2, -1, -1, 0, 57066],
+  [2, 0, 1, 0, 53322],
+  [2, -1, 0, 0, 45758],
+  [0, 1, -1, 0, -40923],
+  [1, 0, 0, 0, -34720],
+  [0, 1, 1, 0, -30383],
+  [2, 0, 0, -2, 15327],
+  [0, 0, 1, 2, -12528],
+  [0, 0, 1, -2, 10980],
+  [4, 0, -1, 0, 10675],
+  [0, 0, 3, 0, 10034],
+  [4, 0, -2, 0, 8548],
+  [2, 1, -1, 0, -7888],
+  [2, 1, 0, 0, -6766],
+  [1, 0, -1, 0, -5163],
+  [1, 1, 0, 0, 4987],
+  [2, -1, 1, 0, 4036],
+  [2, 0, 2, 0, 3994],
+  [4, 0, 0, 0, 3861],
+  [2, 0, -3, 0, 3665],
+  [0, 1, -2, 0, -2689],
+  [2, 0, -1, 2, -2602],
+  [2, -1, -2, 0, 2390],
+  [1, 0, 1, 0, -2348],
+  [2, -2, 0, 0, 2236],
+  [0, 1, 2, 0, -2120],
+  [0, 2, 0, 0, -2069],
+];
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+const normalizeDegrees = (degrees: number): number => ((degrees % 360) + 360) % 360;
+
+/** Signed difference a - b, wrapped into [-180, 180) */
+const angleDifference = (a: number, b: number): number => normalizeDegrees(a - b + 180) - 180;
+
+/** Julian centuries since J2000.0 */
+const julianCenturies = (ms: number): number => (ms / DAY_MS + 2440587.5 - 2451545) / 36525;
+
+/**
+ * Geometric longitude of the Sun (degrees). Nutation and aberration are left
+ * out: they shift the Moon equally, and are far below a day's error for sign changes.
+ */
+const sunLongitude = (ms: number): number => {
+  const t = julianCenturies(ms);
+  const meanLongitude = 280.46646 + 36000.76983 * t;
+  const meanAnomaly = toRadians(357.52911 + 35999.05029 * t);
+  const center =
+    (1.914602 - 0.004817 * t) * Math.sin(meanAnomaly) +
+    (0.019993 - 0.000101 * t) * Math.sin(2 * meanAnomaly) +
+    0.000289 * Math.sin(3 * meanAnomaly);
+  return normalizeDegrees(meanLongitude + center);
+};
+
+/**
+ * Geometric longitude of the Moon (degrees)
+ */
+const moonLongitude = (ms: number): number => {
+  const t = julianCenturies(ms);
+  const meanLongitude = 218.3164477 + 481267.88123421 * t;
+  const elongation = 297.8501921 + 445267.1114034 * t;
+  const sunAnomaly = 357.5291092 + 35999.0502909 * t;
+  const moonAnomaly = 134.9633964 + 477198.8675055 * t;
+  const latitudeArgument = 93.272095 + 483202.0175233 * t;
+  const eccentricity = 1 - 0.002516 * t;
+
+  let sum = 0;
+  for (const [d, m, mp, f, coefficient] of MOON_LONGITUDE_TERMS) {
+    const argument = d * elongation + m * sunAnomaly + mp * moonAnomaly + f * latitudeArgument;
+    sum += coefficient * eccentricity ** Math.abs(m) * Math.sin(toRadians(argument));
+  }
+  sum +=
+    3958 * Math.sin(toRadians(119.75 + 131.849 * t)) +
+    1962 * Math.sin(toRadians(meanLongitude - latitudeArgument)) +
+    318 * Math.sin(toRadians(53.09 + 479264.29 * t));
+
+  return normalizeDegrees(meanLongitude + sum / 1e6);
+};
+
+const moonSunElongation = (ms: number): number =>
+  normalizeDegrees(moonLongitude(ms) - sunLongitude(ms));
+
+/** Lahiri ayanamsa, as used by Sri Lankan almanacs (degrees) */
+const siderealSunLongitude = (ms: number): number =>
+  normalizeDegrees(sunLongitude(ms) - (23.853 + 1.397 * julianCenturies(ms)));
+
+/**
+ * First instant at or after `fromMs` when `angle` reaches `target`, for an
+ * angle that keeps increasing at roughly `degreesPerDay`
+ */
+const findAngle = (
+  angle: (ms: number) => number,
+  target: number,
+  fromMs: number,
+  degreesPerDay: number
+): number => {
+  let ms = fromMs + (normalizeDegrees(target - angle(fromMs)) / degreesPerDay) * DAY_MS;
+  for (let i = 0; i < 8; i++) {
+    const step = (angleDifference(target, angle(ms)) / degreesPerDay) * DAY_MS;
+    ms += step;
+    if (Math.abs(step) < 1000) break;
+  }
+  return ms;
+};
+
+// Mean motion of the Moon relative to the Sun, and of the Sun
+const SYNODIC_DEGREES_PER_DAY = 360 / 29.530589;
+const SOLAR_DEGREES_PER_DAY = 360 / 365.2422;
+
+const findElongation = (target: number, fromMs: number): number =>
+  findAngle(moonSunElongation, target, fromMs, SYNODIC_DEGREES_PER_DAY);
+
+/**
+ * Sri Lanka calendar date (YYYY-MM-DD) of an instant
+ */
+export const toSriLankaDate = (date: Date | number): string =>
+  new Date(new Date(date).getTime() + SRI_LANKA_OFFSET_MS).toISOString().slice(0, 10);
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+export const addDays = (dateStr: string, days: number): string =>
+  new Date(Date.parse(`${dateStr}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Day of the week of a YYYY-MM-DD date (0 = Sunday)
+ */
+export const getWeekday = (dateStr: string): number => new Date(`${dateStr}T00:00:00Z`).getUTCDay();
+
+/**
+ * Sunset in Colombo on a Sri Lanka date (NOAA approximation, within a minute or two)
+ */
+const colomboSunset = (dateStr: string): number => {
+  const midnightUtc = Date.parse(`${dateStr}T00:00:00Z`);
+  const dayOfYear = (midnightUtc - Date.UTC(Number(dateStr.slice(0, 4)), 0, 1)) / DAY_MS;
+  const gamma = ((2 * Math.PI) / 365) * (dayOfYear + 0.5);
+
+  const equationOfTime =
+    229.18 *
+    (0.000075 +
+      0.001868 * Math.cos(gamma) -
+      0.032077 * Math.sin(gamma) -
+      0.014615 * Math.cos(2 * gamma) -
+      0.040849 * Math.sin(2 * gamma));
+  const declination =
+    0.006918 -
+    0.399912 * Math.cos(gamma) +
+    0.070257 * Math.sin(gamma) -
+    0.006758 * Math.cos(2 * gamma) +
+    0.000907 * Math.sin(2 * gamma);
+
+  const latitude = toRadians(COLOMBO.latitude);
+  const hourAngle = Math.acos(
+    Math.cos(toRadians(90.833)) / (Math.cos(latitude) * Math.cos(declination)) -
+      Math.tan(latitude) * Math.tan(declination)
+  );
+  const sunsetMinutesUtc =
+    720 - 4 * (COLOMBO.longitude - (hourAngle * 180) / Math.PI) - equationOfTime;
+
+  return midnightUtc + sunsetMinutesUtc * 60 * 1000;
+};
+
+/**
+ * Pick the civil date of a full moon's Poya
+ */
+const poyaDateFor = (fullMoonMs: number): string => {
+  const tithiStartMs = findElongation(168, fullMoonMs - 2 * DAY_MS);
+  const fullMoonDate = toSriLankaDate(fullMoonMs);
+
+  for (let date = toSriLankaDate(tithiStartMs); date <= fullMoonDate; date = addDays(date, 1)) {
+    const sunset = colomboSunset(date);
+    if (sunset >= tithiStartMs + GHATIKA_MS && sunset < fullMoonMs) {
+      return date;
+    }
+  }
+  return fullMoonDate;
+};
+
+/**
+ * Sidereal sign of the Sun at a new moon, as the almanac counts it
+ */
+const signAtNewMoon = (newMoonMs: number): number => {
+  const sign = Math.floor(siderealSunLongitude(newMoonMs) / 30);
+  const sankrantiMs = findAngle(
+    siderealSunLongitude,
+    sign * 30,
+    newMoonMs - 2 * DAY_MS,
+    SOLAR_DEGREES_PER_DAY
+  );
+  if (sankrantiMs <= newMoonMs && ALMANAC_LATE_SANKRANTIS.has(toSriLankaDate(sankrantiMs))) {
+    return (sign + 11) % 12;
+  }
+  return sign;
+};
+
+/**
+ * Name the lunar month a full moon belongs to
+ */
+const lunarMonthFor = (fullMoonMs: number): { month: string; adhi: boolean } => {
+  const monthStart = findElongation(0, fullMoonMs - 20 * DAY_MS);
+  const monthEnd = findElongation(0, fullMoonMs + DAY_MS);
+  const startSign = signAtNewMoon(monthStart);
+  const endSign = signAtNewMoon(monthEnd);
+  const adhi = startSign === endSign;
+  const month = MONTH_BY_SIGN[startSign];
+
+  return { month: adhi ? `Adhi ${month}` : month, adhi };
+};
+
+/**
+ * All Poya days whose civil date falls in a year, in date order
+ */
+export const getPoyaDays = (year: number): PoyaDay[] => {
+  const poyaDays: PoyaDay[] = [];
+  // A Poya can fall the day before its full moon, so start a little early
+  const yearStartMs = Date.UTC(year, 0, 1) - SRI_LANKA_OFFSET_MS;
+  const yearEndMs = Date.UTC(year + 1, 0, 1) - SRI_LANKA_OFFSET_MS;
+
+  for (
+    let fullMoonMs = findElongation(180, yearStartMs - 2 * DAY_MS);
+    fullMoonMs < yearEndMs + 2 * DAY_MS;
+    fullMoonMs = findElongation(180, fullMoonMs + DAY_MS)
+  ) {
+    const date = poyaDateFor(fullMoonMs);
+    if (Number(date.slice(0, 4)) !== year) continue;
+
+    const { month, adhi } = lunarMonthFor(fullMoonMs);
+    poyaDays.push({
+      date,
+      month,
+      name: `${month} Full Moon Poya Day`,
+      fullMoonAt: new Date(fullMoonMs),
+      adhi,
+    });
+  }
+
+  return poyaDays;
+};
+
+/**
+ * Sri Lanka date on which the Sun enters a sidereal sign (0 = Mesha, 9 = Makara)
+ */
+export const getSankrantiDate = (year: number, sign: number): string => {
+  const yearStartMs = Date.UTC(year, 0, 1) - SRI_LANKA_OFFSET_MS;
+  return toSriLankaDate(
+    findAngle(siderealSunLongitude, sign * 30, yearStartMs, SOLAR_DEGREES_PER_DAY)
+  );
+};
+
+/**
+ * Western Easter Sunday (anonymous Gregorian algorithm)
+ */
+export const getEasterSunday = (year: number): string => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
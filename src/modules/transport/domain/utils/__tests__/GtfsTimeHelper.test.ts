@@ -0,0 +1,81 @@
+import { GtfsTimeHelper } from '../GtfsTimeHelper';
+
+const COLOMBO = 'Asia/Colombo';
+
+describe('GtfsTimeHelper.parseTime', () => {
+  it.each([
+    ['08:15:30', 8 * 3600 + 15 * 60 + 30],
+    ['7:05:00', 7 * 3600 + 5 * 60],
+    ['06:45', 6 * 3600 + 45 * 60],
+    [' 25:10:00 ', 25 * 3600 + 10 * 60],
+  ])('parses %s', (value, seconds) => {
+    expect(GtfsTimeHelper.parseTime(value)).toBe(seconds);
+  });
+
+  it.each(['', '8', '08:5', '08:15:30:00', 'noon'])('rejects %p', (value) => {
+    expect(GtfsTimeHelper.parseTime(value)).toBeNull();
+  });
+});
+
+describe('GtfsTimeHelper.formatTime', () => {
+  it('formats seconds as HH:MM and wraps times past midnight', () => {
+    expect(GtfsTimeHelper.formatTime(7 * 3600 + 5 * 60 + 59)).toBe('07:05');
+    expect(GtfsTimeHelper.formatTime(25 * 3600 + 10 * 60)).toBe('01:10');
+  });
+});
+
+describe('GtfsTimeHelper.isValidDate', () => {
+  it.each([
+    ['20240229', true],
+    ['20230229', false],
+    ['20261301', false],
+    ['2026101', false],
+    ['2026-10-19', false],
+  ])('treats %s as valid: %p', (value, valid) => {
+    expect(GtfsTimeHelper.isValidDate(value)).toBe(valid);
+  });
+});
+
+describe('GtfsTimeHelper dates', () => {
+  it('shifts dates across month and year ends', () => {
+    expect(GtfsTimeHelper.addDays('20261231', 1)).toBe('20270101');
+    expect(GtfsTimeHelper.addDays('20240301', -1)).toBe('20240229');
+  });
+
+  it('gives the weekday of a date, Sunday first', () => {
+    expect(GtfsTimeHelper.getWeekday('20261018')).toBe(0);
+    expect(GtfsTimeHelper.getWeekday('20261019')).toBe(1);
+  });
+});
+
+describe('GtfsTimeHelper.getZonedClock', () => {
+  it('reads the service date, weekday and time in the feed timezone', () => {
+    // 20:00 UTC on Monday is 01:30 on Tuesday in Colombo
+    expect(GtfsTimeHelper.getZonedClock(new Date('2026-10-19T20:00:00Z'), COLOMBO)).toEqual({
+      serviceDate: '20261020',
+      weekday: 2,
+      secondsOfDay: 5400,
+    });
+  });
+});
+
+describe('GtfsTimeHelper.toInstant', () => {
+  it('converts a service time in the feed timezone to an instant', () => {
+    expect(GtfsTimeHelper.toInstant('20261019', 8 * 3600, COLOMBO)).toEqual(
+      new Date('2026-10-19T02:30:00Z')
+    );
+  });
+
+  it('puts times past 24:00 on the next calendar day', () => {
+    expect(GtfsTimeHelper.toInstant('20261019', 25 * 3600, COLOMBO)).toEqual(
+      new Date('2026-10-19T19:30:00Z')
+    );
+  });
+
+  it('uses the offset in force at noon on daylight saving change days', () => {
+    // Clocks in London go forward at 01:00 UTC on 29 March 2026
+    expect(GtfsTimeHelper.toInstant('20260329', 12 * 3600, 'Europe/London')).toEqual(
+      new Date('2026-03-29T11:00:00Z')
+    );
+  });
+});
@@ -0,0 +1,40 @@
+import { BASE_LIFETIME_HOURS, calculateExpiry, calculateLifetimeMs } from '../IncidentLifecycle';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('calculateLifetimeMs', () => {
+  it.each([
+    ['low', 6],
+    ['medium', 12],
+    ['high', 24],
+    ['critical', 48],
+  ] as const)('gives a single %s report its base lifetime of %i hours', (severity, hours) => {
+    expect(calculateLifetimeMs(severity, 1)).toBe(hours * HOUR_MS);
+  });
+
+  it('adds half the base lifetime for each confirmation after the first', () => {
+    expect(calculateLifetimeMs('high', 2)).toBe(36 * HOUR_MS);
+    expect(calculateLifetimeMs('high', 3)).toBe(48 * HOUR_MS);
+  });
+
+  it('caps the lifetime at four times the base', () => {
+    expect(calculateLifetimeMs('medium', 7)).toBe(48 * HOUR_MS);
+    expect(calculateLifetimeMs('medium', 50)).toBe(48 * HOUR_MS);
+  });
+
+  it('treats zero confirmations like one', () => {
+    expect(calculateLifetimeMs('low', 0)).toBe(BASE_LIFETIME_HOURS.low * HOUR_MS);
+  });
+
+  it('falls back to the medium lifetime for an unknown severity', () => {
+    expect(calculateLifetimeMs('unknown' as 'low', 1)).toBe(12 * HOUR_MS);
+  });
+});
+
+describe('calculateExpiry', () => {
+  it('counts from the given time', () => {
+    const from = new Date('2026-10-19T06:00:00Z');
+
+    expect(calculateExpiry('critical', 2, from)).toEqual(new Date('2026-10-22T06:00:00Z'));
+  });
+});
@@ -0,0 +1,184 @@
+import {
+  decodePolyline,
+  distanceBetweenPathsKm,
+  distanceToPathKm,
+  getPathBounds,
+  haversineKm,
+  LatLng,
+  locateOnPath,
+  pathLengthKm,
+  samplePath,
+  thinPath,
+} from '../Polyline';
+
+// Example from Google's encoded polyline algorithm documentation
+const ENCODED = '_p~iF~ps|U_ulLnnqC_mqNvxq`@';
+const DECODED: LatLng[] = [
+  { latitude: 38.5, longitude: -120.2 },
+  { latitude: 40.7, longitude: -120.95 },
+  { latitude: 43.252, longitude: -126.453 },
+];
+
+// A straight road along the equator, about 22 km long
+const EQUATOR_ROAD: LatLng[] = [
+  { latitude: 0, longitude: 0 },
+  { latitude: 0, longitude: 0.1 },
+  { latitude: 0, longitude: 0.2 },
+];
+
+const KM_PER_DEGREE = 111.195;
+
+describe('decodePolyline', () => {
+  it('decodes a Google encoded polyline', () => {
+    const points = decodePolyline(ENCODED);
+
+    expect(points).toHaveLength(DECODED.length);
+    points.forEach((point, i) => {
+      expect(point.latitude).toBeCloseTo(DECODED[i].latitude, 5);
+      expect(point.longitude).toBeCloseTo(DECODED[i].longitude, 5);
+    });
+  });
+
+  it('keeps the complete points of a truncated polyline', () => {
+    // Cut after the second latitude, and part way through a value
+    expect(decodePolyline(ENCODED.slice(0, 14))).toHaveLength(1);
+    expect(decodePolyline(ENCODED.slice(0, 12))).toHaveLength(1);
+    expect(decodePolyline('')).toEqual([]);
+  });
+});
+
+describe('haversineKm and pathLengthKm', () => {
+  it('measures a degree of latitude as about 111 km', () => {
+    expect(haversineKm({ latitude: 6, longitude: 80 }, { latitude: 7, longitude: 80 })).toBeCloseTo(
+      KM_PER_DEGREE,
+      1
+    );
+  });
+
+  it('adds up the segments of a path', () => {
+    expect(pathLengthKm(EQUATOR_ROAD)).toBeCloseTo(0.2 * KM_PER_DEGREE, 2);
+    expect(pathLengthKm([EQUATOR_ROAD[0]])).toBe(0);
+  });
+});
+
+describe('distanceToPathKm', () => {
+  it('measures to the closest segment, not the closest vertex', () => {
+    const point = { latitude: 0.01, longitude: 0.05 };
+
+    expect(distanceToPathKm(point, EQUATOR_ROAD)).toBeCloseTo(0.01 * 111.32, 2);
+  });
+
+  it('treats a one-point path as a point and an empty path as infinitely far', () => {
+    const point = { latitude: 0.01, longitude: 0 };
+
+    expect(distanceToPathKm(point, [EQUATOR_ROAD[0]])).toBeCloseTo(0.01 * KM_PER_DEGREE, 2);
+    expect(distanceToPathKm(point, [])).toBe(Infinity);
+  });
+});
+
+describe('locateOnPath', () => {
+  it('reports the distance from the path and how far along it the point lies', () => {
+    const location = locateOnPath({ latitude: -0.01, longitude: 0.15 }, EQUATOR_ROAD);
+
+    expect(location.distanceKm).toBeCloseTo(0.01 * 111.32, 2);
+    expect(location.distanceAlongKm).toBeCloseTo(0.15 * KM_PER_DEGREE, 1);
+  });
+
+  it('clamps points beyond either end to the start or the full length', () => {
+    const before = locateOnPath({ latitude: 0, longitude: -0.05 }, EQUATOR_ROAD);
+    const after = locateOnPath({ latitude: 0, longitude: 0.3 }, EQUATOR_ROAD);
+
+    expect(before.distanceAlongKm).toBe(0);
+    expect(before.distanceKm).toBeCloseTo(0.05 * KM_PER_DEGREE, 1);
+    expect(after.distanceAlongKm).toBeCloseTo(pathLengthKm(EQUATOR_ROAD), 6);
+  });
+
+  it('handles paths with fewer than two points', () => {
+    expect(locateOnPath(EQUATOR_ROAD[1], [])).toEqual({ distanceKm: Infinity, distanceAlongKm: 0 });
+    expect(locateOnPath(EQUATOR_ROAD[1], [EQUATOR_ROAD[1]])).toEqual({
+      distanceKm: 0,
+      distanceAlongKm: 0,
+    });
+  });
+});
+
+describe('samplePath', () => {
+  it('spaces samples evenly across vertices and ends on the last point', () => {
+    const bent: LatLng[] = [
+      { latitude: 0, longitude: 0 },
+      { latitude: 0, longitude: 0.03 },
+      { latitude: 0, longitude: 0.2 },
+    ];
+    const samples = samplePath(bent, 5);
+
+    expect(samples[0]).toEqual(bent[0]);
+    expect(samples[samples.length - 1]).toEqual(bent[2]);
+    // 22.2 km: samples at 0, 5, 10, 15 and 20 km, then the end
+    expect(samples).toHaveLength(6);
+    for (let i = 1; i < samples.length - 1; i++) {
+      expect(haversineKm(samples[i - 1], samples[i])).toBeCloseTo(5, 2);
+    }
+  });
+
+  it('does not repeat the last point when a sample lands on it', () => {
+    const samples = samplePath(EQUATOR_ROAD, pathLengthKm(EQUATOR_ROAD) / 2);
+
+    expect(samples).toHaveLength(3);
+  });
+
+  it('returns the path unchanged for short paths or no spacing', () => {
+    expect(samplePath([EQUATOR_ROAD[0]], 1)).toEqual([EQUATOR_ROAD[0]]);
+    expect(samplePath(EQUATOR_ROAD, 0)).toEqual(EQUATOR_ROAD);
+    expect(samplePath(EQUATOR_ROAD, 100)).toEqual([EQUATOR_ROAD[0], EQUATOR_ROAD[2]]);
+  });
+});
+
+describe('distanceBetweenPathsKm', () => {
+  it('is zero where the paths cross', () => {
+    const crossing: LatLng[] = [
+      { latitude: -0.05, longitude: 0.15 },
+      { latitude: 0.05, longitude: 0.15 },
+    ];
+
+    expect(distanceBetweenPathsKm(EQUATOR_ROAD, crossing)).toBe(0);
+  });
+
+  it('is the closest approach between paths that do not cross', () => {
+    const parallel = EQUATOR_ROAD.map((point) => ({ ...point, latitude: 0.02 }));
+    const beyondTheEnd: LatLng[] = [
+      { latitude: 0.05, longitude: 0.25 },
+      { latitude: -0.05, longitude: 0.25 },
+    ];
+
+    expect(distanceBetweenPathsKm(EQUATOR_ROAD, parallel)).toBeCloseTo(0.02 * 111.32, 2);
+    expect(distanceBetweenPathsKm(EQUATOR_ROAD, beyondTheEnd)).toBeCloseTo(0.05 * 111.32, 2);
+  });
+});
+
+describe('getPathBounds', () => {
+  it('grows the bounding box by the margin on every side', () => {
+    const bounds = getPathBounds(EQUATOR_ROAD, 1.1132)!;
+
+    expect(bounds.min_lat).toBeCloseTo(-0.01, 6);
+    expect(bounds.max_lat).toBeCloseTo(0.01, 6);
+    expect(bounds.min_lng).toBeCloseTo(-0.01, 6);
+    expect(bounds.max_lng).toBeCloseTo(0.21, 6);
+    expect(getPathBounds([])).toBeNull();
+  });
+});
+
+describe('thinPath', () => {
+  const path: LatLng[] = Array.from({ length: 101 }, (_, i) => ({
+    latitude: 0,
+    longitude: i / 1000,
+  }));
+
+  it('keeps evenly spaced points including the first and last', () => {
+    expect(thinPath(path, 5)).toEqual([0, 25, 50, 75, 100].map((i) => path[i]));
+  });
+
+  it('leaves paths that are already small enough alone', () => {
+    expect(thinPath(path, 101)).toBe(path);
+    expect(thinPath(path, 1)).toBe(path);
+  });
+});
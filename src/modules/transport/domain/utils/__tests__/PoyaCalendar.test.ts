@@ -0,0 +1,124 @@
+import { getPoyaDays, getSankrantiDate, getEasterSunday } from '../PoyaCalendar';
+
+// Poya days as gazetted by the Sri Lankan government
+const OFFICIAL_POYA_DAYS: Record<number, [string, string][]> = {
+  2015: [
+    ['2015-06-02', 'Poson'],
+    ['2015-07-01', 'Adhi Esala'],
+    ['2015-07-31', 'Esala'],
+    ['2015-08-29', 'Nikini'],
+  ],
+  2018: [
+    ['2018-04-29', 'Vesak'],
+    ['2018-05-29', 'Adhi Poson'],
+    ['2018-06-27', 'Poson'],
+    ['2018-07-27', 'Esala'],
+  ],
+  2023: [
+    ['2023-01-06', 'Duruthu'],
+    ['2023-02-05', 'Navam'],
+    ['2023-03-06', 'Medin'],
+    ['2023-04-05', 'Bak'],
+    ['2023-05-05', 'Vesak'],
+    ['2023-06-03', 'Poson'],
+    ['2023-07-03', 'Adhi Esala'],
+    ['2023-08-01', 'Esala'],
+    ['2023-08-30', 'Nikini'],
+    ['2023-09-29', 'Binara'],
+    ['2023-10-28', 'Vap'],
+    ['2023-11-26', 'Il'],
+    ['2023-12-26', 'Unduvap'],
+  ],
+  2024: [
+    ['2024-01-25', 'Duruthu'],
+    ['2024-02-23', 'Navam'],
+    ['2024-03-24', 'Medin'],
+    ['2024-04-23', 'Bak'],
+    ['2024-05-23', 'Vesak'],
+    ['2024-06-21', 'Poson'],
+    ['2024-07-20', 'Esala'],
+    ['2024-08-19', 'Nikini'],
+    ['2024-09-17', 'Binara'],
+    ['2024-10-17', 'Vap'],
+    ['2024-11-15', 'Il'],
+    ['2024-12-14', 'Unduvap'],
+  ],
+  2025: [
+    ['2025-01-13', 'Duruthu'],
+    ['2025-02-12', 'Navam'],
+    ['2025-03-13', 'Medin'],
+    ['2025-04-12', 'Bak'],
+    ['2025-05-12', 'Vesak'],
+    ['2025-06-10', 'Poson'],
+    ['2025-07-10', 'Esala'],
+    ['2025-08-08', 'Nikini'],
+    ['2025-09-07', 'Binara'],
+    ['2025-10-06', 'Vap'],
+    ['2025-11-05', 'Il'],
+    ['2025-12-04', 'Unduvap'],
+  ],
+  2026: [
+    ['2026-01-03', 'Duruthu'],
+    ['2026-02-01', 'Navam'],
+    ['2026-03-02', 'Medin'],
+    ['2026-04-01', 'Bak'],
+    ['2026-05-01', 'Vesak'],
+    ['2026-05-30', 'Adhi Poson'],
+    ['2026-06-29', 'Poson'],
+    ['2026-07-29', 'Esala'],
+    ['2026-08-27', 'Nikini'],
+    ['2026-09-26', 'Binara'],
+    ['2026-10-25', 'Vap'],
+    ['2026-11-24', 'Il'],
+    ['2026-12-23', 'Unduvap'],
+  ],
+};
+
+describe('getPoyaDays', () => {
+  it.each(Object.keys(OFFICIAL_POYA_DAYS).map(Number))('matches the %i gazette', (year) => {
+    const computed = getPoyaDays(year).map((poya) => [poya.date, poya.month]);
+    for (const official of OFFICIAL_POYA_DAYS[year]) {
+      expect(computed).toContainEqual(official);
+    }
+  });
+
+  it('returns every Poya of a full year in date order', () => {
+    const poyaDays = getPoyaDays(2023);
+    const dates = poyaDays.map((poya) => poya.date);
+
+    expect(dates).toEqual([...dates].sort());
+    expect(poyaDays).toHaveLength(OFFICIAL_POYA_DAYS[2023].length);
+  });
+
+  it('flags Adhi months and names the holiday after the month', () => {
+    const adhi = getPoyaDays(2023).filter((poya) => poya.adhi);
+
+    expect(adhi).toHaveLength(1);
+    expect(adhi[0].name).toBe('Adhi Esala Full Moon Poya Day');
+  });
+
+  it('has no Adhi month in an ordinary year', () => {
+    expect(getPoyaDays(2024).some((poya) => poya.adhi)).toBe(false);
+  });
+});
+
+describe('getSankrantiDate', () => {
+  it('puts Mesha sankranti on the Sinhala and Tamil New Year', () => {
+    expect(getSankrantiDate(2024, 0)).toBe('2024-04-13');
+    expect(getSankrantiDate(2025, 0)).toBe('2025-04-14');
+  });
+
+  it('puts Makara sankranti on Thai Pongal', () => {
+    expect(getSankrantiDate(2025, 9)).toBe('2025-01-14');
+  });
+});
+
+describe('getEasterSunday', () => {
+  it.each([
+    [2024, '2024-03-31'],
+    [2025, '2025-04-20'],
+    [2026, '2026-04-05'],
+  ])('computes Easter %i', (year, expected) => {
+    expect(getEasterSunday(year)).toBe(expected);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Incident Lifecycle Worker
+ *
+ * Archives road incidents once their expiry passes, keeping them for history,
+ * statistics and model training instead of letting a TTL index delete them.
+ * Expiry is set from severity when an incident is reported and pushed back
+ * each time another user confirms it (see utils/IncidentLifecycle).
+ */
+
+import { IncidentService } from '../services/IncidentService';
+import { logger } from '../../../../shared/config/logger';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+interface IncidentLifecycleConfig {
+  enabled: boolean;
+  checkIntervalMs: number; // How often expired incidents are archived
+}
+
+const DEFAULT_CONFIG: IncidentLifecycleConfig = {
+  enabled: true,
+  checkIntervalMs: 15 * 60 * 1000, // Every 15 minutes
+};
+
+// ============================================================================
+// INCIDENT LIFECYCLE WORKER CLASS
+// ============================================================================
+
+export class IncidentLifecycleWorker {
+  private config: IncidentLifecycleConfig;
+  private isRunning: boolean = false;
+  private isProcessing: boolean = false;
+  private intervalId: NodeJS.Timeout | null = null;
+  private incidentService: IncidentService;
+
+  constructor(config: Partial<IncidentLifecycleConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.incidentService = new IncidentService();
+  }
+
+  /**
+   * Start archiving expired incidents on a schedule
+   */
+  start(): void {
+    if (this.isRunning) {
+      logger.warn('IncidentLifecycleWorker is already running');
+      return;
+    }
+
+    if (!this.config.enabled) {
+      logger.info('IncidentLifecycleWorker is disabled by configuration');
+      return;
+    }
+
+    this.isRunning = true;
+    logger.info('IncidentLifecycleWorker started', {
+      checkInterval: this.config.checkIntervalMs,
+    });
+
+    // Run immediately on start, then periodically
+    this.runCycle();
+    this.intervalId = setInterval(() => {
+      this.runCycle();
+    }, this.config.checkIntervalMs);
+  }
+
+  /**
+   * Stop the worker
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.isRunning = false;
+    logger.info('IncidentLifecycleWorker stopped');
+  }
+
+  /**
+   * Archive everything that has expired since the last cycle
+   */
+  async runCycle(): Promise<void> {
+    if (this.isProcessing) {
+      logger.debug('IncidentLifecycleWorker cycle skipped - previous cycle still running');
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      const archived = await this.incidentService.archiveExpiredIncidents();
+      if (archived > 0) {
+        logger.info(`IncidentLifecycleWorker: Archived ${archived} expired incidents`);
+      }
+    } catch (error) {
+      logger.error('IncidentLifecycleWorker: Cycle failed', {
+        error: (error as Error).message,
+      });
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
+
+let incidentLifecycleWorkerInstance: IncidentLifecycleWorker | null = null;
+
+/**
+ * Get or create the Incident Lifecycle Worker instance
+ */
+export function getIncidentLifecycleWorker(
+  config?: Partial<IncidentLifecycleConfig>
+): IncidentLifecycleWorker {
+  if (!incidentLifecycleWorkerInstance) {
+    incidentLifecycleWorkerInstance = new IncidentLifecycleWorker(config);
+  }
+  return incidentLifecycleWorkerInstance;
+}
+
+/**
+ * Start the Incident Lifecycle Worker
+ */
+export function startIncidentLifecycleWorker(
+  config?: Partial<IncidentLifecycleConfig>
+): IncidentLifecycleWorker {
+  const worker = getIncidentLifecycleWorker(config);
+  worker.start();
+  return worker;
+}
+
+/**
+ * Stop the Incident Lifecycle Worker
+ */
+export function stopIncidentLifecycleWorker(): void {
+  if (incidentLifecycleWorkerInstance) {
+    incidentLifecycleWorkerInstance.stop();
+  }
+}
+
+export default IncidentLifecycleWorker;
@@ -6,10 +6,14 @@
 // Export routes
 export { chatbotRoutes } from './api/routes/chatbotRoutes';
 export { incidentRoutes } from './api/routes/incidentRoutes';
+export { timetableRoutes } from './api/routes/timetableRoutes';
+export { holidayRoutes } from './api/routes/holidayRoutes';
 
 // Export controllers
 export { TransportChatbotController } from './api/controllers/TransportChatbotController';
 export { IncidentController } from './api/controllers/IncidentController';
+export { TimetableController } from './api/controllers/TimetableController';
+export { HolidayController } from './api/controllers/HolidayController';
 
 // Export services
 export { TransportChatbotService } from './domain/services/TransportChatbotService';
@@ -23,12 +27,17 @@ export { RouteContextBuilder } from './domain/services/RouteContextBuilder';
 export { TrafficService } from './domain/services/TrafficService';
 export { WeatherService } from './domain/services/WeatherService';
 export { IncidentService } from './domain/services/IncidentService';
+export { RouteAlertService } from './domain/services/RouteAlertService';
+export { TimetableService } from './domain/services/TimetableService';
+export { GtfsImportService } from './domain/services/GtfsImportService';
 
 // Export utils
 export { HolidayService } from './domain/utils/HolidayService';
+export { getPoyaDays, PoyaDay } from './domain/utils/PoyaCalendar';
 export { MLFeatureExtractor } from './domain/utils/MLFeatureExtractor';
 export { RouteAvailabilityHelper } from './domain/utils/RouteAvailabilityHelper';
 export { MLPredictionFilter } from './domain/utils/MLPredictionFilter';
+export { GtfsTimeHelper } from './domain/utils/GtfsTimeHelper';
 
 // Export models
 export { City, ICity } from './domain/models/City';
@@ -44,6 +53,19 @@ export {
   IAffectedRoute,
   ILocation as IIncidentLocation,
 } from './domain/models/RoadIncident';
+export { RouteWatch, IRouteWatch } from './domain/models/RouteWatch';
+export { RouteAlert, IRouteAlert } from './domain/models/RouteAlert';
+export { TimetableFeed, ITimetableFeed } from './domain/models/TimetableFeed';
+export { TimetableStop, ITimetableStop } from './domain/models/TimetableStop';
+export { TimetableTrip, ITimetableTrip } from './domain/models/TimetableTrip';
+export { TimetableStopTime, ITimetableStopTime } from './domain/models/TimetableStopTime';
+export {
+  ServiceCalendar,
+  ServiceCalendarException,
+  IServiceCalendar,
+  IServiceCalendarException,
+} from './domain/models/ServiceCalendar';
+export { HolidayOverride, IHolidayOverride } from './domain/models/HolidayOverride';
 
 // Export repositories
 export { CityRepository } from './domain/repositories/CityRepository';
@@ -52,3 +74,13 @@ export { MessageRepository } from './domain/repositories/MessageRepository';
 export { TransportRouteRepository } from './domain/repositories/TransportRouteRepository';
 export { TransportStationRepository } from './domain/repositories/TransportStationRepository';
 export { IncidentRepository } from './domain/repositories/IncidentRepository';
+export { TimetableRepository } from './domain/repositories/TimetableRepository';
+export { RouteAlertRepository } from './domain/repositories/RouteAlertRepository';
+export { HolidayOverrideRepository } from './domain/repositories/HolidayOverrideRepository';
+
+// Export workers
+export {
+  IncidentLifecycleWorker,
+  startIncidentLifecycleWorker,
+  stopIncidentLifecycleWorker,
+} from './domain/workers/incidentLifecycleWorker';
@@ -1,18 +1,60 @@
 import { Request, Response } from 'express';
 import UserHealthProfile from '../../domain/models/HealthProfile';
+import { MediaService } from '../../../media/domain/services/MediaService';
+import { AuthRequest } from '../../../../shared/middleware/auth';
+import { AppError } from '../../../../shared/middleware/errorHandler';
+
+const mediaService = new MediaService();
+
+// Skin images must be the signed-in user's own uploads, attached to their own
+// profile; an unchanged URL is kept as is. Attach it once the profile is saved.
+const checkProfileImage = async (
+  req: AuthRequest,
+  profileUserId: string,
+  imageUrl: string,
+  currentUrl?: string
+): Promise<string> => {
+  if (!imageUrl || imageUrl === currentUrl) {
+    return imageUrl;
+  }
+  const callerId = req.user?.userId;
+  if (!callerId) {
+    throw new AppError('Sign in to attach a profile image', 401);
+  }
+  if (callerId !== profileUserId) {
+    throw new AppError('You can only attach images to your own health profile', 403);
+  }
+  const [checked] = await mediaService.checkUrls([imageUrl], callerId, 'health_profile', 'image');
+  return checked;
+};
+
+const attachProfileImage = async (imageUrl?: string): Promise<void> => {
+  if (imageUrl) {
+    await mediaService.attachUrls([imageUrl]);
+  }
+};
 
 // CREATE or UPDATE health profile (upsert)
 export const createHealthProfile = async (req: Request, res: Response) => {
   try {
     const { userId, ...profileData } = req.body;
+    const existing = await UserHealthProfile.findOne({ userId });
+    profileData.imageUrl = await checkProfileImage(
+      req,
+      String(userId),
+      profileData.imageUrl,
+      existing?.imageUrl
+    );
+
     const profile = await UserHealthProfile.findOneAndUpdate(
       { userId },
       { userId, ...profileData },
       { upsert: true, new: true, runValidators: true }
     );
+    await attachProfileImage(profile?.imageUrl);
     return res.status(201).json(profile);
   } catch (error: any) {
-    return res.status(400).json({ message: error.message });
+    return res.status(error.statusCode || 400).json({ message: error.message });
   }
 };
 
@@ -38,15 +80,23 @@ export const updateHealthProfile = async (req: Request, res: Response) => {
   try {
     const { userId } = req.params;
 
-    const profile = await UserHealthProfile.findOneAndUpdate({ userId }, req.body, { new: true });
+    const existing = await UserHealthProfile.findOne({ userId });
 
-    if (!profile) {
+    if (!existing) {
       return res.status(404).json({ message: 'Health profile not found' });
     }
 
+    const update = { ...req.body };
+    if (update.imageUrl !== undefined) {
+      update.imageUrl = await checkProfileImage(req, userId, update.imageUrl, existing.imageUrl);
+    }
+
+    const profile = await UserHealthProfile.findOneAndUpdate({ userId }, update, { new: true });
+    await attachProfileImage(profile?.imageUrl);
+
     return res.status(200).json(profile);
   } catch (error: any) {
-    return res.status(400).json({ message: error.message });
+    return res.status(error.statusCode || 400).json({ message: error.message });
   }
 };
 
@@ -71,13 +121,14 @@ export const updateSkinTypeWithHistory = async (req: Request, res: Response) =>
 
     // update current values
     profile.skinType = skinType;
-    profile.imageUrl = imageUrl;
+    profile.imageUrl = await checkProfileImage(req, userId, imageUrl, profile.imageUrl);
 
     await profile.save();
+    await attachProfileImage(profile.imageUrl);
 
     return res.status(200).json(profile);
   } catch (error: any) {
-    return res.status(400).json({ message: error.message });
+    return res.status(error.statusCode || 400).json({ message: error.message });
   }
 };
 
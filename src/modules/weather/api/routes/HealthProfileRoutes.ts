@@ -6,9 +6,13 @@ import {
   updateSkinTypeWithHistory,
   deleteHealthProfile,
 } from '../controllers/HealthProfileController';
+import { optionalAuth } from '../../../../shared/middleware/auth';
 
 const router = express.Router();
 
+// Profiles stay readable without a session; attaching an image needs one
+router.use(optionalAuth);
+
 // CREATE
 router.post('/', createHealthProfile);
 
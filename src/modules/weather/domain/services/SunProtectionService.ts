@@ -3,14 +3,10 @@
 import axios from 'axios';
 import UserHealthProfile from '../models/HealthProfile';
 import { logger } from '../../../../shared/config/logger';
+import { getCache } from '../../../../shared/libraries/cache';
 
-interface WeatherCache {
-  data: any;
-  timestamp: number;
-}
-
-const weatherCache = new Map<string, WeatherCache>();
-const CACHE_TTL = 5 * 60 * 1000; // 5 minutes in milliseconds
+// Cached for 5 minutes; nearby users share one Google Weather request
+const weatherCache = getCache('sun_weather', 5 * 60 * 1000);
 
 export class SunProtectionService {
   private static getCacheKey(lat: number, lon: number): string {
@@ -19,15 +15,12 @@ export class SunProtectionService {
   }
 
   private static async getGoogleWeather(lat: number, lon: number): Promise<any> {
-    const cacheKey = this.getCacheKey(lat, lon);
-    const cached = weatherCache.get(cacheKey);
-    const now = Date.now();
-
-    if (cached && now - cached.timestamp < CACHE_TTL) {
-      logger.info(`Using cached weather data for ${cacheKey}`);
-      return cached.data;
-    }
+    return weatherCache.getOrSet(this.getCacheKey(lat, lon), () =>
+      this.fetchGoogleWeather(lat, lon)
+    );
+  }
 
+  private static async fetchGoogleWeather(lat: number, lon: number): Promise<any> {
     const apiKey = process.env.GOOGLE_MAPS_API_KEY;
     if (!apiKey) {
       throw new Error('Google Maps API key not configured');
@@ -37,14 +30,7 @@ export class SunProtectionService {
 
     logger.info(`Fetching fresh weather data from Google for lat=${lat}, lon=${lon}`);
     const response = await axios.get(url);
-    const data = response.data;
-
-    weatherCache.set(cacheKey, {
-      data,
-      timestamp: now,
-    });
-
-    return data;
+    return response.data;
   }
 
   private static mapCloudCover(cloudCoverPercentage: number): string {
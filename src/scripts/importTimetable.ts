@@ -0,0 +1,101 @@
+/**
+ * Import a GTFS timetable feed
+ *
+ * Usage:
+ *   npm run timetable:import -- <feed.zip | gtfs-directory> --feed-id <id> --name <name>
+ *     [--operator <operator>] [--timezone <IANA zone>] [--mode bus|train]
+ *
+ * A directory may hold the GTFS files as .txt or .csv (agency, stops, routes,
+ * trips, stop_times, calendar, calendar_dates). Re-running with the same
+ * feed ID replaces that feed's data.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { connectDatabase, disconnectDatabase } from '../shared/config/database';
+import { logger } from '../shared/config/logger';
+import {
+  GtfsImportService,
+  GtfsSource,
+} from '../modules/transport/domain/services/GtfsImportService';
+
+const parseArgs = (argv: string[]): { source?: string; options: Record<string, string> } => {
+  const options: Record<string, string> = {};
+  let source: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith('--')) {
+      options[arg.slice(2)] = argv[i + 1];
+      i++;
+    } else if (!source) {
+      source = arg;
+    }
+  }
+
+  return { source, options };
+};
+
+const loadSource = (sourcePath: string): GtfsSource => {
+  const resolved = path.resolve(sourcePath);
+
+  if (fs.statSync(resolved).isDirectory()) {
+    const files: Record<string, string> = {};
+    for (const fileName of fs.readdirSync(resolved)) {
+      if (/\.(txt|csv)$/i.test(fileName)) {
+        files[fileName] = fs.readFileSync(path.join(resolved, fileName), 'utf-8');
+      }
+    }
+    return { format: 'csv', files, sourceName: path.basename(resolved) };
+  }
+
+  return { format: 'zip', buffer: fs.readFileSync(resolved), sourceName: path.basename(resolved) };
+};
+
+const importTimetable = async () => {
+  const { source, options } = parseArgs(process.argv.slice(2));
+
+  if (!source || !options['feed-id'] || !options.name) {
+    logger.error(
+      'Usage: npm run timetable:import -- <feed.zip | directory> --feed-id <id> --name <name> [--operator <operator>] [--timezone <zone>] [--mode bus|train]'
+    );
+    process.exit(1);
+  }
+
+  if (options.mode && options.mode !== 'bus' && options.mode !== 'train') {
+    logger.error('--mode must be bus or train');
+    process.exit(1);
+  }
+
+  try {
+    await connectDatabase();
+
+    const feed = await new GtfsImportService().importFeed(loadSource(source), {
+      feedId: options['feed-id'],
+      name: options.name,
+      operator: options.operator,
+      timezone: options.timezone,
+      defaultMode: options.mode as 'bus' | 'train' | undefined,
+      importedBy: 'cli',
+    });
+
+    logger.info('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    logger.info(`✅ Feed "${feed.feed_id}" imported (${feed.valid_from} - ${feed.valid_to})`);
+    logger.info(`  Stops: ${feed.counts.stops} (${feed.unmatched_stops} not linked to a city)`);
+    logger.info(`  Routes: ${feed.counts.routes}, Trips: ${feed.counts.trips}`);
+    logger.info(`  Stop times: ${feed.counts.stop_times}`);
+    logger.info(
+      `  Calendars: ${feed.counts.calendars}, Exceptions: ${feed.counts.calendar_exceptions}`
+    );
+    feed.warnings.forEach((warning) => logger.warn(`  ⚠ ${warning}`));
+    logger.info('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+    await disconnectDatabase();
+    process.exit(0);
+  } catch (error) {
+    logger.error('❌ Timetable import failed:', error);
+    await disconnectDatabase();
+    process.exit(1);
+  }
+};
+
+importTimetable();
@@ -0,0 +1,41 @@
+/**
+ * Backfill GeoJSON points on existing road incidents
+ *
+ * Usage:
+ *   npm run migrate:incident-geo -- [--dry-run]
+ *
+ * Route corridor matching finds incidents through a 2dsphere index on
+ * `geo_location`. Incidents reported before that field existed only have
+ * `location.latitude` / `location.longitude`, so they get a point built from
+ * those coordinates. Safe to re-run.
+ */
+import { connectDatabase, disconnectDatabase } from '../shared/config/database';
+import { logger } from '../shared/config/logger';
+import { RoadIncident } from '../modules/transport/domain/models/RoadIncident';
+import { IncidentRepository } from '../modules/transport/domain/repositories/IncidentRepository';
+
+const migrateIncidentGeo = async () => {
+  const dryRun = process.argv.includes('--dry-run');
+
+  try {
+    await connectDatabase();
+
+    if (dryRun) {
+      const count = await RoadIncident.countDocuments({ geo_location: { $exists: false } });
+      logger.info(`[dry-run] ${count} road incidents need a GeoJSON point`);
+    } else {
+      const updated = await new IncidentRepository().backfillGeoLocations();
+      await RoadIncident.createIndexes();
+      logger.info(`Added GeoJSON points to ${updated} road incidents`);
+    }
+
+    await disconnectDatabase();
+    process.exit(0);
+  } catch (error) {
+    logger.error('Road incident GeoJSON migration failed:', error);
+    await disconnectDatabase();
+    process.exit(1);
+  }
+};
+
+migrateIncidentGeo();
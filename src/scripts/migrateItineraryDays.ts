@@ -0,0 +1,100 @@
+/**
+ * Backfill day numbers and dates on existing trip itineraries
+ *
+ * Usage:
+ *   npm run migrate:itinerary-days -- [--dry-run]
+ *
+ * Trips accepted before itinerary items carried a day were saved as one flat
+ * list. Every item without a `dayNumber` is put on day 1, and items without a
+ * `date` get the date of their day counted from the trip start date. Saved
+ * trips also get empty accommodation and restaurant lists. Monitored trip
+ * plans are migrated the same way. Safe to re-run.
+ */
+import { Collection } from 'mongoose';
+import { connectDatabase, disconnectDatabase } from '../shared/config/database';
+import { logger } from '../shared/config/logger';
+import { SavedTrip } from '../modules/tour-agent/domain/models/SavedTrip';
+import { TripPlan } from '../modules/tour-agent/domain/models/TripPlan';
+
+const NEEDS_MIGRATION = {
+  itinerary: {
+    $elemMatch: { $or: [{ dayNumber: { $exists: false } }, { date: { $exists: false } }] },
+  },
+};
+
+const dayNumber = { $ifNull: ['$$item.dayNumber', 1] };
+
+const backfillItinerary = {
+  itinerary: {
+    $map: {
+      input: '$itinerary',
+      as: 'item',
+      in: {
+        $mergeObjects: [
+          '$$item',
+          {
+            dayNumber,
+            date: {
+              $ifNull: [
+                '$$item.date',
+                {
+                  $dateAdd: {
+                    startDate: '$startDate',
+                    unit: 'day',
+                    amount: { $subtract: [dayNumber, 1] },
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      },
+    },
+  },
+};
+
+const migrateCollection = async (
+  collection: Collection,
+  extraFields: Record<string, unknown>,
+  dryRun: boolean
+): Promise<number> => {
+  if (dryRun) {
+    return collection.countDocuments(NEEDS_MIGRATION);
+  }
+
+  const result = await collection.updateMany(NEEDS_MIGRATION, [
+    { $set: { ...backfillItinerary, ...extraFields } },
+  ]);
+  return result.modifiedCount;
+};
+
+const migrateItineraryDays = async () => {
+  const dryRun = process.argv.includes('--dry-run');
+  const prefix = dryRun ? '[dry-run] ' : '';
+
+  try {
+    await connectDatabase();
+
+    const savedTrips = await migrateCollection(
+      SavedTrip.collection,
+      {
+        accommodations: { $ifNull: ['$accommodations', []] },
+        restaurants: { $ifNull: ['$restaurants', []] },
+      },
+      dryRun
+    );
+    logger.info(`${prefix}Migrated itinerary days on ${savedTrips} saved trips`);
+
+    const tripPlans = await migrateCollection(TripPlan.collection, {}, dryRun);
+    logger.info(`${prefix}Migrated itinerary days on ${tripPlans} monitored trip plans`);
+
+    await disconnectDatabase();
+    process.exit(0);
+  } catch (error) {
+    logger.error('Itinerary day migration failed:', error);
+    await disconnectDatabase();
+    process.exit(1);
+  }
+};
+
+migrateItineraryDays();
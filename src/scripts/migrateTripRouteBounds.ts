@@ -0,0 +1,44 @@
+/**
+ * Backfill route bounds on existing saved trips
+ *
+ * Usage:
+ *   npm run migrate:trip-route-bounds -- [--dry-run]
+ *
+ * Route alerts find trips near an incident through an index on `routeBounds`,
+ * the box around a trip's located itinerary stops. Trips saved before that
+ * field existed get it computed from their itinerary. Safe to re-run.
+ */
+import { connectDatabase, disconnectDatabase } from '../shared/config/database';
+import { logger } from '../shared/config/logger';
+import { SavedTrip } from '../modules/tour-agent/domain/models/SavedTrip';
+import { SavedTripRepository } from '../modules/tour-agent/domain/repositories/SavedTripRepository';
+
+const migrateTripRouteBounds = async () => {
+  const dryRun = process.argv.includes('--dry-run');
+
+  try {
+    await connectDatabase();
+
+    if (dryRun) {
+      const count = await SavedTrip.countDocuments({
+        routeBounds: { $exists: false },
+        'itinerary.latitude': { $type: 'number' },
+        'itinerary.longitude': { $type: 'number' },
+      });
+      logger.info(`[dry-run] ${count} saved trips need route bounds`);
+    } else {
+      const updated = await new SavedTripRepository().backfillRouteBounds();
+      await SavedTrip.createIndexes();
+      logger.info(`Added route bounds to ${updated} saved trips`);
+    }
+
+    await disconnectDatabase();
+    process.exit(0);
+  } catch (error) {
+    logger.error('Saved trip route bounds migration failed:', error);
+    await disconnectDatabase();
+    process.exit(1);
+  }
+};
+
+migrateTripRouteBounds();
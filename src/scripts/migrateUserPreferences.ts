@@ -0,0 +1,251 @@
+/**
+ * Merge user preference documents into the shared UserPreferences collection
+ *
+ * Usage:
+ *   npm run migrate:preferences -- [--from <collection>[,<collection>...]] [--dry-run]
+ *
+ * The auth and tour-agent modules used to keep separate preference models. This
+ * reads every document from the canonical collection plus any `--from`
+ * collections and writes one merged document per user:
+ *   - Settings (scores, travel style, notifications, home location) come from
+ *     the most recently updated document, with gaps filled from older ones
+ *   - Saved locations, search history, categories and visited locations are
+ *     unioned so nothing is lost
+ * Duplicates in the canonical collection are removed. Source collections given
+ * with `--from` are left untouched so the migration can be re-run.
+ */
+import mongoose from 'mongoose';
+import { connectDatabase, disconnectDatabase } from '../shared/config/database';
+import { logger } from '../shared/config/logger';
+import { UserPreferences } from '../modules/auth/domain/models/UserPreferences';
+
+type RawPreferences = Record<string, unknown> & { _id: mongoose.Types.ObjectId };
+
+interface RawSavedLocation {
+  locationId: string;
+  savedAt?: Date;
+  notes?: string;
+  [key: string]: unknown;
+}
+
+interface RawSearchEntry {
+  query: string;
+  timestamp?: Date;
+  [key: string]: unknown;
+}
+
+const MAX_SEARCH_HISTORY = 100;
+
+const SETTINGS_FIELDS = [
+  'preferenceScores',
+  'travelStyle',
+  'notificationPreferences',
+  'homeLocation',
+] as const;
+
+const SET_FIELDS = ['favoriteCategories', 'avoidCategories', 'visitedLocations'] as const;
+
+const parseArgs = (argv: string[]): { from: string[]; dryRun: boolean } => {
+  const from: string[] = [];
+  let dryRun = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--dry-run') {
+      dryRun = true;
+    } else if (argv[i] === '--from' && argv[i + 1]) {
+      from.push(...argv[i + 1].split(',').filter(Boolean));
+      i++;
+    }
+  }
+
+  return { from, dryRun };
+};
+
+const toTime = (value: unknown): number => (value ? new Date(value as Date).getTime() || 0 : 0);
+
+const lastModified = (doc: RawPreferences): number =>
+  Math.max(toTime(doc.updatedAt), toTime(doc.lastUpdated), toTime(doc.createdAt));
+
+const asArray = <T>(value: unknown): T[] => (Array.isArray(value) ? (value as T[]) : []);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+
+/**
+ * Merge settings objects; earlier (newer) values win, later ones fill gaps
+ */
+const mergeSettings = (values: unknown[]): Record<string, unknown> | undefined => {
+  const objects = values.filter(isPlainObject);
+  if (objects.length === 0) return undefined;
+
+  const merged: Record<string, unknown> = {};
+  for (const obj of [...objects].reverse()) {
+    for (const [key, value] of Object.entries(obj)) {
+      if (value !== undefined && value !== null) merged[key] = value;
+    }
+  }
+  return merged;
+};
+
+const mergeSavedLocations = (docs: RawPreferences[]): RawSavedLocation[] => {
+  const byId = new Map<string, RawSavedLocation>();
+
+  for (const doc of docs) {
+    for (const location of asArray<RawSavedLocation>(doc.savedLocations)) {
+      if (!location?.locationId) continue;
+      const existing = byId.get(location.locationId);
+      if (!existing) {
+        byId.set(location.locationId, { ...location });
+        continue;
+      }
+      // Keep the newer entry's fields, the earliest save date and any notes
+      byId.set(location.locationId, {
+        ...location,
+        ...existing,
+        savedAt:
+          toTime(location.savedAt) && toTime(location.savedAt) < toTime(existing.savedAt)
+            ? location.savedAt
+            : existing.savedAt,
+        notes: existing.notes || location.notes,
+      });
+    }
+  }
+
+  return Array.from(byId.values());
+};
+
+const mergeSearchHistory = (docs: RawPreferences[]): RawSearchEntry[] => {
+  const seen = new Set<string>();
+  const entries: RawSearchEntry[] = [];
+
+  for (const doc of docs) {
+    for (const entry of asArray<RawSearchEntry>(doc.searchHistory)) {
+      if (!entry?.query) continue;
+      const key = `${entry.query}|${toTime(entry.timestamp)}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      entries.push(entry);
+    }
+  }
+
+  return entries
+    .sort((a, b) => toTime(a.timestamp) - toTime(b.timestamp))
+    .slice(-MAX_SEARCH_HISTORY);
+};
+
+/**
+ * Merge all documents for one user. `docs` must be sorted newest first.
+ */
+const mergeDocuments = (docs: RawPreferences[]): Record<string, unknown> => {
+  const merged: Record<string, unknown> = { userId: docs[0].userId };
+
+  for (const field of SETTINGS_FIELDS) {
+    const value = mergeSettings(docs.map((doc) => doc[field]));
+    if (value) merged[field] = value;
+  }
+
+  for (const field of SET_FIELDS) {
+    merged[field] = Array.from(
+      new Set(docs.flatMap((doc) => asArray<string>(doc[field])).filter(Boolean))
+    );
+  }
+
+  merged.savedLocations = mergeSavedLocations(docs);
+  merged.searchHistory = mergeSearchHistory(docs);
+
+  const created = docs.map((doc) => toTime(doc.createdAt)).filter(Boolean);
+  merged.createdAt = created.length > 0 ? new Date(Math.min(...created)) : new Date();
+  merged.updatedAt = new Date();
+  merged.lastUpdated = new Date(Math.max(...docs.map(lastModified)) || Date.now());
+
+  return merged;
+};
+
+const migrateUserPreferences = async () => {
+  const { from, dryRun } = parseArgs(process.argv.slice(2));
+  const canonical = UserPreferences.collection.collectionName;
+  const sources = Array.from(new Set([canonical, ...from]));
+
+  try {
+    await connectDatabase();
+    const db = mongoose.connection.db;
+    if (!db) {
+      throw new Error('Database connection is not ready');
+    }
+
+    // Group documents from all sources by user
+    const byUser = new Map<
+      string,
+      { docs: RawPreferences[]; canonicalIds: mongoose.Types.ObjectId[] }
+    >();
+    for (const source of sources) {
+      const docs = (await db.collection(source).find({}).toArray()) as RawPreferences[];
+      logger.info(`Read ${docs.length} preference documents from ${source}`);
+
+      for (const doc of docs) {
+        if (!doc.userId) continue;
+        const key = String(doc.userId);
+        const group = byUser.get(key) ?? { docs: [], canonicalIds: [] };
+        group.docs.push(doc);
+        if (source === canonical) group.canonicalIds.push(doc._id);
+        byUser.set(key, group);
+      }
+    }
+
+    let merged = 0;
+    let removed = 0;
+
+    for (const [userId, group] of byUser) {
+      // A single canonical document is already migrated
+      if (group.docs.length === 1 && group.canonicalIds.length === 1) continue;
+
+      const docs = group.docs.sort((a, b) => lastModified(b) - lastModified(a));
+      const document = mergeDocuments(docs);
+
+      // Validate against the shared schema before writing
+      const validationError = new UserPreferences(document).validateSync();
+      if (validationError) {
+        logger.warn(`Skipping user ${userId}: ${validationError.message}`);
+        continue;
+      }
+
+      merged++;
+      removed += Math.max(group.canonicalIds.length - 1, 0);
+
+      if (dryRun) {
+        logger.info(`[dry-run] Would merge ${docs.length} documents for user ${userId}`);
+        continue;
+      }
+
+      // Remove canonical duplicates first so the unique userId index holds
+      const [keepId, ...duplicateIds] = group.canonicalIds;
+      if (duplicateIds.length > 0) {
+        await db.collection(canonical).deleteMany({ _id: { $in: duplicateIds } });
+      }
+
+      await db
+        .collection(canonical)
+        .replaceOne(
+          keepId ? { _id: keepId } : { userId: document.userId },
+          { ...document, ...(keepId ? { _id: keepId } : {}) },
+          { upsert: true }
+        );
+    }
+
+    if (!dryRun) {
+      await UserPreferences.createIndexes();
+    }
+
+    logger.info(
+      `${dryRun ? '[dry-run] ' : ''}Merged preferences for ${merged} users, removed ${removed} duplicates`
+    );
+    await disconnectDatabase();
+    process.exit(0);
+  } catch (error) {
+    logger.error('Preferences migration failed:', error);
+    await disconnectDatabase();
+    process.exit(1);
+  }
+};
+
+migrateUserPreferences();
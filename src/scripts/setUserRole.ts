@@ -0,0 +1,48 @@
+/**
+ * Set a user's role
+ *
+ * Usage:
+ *   npm run user:role -- <email> <traveller|moderator|admin>
+ *
+ * Used to bootstrap the first admin; after that admins can change roles via
+ * PATCH /api/v1/users/:userId/role. The user must sign in again (or refresh
+ * their token) for the new role to take effect.
+ */
+import { connectDatabase, disconnectDatabase } from '../shared/config/database';
+import { logger } from '../shared/config/logger';
+import { User, USER_ROLES, UserRole } from '../modules/auth/domain/models/User';
+
+const setUserRole = async () => {
+  const [email, role] = process.argv.slice(2);
+
+  if (!email || !USER_ROLES.includes(role as UserRole)) {
+    logger.error(`Usage: npm run user:role -- <email> <${USER_ROLES.join('|')}>`);
+    process.exit(1);
+  }
+
+  try {
+    await connectDatabase();
+
+    const user = await User.findOneAndUpdate(
+      { email: email.toLowerCase() },
+      { role },
+      { new: true, runValidators: true }
+    );
+
+    if (!user) {
+      logger.error(`No user found with email ${email}`);
+      await disconnectDatabase();
+      process.exit(1);
+    }
+
+    logger.info(`✅ ${user.email} is now ${user.role}`);
+    await disconnectDatabase();
+    process.exit(0);
+  } catch (error) {
+    logger.error('❌ Failed to set user role:', error);
+    await disconnectDatabase();
+    process.exit(1);
+  }
+};
+
+setUserRole();
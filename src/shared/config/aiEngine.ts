@@ -8,6 +8,10 @@ export interface AIEngineConfig {
   timeout: number;
   retryAttempts: number;
   retryDelay: number;
+  circuitBreaker: {
+    failureThreshold: number; // Failures in a row before an endpoint is cut off
+    resetTimeoutMs: number; // How long it stays cut off before a probe request
+  };
   endpoints: {
     // Chat & Conversation
     chat: string;
@@ -46,6 +50,10 @@ const getAIEngineConfig = (): AIEngineConfig => ({
   timeout: parseInt(process.env.AI_ENGINE_TIMEOUT || '30000', 10),
   retryAttempts: parseInt(process.env.AI_ENGINE_RETRY_ATTEMPTS || '3', 10),
   retryDelay: parseInt(process.env.AI_ENGINE_RETRY_DELAY || '1000', 10),
+  circuitBreaker: {
+    failureThreshold: parseInt(process.env.AI_ENGINE_CIRCUIT_FAILURE_THRESHOLD || '5', 10),
+    resetTimeoutMs: parseInt(process.env.AI_ENGINE_CIRCUIT_RESET_MS || '30000', 10),
+  },
   endpoints: {
     // Chat & Conversation
     chat: '/api/v1/chat',
@@ -8,6 +8,7 @@ interface Config {
   env: string;
   port: number;
   apiVersion: string;
+  publicApiUrl: string;
   database: {
     uri: string;
     name: string;
@@ -41,6 +42,126 @@ interface Config {
   mlServices: {
     safetyApiUrl: string;
   };
+  incidentModeration: {
+    duplicateRadiusKm: number;
+    duplicateWindowMinutes: number;
+    alertMinConfirmations: number;
+    minReporterTrust: number;
+  };
+  crowdRisk: {
+    radiusKm: number;
+    windowDays: number;
+    halfLifeHours: number;
+    mediumScore: number;
+    highScore: number;
+  };
+  shadowWatcher: {
+    enabled: boolean;
+    checkIntervalMs: number;
+    batchSize: number;
+  };
+  incidentLifecycle: {
+    enabled: boolean;
+    checkIntervalMs: number;
+  };
+  routeIncidents: {
+    corridorMeters: number;
+  };
+  sos: {
+    defaultDurationMinutes: number;
+    maxDurationMinutes: number;
+    maxContacts: number;
+    trailLimit: number;
+    workerEnabled: boolean;
+    checkIntervalMs: number;
+    locationAuditIntervalMinutes: number;
+    contactInviteTtlHours: number;
+  };
+  safetyHeatmap: {
+    enabled: boolean;
+    recomputeIntervalMs: number;
+    windowDays: number;
+  };
+  tourPlanJobs: {
+    enabled: boolean;
+    concurrency: number;
+    pollIntervalMs: number;
+    leaseMs: number;
+    maxAttempts: number;
+    retentionHours: number;
+    streamPollIntervalMs: number;
+    streamHeartbeatMs: number;
+  };
+  routeAlerts: {
+    corridorKm: number;
+    chatbotRouteTtlHours: number;
+    tripLookaheadHours: number;
+    maxAlertsPerHour: number;
+  };
+  notifications: {
+    maxAttempts: number;
+    retryDelayMs: number;
+    push: {
+      transport: 'firebase' | 'local';
+    };
+    sms: {
+      transport: 'http' | 'local';
+      gatewayUrl: string;
+      apiKey: string;
+      senderId: string;
+    };
+  };
+  mail: {
+    // smtp, file or console; createMailTransport rejects anything else
+    transport: string;
+    from: string;
+    outputDir: string;
+    appUrl: string;
+    smtp: {
+      host: string;
+      port: number;
+      secure: boolean;
+      user: string;
+      password: string;
+    };
+  };
+  accountTokens: {
+    passwordResetTtlMinutes: number;
+    emailVerificationTtlHours: number;
+  };
+  cache: {
+    driver: 'memory' | 'redis' | 'mongo';
+    keyPrefix: string;
+    defaultTtlMs: number;
+    memory: {
+      maxEntries: number;
+    };
+    redis: {
+      url: string;
+      commandTimeoutMs: number;
+    };
+    mongo: {
+      collection: string;
+    };
+  };
+  storage: {
+    driver: 'local' | 's3';
+    localDir: string;
+    s3: {
+      endpoint: string;
+      region: string;
+      bucket: string;
+      accessKeyId: string;
+      secretAccessKey: string;
+      forcePathStyle: boolean;
+    };
+  };
+  media: {
+    signingSecret: string;
+    signedUrlTtlSeconds: number;
+    maxImageSizeMb: number;
+    maxVideoSizeMb: number;
+  };
 }
 
 //Get configuration dynamically from process.env*
@@ -48,6 +169,8 @@ const getConfig = (): Config => ({
   env: process.env.NODE_ENV || 'development',
   port: parseInt(process.env.PORT || '3001', 10),
   apiVersion: process.env.API_VERSION || 'v1',
+  // Where clients reach this API; used for links handed out to them
+  publicApiUrl: process.env.API_PUBLIC_URL || `http://localhost:${process.env.PORT || '3001'}`,
   database: {
     uri: process.env.MONGODB_URI || 'mongodb://localhost:27017/travion-backend',
     name: process.env.DATABASE_NAME || 'travion-backend',
@@ -81,6 +204,138 @@ const getConfig = (): Config => ({
   mlServices: {
     safetyApiUrl: process.env.SAFETY_API_URL || 'http://localhost:8003/api/safety',
   },
+  incidentModeration: {
+    duplicateRadiusKm: parseFloat(process.env.INCIDENT_DUPLICATE_RADIUS_KM || '0.5'),
+    duplicateWindowMinutes: parseInt(process.env.INCIDENT_DUPLICATE_WINDOW_MINUTES || '120', 10),
+    alertMinConfirmations: parseInt(process.env.INCIDENT_ALERT_MIN_CONFIRMATIONS || '3', 10),
+    minReporterTrust: parseFloat(process.env.INCIDENT_MIN_REPORTER_TRUST || '0.3'),
+  },
+  crowdRisk: {
+    radiusKm: parseFloat(process.env.CROWD_RISK_RADIUS_KM || '1'),
+    windowDays: parseInt(process.env.CROWD_RISK_WINDOW_DAYS || '14', 10),
+    halfLifeHours: parseFloat(process.env.CROWD_RISK_HALF_LIFE_HOURS || '72'),
+    mediumScore: parseFloat(process.env.CROWD_RISK_MEDIUM_SCORE || '1'),
+    highScore: parseFloat(process.env.CROWD_RISK_HIGH_SCORE || '2.5'),
+  },
+  shadowWatcher: {
+    enabled: process.env.SHADOW_WATCHER_ENABLED === 'true',
+    checkIntervalMs: parseInt(process.env.SHADOW_WATCHER_INTERVAL_MS || '300000', 10),
+    batchSize: parseInt(process.env.SHADOW_WATCHER_BATCH_SIZE || '10', 10),
+  },
+  incidentLifecycle: {
+    enabled: process.env.INCIDENT_LIFECYCLE_ENABLED !== 'false',
+    checkIntervalMs: parseInt(process.env.INCIDENT_LIFECYCLE_INTERVAL_MS || '900000', 10),
+  },
+  routeIncidents: {
+    corridorMeters: parseInt(process.env.ROUTE_INCIDENT_CORRIDOR_M || '500', 10),
+  },
+  sos: {
+    defaultDurationMinutes: parseInt(process.env.SOS_DEFAULT_DURATION_MINUTES || '60', 10),
+    maxDurationMinutes: parseInt(process.env.SOS_MAX_DURATION_MINUTES || '240', 10),
+    maxContacts: parseInt(process.env.SOS_MAX_CONTACTS || '5', 10),
+    trailLimit: parseInt(process.env.SOS_TRAIL_LIMIT || '500', 10),
+    workerEnabled: process.env.SOS_WORKER_ENABLED !== 'false',
+    checkIntervalMs: parseInt(process.env.SOS_CHECK_INTERVAL_MS || '60000', 10),
+    locationAuditIntervalMinutes: parseInt(
+      process.env.SOS_LOCATION_AUDIT_INTERVAL_MINUTES || '5',
+      10
+    ),
+    contactInviteTtlHours: parseInt(process.env.SOS_CONTACT_INVITE_TTL_HOURS || '72', 10),
+  },
+  safetyHeatmap: {
+    enabled: process.env.SAFETY_HEATMAP_ENABLED !== 'false',
+    recomputeIntervalMs: parseInt(process.env.SAFETY_HEATMAP_INTERVAL_MS || '3600000', 10),
+    windowDays: parseInt(process.env.SAFETY_HEATMAP_WINDOW_DAYS || '90', 10),
+  },
+  tourPlanJobs: {
+    enabled: process.env.TOUR_PLAN_JOBS_ENABLED !== 'false',
+    concurrency: parseInt(process.env.TOUR_PLAN_JOB_CONCURRENCY || '3', 10),
+    pollIntervalMs: parseInt(process.env.TOUR_PLAN_JOB_POLL_INTERVAL_MS || '5000', 10),
+    // Must outlast the AI Engine's 180s timeout, or a slow job is run twice
+    leaseMs: parseInt(process.env.TOUR_PLAN_JOB_LEASE_MS || '240000', 10),
+    maxAttempts: parseInt(process.env.TOUR_PLAN_JOB_MAX_ATTEMPTS || '2', 10),
+    retentionHours: parseInt(process.env.TOUR_PLAN_JOB_RETENTION_HOURS || '72', 10),
+    streamPollIntervalMs: parseInt(process.env.TOUR_PLAN_STREAM_POLL_INTERVAL_MS || '2000', 10),
+    streamHeartbeatMs: parseInt(process.env.TOUR_PLAN_STREAM_HEARTBEAT_MS || '15000', 10),
+  },
+  routeAlerts: {
+    corridorKm: parseFloat(process.env.ROUTE_ALERT_CORRIDOR_KM || '2'),
+    chatbotRouteTtlHours: parseInt(process.env.ROUTE_ALERT_CHATBOT_TTL_HOURS || '24', 10),
+    tripLookaheadHours: parseInt(process.env.ROUTE_ALERT_TRIP_LOOKAHEAD_HOURS || '48', 10),
+    maxAlertsPerHour: parseInt(process.env.ROUTE_ALERT_MAX_PER_HOUR || '3', 10),
+  },
+  notifications: {
+    maxAttempts: parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || '3', 10),
+    retryDelayMs: parseInt(process.env.NOTIFICATION_RETRY_DELAY_MS || '1000', 10),
+    push: {
+      transport: process.env.PUSH_TRANSPORT === 'local' ? 'local' : 'firebase',
+    },
+    sms: {
+      transport: process.env.SMS_TRANSPORT === 'http' ? 'http' : 'local',
+      gatewayUrl: process.env.SMS_GATEWAY_URL || '',
+      apiKey: process.env.SMS_GATEWAY_API_KEY || '',
+      senderId: process.env.SMS_SENDER_ID || 'Travion',
+    },
+  },
+  mail: {
+    // Unset: SMTP in production, the in-memory console stand-in everywhere else
+    transport:
+      process.env.MAIL_TRANSPORT || (process.env.NODE_ENV === 'production' ? 'smtp' : 'console'),
+    from: process.env.EMAIL_FROM || 'Travion <no-reply@travion.app>',
+    outputDir: process.env.MAIL_OUTPUT_DIR || 'tmp/mail',
+    appUrl: process.env.APP_URL || 'http://localhost:3000',
+    smtp: {
+      host: process.env.SMTP_HOST || '',
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER || '',
+      password: process.env.SMTP_PASSWORD || '',
+    },
+  },
+  accountTokens: {
+    passwordResetTtlMinutes: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60', 10),
+    emailVerificationTtlHours: parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '24', 10),
+  },
+  cache: {
+    driver:
+      process.env.CACHE_DRIVER === 'redis' || process.env.CACHE_DRIVER === 'mongo'
+        ? process.env.CACHE_DRIVER
+        : 'memory',
+    keyPrefix: process.env.CACHE_KEY_PREFIX || 'travion',
+    defaultTtlMs: parseInt(process.env.CACHE_DEFAULT_TTL_MS || '600000', 10),
+    memory: {
+      maxEntries: parseInt(process.env.CACHE_MEMORY_MAX_ENTRIES || '10000', 10),
+    },
+    redis: {
+      url: process.env.REDIS_URL || 'redis://localhost:6379',
+      commandTimeoutMs: parseInt(process.env.REDIS_COMMAND_TIMEOUT_MS || '2000', 10),
+    },
+    mongo: {
+      collection: process.env.CACHE_MONGO_COLLECTION || 'cache_entries',
+    },
+  },
+  storage: {
+    driver: process.env.STORAGE_DRIVER === 's3' ? 's3' : 'local',
+    localDir: process.env.STORAGE_LOCAL_DIR || 'uploads',
+    s3: {
+      endpoint: process.env.S3_ENDPOINT || 'https://s3.amazonaws.com',
+      region: process.env.S3_REGION || 'us-east-1',
+      bucket: process.env.S3_BUCKET || '',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    },
+  },
+  media: {
+    // No default in production: App.start refuses to run without a real key
+    signingSecret:
+      process.env.MEDIA_SIGNING_SECRET ||
+      process.env.JWT_SECRET ||
+      (process.env.NODE_ENV === 'production' ? '' : 'your-secret-key'),
+    signedUrlTtlSeconds: parseInt(process.env.MEDIA_SIGNED_URL_TTL_SECONDS || '900', 10),
+    maxImageSizeMb: parseInt(process.env.MEDIA_MAX_IMAGE_SIZE_MB || '10', 10),
+    maxVideoSizeMb: parseInt(process.env.MEDIA_MAX_VIDEO_SIZE_MB || '50', 10),
+  },
 });
 
 // Export a Proxy that always gets fresh values from process.env
@@ -1,115 +1,142 @@
+import config from '../../config/config';
 import { logger } from '../../config/logger';
+import { CacheBackend, CacheMetrics } from './types';
+import { getSharedCacheBackend } from './cacheBackend';
 
-interface CacheEntry {
-  value: unknown;
-  expiresAt: number;
+export interface CacheOptions {
+  /** Defaults to the backend selected by `CACHE_DRIVER` */
+  backend?: CacheBackend;
+  defaultTtlMs?: number;
 }
 
+/**
+ * A namespaced cache on top of a shared backend.
+ *
+ * Values are stored as JSON, so only plain data round-trips (Dates come back
+ * as strings). Backend failures are logged and treated as misses: a broken
+ * cache slows requests down but never fails them.
+ */
 export class CacheService {
-  private cache: Map<string, CacheEntry> = new Map();
-  private defaultTTL: number = 10 * 60 * 1000; // 10 minutes
+  private inFlight: Map<string, Promise<unknown>> = new Map();
+  private metrics = { hits: 0, misses: 0, sets: 0, coalesced: 0, errors: 0 };
+
+  constructor(
+    readonly namespace: string,
+    private readonly options: CacheOptions = {}
+  ) {}
+
+  private get backend(): CacheBackend {
+    return this.options.backend ?? getSharedCacheBackend();
+  }
+
+  private get prefix(): string {
+    return `${config.cache.keyPrefix}:${this.namespace}:`;
+  }
 
   /**
    * Get value from cache
    */
-  get<T>(key: string): T | null {
-    const entry = this.cache.get(key);
-
-    if (!entry) {
-      return null;
-    }
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      const raw = await this.backend.get(this.prefix + key);
+      if (raw === null) {
+        this.metrics.misses++;
+        return null;
+      }
 
-    // Check if expired
-    if (Date.now() > entry.expiresAt) {
-      this.cache.delete(key);
+      this.metrics.hits++;
+      logger.debug(`Cache HIT: ${this.namespace}:${key}`);
+      return JSON.parse(raw) as T;
+    } catch (error) {
+      this.recordError('get', key, error);
+      this.metrics.misses++;
       return null;
     }
-
-    logger.debug(`Cache HIT: ${key}`);
-    return entry.value as T;
   }
 
   /**
    * Set value in cache with optional TTL
    */
-  set<T>(key: string, value: T, ttlMs?: number): void {
-    const ttl = ttlMs || this.defaultTTL;
-    const expiresAt = Date.now() + ttl;
-
-    this.cache.set(key, {
-      value,
-      expiresAt,
-    });
-
-    logger.debug(`Cache SET: ${key} (TTL: ${ttl}ms)`);
+  async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    const ttl = ttlMs || this.options.defaultTtlMs || config.cache.defaultTtlMs;
+    try {
+      await this.backend.set(this.prefix + key, JSON.stringify(value), ttl);
+      this.metrics.sets++;
+      logger.debug(`Cache SET: ${this.namespace}:${key} (TTL: ${ttl}ms)`);
+    } catch (error) {
+      this.recordError('set', key, error);
+    }
   }
 
   /**
-   * Delete specific key
+   * Get a value, loading and caching it on a miss. Concurrent misses for the
+   * same key in this process share a single load instead of stampeding the
+   * upstream API. Null and undefined results are not cached.
    */
-  delete(key: string): boolean {
-    return this.cache.delete(key);
-  }
+  async getOrSet<T>(key: string, loader: () => Promise<T>, ttlMs?: number): Promise<T> {
+    const inFlight = this.inFlight.get(key);
+    if (inFlight) {
+      this.metrics.coalesced++;
+      return inFlight as Promise<T>;
+    }
 
-  /**
-   * Clear all cache
-   */
-  clear(): void {
-    this.cache.clear();
-    logger.info('Cache cleared');
-  }
+    const load = (async () => {
+      const cached = await this.get<T>(key);
+      if (cached !== null) {
+        return cached;
+      }
 
-  /**
-   * Get cache size
-   */
-  size(): number {
-    return this.cache.size;
+      const value = await loader();
+      if (value !== null && value !== undefined) {
+        await this.set(key, value, ttlMs);
+      }
+      return value;
+    })().finally(() => {
+      this.inFlight.delete(key);
+    });
+
+    this.inFlight.set(key, load);
+    return load;
   }
 
   /**
-   * Cleanup expired entries periodically
+   * Delete specific key
    */
-  startCleanupInterval(intervalMs: number = 60000): NodeJS.Timeout {
-    return setInterval(() => {
-      let cleaned = 0;
-      for (const [key, entry] of this.cache.entries()) {
-        if (Date.now() > entry.expiresAt) {
-          this.cache.delete(key);
-          cleaned++;
-        }
-      }
-      if (cleaned > 0) {
-        logger.debug(`Cache cleanup: removed ${cleaned} expired entries`);
-      }
-    }, intervalMs);
+  async delete(key: string): Promise<void> {
+    try {
+      await this.backend.delete(this.prefix + key);
+    } catch (error) {
+      this.recordError('delete', key, error);
+    }
   }
 
   /**
-   * Generate cache key for route distance
+   * Clear every key in this namespace
    */
-  static generateDistanceCacheKey(
-    originLat: number,
-    originLng: number,
-    destLat: number,
-    destLng: number
-  ): string {
-    return `distance:${originLat},${originLng}:${destLat},${destLng}`;
+  async clear(): Promise<number> {
+    try {
+      const deleted = await this.backend.deleteByPrefix(this.prefix);
+      logger.info(`Cache cleared: ${this.namespace} (${deleted} entries)`);
+      return deleted;
+    } catch (error) {
+      this.recordError('clear', '*', error);
+      return 0;
+    }
   }
 
-  /**
-   * Generate cache key for weather
-   */
-  static generateWeatherCacheKey(lat: number, lng: number): string {
-    return `weather:${lat},${lng}`;
+  getMetrics(): CacheMetrics {
+    const lookups = this.metrics.hits + this.metrics.misses;
+    return {
+      ...this.metrics,
+      hitRate: lookups > 0 ? Number((this.metrics.hits / lookups).toFixed(3)) : 0,
+    };
   }
 
-  /**
-   * Generate cache key for route context
-   */
-  static generateRouteContextCacheKey(routeId: string, originId: string, destId: string): string {
-    return `route_context:${routeId}:${originId}:${destId}`;
+  private recordError(operation: string, key: string, error: unknown): void {
+    this.metrics.errors++;
+    logger.warn(`Cache ${operation} failed for ${this.namespace}:${key}`, {
+      backend: this.backend.name,
+      error: (error as Error).message,
+    });
   }
 }
-
-// Singleton instance
-export const cacheService = new CacheService();
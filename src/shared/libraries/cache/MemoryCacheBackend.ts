@@ -0,0 +1,64 @@
+import { CacheBackend } from './types';
+
+interface MemoryEntry {
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * Keeps entries in process memory, bounded by entry count. The least recently
+ * used entry is evicted first; a Map keeps insertion order, so every read
+ * re-inserts its entry at the end.
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory';
+  private entries: Map<string, MemoryEntry> = new Map();
+  private evictions = 0;
+
+  constructor(private readonly maxEntries: number) {}
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    this.entries.delete(key);
+    if (Date.now() > entry.expiresAt) {
+      return null;
+    }
+
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    let deleted = 0;
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  getStats(): Record<string, number> {
+    return { size: this.entries.size, maxEntries: this.maxEntries, evictions: this.evictions };
+  }
+}
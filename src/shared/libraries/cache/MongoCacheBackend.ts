@@ -0,0 +1,67 @@
+import mongoose, { Schema } from 'mongoose';
+import { CacheBackend } from './types';
+
+interface CacheEntryDocument {
+  _id: string;
+  value: string;
+  expiresAt: Date;
+}
+
+const cacheEntrySchema = new Schema<CacheEntryDocument>(
+  {
+    _id: { type: String, required: true },
+    value: { type: String, required: true },
+    expiresAt: { type: Date, required: true },
+  },
+  {
+    versionKey: false,
+  }
+);
+
+// MongoDB removes expired entries in the background (about once a minute)
+cacheEntrySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Stores entries in a MongoDB collection with a TTL index, so the cache is
+ * shared between replicas and survives deploys without extra infrastructure.
+ */
+export class MongoCacheBackend implements CacheBackend {
+  readonly name = 'mongo';
+  private model: mongoose.Model<CacheEntryDocument>;
+
+  constructor(collection: string) {
+    this.model =
+      (mongoose.models.CacheEntry as mongoose.Model<CacheEntryDocument>) ||
+      mongoose.model<CacheEntryDocument>('CacheEntry', cacheEntrySchema, collection);
+  }
+
+  async get(key: string): Promise<string | null> {
+    // The TTL monitor lags, so expiry is also checked on read
+    const entry = await this.model
+      .findOne({ _id: key, expiresAt: { $gt: new Date() } })
+      .select('value')
+      .lean();
+    return entry?.value ?? null;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await this.model.updateOne(
+      { _id: key },
+      { $set: { value, expiresAt: new Date(Date.now() + ttlMs) } },
+      { upsert: true }
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.model.deleteOne({ _id: key });
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    const result = await this.model.deleteMany({
+      _id: { $regex: `^${escapeRegex(prefix)}` },
+    });
+    return result.deletedCount;
+  }
+}
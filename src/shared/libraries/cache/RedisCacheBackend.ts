@@ -0,0 +1,67 @@
+import Redis from 'ioredis';
+import { CacheBackend } from './types';
+import { logger } from '../../config/logger';
+
+export interface RedisOptions {
+  url: string;
+  commandTimeoutMs: number;
+}
+
+const SCAN_BATCH_SIZE = 500;
+
+const escapeGlob = (value: string): string => value.replace(/[*?[\]\\]/g, '\\$&');
+
+/**
+ * Stores entries in Redis, shared between every replica. Redis expires
+ * entries itself and applies its own eviction policy when full.
+ */
+export class RedisCacheBackend implements CacheBackend {
+  readonly name = 'redis';
+  private client: Redis;
+
+  constructor(options: RedisOptions) {
+    // Connect on first use and give up on a command quickly while Redis is
+    // unreachable; the cache treats a failed lookup as a miss
+    this.client = new Redis(options.url, {
+      lazyConnect: true,
+      connectTimeout: options.commandTimeoutMs,
+      commandTimeout: options.commandTimeoutMs,
+      maxRetriesPerRequest: 1,
+    });
+    this.client.on('error', (error) => logger.warn(`Redis cache error: ${error.message}`));
+  }
+
+  async get(key: string): Promise<string | null> {
+    return await this.client.get(key);
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await this.client.set(key, value, 'PX', Math.max(1, Math.round(ttlMs)));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(key);
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    let cursor = '0';
+    let deleted = 0;
+
+    do {
+      const [next, keys] = await this.client.scan(
+        cursor,
+        'MATCH',
+        `${escapeGlob(prefix)}*`,
+        'COUNT',
+        SCAN_BATCH_SIZE
+      );
+      cursor = next;
+
+      if (keys.length > 0) {
+        deleted += await this.client.del(...keys);
+      }
+    } while (cursor !== '0');
+
+    return deleted;
+  }
+}
@@ -0,0 +1,39 @@
+import config from '../../config/config';
+import { logger } from '../../config/logger';
+import { CacheBackend } from './types';
+import { MemoryCacheBackend } from './MemoryCacheBackend';
+import { MongoCacheBackend } from './MongoCacheBackend';
+import { RedisCacheBackend } from './RedisCacheBackend';
+
+let sharedBackend: CacheBackend | null = null;
+
+/**
+ * Build the cache backend selected by `CACHE_DRIVER`
+ */
+export function createCacheBackend(): CacheBackend {
+  const { driver, memory, redis, mongo } = config.cache;
+
+  if (driver === 'redis') {
+    return new RedisCacheBackend(redis);
+  }
+  if (driver === 'mongo') {
+    return new MongoCacheBackend(mongo.collection);
+  }
+  return new MemoryCacheBackend(memory.maxEntries);
+}
+
+/**
+ * The backend every namespace shares. Created on first use rather than on
+ * import, so settings loaded from the secret store at startup are picked up.
+ */
+export function getSharedCacheBackend(): CacheBackend {
+  if (!sharedBackend) {
+    sharedBackend = createCacheBackend();
+    logger.info(`Cache backend: ${sharedBackend.name}`);
+  }
+  return sharedBackend;
+}
+
+export function peekSharedCacheBackend(): CacheBackend | null {
+  return sharedBackend;
+}
@@ -0,0 +1,46 @@
+import config from '../../config/config';
+import { CacheMetrics } from './types';
+import { CacheService } from './CacheService';
+import { peekSharedCacheBackend } from './cacheBackend';
+
+export * from './types';
+export { CacheService } from './CacheService';
+export type { CacheOptions } from './CacheService';
+export { createCacheBackend, getSharedCacheBackend } from './cacheBackend';
+export { MemoryCacheBackend } from './MemoryCacheBackend';
+export { MongoCacheBackend } from './MongoCacheBackend';
+export { RedisCacheBackend } from './RedisCacheBackend';
+export type { RedisOptions } from './RedisCacheBackend';
+
+const caches: Map<string, CacheService> = new Map();
+
+/**
+ * Get the cache for a namespace. Every namespace shares the configured
+ * backend; keys are prefixed with the namespace so they never collide.
+ */
+export function getCache(namespace: string, defaultTtlMs?: number): CacheService {
+  let cache = caches.get(namespace);
+  if (!cache) {
+    cache = new CacheService(namespace, { defaultTtlMs });
+    caches.set(namespace, cache);
+  }
+  return cache;
+}
+
+/**
+ * Hit/miss counters for every namespace in this process
+ */
+export function getCacheMetrics(): {
+  backend: string;
+  backendStats?: Record<string, number>;
+  namespaces: Record<string, CacheMetrics>;
+} {
+  const backend = peekSharedCacheBackend();
+  return {
+    backend: backend?.name ?? config.cache.driver,
+    backendStats: backend?.getStats?.(),
+    namespaces: Object.fromEntries(
+      [...caches.entries()].map(([namespace, cache]) => [namespace, cache.getMetrics()])
+    ),
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * Cache types
+ * Shared contract between CacheService and its storage backends (memory, Redis, MongoDB)
+ */
+
+/**
+ * A cache backend stores serialized values under fully qualified keys with a
+ * time to live. Backends may drop entries early (eviction), but never return
+ * an entry after it expired.
+ */
+export interface CacheBackend {
+  readonly name: string;
+  /** Resolve a value, or null when it is missing or expired */
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Remove every key starting with the prefix, returning how many were removed */
+  deleteByPrefix(prefix: string): Promise<number>;
+  /** Backend-specific counters, e.g. size and evictions */
+  getStats?(): Record<string, number>;
+}
+
+export interface CacheMetrics {
+  hits: number;
+  misses: number;
+  sets: number;
+  /** Lookups that waited for a load already in progress instead of starting their own */
+  coalesced: number;
+  errors: number;
+  hitRate: number; // 0-1
+}
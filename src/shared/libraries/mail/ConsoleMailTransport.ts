@@ -0,0 +1,24 @@
+import { logger } from '../../config/logger';
+import { MailMessage, MailTransport } from './types';
+
+export interface SentMail extends MailMessage {
+  sentAt: Date;
+}
+
+/**
+ * Development and test stand-in that keeps each message in memory.
+ * Only the subject and recipient are logged; bodies carry account tokens.
+ */
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console';
+  readonly sent: SentMail[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push({ ...message, sentAt: new Date() });
+    logger.info(`[console mail] ${message.subject} -> ${message.to}`);
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
@@ -0,0 +1,30 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from '../../config/logger';
+import { MailMessage, MailTransport } from './types';
+
+/**
+ * Development stand-in that writes each message to a JSON file instead of
+ * sending it, so links in account emails can be opened by hand or read by tests.
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const file = path.join(this.directory, `${Date.now()}-${recipient}.json`);
+    await fs.writeFile(
+      file,
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+
+    logger.info(`[file mail] ${message.subject} -> ${message.to}`, { file });
+  }
+}
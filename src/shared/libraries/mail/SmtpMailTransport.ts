@@ -0,0 +1,40 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { MailMessage, MailTransport } from './types';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string;
+  password: string;
+  from: string;
+}
+
+/**
+ * Sends mail through an SMTP server
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+  private transporter: Transporter;
+  private from: string;
+
+  constructor(options: SmtpOptions) {
+    this.from = options.from;
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+}
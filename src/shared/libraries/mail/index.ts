@@ -0,0 +1,49 @@
+import config from '../../config/config';
+import { MailTransport } from './types';
+import { SmtpMailTransport } from './SmtpMailTransport';
+import { FileMailTransport } from './FileMailTransport';
+import { ConsoleMailTransport } from './ConsoleMailTransport';
+
+export * from './types';
+export { SmtpMailTransport } from './SmtpMailTransport';
+export type { SmtpOptions } from './SmtpMailTransport';
+export { FileMailTransport } from './FileMailTransport';
+export { ConsoleMailTransport } from './ConsoleMailTransport';
+export type { SentMail } from './ConsoleMailTransport';
+
+/**
+ * Build the mail transport selected by `MAIL_TRANSPORT` (default `smtp` in
+ * production, `console` elsewhere). Account emails carry login tokens, so the
+ * file and console stand-ins are refused in production, and SMTP needs a host.
+ */
+export function createMailTransport(): MailTransport {
+  const { transport, outputDir, smtp, from } = config.mail;
+
+  if (transport === 'smtp') {
+    if (!smtp.host) {
+      throw new Error('SMTP_HOST must be set when MAIL_TRANSPORT is smtp');
+    }
+    return new SmtpMailTransport({ ...smtp, from });
+  }
+
+  if (transport !== 'file' && transport !== 'console') {
+    throw new Error(`Unknown MAIL_TRANSPORT ${transport}: use smtp, file or console`);
+  }
+  if (config.env === 'production') {
+    throw new Error(`MAIL_TRANSPORT=${transport} is not allowed in production`);
+  }
+  return transport === 'file' ? new FileMailTransport(outputDir) : new ConsoleMailTransport();
+}
+
+let mailTransport: MailTransport | null = null;
+
+/**
+ * The process-wide mail transport. Built on first use, after secrets are loaded;
+ * App.start calls this so a bad mail configuration stops the server from starting.
+ */
+export function getMailTransport(): MailTransport {
+  if (!mailTransport) {
+    mailTransport = createMailTransport();
+  }
+  return mailTransport;
+}
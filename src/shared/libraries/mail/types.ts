@@ -0,0 +1,20 @@
+/**
+ * Mail transport types
+ * Shared contract for sending transactional email (account emails, notifications)
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * A mail transport hands a message to a delivery mechanism.
+ * `send` resolves once the message was accepted and throws on failure.
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
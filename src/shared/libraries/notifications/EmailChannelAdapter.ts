@@ -0,0 +1,31 @@
+import { MailTransport, getMailTransport } from '../mail';
+import {
+  ChannelAdapter,
+  NotificationMessage,
+  NotificationRecipient,
+  PermanentDeliveryError,
+} from './types';
+
+/**
+ * Delivers email notifications through the mail transport (`MAIL_TRANSPORT`)
+ */
+export class EmailChannelAdapter implements ChannelAdapter {
+  readonly channel = 'email' as const;
+  private transport?: MailTransport;
+
+  constructor(transport?: MailTransport) {
+    this.transport = transport;
+  }
+
+  async send(recipient: NotificationRecipient, message: NotificationMessage): Promise<void> {
+    if (!recipient.email) {
+      throw new PermanentDeliveryError('Recipient has no email address');
+    }
+
+    await (this.transport ?? getMailTransport()).send({
+      to: recipient.email,
+      subject: message.title,
+      text: message.body,
+    });
+  }
+}
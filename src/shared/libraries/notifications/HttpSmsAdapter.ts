@@ -0,0 +1,64 @@
+import axios, { AxiosInstance } from 'axios';
+import {
+  ChannelAdapter,
+  NotificationMessage,
+  NotificationRecipient,
+  PermanentDeliveryError,
+} from './types';
+
+export interface SmsGatewayOptions {
+  gatewayUrl: string;
+  apiKey: string;
+  senderId: string;
+  timeoutMs?: number;
+}
+
+const MAX_SMS_LENGTH = 320;
+
+/**
+ * Delivers SMS notifications by POSTing to an HTTP SMS gateway.
+ * The gateway receives `{ to, from, message }` with a bearer API key.
+ */
+export class HttpSmsAdapter implements ChannelAdapter {
+  readonly channel = 'sms' as const;
+  private client: AxiosInstance;
+  private senderId: string;
+
+  constructor(options: SmsGatewayOptions) {
+    this.senderId = options.senderId;
+    this.client = axios.create({
+      baseURL: options.gatewayUrl,
+      timeout: options.timeoutMs ?? 10000,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${options.apiKey}`,
+      },
+    });
+  }
+
+  async send(recipient: NotificationRecipient, message: NotificationMessage): Promise<void> {
+    if (!recipient.phoneNumber) {
+      throw new PermanentDeliveryError('Recipient has no phone number');
+    }
+
+    let text = `${message.title}: ${message.body}`;
+    if (text.length > MAX_SMS_LENGTH) {
+      text = `${text.slice(0, MAX_SMS_LENGTH - 3)}...`;
+    }
+
+    try {
+      await this.client.post('', {
+        to: recipient.phoneNumber,
+        from: this.senderId,
+        message: text,
+      });
+    } catch (error) {
+      // 4xx responses (bad number, rejected sender) won't succeed on retry
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      if (status && status >= 400 && status < 500 && status !== 429) {
+        throw new PermanentDeliveryError(`SMS gateway rejected message (${status})`);
+      }
+      throw error;
+    }
+  }
+}
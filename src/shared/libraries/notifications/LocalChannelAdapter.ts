@@ -0,0 +1,50 @@
+import { logger } from '../../config/logger';
+import {
+  ChannelAdapter,
+  NotificationChannel,
+  NotificationMessage,
+  NotificationRecipient,
+} from './types';
+
+export interface LocalDelivery {
+  recipient: NotificationRecipient;
+  message: NotificationMessage;
+  deliveredAt: Date;
+}
+
+/**
+ * Local stand-in for any channel, used in development and tests.
+ * Deliveries are kept in memory instead of leaving the process; only the
+ * title is logged, since bodies can carry links such as SOS tracking URLs.
+ */
+export class LocalChannelAdapter implements ChannelAdapter {
+  readonly channel: NotificationChannel;
+  readonly deliveries: LocalDelivery[] = [];
+  private failuresRemaining = 0;
+
+  constructor(channel: NotificationChannel) {
+    this.channel = channel;
+  }
+
+  /**
+   * Make the next `count` sends throw, to exercise retry handling
+   */
+  failNext(count: number): void {
+    this.failuresRemaining = count;
+  }
+
+  clear(): void {
+    this.deliveries.length = 0;
+    this.failuresRemaining = 0;
+  }
+
+  async send(recipient: NotificationRecipient, message: NotificationMessage): Promise<void> {
+    if (this.failuresRemaining > 0) {
+      this.failuresRemaining--;
+      throw new Error(`Simulated ${this.channel} delivery failure`);
+    }
+
+    this.deliveries.push({ recipient, message, deliveredAt: new Date() });
+    logger.info(`[local ${this.channel}] ${message.title}`, { userId: recipient.userId });
+  }
+}
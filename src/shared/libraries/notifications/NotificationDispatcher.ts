@@ -0,0 +1,127 @@
+import config from '../../config/config';
+import { logger } from '../../config/logger';
+import { EmailChannelAdapter } from './EmailChannelAdapter';
+import { HttpSmsAdapter } from './HttpSmsAdapter';
+import { LocalChannelAdapter } from './LocalChannelAdapter';
+import { PushChannelAdapter } from './PushChannelAdapter';
+import {
+  ChannelAdapter,
+  NotificationChannel,
+  NotificationMessage,
+  NotificationRecipient,
+  PermanentDeliveryError,
+  PushSender,
+} from './types';
+
+export interface ChannelDeliveryResult {
+  channel: NotificationChannel;
+  status: 'sent' | 'failed' | 'skipped';
+  attempts: number;
+  error?: string;
+  deliveredAt?: Date;
+}
+
+export interface DispatcherOptions {
+  maxAttempts: number;
+  retryDelayMs: number;
+}
+
+/**
+ * Sends a message over several channels, retrying transient failures per channel
+ * with exponential backoff. A failing channel never blocks the others.
+ */
+export class NotificationDispatcher {
+  private adapters: Map<NotificationChannel, ChannelAdapter>;
+  private options: DispatcherOptions;
+
+  constructor(adapters: ChannelAdapter[], options: DispatcherOptions) {
+    this.adapters = new Map(adapters.map((adapter) => [adapter.channel, adapter]));
+    this.options = options;
+  }
+
+  async dispatch(
+    recipient: NotificationRecipient,
+    message: NotificationMessage,
+    channels: NotificationChannel[]
+  ): Promise<ChannelDeliveryResult[]> {
+    return Promise.all(channels.map((channel) => this.sendWithRetry(channel, recipient, message)));
+  }
+
+  private async sendWithRetry(
+    channel: NotificationChannel,
+    recipient: NotificationRecipient,
+    message: NotificationMessage
+  ): Promise<ChannelDeliveryResult> {
+    const adapter = this.adapters.get(channel);
+    if (!adapter) {
+      return { channel, status: 'skipped', attempts: 0, error: 'No adapter configured' };
+    }
+
+    let lastError = '';
+    for (let attempt = 1; attempt <= this.options.maxAttempts; attempt++) {
+      try {
+        await adapter.send(recipient, message);
+        return { channel, status: 'sent', attempts: attempt, deliveredAt: new Date() };
+      } catch (error) {
+        lastError = (error as Error).message;
+
+        if (error instanceof PermanentDeliveryError) {
+          logger.warn(`Notification ${channel} delivery skipped: ${lastError}`, {
+            userId: recipient.userId,
+          });
+          return { channel, status: 'skipped', attempts: attempt, error: lastError };
+        }
+
+        logger.warn(`Notification ${channel} delivery attempt ${attempt} failed: ${lastError}`, {
+          userId: recipient.userId,
+        });
+
+        if (attempt < this.options.maxAttempts) {
+          await this.sleep(this.options.retryDelayMs * Math.pow(2, attempt - 1));
+        }
+      }
+    }
+
+    logger.error(`Notification ${channel} delivery failed`, {
+      userId: recipient.userId,
+      attempts: this.options.maxAttempts,
+      error: lastError,
+    });
+    return { channel, status: 'failed', attempts: this.options.maxAttempts, error: lastError };
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
+
+/**
+ * Build channel adapters from config. Email goes through the mail transport;
+ * push and SMS without a real transport configured fall back to local stand-ins,
+ * and push also needs a sender from the module that owns device registrations.
+ */
+export function createChannelAdapters(pushSender?: PushSender): ChannelAdapter[] {
+  const { push, sms } = config.notifications;
+
+  const adapters: ChannelAdapter[] = [
+    push.transport === 'firebase' && pushSender
+      ? new PushChannelAdapter(pushSender)
+      : new LocalChannelAdapter('push'),
+    new EmailChannelAdapter(),
+  ];
+
+  if (sms.transport === 'http' && sms.gatewayUrl) {
+    adapters.push(new HttpSmsAdapter(sms));
+  } else {
+    adapters.push(new LocalChannelAdapter('sms'));
+  }
+
+  return adapters;
+}
+
+export function createNotificationDispatcher(pushSender?: PushSender): NotificationDispatcher {
+  return new NotificationDispatcher(createChannelAdapters(pushSender), {
+    maxAttempts: Math.max(1, config.notifications.maxAttempts),
+    retryDelayMs: config.notifications.retryDelayMs,
+  });
+}
@@ -0,0 +1,30 @@
+import {
+  ChannelAdapter,
+  NotificationMessage,
+  NotificationRecipient,
+  PermanentDeliveryError,
+  PushSender,
+} from './types';
+
+/**
+ * Delivers push notifications to all of a user's registered devices
+ */
+export class PushChannelAdapter implements ChannelAdapter {
+  readonly channel = 'push' as const;
+  private sender: PushSender;
+
+  constructor(sender: PushSender) {
+    this.sender = sender;
+  }
+
+  async send(recipient: NotificationRecipient, message: NotificationMessage): Promise<void> {
+    const { deviceCount, successCount } = await this.sender.sendPush(recipient.userId, message);
+
+    if (deviceCount === 0) {
+      throw new PermanentDeliveryError('Recipient has no registered devices');
+    }
+    if (successCount === 0) {
+      throw new Error(`Push notification was not delivered to any of ${deviceCount} devices`);
+    }
+  }
+}
@@ -0,0 +1,8 @@
+export * from './types';
+export * from './NotificationDispatcher';
+export { PushChannelAdapter } from './PushChannelAdapter';
+export { EmailChannelAdapter } from './EmailChannelAdapter';
+export { HttpSmsAdapter } from './HttpSmsAdapter';
+export type { SmsGatewayOptions } from './HttpSmsAdapter';
+export { LocalChannelAdapter } from './LocalChannelAdapter';
+export type { LocalDelivery } from './LocalChannelAdapter';
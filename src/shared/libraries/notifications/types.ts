@@ -0,0 +1,54 @@
+/**
+ * Notification channel types
+ * Shared contract between the notification dispatcher and channel adapters
+ */
+
+export type NotificationChannel = 'push' | 'email' | 'sms';
+
+export interface NotificationRecipient {
+  userId: string;
+  email?: string;
+  phoneNumber?: string;
+}
+
+export interface NotificationMessage {
+  title: string;
+  body: string;
+  data?: Record<string, string>;
+}
+
+/**
+ * A channel adapter delivers a message over one channel.
+ * `send` resolves when the message was accepted and throws on failure,
+ * so the dispatcher can decide whether to retry.
+ */
+export interface ChannelAdapter {
+  readonly channel: NotificationChannel;
+  send(recipient: NotificationRecipient, message: NotificationMessage): Promise<void>;
+}
+
+/**
+ * Thrown for failures that will not succeed on retry (e.g. no address on file)
+ */
+export class PermanentDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentDeliveryError';
+  }
+}
+
+/**
+ * Outcome of a push to all of a user's registered devices
+ */
+export interface PushDeliveryResult {
+  deviceCount: number;
+  successCount: number;
+}
+
+/**
+ * Sends a push notification to a user's registered devices. Device
+ * registrations live outside this library, so the owner injects a sender.
+ */
+export interface PushSender {
+  sendPush(userId: string, message: NotificationMessage): Promise<PushDeliveryResult>;
+}
@@ -0,0 +1,48 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { StorageBackend } from './types';
+
+/**
+ * Stores objects as files under a local directory. The default backend for
+ * development and single-instance deployments.
+ */
+export class LocalStorageBackend implements StorageBackend {
+  readonly name = 'local';
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, body);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  /**
+   * Map a key to a path, refusing keys that would escape the storage directory
+   */
+  private resolve(key: string): string {
+    const file = path.resolve(this.directory, key);
+    if (!file.startsWith(this.directory + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  }
+}
@@ -0,0 +1,197 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { StorageBackend } from './types';
+
+export interface S3Options {
+  /** Service endpoint, e.g. https://s3.ap-south-1.amazonaws.com or a MinIO/R2 URL */
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Address the bucket in the path rather than the host name (MinIO and most self-hosted stores) */
+  forcePathStyle: boolean;
+}
+
+interface SignOptions {
+  headers?: Record<string, string>;
+  query?: Record<string, string>;
+  payloadHash: string;
+  date?: Date;
+}
+
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+const sha256 = (data: string | Buffer): string =>
+  crypto.createHash('sha256').update(data).digest('hex');
+
+const hmac = (key: string | Buffer, data: string): Buffer =>
+  crypto.createHmac('sha256', key).update(data).digest();
+
+// RFC 3986 encoding as required by Signature Version 4
+const encodeRfc3986 = (value: string): string =>
+  encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+
+/**
+ * Stores objects in an S3-compatible bucket using plain HTTPS requests signed
+ * with AWS Signature Version 4, so any S3 API (AWS, MinIO, R2, Spaces) works.
+ */
+export class S3StorageBackend implements StorageBackend {
+  readonly name = 's3';
+  private options: S3Options;
+
+  constructor(options: S3Options) {
+    this.options = {
+      ...options,
+      endpoint: options.endpoint.replace(/\/+$/, ''),
+    };
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const url = this.objectUrl(key);
+    const headers = this.sign('PUT', url, {
+      headers: { 'content-type': contentType },
+      payloadHash: sha256(body),
+    });
+
+    await axios.put(url.toString(), body, {
+      headers,
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+    });
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const url = this.objectUrl(key);
+    const headers = this.sign('GET', url, { payloadHash: UNSIGNED_PAYLOAD });
+
+    const response = await axios.get<ArrayBuffer>(url.toString(), {
+      headers,
+      responseType: 'arraybuffer',
+      validateStatus: (status) => status === 200 || status === 404,
+    });
+
+    return response.status === 404 ? null : Buffer.from(response.data);
+  }
+
+  async delete(key: string): Promise<void> {
+    const url = this.objectUrl(key);
+    const headers = this.sign('DELETE', url, { payloadHash: UNSIGNED_PAYLOAD });
+
+    await axios.delete(url.toString(), {
+      headers,
+      validateStatus: (status) => (status >= 200 && status < 300) || status === 404,
+    });
+  }
+
+  getSignedUrl(key: string, expiresInSeconds: number): string {
+    const url = this.objectUrl(key);
+    const date = new Date();
+    const query = {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${this.options.accessKeyId}/${this.scope(date)}`,
+      'X-Amz-Date': this.amzDate(date),
+      'X-Amz-Expires': String(Math.min(Math.max(Math.floor(expiresInSeconds), 1), 604800)),
+      'X-Amz-SignedHeaders': 'host',
+    };
+
+    const signature = this.signature('GET', url, {
+      query,
+      payloadHash: UNSIGNED_PAYLOAD,
+      date,
+    });
+
+    const queryString = Object.entries({ ...query, 'X-Amz-Signature': signature })
+      .map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value)}`)
+      .join('&');
+    return `${url.toString()}?${queryString}`;
+  }
+
+  // ============================================================================
+  // SIGNING
+  // ============================================================================
+
+  private objectUrl(key: string): URL {
+    const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+    const endpoint = new URL(this.options.endpoint);
+
+    if (this.options.forcePathStyle) {
+      return new URL(`${endpoint.origin}/${this.options.bucket}/${encodedKey}`);
+    }
+    return new URL(`${endpoint.protocol}//${this.options.bucket}.${endpoint.host}/${encodedKey}`);
+  }
+
+  /**
+   * Build the headers for a request signed with the Authorization header
+   */
+  private sign(method: string, url: URL, options: SignOptions): Record<string, string> {
+    const date = options.date ?? new Date();
+    const headers: Record<string, string> = {
+      ...options.headers,
+      'x-amz-content-sha256': options.payloadHash,
+      'x-amz-date': this.amzDate(date),
+    };
+
+    const signature = this.signature(method, url, { ...options, headers, date });
+    const signedHeaders = this.signedHeaderNames(headers).join(';');
+
+    return {
+      ...headers,
+      Authorization:
+        `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${this.scope(date)}, ` +
+        `SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    };
+  }
+
+  private signature(method: string, url: URL, options: SignOptions): string {
+    const date = options.date ?? new Date();
+    const headers = { ...options.headers, host: url.host };
+    const headerNames = this.signedHeaderNames(options.headers ?? {});
+
+    const canonicalQuery = Object.entries(options.query ?? {})
+      .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([name, value]) => `${name}=${value}`)
+      .join('&');
+
+    const canonicalHeaders = headerNames
+      .map((name) => `${name}:${String(headers[name as keyof typeof headers]).trim()}\n`)
+      .join('');
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      canonicalQuery,
+      canonicalHeaders,
+      headerNames.join(';'),
+      options.payloadHash,
+    ].join('\n');
+
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      this.amzDate(date),
+      this.scope(date),
+      sha256(canonicalRequest),
+    ].join('\n');
+
+    const dateKey = hmac(`AWS4${this.options.secretAccessKey}`, this.amzDate(date).slice(0, 8));
+    const signingKey = hmac(hmac(hmac(dateKey, this.options.region), 's3'), 'aws4_request');
+
+    return crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  }
+
+  private signedHeaderNames(headers: Record<string, string>): string[] {
+    return ['host', ...Object.keys(headers).map((name) => name.toLowerCase())].sort();
+  }
+
+  private scope(date: Date): string {
+    return `${this.amzDate(date).slice(0, 8)}/${this.options.region}/s3/aws4_request`;
+  }
+
+  private amzDate(date: Date): string {
+    return date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  }
+}
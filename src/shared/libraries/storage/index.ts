@@ -0,0 +1,22 @@
+import config from '../../config/config';
+import { StorageBackend } from './types';
+import { LocalStorageBackend } from './LocalStorageBackend';
+import { S3StorageBackend } from './S3StorageBackend';
+
+export * from './types';
+export { LocalStorageBackend } from './LocalStorageBackend';
+export { S3StorageBackend } from './S3StorageBackend';
+export type { S3Options } from './S3StorageBackend';
+
+/**
+ * Build the storage backend selected by `STORAGE_DRIVER`.
+ * S3 falls back to local disk when no bucket is configured.
+ */
+export function createStorageBackend(): StorageBackend {
+  const { driver, localDir, s3 } = config.storage;
+
+  if (driver === 's3' && s3.bucket) {
+    return new S3StorageBackend(s3);
+  }
+  return new LocalStorageBackend(localDir);
+}
@@ -0,0 +1,21 @@
+/**
+ * Object storage types
+ * Shared contract for storing uploaded files (local disk, S3-compatible buckets)
+ */
+
+/**
+ * A storage backend keeps opaque binary objects under string keys.
+ * Keys are generated by the caller and use `/` as a separator.
+ */
+export interface StorageBackend {
+  readonly name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  /** Resolve an object's contents, or null when it doesn't exist */
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+  /**
+   * Time-limited URL the client can download the object from directly.
+   * Backends without native signing leave this out and are served by the API.
+   */
+  getSignedUrl?(key: string, expiresInSeconds: number): string;
+}
@@ -1,12 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { AppError } from './errorHandler';
-import { TokenService } from '../../modules/auth/domain/services/TokenService';
+import { TokenService, TokenPayload } from '../../modules/auth/domain/services/TokenService';
+import type { UserRole } from '../../modules/auth/domain/models/User';
 
 export interface AuthRequest extends Request {
   user?: {
     userId: string;
     email?: string;
+    role?: UserRole;
+    sessionId?: string;
   };
 }
 
@@ -30,15 +33,14 @@ export const authenticate = async (
     }
 
     // Verify token
-    const decoded = TokenService.verifyToken(token) as {
-      userId: string;
-      email?: string;
-    };
+    const decoded = TokenService.verifyToken(token) as TokenPayload;
 
-    // Attach user to request
+    // Attach user to request (tokens issued before roles existed are travellers)
     req.user = {
       userId: decoded.userId,
       email: decoded.email,
+      role: decoded.role ?? 'traveller',
+      sessionId: decoded.sid,
     };
 
     next();
@@ -70,14 +72,13 @@ export const optionalAuth = async (
     }
 
     if (token) {
-      const decoded = TokenService.verifyToken(token) as {
-        userId: string;
-        email?: string;
-      };
+      const decoded = TokenService.verifyToken(token) as TokenPayload;
 
       req.user = {
         userId: decoded.userId,
         email: decoded.email,
+        role: decoded.role ?? 'traveller',
+        sessionId: decoded.sid,
       };
     }
     next();
@@ -87,5 +88,25 @@ export const optionalAuth = async (
   }
 };
 
+/**
+ * Restrict a route to users holding one of the given roles.
+ * Must run after `authenticate`; the role comes from the access token claim.
+ */
+export const authorize = (...roles: UserRole[]) => {
+  return (req: AuthRequest, _res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      next(new AppError('User not authenticated', 401));
+      return;
+    }
+
+    if (!roles.includes(req.user.role ?? 'traveller')) {
+      next(new AppError('Insufficient permissions', 403));
+      return;
+    }
+
+    next();
+  };
+};
+
 // Export auth as an alias for authenticate
 export const auth = authenticate;
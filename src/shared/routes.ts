@@ -5,9 +5,13 @@ import authRoutes from '../modules/auth/api/routes/authRoutes';
 import userRoutes from '../modules/auth/api/routes/userRoutes';
 import { chatbotRoutes } from '../modules/transport/api/routes/chatbotRoutes';
 import { incidentRoutes } from '../modules/transport/api/routes/incidentRoutes';
+import { timetableRoutes } from '../modules/transport/api/routes/timetableRoutes';
+import { holidayRoutes } from '../modules/transport/api/routes/holidayRoutes';
 import { safetyRoutes } from '../modules/safety/api/routes/safetyRoutes';
 import { incidentReportRoutes } from '../modules/safety/api/routes/incidentReportRoutes';
 import { pushNotificationRoutes } from '../modules/safety/api/routes/pushNotificationRoutes';
+import { sosRoutes } from '../modules/safety/api/routes/sosRoutes';
+import { mediaRoutes } from '../modules/media/api/routes/mediaRoutes';
 import weatherRoutes from '../modules/weather/api/routes/weatherRoutes';
 import healthRoutes from '../modules/weather/api/routes/HealthProfileRoutes';
 import aiEngineRoutes from '../modules/tour-agent/api/routes/aiEngineRoutes';
@@ -16,6 +20,8 @@ import savedTripRoutes from '../modules/tour-agent/api/routes/savedTripRoutes';
 import chatSessionRoutes from '../modules/tour-agent/api/routes/chatSessionRoutes';
 import locationRoutes from '../modules/tour-agent/api/routes/locationRoutes';
 import tourPlanRoutes from '../modules/tour-agent/api/routes/tourPlanRoutes';
+import { getCacheMetrics } from './libraries/cache';
+import { authenticate, authorize } from './middleware/auth';
 
 const router = Router();
 
@@ -37,14 +43,27 @@ router.get('/health', (_req, res) => {
   });
 });
 
+// Cache backend and per-namespace hit/miss counts (admin only)
+router.get('/health/cache', authenticate, authorize('admin'), (_req, res) => {
+  res.status(200).json({
+    success: true,
+    cache: getCacheMetrics(),
+    timestamp: new Date().toISOString(),
+  });
+});
+
 // API routes
 router.use('/auth', authRoutes);
 router.use('/users', userRoutes);
 router.use('/chatbot', chatbotRoutes);
 router.use('/transport-incidents', incidentRoutes);
+router.use('/timetables', timetableRoutes);
+router.use('/holidays', holidayRoutes);
 router.use('/safety', safetyRoutes);
 router.use('/incidents', incidentReportRoutes);
 router.use('/push-notifications', pushNotificationRoutes);
+router.use('/sos', sosRoutes);
+router.use('/media', mediaRoutes);
 router.use('/healthProfile', healthRoutes);
 router.use('/weather', weatherRoutes);
 router.use('/ai', aiEngineRoutes);
@@ -0,0 +1,120 @@
+import { CircuitBreaker, CircuitOpenError } from '../circuitBreaker';
+
+jest.mock('../../config/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn() },
+}));
+
+const OPTIONS = { failureThreshold: 3, resetTimeoutMs: 30000 };
+
+const succeed = (): Promise<string> => Promise.resolve('ok');
+const fail = (): Promise<never> => Promise.reject(new Error('ECONNREFUSED'));
+
+const tripped = async (): Promise<CircuitBreaker> => {
+  const breaker = new CircuitBreaker('ai-engine', OPTIONS);
+  for (let i = 0; i < OPTIONS.failureThreshold; i++) {
+    await expect(breaker.execute(fail)).rejects.toThrow('ECONNREFUSED');
+  }
+  return breaker;
+};
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T06:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('opens after the failure threshold and then fails fast', async () => {
+    const breaker = await tripped();
+    const operation = jest.fn(succeed);
+
+    await expect(breaker.execute(operation)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(operation).not.toHaveBeenCalled();
+    expect(breaker.isOpen()).toBe(true);
+    expect(breaker.getSnapshot()).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 3,
+      openedAt: '2026-10-19T06:00:00.000Z',
+      nextProbeAt: '2026-10-19T06:00:30.000Z',
+      lastFailure: 'ECONNREFUSED',
+    });
+  });
+
+  it('reports how long until the next probe', async () => {
+    const breaker = await tripped();
+    jest.advanceTimersByTime(10000);
+
+    await expect(breaker.execute(succeed)).rejects.toMatchObject({
+      circuit: 'ai-engine',
+      retryAfterMs: 20000,
+    });
+  });
+
+  it('starts counting again after a success', async () => {
+    const breaker = new CircuitBreaker('ai-engine', OPTIONS);
+
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await breaker.execute(succeed);
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getSnapshot().consecutiveFailures).toBe(1);
+  });
+
+  it('does not count errors the caller says are not failures', async () => {
+    const breaker = new CircuitBreaker('ai-engine', OPTIONS);
+    const notFound = (): Promise<never> => Promise.reject(new Error('404'));
+
+    for (let i = 0; i < 5; i++) {
+      await expect(breaker.execute(notFound, () => false)).rejects.toThrow('404');
+    }
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('lets one probe through once the reset timeout has passed, and closes if it succeeds', async () => {
+    const breaker = await tripped();
+    jest.advanceTimersByTime(OPTIONS.resetTimeoutMs);
+    expect(breaker.getState()).toBe('half_open');
+
+    let finishProbe: (value: string) => void = () => undefined;
+    const probe = jest.fn(
+      (_isProbe: boolean) => new Promise<string>((resolve) => (finishProbe = resolve))
+    );
+    const pending = breaker.execute(probe);
+
+    // Everyone else keeps failing fast while the probe is out
+    await expect(breaker.execute(succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+
+    finishProbe('ok');
+    await expect(pending).resolves.toBe('ok');
+    expect(probe).toHaveBeenCalledWith(true);
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getSnapshot().consecutiveFailures).toBe(0);
+  });
+
+  it('opens again for another reset timeout if the probe fails', async () => {
+    const breaker = await tripped();
+    jest.advanceTimersByTime(OPTIONS.resetTimeoutMs);
+
+    await expect(breaker.execute(fail)).rejects.toThrow('ECONNREFUSED');
+
+    expect(breaker.isOpen()).toBe(true);
+    expect(breaker.getSnapshot().nextProbeAt).toBe('2026-10-19T06:01:00.000Z');
+  });
+
+  it('lets the next call probe again if the probe is inconclusive', async () => {
+    const breaker = await tripped();
+    jest.advanceTimersByTime(OPTIONS.resetTimeoutMs);
+    const nested = (): Promise<never> => Promise.reject(new CircuitOpenError('weather', 1000));
+
+    await expect(breaker.execute(nested)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(breaker.getState()).toBe('half_open');
+
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+    expect(breaker.getState()).toBe('closed');
+  });
+});
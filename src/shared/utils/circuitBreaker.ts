@@ -0,0 +1,194 @@
+/**
+ * Circuit Breaker
+ * Stops calling a failing dependency for a while instead of making every
+ * request wait out its timeouts, then lets a single probe request through to
+ * see whether it has recovered.
+ *
+ * closed -> open after `failureThreshold` failures in a row
+ * open -> half_open once `resetTimeoutMs` has passed (the next call is the probe)
+ * half_open -> closed if the probe succeeds, back to open if it fails
+ */
+
+import { logger } from '../config/logger';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  resetTimeoutMs: number;
+}
+
+export interface CircuitSnapshot {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: string;
+  nextProbeAt?: string;
+  lastFailure?: string;
+}
+
+/**
+ * Thrown instead of calling the dependency while the circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(
+    readonly circuit: string,
+    readonly retryAfterMs: number
+  ) {
+    super(`Circuit ${circuit} is open`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures: number = 0;
+  private openedAt: number | null = null;
+  private probeInFlight: boolean = false;
+  private lastFailure: string | null = null;
+
+  constructor(
+    readonly name: string,
+    private readonly options: CircuitBreakerOptions
+  ) {}
+
+  /**
+   * Run an operation through the circuit. The operation is told whether it is
+   * the half-open probe, so it can skip its own retries.
+   *
+   * Errors for which `isFailure` returns false (e.g. a 404) pass through
+   * without counting against the dependency. A CircuitOpenError from a nested
+   * circuit counts neither way.
+   */
+  async execute<T>(
+    operation: (isProbe: boolean) => Promise<T>,
+    isFailure: (error: unknown) => boolean = () => true
+  ): Promise<T> {
+    const isProbe = this.acquire();
+
+    try {
+      const result = await operation(isProbe);
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (error instanceof CircuitOpenError || !isFailure(error)) {
+        if (isProbe) {
+          // Inconclusive probe: let the next call try again
+          this.probeInFlight = false;
+        }
+        if (!(error instanceof CircuitOpenError)) {
+          this.onSuccess();
+        }
+      } else {
+        this.onFailure(error);
+      }
+      throw error;
+    }
+  }
+
+  getState(): CircuitState {
+    if (this.state === 'open' && this.probeDue()) {
+      return 'half_open';
+    }
+    return this.state;
+  }
+
+  isOpen(): boolean {
+    return this.getState() === 'open';
+  }
+
+  getSnapshot(): CircuitSnapshot {
+    return {
+      name: this.name,
+      state: this.getState(),
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : undefined,
+      nextProbeAt:
+        this.openedAt && this.state !== 'closed'
+          ? new Date(this.openedAt + this.options.resetTimeoutMs).toISOString()
+          : undefined,
+      lastFailure: this.lastFailure ?? undefined,
+    };
+  }
+
+  /**
+   * Decide whether a call may go ahead; returns true if it is the probe
+   */
+  private acquire(): boolean {
+    if (this.state === 'closed') {
+      return false;
+    }
+
+    if (this.state === 'open') {
+      if (!this.probeDue()) {
+        throw new CircuitOpenError(this.name, this.retryAfterMs());
+      }
+      this.transition('half_open');
+    }
+
+    // Half-open: one probe at a time, everyone else keeps failing fast
+    if (this.probeInFlight) {
+      throw new CircuitOpenError(this.name, this.retryAfterMs());
+    }
+    this.probeInFlight = true;
+    return true;
+  }
+
+  private onSuccess(): void {
+    this.consecutiveFailures = 0;
+    if (this.state !== 'closed') {
+      this.probeInFlight = false;
+      this.openedAt = null;
+      this.transition('closed');
+    }
+  }
+
+  private onFailure(error: unknown): void {
+    this.consecutiveFailures++;
+    this.lastFailure = (error as Error)?.message || String(error);
+
+    if (this.state === 'half_open') {
+      this.probeInFlight = false;
+      this.open();
+    } else if (
+      this.state === 'closed' &&
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      this.open();
+    }
+  }
+
+  private open(): void {
+    this.openedAt = Date.now();
+    this.transition('open');
+  }
+
+  private probeDue(): boolean {
+    return this.openedAt !== null && Date.now() - this.openedAt >= this.options.resetTimeoutMs;
+  }
+
+  private retryAfterMs(): number {
+    if (this.openedAt === null) return 0;
+    return Math.max(0, this.openedAt + this.options.resetTimeoutMs - Date.now());
+  }
+
+  private transition(state: CircuitState): void {
+    if (this.state === state) return;
+
+    const previous = this.state;
+    this.state = state;
+
+    const details = {
+      from: previous,
+      consecutiveFailures: this.consecutiveFailures,
+      lastFailure: this.lastFailure,
+    };
+    if (state === 'open') {
+      logger.warn(`Circuit ${this.name} opened`, details);
+    } else {
+      logger.info(`Circuit ${this.name} ${state === 'closed' ? 'closed' : 'half-open'}`, details);
+    }
+  }
+}
+
+export default CircuitBreaker;
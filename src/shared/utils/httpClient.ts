@@ -1,12 +1,55 @@
 /**
  * HTTP Client Utility for AI Engine API communication
- * Provides a configured Axios instance with logging, retry logic, and error handling
+ * Provides a configured Axios instance with logging, retry logic, circuit
+ * breaking, and error handling
  */
 
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, AxiosError } from 'axios';
+import type { Readable } from 'stream';
 import { logger } from '../config/logger';
 import { aiEngineConfig } from '../config/aiEngine';
 import { AIEngineError } from '../../modules/tour-agent/domain/types/aiEngine';
+import { CircuitBreaker, CircuitOpenError, CircuitSnapshot } from './circuitBreaker';
+
+// Connection failures that mean the whole engine is down, not one endpoint
+const UNREACHABLE_CODES = [
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ENOTFOUND',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'EAI_AGAIN',
+];
+
+export interface AIEngineCircuitHealth {
+  status: 'up' | 'degraded' | 'down';
+  engine: CircuitSnapshot;
+  endpoints: CircuitSnapshot[];
+}
+
+/**
+ * The engine could not be reached at all
+ */
+const isUnreachableError = (error: unknown): boolean =>
+  axios.isAxiosError(error) && !error.response && UNREACHABLE_CODES.includes(error.code || '');
+
+/**
+ * The engine (or this endpoint of it) is down, overloaded or timing out.
+ * 4xx responses mean the engine is up and rejected the request.
+ */
+const isFailureResponse = (error: unknown): boolean => {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+  const status = error.response?.status;
+  return status === undefined || status >= 500;
+};
+
+/**
+ * Whether a failed AI Engine call is worth serving a fallback for
+ */
+export const isEngineUnavailableError = (error: unknown): boolean =>
+  error instanceof CircuitOpenError || isFailureResponse(error);
 
 /**
  * HTTP Client class for making requests to the AI Engine
@@ -15,10 +58,13 @@ class HttpClient {
   private client: AxiosInstance;
   private retryAttempts: number;
   private retryDelay: number;
+  private engineCircuit: CircuitBreaker;
+  private endpointCircuits: Map<string, CircuitBreaker> = new Map();
 
   constructor() {
     this.retryAttempts = aiEngineConfig.retryAttempts;
     this.retryDelay = aiEngineConfig.retryDelay;
+    this.engineCircuit = new CircuitBreaker('ai-engine', aiEngineConfig.circuitBreaker);
 
     this.client = axios.create({
       baseURL: aiEngineConfig.baseUrl,
@@ -171,11 +217,54 @@ class HttpClient {
     throw lastError!;
   }
 
+  /**
+   * Circuit for an endpoint. Path parameters and query strings share their
+   * endpoint's circuit, e.g. /api/v1/explain/Sigiriya uses /api/v1/explain.
+   */
+  private getEndpointCircuit(url: string): CircuitBreaker {
+    const path = url.replace(aiEngineConfig.baseUrl, '').split('?')[0];
+    const endpoint =
+      Object.values(aiEngineConfig.endpoints)
+        .filter((known) => path === known || path.startsWith(`${known}/`))
+        .sort((a, b) => b.length - a.length)[0] || path;
+
+    let circuit = this.endpointCircuits.get(endpoint);
+    if (!circuit) {
+      circuit = new CircuitBreaker(`ai-engine ${endpoint}`, aiEngineConfig.circuitBreaker);
+      this.endpointCircuits.set(endpoint, circuit);
+    }
+    return circuit;
+  }
+
+  /**
+   * Execute request through the engine-wide and endpoint circuits. Probe
+   * requests are sent once, without retries, so recovery is detected quickly.
+   */
+  private async execute<T>(
+    url: string,
+    operation: () => Promise<AxiosResponse<T>>
+  ): Promise<AxiosResponse<T>> {
+    const endpointCircuit = this.getEndpointCircuit(url);
+
+    return this.engineCircuit.execute(
+      (engineProbe) =>
+        endpointCircuit.execute(
+          (endpointProbe) =>
+            this.executeWithRetry<T>(
+              operation,
+              engineProbe || endpointProbe ? 1 : this.retryAttempts
+            ),
+          isFailureResponse
+        ),
+      isUnreachableError
+    );
+  }
+
   /**
    * Make a GET request
    */
   async get<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
-    const response = await this.executeWithRetry<T>(() => this.client.get<T>(url, config));
+    const response = await this.execute<T>(url, () => this.client.get<T>(url, config));
     return response.data;
   }
 
@@ -183,7 +272,7 @@ class HttpClient {
    * Make a POST request
    */
   async post<T>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<T> {
-    const response = await this.executeWithRetry<T>(() => this.client.post<T>(url, data, config));
+    const response = await this.execute<T>(url, () => this.client.post<T>(url, data, config));
     return response.data;
   }
 
@@ -196,17 +285,36 @@ class HttpClient {
     data?: unknown,
     timeoutMs: number = 120000
   ): Promise<T> {
-    const response = await this.executeWithRetry<T>(() =>
+    const response = await this.execute<T>(url, () =>
       this.client.post<T>(url, data, { timeout: timeoutMs })
     );
     return response.data;
   }
 
+  /**
+   * Make a POST request whose response body is read as it arrives, for
+   * endpoints that report progress before their result. Only the wait for the
+   * response headers goes through retries and the circuits.
+   */
+  async postStream(
+    url: string,
+    data?: unknown,
+    config?: AxiosRequestConfig
+  ): Promise<AxiosResponse<Readable>> {
+    return this.execute<Readable>(url, () =>
+      this.client.post<Readable>(url, data, {
+        ...config,
+        responseType: 'stream',
+        headers: { Accept: 'text/event-stream, application/json', ...config?.headers },
+      })
+    );
+  }
+
   /**
    * Make a PUT request
    */
   async put<T>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<T> {
-    const response = await this.executeWithRetry<T>(() => this.client.put<T>(url, data, config));
+    const response = await this.execute<T>(url, () => this.client.put<T>(url, data, config));
     return response.data;
   }
 
@@ -214,7 +322,7 @@ class HttpClient {
    * Make a DELETE request
    */
   async delete<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
-    const response = await this.executeWithRetry<T>(() => this.client.delete<T>(url, config));
+    const response = await this.execute<T>(url, () => this.client.delete<T>(url, config));
     return response.data;
   }
 
@@ -222,6 +330,9 @@ class HttpClient {
    * Check if the AI Engine is reachable
    */
   async isHealthy(): Promise<boolean> {
+    if (this.engineCircuit.isOpen()) {
+      return false;
+    }
     try {
       await this.client.get('/api/v1/health', { timeout: 5000 });
       return true;
@@ -229,6 +340,31 @@ class HttpClient {
       return false;
     }
   }
+
+  /**
+   * Whether requests are currently being let through to the engine at all
+   */
+  isEngineReachable(): boolean {
+    return !this.engineCircuit.isOpen();
+  }
+
+  /**
+   * Circuit states: down when the engine can't be reached, degraded when only
+   * some endpoints are cut off
+   */
+  getCircuitHealth(): AIEngineCircuitHealth {
+    const endpoints = [...this.endpointCircuits.values()].map((circuit) => circuit.getSnapshot());
+    const engine = this.engineCircuit.getSnapshot();
+
+    let status: AIEngineCircuitHealth['status'] = 'up';
+    if (engine.state === 'open') {
+      status = 'down';
+    } else if (engine.state === 'half_open' || endpoints.some((e) => e.state !== 'closed')) {
+      status = 'degraded';
+    }
+
+    return { status, engine, endpoints };
+  }
 }
 
 // Export singleton instance
@@ -2,4 +2,5 @@
  * Utils index - Export all utilities from this module
  */
 
-export { httpClient } from './httpClient';
+export { httpClient, isEngineUnavailableError } from './httpClient';
+export { CircuitBreaker, CircuitOpenError } from './circuitBreaker';